@@ -3,6 +3,11 @@ import { readFileSync } from 'fs';
 
 const pkg = JSON.parse(readFileSync('./package.json', 'utf-8'));
 
+const requireBanner = [
+  "import { createRequire } from 'module';",
+  'const require = createRequire(import.meta.url);',
+];
+
 await esbuild.build({
   entryPoints: ['./index.ts'],
   bundle: true,
@@ -12,15 +17,24 @@ await esbuild.build({
   target: 'node18',
   external: ['commander'],
   banner: {
-    js: [
-      '#!/usr/bin/env node',
-      "import { createRequire } from 'module';",
-      'const require = createRequire(import.meta.url);',
-    ].join('\n'),
+    js: ['#!/usr/bin/env node', ...requireBanner].join('\n'),
   },
   define: {
     __VERSION__: JSON.stringify(pkg.version),
   },
 });
 
+// Worker thread entry for --jobs (loaded by index.js from the same directory)
+await esbuild.build({
+  entryPoints: ['./src/scanner/ScanWorker.ts'],
+  bundle: true,
+  outfile: 'dist/scan-worker.js',
+  format: 'esm',
+  platform: 'node',
+  target: 'node18',
+  banner: {
+    js: requireBanner.join('\n'),
+  },
+});
+
 console.log(`Built CLI v${pkg.version}`);
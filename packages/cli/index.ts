@@ -14,22 +14,48 @@ import {
   InputValidationError,
   // GRX2 Extended Pack Support
   getMachineId,
+  extractDeviceModel,
+  applyInlineSuppressions,
+  SUPPRESSION_RULES,
+  SecretRedactor,
 } from '@sentriflow/core';
 import type { VendorSchema } from '@sentriflow/core';
-import type { IRule, RuleResult, Tag } from '@sentriflow/core';
+import type { IFleetRule, IRule, RuleResult, Tag } from '@sentriflow/core';
 import { readFile } from 'fs/promises';
 import { statSync } from 'fs';
 import { resolve, dirname, basename } from 'path';
 import { generateSarif, generateMultiFileSarif } from './src/sarif';
-import type { FileResults } from './src/sarif';
-import { formatHuman, formatMultiFileHuman } from './src/human';
+import type { FileResults, RuleDescriptor } from './src/sarif';
+import { generateJunit, generateMultiFileJunit } from './src/junit';
+import { generateCsv, generateMultiFileCsv } from './src/csv';
+import { generateHtml, generateMultiFileHtml } from './src/html';
+import type { ReportOptions } from './src/report';
+import {
+  formatHuman,
+  formatMultiFileHuman,
+  formatBaselineHuman,
+} from './src/human';
+import { compareWithBaseline, getBaselineStates } from './src/baseline';
+import type { BaselineComparison } from './src/baseline';
+import {
+  EXIT_CODES,
+  FAIL_ON_LEVELS,
+  evaluateExitPolicy,
+  getErrorExitCode,
+  isFailOnLevel,
+} from './src/policy';
+import type { ExitPolicy } from './src/policy';
 import {
   resolveRules,
+  resolveRuleSet,
   findConfigFile,
-  ruleAppliesToVendor,
   mergeDirectoryOptions,
   loadConfigFile,
+  applyProfile,
+  selectProfile,
   type DirectoryConfig,
+  type ResolveOptions,
+  type SentriflowConfig,
 } from './src/config';
 import { validateInputFilePath } from './src/security/pathValidator';
 import {
@@ -38,11 +64,31 @@ import {
   DEFAULT_CONFIG_EXTENSIONS,
   validateRegexPattern,
 } from './src/scanner/DirectoryScanner';
+import { scanFilesByProfile } from './src/scanner/ProfileScanner';
+import { scanFleet } from './src/scanner/FleetScanner';
+import type { FleetScanOptions } from './src/scanner/FleetScanner';
+import type { FileScanOptions } from './src/scanner/FileScanner';
+import {
+  ScanCache,
+  computeScanFingerprint,
+  DEFAULT_SCAN_CACHE_DIRECTORY,
+} from './src/scanner/ScanCache';
 import {
   readStdin,
   validateStdinArgument,
   isStdinRequested,
 } from './src/loaders/stdin';
+import { registerFixCommand } from './src/commands/fix';
+import { registerSanitizeCommand } from './src/commands/sanitize';
+import { registerReportCommand } from './src/commands/report';
+import { registerSuppressionsCommand } from './src/commands/suppressions';
+import {
+  findSuppressionFile,
+  loadSuppressionFile,
+  partitionExpired,
+  applySharedSuppressions,
+} from './src/suppressions';
+import type { LoadedSuppressions } from './src/suppressions';
 
 /**
  * Enriched rule result with category and tags from the rule definition.
@@ -57,15 +103,17 @@ interface EnrichedResult extends RuleResult {
 
 /**
  * Enriches rule results with category and tags from the corresponding rule definitions.
+ * Findings of unused, expired and invalid suppression directives get the
+ * `suppression` category.
  * @param results - Array of rule results from the engine
  * @param rules - Array of rule definitions to lookup metadata
  * @returns Array of enriched results with category and tags
  */
 function enrichResultsWithRuleMetadata(
   results: RuleResult[],
-  rules: IRule[]
+  rules: RuleDescriptor[]
 ): EnrichedResult[] {
-  const ruleMap = new Map(rules.map((r) => [r.id, r]));
+  const ruleMap = new Map([...SUPPRESSION_RULES, ...rules].map((r) => [r.id, r]));
   return results.map((result) => {
     const rule = ruleMap.get(result.ruleId);
     return {
@@ -76,6 +124,122 @@ function enrichResultsWithRuleMetadata(
   });
 }
 
+/**
+ * Runs fleet rules over the results of a multi-file or directory scan and
+ * reports fleet rule errors as warnings.
+ * @param fileResults - Results of the per-file scan (fleet findings are appended)
+ * @param fleetRules - Fleet rules for files without a profile
+ * @param options - Suppressions and the config whose profiles are selected by path
+ * @returns Number of fleet findings added
+ */
+async function runFleetRulesOnFiles(
+  fileResults: FileResults[],
+  fleetRules: IFleetRule[],
+  options: FleetScanOptions
+): Promise<number> {
+  const { findings, errors } = await scanFleet(fileResults, fleetRules, options);
+  for (const error of errors) {
+    console.error(`Warning: Fleet rule ${error.ruleId} failed: ${error.message}`);
+  }
+  return findings;
+}
+
+/**
+ * Redacts secrets from the results of a multi-file or directory scan. The
+ * secrets of all files are learned first, so that a secret has the same
+ * placeholder in every file, also in fleet findings that quote it.
+ * @param fileResults - Results of the scan (updated in place)
+ * @param redactor - Redactor of the scan
+ */
+function redactFileResults(
+  fileResults: FileResults[],
+  redactor: SecretRedactor
+): void {
+  const vendors = fileResults.map((fr): VendorSchema | undefined => {
+    try {
+      return fr.vendor ? getVendor(fr.vendor.id) : undefined;
+    } catch {
+      return undefined;
+    }
+  });
+  fileResults.forEach((fr, i) => {
+    const vendor = vendors[i];
+    if (!vendor) return;
+    redactor.learnResults(fr.results, vendor);
+  });
+  fileResults.forEach((fr, i) => {
+    fr.results = redactor.redactResults(fr.results, vendors[i]);
+  });
+}
+
+/**
+ * Redacts secrets from a baseline comparison. Findings are matched on their
+ * raw node paths first; the current findings are redacted before the fixed
+ * ones, so that a secret keeps its placeholder across both.
+ * @param comparison - Comparison of the raw results
+ * @param redactor - Redactor of the scan
+ * @param vendor - Vendor of the scanned configuration
+ */
+function redactBaselineComparison(
+  comparison: BaselineComparison,
+  redactor: SecretRedactor,
+  vendor: VendorSchema
+): BaselineComparison {
+  const current = redactor.redactResults([...comparison.new, ...comparison.unchanged], vendor);
+  return {
+    new: current.slice(0, comparison.new.length),
+    unchanged: current.slice(comparison.new.length),
+    fixed: redactor.redactResults(comparison.fixed, vendor),
+  };
+}
+
+/**
+ * Adds the rules of profiles selected by path to the report rules, so that
+ * SARIF descriptors and JSON metadata cover every rule that produced results.
+ * @param reportRules - Rules of the report (updated in place)
+ * @param scannedRules - Rules the files were scanned with
+ */
+function addReportRules(
+  reportRules: RuleDescriptor[],
+  scannedRules: IRule[]
+): void {
+  const known = new Set(reportRules.map((rule) => rule.id));
+  for (const rule of scannedRules) {
+    if (!known.has(rule.id)) {
+      reportRules.push(rule);
+      known.add(rule.id);
+    }
+  }
+}
+
+/**
+ * Exits with the code for the outcome of a scan: a general error if files
+ * could not be scanned, a policy failure if the findings exceed the exit
+ * policy, otherwise returns (exit code 0).
+ * @param results - Results of all scanned files (baseline mode: new findings)
+ * @param policy - Exit policy from the CLI options and config file
+ * @param scanErrors - Number of files that could not be scanned
+ */
+function exitForScan(
+  results: RuleResult[],
+  policy: ExitPolicy,
+  scanErrors = 0
+): void {
+  if (scanErrors > 0) {
+    console.error(`Error: ${scanErrors} file(s) could not be scanned`);
+    process.exit(EXIT_CODES.error);
+  }
+
+  const outcome = evaluateExitPolicy(results, policy);
+  if (outcome.failed) {
+    // Explain failures of an explicit policy; by default any finding fails
+    if (policy.failOn !== undefined || policy.maxWarnings !== undefined) {
+      console.error(`Policy failed: ${outcome.reasons.join('; ')}`);
+    }
+    process.exit(EXIT_CODES.policyFailure);
+  }
+}
+
 const program = new Command();
 
 program
@@ -84,10 +248,15 @@ program
   .version(__VERSION__)
   .argument('[files...]', 'Path(s) to configuration file(s) (supports multiple files)')
   .option('--ast', 'Output the AST instead of rule results')
-  .option('-f, --format <format>', 'Output format (json, human, sarif)', 'json')
+  .option('--model', 'Output the normalized device model instead of rule results')
+  .option('-f, --format <format>', 'Output format (json, human, sarif, junit, csv, html)', 'json')
   .option('-q, --quiet', 'Only output failures (suppress passed results)')
   .option('-c, --config <path>', 'Path to config file (default: auto-detect)')
   .option('--no-config', 'Ignore config file')
+  .option(
+    '--profile <name>',
+    'Config file profile to apply (default: selected by the profile paths)'
+  )
   .option('-r, --rules <path>', 'Additional rules file to load (legacy)')
   .option(
     '--pack <path...>',
@@ -167,10 +336,57 @@ program
     (val) => parseInt(val, 10)
   )
   .option('--progress', 'Show progress during directory scanning')
+  .option(
+    '-j, --jobs <number>',
+    'Number of worker threads for multi-file and directory scans (default: 1)',
+    (val) => parseInt(val, 10)
+  )
+  .option(
+    '--cache',
+    'Reuse results of unchanged files from the scan cache (multi-file and directory scans)'
+  )
+  .option('--no-cache', 'Disable the scan cache')
+  .option(
+    '--cache-dir <path>',
+    'Scan cache directory (default: ~/.sentriflow/cache/scan, implies --cache)'
+  )
+  .option(
+    '--fleet',
+    'Run cross-device fleet rules across all scanned files (multi-file and directory scans)'
+  )
+  .option(
+    '--baseline <file>',
+    'Only report findings introduced relative to a baseline config (single file)'
+  )
+  .option(
+    '--no-inline-suppressions',
+    'Ignore sentriflow-disable-* comment directives in the configs'
+  )
+  .option(
+    '--suppressions <path>',
+    'Shared suppression file (default: auto-detect .sentriflow-suppressions.json)'
+  )
+  .option('--no-suppressions', 'Ignore the shared suppression file')
+  .option(
+    '--no-redact',
+    'Do not mask secrets (passwords, keys, SNMP communities) in reported lines and messages'
+  )
+  .option(
+    '--fail-on <level>',
+    `Lowest severity that fails the scan with exit code 1 (${FAIL_ON_LEVELS.join(', ')}; default: info)`
+  )
+  .option(
+    '--max-warnings <number>',
+    'Fail the scan with exit code 1 if there are more warnings than this',
+    (val) => parseInt(val, 10)
+  )
   .option(
     '--filter-special-ips',
     'Filter out special IP ranges (loopback, multicast, reserved, broadcast) from IP summary'
   )
+  // Subcommands define their own options (e.g. `fix -v`), so root options
+  // must appear before the subcommand name
+  .enablePositionalOptions()
   .action(async (files: string[], options) => {
     try {
       // Show machine ID mode (for license binding support)
@@ -233,6 +449,30 @@ program
         }
       }
 
+      // Worker threads for multi-file and directory scans
+      const jobs: number = options.jobs ?? 1;
+      if (!Number.isInteger(jobs) || jobs < 1) {
+        console.error('Error: --jobs must be a positive integer');
+        process.exit(2);
+      }
+
+      // Exit policy (CLI options take precedence over the config file)
+      if (options.failOn !== undefined && !isFailOnLevel(options.failOn)) {
+        console.error(
+          `Error: --fail-on must be one of ${FAIL_ON_LEVELS.join(', ')}`
+        );
+        process.exit(2);
+      }
+      const maxWarnings: number | undefined = options.maxWarnings;
+      if (
+        maxWarnings !== undefined &&
+        (!Number.isInteger(maxWarnings) || maxWarnings < 0)
+      ) {
+        console.error('Error: --max-warnings must be a non-negative integer');
+        process.exit(2);
+      }
+      const exitPolicy: ExitPolicy = { failOn: options.failOn, maxWarnings };
+
       // SEC-012: Resolve license key from CLI option or environment variable
       const licenseKey =
         options.licenseKey || process.env.SENTRIFLOW_LICENSE_KEY;
@@ -240,7 +480,7 @@ program
       // Resolve rules from config + CLI options
       const firstFile = files.length > 0 ? files[0] : undefined;
       const configSearchDir = firstFile ? dirname(resolve(firstFile)) : workingDir;
-      const rules = await resolveRules({
+      const resolveOptions: ResolveOptions = {
         configPath: options.config,
         noConfig: options.config === false, // --no-config sets this to false
         rulesPath: options.rules,
@@ -250,27 +490,114 @@ program
         jsonRulesPaths: options.jsonRules, // JSON rules files
         disableIds: options.disable ?? [],
         vendorId,
+        profile: options.profile,
         cwd: configSearchDir,
         allowedBaseDirs, // SEC-011: Pass allowed base dirs for rule file validation
-      });
-
-      // Load config file for additional options (filterSpecialIps)
+      };
+      const ruleSet = await resolveRuleSet(resolveOptions);
+      const rules = ruleSet.rules;
+      const fleetRules = options.fleet ? ruleSet.fleetRules : [];
+      // Rules for SARIF descriptors and JSON metadata, including fleet rules
+      const reportRules: RuleDescriptor[] = [...rules, ...fleetRules];
+      // Path options for the JUnit, CSV and HTML reports
+      const reportOptions: ReportOptions = {
+        relativePaths: options.relativePaths,
+        baseDir: process.cwd(),
+      };
+
+      // Load config file for additional options (filterSpecialIps, exit policy)
       // CLI option takes precedence over config file
       let filterSpecialIps = options.filterSpecialIps ?? false;
-      if (!options.filterSpecialIps && options.config !== false) {
+      // Files the rules were loaded from (part of the scan cache fingerprint)
+      const ruleSourceFiles: string[] = [options.rules, options.jsonRules, options.pack]
+        .flat()
+        .filter((path): path is string => typeof path === 'string');
+      // Config whose profiles are selected per file by path (without --profile)
+      let profileConfig: SentriflowConfig | undefined;
+      let profileBaseDir = workingDir;
+      if (options.config !== false) {
         const configPath = options.config ?? findConfigFile(configSearchDir);
         if (configPath) {
+          ruleSourceFiles.push(configPath);
           try {
             const config = await loadConfigFile(configPath, allowedBaseDirs);
             if (config.filterSpecialIps) {
               filterSpecialIps = true;
             }
+            exitPolicy.failOn ??= config.failOn;
+            exitPolicy.maxWarnings ??= config.maxWarnings;
+            ruleSourceFiles.push(...(config.jsonRules ?? []));
+            for (const profile of Object.values(config.profiles ?? {})) {
+              ruleSourceFiles.push(...(profile.jsonRules ?? []));
+            }
+            if (!options.profile) {
+              profileConfig = config;
+              profileBaseDir = dirname(configPath);
+            }
           } catch {
             // Config loading may fail, already handled by resolveRules
           }
         }
       }
 
+      // Per-file scan options for multi-file and directory modes
+      // Shared suppression file; expired entries no longer apply
+      let suppressions: LoadedSuppressions | undefined;
+      if (options.suppressions !== false) {
+        const suppressionPath =
+          options.suppressions ?? findSuppressionFile(configSearchDir);
+        if (suppressionPath) {
+          const loaded = await loadSuppressionFile(suppressionPath, allowedBaseDirs);
+          const { active, expired } = partitionExpired(loaded.entries);
+          if (expired.length > 0) {
+            console.error(
+              `Warning: ${expired.length} expired suppression(s) in ${loaded.path} no longer apply ` +
+                `(see 'sentriflow suppressions --check-expired')`
+            );
+          }
+          suppressions = { ...loaded, entries: active };
+        }
+      }
+      // Drops findings suppressed by the shared suppression file
+      const applySuppressions = (
+        fileResults: RuleResult[],
+        filePath: string | null,
+        content: string
+      ): RuleResult[] =>
+        suppressions
+          ? applySharedSuppressions(fileResults, suppressions, filePath, content)
+          : fileResults;
+
+      const scanOptions: FileScanOptions = {
+        vendor: options.vendor,
+        quiet: options.quiet,
+        filterSpecialIps,
+        inlineSuppressions: options.inlineSuppressions,
+        suppressions,
+      };
+      // Fleet rules follow the same profiles and suppressions as the per-file scan
+      const fleetScanOptions: FleetScanOptions = {
+        inlineSuppressions: options.inlineSuppressions,
+        suppressions,
+        config: profileConfig,
+        baseDir: profileBaseDir,
+        resolveOptions,
+      };
+
+      // Scan cache for multi-file and directory modes (--cache-dir implies --cache),
+      // one per rule set as profiles selected by path scan with different rules
+      const useScanCache: boolean = options.cache ?? options.cacheDir !== undefined;
+      const createScanCache = (cacheRules: IRule[]): ScanCache =>
+        new ScanCache(
+          resolve(options.cacheDir ?? DEFAULT_SCAN_CACHE_DIRECTORY),
+          computeScanFingerprint({
+            toolVersion: __VERSION__,
+            rules: cacheRules,
+            sourceFiles: ruleSourceFiles,
+            scanOptions,
+          })
+        );
+
       // List categories mode
       if (options.listCategories) {
         const counts = new Map<string, number>();
@@ -368,6 +695,15 @@ program
         return;
       }
 
+      // Baseline comparison is between two revisions of a single file
+      if (
+        options.baseline &&
+        (options.directory || files.length !== 1 || isStdinRequested(files))
+      ) {
+        console.error('Error: --baseline can only be used with a single file');
+        process.exit(2);
+      }
+
       // Directory scanning mode
       if (options.directory) {
         // Validate directory path
@@ -396,7 +732,9 @@ program
           if (configPath) {
             try {
               const config = await loadConfigFile(configPath, allowedBaseDirs);
-              directoryConfig = config.directory;
+              directoryConfig = (
+                options.profile ? applyProfile(config, options.profile) : config
+              ).directory;
             } catch (err) {
               // Config loading failed - continue without config
               if (options.progress) {
@@ -467,12 +805,13 @@ program
           );
         }
 
-        // AST mode for directory - output ASTs for all files
-        if (options.ast) {
+        // AST/model mode for directory - output ASTs or models for all files
+        if (options.ast || options.model) {
           const allAsts: Array<{
             file: string;
             vendor: { id: string; name: string };
-            ast: unknown;
+            ast?: unknown;
+            model?: unknown;
           }> = [];
 
           for (let i = 0; i < scanResult.files.length; i++) {
@@ -504,7 +843,9 @@ program
               allAsts.push({
                 file: filePath,
                 vendor: { id: vendor.id, name: vendor.name },
-                ast: nodes,
+                ...(options.ast
+                  ? { ast: nodes }
+                  : { model: extractDeviceModel(nodes, vendor.id) }),
               });
             } catch (err) {
               const errMsg =
@@ -513,7 +854,7 @@ program
               allAsts.push({
                 file: filePath,
                 vendor: { id: 'unknown', name: 'Unknown' },
-                ast: null,
+                ...(options.ast ? { ast: null } : { model: null }),
               });
             }
           }
@@ -533,91 +874,61 @@ program
           return;
         }
 
-        // Process each file and collect results
+        // Process each file and collect results (in file order, also with --jobs)
         const allFileResults: FileResults[] = [];
         let totalFailures = 0;
         let totalPassed = 0;
-        const engine = new RuleEngine();
-
-        for (let i = 0; i < scanResult.files.length; i++) {
-          const filePath = scanResult.files[i];
-          if (!filePath) continue;
-
-          if (options.progress) {
-            console.error(
-              `[${i + 1}/${scanResult.files.length}] Scanning: ${basename(
-                filePath
-              )}`
-            );
-          }
-
-          try {
-            const content = await readFile(filePath, 'utf-8');
-
-            // Resolve vendor per file
-            let vendor: VendorSchema;
-            if (options.vendor === 'auto') {
-              vendor = detectVendor(content);
-            } else {
-              vendor = getVendor(options.vendor);
-            }
-
-            // Filter rules by vendor for this file
-            const fileRules = rules.filter((rule) =>
-              ruleAppliesToVendor(rule, vendor.id)
-            );
-
-            const parser = new SchemaAwareParser({ vendor });
-            const nodes = parser.parse(content);
-            let results = engine.run(nodes, fileRules);
-
-            // Filter to failures only if quiet mode
-            if (options.quiet) {
-              results = results.filter((r) => !r.passed);
-            }
-
-            // Count results
-            const failures = results.filter((r) => !r.passed).length;
-            const passed = results.filter((r) => r.passed).length;
-            totalFailures += failures;
-            totalPassed += passed;
-
-            // Extract IP summary for this file (include subnet network addresses)
-            let fileIpSummary = extractIPSummary(content, { includeSubnetNetworks: true });
-
-            // Apply IP filtering if enabled (via CLI option or config)
-            if (filterSpecialIps) {
-              fileIpSummary = filterIPSummary(fileIpSummary, {
-                keepPublic: true,
-                keepPrivate: true,
-                keepCgnat: true,
-                keepLoopback: false,
-                keepLinkLocal: false,
-                keepMulticast: false,
-                keepReserved: false,
-                keepUnspecified: false,
-                keepBroadcast: false,
-                keepDocumentation: false,
-              });
+        let scanErrors = 0;
+
+        const {
+          outcomes,
+          rules: scannedRules,
+          cacheHits,
+        } = await scanFilesByProfile(scanResult.files, rules, {
+          jobs,
+          resolveOptions,
+          scanOptions,
+          config: profileConfig,
+          baseDir: profileBaseDir,
+          createCache: useScanCache ? createScanCache : undefined,
+          onFileStart: (index, filePath) => {
+            if (options.progress) {
+              console.error(
+                `[${index + 1}/${scanResult.files.length}] Scanning: ${basename(
+                  filePath
+                )}`
+              );
             }
+          },
+        });
+        if (useScanCache) {
+          console.error(
+            `Cache: ${cacheHits} of ${scanResult.files.length} files served from cache`
+          );
+        }
+        addReportRules(reportRules, scannedRules);
 
-            allFileResults.push({
-              filePath,
-              results,
-              vendor: { id: vendor.id, name: vendor.name },
-              ipSummary: fileIpSummary,
-            });
-          } catch (err) {
+        for (const { error, ...fileResults } of outcomes) {
+          if (error !== undefined) {
             // Report per-file errors but continue scanning
-            const errMsg = err instanceof Error ? err.message : 'Unknown error';
+            scanErrors++;
             console.error(
-              `  Error processing ${basename(filePath)}: ${errMsg}`
+              `  Error processing ${basename(fileResults.filePath)}: ${error}`
             );
-            allFileResults.push({
-              filePath,
-              results: [],
-            });
           }
+
+          // Count results
+          totalFailures += fileResults.results.filter((r) => !r.passed).length;
+          totalPassed += fileResults.results.filter((r) => r.passed).length;
+          allFileResults.push(fileResults);
+        }
+
+        // Cross-device checks over all parsed files (findings are failures)
+        if (options.fleet) {
+          totalFailures += await runFleetRulesOnFiles(allFileResults, fleetRules, fleetScanOptions);
+        }
+        if (options.redact) {
+          redactFileResults(allFileResults, new SecretRedactor());
         }
 
         // Output combined results
@@ -627,7 +938,7 @@ program
             baseDir: process.cwd(),
           };
           console.log(
-            generateMultiFileSarif(allFileResults, rules, sarifOptions)
+            generateMultiFileSarif(allFileResults, reportRules, sarifOptions)
           );
         } else if (options.format === 'human') {
           // Human-readable output with TTY color detection
@@ -637,6 +948,16 @@ program
             results: fr.results,
           }));
           console.log(formatMultiFileHuman(humanFiles, { color: isColorEnabled }));
+        } else if (options.format === 'junit') {
+          console.log(generateMultiFileJunit(allFileResults, reportOptions));
+        } else if (options.format === 'csv') {
+          console.log(
+            generateMultiFileCsv(allFileResults, reportRules, reportOptions)
+          );
+        } else if (options.format === 'html') {
+          console.log(
+            generateMultiFileHtml(allFileResults, reportRules, reportOptions)
+          );
         } else {
           // Combined JSON output with summary (default)
           const output = {
@@ -649,7 +970,7 @@ program
             files: allFileResults.map((fr) => ({
               file: fr.filePath,
               vendor: fr.vendor,
-              results: enrichResultsWithRuleMetadata(fr.results, rules),
+              results: enrichResultsWithRuleMetadata(fr.results, reportRules),
               ipSummary: fr.ipSummary,
             })),
           };
@@ -663,10 +984,11 @@ program
           );
         }
 
-        // Exit with error code if there are failures
-        if (totalFailures > 0) {
-          process.exit(1);
-        }
+        exitForScan(
+          allFileResults.flatMap((fr) => fr.results),
+          exitPolicy,
+          scanErrors
+        );
         return;
       }
 
@@ -698,7 +1020,7 @@ program
         let vendor: VendorSchema;
         if (options.vendor === 'auto') {
           vendor = detectVendor(content);
-          if (!options.quiet && !options.ast) {
+          if (!options.quiet && !options.ast && !options.model) {
             console.error(`Detected vendor: ${vendor.name} (${vendor.id})`);
           }
         } else {
@@ -722,6 +1044,7 @@ program
           jsonRulesPaths: options.jsonRules,
           disableIds: options.disable ?? [],
           vendorId: vendor.id,
+          profile: options.profile,
           cwd: workingDir,
           allowedBaseDirs,
         });
@@ -738,12 +1061,28 @@ program
           return;
         }
 
+        if (options.model) {
+          const output = {
+            vendor: { id: vendor.id, name: vendor.name },
+            model: extractDeviceModel(nodes, vendor.id),
+          };
+          console.log(JSON.stringify(output, null, 2));
+          return;
+        }
+
         const engine = new RuleEngine();
-        let results = engine.run(nodes, stdinRules);
+        let results = engine.run(nodes, stdinRules, { vendorId: vendor.id });
+        if (options.inlineSuppressions) {
+          results = applyInlineSuppressions(results, content, vendor).results;
+        }
+        results = applySuppressions(results, null, content);
 
         if (options.quiet) {
           results = results.filter((r) => !r.passed);
         }
+        if (options.redact) {
+          results = new SecretRedactor().redactResults(results, vendor);
+        }
 
         // Extract IP summary from stdin content (include subnet network addresses)
         let stdinIpSummary;
@@ -784,6 +1123,16 @@ program
           // Human-readable output with TTY color detection
           const isColorEnabled = process.stdout.isTTY && !process.env.NO_COLOR;
           console.log(formatHuman(results, '<stdin>', { color: isColorEnabled }));
+        } else if (options.format === 'junit') {
+          console.log(generateJunit(results, '<stdin>', reportOptions));
+        } else if (options.format === 'csv') {
+          console.log(
+            generateCsv(results, '<stdin>', stdinRules, reportOptions, vendor)
+          );
+        } else if (options.format === 'html') {
+          console.log(
+            generateHtml(results, '<stdin>', stdinRules, reportOptions, vendor)
+          );
         } else {
           // JSON output (default)
           const output = {
@@ -795,10 +1144,7 @@ program
           console.log(JSON.stringify(output, null, 2));
         }
 
-        const hasFailures = results.some((r) => !r.passed);
-        if (hasFailures) {
-          process.exit(1);
-        }
+        exitForScan(results, exitPolicy);
         return;
       }
 
@@ -807,7 +1153,11 @@ program
         const allFileResults: FileResults[] = [];
         let totalFailures = 0;
         let totalPassed = 0;
-        const engine = new RuleEngine();
+        let scanErrors = 0;
+
+        // Validate all files first; valid files are scanned below
+        const pendingSlots: number[] = [];
+        const pendingPaths: string[] = [];
 
         for (let i = 0; i < files.length; i++) {
           const file = files[i];
@@ -823,6 +1173,7 @@ program
           if (!fileValidation.valid) {
             // FR-016: Continue processing remaining files on error
             console.error(`Error processing ${file}: ${fileValidation.error}`);
+            scanErrors++;
             allFileResults.push({
               filePath: file,
               results: [],
@@ -836,70 +1187,65 @@ program
             const stats = statSync(filePath);
             if (stats.size > MAX_CONFIG_SIZE) {
               console.error(`Error: ${file} exceeds maximum size`);
+              scanErrors++;
               allFileResults.push({ filePath: file, results: [] });
               continue;
             }
-
-            const content = await readFile(filePath, 'utf-8');
-
-            // Resolve vendor per file
-            let vendor: VendorSchema;
-            if (options.vendor === 'auto') {
-              vendor = detectVendor(content);
-            } else {
-              vendor = getVendor(options.vendor);
-            }
-
-            // Filter rules by vendor for this file
-            const fileRules = rules.filter((rule) =>
-              ruleAppliesToVendor(rule, vendor.id)
-            );
-
-            const parser = new SchemaAwareParser({ vendor });
-            const nodes = parser.parse(content);
-            let results = engine.run(nodes, fileRules);
-
-            // Filter to failures only if quiet mode
-            if (options.quiet) {
-              results = results.filter((r) => !r.passed);
-            }
-
-            const failures = results.filter((r) => !r.passed).length;
-            const passed = results.filter((r) => r.passed).length;
-            totalFailures += failures;
-            totalPassed += passed;
-
-            // Extract IP summary for this file (include subnet network addresses)
-            let fileIpSummary = extractIPSummary(content, { includeSubnetNetworks: true });
-
-            // Apply IP filtering if enabled (via CLI option or config)
-            if (filterSpecialIps) {
-              fileIpSummary = filterIPSummary(fileIpSummary, {
-                keepPublic: true,
-                keepPrivate: true,
-                keepCgnat: true,
-                keepLoopback: false,
-                keepLinkLocal: false,
-                keepMulticast: false,
-                keepReserved: false,
-                keepUnspecified: false,
-                keepBroadcast: false,
-                keepDocumentation: false,
-              });
-            }
-
-            allFileResults.push({
-              filePath,
-              results,
-              vendor: { id: vendor.id, name: vendor.name },
-              ipSummary: fileIpSummary,
-            });
           } catch (err) {
-            // FR-016: Continue processing remaining files
             const errMsg = err instanceof Error ? err.message : 'Unknown error';
             console.error(`Error processing ${basename(file)}: ${errMsg}`);
+            scanErrors++;
             allFileResults.push({ filePath: file, results: [] });
+            continue;
+          }
+
+          pendingSlots.push(allFileResults.length);
+          pendingPaths.push(filePath);
+          allFileResults.push({ filePath: file, results: [] });
+        }
+
+        const {
+          outcomes,
+          rules: scannedRules,
+          cacheHits,
+        } = await scanFilesByProfile(pendingPaths, rules, {
+          jobs,
+          resolveOptions,
+          scanOptions,
+          config: profileConfig,
+          baseDir: profileBaseDir,
+          createCache: useScanCache ? createScanCache : undefined,
+        });
+        if (useScanCache) {
+          console.error(
+            `Cache: ${cacheHits} of ${pendingPaths.length} files served from cache`
+          );
+        }
+        addReportRules(reportRules, scannedRules);
+
+        outcomes.forEach(({ error, ...fileResults }, i) => {
+          const slot = pendingSlots[i]!;
+          if (error !== undefined) {
+            // FR-016: Continue processing remaining files
+            const file = allFileResults[slot]!.filePath;
+            console.error(`Error processing ${basename(file)}: ${error}`);
+            scanErrors++;
+            return;
           }
+          allFileResults[slot] = fileResults;
+        });
+
+        // Cross-device checks over all parsed files
+        if (options.fleet) {
+          await runFleetRulesOnFiles(allFileResults, fleetRules, fleetScanOptions);
+        }
+        if (options.redact) {
+          redactFileResults(allFileResults, new SecretRedactor());
+        }
+
+        for (const { results } of allFileResults) {
+          totalFailures += results.filter((r) => !r.passed).length;
+          totalPassed += results.filter((r) => r.passed).length;
         }
 
         // Output combined results (FR-015)
@@ -909,7 +1255,7 @@ program
             baseDir: process.cwd(),
           };
           console.log(
-            generateMultiFileSarif(allFileResults, rules, sarifOptions)
+            generateMultiFileSarif(allFileResults, reportRules, sarifOptions)
           );
         } else if (options.format === 'human') {
           // Human-readable output with TTY color detection
@@ -919,6 +1265,16 @@ program
             results: fr.results,
           }));
           console.log(formatMultiFileHuman(humanFiles, { color: isColorEnabled }));
+        } else if (options.format === 'junit') {
+          console.log(generateMultiFileJunit(allFileResults, reportOptions));
+        } else if (options.format === 'csv') {
+          console.log(
+            generateMultiFileCsv(allFileResults, reportRules, reportOptions)
+          );
+        } else if (options.format === 'html') {
+          console.log(
+            generateMultiFileHtml(allFileResults, reportRules, reportOptions)
+          );
         } else {
           // JSON output (default)
           const output = {
@@ -931,16 +1287,18 @@ program
             files: allFileResults.map((fr) => ({
               file: fr.filePath,
               vendor: fr.vendor,
-              results: enrichResultsWithRuleMetadata(fr.results, rules),
+              results: enrichResultsWithRuleMetadata(fr.results, reportRules),
               ipSummary: fr.ipSummary,
             })),
           };
           console.log(JSON.stringify(output, null, 2));
         }
 
-        if (totalFailures > 0) {
-          process.exit(1);
-        }
+        exitForScan(
+          allFileResults.flatMap((fr) => fr.results),
+          exitPolicy,
+          scanErrors
+        );
         return;
       }
 
@@ -983,7 +1341,7 @@ program
       if (options.vendor === 'auto') {
         vendor = detectVendor(content);
         // Show detected vendor in non-quiet mode
-        if (!options.quiet && !options.ast) {
+        if (!options.quiet && !options.ast && !options.model) {
           console.error(`Detected vendor: ${vendor.name} (${vendor.id})`);
         }
       } else {
@@ -1009,6 +1367,9 @@ program
         jsonRulesPaths: options.jsonRules,
         disableIds: options.disable ?? [],
         vendorId: vendor.id, // Now we have the actual detected vendor
+        profile:
+          options.profile ??
+          (profileConfig && selectProfile(profileConfig, filePath, profileBaseDir)),
         cwd: configSearchDir,
         allowedBaseDirs,
       });
@@ -1029,8 +1390,127 @@ program
         return;
       }
 
+      if (options.model) {
+        // Normalized device model, with the same vendor info as --ast
+        const output = {
+          vendor: {
+            id: vendor.id,
+            name: vendor.name,
+          },
+          model: extractDeviceModel(nodes, vendor.id),
+        };
+        console.log(JSON.stringify(output, null, 2));
+        return;
+      }
+
       const engine = new RuleEngine();
-      let results = engine.run(nodes, singleFileRules);
+      let results = engine.run(nodes, singleFileRules, { vendorId: vendor.id });
+      if (options.inlineSuppressions) {
+        results = applyInlineSuppressions(results, content, vendor).results;
+      }
+      results = applySuppressions(results, filePath, content);
+      const redactor = options.redact ? new SecretRedactor() : undefined;
+
+      // Baseline mode: report new, fixed and unchanged findings
+      if (options.baseline) {
+        const baselineValidation = validateInputFilePath(
+          options.baseline,
+          MAX_CONFIG_SIZE,
+          allowedBaseDirs
+        );
+        if (!baselineValidation.valid) {
+          console.error(`Error: Baseline ${baselineValidation.error}`);
+          process.exit(2);
+        }
+
+        const baselinePath = baselineValidation.canonicalPath!;
+        const baselineContent = await readFile(baselinePath, 'utf-8');
+        const baselineNodes = parser.parse(baselineContent);
+        let baselineResults = engine.run(baselineNodes, singleFileRules, {
+          vendorId: vendor.id,
+        });
+        if (options.inlineSuppressions) {
+          baselineResults = applyInlineSuppressions(
+            baselineResults,
+            baselineContent,
+            vendor
+          ).results;
+        }
+        // The baseline is an earlier revision of the same file
+        baselineResults = applySuppressions(baselineResults, filePath, baselineContent);
+        // Findings are matched before redaction, on their raw paths
+        let comparison = compareWithBaseline(baselineResults, results);
+        if (redactor) {
+          comparison = redactBaselineComparison(comparison, redactor, vendor);
+        }
+
+        if (options.format === 'sarif') {
+          const sarifOptions = {
+            relativePaths: options.relativePaths,
+            baseDir: process.cwd(),
+            baseline: {
+              filePath: baselinePath,
+              states: getBaselineStates(comparison),
+            },
+          };
+          console.log(
+            generateSarif(
+              [...comparison.new, ...comparison.unchanged, ...comparison.fixed],
+              filePath,
+              singleFileRules,
+              sarifOptions
+            )
+          );
+        } else if (options.format === 'human') {
+          const isColorEnabled = process.stdout.isTTY && !process.env.NO_COLOR;
+          console.log(
+            formatBaselineHuman(comparison, filePath, baselinePath, {
+              color: isColorEnabled,
+            })
+          );
+        } else if (options.format === 'junit') {
+          // Reports list the new findings, the ones that fail the run
+          console.log(generateJunit(comparison.new, filePath, reportOptions));
+        } else if (options.format === 'csv') {
+          console.log(
+            generateCsv(comparison.new, filePath, singleFileRules, reportOptions, vendor)
+          );
+        } else if (options.format === 'html') {
+          console.log(
+            generateHtml(comparison.new, filePath, singleFileRules, reportOptions, vendor)
+          );
+        } else {
+          const output = {
+            vendor: {
+              id: vendor.id,
+              name: vendor.name,
+            },
+            baseline: {
+              file: baselinePath,
+              summary: {
+                new: comparison.new.length,
+                fixed: comparison.fixed.length,
+                unchanged: comparison.unchanged.length,
+              },
+            },
+            new: enrichResultsWithRuleMetadata(comparison.new, singleFileRules),
+            fixed: enrichResultsWithRuleMetadata(comparison.fixed, singleFileRules),
+            unchanged: enrichResultsWithRuleMetadata(
+              comparison.unchanged,
+              singleFileRules
+            ),
+          };
+          console.log(JSON.stringify(output, null, 2));
+        }
+
+        // Only findings introduced by the change fail the run
+        exitForScan(comparison.new, exitPolicy);
+        return;
+      }
+
+      if (redactor) {
+        results = redactor.redactResults(results, vendor);
+      }
 
       // Filter to failures only if quiet mode
       if (options.quiet) {
@@ -1069,6 +1549,16 @@ program
         // Human-readable output with TTY color detection
         const isColorEnabled = process.stdout.isTTY && !process.env.NO_COLOR;
         console.log(formatHuman(results, filePath, { color: isColorEnabled }));
+      } else if (options.format === 'junit') {
+        console.log(generateJunit(results, filePath, reportOptions));
+      } else if (options.format === 'csv') {
+        console.log(
+          generateCsv(results, filePath, singleFileRules, reportOptions, vendor)
+        );
+      } else if (options.format === 'html') {
+        console.log(
+          generateHtml(results, filePath, singleFileRules, reportOptions, vendor)
+        );
       } else {
         // Include vendor info and IP summary in JSON output (default)
         const output = {
@@ -1082,11 +1572,7 @@ program
         console.log(JSON.stringify(output, null, 2));
       }
 
-      // Exit with error code if there are failures
-      const hasFailures = results.some((r) => !r.passed);
-      if (hasFailures) {
-        process.exit(1);
-      }
+      exitForScan(results, exitPolicy);
     } catch (error) {
       // Structured error handling (L-1 fix)
       if (error instanceof SentriflowError) {
@@ -1097,7 +1583,7 @@ program
       } else {
         console.error('Error: An unexpected error occurred');
       }
-      process.exit(2);
+      process.exit(getErrorExitCode(error));
     }
   });
 
@@ -1161,6 +1647,11 @@ and can enable cloud features like pack downloads and license activation.
   }
 }
 
+registerFixCommand(program);
+registerSanitizeCommand(program);
+registerReportCommand(program);
+registerSuppressionsCommand(program);
+
 // Load licensing extension (if available) before parsing
 loadLicensingExtension().finally(() => {
   program.parse();
@@ -0,0 +1,109 @@
+// packages/cli/src/baseline.ts
+// Baseline comparison: classify findings as new, fixed or unchanged
+
+import type { RuleResult } from '@sentriflow/core';
+
+/**
+ * State of a finding relative to the baseline configuration.
+ * Mirrors the SARIF `baselineState` values used for these cases.
+ */
+export type BaselineState = 'new' | 'unchanged' | 'absent';
+
+/**
+ * Findings of the current configuration compared with a baseline.
+ */
+export interface BaselineComparison {
+  /** Failures present in the current config but not in the baseline */
+  new: RuleResult[];
+  /** Failures present in the baseline but no longer in the current config */
+  fixed: RuleResult[];
+  /** Failures present in both (from the current config) */
+  unchanged: RuleResult[];
+}
+
+/**
+ * Returns the key a finding is matched by: rule ID plus node path.
+ * Falls back to the node ID for results without a path.
+ */
+function findingKey(result: RuleResult): string {
+  return `${result.ruleId}\u0000${result.path ?? result.nodeId}`;
+}
+
+/**
+ * Returns the failed results paired with their finding keys, in order.
+ */
+function keyFailures(results: RuleResult[]): Array<[string, RuleResult]> {
+  return results
+    .filter((r) => !r.passed)
+    .map((r): [string, RuleResult] => [findingKey(r), r]);
+}
+
+/**
+ * Counts occurrences of each finding key.
+ */
+function countKeys(keyed: Array<[string, RuleResult]>): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const [key] of keyed) {
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Compares findings of the current configuration with those of a baseline.
+ *
+ * Findings are matched by rule ID and node path (RuleResult.path) rather than
+ * line number, so moving a block or inserting lines above it does not turn
+ * existing findings into new ones. When the same rule fails several times on
+ * the same path, occurrences are matched pairwise in order.
+ *
+ * @param baselineResults Results from the baseline config
+ * @param currentResults Results from the current config
+ * @returns New, fixed and unchanged findings, each in original result order
+ */
+export function compareWithBaseline(
+  baselineResults: RuleResult[],
+  currentResults: RuleResult[]
+): BaselineComparison {
+  const baseline = keyFailures(baselineResults);
+  const current = keyFailures(currentResults);
+  const baselineCounts = countKeys(baseline);
+  const currentCounts = countKeys(current);
+  const comparison: BaselineComparison = { new: [], fixed: [], unchanged: [] };
+
+  const seen = new Map<string, number>();
+  for (const [key, result] of current) {
+    const occurrence = seen.get(key) ?? 0;
+    seen.set(key, occurrence + 1);
+    if (occurrence < (baselineCounts.get(key) ?? 0)) {
+      comparison.unchanged.push(result);
+    } else {
+      comparison.new.push(result);
+    }
+  }
+
+  seen.clear();
+  for (const [key, result] of baseline) {
+    const occurrence = seen.get(key) ?? 0;
+    seen.set(key, occurrence + 1);
+    if (occurrence >= (currentCounts.get(key) ?? 0)) {
+      comparison.fixed.push(result);
+    }
+  }
+
+  return comparison;
+}
+
+/**
+ * Returns the baseline state of every finding in a comparison.
+ * Fixed findings are reported as 'absent'.
+ */
+export function getBaselineStates(
+  comparison: BaselineComparison
+): Map<RuleResult, BaselineState> {
+  const states = new Map<RuleResult, BaselineState>();
+  for (const result of comparison.new) states.set(result, 'new');
+  for (const result of comparison.unchanged) states.set(result, 'unchanged');
+  for (const result of comparison.fixed) states.set(result, 'absent');
+  return states;
+}
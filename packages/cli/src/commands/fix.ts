@@ -0,0 +1,226 @@
+// packages/cli/src/commands/fix.ts
+// `sentriflow fix` - apply machine-applicable rule fixes to a configuration
+
+import type { Command } from 'commander';
+import {
+  SchemaAwareParser,
+  RuleEngine,
+  SentriflowError,
+  MAX_CONFIG_SIZE,
+  detectVendor,
+  getVendor,
+  getAvailableVendors,
+  applyFixes,
+  formatUnifiedDiff,
+  applyInlineSuppressions,
+} from '@sentriflow/core';
+import type { IRule, RuleFix, VendorSchema } from '@sentriflow/core';
+import { readFile, writeFile } from 'fs/promises';
+import { statSync } from 'fs';
+import { resolve, dirname, basename } from 'path';
+import { resolveRules } from '../config';
+import { getErrorExitCode } from '../policy';
+import { validateInputFilePath } from '../security/pathValidator';
+
+/**
+ * Outcome of fixing a single configuration.
+ */
+export interface FixOutcome {
+  /** Patched configuration text */
+  content: string;
+  /** Unified diff between the original and patched text (empty if unchanged) */
+  diff: string;
+  /** Fixes that were applied */
+  applied: RuleFix[];
+  /** Fixes skipped because they conflicted with an earlier fix */
+  skipped: RuleFix[];
+  /** Rule IDs of failures that have no machine-applicable fix */
+  unfixable: string[];
+}
+
+/**
+ * Runs the rules against a configuration and applies every available fix.
+ *
+ * @param content Original configuration text
+ * @param vendor Vendor schema used for parsing
+ * @param rules Rules to run
+ * @param fileName Name used in the diff headers
+ * @param onlyRuleIds Optional allow-list of rule IDs whose fixes are applied
+ */
+export function fixConfig(
+  content: string,
+  vendor: VendorSchema,
+  rules: IRule[],
+  fileName: string,
+  onlyRuleIds?: string[]
+): FixOutcome {
+  const parser = new SchemaAwareParser({ vendor });
+  const nodes = parser.parse(content);
+  const engine = new RuleEngine();
+  const only = onlyRuleIds ? new Set(onlyRuleIds) : undefined;
+
+  const results = engine.run(nodes, rules, { vendorId: vendor.id });
+  // Findings suppressed by comment directives are not fixed
+  const suppressed = new Set(
+    applyInlineSuppressions(results, content, vendor).suppressed
+  );
+  const failures = results.filter(
+    (r) => !r.passed && !suppressed.has(r) && (!only || only.has(r.ruleId))
+  );
+
+  const fixes = failures.flatMap((r) => (r.fix ? [r.fix] : []));
+  const unfixable = [
+    ...new Set(failures.filter((r) => !r.fix).map((r) => r.ruleId)),
+  ];
+
+  const result = applyFixes(content, fixes);
+  return {
+    content: result.content,
+    diff: formatUnifiedDiff(content, result.edits, fileName),
+    applied: result.applied,
+    skipped: result.skipped,
+    unfixable,
+  };
+}
+
+/**
+ * Registers the `fix` subcommand.
+ *
+ * The patched configuration is written to stdout (or --output); with --diff a
+ * unified diff is written instead. A summary is always written to stderr so
+ * stdout can be redirected straight into a file or `patch`.
+ */
+export function registerFixCommand(program: Command): void {
+  program
+    .command('fix')
+    .description('Apply automatic fixes and output the patched config or a diff')
+    .argument('<file>', 'Path to the configuration file')
+    .option('--diff', 'Output a unified diff instead of the patched config')
+    .option('-o, --output <path>', 'Write output to a file instead of stdout')
+    .option('--only <ids>', 'Comma-separated rule IDs whose fixes to apply', (val) =>
+      val.split(',')
+    )
+    .option('-c, --config <path>', 'Path to config file (default: auto-detect)')
+    .option('--no-config', 'Ignore config file')
+    .option(
+      '--pack <path...>',
+      'Path(s) to rule pack(s) (.grx2 encrypted or unencrypted JS/TS modules)'
+    )
+    .option(
+      '--license-key <key>',
+      'License key for encrypted rule packs (or set SENTRIFLOW_LICENSE_KEY)'
+    )
+    .option(
+      '--strict-packs',
+      'Fail immediately if any pack cannot be loaded (default: warn and continue)'
+    )
+    .option(
+      '--json-rules <path...>',
+      'Path(s) to JSON rules file(s), can specify multiple'
+    )
+    .option('-d, --disable <ids>', 'Comma-separated rule IDs to disable', (val) =>
+      val.split(',')
+    )
+    .option(
+      '--allow-external',
+      'Allow reading files outside the current directory (use with caution)'
+    )
+    .option(
+      '-v, --vendor <vendor>',
+      `Vendor type (${getAvailableVendors().join(', ')}, auto)`,
+      'auto'
+    )
+    .action(async (file: string, options) => {
+      try {
+        const workingDir = process.cwd();
+        const allowedBaseDirs = options.allowExternal ? undefined : [workingDir];
+
+        const fileValidation = validateInputFilePath(
+          file,
+          MAX_CONFIG_SIZE,
+          allowedBaseDirs
+        );
+        if (!fileValidation.valid) {
+          if (fileValidation.error?.includes('outside allowed directories')) {
+            console.error(`Error: File is outside project directory: ${file}`);
+            console.error(`Hint: Use --allow-external to bypass this check`);
+          } else {
+            console.error(`Error: ${fileValidation.error}`);
+          }
+          process.exit(2);
+        }
+
+        const filePath = fileValidation.canonicalPath!;
+        if (statSync(filePath).size > MAX_CONFIG_SIZE) {
+          console.error(
+            `Error: File exceeds maximum size (${MAX_CONFIG_SIZE / 1024 / 1024}MB)`
+          );
+          process.exit(2);
+        }
+
+        const content = await readFile(filePath, 'utf-8');
+
+        let vendor: VendorSchema;
+        if (options.vendor === 'auto') {
+          vendor = detectVendor(content);
+        } else {
+          try {
+            vendor = getVendor(options.vendor);
+          } catch {
+            console.error(`Error: Unknown vendor '${options.vendor}'`);
+            console.error(
+              `Available vendors: ${getAvailableVendors().join(', ')}, auto`
+            );
+            process.exit(2);
+          }
+        }
+
+        const rules = await resolveRules({
+          configPath: options.config,
+          noConfig: options.config === false,
+          packPaths: options.pack,
+          licenseKey: options.licenseKey || process.env.SENTRIFLOW_LICENSE_KEY,
+          strictPacks: options.strictPacks,
+          jsonRulesPaths: options.jsonRules,
+          disableIds: options.disable ?? [],
+          vendorId: vendor.id,
+          cwd: dirname(filePath),
+          allowedBaseDirs,
+        });
+
+        const outcome = fixConfig(
+          content,
+          vendor,
+          rules,
+          basename(filePath),
+          options.only
+        );
+        const output = options.diff ? outcome.diff : outcome.content;
+
+        if (options.output) {
+          await writeFile(resolve(options.output), output, 'utf-8');
+        } else if (output) {
+          process.stdout.write(output);
+        }
+
+        console.error(
+          `Applied ${outcome.applied.length} fix(es)` +
+            (outcome.skipped.length > 0
+              ? `, skipped ${outcome.skipped.length} conflicting fix(es)`
+              : '')
+        );
+        if (outcome.unfixable.length > 0) {
+          console.error(
+            `No automatic fix available for: ${outcome.unfixable.join(', ')}`
+          );
+        }
+      } catch (error) {
+        if (error instanceof SentriflowError) {
+          console.error(`Error: ${error.toUserMessage()}`);
+        } else {
+          console.error('Error: An unexpected error occurred');
+        }
+        process.exit(getErrorExitCode(error));
+      }
+    });
+}
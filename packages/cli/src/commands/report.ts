@@ -0,0 +1,315 @@
+// packages/cli/src/commands/report.ts
+// `sentriflow report` - compliance framework coverage across configurations
+
+import type { Command } from 'commander';
+import { statSync } from 'fs';
+import { resolve } from 'path';
+import {
+  SentriflowError,
+  MAX_CONFIG_SIZE,
+  computeComplianceCoverage,
+  getVendor,
+  getAvailableVendors,
+} from '@sentriflow/core';
+import type { ComplianceCoverage, ControlStatus } from '@sentriflow/core';
+import { allFrameworks, getFramework } from '@sentriflow/rules-default';
+import { resolveRules } from '../config';
+import type { ResolveOptions } from '../config';
+import { escapeCsvField } from '../csv';
+import { getErrorExitCode } from '../policy';
+import { toReportPath } from '../report';
+import type { ReportOptions } from '../report';
+import { scanDirectory } from '../scanner/DirectoryScanner';
+import { scanFiles } from '../scanner/ParallelScanner';
+import { validateInputFilePath } from '../security/pathValidator';
+
+/** Labels of the control statuses in the human and CSV reports */
+const STATUS_LABELS: Record<ControlStatus, string> = {
+  pass: 'PASS',
+  fail: 'FAIL',
+  'not-evaluated': 'NOT EVALUATED',
+  'not-covered': 'NOT COVERED',
+};
+
+const CSV_COLUMNS = ['control', 'title', 'status', 'rules', 'failures', 'files'] as const;
+
+/**
+ * Formats framework coverage as a human-readable control list.
+ *
+ * @param coverage Coverage computed over the scanned configurations
+ * @param options Path options for the failed files
+ */
+export function formatCoverageHuman(
+  coverage: ComplianceCoverage,
+  options: ReportOptions = {}
+): string {
+  const { framework, summary } = coverage;
+  const idWidth = Math.max(...framework.controls.map((control) => control.id.length), 7);
+  const lines = [
+    `${framework.name}${framework.version ? ` ${framework.version}` : ''} (${framework.id})`,
+    `Configurations scanned: ${coverage.filesScanned}`,
+    '',
+  ];
+
+  for (const { control, status, ruleIds, failures, failedFiles } of coverage.controls) {
+    lines.push(`  ${STATUS_LABELS[status].padEnd(14)} ${control.id.padEnd(idWidth)}  ${control.title}`);
+    if (ruleIds.length > 0) {
+      const files = failedFiles.map((file) => toReportPath(file, options)).join(', ');
+      lines.push(
+        `  ${''.padEnd(14)} ${''.padEnd(idWidth)}  rules: ${ruleIds.join(', ')}` +
+          (failures > 0 ? ` - ${failures} failure(s) in ${files}` : '')
+      );
+    }
+  }
+
+  lines.push(
+    '',
+    `Summary: ${summary.pass} pass, ${summary.fail} fail, ` +
+      `${summary['not-evaluated']} not evaluated, ${summary['not-covered']} not covered`
+  );
+  return lines.join('\n');
+}
+
+/**
+ * Formats framework coverage as CSV with one row per control.
+ *
+ * @param coverage Coverage computed over the scanned configurations
+ * @param options Path options for the failed files
+ */
+export function formatCoverageCsv(
+  coverage: ComplianceCoverage,
+  options: ReportOptions = {}
+): string {
+  const rows = coverage.controls.map(({ control, status, ruleIds, failures, failedFiles }) =>
+    [
+      control.id,
+      control.title,
+      status,
+      ruleIds.join(' '),
+      String(failures),
+      failedFiles.map((file) => toReportPath(file, options)).join(' '),
+    ]
+      .map(escapeCsvField)
+      .join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+/**
+ * Formats framework coverage as JSON, with failed files as report paths.
+ *
+ * @param coverage Coverage computed over the scanned configurations
+ * @param options Path options for the failed files
+ */
+export function formatCoverageJson(
+  coverage: ComplianceCoverage,
+  options: ReportOptions = {}
+): string {
+  return JSON.stringify(
+    {
+      ...coverage,
+      controls: coverage.controls.map((control) => ({
+        ...control,
+        failedFiles: control.failedFiles.map((file) => toReportPath(file, options)),
+      })),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Registers the `report` subcommand.
+ *
+ * Scans the given files and directories and lists every control of the
+ * framework as pass, fail, not evaluated or not covered. Exits with 1 if a control fails.
+ */
+export function registerReportCommand(program: Command): void {
+  program
+    .command('report')
+    .description('Report compliance framework coverage across configurations')
+    .argument('[paths...]', 'Configuration files or directories to scan')
+    .option('--framework <id>', 'Compliance framework to report on')
+    .option('--list-frameworks', 'List the available compliance frameworks')
+    .option('-f, --format <format>', 'Output format (human, json, csv)', 'human')
+    .option('-R, --recursive', 'Scan directories recursively')
+    .option('-c, --config <path>', 'Path to config file (default: auto-detect)')
+    .option('--no-config', 'Ignore config file')
+    .option('--profile <name>', 'Named profile from the config file to apply')
+    .option(
+      '--pack <path...>',
+      'Path(s) to rule pack(s) (.grx2 encrypted or unencrypted JS/TS modules)'
+    )
+    .option(
+      '--license-key <key>',
+      'License key for encrypted rule packs (or set SENTRIFLOW_LICENSE_KEY)'
+    )
+    .option(
+      '--strict-packs',
+      'Fail immediately if any pack cannot be loaded (default: warn and continue)'
+    )
+    .option(
+      '--json-rules <path...>',
+      'Path(s) to JSON rules file(s), can specify multiple'
+    )
+    .option('-d, --disable <ids>', 'Comma-separated rule IDs to disable', (val) =>
+      val.split(',')
+    )
+    .option('--relative-paths', 'Show file paths relative to the current directory')
+    .option(
+      '--allow-external',
+      'Allow reading files outside the current directory (use with caution)'
+    )
+    .option(
+      '-v, --vendor <vendor>',
+      `Vendor type (${getAvailableVendors().join(', ')}, auto)`,
+      'auto'
+    )
+    .action(async (paths: string[], options) => {
+      try {
+        if (options.listFrameworks) {
+          console.log('Available compliance frameworks:\n');
+          for (const framework of allFrameworks) {
+            const version = framework.version ? ` ${framework.version}` : '';
+            console.log(`  ${framework.id.padEnd(16)} - ${framework.name}${version}`);
+          }
+          console.log(`\nUse: sentriflow report --framework <id> <paths...>`);
+          return;
+        }
+
+        if (!options.framework) {
+          console.error('Error: --framework is required (see --list-frameworks)');
+          process.exit(2);
+        }
+        const framework = getFramework(options.framework);
+        if (!framework) {
+          console.error(`Error: Unknown framework '${options.framework}'`);
+          console.error(
+            `Available frameworks: ${allFrameworks.map((f) => f.id).join(', ')}`
+          );
+          process.exit(2);
+        }
+
+        if (!['human', 'json', 'csv'].includes(options.format)) {
+          console.error(`Error: Unknown format '${options.format}' (human, json, csv)`);
+          process.exit(2);
+        }
+
+        if (paths.length === 0) {
+          console.error('Error: No configuration files or directories given');
+          process.exit(2);
+        }
+
+        let vendorId: string | undefined;
+        if (options.vendor !== 'auto') {
+          try {
+            vendorId = getVendor(options.vendor).id;
+          } catch {
+            console.error(`Error: Unknown vendor '${options.vendor}'`);
+            console.error(
+              `Available vendors: ${getAvailableVendors().join(', ')}, auto`
+            );
+            process.exit(2);
+          }
+        }
+
+        // SEC-011: Enforce CWD boundary by default (use --allow-external to bypass)
+        const workingDir = process.cwd();
+        const allowedBaseDirs = options.allowExternal ? undefined : [workingDir];
+
+        const files: string[] = [];
+        for (const path of paths) {
+          const absolutePath = resolve(path);
+          let isDirectory = false;
+          try {
+            isDirectory = statSync(absolutePath).isDirectory();
+          } catch {
+            // Missing paths are reported by the file validation below
+          }
+
+          if (isDirectory) {
+            const scan = await scanDirectory(absolutePath, {
+              recursive: options.recursive,
+              allowedBaseDirs,
+            });
+            for (const error of scan.errors) {
+              console.error(`Warning: ${error.path}: ${error.message}`);
+            }
+            files.push(...scan.files);
+            continue;
+          }
+
+          const validation = validateInputFilePath(path, MAX_CONFIG_SIZE, allowedBaseDirs);
+          if (!validation.valid) {
+            console.error(`Error: ${path}: ${validation.error}`);
+            if (validation.error?.includes('outside allowed directories')) {
+              console.error(`Hint: Use --allow-external to bypass this check`);
+            }
+            process.exit(2);
+          }
+          files.push(validation.canonicalPath!);
+        }
+
+        const resolveOptions: ResolveOptions = {
+          configPath: options.config,
+          noConfig: options.config === false,
+          packPaths: options.pack,
+          licenseKey: options.licenseKey || process.env.SENTRIFLOW_LICENSE_KEY,
+          strictPacks: options.strictPacks,
+          jsonRulesPaths: options.jsonRules,
+          disableIds: options.disable ?? [],
+          vendorId,
+          profile: options.profile,
+          cwd: workingDir,
+          allowedBaseDirs,
+        };
+        const rules = await resolveRules(resolveOptions);
+
+        const outcomes = await scanFiles(files, rules, {
+          jobs: 1,
+          resolveOptions,
+          scanOptions: { vendor: options.vendor },
+        });
+        for (const outcome of outcomes) {
+          if (outcome.error) {
+            console.error(`Warning: ${outcome.filePath}: ${outcome.error}`);
+          }
+        }
+
+        const coverage = computeComplianceCoverage(
+          framework,
+          rules,
+          outcomes
+            .filter((outcome) => !outcome.error)
+            .map((outcome) => ({
+              filePath: outcome.filePath,
+              vendor: outcome.vendor?.id,
+              results: outcome.results,
+            }))
+        );
+
+        const reportOptions: ReportOptions = {
+          relativePaths: options.relativePaths,
+          baseDir: workingDir,
+        };
+        if (options.format === 'json') {
+          console.log(formatCoverageJson(coverage, reportOptions));
+        } else if (options.format === 'csv') {
+          process.stdout.write(formatCoverageCsv(coverage, reportOptions));
+        } else {
+          console.log(formatCoverageHuman(coverage, reportOptions));
+        }
+
+        if (coverage.summary.fail > 0) {
+          process.exit(1);
+        }
+      } catch (error) {
+        if (error instanceof SentriflowError) {
+          console.error(`Error: ${error.toUserMessage()}`);
+        } else {
+          console.error('Error: An unexpected error occurred');
+        }
+        process.exit(getErrorExitCode(error));
+      }
+    });
+}
@@ -0,0 +1,154 @@
+// packages/cli/src/commands/sanitize.ts
+// `sentriflow sanitize` - write shareable copies of configurations with secrets redacted
+
+import type { Command } from 'commander';
+import {
+  SentriflowError,
+  SecretRedactor,
+  MAX_CONFIG_SIZE,
+  detectVendor,
+  getVendor,
+  getAvailableVendors,
+} from '@sentriflow/core';
+import type { VendorSchema } from '@sentriflow/core';
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { statSync } from 'fs';
+import { resolve, basename, join } from 'path';
+import { getErrorExitCode } from '../policy';
+import { validateInputFilePath } from '../security/pathValidator';
+
+/**
+ * Outcome of sanitizing a single configuration.
+ */
+export interface SanitizeOutcome {
+  /** Configuration text with secrets replaced by placeholders */
+  content: string;
+  /** Number of secrets replaced */
+  redacted: number;
+}
+
+/**
+ * Replaces the secrets of a configuration with stable placeholders.
+ *
+ * @param content Original configuration text
+ * @param vendor Vendor schema whose secret patterns are used
+ * @param redactor Redactor shared by the configurations of one run, so that a
+ *                 secret maps to the same placeholder in every file
+ */
+export function sanitizeConfig(
+  content: string,
+  vendor: VendorSchema,
+  redactor: SecretRedactor = new SecretRedactor()
+): SanitizeOutcome {
+  return redactor.redactConfig(content, vendor);
+}
+
+/**
+ * Registers the `sanitize` subcommand.
+ *
+ * A single configuration is written to stdout (or --output); several
+ * configurations are written to --output-dir under their file names. A
+ * summary is always written to stderr.
+ */
+export function registerSanitizeCommand(program: Command): void {
+  program
+    .command('sanitize')
+    .description('Output copies of configs with secrets replaced by stable placeholders')
+    .argument('<files...>', 'Path(s) to the configuration file(s)')
+    .option('-o, --output <path>', 'Write the sanitized config to a file instead of stdout')
+    .option('--output-dir <dir>', 'Write sanitized configs to a directory (required for several files)')
+    .option(
+      '--allow-external',
+      'Allow reading files outside the current directory (use with caution)'
+    )
+    .option(
+      '-v, --vendor <vendor>',
+      `Vendor type (${getAvailableVendors().join(', ')}, auto)`,
+      'auto'
+    )
+    .action(async (files: string[], options) => {
+      try {
+        if (files.length > 1 && !options.outputDir) {
+          console.error('Error: Sanitizing several files requires --output-dir');
+          process.exit(2);
+        }
+        const names = files.map((file) => basename(file));
+        const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+        if (options.outputDir && duplicate !== undefined) {
+          console.error(`Error: Several files are named '${duplicate}'`);
+          process.exit(2);
+        }
+
+        const workingDir = process.cwd();
+        const allowedBaseDirs = options.allowExternal ? undefined : [workingDir];
+        const redactor = new SecretRedactor();
+        let redacted = 0;
+
+        for (const file of files) {
+          const fileValidation = validateInputFilePath(
+            file,
+            MAX_CONFIG_SIZE,
+            allowedBaseDirs
+          );
+          if (!fileValidation.valid) {
+            if (fileValidation.error?.includes('outside allowed directories')) {
+              console.error(`Error: File is outside project directory: ${file}`);
+              console.error(`Hint: Use --allow-external to bypass this check`);
+            } else {
+              console.error(`Error: ${fileValidation.error}`);
+            }
+            process.exit(2);
+          }
+
+          const filePath = fileValidation.canonicalPath!;
+          if (statSync(filePath).size > MAX_CONFIG_SIZE) {
+            console.error(
+              `Error: File exceeds maximum size (${MAX_CONFIG_SIZE / 1024 / 1024}MB)`
+            );
+            process.exit(2);
+          }
+
+          const content = await readFile(filePath, 'utf-8');
+
+          let vendor: VendorSchema;
+          if (options.vendor === 'auto') {
+            vendor = detectVendor(content);
+          } else {
+            try {
+              vendor = getVendor(options.vendor);
+            } catch {
+              console.error(`Error: Unknown vendor '${options.vendor}'`);
+              console.error(
+                `Available vendors: ${getAvailableVendors().join(', ')}, auto`
+              );
+              process.exit(2);
+            }
+          }
+
+          const outcome = sanitizeConfig(content, vendor, redactor);
+          redacted += outcome.redacted;
+
+          if (options.outputDir) {
+            const outputDir = resolve(options.outputDir);
+            await mkdir(outputDir, { recursive: true });
+            await writeFile(join(outputDir, basename(filePath)), outcome.content, 'utf-8');
+          } else if (options.output) {
+            await writeFile(resolve(options.output), outcome.content, 'utf-8');
+          } else {
+            process.stdout.write(outcome.content);
+          }
+        }
+
+        console.error(
+          `Redacted ${redacted} secret(s) (${redactor.size} distinct) in ${files.length} file(s)`
+        );
+      } catch (error) {
+        if (error instanceof SentriflowError) {
+          console.error(`Error: ${error.toUserMessage()}`);
+        } else {
+          console.error('Error: An unexpected error occurred');
+        }
+        process.exit(getErrorExitCode(error));
+      }
+    });
+}
@@ -0,0 +1,120 @@
+// packages/cli/src/commands/suppressions.ts
+// `sentriflow suppressions` - list the shared suppression file and flag expired entries
+
+import type { Command } from 'commander';
+import { SUPPRESSION_FILE_NAME, SentriflowError } from '@sentriflow/core';
+import type { SuppressionEntry } from '@sentriflow/core';
+import { EXIT_CODES, getErrorExitCode } from '../policy';
+import { findSuppressionFile, loadSuppressionFile, partitionExpired } from '../suppressions';
+
+/**
+ * Describes what an entry matches within its files.
+ */
+function describeTarget(entry: SuppressionEntry): string {
+  if (entry.nodePath) return `node ${entry.nodePath}`;
+  if (entry.contentHash) return `line #${entry.contentHash}`;
+  return 'entire file';
+}
+
+/**
+ * Formats suppression entries as a human-readable list.
+ *
+ * @param entries Entries to list
+ * @param expired Entries that are past their expiry date
+ */
+export function formatSuppressionsHuman(
+  entries: SuppressionEntry[],
+  expired: ReadonlySet<SuppressionEntry>
+): string {
+  const lines: string[] = [];
+  for (const entry of entries) {
+    const status = expired.has(entry) ? 'EXPIRED' : 'ACTIVE';
+    lines.push(
+      `  ${status.padEnd(8)} ${entry.ruleId}  ${entry.file} (${describeTarget(entry)})`,
+      `  ${''.padEnd(8)} owner: ${entry.owner}, expires: ${entry.expires ?? 'never'}`,
+      `  ${''.padEnd(8)} ${entry.justification}`
+    );
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Registers the `suppressions` subcommand.
+ *
+ * Lists the entries of the shared suppression file. With --check-expired,
+ * lists only expired entries and exits with 1 if there are any, so CI can
+ * flag suppressions that need to be reviewed or removed.
+ */
+export function registerSuppressionsCommand(program: Command): void {
+  program
+    .command('suppressions')
+    .description(`List the shared suppression file (${SUPPRESSION_FILE_NAME})`)
+    .option('--file <path>', 'Suppression file (default: auto-detect)')
+    .option('--check-expired', 'List expired entries only and exit with 1 if there are any')
+    .option('-f, --format <format>', 'Output format (human, json)', 'human')
+    .option(
+      '--allow-external',
+      'Allow reading files outside the current directory (use with caution)'
+    )
+    .action(async (options) => {
+      try {
+        if (!['human', 'json'].includes(options.format)) {
+          console.error(`Error: Unknown format '${options.format}' (human, json)`);
+          process.exit(2);
+        }
+
+        const workingDir = process.cwd();
+        const allowedBaseDirs = options.allowExternal ? undefined : [workingDir];
+        const path: string | null = options.file ?? findSuppressionFile(workingDir);
+        if (!path) {
+          console.error(`Error: No ${SUPPRESSION_FILE_NAME} found`);
+          process.exit(2);
+        }
+
+        const { path: filePath, entries } = await loadSuppressionFile(path, allowedBaseDirs);
+        const { expired } = partitionExpired(entries);
+        const listed = options.checkExpired ? expired : entries;
+
+        if (options.format === 'json') {
+          console.log(
+            JSON.stringify(
+              {
+                file: filePath,
+                total: entries.length,
+                expired: expired.length,
+                suppressions: listed.map((entry) => ({
+                  ...entry,
+                  expired: expired.includes(entry),
+                })),
+              },
+              null,
+              2
+            )
+          );
+        } else if (listed.length === 0) {
+          console.log(
+            options.checkExpired
+              ? `No expired suppressions in ${filePath}`
+              : `No suppressions in ${filePath}`
+          );
+        } else {
+          console.log(`${filePath}\n`);
+          console.log(formatSuppressionsHuman(listed, new Set(expired)));
+          console.log(
+            `\n${entries.length} suppression(s), ${expired.length} expired`
+          );
+        }
+
+        if (options.checkExpired && expired.length > 0) {
+          process.exit(EXIT_CODES.policyFailure);
+        }
+      } catch (error) {
+        if (error instanceof SentriflowError) {
+          console.error(`Error: ${error.toUserMessage()}`);
+        } else {
+          console.error('Error: An unexpected error occurred');
+        }
+        process.exit(getErrorExitCode(error));
+      }
+    });
+}
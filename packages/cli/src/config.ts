@@ -4,6 +4,7 @@
  */
 import {
   SentriflowConfigError,
+  SentriflowPackError,
   MAX_TRAVERSAL_DEPTH,
   RULE_ID_PATTERN,
   VALID_VENDOR_IDS,
@@ -21,17 +22,21 @@ import {
 } from '@sentriflow/core';
 import type {
   IRule,
+  IFleetRule,
+  RuleMetadata,
   RulePack,
+  RuleResult,
   RuleVendor,
   PackDisableConfig,
 } from '@sentriflow/core';
 import {
   allRules as defaultRules,
+  allFleetRules as defaultFleetRules,
   getRulesByVendor,
 } from '@sentriflow/rules-default';
 import { existsSync } from 'fs';
 import { readFile as readFileAsync } from 'fs/promises';
-import { resolve, dirname } from 'path';
+import { resolve, dirname, relative, sep } from 'path';
 import {
   validateConfigPath,
   validatePackPath,
@@ -47,6 +52,9 @@ import {
   mapGRX2LoadError,
 } from './loaders';
 import type { PackDescriptor } from './loaders';
+import { matchesPattern } from './scanner/DirectoryScanner';
+import { isFailOnLevel } from './policy';
+import type { FailOnLevel } from './policy';
 
 /**
  * Directory scanning options from config file (FR-005)
@@ -64,10 +72,57 @@ export interface DirectoryConfig {
   exclude?: string[];
 }
 
+/**
+ * Per-rule settings from the `rules` block of the config file.
+ */
+export interface RuleConfig {
+  /** Severity reported for failures of the rule, replacing its own level */
+  level?: RuleMetadata['level'];
+  /** Rule parameters, passed to the rule as `context.options` */
+  options?: Record<string, unknown>;
+}
+
+/** Valid values of RuleConfig.level */
+const RULE_LEVELS: ReadonlySet<string> = new Set(['error', 'warning', 'info']);
+
+/**
+ * Named profile from the `profiles` block of the config file, e.g. `prod` or
+ * `lab`. When selected, its settings are combined with the top-level ones.
+ */
+export interface ProfileConfig {
+  /**
+   * Glob patterns of the files the profile applies to when no --profile is
+   * given, relative to the config file directory (e.g. `prod/**`).
+   * The first profile with a matching pattern is selected.
+   */
+  paths?: string[];
+
+  /** Per-rule settings, merged over the top-level `rules` block */
+  rules?: Record<string, RuleConfig>;
+
+  /** Rule IDs to disable, in addition to the top-level list */
+  disable?: string[];
+
+  /** Whether to include default rules (overrides the top-level setting) */
+  includeDefaults?: boolean;
+
+  /** Rule packs to load, in addition to the top-level packs */
+  rulePacks?: RulePack[];
+
+  /** JSON rule file paths, in addition to the top-level files */
+  jsonRules?: string[];
+
+  /** Directory scanning options, merged over the top-level options */
+  directory?: DirectoryConfig;
+}
+
 /** Configuration file structure */
 export interface SentriflowConfig {
-  /** Additional rules to include (legacy, use rulePacks instead) */
-  rules?: IRule[];
+  /**
+   * Per-rule settings keyed by rule ID, e.g. `{ 'NET-MGMT-005': { level: 'info' } }`.
+   * An array adds rules instead (legacy, use rulePacks instead).
+   */
+  rules?: IRule[] | Record<string, RuleConfig>;
 
   /** Rule IDs to disable (legacy, use rulePacks instead) */
   disable?: string[];
@@ -91,6 +146,19 @@ export interface SentriflowConfig {
    * @default false
    */
   filterSpecialIps?: boolean;
+
+  /**
+   * Lowest severity that fails a scan (exit code 1), or 'never'.
+   * Overridden by --fail-on.
+   * @default 'info'
+   */
+  failOn?: FailOnLevel;
+
+  /** Warnings allowed before a scan fails. Overridden by --max-warnings. */
+  maxWarnings?: number;
+
+  /** Named profiles, selected with --profile or by the `paths` of the profile */
+  profiles?: Record<string, ProfileConfig>;
 }
 
 /** Resolved configuration with final rule set */
@@ -146,16 +214,17 @@ function isValidSentriflowConfig(config: unknown): config is SentriflowConfig {
 
   const obj = config as Record<string, unknown>;
 
-  // Validate optional 'rules' array
+  // Validate optional 'rules': legacy rule array or per-rule settings
   if (obj.rules !== undefined) {
-    if (!Array.isArray(obj.rules)) {
-      return false;
-    }
-    // Basic validation of each rule
-    for (const rule of obj.rules) {
-      if (!isValidRule(rule)) {
-        return false;
+    if (Array.isArray(obj.rules)) {
+      // Basic validation of each rule
+      for (const rule of obj.rules) {
+        if (!isValidRule(rule)) {
+          return false;
+        }
       }
+    } else if (!isValidRuleConfigMap(obj.rules)) {
+      return false;
     }
   }
 
@@ -218,9 +287,206 @@ function isValidSentriflowConfig(config: unknown): config is SentriflowConfig {
     return false;
   }
 
+  // Validate optional exit policy
+  if (obj.failOn !== undefined && !isFailOnLevel(obj.failOn)) {
+    return false;
+  }
+  if (
+    obj.maxWarnings !== undefined &&
+    (typeof obj.maxWarnings !== 'number' ||
+      !Number.isInteger(obj.maxWarnings) ||
+      obj.maxWarnings < 0)
+  ) {
+    return false;
+  }
+
+  // Validate optional 'profiles' map
+  if (obj.profiles !== undefined) {
+    if (
+      typeof obj.profiles !== 'object' ||
+      obj.profiles === null ||
+      Array.isArray(obj.profiles)
+    ) {
+      return false;
+    }
+    for (const profile of Object.values(obj.profiles)) {
+      if (!isValidProfileConfig(profile)) {
+        return false;
+      }
+      // Per-rule settings cannot be merged into a legacy rule array
+      if (profile.rules !== undefined && Array.isArray(obj.rules)) {
+        return false;
+      }
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Validates a profile: the top-level settings it may override, without a
+ * legacy rule array or nested profiles, plus its `paths` globs.
+ */
+function isValidProfileConfig(profile: unknown): profile is ProfileConfig {
+  if (!isValidSentriflowConfig(profile)) {
+    return false;
+  }
+
+  const obj = profile as Record<string, unknown>;
+  if (
+    Array.isArray(obj.rules) ||
+    obj.profiles !== undefined ||
+    obj.filterSpecialIps !== undefined ||
+    obj.failOn !== undefined ||
+    obj.maxWarnings !== undefined
+  ) {
+    return false;
+  }
+
+  if (obj.paths !== undefined) {
+    if (!Array.isArray(obj.paths)) {
+      return false;
+    }
+    for (const pattern of obj.paths) {
+      if (typeof pattern !== 'string') {
+        return false;
+      }
+    }
+  }
+
   return true;
 }
 
+/**
+ * Validates the per-rule settings of the `rules` block: keys must be rule IDs,
+ * `level` one of error/warning/info and `options` a plain object.
+ */
+export function isValidRuleConfigMap(
+  config: unknown
+): config is Record<string, RuleConfig> {
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    return false;
+  }
+
+  for (const [id, entry] of Object.entries(config)) {
+    if (!RULE_ID_PATTERN.test(id)) {
+      return false;
+    }
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+      return false;
+    }
+    const { level, options } = entry as Record<string, unknown>;
+    if (level !== undefined && (typeof level !== 'string' || !RULE_LEVELS.has(level))) {
+      return false;
+    }
+    if (
+      options !== undefined &&
+      (typeof options !== 'object' || options === null || Array.isArray(options))
+    ) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Applies per-rule settings to a rule. The level replaces the rule's metadata
+ * level and the level of its failing results; options reach the rule as
+ * `context.options`. The original rule is not modified.
+ */
+export function applyRuleConfig(rule: IRule, ruleConfig: RuleConfig): IRule {
+  const { level, options } = ruleConfig;
+  if (level === undefined && options === undefined) {
+    return rule;
+  }
+
+  const check = rule.check;
+  return {
+    ...rule,
+    metadata: level ? { ...rule.metadata, level } : rule.metadata,
+    check: (node, context) => {
+      const result = check(node, options ? { ...context, options } : context);
+      if (!level) {
+        return result;
+      }
+      const override = (r: RuleResult): RuleResult => (r.passed ? r : { ...r, level });
+      return Array.isArray(result) ? result.map(override) : override(result);
+    },
+  };
+}
+
+/**
+ * Applies per-rule settings to a fleet rule. Only the level applies: fleet
+ * rules take no options. The original rule is not modified.
+ */
+export function applyFleetRuleConfig(rule: IFleetRule, ruleConfig: RuleConfig): IFleetRule {
+  const { level } = ruleConfig;
+  if (level === undefined) {
+    return rule;
+  }
+
+  return {
+    ...rule,
+    metadata: { ...rule.metadata, level },
+    check: (devices) => rule.check(devices).map((r) => (r.passed ? r : { ...r, level })),
+  };
+}
+
+/**
+ * Returns the config with a named profile applied: its disables, packs and
+ * JSON rules are added to the top-level ones, its per-rule and directory
+ * settings are merged over them.
+ *
+ * @throws SentriflowConfigError if the profile is not defined
+ */
+export function applyProfile(
+  config: SentriflowConfig,
+  name: string
+): SentriflowConfig {
+  const profile = config.profiles?.[name];
+  if (!profile) {
+    const available = Object.keys(config.profiles ?? {});
+    throw new SentriflowConfigError(
+      `Unknown profile '${name}'` +
+        (available.length > 0 ? ` (available: ${available.join(', ')})` : '')
+    );
+  }
+
+  const baseRules = Array.isArray(config.rules) ? undefined : config.rules;
+  return {
+    ...config,
+    rules: profile.rules ? { ...baseRules, ...profile.rules } : config.rules,
+    disable: [...(config.disable ?? []), ...(profile.disable ?? [])],
+    includeDefaults: profile.includeDefaults ?? config.includeDefaults,
+    rulePacks: [...(config.rulePacks ?? []), ...(profile.rulePacks ?? [])],
+    jsonRules: [...(config.jsonRules ?? []), ...(profile.jsonRules ?? [])],
+    directory: profile.directory
+      ? { ...config.directory, ...profile.directory }
+      : config.directory,
+  };
+}
+
+/**
+ * Selects the profile of a file by the `paths` globs of the profiles.
+ *
+ * @param config - Loaded config file
+ * @param filePath - Path of the scanned file
+ * @param baseDir - Directory the globs are relative to (the config file directory)
+ * @returns Name of the first matching profile, or undefined if none matches
+ */
+export function selectProfile(
+  config: SentriflowConfig,
+  filePath: string,
+  baseDir: string
+): string | undefined {
+  const relativePath = relative(baseDir, resolve(filePath)).split(sep).join('/');
+  const match = Object.entries(config.profiles ?? {}).find(([, profile]) =>
+    (profile.paths ?? []).some((pattern) => matchesPattern(relativePath, pattern))
+  );
+  return match?.[0];
+}
+
 /**
  * Validates that an object conforms to the DirectoryConfig interface.
  * TR-004: Validates structure, regex patterns, and type constraints.
@@ -513,6 +779,9 @@ export interface ResolveOptions {
   /** Vendor ID for filtering rules */
   vendorId?: string;
 
+  /** Name of the config file profile to apply */
+  profile?: string;
+
   /** Working directory for config file search */
   cwd?: string;
 
@@ -588,6 +857,25 @@ export async function loadRulePackFile(
 export async function resolveRules(
   options: ResolveOptions = {}
 ): Promise<IRule[]> {
+  return resolveDeviceRules(await loadRuleSources(options), options.vendorId);
+}
+
+/**
+ * Config, rule packs and disabled rule IDs a rule set is resolved from.
+ */
+interface RuleSources {
+  config: SentriflowConfig;
+  /** Loaded rule packs, including the config and CLI rule files */
+  packs: RulePack[];
+  /** Rule IDs disabled by the config `disable` list and --disable */
+  disabledIds: Set<string>;
+}
+
+/**
+ * Loads the config file (with the profile applied) and every rule pack of
+ * the options, for resolveRules and resolveFleetRules.
+ */
+async function loadRuleSources(options: ResolveOptions): Promise<RuleSources> {
   const {
     configPath,
     noConfig = false,
@@ -597,7 +885,7 @@ export async function resolveRules(
     strictPacks = false, // Default to graceful handling
     jsonRulesPaths,
     disableIds = [],
-    vendorId,
+    profile,
     cwd = process.cwd(),
     allowedBaseDirs, // SEC-011: Allowed base directories for file path validation
   } = options;
@@ -625,6 +913,9 @@ export async function resolveRules(
       config = await loadConfigFile(foundConfigPath, allowedBaseDirs);
     }
   }
+  if (profile) {
+    config = applyProfile(config, profile);
+  }
 
   // Collect all rule packs
   const allPacks: RulePack[] = [];
@@ -635,7 +926,7 @@ export async function resolveRules(
   }
 
   // Add legacy config rules as a pack (priority 50)
-  if (config.rules && config.rules.length > 0) {
+  if (Array.isArray(config.rules) && config.rules.length > 0) {
     allPacks.push({
       name: '_config_legacy',
       version: '1.0.0',
@@ -718,7 +1009,7 @@ export async function resolveRules(
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : 'Unknown error';
       if (strictPacks) {
-        throw new SentriflowConfigError(`Pack detection failed: ${errorMsg}`);
+        throw new SentriflowPackError(`Pack detection failed: ${errorMsg}`);
       }
       console.error(`Warning: Pack detection failed: ${errorMsg}`);
       packDescriptors = [];
@@ -730,7 +1021,7 @@ export async function resolveRules(
       const errorMsg =
         'License key required for encrypted packs (use --license-key or set SENTRIFLOW_LICENSE_KEY)';
       if (strictPacks) {
-        throw new SentriflowConfigError(errorMsg);
+        throw new SentriflowPackError(errorMsg);
       }
       console.error(`Warning: ${errorMsg}`);
     }
@@ -744,7 +1035,7 @@ export async function resolveRules(
       } catch (error) {
         const errorMsg = 'Failed to retrieve machine ID for license validation';
         if (strictPacks) {
-          throw new SentriflowConfigError(errorMsg);
+          throw new SentriflowPackError(errorMsg);
         }
         console.error(`Warning: ${errorMsg}`);
       }
@@ -810,7 +1101,7 @@ export async function resolveRules(
         const errorMsg = mapGRX2LoadError(error);
 
         if (strictPacks) {
-          throw new SentriflowConfigError(
+          throw new SentriflowPackError(
             `Failed to load pack '${desc.path}': ${errorMsg}`
           );
         }
@@ -832,11 +1123,22 @@ export async function resolveRules(
   }
 
   // Collect legacy disabled IDs
-  const legacyDisabledIds = new Set<string>([
+  const disabledIds = new Set<string>([
     ...(config.disable ?? []),
     ...disableIds,
   ]);
 
+  return { config, packs: allPacks, disabledIds };
+}
+
+/**
+ * Resolves the per-device rules from the loaded sources: default rules not
+ * disabled, overridden by pack rules by priority, with per-rule settings.
+ */
+function resolveDeviceRules(
+  { config, packs: allPacks, disabledIds: legacyDisabledIds }: RuleSources,
+  vendorId: string | undefined
+): IRule[] {
   // Build rule map with priority tracking
   const ruleMap = new Map<string, { rule: IRule; priority: number }>();
 
@@ -869,5 +1171,66 @@ export async function resolveRules(
     }
   }
 
-  return Array.from(ruleMap.values()).map((entry) => entry.rule);
+  // 3. Apply per-rule settings (level overrides, options) from the config file
+  const ruleConfigs = Array.isArray(config.rules) ? undefined : config.rules;
+  return Array.from(ruleMap.values()).map((entry) => {
+    const ruleConfig = ruleConfigs?.[entry.rule.id];
+    return ruleConfig ? applyRuleConfig(entry.rule, ruleConfig) : entry.rule;
+  });
+}
+
+/**
+ * Resolve the fleet (cross-device) rules for a multi-file or directory scan.
+ *
+ * Fleet rules are default rules: they are dropped with `includeDefaults: false`,
+ * disabled like the other default rules (config `disable` list, --disable and
+ * pack `disables`, also of the profile), and get the per-rule level overrides.
+ */
+export async function resolveFleetRules(
+  options: ResolveOptions = {}
+): Promise<IFleetRule[]> {
+  return resolveFleetRuleSet(await loadRuleSources(options), options.vendorId);
+}
+
+/**
+ * Per-device and fleet rules resolved from the same config and packs.
+ */
+export interface ResolvedRuleSet {
+  rules: IRule[];
+  fleetRules: IFleetRule[];
+}
+
+/**
+ * Resolve the per-device rules (see resolveRules) and the fleet rules (see
+ * resolveFleetRules) at once, loading the config and packs only once.
+ */
+export async function resolveRuleSet(
+  options: ResolveOptions = {}
+): Promise<ResolvedRuleSet> {
+  const sources = await loadRuleSources(options);
+  return {
+    rules: resolveDeviceRules(sources, options.vendorId),
+    fleetRules: resolveFleetRuleSet(sources, options.vendorId),
+  };
+}
+
+function resolveFleetRuleSet(
+  { config, packs, disabledIds }: RuleSources,
+  vendorId: string | undefined
+): IFleetRule[] {
+  if (config.includeDefaults === false) {
+    return [];
+  }
+
+  const ruleConfigs = Array.isArray(config.rules) ? undefined : config.rules;
+  return defaultFleetRules
+    .filter(
+      (rule) =>
+        !isDefaultRuleDisabled(rule.id, vendorId, packs, disabledIds) &&
+        (!vendorId || ruleAppliesToVendor(rule, vendorId))
+    )
+    .map((rule) => {
+      const ruleConfig = ruleConfigs?.[rule.id];
+      return ruleConfig ? applyFleetRuleConfig(rule, ruleConfig) : rule;
+    });
 }
@@ -0,0 +1,84 @@
+// packages/cli/src/csv.ts
+// CSV output formatter for SentriFlow CLI (RFC 4180)
+
+import type { RuleResult } from '@sentriflow/core';
+import { toReportRows } from './report';
+import type { ReportOptions, ReportRow } from './report';
+import type { FileResults, RuleDescriptor } from './sarif';
+
+/** Columns of the CSV report, in order */
+const CSV_COLUMNS = [
+  'file',
+  'vendor',
+  'line',
+  'ruleId',
+  'level',
+  'status',
+  'category',
+  'tags',
+  'message',
+  'path',
+] as const;
+
+/**
+ * Quotes a CSV field when needed. Fields starting with a formula character
+ * are prefixed with a quote so that spreadsheets do not evaluate them.
+ */
+export function escapeCsvField(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function toCsvLine(row: ReportRow): string {
+  const fields: Record<(typeof CSV_COLUMNS)[number], string> = {
+    file: row.file,
+    vendor: row.vendor ?? '',
+    line: row.line !== undefined ? String(row.line) : '',
+    ruleId: row.ruleId,
+    level: row.level,
+    status: row.passed ? 'pass' : 'fail',
+    category: row.categories.join(';'),
+    tags: row.tags.join(';'),
+    message: row.message,
+    path: row.path ?? '',
+  };
+  return CSV_COLUMNS.map((column) => escapeCsvField(fields[column])).join(',');
+}
+
+/**
+ * Generates a CSV report from the given rule results: a header line and one
+ * line per result. Multiple categories and tags are separated by ';'.
+ *
+ * @param results The array of RuleResult objects.
+ * @param filePath The path to the scanned file.
+ * @param rules Optional array of rules to take categories and tags from.
+ * @param options Optional path options.
+ * @param vendor Optional vendor of the scanned file.
+ * @returns A string containing the CSV report (CRLF line endings).
+ */
+export function generateCsv(
+  results: RuleResult[],
+  filePath: string,
+  rules?: RuleDescriptor[],
+  options: ReportOptions = {},
+  vendor?: FileResults['vendor']
+): string {
+  return generateMultiFileCsv([{ filePath, results, vendor }], rules, options);
+}
+
+/**
+ * Generates a combined CSV report from multiple file results.
+ *
+ * @param fileResults Array of file results to include in the report.
+ * @param rules Optional array of rules (and fleet rules) to take categories and tags from.
+ * @param options Optional path options.
+ * @returns A string containing the CSV report (CRLF line endings).
+ */
+export function generateMultiFileCsv(
+  fileResults: FileResults[],
+  rules?: RuleDescriptor[],
+  options: ReportOptions = {}
+): string {
+  const rows = toReportRows(fileResults, rules, options);
+  return [CSV_COLUMNS.join(','), ...rows.map(toCsvLine)].join('\r\n');
+}
@@ -0,0 +1,175 @@
+// packages/cli/src/html.ts
+// Self-contained HTML report formatter for SentriFlow CLI
+
+import type { RuleResult } from '@sentriflow/core';
+import { countSeverities } from './human';
+import { toReportRows } from './report';
+import type { ReportOptions, ReportRow } from './report';
+import type { FileResults, RuleDescriptor } from './sarif';
+
+/**
+ * Options for HTML report generation.
+ */
+export interface HtmlOptions extends ReportOptions {
+  /** Report title. Default: 'SentriFlow Report' */
+  title?: string;
+}
+
+/** Row attributes the filters of the report select on */
+const FILTERS = [
+  { key: 'level', label: 'Severity', values: (row: ReportRow) => [row.level] },
+  { key: 'vendor', label: 'Vendor', values: (row: ReportRow) => (row.vendor ? [row.vendor] : []) },
+  { key: 'category', label: 'Category', values: (row: ReportRow) => row.categories },
+  { key: 'tag', label: 'Tag', values: (row: ReportRow) => row.tags },
+] as const;
+
+const STYLE = `
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2328; }
+h1 { font-size: 1.5rem; margin: 0 0 1rem; }
+.summary { display: flex; gap: 1rem; margin-bottom: 1.5rem; }
+.summary div { border: 1px solid #d0d7de; border-radius: 6px; padding: .5rem 1rem; }
+.summary strong { display: block; font-size: 1.25rem; }
+.filters { display: flex; gap: 1rem; align-items: center; margin-bottom: 1rem; }
+table { border-collapse: collapse; width: 100%; font-size: .875rem; }
+th, td { border-bottom: 1px solid #d0d7de; padding: .4rem .6rem; text-align: left; vertical-align: top; }
+th { background: #f6f8fa; }
+.level { font-weight: 600; }
+.error { color: #cf222e; }
+.warning { color: #9a6700; }
+.info { color: #0969da; }
+.tag { display: inline-block; background: #eaeef2; border-radius: 1em; padding: 0 .5em; margin: 0 .2em .2em 0; }
+`;
+
+const SCRIPT = `
+(function () {
+  var selects = document.querySelectorAll('select[data-filter]');
+  var rows = document.querySelectorAll('#findings tbody tr');
+  function apply() {
+    var shown = 0;
+    rows.forEach(function (row) {
+      var visible = Array.prototype.every.call(selects, function (select) {
+        if (!select.value) return true;
+        var values = JSON.parse(row.getAttribute('data-' + select.getAttribute('data-filter')) || '[]');
+        return values.indexOf(select.value) !== -1;
+      });
+      row.hidden = !visible;
+      if (visible) shown++;
+    });
+    document.getElementById('shown').textContent = shown + ' of ' + rows.length + ' findings';
+  }
+  selects.forEach(function (select) { select.addEventListener('change', apply); });
+  apply();
+})();
+`;
+
+/**
+ * Escapes text for use in HTML content and double-quoted attribute values.
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function toTableRow(row: ReportRow): string {
+  const data = FILTERS.map(
+    ({ key, values }) => `data-${key}="${escapeHtml(JSON.stringify(values(row)))}"`
+  ).join(' ');
+  const cells = [
+    `<td>${escapeHtml(row.file)}${row.line !== undefined ? `:${row.line}` : ''}</td>`,
+    `<td class="level ${escapeHtml(row.level)}">${escapeHtml(row.level)}</td>`,
+    `<td>${escapeHtml(row.ruleId)}</td>`,
+    `<td>${escapeHtml(row.message)}</td>`,
+    `<td>${escapeHtml(row.vendor ?? '')}</td>`,
+    `<td>${escapeHtml(row.categories.join(', '))}</td>`,
+    `<td>${row.tags.map((tag) => `<span class="tag">${escapeHtml(tag)}</span>`).join('')}</td>`,
+  ];
+  return `<tr ${data}>${cells.join('')}</tr>`;
+}
+
+function toFilterSelect(filter: (typeof FILTERS)[number], rows: ReportRow[]): string {
+  const values = [...new Set(rows.flatMap((row) => filter.values(row)))].sort();
+  const options = values.map(
+    (value) => `<option value="${escapeHtml(value)}">${escapeHtml(value)}</option>`
+  );
+  return (
+    `<label>${filter.label} <select data-filter="${filter.key}">` +
+    `<option value="">All</option>${options.join('')}</select></label>`
+  );
+}
+
+/**
+ * Generates a self-contained HTML report from the given rule results.
+ *
+ * @param results The array of RuleResult objects.
+ * @param filePath The path to the scanned file.
+ * @param rules Optional array of rules to take categories and tags from.
+ * @param options Optional HTML generation options.
+ * @param vendor Optional vendor of the scanned file.
+ * @returns A string containing the HTML document.
+ */
+export function generateHtml(
+  results: RuleResult[],
+  filePath: string,
+  rules?: RuleDescriptor[],
+  options: HtmlOptions = {},
+  vendor?: FileResults['vendor']
+): string {
+  return generateMultiFileHtml([{ filePath, results, vendor }], rules, options);
+}
+
+/**
+ * Generates a combined HTML report from multiple file results: a summary,
+ * and a table of findings that can be filtered by severity, vendor, category
+ * and tag. Styles and script are inlined, so the file can be shared as is.
+ *
+ * @param fileResults Array of file results to include in the report.
+ * @param rules Optional array of rules (and fleet rules) to take categories and tags from.
+ * @param options Optional HTML generation options.
+ * @returns A string containing the HTML document.
+ */
+export function generateMultiFileHtml(
+  fileResults: FileResults[],
+  rules?: RuleDescriptor[],
+  options: HtmlOptions = {}
+): string {
+  const title = escapeHtml(options.title ?? 'SentriFlow Report');
+  const findings = toReportRows(fileResults, rules, options).filter((row) => !row.passed);
+  const counts = countSeverities(fileResults.flatMap((fr) => fr.results));
+  const passed = fileResults.reduce((sum, fr) => sum + fr.results.filter((r) => r.passed).length, 0);
+
+  const summary = [
+    ['Files', fileResults.length],
+    ['Errors', counts.error],
+    ['Warnings', counts.warning],
+    ['Info', counts.info],
+    ['Passed', passed],
+  ]
+    .map(([label, value]) => `<div><strong>${value}</strong>${label}</div>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>${title}</h1>
+<div class="summary">${summary}</div>
+<div class="filters">${FILTERS.map((filter) => toFilterSelect(filter, findings)).join('')}<span id="shown"></span></div>
+<table id="findings">
+<thead><tr><th>Location</th><th>Severity</th><th>Rule</th><th>Message</th><th>Vendor</th><th>Category</th><th>Tags</th></tr></thead>
+<tbody>
+${findings.map(toTableRow).join('\n')}
+</tbody>
+</table>
+<script>${SCRIPT}</script>
+</body>
+</html>`;
+}
@@ -2,6 +2,7 @@
 // Human-readable output formatter for SentriFlow CLI
 
 import type { RuleResult } from '@sentriflow/core';
+import type { BaselineComparison } from './baseline';
 
 // ANSI color codes for terminal output
 const COLORS = {
@@ -191,6 +192,54 @@ export function formatMultiFileHuman(
   return lines.join('\n');
 }
 
+/**
+ * Formats a baseline comparison in human-readable format.
+ * New findings are listed first, followed by fixed and unchanged findings.
+ * Fixed findings refer to line numbers in the baseline file.
+ *
+ * @param comparison New, fixed and unchanged findings
+ * @param filePath Path to the scanned file
+ * @param baselinePath Path to the baseline file
+ * @param options Formatting options
+ * @returns Formatted string for terminal output
+ */
+export function formatBaselineHuman(
+  comparison: BaselineComparison,
+  filePath: string,
+  baselinePath: string,
+  options?: HumanFormatOptions
+): string {
+  const color = options?.color ?? false;
+  const bold = (text: string) => (color ? `${COLORS.bold}${text}${COLORS.reset}` : text);
+  const lines: string[] = [];
+
+  lines.push(bold(filePath));
+  lines.push(`  compared with baseline ${baselinePath}`);
+
+  const sections: Array<[string, RuleResult[]]> = [
+    ['New', comparison.new],
+    ['Fixed', comparison.fixed],
+    ['Unchanged', comparison.unchanged],
+  ];
+  for (const [title, results] of sections) {
+    if (results.length === 0) continue;
+    lines.push('');
+    lines.push(bold(`${title} (${results.length})`));
+    for (const result of results) {
+      lines.push(formatFinding(result, color));
+    }
+  }
+
+  // Only new findings count as problems
+  const counts = countSeverities(comparison.new);
+  lines.push(formatSummary(counts, color).trimEnd());
+  lines.push(
+    `  ${comparison.new.length} new, ${comparison.fixed.length} fixed, ${comparison.unchanged.length} unchanged\n`
+  );
+
+  return lines.join('\n');
+}
+
 /**
  * Strips ANSI escape codes from a string.
  * Useful for testing and comparison.
@@ -0,0 +1,107 @@
+// packages/cli/src/junit.ts
+// JUnit XML output formatter for SentriFlow CLI (Jenkins, Azure DevOps, GitLab)
+
+import type { RuleResult } from '@sentriflow/core';
+import { toReportPath } from './report';
+import type { ReportOptions } from './report';
+import type { FileResults } from './sarif';
+
+/**
+ * Escapes text for use in XML content and attribute values.
+ * Characters that are not allowed in XML 1.0 are dropped.
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/[^\t\n\r\x20-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Formats one rule result as a test case. Failed results become failures,
+ * typed by their severity level.
+ */
+function toTestCase(result: RuleResult, file: string): string {
+  // JUnit consumers show 1-based line numbers, as in SARIF
+  const line = result.loc ? result.loc.startLine + 1 : undefined;
+  const name = line !== undefined ? `${result.ruleId} (line ${line})` : result.ruleId;
+  const attributes = `name="${escapeXml(name)}" classname="${escapeXml(file)}"`;
+
+  if (result.passed) {
+    return `    <testcase ${attributes}/>`;
+  }
+
+  const details = [
+    `${result.level}: ${result.message}`,
+    `at ${file}${line !== undefined ? `:${line}` : ''}`,
+    ...(result.path ? [`path: ${result.path}`] : []),
+  ].join('\n');
+  return [
+    `    <testcase ${attributes}>`,
+    `      <failure message="${escapeXml(result.message)}" type="${escapeXml(result.level)}">${escapeXml(details)}</failure>`,
+    '    </testcase>',
+  ].join('\n');
+}
+
+/**
+ * Formats the results of one file as a test suite.
+ */
+function toTestSuite(file: string, results: RuleResult[]): string {
+  const failures = results.filter((r) => !r.passed).length;
+  const attributes = `name="${escapeXml(file)}" tests="${results.length}" failures="${failures}" errors="0" skipped="0"`;
+  if (results.length === 0) {
+    return `  <testsuite ${attributes}/>`;
+  }
+  return [
+    `  <testsuite ${attributes}>`,
+    ...results.map((result) => toTestCase(result, file)),
+    '  </testsuite>',
+  ].join('\n');
+}
+
+/**
+ * Generates a JUnit XML report from the given rule results.
+ * Each rule result is a test case; failed results are test failures.
+ *
+ * @param results The array of RuleResult objects.
+ * @param filePath The path to the scanned file.
+ * @param options Optional JUnit generation options.
+ * @returns A string containing the JUnit XML report.
+ */
+export function generateJunit(
+  results: RuleResult[],
+  filePath: string,
+  options: ReportOptions = {}
+): string {
+  return generateMultiFileJunit([{ filePath, results }], options);
+}
+
+/**
+ * Generates a combined JUnit XML report with one test suite per file.
+ *
+ * @param fileResults Array of file results to include in the report.
+ * @param options Optional JUnit generation options.
+ * @returns A string containing the JUnit XML report.
+ */
+export function generateMultiFileJunit(
+  fileResults: FileResults[],
+  options: ReportOptions = {}
+): string {
+  const tests = fileResults.reduce((sum, fr) => sum + fr.results.length, 0);
+  const failures = fileResults.reduce(
+    (sum, fr) => sum + fr.results.filter((r) => !r.passed).length,
+    0
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="Sentriflow" tests="${tests}" failures="${failures}" errors="0">`,
+    ...fileResults.map(({ filePath, results }) =>
+      toTestSuite(toReportPath(filePath, options), results)
+    ),
+    '</testsuites>',
+  ].join('\n');
+}
@@ -0,0 +1,96 @@
+// packages/cli/src/policy.ts
+// Exit codes and the severity thresholds that decide whether a scan fails
+
+import { SentriflowPackError } from '@sentriflow/core';
+import type { RuleResult } from '@sentriflow/core';
+
+/**
+ * Process exit codes of the CLI.
+ */
+export const EXIT_CODES = {
+  /** Scan completed and the findings are within the policy */
+  success: 0,
+  /** Scan completed, but the findings exceed `--fail-on` or `--max-warnings` */
+  policyFailure: 1,
+  /** Usage, config, input or parse error, or a file that could not be scanned */
+  error: 2,
+  /** A rule pack could not be loaded (with `--strict-packs`) */
+  packLoadError: 3,
+} as const;
+
+/**
+ * Lowest severity that fails a scan, or 'never' to never fail on findings.
+ */
+export type FailOnLevel = RuleResult['level'] | 'never';
+
+/** Valid values of FailOnLevel, most severe first */
+export const FAIL_ON_LEVELS: readonly FailOnLevel[] = ['error', 'warning', 'info', 'never'];
+
+/** Severity ranks; a finding fails the scan if its rank is at most the fail-on rank */
+const LEVEL_RANKS: Record<FailOnLevel, number> = { error: 0, warning: 1, info: 2, never: -1 };
+
+/**
+ * When a scan fails: `--fail-on`/`--max-warnings` or `failOn`/`maxWarnings`
+ * in the config file.
+ */
+export interface ExitPolicy {
+  /** Lowest severity that fails the scan (default: 'info', any finding) */
+  failOn?: FailOnLevel;
+  /** Warnings allowed before the scan fails, whatever `failOn` is */
+  maxWarnings?: number;
+}
+
+/**
+ * Outcome of checking findings against an exit policy.
+ */
+export interface PolicyOutcome {
+  /** Whether the findings exceed the policy */
+  failed: boolean;
+  /** Why the scan failed, one line per exceeded threshold */
+  reasons: string[];
+}
+
+/**
+ * Checks whether a value is a valid fail-on level.
+ */
+export function isFailOnLevel(value: unknown): value is FailOnLevel {
+  return typeof value === 'string' && (FAIL_ON_LEVELS as readonly string[]).includes(value);
+}
+
+/**
+ * Checks the failed results of a scan against an exit policy.
+ *
+ * A scan fails if any finding is at least as severe as `failOn`, or if there
+ * are more than `maxWarnings` warnings. Passed results are ignored.
+ *
+ * @param results Results of all scanned files (in baseline mode, only the new findings)
+ * @param policy Exit policy; defaults fail on any finding
+ * @returns Whether the scan failed and why
+ */
+export function evaluateExitPolicy(results: RuleResult[], policy: ExitPolicy = {}): PolicyOutcome {
+  const { failOn = 'info', maxWarnings } = policy;
+  const findings = results.filter((r) => !r.passed);
+  const reasons: string[] = [];
+
+  if (failOn !== 'never') {
+    const failing = findings.filter((r) => LEVEL_RANKS[r.level] <= LEVEL_RANKS[failOn]);
+    if (failing.length > 0) {
+      reasons.push(`${failing.length} finding(s) at or above '${failOn}'`);
+    }
+  }
+
+  const warnings = findings.filter((r) => r.level === 'warning').length;
+  if (maxWarnings !== undefined && warnings > maxWarnings) {
+    reasons.push(`${warnings} warning(s) exceed the maximum of ${maxWarnings}`);
+  }
+
+  return { failed: reasons.length > 0, reasons };
+}
+
+/**
+ * Returns the exit code for an error that aborted a command: pack load
+ * errors have their own code, everything else is a general error.
+ */
+export function getErrorExitCode(error: unknown): number {
+  return error instanceof SentriflowPackError ? EXIT_CODES.packLoadError : EXIT_CODES.error;
+}
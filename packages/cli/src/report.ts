@@ -0,0 +1,74 @@
+// packages/cli/src/report.ts
+// Flat finding rows shared by the CSV and HTML report formatters
+
+import { relative } from 'path';
+import type { FileResults, RuleDescriptor, SarifOptions } from './sarif';
+
+/**
+ * Path options shared by the JUnit, CSV and HTML reports.
+ */
+export type ReportOptions = Pick<SarifOptions, 'relativePaths' | 'baseDir'>;
+
+/**
+ * One rule result with the file, vendor and rule metadata it belongs to.
+ */
+export interface ReportRow {
+  file: string;
+  /** Vendor ID of the file, if it was parsed */
+  vendor?: string;
+  /** 1-based line number, as in SARIF */
+  line?: number;
+  ruleId: string;
+  level: string;
+  passed: boolean;
+  message: string;
+  /** Node path of the finding */
+  path?: string;
+  /** Categories of the rule (none for unknown rules) */
+  categories: string[];
+  /** Tag labels of the rule */
+  tags: string[];
+}
+
+/**
+ * Returns the path of a file as shown in a report (L-3: relative if requested).
+ */
+export function toReportPath(filePath: string, options: ReportOptions = {}): string {
+  return options.relativePaths ? relative(options.baseDir ?? process.cwd(), filePath) : filePath;
+}
+
+/**
+ * Flattens file results into report rows, in file and result order.
+ *
+ * @param fileResults Results of the scanned files
+ * @param rules Rules (and fleet rules) the categories and tags are taken from
+ * @param options Path options
+ * @returns One row per rule result
+ */
+export function toReportRows(
+  fileResults: FileResults[],
+  rules: RuleDescriptor[] = [],
+  options: ReportOptions = {}
+): ReportRow[] {
+  const ruleMap = new Map(rules.map((rule) => [rule.id, rule]));
+
+  return fileResults.flatMap(({ filePath, results, vendor }) => {
+    const file = toReportPath(filePath, options);
+    return results.map((result): ReportRow => {
+      const rule = ruleMap.get(result.ruleId);
+      const category = rule?.category;
+      return {
+        file,
+        ...(vendor && { vendor: vendor.id }),
+        ...(result.loc && { line: result.loc.startLine + 1 }),
+        ruleId: result.ruleId,
+        level: result.level,
+        passed: result.passed,
+        message: result.message,
+        ...(result.path && { path: result.path }),
+        categories: category === undefined ? [] : Array.isArray(category) ? category : [category],
+        tags: (rule?.metadata.tags ?? []).map((tag) => tag.label),
+      };
+    });
+  });
+}
@@ -3,7 +3,9 @@
 declare const __VERSION__: string;
 
 import type { RuleResult, IRule, IPSummary, Tag } from '@sentriflow/core';
+import { SUPPRESSION_RULES, isSuppressionFinding } from '@sentriflow/core';
 import { relative } from 'path';
+import type { BaselineState } from './baseline';
 
 /**
  * SARIF rule definition with SEC-007 security metadata support.
@@ -37,11 +39,24 @@ export interface SarifOptions {
   relativePaths?: boolean;
   /** Base directory for relative path calculation */
   baseDir?: string;
+  /**
+   * Baseline comparison: emits `baselineState` on each result.
+   * Results in state 'absent' (fixed) are located in the baseline file.
+   */
+  baseline?: {
+    filePath: string;
+    states: ReadonlyMap<RuleResult, BaselineState>;
+  };
 }
 
 /**
  * Results for a single file in multi-file scanning.
  */
+/**
+ * Rule fields used for SARIF rule descriptors, shared by rules and fleet rules.
+ */
+export type RuleDescriptor = Pick<IRule, 'id' | 'category' | 'metadata'>;
+
 export interface FileResults {
   filePath: string;
   results: RuleResult[];
@@ -50,6 +65,60 @@ export interface FileResults {
   ipSummary?: IPSummary;
 }
 
+/**
+ * Adds the descriptions of the suppression directive findings (unused,
+ * expired or invalid directives) among the results to the rules of a report.
+ *
+ * @param rules Rules of the report
+ * @param results Results of the report
+ * @returns The rules, plus the directive rules that have results
+ */
+function withSuppressionRules(
+  rules: RuleDescriptor[] | undefined,
+  results: RuleResult[]
+): RuleDescriptor[] | undefined {
+  const directiveIds = new Set(results.filter(isSuppressionFinding).map((r) => r.ruleId));
+  if (directiveIds.size === 0) {
+    return rules;
+  }
+  const known = new Set(rules?.map((rule) => rule.id));
+  return [
+    ...(rules ?? []),
+    ...SUPPRESSION_RULES.filter((rule) => directiveIds.has(rule.id) && !known.has(rule.id)),
+  ];
+}
+
+/**
+ * Builds the SARIF locations of a result.
+ * The node path is emitted as a logical location so that consumers can match
+ * findings across revisions independently of line numbers.
+ *
+ * @param result The rule result
+ * @param uri The artifact URI of the scanned file
+ * @returns Zero or one SARIF location
+ */
+function toSarifLocations(result: RuleResult, uri: string): object[] {
+  if (!result.loc && !result.path) {
+    return [];
+  }
+  return [
+    {
+      ...(result.loc && {
+        physicalLocation: {
+          artifactLocation: { uri },
+          region: {
+            startLine: result.loc.startLine + 1, // SARIF is 1-based
+            endLine: result.loc.endLine + 1,
+          },
+        },
+      }),
+      ...(result.path && {
+        logicalLocations: [{ fullyQualifiedName: result.path, kind: 'element' }],
+      }),
+    },
+  ];
+}
+
 /**
  * Generates a SARIF report from the given rule results.
  *
@@ -63,43 +132,36 @@ export interface FileResults {
 export function generateSarif(
   results: RuleResult[],
   filePath: string,
-  rules?: IRule[],
+  rules?: RuleDescriptor[],
   options: SarifOptions = {},
   ipSummary?: IPSummary
 ): string {
   // Determine the URI to use in the report (L-3 fix: path disclosure)
-  const fileUri = options.relativePaths
-    ? relative(options.baseDir ?? process.cwd(), filePath)
-    : filePath;
+  const toUri = (path: string) =>
+    options.relativePaths ? relative(options.baseDir ?? process.cwd(), path) : path;
+  const fileUri = toUri(filePath);
+  const baselineUri = options.baseline ? toUri(options.baseline.filePath) : fileUri;
   const sarifResults = results.map((result) => {
+    const baselineState = options.baseline?.states.get(result);
     return {
       ruleId: result.ruleId,
       level: result.level === 'info' ? 'note' : result.level,
       message: {
         text: result.message,
       },
-      locations: result.loc
-        ? [
-            {
-              physicalLocation: {
-                artifactLocation: {
-                  uri: fileUri, // Use relative or absolute based on options
-                },
-                region: {
-                  startLine: result.loc.startLine + 1, // SARIF is 1-based
-                  endLine: result.loc.endLine + 1,
-                },
-              },
-            },
-          ]
-        : [],
+      // Use relative or absolute URI based on options
+      locations: toSarifLocations(
+        result,
+        baselineState === 'absent' ? baselineUri : fileUri
+      ),
+      ...(baselineState && { baselineState }),
     };
   });
 
   // Build rule definitions from provided rules
   // SEC-007: Include security metadata (CWE, CVSS) when available
   const sarifRules: SarifRule[] =
-    rules?.map((rule) => {
+    withSuppressionRules(rules, results)?.map((rule) => {
       const base: SarifRule = {
         id: rule.id,
         name: rule.id,
@@ -255,13 +317,13 @@ function aggregateIPSummaries(summaries: IPSummary[]): IPSummary | undefined {
  * Generates a combined SARIF report from multiple file results.
  *
  * @param fileResults Array of file results to include in the report.
- * @param rules Optional array of rules to include metadata in report.
+ * @param rules Optional array of rules (and fleet rules) to include metadata in report.
  * @param options Optional SARIF generation options.
  * @returns A string containing the JSON-formatted SARIF report.
  */
 export function generateMultiFileSarif(
   fileResults: FileResults[],
-  rules?: IRule[],
+  rules?: RuleDescriptor[],
   options: SarifOptions = {}
 ): string {
   // Aggregate IP summaries from all files
@@ -281,28 +343,17 @@ export function generateMultiFileSarif(
       message: {
         text: result.message,
       },
-      locations: result.loc
-        ? [
-            {
-              physicalLocation: {
-                artifactLocation: {
-                  uri: fileUri,
-                },
-                region: {
-                  startLine: result.loc.startLine + 1, // SARIF is 1-based
-                  endLine: result.loc.endLine + 1,
-                },
-              },
-            },
-          ]
-        : [],
+      locations: toSarifLocations(result, fileUri),
     }));
   });
 
   // Build rule definitions from provided rules
   // SEC-007: Include security metadata (CWE, CVSS) when available
   const sarifRules: SarifRule[] =
-    rules?.map((rule) => {
+    withSuppressionRules(
+      rules,
+      fileResults.flatMap(({ results }) => results)
+    )?.map((rule) => {
       const base: SarifRule = {
         id: rule.id,
         name: rule.id,
@@ -97,7 +97,7 @@ function isWithinBounds(filePath: string, allowedBaseDirs?: string[]): boolean {
  * Simple glob pattern matching.
  * Supports: * (any chars), ? (single char), ** (recursive dir match)
  */
-function matchesPattern(fileName: string, pattern: string): boolean {
+export function matchesPattern(fileName: string, pattern: string): boolean {
     // Convert glob pattern to regex
     const regexPattern = pattern
         .replace(/[.+^${}()|[\]\\]/g, '\\$&') // Escape special regex chars
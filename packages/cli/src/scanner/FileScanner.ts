@@ -0,0 +1,109 @@
+// packages/cli/src/scanner/FileScanner.ts
+
+import { readFile } from 'fs/promises';
+import {
+    SchemaAwareParser,
+    RuleEngine,
+    detectVendor,
+    getVendor,
+    extractIPSummary,
+    filterIPSummary,
+    ruleAppliesToVendor,
+    applyInlineSuppressions,
+} from '@sentriflow/core';
+import type { IRule, VendorSchema } from '@sentriflow/core';
+import type { FileResults } from '../sarif';
+import { applySharedSuppressions } from '../suppressions';
+import type { LoadedSuppressions } from '../suppressions';
+
+/**
+ * Options for scanning a single configuration file.
+ * Must stay structured-cloneable: worker threads receive it as workerData.
+ */
+export interface FileScanOptions {
+    /** Vendor ID, or 'auto' to detect the vendor per file */
+    vendor: string;
+    /** Only keep failures (suppress passed results) */
+    quiet?: boolean;
+    /** Filter special IP ranges from the IP summary */
+    filterSpecialIps?: boolean;
+    /** Apply `sentriflow-disable-*` comment directives (default: true) */
+    inlineSuppressions?: boolean;
+    /** Active entries of the shared suppression file */
+    suppressions?: LoadedSuppressions;
+}
+
+/**
+ * Scans one configuration file: resolves its vendor, runs the rules that
+ * apply to that vendor, applies its inline suppressions and the shared
+ * suppression file, and extracts its IP summary.
+ *
+ * @param filePath Canonical path of the file to scan
+ * @param rules All active rules (filtered by vendor here)
+ * @param engine Rule engine to run the rules with
+ * @param options Scan options
+ * @returns Results for the file
+ * @throws If the file cannot be read or the vendor is unknown
+ */
+export async function scanConfigFile(
+    filePath: string,
+    rules: IRule[],
+    engine: RuleEngine,
+    options: FileScanOptions
+): Promise<FileResults> {
+    const content = await readFile(filePath, 'utf-8');
+
+    // Resolve vendor per file
+    let vendor: VendorSchema;
+    if (options.vendor === 'auto') {
+        vendor = detectVendor(content);
+    } else {
+        vendor = getVendor(options.vendor);
+    }
+
+    // Filter rules by vendor for this file
+    const fileRules = rules.filter((rule) => ruleAppliesToVendor(rule, vendor.id));
+
+    const parser = new SchemaAwareParser({ vendor });
+    const nodes = parser.parse(content);
+    let results = engine.run(nodes, fileRules, { vendorId: vendor.id });
+
+    // Drop findings suppressed by comment directives, report stale directives
+    if (options.inlineSuppressions ?? true) {
+        results = applyInlineSuppressions(results, content, vendor).results;
+    }
+    if (options.suppressions) {
+        results = applySharedSuppressions(results, options.suppressions, filePath, content);
+    }
+
+    // Filter to failures only if quiet mode
+    if (options.quiet) {
+        results = results.filter((r) => !r.passed);
+    }
+
+    // Extract IP summary for this file (include subnet network addresses)
+    let ipSummary = extractIPSummary(content, { includeSubnetNetworks: true });
+
+    // Apply IP filtering if enabled (via CLI option or config)
+    if (options.filterSpecialIps) {
+        ipSummary = filterIPSummary(ipSummary, {
+            keepPublic: true,
+            keepPrivate: true,
+            keepCgnat: true,
+            keepLoopback: false,
+            keepLinkLocal: false,
+            keepMulticast: false,
+            keepReserved: false,
+            keepUnspecified: false,
+            keepBroadcast: false,
+            keepDocumentation: false,
+        });
+    }
+
+    return {
+        filePath,
+        results,
+        vendor: { id: vendor.id, name: vendor.name },
+        ipSummary,
+    };
+}
@@ -0,0 +1,205 @@
+// packages/cli/src/scanner/FleetScanner.ts
+
+import { readFile } from 'fs/promises';
+import {
+    SUPPRESSION_RULE_IDS,
+    SchemaAwareParser,
+    applyInlineSuppressions,
+    createFleetDevice,
+    getVendor,
+    runFleetRules,
+} from '@sentriflow/core';
+import type { FleetDevice, FleetRuleError, IFleetRule, RuleResult } from '@sentriflow/core';
+import { resolveFleetRules, selectProfile } from '../config';
+import type { ResolveOptions, SentriflowConfig } from '../config';
+import type { FileResults } from '../sarif';
+import { applySharedSuppressions } from '../suppressions';
+import type { LoadedSuppressions } from '../suppressions';
+
+/**
+ * Options for running fleet rules over scanned files.
+ */
+export interface FleetScanOptions {
+    /** Honor inline suppression comments (default: true) */
+    inlineSuppressions?: boolean;
+    /** Shared suppression file, applied to the fleet findings of each file */
+    suppressions?: LoadedSuppressions;
+    /** Loaded config file, whose profiles are selected by their `paths` */
+    config?: SentriflowConfig;
+    /** Directory the `paths` globs are relative to (the config file directory) */
+    baseDir?: string;
+    /** Options the fleet rules of a selected profile are resolved with */
+    resolveOptions?: ResolveOptions;
+}
+
+/**
+ * Outcome of running fleet rules over scanned files.
+ */
+export interface FleetScanResult {
+    /** Number of fleet findings added to the file results */
+    findings: number;
+    /** Fleet rules that threw */
+    errors: FleetRuleError[];
+}
+
+/**
+ * Parses the scanned files into fleet devices.
+ * Files that failed to scan (no vendor) or can no longer be read are skipped.
+ *
+ * @param fileResults Results of the per-file scan
+ * @returns One device per parsed file
+ */
+export async function loadFleetDevices(fileResults: FileResults[]): Promise<FleetDevice[]> {
+    return (await loadFleetSources(fileResults)).map(({ device }) => device);
+}
+
+/** Parsed device of a scanned file and the text it was parsed from */
+interface FleetSource {
+    device: FleetDevice;
+    content: string;
+}
+
+async function loadFleetSources(fileResults: FileResults[]): Promise<FleetSource[]> {
+    const sources: FleetSource[] = [];
+    for (const { filePath, vendor } of fileResults) {
+        if (!vendor) continue;
+        try {
+            const content = await readFile(filePath, 'utf-8');
+            const parser = new SchemaAwareParser({ vendor: getVendor(vendor.id) });
+            sources.push({
+                device: createFleetDevice(filePath, vendor.id, parser.parse(content)),
+                content,
+            });
+        } catch {
+            // Per-file errors were already reported by the per-file scan
+        }
+    }
+    return sources;
+}
+
+/**
+ * Resolves the fleet rules of each file: the rules of the profile the file is
+ * selected for, or the given rules for files without a profile.
+ */
+async function resolveFleetRulesByFile(
+    filePaths: string[],
+    rules: IFleetRule[],
+    options: FleetScanOptions
+): Promise<Map<string, IFleetRule[]>> {
+    const { config, baseDir, resolveOptions } = options;
+    const byProfile = new Map<string, IFleetRule[]>();
+    const byFile = new Map<string, IFleetRule[]>();
+    for (const filePath of filePaths) {
+        const profile = config && baseDir ? selectProfile(config, filePath, baseDir) : undefined;
+        if (profile === undefined) {
+            byFile.set(filePath, rules);
+            continue;
+        }
+        let profileRules = byProfile.get(profile);
+        if (!profileRules) {
+            profileRules = await resolveFleetRules({ ...resolveOptions, profile });
+            byProfile.set(profile, profileRules);
+        }
+        byFile.set(filePath, profileRules);
+    }
+    return byFile;
+}
+
+/**
+ * Applies the inline and shared suppressions of a file to its fleet findings.
+ *
+ * Directives were already reported by the per-file scan, so only the unused
+ * warnings of directives that suppress a fleet finding are dropped from the
+ * file results.
+ */
+function suppressFleetFindings(
+    target: FileResults,
+    findings: RuleResult[],
+    content: string,
+    options: FleetScanOptions
+): RuleResult[] {
+    let results = findings;
+    if ((options.inlineSuppressions ?? true) && target.vendor) {
+        const outcome = applyInlineSuppressions(results, content, getVendor(target.vendor.id));
+        const unusedLines = new Set(outcome.unused.map((s) => s.line));
+        target.results = target.results.filter(
+            (r) =>
+                r.ruleId !== SUPPRESSION_RULE_IDS.unused ||
+                r.loc === undefined ||
+                unusedLines.has(r.loc.startLine)
+        );
+        results = outcome.results.filter((r) => findings.includes(r));
+    }
+    if (options.suppressions) {
+        results = applySharedSuppressions(results, options.suppressions, target.filePath, content);
+    }
+    return results;
+}
+
+/**
+ * Runs fleet (cross-device) rules over the files of a multi-file or directory
+ * scan, and appends each finding to the results of the file it belongs to.
+ *
+ * Fleet rules need every device at once, so they run on the main thread after
+ * the per-file scan (also with --jobs), and their findings are never cached.
+ * A finding is kept only if its rule is enabled for the file (by the profile
+ * selected by path, if any), gets the level configured there, and goes
+ * through the inline and shared suppressions of the file.
+ *
+ * @param fileResults Results of the per-file scan (updated in place)
+ * @param rules Fleet rules for files without a profile
+ * @param options Suppressions and the config whose profiles are selected by path
+ * @returns Number of findings and rule errors
+ */
+export async function scanFleet(
+    fileResults: FileResults[],
+    rules: IFleetRule[],
+    options: FleetScanOptions = {}
+): Promise<FleetScanResult> {
+    const sources = await loadFleetSources(fileResults);
+    const rulesByFile = await resolveFleetRulesByFile(
+        sources.map(({ device }) => device.filePath),
+        rules,
+        options
+    );
+
+    // Every rule enabled for some file runs over all devices
+    const runRules = new Map<string, IFleetRule>();
+    for (const fileRules of rulesByFile.values()) {
+        for (const rule of fileRules) {
+            if (!runRules.has(rule.id)) {
+                runRules.set(rule.id, rule);
+            }
+        }
+    }
+    if (runRules.size === 0) {
+        return { findings: 0, errors: [] };
+    }
+
+    const { results, errors } = runFleetRules(
+        sources.map(({ device }) => device),
+        [...runRules.values()]
+    );
+
+    const findingsByFile = new Map<string, RuleResult[]>();
+    for (const { filePath, ...result } of results) {
+        const rule = rulesByFile.get(filePath)?.find((r) => r.id === result.ruleId);
+        if (!rule) continue;
+        const fileFindings = findingsByFile.get(filePath) ?? [];
+        fileFindings.push({ ...result, level: rule.metadata.level });
+        findingsByFile.set(filePath, fileFindings);
+    }
+
+    const byFile = new Map(fileResults.map((fr) => [fr.filePath, fr]));
+    let findings = 0;
+    for (const { device, content } of sources) {
+        const target = byFile.get(device.filePath);
+        const fileFindings = findingsByFile.get(device.filePath);
+        if (!target || !fileFindings) continue;
+        const kept = suppressFleetFindings(target, fileFindings, content, options);
+        target.results.push(...kept);
+        findings += kept.length;
+    }
+
+    return { findings, errors };
+}
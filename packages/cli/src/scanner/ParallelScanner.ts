@@ -0,0 +1,235 @@
+// packages/cli/src/scanner/ParallelScanner.ts
+
+import { Worker } from 'worker_threads';
+import { RuleEngine } from '@sentriflow/core';
+import type { IRule } from '@sentriflow/core';
+import type { ResolveOptions } from '../config';
+import type { FileResults } from '../sarif';
+import { scanConfigFile } from './FileScanner';
+import type { FileScanOptions } from './FileScanner';
+import type { ScanCache } from './ScanCache';
+
+/**
+ * The bundled CLI ships the worker as dist/scan-worker.js next to index.js.
+ * When running from source, the TypeScript module is loaded directly.
+ */
+const WORKER_URL = import.meta.url.endsWith('.ts')
+    ? new URL('./ScanWorker.ts', import.meta.url)
+    : new URL('./scan-worker.js', import.meta.url);
+
+/**
+ * Data passed to each scan worker on startup.
+ */
+export interface ScanWorkerData {
+    /** Options to resolve rules with (rules cannot be sent to workers) */
+    resolveOptions: ResolveOptions;
+    /** Options for scanning each file */
+    scanOptions: FileScanOptions;
+}
+
+/**
+ * Message sent to a worker: scan the file at `index`.
+ */
+export interface ScanRequest {
+    index: number;
+    filePath: string;
+}
+
+/**
+ * Message sent back by a worker once a file has been scanned.
+ */
+export interface ScanResponse {
+    index: number;
+    result?: FileResults;
+    /** Error message if the file could not be scanned */
+    error?: string;
+}
+
+/**
+ * Outcome of scanning one file.
+ */
+export interface ParallelScanOutcome extends FileResults {
+    /** Error message if the file could not be scanned (results are empty) */
+    error?: string;
+}
+
+/**
+ * Options for scanning multiple files.
+ */
+export interface ParallelScanOptions extends ScanWorkerData {
+    /** Number of worker threads; 1 scans on the main thread */
+    jobs: number;
+    /** Called when a file starts scanning (in input order, not for cache hits) */
+    onFileStart?: (index: number, filePath: string) => void;
+    /** Cache of previous results; hits are not scanned again */
+    cache?: ScanCache;
+}
+
+/**
+ * Scans files on the main thread, or on `jobs` worker threads when jobs > 1.
+ * Files that cannot be scanned get empty results and an error message.
+ * With a cache, unchanged files are served from it and new results are stored.
+ *
+ * @param files Canonical paths of the files to scan
+ * @param rules Active rules (used on the main thread only)
+ * @param options Scan options
+ * @returns One outcome per file, in input order
+ */
+export async function scanFiles(
+    files: string[],
+    rules: IRule[],
+    options: ParallelScanOptions
+): Promise<ParallelScanOutcome[]> {
+    const { cache } = options;
+    if (!cache) {
+        return scanUncached(files, rules, options);
+    }
+
+    const outcomes: ParallelScanOutcome[] = new Array(files.length);
+    const missIndexes: number[] = [];
+    for (const [index, filePath] of files.entries()) {
+        const cached = await cache.get(filePath);
+        if (cached) {
+            outcomes[index] = cached;
+        } else {
+            missIndexes.push(index);
+        }
+    }
+
+    const scanned = await scanUncached(
+        missIndexes.map((index) => files[index]!),
+        rules,
+        {
+            ...options,
+            onFileStart: (i, filePath) => options.onFileStart?.(missIndexes[i]!, filePath),
+        }
+    );
+    for (const [i, outcome] of scanned.entries()) {
+        outcomes[missIndexes[i]!] = outcome;
+        if (outcome.error === undefined) {
+            await cache.set(outcome);
+        }
+    }
+    return outcomes;
+}
+
+/**
+ * Scans files without a cache, sequentially or on worker threads.
+ */
+function scanUncached(
+    files: string[],
+    rules: IRule[],
+    options: ParallelScanOptions
+): Promise<ParallelScanOutcome[]> {
+    if (options.jobs > 1) {
+        return scanFilesParallel(files, options);
+    }
+    return scanSequential(files, rules, options);
+}
+
+/**
+ * Scans files one at a time on the main thread.
+ */
+async function scanSequential(
+    files: string[],
+    rules: IRule[],
+    options: ParallelScanOptions
+): Promise<ParallelScanOutcome[]> {
+    const engine = new RuleEngine();
+    const outcomes: ParallelScanOutcome[] = [];
+    for (const [index, filePath] of files.entries()) {
+        options.onFileStart?.(index, filePath);
+        try {
+            outcomes.push(await scanConfigFile(filePath, rules, engine, options.scanOptions));
+        } catch (err) {
+            const error = err instanceof Error ? err.message : 'Unknown error';
+            outcomes.push({ filePath, results: [], error });
+        }
+    }
+    return outcomes;
+}
+
+/**
+ * Scans files on a pool of worker threads.
+ *
+ * Each worker resolves the rules once from `resolveOptions`, then scans files
+ * one at a time as they are handed out. Outcomes are returned in the order of
+ * `files`, regardless of which worker finished first.
+ *
+ * @param files Canonical paths of the files to scan
+ * @param options Parallel scan options
+ * @returns One outcome per file, in input order
+ * @throws If a worker fails to start or crashes
+ */
+export function scanFilesParallel(
+    files: string[],
+    options: ParallelScanOptions
+): Promise<ParallelScanOutcome[]> {
+    const outcomes: ParallelScanOutcome[] = new Array(files.length);
+    if (files.length === 0) {
+        return Promise.resolve(outcomes);
+    }
+
+    const workerData: ScanWorkerData = {
+        resolveOptions: options.resolveOptions,
+        scanOptions: options.scanOptions,
+    };
+    const workerCount = Math.max(1, Math.min(options.jobs, files.length));
+    const workers: Worker[] = [];
+
+    return new Promise((resolvePromise, reject) => {
+        let next = 0;
+        let completed = 0;
+        let settled = false;
+
+        const finish = (error?: Error): void => {
+            if (settled) return;
+            settled = true;
+            for (const worker of workers) {
+                void worker.terminate();
+            }
+            if (error) {
+                reject(error);
+            } else {
+                resolvePromise(outcomes);
+            }
+        };
+
+        const dispatch = (worker: Worker): void => {
+            const filePath = files[next];
+            if (filePath === undefined) return;
+            const request: ScanRequest = { index: next++, filePath };
+            options.onFileStart?.(request.index, filePath);
+            worker.postMessage(request);
+        };
+
+        for (let i = 0; i < workerCount; i++) {
+            const worker = new Worker(WORKER_URL, { workerData });
+            workers.push(worker);
+
+            worker.on('message', (response: ScanResponse) => {
+                const filePath = files[response.index] ?? '';
+                outcomes[response.index] = response.result ?? {
+                    filePath,
+                    results: [],
+                    error: response.error,
+                };
+                completed++;
+
+                if (completed === files.length) {
+                    finish();
+                } else {
+                    dispatch(worker);
+                }
+            });
+            worker.on('error', (error) => finish(error));
+            worker.on('exit', (code) => {
+                if (code !== 0) {
+                    finish(new Error(`Scan worker exited with code ${code}`));
+                }
+            });
+
+            dispatch(worker);
+        }
+    });
+}
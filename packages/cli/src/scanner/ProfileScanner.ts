@@ -0,0 +1,96 @@
+// packages/cli/src/scanner/ProfileScanner.ts
+
+import type { IRule } from '@sentriflow/core';
+import { resolveRules, selectProfile } from '../config';
+import type { SentriflowConfig } from '../config';
+import { scanFiles } from './ParallelScanner';
+import type { ParallelScanOptions, ParallelScanOutcome } from './ParallelScanner';
+import type { ScanCache } from './ScanCache';
+
+/**
+ * Options for scanning files with the profiles selected by path.
+ */
+export interface ProfileScanOptions extends Omit<ParallelScanOptions, 'cache'> {
+    /** Loaded config file, whose profiles are selected by their `paths` */
+    config?: SentriflowConfig;
+    /** Directory the `paths` globs are relative to (the config file directory) */
+    baseDir: string;
+    /** Creates the scan cache for a rule set; results are only reused for the same rules */
+    createCache?: (rules: IRule[]) => ScanCache;
+}
+
+/**
+ * Outcome of scanning files with the profiles selected by path.
+ */
+export interface ProfileScanResult {
+    /** One outcome per file, in input order */
+    outcomes: ParallelScanOutcome[];
+    /** Rules of all profiles used, by rule ID (the first rule set wins) */
+    rules: IRule[];
+    /** Number of files served from the scan cache */
+    cacheHits: number;
+}
+
+/**
+ * Scans files with the rules of the profile each file is selected for.
+ *
+ * Files are grouped by the first profile whose `paths` glob matches them;
+ * each group is scanned with the rules resolved for its profile (also on
+ * worker threads), files without a profile with the top-level `rules`.
+ * Without profile paths this is a plain scanFiles over all files.
+ *
+ * @param files Canonical paths of the files to scan
+ * @param rules Rules for files without a profile
+ * @param options Scan options
+ * @returns Outcomes in input order, the rules used and the cache hits
+ */
+export async function scanFilesByProfile(
+    files: string[],
+    rules: IRule[],
+    options: ProfileScanOptions
+): Promise<ProfileScanResult> {
+    const { config, baseDir, createCache, ...scanOptions } = options;
+
+    const groups = new Map<string | undefined, number[]>();
+    for (const [index, filePath] of files.entries()) {
+        const profile = config ? selectProfile(config, filePath, baseDir) : undefined;
+        const indexes = groups.get(profile) ?? [];
+        indexes.push(index);
+        groups.set(profile, indexes);
+    }
+
+    const outcomes: ParallelScanOutcome[] = new Array(files.length);
+    const usedRules = new Map<string, IRule>();
+    let cacheHits = 0;
+
+    for (const [profile, indexes] of groups) {
+        const resolveOptions = profile === undefined
+            ? scanOptions.resolveOptions
+            : { ...scanOptions.resolveOptions, profile };
+        const groupRules = profile === undefined ? rules : await resolveRules(resolveOptions);
+        const cache = createCache?.(groupRules);
+
+        const groupOutcomes = await scanFiles(
+            indexes.map((index) => files[index]!),
+            groupRules,
+            {
+                ...scanOptions,
+                resolveOptions,
+                cache,
+                onFileStart: (i, filePath) => scanOptions.onFileStart?.(indexes[i]!, filePath),
+            }
+        );
+        for (const [i, outcome] of groupOutcomes.entries()) {
+            outcomes[indexes[i]!] = outcome;
+        }
+
+        cacheHits += cache?.hits ?? 0;
+        for (const rule of groupRules) {
+            if (!usedRules.has(rule.id)) {
+                usedRules.set(rule.id, rule);
+            }
+        }
+    }
+
+    return { outcomes, rules: [...usedRules.values()], cacheHits };
+}
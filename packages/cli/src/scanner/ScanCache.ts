@@ -0,0 +1,167 @@
+// packages/cli/src/scanner/ScanCache.ts
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { readFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { CACHE_DIRECTORY } from '@sentriflow/core';
+import type { IRule } from '@sentriflow/core';
+import type { FileResults } from '../sarif';
+import type { FileScanOptions } from './FileScanner';
+
+/**
+ * Default directory for cached scan results (~/.sentriflow/cache/scan).
+ */
+export const DEFAULT_SCAN_CACHE_DIRECTORY = join(CACHE_DIRECTORY, 'scan');
+
+/**
+ * Cache entry format version. Bump when the stored shape changes.
+ */
+const CACHE_FORMAT_VERSION = 1;
+
+/**
+ * Cached scan result, without the file path (entries are shared by content).
+ */
+type CachedFileResults = Omit<FileResults, 'filePath'>;
+
+interface CacheEntry {
+    version: number;
+    result: CachedFileResults;
+}
+
+/**
+ * Inputs that determine the results of a scan, apart from file content.
+ */
+export interface FingerprintInputs {
+    /** CLI version (parser and engine behaviour) */
+    toolVersion: string;
+    /** Active rules */
+    rules: IRule[];
+    /** Rule source files (config, rules, JSON rules and pack files) */
+    sourceFiles: string[];
+    /** Per-file scan options (vendor, quiet mode, IP filtering) */
+    scanOptions: FileScanOptions;
+}
+
+/**
+ * Computes a fingerprint of everything except file content that affects scan
+ * results. Compiled JSON and pack rules share the same check function source,
+ * so the content of every rule source file is hashed as well; a new pack
+ * version therefore yields a new fingerprint.
+ *
+ * @param inputs Fingerprint inputs
+ * @returns Hex-encoded SHA-256 fingerprint
+ */
+export function computeScanFingerprint(inputs: FingerprintInputs): string {
+    const hash = createHash('sha256');
+    hash.update(`sentriflow:${inputs.toolVersion}\0`);
+    hash.update(`${JSON.stringify(inputs.scanOptions)}\0`);
+
+    const rules = [...inputs.rules].sort((a, b) => a.id.localeCompare(b.id));
+    for (const rule of rules) {
+        const { id, selector, vendor, category, metadata } = rule;
+        hash.update(`${JSON.stringify({ id, selector, vendor, category, metadata })}\0`);
+        hash.update(`${rule.check.toString()}\0`);
+    }
+
+    for (const file of inputs.sourceFiles) {
+        const path = resolve(file);
+        hash.update(`${path}\0`);
+        try {
+            hash.update(readFileSync(path));
+        } catch {
+            // Missing source files were already reported while loading rules
+        }
+        hash.update('\0');
+    }
+
+    return hash.digest('hex');
+}
+
+/**
+ * On-disk cache of per-file scan results.
+ *
+ * Entries are keyed by the SHA-256 of the file content combined with a scan
+ * fingerprint (see computeScanFingerprint), so an entry is only reused when
+ * both the file and the active rule set are unchanged. Cache errors are never
+ * fatal: an unreadable entry is a miss, and a failed write is ignored.
+ */
+export class ScanCache {
+    private keys = new Map<string, string>();
+    private hitCount = 0;
+
+    /**
+     * @param directory Directory to store cache entries in
+     * @param fingerprint Scan fingerprint (see computeScanFingerprint)
+     */
+    constructor(
+        private readonly directory: string,
+        private readonly fingerprint: string
+    ) {}
+
+    /**
+     * Number of files served from the cache so far.
+     */
+    public get hits(): number {
+        return this.hitCount;
+    }
+
+    /**
+     * Looks up cached results for a file.
+     *
+     * @param filePath Canonical path of the file
+     * @returns Cached results, or undefined on a miss
+     */
+    public async get(filePath: string): Promise<FileResults | undefined> {
+        let key: string;
+        try {
+            const content = await readFile(filePath);
+            key = createHash('sha256')
+                .update(this.fingerprint)
+                .update('\0')
+                .update(content)
+                .digest('hex');
+        } catch {
+            return undefined;
+        }
+        this.keys.set(filePath, key);
+
+        try {
+            const entry = JSON.parse(await readFile(this.entryPath(key), 'utf-8')) as CacheEntry;
+            if (entry.version !== CACHE_FORMAT_VERSION || !Array.isArray(entry.result?.results)) {
+                return undefined;
+            }
+            this.hitCount++;
+            return { filePath, ...entry.result };
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Stores results for a file previously looked up with get().
+     * The entry is keyed by the content seen at lookup time.
+     *
+     * @param result Scan results of the file
+     */
+    public async set(result: FileResults): Promise<void> {
+        const key = this.keys.get(result.filePath);
+        if (!key) return;
+
+        const { filePath: _filePath, ...cached } = result;
+        const entry: CacheEntry = { version: CACHE_FORMAT_VERSION, result: cached };
+        const target = this.entryPath(key);
+        const temp = `${target}.${process.pid}.tmp`;
+        try {
+            await mkdir(this.directory, { recursive: true });
+            await writeFile(temp, JSON.stringify(entry), 'utf-8');
+            await rename(temp, target);
+        } catch {
+            // Caching is best effort
+        }
+    }
+
+    private entryPath(key: string): string {
+        return join(this.directory, `${key}.json`);
+    }
+}
@@ -0,0 +1,51 @@
+// packages/cli/src/scanner/ScanWorker.ts
+// Worker thread entry point for parallel scanning (see ParallelScanner.ts)
+
+import { parentPort, workerData } from 'worker_threads';
+import { RuleEngine } from '@sentriflow/core';
+import type { IRule } from '@sentriflow/core';
+import { resolveRules } from '../config';
+import { scanConfigFile } from './FileScanner';
+import type { ScanRequest, ScanResponse, ScanWorkerData } from './ParallelScanner';
+
+/**
+ * Resolves the rules for this worker.
+ * The main thread has already resolved the same rules and reported any load
+ * warnings, so they are not repeated once per worker.
+ */
+async function loadRules(data: ScanWorkerData): Promise<IRule[]> {
+    const consoleError = console.error;
+    console.error = () => {};
+    try {
+        return await resolveRules(data.resolveOptions);
+    } finally {
+        console.error = consoleError;
+    }
+}
+
+if (parentPort) {
+    const port = parentPort;
+    const data = workerData as ScanWorkerData;
+    const rulesPromise = loadRules(data);
+    // A load failure is reported with each file below, not as an unhandled rejection
+    rulesPromise.catch(() => {});
+    const engine = new RuleEngine();
+
+    port.on('message', async (request: ScanRequest) => {
+        let response: ScanResponse;
+        try {
+            let rules: IRule[];
+            try {
+                rules = await rulesPromise;
+            } catch (err) {
+                throw new Error(`Failed to load rules: ${err instanceof Error ? err.message : String(err)}`);
+            }
+            const result = await scanConfigFile(request.filePath, rules, engine, data.scanOptions);
+            response = { index: request.index, result };
+        } catch (err) {
+            const error = err instanceof Error ? err.message : 'Unknown error';
+            response = { index: request.index, error };
+        }
+        port.postMessage(response);
+    });
+}
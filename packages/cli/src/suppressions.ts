@@ -0,0 +1,127 @@
+// packages/cli/src/suppressions.ts
+// Shared suppression file (.sentriflow-suppressions.json) lookup and loading
+
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { dirname, relative, resolve, sep } from 'path';
+import {
+  MAX_CONFIG_SIZE,
+  MAX_TRAVERSAL_DEPTH,
+  SUPPRESSION_FILE_NAME,
+  SentriflowConfigError,
+  applySuppressionFile,
+  isSuppressionExpired,
+  parseSuppressionFile,
+} from '@sentriflow/core';
+import type { RuleResult, SuppressionEntry } from '@sentriflow/core';
+import { validateInputFilePath } from './security/pathValidator';
+
+/**
+ * Entries of a suppression file, with the directory their file globs are
+ * relative to. Structured-cloneable, so it can be part of FileScanOptions.
+ */
+export interface LoadedSuppressions {
+  /** Canonical path of the suppression file */
+  path: string;
+  /** Directory of the suppression file */
+  baseDir: string;
+  /** Suppression entries */
+  entries: SuppressionEntry[];
+}
+
+/**
+ * Find the suppression file starting from a directory, walking up to root
+ * (like the config file).
+ */
+export function findSuppressionFile(startDir: string): string | null {
+  let currentDir = resolve(startDir);
+
+  for (let depth = 0; depth < MAX_TRAVERSAL_DEPTH; depth++) {
+    const candidate = resolve(currentDir, SUPPRESSION_FILE_NAME);
+    if (existsSync(candidate)) {
+      return candidate;
+    }
+    const parentDir = dirname(currentDir);
+    if (parentDir === currentDir) break;
+    currentDir = parentDir;
+  }
+
+  return null;
+}
+
+/**
+ * Loads and validates a suppression file.
+ *
+ * @param path Path of the suppression file
+ * @param allowedBaseDirs Directories the file must be in (SEC-011)
+ * @throws SentriflowConfigError if the file cannot be read or is invalid
+ */
+export async function loadSuppressionFile(
+  path: string,
+  allowedBaseDirs?: string[]
+): Promise<LoadedSuppressions> {
+  const validation = validateInputFilePath(path, MAX_CONFIG_SIZE, allowedBaseDirs);
+  if (!validation.valid) {
+    throw new SentriflowConfigError(`Suppression file ${path}: ${validation.error}`);
+  }
+
+  const canonicalPath = validation.canonicalPath!;
+  const file = parseSuppressionFile(await readFile(canonicalPath, 'utf-8'));
+  return {
+    path: canonicalPath,
+    baseDir: dirname(canonicalPath),
+    entries: file.suppressions,
+  };
+}
+
+/**
+ * Splits suppression entries into active and expired ones.
+ *
+ * @param entries Suppression entries
+ * @param now Date to check expiry against (default: today)
+ */
+export function partitionExpired(
+  entries: SuppressionEntry[],
+  now: Date = new Date()
+): { active: SuppressionEntry[]; expired: SuppressionEntry[] } {
+  const active: SuppressionEntry[] = [];
+  const expired: SuppressionEntry[] = [];
+  for (const entry of entries) {
+    (isSuppressionExpired(entry, now) ? expired : active).push(entry);
+  }
+  return { active, expired };
+}
+
+/**
+ * Path of a scanned file as matched by suppression file globs: relative to
+ * the suppression file directory, with `/` separators.
+ */
+export function toSuppressionPath(filePath: string, baseDir: string): string {
+  return relative(baseDir, resolve(filePath)).split(sep).join('/');
+}
+
+/** Path stdin is matched as by suppression file globs, e.g. by `**` */
+export const STDIN_SUPPRESSION_PATH = '<stdin>';
+
+/**
+ * Drops the findings of a scanned file that the suppression file suppresses.
+ *
+ * @param results Results of the file
+ * @param suppressions Loaded suppression file
+ * @param filePath Path of the scanned file, or null for stdin
+ * @param content Content of the scanned file
+ */
+export function applySharedSuppressions(
+  results: RuleResult[],
+  suppressions: LoadedSuppressions,
+  filePath: string | null,
+  content: string
+): RuleResult[] {
+  return applySuppressionFile(results, suppressions.entries, {
+    filePath:
+      filePath === null
+        ? STDIN_SUPPRESSION_PATH
+        : toSuppressionPath(filePath, suppressions.baseDir),
+    content,
+  }).results;
+}
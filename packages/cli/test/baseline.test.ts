@@ -0,0 +1,107 @@
+// packages/cli/test/baseline.test.ts
+// Tests for baseline comparison (--baseline)
+
+import { describe, expect, test } from 'bun:test';
+import { SchemaAwareParser, RuleEngine } from '@sentriflow/core';
+import type { IRule } from '@sentriflow/core';
+import { compareWithBaseline, getBaselineStates } from '../src/baseline';
+import { formatBaselineHuman } from '../src/human';
+
+// Fails on every interface without a description
+const descriptionRule: IRule = {
+  id: 'TEST-DESC',
+  selector: 'interface',
+  metadata: { level: 'warning', obu: 'test', owner: 'test' },
+  check: (node) => {
+    const passed = node.children.some((c) => c.id.startsWith('description'));
+    return {
+      passed,
+      message: passed ? 'ok' : 'Missing description',
+      ruleId: 'TEST-DESC',
+      nodeId: node.id,
+      level: passed ? 'info' : 'warning',
+      loc: node.loc,
+    };
+  },
+};
+
+const parser = new SchemaAwareParser();
+const engine = new RuleEngine();
+
+function scan(config: string) {
+  return engine.run(parser.parse(config), [descriptionRule]);
+}
+
+describe('compareWithBaseline', () => {
+  const baselineConfig = `interface Gi0/1
+ shutdown
+interface Gi0/2
+ shutdown
+`;
+
+  test('matches findings by path, not line number', () => {
+    const baseline = scan(baselineConfig);
+    // Gi0/1 moved down, Gi0/2 fixed, Gi0/3 added
+    const current = scan(`interface Gi0/3
+ shutdown
+interface Gi0/2
+ description fixed
+interface Gi0/1
+ shutdown
+`);
+
+    const comparison = compareWithBaseline(baseline, current);
+
+    expect(comparison.new.map((r) => r.nodeId)).toEqual(['interface Gi0/3']);
+    expect(comparison.unchanged.map((r) => r.nodeId)).toEqual(['interface Gi0/1']);
+    expect(comparison.fixed.map((r) => r.nodeId)).toEqual(['interface Gi0/2']);
+    expect(comparison.fixed[0]?.loc?.startLine).toBe(2);
+  });
+
+  test('reports nothing new for identical configs', () => {
+    const baseline = scan(baselineConfig);
+    const current = scan(baselineConfig);
+    const comparison = compareWithBaseline(baseline, current);
+
+    expect(comparison.new).toHaveLength(0);
+    expect(comparison.fixed).toHaveLength(0);
+    expect(comparison.unchanged).toHaveLength(2);
+  });
+
+  test('matches repeated findings on the same path pairwise', () => {
+    const baseline = scan('interface Gi0/1\n shutdown\n');
+    const current = scan('interface Gi0/1\n shutdown\ninterface Gi0/1\n shutdown\n');
+    const comparison = compareWithBaseline(baseline, current);
+
+    expect(comparison.unchanged).toHaveLength(1);
+    expect(comparison.new).toHaveLength(1);
+    expect(comparison.new[0]?.loc?.startLine).toBe(2);
+  });
+
+  test('assigns SARIF baseline states', () => {
+    const baseline = scan(baselineConfig);
+    const current = scan('interface Gi0/1\n shutdown\ninterface Gi0/9\n shutdown\n');
+    const comparison = compareWithBaseline(baseline, current);
+    const states = getBaselineStates(comparison);
+
+    expect(states.get(comparison.new[0]!)).toBe('new');
+    expect(states.get(comparison.unchanged[0]!)).toBe('unchanged');
+    expect(states.get(comparison.fixed[0]!)).toBe('absent');
+  });
+});
+
+describe('formatBaselineHuman', () => {
+  test('lists findings by baseline state', () => {
+    const baseline = scan('interface Gi0/2\n shutdown\n');
+    const current = scan('interface Gi0/1\n shutdown\n');
+    const comparison = compareWithBaseline(baseline, current);
+    const output = formatBaselineHuman(comparison, 'new.cfg', 'old.cfg');
+
+    expect(output).toContain('compared with baseline old.cfg');
+    expect(output).toContain('New (1)');
+    expect(output).toContain('Fixed (1)');
+    expect(output).not.toContain('Unchanged');
+    expect(output).toContain('1 problem (1 warning)');
+    expect(output).toContain('1 new, 1 fixed, 0 unchanged');
+  });
+});
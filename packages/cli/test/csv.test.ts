@@ -0,0 +1,75 @@
+// packages/cli/test/csv.test.ts
+// Tests for CSV output formatter
+
+import { describe, expect, test } from 'bun:test';
+import type { RuleResult } from '@sentriflow/core';
+import { escapeCsvField, generateCsv, generateMultiFileCsv } from '../src/csv';
+import type { RuleDescriptor } from '../src/sarif';
+
+const results: RuleResult[] = [
+  {
+    ruleId: 'NET-AAA-003',
+    passed: false,
+    message: 'Enable password is configured. Use "enable secret" instead.',
+    level: 'error',
+    nodeId: 'enable password cisco',
+    path: 'enable password cisco',
+    loc: { startLine: 1, endLine: 1 },
+  },
+  {
+    ruleId: 'CUSTOM-001',
+    passed: true,
+    message: 'ok, fine',
+    level: 'info',
+    nodeId: 'hostname r1',
+  },
+];
+
+const rules: RuleDescriptor[] = [
+  {
+    id: 'NET-AAA-003',
+    category: ['Authentication', 'Access-Control'],
+    metadata: {
+      level: 'error',
+      obu: 'test',
+      owner: 'test',
+      tags: [
+        { type: 'security', label: 'credentials' },
+        { type: 'compliance', label: 'cis' },
+      ],
+    },
+  },
+];
+
+describe('CSV formatter', () => {
+  test('writes a header and one line per result', () => {
+    const csv = generateCsv(results, '/configs/r1.cfg', rules, {}, { id: 'cisco-ios', name: 'Cisco IOS' });
+
+    expect(csv.split('\r\n')).toEqual([
+      'file,vendor,line,ruleId,level,status,category,tags,message,path',
+      '/configs/r1.cfg,cisco-ios,2,NET-AAA-003,error,fail,Authentication;Access-Control,credentials;cis,' +
+        '"Enable password is configured. Use ""enable secret"" instead.",enable password cisco',
+      '/configs/r1.cfg,cisco-ios,,CUSTOM-001,info,pass,,,"ok, fine",',
+    ]);
+  });
+
+  test('combines files with relative paths on request', () => {
+    const csv = generateMultiFileCsv(
+      [
+        { filePath: '/configs/r1.cfg', results: [results[0]!] },
+        { filePath: '/configs/lab/r2.cfg', results: [results[1]!] },
+      ],
+      rules,
+      { relativePaths: true, baseDir: '/configs' }
+    );
+    const files = csv.split('\r\n').slice(1).map((line) => line.split(',')[0]);
+
+    expect(files).toEqual(['r1.cfg', 'lab/r2.cfg']);
+  });
+
+  test('neutralizes spreadsheet formulas', () => {
+    expect(escapeCsvField('=HYPERLINK("x")')).toBe(`"'=HYPERLINK(""x"")"`);
+    expect(escapeCsvField('-1')).toBe("'-1");
+    expect(escapeCsvField('plain')).toBe('plain');
+  });
+});
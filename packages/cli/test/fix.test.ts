@@ -0,0 +1,68 @@
+// packages/cli/test/fix.test.ts
+// Tests for the `sentriflow fix` command logic
+
+import { describe, expect, test } from 'bun:test';
+import { getVendor } from '@sentriflow/core';
+import { allCiscoRules, getRulesByVendor } from '@sentriflow/rules-default';
+import { fixConfig } from '../src/commands/fix';
+
+const config = `interface GigabitEthernet0/1
+ description SERVER:ESX01
+ switchport mode trunk
+!
+interface GigabitEthernet0/2
+ switchport access vlan 10
+!
+`;
+
+describe('fixConfig', () => {
+  const vendor = getVendor('cisco-ios');
+  const rules = allCiscoRules.filter((r) =>
+    ['NET-TRUNK-001', 'NET-ACCESS-001'].includes(r.id)
+  );
+
+  test('applies all available fixes', () => {
+    const outcome = fixConfig(config, vendor, rules, 'sw1.cfg');
+
+    expect(outcome.applied).toHaveLength(2);
+    expect(outcome.skipped).toHaveLength(0);
+    expect(outcome.content).toContain(' switchport mode trunk\n switchport nonegotiate\n!');
+    expect(outcome.content).toContain(' switchport access vlan 10\n switchport mode access\n!');
+  });
+
+  test('produces a unified diff', () => {
+    const outcome = fixConfig(config, vendor, rules, 'sw1.cfg');
+
+    expect(outcome.diff).toStartWith('--- a/sw1.cfg\n+++ b/sw1.cfg\n@@ -1,7 +1,9 @@\n');
+    expect(outcome.diff).toContain('+ switchport nonegotiate\n');
+    expect(outcome.diff).toContain('+ switchport mode access\n');
+  });
+
+  test('limits fixes to selected rule IDs', () => {
+    const outcome = fixConfig(config, vendor, rules, 'sw1.cfg', ['NET-ACCESS-001']);
+
+    expect(outcome.applied).toHaveLength(1);
+    expect(outcome.content).not.toContain('nonegotiate');
+  });
+
+  test('reports failures without a fix', () => {
+    const outcome = fixConfig(
+      'enable password cisco123\n',
+      vendor,
+      allCiscoRules.filter((r) => r.id === 'NET-AAA-003'),
+      'r1.cfg'
+    );
+
+    expect(outcome.applied).toHaveLength(0);
+    expect(outcome.diff).toBe('');
+    expect(outcome.unfixable).toEqual(['NET-AAA-003']);
+  });
+
+  test('applies the fixes of the default rule set', () => {
+    const outcome = fixConfig(config, vendor, getRulesByVendor('cisco-ios'), 'sw1.cfg');
+
+    expect(outcome.applied).toHaveLength(2);
+    expect(outcome.content).toContain(' switchport mode trunk\n switchport nonegotiate\n!');
+    expect(outcome.content).toContain(' switchport access vlan 10\n switchport mode access\n!');
+  });
+});
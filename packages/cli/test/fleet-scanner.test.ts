@@ -0,0 +1,153 @@
+// packages/cli/test/fleet-scanner.test.ts
+// Tests for cross-device fleet rules over scanned files (--fleet)
+
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { allFleetRules } from '@sentriflow/rules-default';
+import { SUPPRESSION_RULE_IDS } from '@sentriflow/core';
+import { loadConfigFile, resolveFleetRules } from '../src/config';
+import { scanFleet } from '../src/scanner/FleetScanner';
+import type { FileResults } from '../src/sarif';
+
+describe('scanFleet', () => {
+  let dir: string;
+  let r1: string;
+  let r2: string;
+  const vendor = { id: 'cisco-ios', name: 'Cisco IOS' };
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'sentriflow-fleet-'));
+    r1 = join(dir, 'r1.cfg');
+    r2 = join(dir, 'r2.cfg');
+    writeFileSync(r1, 'hostname R1\ninterface Gi0/1\n ip address 10.0.0.1 255.255.255.252\n mtu 9000\n');
+    writeFileSync(r2, 'hostname R2\ninterface Gi0/1\n ip address 10.0.0.2 255.255.255.252\n');
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('appends findings to the results of the file they belong to', async () => {
+    const fileResults: FileResults[] = [
+      { filePath: r1, results: [], vendor },
+      { filePath: r2, results: [], vendor },
+      // Files that failed to scan have no vendor and are skipped
+      { filePath: join(dir, 'missing.cfg'), results: [] },
+    ];
+
+    const { findings, errors } = await scanFleet(fileResults, allFleetRules);
+
+    expect(findings).toBe(2);
+    expect(errors).toEqual([]);
+    expect(fileResults[0]?.results.map((r) => r.ruleId)).toEqual(['FLEET-LINK-001']);
+    expect(fileResults[1]?.results[0]?.message).toContain('of R1 Gi0/1');
+    expect(fileResults[1]?.results[0]).not.toHaveProperty('filePath');
+    expect(fileResults[2]?.results).toEqual([]);
+  });
+
+  test('resolves fleet rules honouring disabled IDs', async () => {
+    const rules = await resolveFleetRules({ noConfig: true, disableIds: ['FLEET-LINK-001'] });
+    expect(rules.map((r) => r.id)).not.toContain('FLEET-LINK-001');
+    expect(rules.length).toBe(allFleetRules.length - 1);
+  });
+
+  test('resolves fleet rules through pack and profile disables and level overrides', async () => {
+    const configPath = join(dir, 'disables.config.js');
+    writeFileSync(
+      configPath,
+      `module.exports = {
+        rulePacks: [{ name: 'ops', version: '1.0.0', publisher: 'ops', priority: 100, rules: [], disables: { rules: ['FLEET-BGP-001'] } }],
+        rules: { 'FLEET-LINK-001': { level: 'warning' } },
+        profiles: { lab: { disable: ['FLEET-OSPF-001'], rules: { 'FLEET-LINK-001': { level: 'info' } } } },
+      };\n`
+    );
+
+    const rules = await resolveFleetRules({ configPath, allowedBaseDirs: [dir] });
+    const ids = rules.map((r) => r.id);
+    expect(ids).not.toContain('FLEET-BGP-001');
+    expect(ids).toContain('FLEET-OSPF-001');
+    expect(rules.find((r) => r.id === 'FLEET-LINK-001')?.metadata.level).toBe('warning');
+
+    const lab = await resolveFleetRules({ configPath, allowedBaseDirs: [dir], profile: 'lab' });
+    expect(lab.map((r) => r.id)).not.toContain('FLEET-OSPF-001');
+    expect(lab.find((r) => r.id === 'FLEET-LINK-001')?.metadata.level).toBe('info');
+
+    const fileResults: FileResults[] = [
+      { filePath: r1, results: [], vendor },
+      { filePath: r2, results: [], vendor },
+    ];
+    await scanFleet(fileResults, lab);
+    expect(fileResults.map((fr) => fr.results[0]?.level)).toEqual(['info', 'info']);
+  });
+
+  test('applies the fleet rules of the profile selected by path', async () => {
+    const configPath = join(dir, 'paths.config.js');
+    writeFileSync(
+      configPath,
+      `module.exports = {
+        profiles: {
+          lab: { paths: ['r2.cfg'], rules: { 'FLEET-LINK-001': { level: 'info' } } },
+          edge: { paths: ['r1.cfg'], disable: ['FLEET-LINK-001'] },
+        },
+      };\n`
+    );
+    const resolveOptions = { configPath, allowedBaseDirs: [dir] };
+    const fileResults: FileResults[] = [
+      { filePath: r1, results: [], vendor },
+      { filePath: r2, results: [], vendor },
+    ];
+
+    const { findings } = await scanFleet(fileResults, await resolveFleetRules(resolveOptions), {
+      config: await loadConfigFile(configPath, [dir]),
+      baseDir: dir,
+      resolveOptions,
+    });
+
+    expect(findings).toBe(1);
+    expect(fileResults[0]?.results).toEqual([]);
+    expect(fileResults[1]?.results.map((r) => [r.ruleId, r.level])).toEqual([['FLEET-LINK-001', 'info']]);
+  });
+
+  test('applies inline and shared suppressions to fleet findings', async () => {
+    const r3 = join(dir, 'r3.cfg');
+    const r4 = join(dir, 'r4.cfg');
+    writeFileSync(
+      r3,
+      'hostname R3\n! sentriflow-disable-next-line FLEET-LINK-001 reason="jumbo frames"\n' +
+        'interface Gi0/1\n ip address 10.1.0.1 255.255.255.252\n mtu 9000\n'
+    );
+    writeFileSync(r4, 'hostname R4\ninterface Gi0/1\n ip address 10.1.0.2 255.255.255.252\n');
+    const fileResults: FileResults[] = [
+      {
+        filePath: r3,
+        // The per-file scan does not see fleet findings and reports the directive as unused
+        results: [
+          {
+            passed: false,
+            message: 'Unused suppression of FLEET-LINK-001: no matching finding',
+            ruleId: SUPPRESSION_RULE_IDS.unused,
+            nodeId: 'sentriflow-disable',
+            level: 'warning',
+            loc: { startLine: 1, endLine: 1 },
+          },
+        ],
+        vendor,
+      },
+      { filePath: r4, results: [], vendor },
+    ];
+
+    const { findings } = await scanFleet(fileResults, allFleetRules, {
+      suppressions: {
+        path: join(dir, '.sentriflow-suppressions.json'),
+        baseDir: dir,
+        entries: [{ ruleId: 'FLEET-LINK-001', file: 'r4.cfg', justification: 'Lab link', owner: 'netops' }],
+      },
+    });
+
+    expect(findings).toBe(0);
+    expect(fileResults[0]?.results).toEqual([]);
+    expect(fileResults[1]?.results).toEqual([]);
+  });
+});
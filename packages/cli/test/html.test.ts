@@ -0,0 +1,70 @@
+// packages/cli/test/html.test.ts
+// Tests for the self-contained HTML report formatter
+
+import { describe, expect, test } from 'bun:test';
+import type { RuleResult } from '@sentriflow/core';
+import { escapeHtml, generateHtml, generateMultiFileHtml } from '../src/html';
+import type { RuleDescriptor } from '../src/sarif';
+
+const failure = (ruleId: string, level: RuleResult['level'], message: string): RuleResult => ({
+  ruleId,
+  passed: false,
+  message,
+  level,
+  nodeId: ruleId,
+  loc: { startLine: 4, endLine: 4 },
+});
+
+const rules: RuleDescriptor[] = [
+  {
+    id: 'NET-AAA-003',
+    category: 'Authentication',
+    metadata: { level: 'error', obu: 'test', owner: 'test', tags: [{ type: 'security', label: 'credentials' }] },
+  },
+];
+
+describe('HTML formatter', () => {
+  test('is a single document without external resources', () => {
+    const html = generateHtml([failure('NET-AAA-003', 'error', 'Enable password')], '/configs/r1.cfg', rules);
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('<style>');
+    expect(html).toContain('<script>');
+    expect(html).not.toMatch(/<(link|script)[^>]+(href|src)=/);
+    expect(html).toContain('<td>/configs/r1.cfg:5</td>');
+  });
+
+  test('lists failures with filter attributes and filter options', () => {
+    const html = generateMultiFileHtml(
+      [
+        {
+          filePath: '/configs/r1.cfg',
+          vendor: { id: 'cisco-ios', name: 'Cisco IOS' },
+          results: [failure('NET-AAA-003', 'error', 'Enable password'), { ...failure('OK-001', 'info', 'ok'), passed: true }],
+        },
+        {
+          filePath: '/configs/r2.conf',
+          vendor: { id: 'juniper-junos', name: 'Junos' },
+          results: [failure('JUN-001', 'warning', 'No <ntp> server')],
+        },
+      ],
+      rules
+    );
+
+    expect(html.match(/<tr data-/g)).toHaveLength(2);
+    expect(html).toContain(
+      'data-level="[&quot;error&quot;]" data-vendor="[&quot;cisco-ios&quot;]" ' +
+        'data-category="[&quot;Authentication&quot;]" data-tag="[&quot;credentials&quot;]"'
+    );
+    expect(html).toContain('No &lt;ntp&gt; server');
+    for (const filter of ['level', 'vendor', 'category', 'tag']) {
+      expect(html).toContain(`<select data-filter="${filter}">`);
+    }
+    expect(html).toContain('<option value="juniper-junos">juniper-junos</option>');
+    expect(html).toContain('<div><strong>1</strong>Passed</div>');
+  });
+
+  test('escapes HTML', () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;');
+  });
+});
@@ -0,0 +1,58 @@
+// packages/cli/test/junit.test.ts
+// Tests for JUnit XML output formatter
+
+import { describe, expect, test } from 'bun:test';
+import type { RuleResult } from '@sentriflow/core';
+import { escapeXml, generateJunit, generateMultiFileJunit } from '../src/junit';
+
+const failed: RuleResult = {
+  ruleId: 'NET-AAA-003',
+  passed: false,
+  message: 'Enable password is configured. Use "enable secret" instead.',
+  level: 'error',
+  nodeId: 'enable password cisco',
+  path: 'enable password cisco',
+  loc: { startLine: 1, endLine: 1 },
+};
+
+const passed: RuleResult = {
+  ruleId: 'NET-TRUNK-001',
+  passed: true,
+  message: 'Trunk <ok> & fine',
+  level: 'info',
+  nodeId: 'interface Gi0/1',
+};
+
+describe('JUnit formatter', () => {
+  test('reports each result as a test case and failures as failures', () => {
+    const xml = generateJunit([failed, passed], '/configs/r1.cfg');
+
+    expect(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>')).toBe(true);
+    expect(xml).toContain('<testsuites name="Sentriflow" tests="2" failures="1" errors="0">');
+    expect(xml).toContain('<testsuite name="/configs/r1.cfg" tests="2" failures="1"');
+    expect(xml).toContain('<testcase name="NET-AAA-003 (line 2)" classname="/configs/r1.cfg">');
+    expect(xml).toContain(
+      '<failure message="Enable password is configured. Use &quot;enable secret&quot; instead." type="error">'
+    );
+    expect(xml).toContain('at /configs/r1.cfg:2\npath: enable password cisco</failure>');
+    expect(xml).toContain('<testcase name="NET-TRUNK-001" classname="/configs/r1.cfg"/>');
+  });
+
+  test('has one test suite per file, with relative paths on request', () => {
+    const xml = generateMultiFileJunit(
+      [
+        { filePath: '/configs/r1.cfg', results: [failed] },
+        { filePath: '/configs/r2.cfg', results: [] },
+      ],
+      { relativePaths: true, baseDir: '/configs' }
+    );
+
+    expect(xml).toContain('<testsuites name="Sentriflow" tests="1" failures="1" errors="0">');
+    expect(xml).toContain('<testsuite name="r1.cfg" tests="1" failures="1"');
+    expect(xml).toContain('<testsuite name="r2.cfg" tests="0" failures="0" errors="0" skipped="0"/>');
+  });
+
+  test('escapes markup and drops characters invalid in XML', () => {
+    expect(escapeXml(`a<b>&"c"'\u0001`)).toBe('a&lt;b&gt;&amp;&quot;c&quot;&apos;');
+  });
+});
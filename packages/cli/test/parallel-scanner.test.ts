@@ -0,0 +1,79 @@
+// packages/cli/test/parallel-scanner.test.ts
+// Tests for multi-file scanning with worker threads (--jobs)
+
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { resolveRules } from '../src/config';
+import type { ResolveOptions } from '../src/config';
+import { scanFiles } from '../src/scanner/ParallelScanner';
+
+describe('scanFiles', () => {
+  let dir: string;
+  let files: string[];
+  const resolveOptions: ResolveOptions = { noConfig: true };
+  const scanOptions = { vendor: 'cisco-ios', quiet: true };
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'sentriflow-jobs-'));
+    files = [];
+    for (let i = 1; i <= 5; i++) {
+      const file = join(dir, `r${i}.cfg`);
+      // Larger files first, so workers tend to finish out of order
+      const ports = Array.from(
+        { length: (6 - i) * 20 },
+        (_, p) => `interface Gi0/${p}\n switchport mode trunk\n!`
+      ).join('\n');
+      writeFileSync(file, `hostname R${i}\n${ports}\n`);
+      files.push(file);
+    }
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('returns the same results in input order with worker threads', async () => {
+    const rules = await resolveRules(resolveOptions);
+    const sequential = await scanFiles(files, rules, { jobs: 1, resolveOptions, scanOptions });
+    const parallel = await scanFiles(files, rules, { jobs: 3, resolveOptions, scanOptions });
+
+    expect(parallel.map((o) => o.filePath)).toEqual(files);
+    expect(parallel).toEqual(sequential);
+    expect(parallel[0]?.results.length).toBeGreaterThan(0);
+  });
+
+  test('reports files that cannot be scanned', async () => {
+    const missing = join(dir, 'missing.cfg');
+    const started: number[] = [];
+    const outcomes = await scanFiles([files[0]!, missing], [], {
+      jobs: 2,
+      resolveOptions,
+      scanOptions,
+      onFileStart: (index) => started.push(index),
+    });
+
+    expect(started).toEqual([0, 1]);
+    expect(outcomes[0]?.error).toBeUndefined();
+    expect(outcomes[1]?.filePath).toBe(missing);
+    expect(outcomes[1]?.results).toEqual([]);
+    expect(outcomes[1]?.error).toContain('ENOENT');
+  });
+
+  test('reports a rule load failure in the workers for each file', async () => {
+    const configPath = join(dir, 'missing.config.js');
+    const outcomes = await scanFiles(files.slice(0, 2), [], {
+      jobs: 2,
+      resolveOptions: { configPath },
+      scanOptions,
+    });
+
+    expect(outcomes.map((o) => o.filePath)).toEqual(files.slice(0, 2));
+    for (const outcome of outcomes) {
+      expect(outcome.results).toEqual([]);
+      expect(outcome.error).toStartWith('Failed to load rules: ');
+      expect(outcome.error).toContain('File not found');
+    }
+  });
+});
@@ -0,0 +1,129 @@
+// packages/cli/test/policy.test.ts
+// Tests for exit codes and the --fail-on / --max-warnings exit policy
+
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SentriflowConfigError, SentriflowPackError } from '@sentriflow/core';
+import type { RuleResult } from '@sentriflow/core';
+import { loadConfigFile, resolveRules } from '../src/config';
+import {
+  EXIT_CODES,
+  evaluateExitPolicy,
+  getErrorExitCode,
+  isFailOnLevel,
+} from '../src/policy';
+
+const finding = (level: RuleResult['level'], passed = false): RuleResult => ({
+  ruleId: `TEST-${level.toUpperCase()}`,
+  nodeId: 'hostname',
+  passed,
+  message: passed ? 'ok' : `${level} finding`,
+  level,
+});
+
+describe('exit policy', () => {
+  const results = [
+    finding('error'),
+    finding('warning'),
+    finding('warning'),
+    finding('info'),
+    finding('error', true),
+  ];
+
+  test('fails on any finding by default', () => {
+    expect(evaluateExitPolicy(results).failed).toBe(true);
+    expect(evaluateExitPolicy([finding('info')]).failed).toBe(true);
+    expect(evaluateExitPolicy([finding('info', true)]).failed).toBe(false);
+    expect(evaluateExitPolicy([]).failed).toBe(false);
+  });
+
+  test('fails only on findings at or above --fail-on', () => {
+    const warnings = [finding('warning'), finding('info')];
+    expect(evaluateExitPolicy(warnings, { failOn: 'error' }).failed).toBe(false);
+    expect(evaluateExitPolicy(warnings, { failOn: 'warning' })).toEqual({
+      failed: true,
+      reasons: ["1 finding(s) at or above 'warning'"],
+    });
+    expect(evaluateExitPolicy(results, { failOn: 'error' }).reasons).toEqual([
+      "1 finding(s) at or above 'error'",
+    ]);
+    expect(evaluateExitPolicy(results, { failOn: 'never' }).failed).toBe(false);
+  });
+
+  test('fails on more warnings than --max-warnings', () => {
+    const warnings = [finding('warning'), finding('warning'), finding('info')];
+    expect(evaluateExitPolicy(warnings, { failOn: 'error', maxWarnings: 2 }).failed).toBe(false);
+    expect(evaluateExitPolicy(warnings, { failOn: 'error', maxWarnings: 1 })).toEqual({
+      failed: true,
+      reasons: ['2 warning(s) exceed the maximum of 1'],
+    });
+    expect(evaluateExitPolicy(warnings, { failOn: 'never', maxWarnings: 0 }).failed).toBe(true);
+  });
+
+  test('validates fail-on levels', () => {
+    for (const level of ['error', 'warning', 'info', 'never']) {
+      expect(isFailOnLevel(level)).toBe(true);
+    }
+    expect(isFailOnLevel('critical')).toBe(false);
+    expect(isFailOnLevel(undefined)).toBe(false);
+  });
+
+  test('maps pack load errors to their own exit code', () => {
+    expect(getErrorExitCode(new SentriflowPackError('bad pack'))).toBe(EXIT_CODES.packLoadError);
+    expect(getErrorExitCode(new SentriflowConfigError('bad config'))).toBe(EXIT_CODES.error);
+    expect(getErrorExitCode(new Error('unexpected'))).toBe(EXIT_CODES.error);
+  });
+});
+
+describe('exit policy config', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'sentriflow-policy-'));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const write = (name: string, body: string): string => {
+    const path = join(dir, name);
+    writeFileSync(path, `module.exports = ${body};\n`);
+    return path;
+  };
+
+  test('accepts failOn and maxWarnings', async () => {
+    const path = write('valid.config.js', `{ failOn: 'warning', maxWarnings: 5 }`);
+    const config = await loadConfigFile(path, [dir]);
+    expect(config.failOn).toBe('warning');
+    expect(config.maxWarnings).toBe(5);
+  });
+
+  test('rejects an invalid exit policy', async () => {
+    const invalid = [
+      `{ failOn: 'critical' }`,
+      `{ maxWarnings: -1 }`,
+      `{ maxWarnings: 1.5 }`,
+      `{ maxWarnings: '5' }`,
+      `{ profiles: { ci: { failOn: 'error' } } }`,
+    ];
+    for (const [index, body] of invalid.entries()) {
+      const path = write(`invalid-${index}.config.js`, body);
+      await expect(loadConfigFile(path, [dir])).rejects.toThrow();
+    }
+  });
+
+  test('throws a pack error for unloadable packs with strict packs', async () => {
+    const packPath = join(dir, 'broken-pack.js');
+    writeFileSync(packPath, 'module.exports = { name: 42 };\n');
+    const options = { noConfig: true, packPaths: [packPath], allowedBaseDirs: [dir] };
+
+    await expect(resolveRules({ ...options, strictPacks: true })).rejects.toThrow(
+      SentriflowPackError
+    );
+    // Without strict packs the pack is skipped with a warning
+    expect((await resolveRules(options)).length).toBeGreaterThan(0);
+  });
+});
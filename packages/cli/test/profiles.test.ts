@@ -0,0 +1,142 @@
+// packages/cli/test/profiles.test.ts
+// Tests for named profiles in the config file
+
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SentriflowConfigError } from '@sentriflow/core';
+import {
+  applyProfile,
+  loadConfigFile,
+  resolveRules,
+  selectProfile,
+  type SentriflowConfig,
+} from '../src/config';
+import { scanFilesByProfile } from '../src/scanner/ProfileScanner';
+
+const config: SentriflowConfig = {
+  disable: ['NET-SEC-001'],
+  rules: { 'NET-AAA-003': { level: 'warning' } },
+  directory: { recursive: true, extensions: ['cfg'] },
+  profiles: {
+    prod: {
+      paths: ['prod/**'],
+      rules: { 'NET-TRUNK-001': { level: 'error' } },
+      directory: { maxDepth: 2 },
+    },
+    lab: {
+      paths: ['lab/**', '*.lab.cfg'],
+      disable: ['NET-AAA-003'],
+      rules: { 'NET-AAA-003': { level: 'info' } },
+    },
+  },
+};
+
+describe('config profiles', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'sentriflow-profiles-'));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('merges the profile over the top-level settings', () => {
+    const prod = applyProfile(config, 'prod');
+    expect(prod.disable).toEqual(['NET-SEC-001']);
+    expect(prod.rules).toEqual({
+      'NET-AAA-003': { level: 'warning' },
+      'NET-TRUNK-001': { level: 'error' },
+    });
+    expect(prod.directory).toEqual({ recursive: true, extensions: ['cfg'], maxDepth: 2 });
+
+    const lab = applyProfile(config, 'lab');
+    expect(lab.disable).toEqual(['NET-SEC-001', 'NET-AAA-003']);
+    expect(lab.rules).toEqual({ 'NET-AAA-003': { level: 'info' } });
+    expect(lab.directory).toBe(config.directory);
+  });
+
+  test('rejects an unknown profile', () => {
+    expect(() => applyProfile(config, 'dmz')).toThrow(SentriflowConfigError);
+    expect(() => applyProfile(config, 'dmz')).toThrow('available: prod, lab');
+  });
+
+  test('selects the first profile whose paths match', () => {
+    expect(selectProfile(config, join(dir, 'prod/core/r1.cfg'), dir)).toBe('prod');
+    expect(selectProfile(config, join(dir, 'lab/r2.cfg'), dir)).toBe('lab');
+    expect(selectProfile(config, join(dir, 'r3.lab.cfg'), dir)).toBe('lab');
+    expect(selectProfile(config, join(dir, 'dmz/r4.cfg'), dir)).toBeUndefined();
+  });
+
+  test('validates the profiles block', async () => {
+    const write = (name: string, body: string): string => {
+      const path = join(dir, name);
+      writeFileSync(path, `module.exports = ${body};\n`);
+      return path;
+    };
+
+    const valid = write('valid.config.js', `{ profiles: { prod: { paths: ['prod/**'], disable: ['NET-SEC-001'] } } }`);
+    expect((await loadConfigFile(valid, [dir])).profiles?.prod?.paths).toEqual(['prod/**']);
+
+    const invalid = [
+      `{ profiles: [] }`,
+      `{ profiles: { prod: { paths: 'prod/**' } } }`,
+      `{ profiles: { prod: { rules: { 'NET-SEC-001': { level: 'fatal' } } } } }`,
+      `{ profiles: { prod: { profiles: {} } } }`,
+      `{ rules: [], profiles: { prod: { rules: {} } } }`,
+    ];
+    for (const [index, body] of invalid.entries()) {
+      const path = write(`invalid-${index}.config.js`, body);
+      await expect(loadConfigFile(path, [dir])).rejects.toThrow();
+    }
+  });
+
+  test('resolveRules applies the selected profile', async () => {
+    const configPath = join(dir, 'sentriflow.config.js');
+    writeFileSync(configPath, `module.exports = ${JSON.stringify(config)};\n`);
+    const options = { configPath, allowedBaseDirs: [dir], vendorId: 'cisco-ios' };
+
+    const base = new Map((await resolveRules(options)).map((rule) => [rule.id, rule]));
+    expect(base.has('NET-SEC-001')).toBe(false);
+    expect(base.get('NET-AAA-003')?.metadata.level).toBe('warning');
+
+    const prod = new Map((await resolveRules({ ...options, profile: 'prod' })).map((rule) => [rule.id, rule]));
+    expect(prod.get('NET-TRUNK-001')?.metadata.level).toBe('error');
+
+    const lab = await resolveRules({ ...options, profile: 'lab' });
+    expect(lab.some((rule) => rule.id === 'NET-AAA-003')).toBe(false);
+
+    await expect(resolveRules({ ...options, profile: 'dmz' })).rejects.toThrow(SentriflowConfigError);
+  });
+
+  test('scans each file with the rules of its profile', async () => {
+    const configPath = join(dir, 'sentriflow.config.js');
+    writeFileSync(configPath, `module.exports = ${JSON.stringify(config)};\n`);
+    mkdirSync(join(dir, 'prod'), { recursive: true });
+    mkdirSync(join(dir, 'lab'), { recursive: true });
+    const files = [join(dir, 'prod/r1.cfg'), join(dir, 'r2.cfg'), join(dir, 'lab/r3.cfg')];
+    for (const file of files) {
+      writeFileSync(file, 'hostname r1\nenable password cisco\n');
+    }
+
+    const resolveOptions = { configPath, allowedBaseDirs: [dir], vendorId: 'cisco-ios' };
+    const { outcomes, rules } = await scanFilesByProfile(files, await resolveRules(resolveOptions), {
+      jobs: 1,
+      resolveOptions,
+      scanOptions: { vendor: 'cisco-ios' },
+      config,
+      baseDir: dir,
+    });
+
+    const enableLevel = (index: number) =>
+      outcomes[index]?.results.find((result) => result.ruleId === 'NET-AAA-003' && !result.passed)?.level;
+    expect(outcomes.map((outcome) => outcome.filePath)).toEqual(files);
+    expect(enableLevel(0)).toBe('warning');
+    expect(enableLevel(1)).toBe('warning');
+    expect(enableLevel(2)).toBeUndefined();
+    expect(rules.some((rule) => rule.id === 'NET-AAA-003')).toBe(true);
+  });
+});
@@ -0,0 +1,92 @@
+// packages/cli/test/report.test.ts
+// Tests for the compliance framework coverage report
+
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { computeComplianceCoverage } from '@sentriflow/core';
+import { getFramework } from '@sentriflow/rules-default';
+import {
+  formatCoverageCsv,
+  formatCoverageHuman,
+  formatCoverageJson,
+} from '../src/commands/report';
+import { resolveRules } from '../src/config';
+import { scanFiles } from '../src/scanner/ParallelScanner';
+
+describe('compliance report', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'sentriflow-report-'));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const scanCoverage = async (configs: Record<string, string>) => {
+    const files = Object.entries(configs).map(([name, content]) => {
+      const path = join(dir, name);
+      writeFileSync(path, content);
+      return path;
+    });
+    const resolveOptions = { noConfig: true, vendorId: 'cisco-ios' };
+    const rules = await resolveRules(resolveOptions);
+    const outcomes = await scanFiles(files, rules, {
+      jobs: 1,
+      resolveOptions,
+      scanOptions: { vendor: 'cisco-ios' },
+    });
+    return computeComplianceCoverage(
+      getFramework('cis-cisco-ios')!,
+      rules,
+      outcomes.map((outcome) => ({ ...outcome, vendor: outcome.vendor?.id }))
+    );
+  };
+
+  test('lists every control with its status', async () => {
+    const coverage = await scanCoverage({
+      'r1.cfg': 'hostname r1\nenable password cisco\n',
+      'r2.cfg': 'hostname r2\nenable secret 9 $9$abc\n',
+    });
+
+    const status = new Map(coverage.controls.map((c) => [c.control.id, c]));
+    expect(coverage.controls).toHaveLength(getFramework('cis-cisco-ios')!.controls.length);
+    expect(status.get('1.4.1')).toMatchObject({
+      status: 'fail',
+      ruleIds: ['NET-AAA-003'],
+      failedFiles: [join(dir, 'r1.cfg')],
+    });
+    // NET-SEC-001 checks 'password' lines, which neither configuration has
+    expect(status.get('1.4.2')).toMatchObject({ status: 'not-evaluated', ruleIds: ['NET-SEC-001'] });
+    expect(status.get('1.1.1')?.status).toBe('not-covered');
+    expect(coverage.filesScanned).toBe(2);
+
+    const human = formatCoverageHuman(coverage, { relativePaths: true, baseDir: dir });
+    expect(human).toContain('CIS Cisco IOS Benchmark 17.x (cis-cisco-ios)');
+    expect(human).toMatch(/FAIL\s+1\.4\.1\s+Set 'password' for 'enable secret'/);
+    expect(human).toContain('rules: NET-AAA-003 - 1 failure(s) in r1.cfg');
+    expect(human).toMatch(/NOT COVERED\s+1\.1\.1/);
+    expect(human).toMatch(/NOT EVALUATED\s+1\.4\.2/);
+    expect(human).toContain(
+      `Summary: ${coverage.summary.pass} pass, ${coverage.summary.fail} fail, ` +
+        `${coverage.summary['not-evaluated']} not evaluated, ${coverage.summary['not-covered']} not covered`
+    );
+  });
+
+  test('formats coverage as CSV and JSON', async () => {
+    const coverage = await scanCoverage({ 'r3.cfg': 'hostname r3\nenable password cisco\n' });
+    const options = { relativePaths: true, baseDir: dir };
+
+    const lines = formatCoverageCsv(coverage, options).split('\r\n');
+    expect(lines[0]).toBe('control,title,status,rules,failures,files');
+    expect(lines).toContain("1.4.1,Set 'password' for 'enable secret',fail,NET-AAA-003,1,r3.cfg");
+    expect(lines).toHaveLength(coverage.controls.length + 2);
+
+    const json = JSON.parse(formatCoverageJson(coverage, options));
+    expect(json.framework.id).toBe('cis-cisco-ios');
+    expect(json.controls.find((c: { control: { id: string } }) => c.control.id === '1.4.1').failedFiles).toEqual(['r3.cfg']);
+  });
+});
@@ -0,0 +1,115 @@
+// packages/cli/test/rule-config.test.ts
+// Tests for per-rule settings (level overrides, options) in the config file
+
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { RuleEngine, SchemaAwareParser } from '@sentriflow/core';
+import type { Context, IFleetRule, IRule } from '@sentriflow/core';
+import { applyFleetRuleConfig, applyRuleConfig, isValidRuleConfigMap, resolveRules } from '../src/config';
+
+const lengthRule: IRule = {
+  id: 'TEST-LEN-001',
+  selector: 'hostname',
+  metadata: { level: 'warning', obu: 'test', owner: 'test' },
+  check: (node, context: Context) => {
+    const max = typeof context.options?.max === 'number' ? context.options.max : 64;
+    const passed = (node.params[1] ?? '').length <= max;
+    return { passed, message: `max ${max}`, ruleId: 'TEST-LEN-001', nodeId: node.id, level: passed ? 'info' : 'warning' };
+  },
+};
+
+describe('rule configuration', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'sentriflow-rule-config-'));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('validates the rules block', () => {
+    expect(isValidRuleConfigMap({ 'NET-MGMT-005': { level: 'info' } })).toBe(true);
+    expect(isValidRuleConfigMap({ 'NET-MGMT-005': { options: { minLength: 12 } } })).toBe(true);
+    expect(isValidRuleConfigMap({ 'NET-MGMT-005': { level: 'fatal' } })).toBe(false);
+    expect(isValidRuleConfigMap({ 'NET-MGMT-005': { options: [] } })).toBe(false);
+    expect(isValidRuleConfigMap({ 'not a rule id': {} })).toBe(false);
+  });
+
+  test('applies the level and options to failing results', () => {
+    const nodes = new SchemaAwareParser().parse('hostname core-router-01\n');
+    const rule = applyRuleConfig(lengthRule, { level: 'error', options: { max: 4 } });
+    const [result] = new RuleEngine().run(nodes, [rule]);
+
+    expect(rule.metadata.level).toBe('error');
+    expect(lengthRule.metadata.level).toBe('warning');
+    expect(result?.passed).toBe(false);
+    expect(result?.message).toBe('max 4');
+    expect(result?.level).toBe('error');
+  });
+
+  test('leaves passing results and unconfigured rules unchanged', () => {
+    const nodes = new SchemaAwareParser().parse('hostname r1\n');
+    const [result] = new RuleEngine().run(nodes, [applyRuleConfig(lengthRule, { level: 'error' })]);
+
+    expect(result?.passed).toBe(true);
+    expect(result?.level).toBe('info');
+    expect(applyRuleConfig(lengthRule, {})).toBe(lengthRule);
+  });
+
+  test('applies the level to every failing result of a rule', () => {
+    const nodes = new SchemaAwareParser().parse('hostname r1\nhostname core-router-01\n');
+    const perLine: IRule = {
+      ...lengthRule,
+      selector: undefined,
+      scope: 'document',
+      check: (node, context) => node.children.flatMap((child) => lengthRule.check(child, context)),
+    };
+    const results = new RuleEngine().run(nodes, [applyRuleConfig(perLine, { level: 'error', options: { max: 4 } })]);
+
+    expect(results.map((r) => [r.passed, r.level])).toEqual([
+      [true, 'info'],
+      [false, 'error'],
+    ]);
+  });
+
+  test('applies the level to the failing results of a fleet rule', () => {
+    const fleetRule: IFleetRule = {
+      id: 'TEST-FLEET-001',
+      metadata: { level: 'warning', obu: 'test', owner: 'test' },
+      check: () => [
+        { passed: false, message: 'mismatch', ruleId: 'TEST-FLEET-001', nodeId: 'a', level: 'warning', filePath: 'r1.cfg' },
+        { passed: true, message: 'ok', ruleId: 'TEST-FLEET-001', nodeId: 'b', level: 'info', filePath: 'r2.cfg' },
+      ],
+    };
+    const rule = applyFleetRuleConfig(fleetRule, { level: 'error' });
+
+    expect(rule.metadata.level).toBe('error');
+    expect(fleetRule.metadata.level).toBe('warning');
+    expect(rule.check([]).map((r) => r.level)).toEqual(['error', 'info']);
+    expect(applyFleetRuleConfig(fleetRule, {})).toBe(fleetRule);
+  });
+
+  test('resolveRules applies the rules block of the config file', async () => {
+    const configPath = join(dir, 'sentriflow.config.js');
+    writeFileSync(
+      configPath,
+      `module.exports = { rules: { 'NET-AAA-003': { level: 'info' }, 'NET-TRUNK-001': { level: 'error' } } };\n`
+    );
+
+    const rules = await resolveRules({ configPath, allowedBaseDirs: [dir], vendorId: 'cisco-ios' });
+    const byId = new Map(rules.map((rule) => [rule.id, rule]));
+
+    expect(byId.get('NET-AAA-003')?.metadata.level).toBe('info');
+    expect(byId.get('NET-TRUNK-001')?.metadata.level).toBe('error');
+
+    const nodes = new SchemaAwareParser().parse('enable password cisco\n');
+    const failure = new RuleEngine()
+      .run(nodes, rules)
+      .find((result) => result.ruleId === 'NET-AAA-003' && !result.passed);
+    expect(failure?.level).toBe('info');
+  });
+});
@@ -0,0 +1,43 @@
+// packages/cli/test/sanitize.test.ts
+// Tests for the `sentriflow sanitize` command logic
+
+import { describe, expect, test } from 'bun:test';
+import { getVendor, SecretRedactor } from '@sentriflow/core';
+import { sanitizeConfig } from '../src/commands/sanitize';
+
+describe('sanitizeConfig', () => {
+  const vendor = getVendor('cisco-ios');
+
+  test('replaces secrets and counts them', () => {
+    const outcome = sanitizeConfig(
+      'hostname r1\nenable secret 9 $9$abc$def\nsnmp-server community public RO\n',
+      vendor
+    );
+
+    expect(outcome.content).toBe(
+      'hostname r1\nenable secret 9 REDACTED-PASSWORD-1\nsnmp-server community REDACTED-COMMUNITY-1 RO\n'
+    );
+    expect(outcome.redacted).toBe(2);
+  });
+
+  test('keeps placeholders stable across files sharing a redactor', () => {
+    const redactor = new SecretRedactor();
+    const first = sanitizeConfig('snmp-server community public RO\n', vendor, redactor);
+    const second = sanitizeConfig(
+      'set snmp community private authorization read-write\nset snmp community public authorization read-only\n',
+      getVendor('juniper-junos'),
+      redactor
+    );
+
+    expect(first.content).toBe('snmp-server community REDACTED-COMMUNITY-1 RO\n');
+    expect(second.content).toBe(
+      'set snmp community REDACTED-COMMUNITY-2 authorization read-write\nset snmp community REDACTED-COMMUNITY-1 authorization read-only\n'
+    );
+  });
+
+  test('leaves a sanitized config unchanged', () => {
+    const once = sanitizeConfig('username admin secret 5 $1$xyz\n', vendor).content;
+
+    expect(sanitizeConfig(once, vendor)).toEqual({ content: once, redacted: 0 });
+  });
+});
@@ -8,6 +8,7 @@ globalThis.__VERSION__ = '0.0.0-test';
 
 import { describe, expect, test } from 'bun:test';
 import { generateSarif, generateMultiFileSarif } from '../src/sarif';
+import { applyInlineSuppressions, getVendor, SecretRedactor } from '@sentriflow/core';
 import type { IRule, RuleResult, Tag } from '@sentriflow/core';
 
 describe('SARIF Formatter', () => {
@@ -128,6 +129,85 @@ describe('SARIF Formatter', () => {
       // Rule without category or tags should not have properties
       expect(sarifRule.properties).toBeUndefined();
     });
+
+    test('emits baselineState and locates absent results in the baseline file', () => {
+      const fixedResult: RuleResult = { ...mockResult, loc: { startLine: 4, endLine: 4 } };
+      const sarifOutput = generateSarif(
+        [mockResult, fixedResult],
+        'current.cfg',
+        [mockRule],
+        {
+          baseline: {
+            filePath: 'running.cfg',
+            states: new Map([
+              [mockResult, 'new' as const],
+              [fixedResult, 'absent' as const],
+            ]),
+          },
+        }
+      );
+      const results = JSON.parse(sarifOutput).runs[0].results;
+
+      expect(results[0].baselineState).toBe('new');
+      expect(results[0].locations[0].physicalLocation.artifactLocation.uri).toBe('current.cfg');
+      expect(results[1].baselineState).toBe('absent');
+      expect(results[1].locations[0].physicalLocation.artifactLocation.uri).toBe('running.cfg');
+    });
+
+    test('omits baselineState without a baseline', () => {
+      const parsed = JSON.parse(generateSarif([mockResult], 'test.cfg', [mockRule]));
+      expect(parsed.runs[0].results[0].baselineState).toBeUndefined();
+    });
+
+    test('emits the node path as a logical location', () => {
+      const result: RuleResult = { ...mockResult, path: 'interface GigabitEthernet1' };
+      const parsed = JSON.parse(generateSarif([result], 'test.cfg', [mockRule]));
+      const location = parsed.runs[0].results[0].locations[0];
+
+      expect(location.physicalLocation.region.startLine).toBe(11);
+      expect(location.logicalLocations).toEqual([
+        { fullyQualifiedName: 'interface GigabitEthernet1', kind: 'element' },
+      ]);
+    });
+
+    test('emits redacted node paths as logical locations', () => {
+      const result: RuleResult = {
+        ...mockResult,
+        nodeId: 'password 7 0822455D0A16',
+        path: 'line vty 0 4 > password 7 0822455D0A16',
+      };
+      const [redacted] = new SecretRedactor().redactResults([result], getVendor('cisco-ios'));
+      const parsed = JSON.parse(generateSarif([redacted!], 'test.cfg', [mockRule]));
+
+      expect(parsed.runs[0].results[0].locations[0].logicalLocations).toEqual([
+        { fullyQualifiedName: 'line vty 0 4 > password 7 REDACTED-PASSWORD-1', kind: 'element' },
+      ]);
+      expect(JSON.stringify(parsed)).not.toContain('0822455D0A16');
+    });
+
+    test('describes the rules of unused and invalid suppression directives', () => {
+      const directives = applyInlineSuppressions(
+        [],
+        '! sentriflow-disable-file TEST-001\n! sentriflow-disable-next-line not-a-rule\n',
+        getVendor('cisco-ios')
+      ).results;
+      const parsed = JSON.parse(generateSarif([mockResult, ...directives], 'test.cfg', [mockRule]));
+      const run = parsed.runs[0];
+
+      expect(run.tool.driver.rules.map((rule: { id: string }) => rule.id)).toEqual([
+        'TEST-001',
+        'SUPPRESSION-UNUSED',
+        'SUPPRESSION-INVALID',
+      ]);
+      expect(run.tool.driver.rules[1].defaultConfiguration.level).toBe('warning');
+      expect(run.tool.driver.rules[1].properties.category).toBe('suppression');
+      const levels = run.results.map((result: { ruleId: string; level: string }) => [result.ruleId, result.level]);
+      expect(levels.slice(1)).toEqual([
+        ['SUPPRESSION-UNUSED', 'warning'],
+        ['SUPPRESSION-INVALID', 'warning'],
+      ]);
+      expect(run.results[1].locations[0].physicalLocation.region.startLine).toBe(1);
+    });
   });
 
   describe('generateMultiFileSarif', () => {
@@ -150,5 +230,28 @@ describe('SARIF Formatter', () => {
       expect(sarifRule.properties.category).toBe('authentication');
       expect(sarifRule.properties.tags).toContain('credential-exposure');
     });
+
+    test('describes the rules of suppression directives once across files', () => {
+      const expired = applyInlineSuppressions(
+        [],
+        '! sentriflow-disable-file TEST-001 expires=2020-01-01\n',
+        getVendor('cisco-ios')
+      ).results;
+      const parsed = JSON.parse(
+        generateMultiFileSarif(
+          [
+            { filePath: 'config1.cfg', results: expired },
+            { filePath: 'config2.cfg', results: expired },
+          ],
+          [mockRule]
+        )
+      );
+
+      expect(parsed.runs[0].tool.driver.rules.map((rule: { id: string }) => rule.id)).toEqual([
+        'TEST-001',
+        'SUPPRESSION-EXPIRED',
+      ]);
+      expect(parsed.runs[0].results).toHaveLength(2);
+    });
   });
 });
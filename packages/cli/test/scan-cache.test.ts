@@ -0,0 +1,101 @@
+// packages/cli/test/scan-cache.test.ts
+// Tests for the on-disk scan result cache (--cache)
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { IRule } from '@sentriflow/core';
+import { ScanCache, computeScanFingerprint } from '../src/scanner/ScanCache';
+import { scanFiles } from '../src/scanner/ParallelScanner';
+
+const rule: IRule = {
+  id: 'TEST-CACHE',
+  selector: 'interface',
+  metadata: { level: 'warning', obu: 'test', owner: 'test' },
+  check: (node) => ({
+    passed: false,
+    message: 'Interface found',
+    ruleId: 'TEST-CACHE',
+    nodeId: node.id,
+    level: 'warning',
+  }),
+};
+
+const scanOptions = { vendor: 'cisco-ios' };
+
+describe('computeScanFingerprint', () => {
+  const base = { toolVersion: '1.0.0', rules: [rule], sourceFiles: [], scanOptions };
+
+  test('is stable for identical inputs', () => {
+    expect(computeScanFingerprint(base)).toBe(computeScanFingerprint({ ...base }));
+  });
+
+  test('changes with rules, options and tool version', () => {
+    const fingerprint = computeScanFingerprint(base);
+    const changedRule = { ...rule, metadata: { ...rule.metadata, level: 'error' as const } };
+
+    expect(computeScanFingerprint({ ...base, rules: [changedRule] })).not.toBe(fingerprint);
+    expect(computeScanFingerprint({ ...base, scanOptions: { vendor: 'auto' } })).not.toBe(fingerprint);
+    expect(computeScanFingerprint({ ...base, toolVersion: '1.0.1' })).not.toBe(fingerprint);
+  });
+
+  test('changes when a rule source file changes', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'sentriflow-fp-'));
+    const pack = join(dir, 'rules.json');
+    writeFileSync(pack, '{"version":"1.0"}');
+    const before = computeScanFingerprint({ ...base, sourceFiles: [pack] });
+    writeFileSync(pack, '{"version":"1.1"}');
+    const after = computeScanFingerprint({ ...base, sourceFiles: [pack] });
+    rmSync(dir, { recursive: true, force: true });
+
+    expect(after).not.toBe(before);
+  });
+});
+
+describe('scanFiles with a cache', () => {
+  let dir: string;
+  let cacheDir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'sentriflow-cache-'));
+    cacheDir = join(dir, 'cache');
+    file = join(dir, 'r1.cfg');
+    writeFileSync(file, 'interface Gi0/1\n shutdown\n');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const scan = (cache: ScanCache, rules: IRule[]) =>
+    scanFiles([file], rules, { jobs: 1, resolveOptions: {}, scanOptions, cache });
+
+  test('serves unchanged files from the cache', async () => {
+    const first = new ScanCache(cacheDir, 'fingerprint');
+    const scanned = await scan(first, [rule]);
+    expect(first.hits).toBe(0);
+    expect(readdirSync(cacheDir)).toHaveLength(1);
+
+    // No rules: results can only come from the cache
+    const second = new ScanCache(cacheDir, 'fingerprint');
+    const cached = await scan(second, []);
+    expect(second.hits).toBe(1);
+    expect(cached).toEqual(scanned);
+  });
+
+  test('rescans when the content or fingerprint changes', async () => {
+    await scan(new ScanCache(cacheDir, 'fingerprint'), [rule]);
+
+    const otherFingerprint = new ScanCache(cacheDir, 'other');
+    await scan(otherFingerprint, [rule]);
+    expect(otherFingerprint.hits).toBe(0);
+
+    writeFileSync(file, 'interface Gi0/2\n');
+    const changedContent = new ScanCache(cacheDir, 'fingerprint');
+    const outcomes = await scan(changedContent, [rule]);
+    expect(changedContent.hits).toBe(0);
+    expect(outcomes[0]?.results[0]?.nodeId).toBe('interface Gi0/2');
+  });
+});
@@ -0,0 +1,176 @@
+// packages/cli/test/suppressions.test.ts
+// Tests for the shared suppression file in scans and the expired-entry check
+
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  RuleEngine,
+  SUPPRESSION_FILE_NAME,
+  SUPPRESSION_RULE_IDS,
+  SchemaAwareParser,
+  SentriflowConfigError,
+  lineContentHash,
+} from '@sentriflow/core';
+import type { IRule, SuppressionEntry } from '@sentriflow/core';
+import { scanConfigFile } from '../src/scanner/FileScanner';
+import { formatSuppressionsHuman } from '../src/commands/suppressions';
+import { formatHuman } from '../src/human';
+import {
+  applySharedSuppressions,
+  findSuppressionFile,
+  loadSuppressionFile,
+  partitionExpired,
+  toSuppressionPath,
+} from '../src/suppressions';
+
+const meta = { level: 'warning' as const, obu: 'Network', owner: 'NetOps' };
+
+// Fails on every SNMP community line
+const snmpRule: IRule = {
+  id: 'TEST-SNMP-001',
+  selector: 'snmp-server community',
+  vendor: 'cisco-ios',
+  metadata: meta,
+  check: (node) => ({
+    passed: false,
+    message: 'SNMP community configured',
+    ruleId: 'TEST-SNMP-001',
+    nodeId: node.id,
+    level: 'warning',
+    loc: node.loc,
+  }),
+};
+
+const entry = (overrides: Partial<SuppressionEntry>): SuppressionEntry => ({
+  ruleId: 'TEST-SNMP-001',
+  file: 'configs/*.cfg',
+  justification: 'Lab device',
+  owner: 'netops',
+  ...overrides,
+});
+
+describe('shared suppression file', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'sentriflow-suppressions-'));
+    mkdirSync(join(dir, 'configs'));
+    writeFileSync(
+      join(dir, 'configs', 'r1.cfg'),
+      'hostname R1\nsnmp-server community lab RW\nsnmp-server community ops RO\n'
+    );
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeSuppressions = (entries: SuppressionEntry[]): string => {
+    const path = join(dir, SUPPRESSION_FILE_NAME);
+    writeFileSync(path, JSON.stringify({ version: 1, suppressions: entries }));
+    return path;
+  };
+
+  test('finds the suppression file in a parent directory', () => {
+    const path = writeSuppressions([]);
+    expect(findSuppressionFile(join(dir, 'configs'))).toBe(path);
+    expect(toSuppressionPath(join(dir, 'configs', 'r1.cfg'), dir)).toBe('configs/r1.cfg');
+  });
+
+  test('applies entries when scanning a file', async () => {
+    const path = writeSuppressions([
+      entry({ contentHash: lineContentHash('snmp-server community lab RW') }),
+    ]);
+    const suppressions = await loadSuppressionFile(path, [dir]);
+
+    const scan = (options = {}) =>
+      scanConfigFile(join(dir, 'configs', 'r1.cfg'), [snmpRule], new RuleEngine(), {
+        vendor: 'cisco-ios',
+        ...options,
+      });
+
+    expect((await scan()).results.map((r) => r.loc?.startLine)).toEqual([1, 2]);
+    expect((await scan({ suppressions })).results.map((r) => r.loc?.startLine)).toEqual([2]);
+  });
+
+  test('applies entries matching <stdin> to stdin scans', () => {
+    const content = 'snmp-server community lab RW\n';
+    const results = new RuleEngine().run(new SchemaAwareParser().parse(content), [snmpRule]);
+    const suppressions = (entries: SuppressionEntry[]) => ({ path: '', baseDir: dir, entries });
+
+    expect(applySharedSuppressions(results, suppressions([entry({})]), null, content)).toEqual(results);
+    expect(applySharedSuppressions(results, suppressions([entry({ file: '**' })]), null, content)).toEqual([]);
+    expect(applySharedSuppressions(results, suppressions([entry({ file: '<stdin>' })]), null, content)).toEqual([]);
+  });
+
+  test('rejects invalid suppression files', async () => {
+    const path = writeSuppressions([{ ...entry({}), owner: '' }]);
+    await expect(loadSuppressionFile(path, [dir])).rejects.toThrow(SentriflowConfigError);
+  });
+
+  test('separates expired entries', () => {
+    const now = new Date('2026-03-15T00:00:00Z');
+    const expired = entry({ expires: '2026-03-01' });
+    const active = entry({ expires: '2026-12-31' });
+    expect(partitionExpired([expired, active], now)).toEqual({
+      active: [active],
+      expired: [expired],
+    });
+
+    const output = formatSuppressionsHuman([expired, active], new Set([expired]));
+    expect(output).toContain('EXPIRED  TEST-SNMP-001  configs/*.cfg (entire file)');
+    expect(output).toContain('owner: netops, expires: 2026-12-31');
+  });
+});
+
+describe('inline suppression directives', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'sentriflow-directives-'));
+    writeFileSync(
+      join(dir, 'r1.cfg'),
+      [
+        'hostname R1',
+        '! sentriflow-disable-next-line TEST-SNMP-001 expires=2020-01-01',
+        'snmp-server community lab RW',
+        '! sentriflow-disable-next-line TEST-SNMP-001',
+        'hostname R1-core',
+        '! sentriflow-disable-next-line not-a-rule',
+        '',
+      ].join('\n')
+    );
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('reports unused, expired and invalid directives as warnings', async () => {
+    const filePath = join(dir, 'r1.cfg');
+    const { results } = await scanConfigFile(filePath, [snmpRule], new RuleEngine(), {
+      vendor: 'cisco-ios',
+    });
+    const directiveIds = [
+      SUPPRESSION_RULE_IDS.expired,
+      SUPPRESSION_RULE_IDS.unused,
+      SUPPRESSION_RULE_IDS.invalid,
+    ];
+
+    // The expired directive no longer suppresses the SNMP finding
+    expect(results.map((r) => [r.ruleId, r.loc?.startLine, r.level])).toEqual([
+      ['TEST-SNMP-001', 2, 'warning'],
+      [SUPPRESSION_RULE_IDS.expired, 1, 'warning'],
+      [SUPPRESSION_RULE_IDS.unused, 3, 'warning'],
+      [SUPPRESSION_RULE_IDS.invalid, 5, 'warning'],
+    ]);
+
+    const human = formatHuman(results, filePath);
+    for (const ruleId of directiveIds) {
+      expect(human).toContain(ruleId);
+    }
+    expect(human).toContain('expired on 2020-01-01');
+  });
+});
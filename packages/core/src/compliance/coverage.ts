@@ -0,0 +1,115 @@
+// packages/core/src/compliance/coverage.ts
+
+import type {
+  ComplianceCoverage,
+  ComplianceFramework,
+  ControlCoverage,
+  ControlStatus,
+} from '../types/Compliance';
+import type { IRule, RuleResult, RuleVendor } from '../types/IRule';
+import { ruleAppliesToVendor } from '../validation/rule-validation';
+
+/**
+ * Rule fields read for coverage, shared by rules and fleet rules.
+ */
+export type ComplianceRule = Pick<IRule, 'id' | 'vendor' | 'metadata'>;
+
+/**
+ * Results of one scanned configuration.
+ */
+export interface ComplianceFileResults {
+  filePath: string;
+  /** Vendor ID of the configuration; unknown vendors count for every framework */
+  vendor?: string;
+  results: RuleResult[];
+}
+
+/**
+ * Returns the controls of a framework that a rule is mapped to.
+ *
+ * @param rule Rule with compliance metadata
+ * @param frameworkId Framework ID
+ * @returns Control IDs, empty if the rule is not mapped to the framework
+ */
+export function getRuleControls(rule: ComplianceRule, frameworkId: string): string[] {
+  return (rule.metadata.compliance ?? [])
+    .filter((mapping) => mapping.framework === frameworkId)
+    .flatMap((mapping) => mapping.controls);
+}
+
+/**
+ * Computes the status of every control of a framework over the results of
+ * the scanned configurations.
+ *
+ * A control is 'not-covered' when no rule maps to it, 'fail' when a mapped
+ * rule failed in any configuration, 'pass' when mapped rules were evaluated
+ * without failures, and 'not-evaluated' when no mapped rule produced a
+ * result (it matched no line of any configuration). With a framework vendor,
+ * only rules and configurations of that vendor count.
+ *
+ * @param framework Framework to report on
+ * @param rules Active rules of the scan
+ * @param files Results of each scanned configuration
+ * @returns Coverage of each control and counts per status
+ */
+export function computeComplianceCoverage(
+  framework: ComplianceFramework,
+  rules: ComplianceRule[],
+  files: ComplianceFileResults[]
+): ComplianceCoverage {
+  // Vendors the framework is limited to; none for vendor-neutral frameworks
+  const vendors: string[] = ([] as RuleVendor[])
+    .concat(framework.vendor ?? [])
+    .filter((vendor) => vendor !== 'common');
+  const rulesByControl = new Map<string, string[]>();
+  for (const rule of rules) {
+    if (vendors.length > 0 && !vendors.some((vendor) => ruleAppliesToVendor(rule, vendor))) {
+      continue;
+    }
+    for (const controlId of getRuleControls(rule, framework.id)) {
+      const ruleIds = rulesByControl.get(controlId) ?? [];
+      if (!ruleIds.includes(rule.id)) ruleIds.push(rule.id);
+      rulesByControl.set(controlId, ruleIds);
+    }
+  }
+
+  const scanned = files.filter(
+    (file) =>
+      vendors.length === 0 ||
+      file.vendor === undefined ||
+      vendors.includes(file.vendor)
+  );
+
+  const controls = framework.controls.map((control): ControlCoverage => {
+    const ruleIds = rulesByControl.get(control.id) ?? [];
+    const mapped = new Set(ruleIds);
+    let evaluated = 0;
+    let failures = 0;
+    const failedFiles: string[] = [];
+    for (const { filePath, results } of scanned) {
+      const own = results.filter((r) => mapped.has(r.ruleId));
+      const count = own.filter((r) => !r.passed).length;
+      evaluated += own.length;
+      if (count > 0) {
+        failures += count;
+        failedFiles.push(filePath);
+      }
+    }
+    const status: ControlStatus =
+      ruleIds.length === 0
+        ? 'not-covered'
+        : failures > 0
+          ? 'fail'
+          : evaluated > 0
+            ? 'pass'
+            : 'not-evaluated';
+    return { control, status, ruleIds, failures, failedFiles };
+  });
+
+  const summary: Record<ControlStatus, number> = { pass: 0, fail: 0, 'not-evaluated': 0, 'not-covered': 0 };
+  for (const { status } of controls) {
+    summary[status]++;
+  }
+
+  return { framework, controls, filesScanned: scanned.length, summary };
+}
@@ -0,0 +1,8 @@
+// packages/core/src/compliance/index.ts
+
+export {
+  computeComplianceCoverage,
+  getRuleControls,
+} from './coverage';
+
+export type { ComplianceRule, ComplianceFileResults } from './coverage';
@@ -0,0 +1,76 @@
+// packages/core/src/credentials/decode.ts
+
+// ============================================================================
+// Cisco Type 7
+// ============================================================================
+
+/** Key Cisco type 7 passwords are XORed with, starting at the offset of the salt */
+const TYPE7_KEY = 'dsfd;kfoA,.iyewrkldJKDHSUBsgvca69834ncxv9873254k;fg87';
+
+/**
+ * Decodes a Cisco type 7 password ('0822455D0A16' is 'cisco'): two decimal
+ * digits of salt, then one hex byte per character.
+ *
+ * @returns The clear text, or undefined if the value is not type 7
+ */
+export function decodeCiscoType7(value: string): string | undefined {
+  if (!/^\d{2}(?:[0-9A-Fa-f]{2})*$/.test(value)) return undefined;
+  const salt = parseInt(value.slice(0, 2), 10);
+  if (salt >= TYPE7_KEY.length) return undefined;
+
+  let plaintext = '';
+  for (let i = 2; i < value.length; i += 2) {
+    const byte = parseInt(value.slice(i, i + 2), 16);
+    plaintext += String.fromCharCode(byte ^ TYPE7_KEY.charCodeAt((salt + (i - 2) / 2) % TYPE7_KEY.length));
+  }
+  return plaintext;
+}
+
+// ============================================================================
+// Junos $9$
+// ============================================================================
+
+/**
+ * Alphabet of Junos '$9$' secrets, in four families. The family of the first
+ * character tells how many random characters follow it.
+ */
+const JUNOS9_FAMILIES = ['QzF3n6/9CAtpu0O', 'B1IREhcSyrleKvMW8LXx', '7N-dVbwsY2g4oaJZGUDj', 'iHkq.mPf5T'];
+const JUNOS9_ALPHABET = JUNOS9_FAMILIES.join('');
+
+/** Weights of the gaps that encode one character, cycling over the characters */
+const JUNOS9_ENCODING = [[1, 4, 32], [1, 16, 32], [1, 8, 32], [1, 64], [1, 32], [1, 4, 16, 128], [1, 32, 64]];
+
+/**
+ * Decodes a Junos '$9$' secret. Each character is encoded as gaps between
+ * consecutive characters of the alphabet.
+ *
+ * @returns The clear text, or undefined if the value is not a valid '$9$' secret
+ */
+export function decodeJunos9(value: string): string | undefined {
+  if (!value.startsWith('$9$')) return undefined;
+  const chars = value.slice(3);
+  const first = chars[0];
+  if (first === undefined) return undefined;
+  const family = JUNOS9_FAMILIES.findIndex((f) => f.includes(first));
+  if (family === -1) return undefined;
+
+  let position = 1 + (3 - family);
+  let previous = first;
+  let plaintext = '';
+  while (position < chars.length) {
+    const weights = JUNOS9_ENCODING[plaintext.length % JUNOS9_ENCODING.length]!;
+    if (position + weights.length > chars.length) return undefined;
+    let code = 0;
+    for (const weight of weights) {
+      const current = chars[position++]!;
+      const from = JUNOS9_ALPHABET.indexOf(previous);
+      const to = JUNOS9_ALPHABET.indexOf(current);
+      if (to === -1) return undefined;
+      const gap = ((to - from + JUNOS9_ALPHABET.length) % JUNOS9_ALPHABET.length) - 1;
+      code += gap * weight;
+      previous = current;
+    }
+    plaintext += String.fromCharCode(code % 256);
+  }
+  return plaintext;
+}
@@ -0,0 +1,71 @@
+// packages/core/src/credentials/defaults.ts
+
+import type { Credential } from './types';
+
+/**
+ * Factory default, documentation and commonly guessed secrets (compared
+ * case-insensitively): vendor defaults such as 'cisco', 'Admin@huawei' and
+ * 'CumulusLinux!', the SNMP communities 'public' and 'private', and
+ * placeholders left over from templates.
+ */
+export const KNOWN_DEFAULT_SECRETS: readonly string[] = [
+  // Vendor factory defaults and well-known lab passwords
+  'cisco',
+  'cisco123',
+  'Cisco123!',
+  'juniper',
+  'juniper123',
+  'Juniper1',
+  'fortinet',
+  'paloalto',
+  'Admin@huawei',
+  'Admin@123',
+  'huawei',
+  'huawei123',
+  'CumulusLinux!',
+  'cumulus',
+  'vyos',
+  'ubnt',
+  'alcatel',
+  'admin',
+  'admin123',
+  'manager',
+  'friend',
+  'root',
+  'enable',
+  // SNMP communities
+  'public',
+  'private',
+  'community',
+  'snmp',
+  // Common placeholders and guesses
+  'password',
+  'password1',
+  'Passw0rd',
+  'changeme',
+  'default',
+  'secret',
+  'letmein',
+  'test',
+  '123456',
+  '12345678',
+];
+
+const DEFAULT_SET = new Set(KNOWN_DEFAULT_SECRETS.map((secret) => secret.toLowerCase()));
+
+/**
+ * Checks whether a secret is a known default value.
+ * @param secret The secret in clear text
+ */
+export function isKnownDefaultSecret(secret: string): boolean {
+  return DEFAULT_SET.has(secret.toLowerCase());
+}
+
+/**
+ * Checks whether a credential's secret is a known default value. Only
+ * credentials whose clear text is known (clear text, Cisco type 7, Junos
+ * '$9$') can be checked.
+ */
+export function hasDefaultSecret(credential: Credential): boolean {
+  return credential.plaintext !== undefined && isKnownDefaultSecret(credential.plaintext);
+}
@@ -0,0 +1,165 @@
+// packages/core/src/credentials/extractor.ts
+
+import type { ConfigNode } from '../types/ConfigNode';
+import type { SecretKind } from '../parser/VendorSchema';
+import { getVendor, isValidVendor } from '../parser/vendors';
+import { findSecrets } from '../redaction/SecretRedactor';
+import { sourceOf, tokenize, walkNodes } from '../model/common';
+import { decodeCiscoType7, decodeJunos9 } from './decode';
+import type { Credential, CredentialAlgorithm, CredentialKind } from './types';
+
+/** Encoding types stated before a secret, by algorithm */
+const TYPE_ALGORITHMS: Readonly<Record<string, CredentialAlgorithm>> = {
+  '0': 'plaintext',
+  plaintext: 'plaintext',
+  simple: 'plaintext',
+  plain: 'plaintext',
+  'ascii-text': 'plaintext',
+  hexadecimal: 'plaintext',
+  '5': 'md5-crypt',
+  '6': 'encrypted',
+  '7': 'cisco-type7',
+  '8': 'pbkdf2-sha256',
+  '9': 'scrypt',
+  sha512: 'sha512-crypt',
+  sha1: 'sha1',
+  ciphertext: 'encrypted',
+  cipher: 'encrypted',
+  encrypted: 'encrypted',
+  'irreversible-cipher': 'hash',
+};
+
+/** Hash prefixes of crypt(3) and Cisco hashes */
+const PREFIX_ALGORITHMS: ReadonlyArray<[string, CredentialAlgorithm]> = [
+  ['$1$', 'md5-crypt'],
+  ['$5$', 'sha256-crypt'],
+  ['$6$', 'sha512-crypt'],
+  ['$8$', 'pbkdf2-sha256'],
+  ['$9$', 'scrypt'],
+];
+
+/** Words followed by a user name ('username admin', Junos 'user admin') */
+const USER_KEYWORDS = new Set(['username', 'user', 'users', 'user-name', 'local-user', 'mgmt-user']);
+
+/** FortiGate tables whose 'edit' entries are users */
+const FORTINET_USER_TABLES = ['system admin', 'user local'];
+
+/**
+ * Determines how a secret is stored from the encoding type the line states,
+ * the format of the value, or the keyword after it (Nokia 'hash2').
+ */
+function algorithmOf(value: string, type: string | undefined, vendorId: string, line: string): CredentialAlgorithm {
+  const stated = type?.toLowerCase();
+  if (stated === 'enc') {
+    // FortiGate: 'ENC SH2...' is a password hash, other ENC values are encrypted
+    return value.startsWith('SH2') ? 'hash' : 'encrypted';
+  }
+  if (stated !== undefined && TYPE_ALGORITHMS[stated] !== undefined) {
+    return TYPE_ALGORITHMS[stated]!;
+  }
+
+  if (value.startsWith('$9$') && vendorId === 'juniper-junos') return 'junos-9';
+  for (const [prefix, algorithm] of PREFIX_ALGORITHMS) {
+    if (value.startsWith(prefix)) return algorithm;
+  }
+  // PAN-OS '-AQ==...', Huawei '%^%#...%^%#' and '%@%@...%@%@'
+  if (value.startsWith('-AQ==') || /^%(?:\^%#|@%@|\$%\$)/.test(value)) return 'encrypted';
+  if (/\s(?:hash|hash2)\s*$/i.test(line)) return 'encrypted';
+  return 'plaintext';
+}
+
+function plaintextOf(value: string, algorithm: CredentialAlgorithm): string | undefined {
+  switch (algorithm) {
+    case 'plaintext':
+      return value;
+    case 'cisco-type7':
+      return decodeCiscoType7(value);
+    case 'junos-9':
+      return decodeJunos9(value);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Finds the user a password belongs to in the words of the line and its
+ * enclosing sections.
+ */
+function userOf(words: string[], line: string): string | undefined {
+  // MikroTik: /user add name=admin password=...
+  const property = /(?:^|\s)name=("[^"]*"|\S+)/.exec(line);
+  if (property) return property[1]!.replace(/^"|"$/g, '');
+
+  for (let i = words.length - 2; i >= 0; i--) {
+    const word = words[i]!.toLowerCase();
+    if (USER_KEYWORDS.has(word)) return words[i + 1];
+    // Extreme EXOS: create account admin|user NAME
+    if (word === 'account' && words[i + 2] !== undefined) return words[i + 2];
+    if (word === 'edit' && FORTINET_USER_TABLES.some((table) => words.slice(0, i).join(' ').endsWith(`config ${table}`))) {
+      return words[i + 1];
+    }
+  }
+  return undefined;
+}
+
+function kindOf(secretKind: SecretKind, words: string[], user: string | undefined): CredentialKind {
+  if (secretKind === 'community') return 'snmp-community';
+  if (secretKind === 'key') return 'shared-key';
+  if (words[0]?.toLowerCase() === 'enable') return 'enable';
+  return user !== undefined ? 'user' : 'password';
+}
+
+/**
+ * Reads the credentials of a parsed configuration: local user passwords,
+ * enable secrets, line passwords, SNMP communities and shared keys, with the
+ * algorithm they are stored with. Secrets are found with the vendor's
+ * `secretPatterns`; Cisco type 7 and Junos '$9$' values are decoded.
+ *
+ * @param ast Parsed configuration
+ * @param vendorId ID of the vendor the configuration was parsed with
+ * @returns The credentials in configuration order (empty for unknown vendors)
+ */
+export function extractCredentials(ast: ConfigNode[], vendorId: string): Credential[] {
+  if (!isValidVendor(vendorId)) return [];
+  const vendor = getVendor(vendorId);
+  const credentials: Credential[] = [];
+  const sectionWords = new Map<ConfigNode, string[]>();
+
+  walkNodes(ast, (node, parent) => {
+    let own = tokenize(node.id);
+    if (parent === undefined) {
+      if (own[0] === 'nv' || own[0] === 'net') own = own.slice(own[1] === 'add' ? 2 : 1);
+      if (own[0] === 'set') own = own.slice(1);
+    }
+    const words = [...(parent ? sectionWords.get(parent) ?? [] : []), ...own];
+    if (node.children.length > 0) sectionWords.set(node, words);
+
+    for (const secret of findSecrets(node.rawText, vendor)) {
+      const algorithm = algorithmOf(secret.value, secret.type, vendorId, node.rawText);
+      const user = secret.kind === 'password' ? userOf(words, node.rawText) : undefined;
+      const credential: Credential = {
+        kind: kindOf(secret.kind, own, user),
+        algorithm,
+        value: secret.value,
+        source: sourceOf(node),
+      };
+      if (user !== undefined) credential.user = user;
+      const plaintext = plaintextOf(secret.value, algorithm);
+      if (plaintext !== undefined) credential.plaintext = plaintext;
+      credentials.push(credential);
+    }
+  });
+
+  return credentials;
+}
+
+/**
+ * Key that is equal for credentials with the same secret: the clear text
+ * when it is known, otherwise the stored value (a copied hash or encrypted
+ * value is the same secret).
+ */
+export function credentialKey(credential: Credential): string {
+  return credential.plaintext !== undefined
+    ? `plaintext:${credential.plaintext}`
+    : `${credential.algorithm}:${credential.value}`;
+}
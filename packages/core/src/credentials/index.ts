@@ -0,0 +1,7 @@
+// packages/core/src/credentials/index.ts
+
+export type { Credential, CredentialAlgorithm, CredentialKind } from './types';
+
+export { decodeCiscoType7, decodeJunos9 } from './decode';
+export { KNOWN_DEFAULT_SECRETS, isKnownDefaultSecret, hasDefaultSecret } from './defaults';
+export { extractCredentials, credentialKey } from './extractor';
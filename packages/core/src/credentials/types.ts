@@ -0,0 +1,64 @@
+// packages/core/src/credentials/types.ts
+
+import type { ModelSource } from '../model/types';
+
+/**
+ * What a credential protects.
+ * - 'user': password of a local user account
+ * - 'enable': enable (privileged mode) password or secret
+ * - 'password': other passwords (console and VTY lines, PPP)
+ * - 'snmp-community': SNMP community or SNMPv3 passphrase
+ * - 'shared-key': key shared with another system (TACACS+/RADIUS, IKE,
+ *   routing protocol, NTP and FHRP authentication)
+ */
+export type CredentialKind = 'user' | 'enable' | 'password' | 'snmp-community' | 'shared-key';
+
+/**
+ * How a credential is stored in the configuration.
+ * - 'plaintext': in clear text (Cisco type 0, unencrypted values)
+ * - 'cisco-type7', 'junos-9': reversible obfuscation, decoded locally
+ * - 'md5-crypt', 'sha256-crypt', 'sha512-crypt': crypt(3) hashes ('$1$', '$5$', '$6$')
+ * - 'sha1': unsalted SHA-1 hash (Aruba AOS-Switch)
+ * - 'pbkdf2-sha256', 'scrypt': Cisco type 8 and type 9 hashes
+ * - 'hash': other one-way hashes (FortiGate 'SH2', Huawei irreversible-cipher)
+ * - 'encrypted': encrypted with a key of the device (Cisco type 6, FortiGate
+ *   'ENC', PAN-OS, Huawei cipher), which cannot be decoded locally
+ */
+export type CredentialAlgorithm =
+  | 'plaintext'
+  | 'cisco-type7'
+  | 'junos-9'
+  | 'md5-crypt'
+  | 'sha256-crypt'
+  | 'sha512-crypt'
+  | 'sha1'
+  | 'pbkdf2-sha256'
+  | 'scrypt'
+  | 'hash'
+  | 'encrypted';
+
+/**
+ * A credential of a device configuration.
+ * Kept JSON-friendly like the device model.
+ */
+export interface Credential {
+  kind: CredentialKind;
+
+  /** User name, for user passwords */
+  user?: string;
+
+  /** How the value is stored */
+  algorithm: CredentialAlgorithm;
+
+  /** The value as configured (without quotes) */
+  value: string;
+
+  /**
+   * The secret in clear text, when it is stored in clear text or with a
+   * reversible encoding. Undefined for hashes and encrypted values.
+   */
+  plaintext?: string;
+
+  /** Where the credential is configured */
+  source: ModelSource;
+}
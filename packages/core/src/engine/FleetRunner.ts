@@ -0,0 +1,109 @@
+// packages/core/src/engine/FleetRunner.ts
+
+import { basename, extname } from 'path';
+import type { ConfigNode } from '../types/ConfigNode';
+import type { FleetDevice, FleetRuleResult, IFleetRule } from '../types/FleetRule';
+import { ruleAppliesToVendor } from '../validation/rule-validation';
+
+/**
+ * A fleet rule that threw while checking.
+ */
+export interface FleetRuleError {
+  /** ID of the failing rule */
+  ruleId: string;
+  /** Error message */
+  message: string;
+}
+
+/**
+ * Outcome of running fleet rules over a set of devices.
+ */
+export interface FleetRunResult {
+  /** Findings of all rules, in rule order */
+  results: FleetRuleResult[];
+  /** Rules that threw; their findings are missing from results */
+  errors: FleetRuleError[];
+}
+
+/**
+ * Hostname commands, covering "hostname" (Cisco, Arista, Aruba),
+ * "host-name" (Junos), "sysname" (Huawei) and "set hostname" (FortiGate).
+ */
+const HOSTNAME_PATTERN = /^(?:set\s+)?(?:hostname|host-name|sysname)\s+(\S+?);?$/i;
+
+/** Hostname commands sit at the top level or inside a system section */
+const HOSTNAME_SEARCH_DEPTH = 3;
+
+/**
+ * Finds the hostname configured in a parsed configuration.
+ *
+ * @param ast Parsed configuration
+ * @returns The hostname, or undefined if none is configured
+ */
+export function findHostname(ast: ConfigNode[]): string | undefined {
+  const search = (nodes: ConfigNode[], depth: number): string | undefined => {
+    for (const node of nodes) {
+      const match = HOSTNAME_PATTERN.exec(node.id.trim());
+      if (match?.[1]) {
+        return match[1].replace(/^["']|["']$/g, '');
+      }
+      if (depth < HOSTNAME_SEARCH_DEPTH) {
+        const found = search(node.children, depth + 1);
+        if (found) return found;
+      }
+    }
+    return undefined;
+  };
+  return search(ast, 1);
+}
+
+/**
+ * Creates a fleet device from a parsed configuration.
+ * The hostname falls back to the file name without extension.
+ *
+ * @param filePath Path of the configuration file
+ * @param vendor Vendor ID of the configuration
+ * @param ast Parsed configuration
+ */
+export function createFleetDevice(
+  filePath: string,
+  vendor: string,
+  ast: ConfigNode[]
+): FleetDevice {
+  const hostname = findHostname(ast) ?? basename(filePath, extname(filePath));
+  return { filePath, hostname, vendor, ast };
+}
+
+/**
+ * Runs fleet rules over a set of devices.
+ * Each rule only receives the devices of the vendors it applies to, and is
+ * skipped when there are none. A rule that throws is reported in `errors`
+ * without affecting the other rules.
+ *
+ * @param devices Every device of the scan
+ * @param rules Fleet rules to run
+ * @returns Findings and rule errors
+ */
+export function runFleetRules(
+  devices: FleetDevice[],
+  rules: IFleetRule[]
+): FleetRunResult {
+  const results: FleetRuleResult[] = [];
+  const errors: FleetRuleError[] = [];
+
+  for (const rule of rules) {
+    const applicable = devices.filter((device) => ruleAppliesToVendor(rule, device.vendor));
+    if (applicable.length === 0) continue;
+
+    try {
+      results.push(...rule.check(applicable));
+    } catch (error) {
+      errors.push({
+        ruleId: rule.id,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return { results, errors };
+}
@@ -2,6 +2,7 @@
 
 import type { ConfigNode } from '../types/ConfigNode';
 import type { IRule, RuleResult, Context } from '../types/IRule';
+import { toRuleResults } from '../types/IRule';
 import { RULE_PER_NODE_TIMEOUT_MS } from '../constants';
 
 /**
@@ -47,7 +48,7 @@ export interface ExecutionStats {
  * ```typescript
  * const executor = new RuleExecutor();
  *
- * const result = executor.execute(rule, node, context);
+ * const results = executor.execute(rule, node, context);
  *
  * // Check for disabled rules
  * const disabled = executor.getDisabledRules();
@@ -75,13 +76,13 @@ export class RuleExecutor {
    * @param rule The rule to execute
    * @param node The configuration node to check
    * @param context The execution context
-   * @returns RuleResult or null if rule is disabled/skipped
+   * @returns The results of the check (see IRule.check), or null if the rule is disabled/skipped
    */
   public execute(
     rule: IRule,
     node: ConfigNode,
     context: Context
-  ): RuleResult | null {
+  ): RuleResult[] | null {
     // Skip disabled rules
     if (this.disabledRules.has(rule.id)) {
       return null;
@@ -90,7 +91,7 @@ export class RuleExecutor {
     const startTime = performance.now();
 
     try {
-      const result = rule.check(node, context);
+      const results = toRuleResults(rule.check(node, context));
       const elapsed = performance.now() - startTime;
 
       // Track execution time
@@ -101,7 +102,7 @@ export class RuleExecutor {
         this.handleTimeout(rule.id, node.id, elapsed);
       }
 
-      return result;
+      return results;
     } catch (error) {
       const elapsed = performance.now() - startTime;
       this.trackExecutionTime(rule.id, elapsed);
@@ -111,14 +112,14 @@ export class RuleExecutor {
 
       // SEC-005: Sanitize error message to prevent information disclosure
       // Don't expose internal error details which could reveal file paths or sensitive data
-      return {
+      return [{
         passed: false,
         message: `Rule ${rule.id} failed to execute. Check rule implementation.`,
         ruleId: rule.id,
         nodeId: node.id,
         level: 'error',
         loc: node.loc,
-      };
+      }];
     }
   }
 
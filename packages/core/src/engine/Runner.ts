@@ -2,20 +2,56 @@
 
 import type { ConfigNode } from '../types/ConfigNode';
 import type { IRule, RuleResult, Context } from '../types/IRule';
+import { toRuleResults } from '../types/IRule';
 import { RuleExecutor } from './RuleExecutor';
 import type { ExecutionOptions } from './RuleExecutor';
+import { extractDeviceModel } from '../model/extractor';
+import type { DeviceModel } from '../model/types';
+import { buildCrossReferenceIndex } from '../xref/extractor';
+import type { CrossReferenceIndex } from '../xref/CrossReferenceIndex';
+import { analyzePolicies } from '../policy/extractor';
+import type { PolicyAnalysis } from '../policy/analysis';
+import { extractCredentials } from '../credentials/extractor';
+import type { Credential } from '../credentials/types';
+import { createParentLookup, isGlobalSelector, matchesSelectorSteps, parseSelector } from './Selector';
+import type { ParentLookup, SelectorStep } from './Selector';
 
 /**
  * Index structure for fast rule lookup.
  * Reduces selector matching from O(N×R) to O(N×k) where k << R.
  */
 interface RuleIndex {
-  /** Rules indexed by first keyword of selector (lowercase) */
+  /** Rules indexed by first keyword of the selector subject (lowercase) */
   byPrefix: Map<string, IRule[]>;
   /** Rules with no selector (global rules that run on all nodes) */
   global: IRule[];
+  /** Document rules, run once per run on the document node */
+  document: IRule[];
   /** Rules indexed by exact selector match (lowercase) */
   exact: Map<string, IRule[]>;
+  /** Parsed selectors, keyed by selector string */
+  steps: Map<string, SelectorStep[]>;
+}
+
+/**
+ * Create the node that document rules are run on: the whole configuration,
+ * with orphan commands taken out of their virtual roots.
+ */
+function createDocumentNode(nodes: ConfigNode[]): ConfigNode {
+  const children = nodes.flatMap((node) => (node.type === 'virtual_root' ? node.children : [node]));
+  return {
+    id: 'document',
+    type: 'virtual_root',
+    rawText: '',
+    params: [],
+    children,
+    source: 'base',
+    loc: {
+      startLine: children[0]?.loc.startLine ?? 0,
+      endLine: children.at(-1)?.loc.endLine ?? 0,
+    },
+    indent: 0,
+  };
 }
 
 /**
@@ -67,19 +103,32 @@ export class RuleEngine {
     this.index = {
       byPrefix: new Map(),
       global: [],
+      document: [],
       exact: new Map(),
+      steps: new Map(),
     };
     this.indexedRules = rules;
     this.indexVersion++;
 
     for (const rule of rules) {
-      if (!rule.selector) {
+      if (rule.scope === 'document') {
+        this.index.document.push(rule);
+        continue;
+      }
+
+      if (!rule.selector || isGlobalSelector(rule.selector)) {
         // No selector = global rule, runs on everything
         this.index.global.push(rule);
         continue;
       }
 
       const selector = rule.selector.toLowerCase();
+      const steps = this.getSelectorSteps(rule.selector);
+      const subject = steps.at(-1)?.prefix;
+      if (subject === undefined) {
+        // Malformed compound selector (empty step) never matches
+        continue;
+      }
 
       // Index by exact selector
       const exactBucket = this.index.exact.get(selector);
@@ -89,8 +138,9 @@ export class RuleEngine {
         this.index.exact.set(selector, [rule]);
       }
 
-      // Index by first word (prefix) for partial matches
-      const prefix = selector.split(/\s+/)[0] ?? selector;
+      // Index by first word of the subject (prefix) for partial matches.
+      // For "interface > ip address" the subject is "ip address".
+      const prefix = subject.split(/\s+/)[0] ?? subject;
       const prefixBucket = this.index.byPrefix.get(prefix);
       if (prefixBucket) {
         prefixBucket.push(rule);
@@ -109,7 +159,8 @@ export class RuleEngine {
    */
   private getCandidateRules(node: ConfigNode): IRule[] {
     if (!this.index) {
-      return this.indexedRules; // Fallback to all rules if no index
+      // Fallback to all node rules if no index
+      return this.indexedRules.filter((rule) => rule.scope !== 'document');
     }
 
     const nodeId = node.id.toLowerCase();
@@ -133,7 +184,7 @@ export class RuleEngine {
    * @param nodes The root nodes of the configuration AST
    * @param rules Optional rules array - if provided and different from indexed rules, rebuilds index
    * @param context Optional global context to pass to rules
-   * @returns Array of RuleResult objects
+   * @returns Array of RuleResult objects, one per result returned by the checks
    */
   public run(
     nodes: ConfigNode[],
@@ -152,10 +203,67 @@ export class RuleEngine {
 
     const results: RuleResult[] = [];
 
-    // Create context once with lazy AST getter
+    // Carry the node path on results that refer to the checked node
+    const record = (result: RuleResult, node: ConfigNode): void => {
+      if (result.path === undefined && node.path !== undefined && result.nodeId === node.id) {
+        results.push({ ...result, path: node.path });
+      } else {
+        results.push(result);
+      }
+    };
+
+    // Create context once with lazy AST getter and parent lookup
+    const getParent = context.getParent ?? createParentLookup(nodes);
     const ruleContext: Context = {
       ...context,
       getAst: () => nodes,
+      getParent,
+    };
+    const vendorId = context.vendorId;
+    if (!context.getModel && vendorId !== undefined) {
+      // Extracted on first use and shared by all rules of this run
+      let model: DeviceModel | undefined;
+      ruleContext.getModel = () => (model ??= extractDeviceModel(nodes, vendorId));
+    }
+    if (!context.getCrossReferences && vendorId !== undefined) {
+      let xref: CrossReferenceIndex | undefined;
+      ruleContext.getCrossReferences = () => (xref ??= buildCrossReferenceIndex(nodes, vendorId));
+    }
+    if (!context.getPolicyAnalysis && vendorId !== undefined) {
+      let policies: PolicyAnalysis | undefined;
+      ruleContext.getPolicyAnalysis = () => (policies ??= analyzePolicies(nodes, vendorId));
+    }
+    if (!context.getCredentials && vendorId !== undefined) {
+      let credentials: Credential[] | undefined;
+      ruleContext.getCredentials = () => (credentials ??= extractCredentials(nodes, vendorId));
+    }
+
+    const execute = (rule: IRule, node: ConfigNode): void => {
+      // Use executor if timeout protection is enabled
+      if (this.executor) {
+        for (const result of this.executor.execute(rule, node, ruleContext) ?? []) {
+          record(result, node);
+        }
+        return;
+      }
+
+      // Direct execution without timeout protection
+      try {
+        for (const result of toRuleResults(rule.check(node, ruleContext))) {
+          record(result, node);
+        }
+      } catch (error) {
+        record({
+          passed: false,
+          message: `Rule execution error: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+          ruleId: rule.id,
+          nodeId: node.id,
+          level: 'error',
+          loc: node.loc,
+        }, node);
+      }
     };
 
     const visit = (node: ConfigNode): void => {
@@ -163,33 +271,8 @@ export class RuleEngine {
       const candidates = this.getCandidateRules(node);
 
       for (const rule of candidates) {
-        if (this.matchesSelector(node, rule.selector)) {
-          // Use executor if timeout protection is enabled
-          if (this.executor) {
-            const result = this.executor.execute(rule, node, ruleContext);
-            if (result) {
-              results.push(result);
-            }
-          } else {
-            // Direct execution without timeout protection
-            try {
-              const result = rule.check(node, ruleContext);
-              if (result) {
-                results.push(result);
-              }
-            } catch (error) {
-              results.push({
-                passed: false,
-                message: `Rule execution error: ${
-                  error instanceof Error ? error.message : String(error)
-                }`,
-                ruleId: rule.id,
-                nodeId: node.id,
-                level: 'error',
-                loc: node.loc,
-              });
-            }
-          }
+        if (this.matchesSelector(node, rule.selector, getParent)) {
+          execute(rule, node);
         }
       }
 
@@ -199,6 +282,15 @@ export class RuleEngine {
       }
     };
 
+    // Document rules run once, before the node rules
+    const documentRules = this.index?.document ?? this.indexedRules.filter((rule) => rule.scope === 'document');
+    if (documentRules.length > 0) {
+      const document = createDocumentNode(nodes);
+      for (const rule of documentRules) {
+        execute(rule, document);
+      }
+    }
+
     for (const node of nodes) {
       visit(node);
     }
@@ -208,15 +300,39 @@ export class RuleEngine {
 
   /**
    * Checks if a node matches a rule's selector.
-   * Uses case-insensitive prefix matching.
+   * Uses case-insensitive prefix matching; compound selectors
+   * ("interface > ip address", "router bgp >> neighbor") also match ancestors.
    *
    * @param node The configuration node
    * @param selector The selector string (e.g., "interface", "router bgp")
+   * @param getParent Parent lookup for compound selectors
    * @returns True if the node matches the selector
    */
-  private matchesSelector(node: ConfigNode, selector?: string): boolean {
-    if (!selector) return true;
-    return node.id.toLowerCase().startsWith(selector.toLowerCase());
+  private matchesSelector(
+    node: ConfigNode,
+    selector: string | undefined,
+    getParent: ParentLookup
+  ): boolean {
+    if (!selector || isGlobalSelector(selector)) return true;
+    const steps = this.getSelectorSteps(selector);
+    const subject = steps[0];
+    if (steps.length === 1 && subject) {
+      return node.id.toLowerCase().startsWith(subject.prefix);
+    }
+    return matchesSelectorSteps(node, steps, getParent);
+  }
+
+  /**
+   * Get the parsed steps of a selector, caching them in the index.
+   */
+  private getSelectorSteps(selector: string): SelectorStep[] {
+    const cached = this.index?.steps.get(selector);
+    if (cached) {
+      return cached;
+    }
+    const steps = parseSelector(selector);
+    this.index?.steps.set(selector, steps);
+    return steps;
   }
 
   /**
@@ -245,6 +361,7 @@ export class RuleEngine {
   public getIndexStats(): {
     totalRules: number;
     globalRules: number;
+    documentRules: number;
     prefixBuckets: number;
     exactBuckets: number;
     avgRulesPerPrefix: number;
@@ -253,6 +370,7 @@ export class RuleEngine {
       return {
         totalRules: 0,
         globalRules: 0,
+        documentRules: 0,
         prefixBuckets: 0,
         exactBuckets: 0,
         avgRulesPerPrefix: 0,
@@ -268,6 +386,7 @@ export class RuleEngine {
     return {
       totalRules: this.indexedRules.length,
       globalRules: this.index.global.length,
+      documentRules: this.index.document.length,
       prefixBuckets,
       exactBuckets: this.index.exact.size,
       avgRulesPerPrefix: prefixBuckets > 0 ? totalPrefixRules / prefixBuckets : 0,
@@ -11,7 +11,7 @@
 import { createContext, Script, type Context as VMContext } from 'vm';
 import type { ConfigNode } from '../types/ConfigNode';
 import type { Context } from '../types/IRule';
-import type { IRule, RuleResult, RuleVendor } from '../types/IRule';
+import type { IRule, RuleCheckResult, RuleResult, RuleVendor } from '../types/IRule';
 import type { DeclarativeRule, DeclarativeCheck } from '../types/DeclarativeRule';
 
 /** Timeout for custom code execution in milliseconds */
@@ -25,12 +25,10 @@ const CUSTOM_CODE_TIMEOUT_MS = 100;
  * require VM sandboxing.
  */
 export class SandboxedExecutor {
-    private readonly sandbox: Record<string, unknown>;
     private readonly vmContext: VMContext;
 
     constructor() {
-        this.sandbox = this.createSandbox();
-        this.vmContext = createContext(this.sandbox);
+        this.vmContext = this.createSandbox();
     }
 
     /**
@@ -42,7 +40,7 @@ export class SandboxedExecutor {
             selector: decl.selector,
             vendor: decl.vendor as RuleVendor | RuleVendor[] | undefined,
             metadata: decl.metadata,
-            check: (node: ConfigNode, ctx: Context): RuleResult => {
+            check: (node: ConfigNode, ctx: Context): RuleCheckResult => {
                 return this.evaluate(decl.check, node, ctx, decl);
             },
         };
@@ -50,14 +48,36 @@ export class SandboxedExecutor {
 
     /**
      * Evaluates a declarative check condition against a node.
+     * Custom code may return the IDs of the children it flags instead of a
+     * boolean; each of them is a finding of its own.
      */
     private evaluate(
         check: DeclarativeCheck,
         node: ConfigNode,
         ctx: Context,
         rule: DeclarativeRule
-    ): RuleResult {
-        const passed = this.evaluateCondition(check, node);
+    ): RuleCheckResult {
+        if (check.type === 'custom') {
+            const outcome = this.executeCustomCode(check.code, node);
+            if (!Array.isArray(outcome)) {
+                return this.createResult(outcome, node, rule);
+            }
+            if (outcome.length === 0) {
+                return this.createResult(true, node, rule);
+            }
+            // IDs that name no child are reported on the node itself
+            return outcome.map((id) =>
+                this.createResult(false, node.children.find(c => c.id === id) ?? node, rule)
+            );
+        }
+
+        return this.createResult(this.evaluateCondition(check, node), node, rule);
+    }
+
+    /**
+     * Creates the result of a declarative check for a node.
+     */
+    private createResult(passed: boolean, node: ConfigNode, rule: DeclarativeRule): RuleResult {
         return {
             passed,
             message: passed
@@ -122,8 +142,10 @@ export class SandboxedExecutor {
             case 'not':
                 return !this.evaluateCondition(check.condition, node);
 
-            case 'custom':
-                return this.executeCustomCode(check.code, node);
+            case 'custom': {
+                const outcome = this.executeCustomCode(check.code, node);
+                return Array.isArray(outcome) ? outcome.length === 0 : outcome;
+            }
 
             default:
                 // Unknown check type - fail closed for safety
@@ -133,27 +155,33 @@ export class SandboxedExecutor {
 
     /**
      * Executes custom code in a VM sandbox.
-     * Returns the boolean result of the code execution.
+     * Returns the boolean result of the code execution, or the IDs of the
+     * children the code flagged if it returned an array of strings.
      */
-    private executeCustomCode(code: string, node: ConfigNode): boolean {
-        // Prepare a frozen copy of the node for the sandbox
-        this.sandbox.node = Object.freeze({
+    private executeCustomCode(code: string, node: ConfigNode): boolean | string[] {
+        // The node goes in and the result comes out as JSON text, so the code
+        // never holds a host object whose constructor leads out of the sandbox
+        const nodeJson = JSON.stringify({
             id: node.id,
             type: node.type,
-            children: node.children.map(c => Object.freeze({
-                id: c.id,
-                type: c.type,
-            })),
+            children: node.children.map(c => ({ id: c.id, type: c.type })),
         });
 
         try {
-            const wrappedCode = `(function() { ${code} })()`;
-            const script = new Script(wrappedCode, {
-                filename: 'custom-check.js',
-                timeout: CUSTOM_CODE_TIMEOUT_MS,
-            } as { filename: string; timeout: number });
-            const result = script.runInContext(this.vmContext);
-            return Boolean(result);
+            const wrappedCode = `(function() {
+                const result = (function(node) { ${code} })(
+                    JSON.parse(${JSON.stringify(nodeJson)}, (key, value) => Object.freeze(value))
+                );
+                return Array.isArray(result) ? JSON.stringify(result) : Boolean(result);
+            })()`;
+            const script = new Script(wrappedCode, { filename: 'custom-check.js' });
+            const result: unknown = script.runInContext(this.vmContext, { timeout: CUSTOM_CODE_TIMEOUT_MS });
+            if (typeof result === 'string') {
+                // Anything but child IDs = fail closed
+                const ids: unknown = JSON.parse(result);
+                return Array.isArray(ids) && ids.every((id) => typeof id === 'string') ? ids : false;
+            }
+            return result === true;
         } catch {
             // Any error (timeout, syntax, runtime) = fail closed
             return false;
@@ -161,41 +189,16 @@ export class SandboxedExecutor {
     }
 
     /**
-     * Creates a minimal sandbox for custom code execution.
-     * Only provides safe, read-only access to basic JavaScript features.
+     * Creates the context custom code runs in: a fresh context with its own
+     * built-ins, since host built-ins would hand out the host `Function`.
+     * Code generation from strings is disabled, so that the context's own
+     * `Function` and `eval` cannot compile code either.
      */
-    private createSandbox(): Record<string, unknown> {
-        return Object.freeze({
-            // The node being checked (set dynamically)
-            node: null,
-
-            // Safe built-ins (frozen)
-            Boolean,
-            Number,
-            String,
-            Array,
-            Object,
-            RegExp,
-
-            // Safe JSON access
-            JSON: Object.freeze({
-                parse: JSON.parse,
-                stringify: JSON.stringify,
-            }),
-
-            // Safe Math access
-            Math: Object.freeze(Math),
-
-            // Primitives
-            true: true,
-            false: false,
-            undefined,
-            null: null,
-            NaN,
-            Infinity,
-
-            // No console, no require, no import, no process, no global
-        });
+    private createSandbox(): VMContext {
+        const context = createContext({}, { codeGeneration: { strings: false, wasm: false } });
+        // No console, no require, no import, no process, no global
+        new Script('delete globalThis.console;').runInContext(context);
+        return context;
     }
 }
 
@@ -0,0 +1,147 @@
+// packages/core/src/engine/Selector.ts
+
+import type { ConfigNode } from '../types/ConfigNode';
+
+/**
+ * Relationship between two compound selector steps.
+ * - '>'  the left step matches the parent of the right step
+ * - '>>' the left step matches any ancestor of the right step
+ */
+export type SelectorCombinator = '>' | '>>';
+
+/**
+ * One step of a parsed selector.
+ */
+export interface SelectorStep {
+  /** Lowercased prefix matched against the node ID */
+  prefix: string;
+  /** Combinator linking the previous step to this one (absent on the first step) */
+  combinator?: SelectorCombinator;
+}
+
+/**
+ * Looks up the parent of a node, or undefined for top-level nodes.
+ */
+export type ParentLookup = (node: ConfigNode) => ConfigNode | undefined;
+
+/**
+ * Combinators must be surrounded by whitespace, so IDs containing '>'
+ * (e.g. banner delimiters) can still be matched by plain prefixes.
+ */
+const COMBINATOR_PATTERN = /\s+(>>?)\s+/;
+
+/**
+ * Checks whether a selector is empty or whitespace-only. Such a selector is
+ * a global match: the rule runs on every node.
+ */
+export function isGlobalSelector(selector: string): boolean {
+  return selector.trim() === '';
+}
+
+/**
+ * Parses a selector into its steps.
+ *
+ * A plain selector ("router bgp") is a single prefix step. Compound selectors
+ * chain prefixes with combinators, e.g. "interface > ip address" (direct child)
+ * or "router bgp >> neighbor" (any descendant). The last step is the subject:
+ * the node the rule is run against. A plain selector is kept as is, so it
+ * matches exactly like a simple prefix.
+ *
+ * @param selector The selector string
+ * @returns The selector steps, or an empty array if a step is empty
+ */
+export function parseSelector(selector: string): SelectorStep[] {
+  const parts = selector.split(COMBINATOR_PATTERN);
+  const steps: SelectorStep[] = [];
+
+  for (let i = 0; i < parts.length; i += 2) {
+    const prefix = (parts[i] ?? '').toLowerCase();
+    if (!prefix.trim()) {
+      return [];
+    }
+    const combinator = parts[i - 1] as SelectorCombinator | undefined;
+    steps.push(combinator ? { prefix, combinator } : { prefix });
+  }
+
+  return steps;
+}
+
+/**
+ * Checks whether a node matches parsed selector steps.
+ * Matching is case-insensitive and walks ancestors from the subject upwards.
+ *
+ * @param node The candidate subject node
+ * @param steps Parsed selector steps (see parseSelector)
+ * @param getParent Parent lookup used for combinators
+ * @returns True if the node matches
+ */
+export function matchesSelectorSteps(
+  node: ConfigNode,
+  steps: SelectorStep[],
+  getParent: ParentLookup
+): boolean {
+  return matchStep(node, steps, steps.length - 1, getParent);
+}
+
+function matchStep(
+  node: ConfigNode,
+  steps: SelectorStep[],
+  index: number,
+  getParent: ParentLookup
+): boolean {
+  const step = steps[index];
+  if (!step || !node.id.toLowerCase().startsWith(step.prefix)) {
+    return false;
+  }
+  if (index === 0) {
+    return true;
+  }
+
+  if (step.combinator === '>') {
+    const parent = getParent(node);
+    return parent !== undefined && matchStep(parent, steps, index - 1, getParent);
+  }
+
+  for (let ancestor = getParent(node); ancestor; ancestor = getParent(ancestor)) {
+    if (matchStep(ancestor, steps, index - 1, getParent)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Creates an O(1) parent lookup for an AST.
+ * The parent map is built on first use. Virtual roots are transparent:
+ * commands wrapped in a virtual root are treated as top-level nodes.
+ *
+ * @param nodes The root nodes of the AST
+ * @returns A function returning the parent of a node
+ */
+export function createParentLookup(nodes: ConfigNode[]): ParentLookup {
+  let parents: WeakMap<ConfigNode, ConfigNode> | undefined;
+  return (node) => {
+    parents ??= buildParentMap(nodes);
+    return parents.get(node);
+  };
+}
+
+function buildParentMap(nodes: ConfigNode[]): WeakMap<ConfigNode, ConfigNode> {
+  const parents = new WeakMap<ConfigNode, ConfigNode>();
+
+  const index = (children: ConfigNode[], parent: ConfigNode | undefined): void => {
+    for (const child of children) {
+      if (child.type === 'virtual_root') {
+        index(child.children, parent);
+        continue;
+      }
+      if (parent) {
+        parents.set(child, parent);
+      }
+      index(child.children, child);
+    }
+  };
+
+  index(nodes, undefined);
+  return parents;
+}
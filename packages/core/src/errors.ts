@@ -47,6 +47,17 @@ export class SentriflowConfigError extends SentriflowError {
   }
 }
 
+/**
+ * Error thrown when a rule pack cannot be loaded and packs are required
+ * to load (strict pack loading).
+ */
+export class SentriflowPackError extends SentriflowError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super('PACK_ERROR', message, details);
+    this.name = 'SentriflowPackError';
+  }
+}
+
 /**
  * Error thrown when path validation fails.
  */
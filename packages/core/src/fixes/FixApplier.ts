@@ -0,0 +1,258 @@
+// packages/core/src/fixes/FixApplier.ts
+
+import type { RuleFix, RuleFixEdit } from '../types/IRule';
+
+/**
+ * A normalized edit: replace original lines [startLine, endLine) with `lines`.
+ * An insert is an empty range (startLine === endLine).
+ */
+export interface FixLineEdit {
+  /** First original line affected (0-based) */
+  startLine: number;
+  /** One past the last original line affected (exclusive) */
+  endLine: number;
+  /** Replacement lines */
+  lines: string[];
+}
+
+/**
+ * Result of applying fixes to a configuration.
+ */
+export interface ApplyFixesResult {
+  /** The patched configuration text */
+  content: string;
+  /** Fixes that were applied, in application order */
+  applied: RuleFix[];
+  /** Fixes that were skipped because they overlap an earlier fix or are out of range */
+  skipped: RuleFix[];
+  /** The normalized edits that were applied, sorted by position */
+  edits: FixLineEdit[];
+}
+
+/**
+ * Converts a RuleFixEdit into a normalized line edit.
+ */
+function normalizeEdit(edit: RuleFixEdit): FixLineEdit {
+  switch (edit.type) {
+    case 'insert':
+      return {
+        startLine: edit.afterLine + 1,
+        endLine: edit.afterLine + 1,
+        lines: edit.lines,
+      };
+    case 'replace':
+      return {
+        startLine: edit.startLine,
+        endLine: edit.endLine + 1,
+        lines: edit.lines,
+      };
+    case 'delete':
+      return { startLine: edit.startLine, endLine: edit.endLine + 1, lines: [] };
+  }
+}
+
+/**
+ * Converts a fix into normalized line edits, sorted by position.
+ * Useful for editors that apply fixes as line-range text edits.
+ *
+ * @param fix The fix to convert
+ * @returns Normalized edits in ascending line order
+ */
+export function getFixLineEdits(fix: RuleFix): FixLineEdit[] {
+  return fix.edits
+    .map(normalizeEdit)
+    .sort((a, b) => a.startLine - b.startLine);
+}
+
+/**
+ * Checks whether two normalized edits touch the same original lines.
+ * Two inserts at the same position do not conflict.
+ */
+function editsOverlap(a: FixLineEdit, b: FixLineEdit): boolean {
+  const aEmpty = a.startLine === a.endLine;
+  const bEmpty = b.startLine === b.endLine;
+  if (aEmpty && bEmpty) return false;
+  if (aEmpty) return a.startLine > b.startLine && a.startLine < b.endLine;
+  if (bEmpty) return b.startLine > a.startLine && b.startLine < a.endLine;
+  return a.startLine < b.endLine && b.startLine < a.endLine;
+}
+
+/**
+ * Serializes an edit for duplicate detection.
+ */
+function editKey(edit: FixLineEdit): string {
+  return `${edit.startLine}:${edit.endLine}:${edit.lines.join('\n')}`;
+}
+
+/**
+ * Applies fixes to configuration text.
+ *
+ * Fixes are accepted in order. A fix is skipped when any of its edits overlaps
+ * an edit of an already accepted fix, or refers to lines outside the file.
+ * Fixes whose edits exactly duplicate an accepted fix (e.g. the same rule
+ * reported twice) are treated as applied without editing the text again.
+ *
+ * @param content The original configuration text
+ * @param fixes Fixes to apply, in priority order
+ * @returns The patched text along with applied/skipped fixes
+ */
+export function applyFixes(content: string, fixes: RuleFix[]): ApplyFixesResult {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const lines = content.split(/\r?\n/);
+
+  const accepted: Array<FixLineEdit & { order: number }> = [];
+  const acceptedKeys = new Set<string>();
+  const applied: RuleFix[] = [];
+  const skipped: RuleFix[] = [];
+
+  for (const fix of fixes) {
+    const edits = getFixLineEdits(fix);
+    const keys = edits.map(editKey);
+
+    if (edits.length > 0 && keys.every((key) => acceptedKeys.has(key))) {
+      applied.push(fix);
+      continue;
+    }
+
+    const outOfRange = edits.some(
+      (e) => e.startLine < 0 || e.endLine > lines.length || e.startLine > e.endLine
+    );
+    const selfOverlap = edits.some((e, i) =>
+      edits.some((other, j) => j > i && editsOverlap(e, other))
+    );
+    const conflicts = edits.some((e) =>
+      accepted.some((other) => editsOverlap(e, other))
+    );
+
+    if (outOfRange || selfOverlap || conflicts) {
+      skipped.push(fix);
+      continue;
+    }
+
+    for (let i = 0; i < edits.length; i++) {
+      accepted.push({ ...edits[i]!, order: accepted.length });
+      acceptedKeys.add(keys[i]!);
+    }
+    applied.push(fix);
+  }
+
+  const sorted = accepted.sort(
+    (a, b) => a.startLine - b.startLine || a.order - b.order
+  );
+
+  const output: string[] = [];
+  let cursor = 0;
+  for (const edit of sorted) {
+    output.push(...lines.slice(cursor, edit.startLine));
+    output.push(...edit.lines);
+    cursor = Math.max(cursor, edit.endLine);
+  }
+  output.push(...lines.slice(cursor));
+
+  return {
+    content: output.join(eol),
+    applied,
+    skipped,
+    edits: sorted.map(({ startLine, endLine, lines: newLines }) => ({
+      startLine,
+      endLine,
+      lines: newLines,
+    })),
+  };
+}
+
+/** Number of unchanged context lines around each diff hunk */
+const DIFF_CONTEXT_LINES = 3;
+
+/**
+ * Formats a hunk range for a unified diff header.
+ */
+function formatRange(start: number, count: number): string {
+  // Unified diff uses the line *before* the hunk when the range is empty
+  const displayStart = count === 0 ? start : start + 1;
+  return count === 1 ? `${displayStart}` : `${displayStart},${count}`;
+}
+
+/**
+ * Produces a unified diff for edits returned by applyFixes().
+ * The diff is generated directly from the edits, so it is exact and linear
+ * in the size of the file.
+ *
+ * @param original The original configuration text
+ * @param edits Sorted, non-overlapping edits (ApplyFixesResult.edits)
+ * @param fileName File name to use in the diff headers
+ * @returns The unified diff, or an empty string when there are no edits
+ */
+export function formatUnifiedDiff(
+  original: string,
+  edits: FixLineEdit[],
+  fileName: string
+): string {
+  if (edits.length === 0) return '';
+
+  const lines = original.split(/\r?\n/);
+  // A trailing newline produces an empty final element that is not a real line
+  if (lines.length > 0 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+
+  // Group edits whose context windows touch into the same hunk
+  const groups: FixLineEdit[][] = [];
+  for (const edit of edits) {
+    const current = groups.at(-1);
+    const previous = current?.at(-1);
+    if (
+      current &&
+      previous &&
+      edit.startLine - previous.endLine <= DIFF_CONTEXT_LINES * 2
+    ) {
+      current.push(edit);
+    } else {
+      groups.push([edit]);
+    }
+  }
+
+  const out: string[] = [`--- a/${fileName}`, `+++ b/${fileName}`];
+  let delta = 0;
+
+  for (const group of groups) {
+    const first = group[0]!;
+    const last = group.at(-1)!;
+    const oldStart = Math.max(0, first.startLine - DIFF_CONTEXT_LINES);
+    const oldEnd = Math.min(lines.length, last.endLine + DIFF_CONTEXT_LINES);
+
+    const body: string[] = [];
+    let cursor = oldStart;
+    let newCount = 0;
+    let groupDelta = 0;
+
+    for (const edit of group) {
+      for (; cursor < edit.startLine; cursor++) {
+        body.push(` ${lines[cursor] ?? ''}`);
+        newCount++;
+      }
+      for (let i = edit.startLine; i < edit.endLine; i++) {
+        body.push(`-${lines[i] ?? ''}`);
+      }
+      for (const added of edit.lines) {
+        body.push(`+${added}`);
+        newCount++;
+      }
+      groupDelta += edit.lines.length - (edit.endLine - edit.startLine);
+      cursor = Math.max(cursor, edit.endLine);
+    }
+    for (; cursor < oldEnd; cursor++) {
+      body.push(` ${lines[cursor] ?? ''}`);
+      newCount++;
+    }
+
+    const oldCount = oldEnd - oldStart;
+    out.push(
+      `@@ -${formatRange(oldStart, oldCount)} +${formatRange(oldStart + delta, newCount)} @@`
+    );
+    out.push(...body);
+    delta += groupDelta;
+  }
+
+  return `${out.join('\n')}\n`;
+}
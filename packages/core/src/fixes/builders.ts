@@ -0,0 +1,124 @@
+// packages/core/src/fixes/builders.ts
+
+import type { ConfigNode } from '../types/ConfigNode';
+import type { RuleFix } from '../types/IRule';
+
+/**
+ * Returns the leading whitespace of a raw config line.
+ */
+function leadingWhitespace(rawText: string): string {
+  return rawText.match(/^[ \t]*/)?.[0] ?? '';
+}
+
+/**
+ * Returns the last line covered by a node, including all of its descendants.
+ * Section nodes only record their own line in `loc`, so the children have
+ * to be walked to find where the block actually ends.
+ *
+ * @param node The node to measure
+ * @returns The 0-based line number of the last descendant (or the node itself)
+ */
+export function getLastDescendantLine(node: ConfigNode): number {
+  let last = node.loc.endLine;
+  for (const child of node.children) {
+    last = Math.max(last, getLastDescendantLine(child));
+  }
+  return last;
+}
+
+/**
+ * Returns the indentation to use for a new child line of a section.
+ * Re-uses the indentation of the first existing child when there is one,
+ * otherwise indents one space deeper than the section itself.
+ *
+ * @param node The parent section node
+ * @returns Indentation prefix for a new child line
+ */
+export function getChildIndent(node: ConfigNode): string {
+  const firstChild = node.children[0];
+  if (firstChild && firstChild.type !== 'virtual_root') {
+    return leadingWhitespace(firstChild.rawText);
+  }
+  return `${leadingWhitespace(node.rawText)} `;
+}
+
+/**
+ * Builds a fix that appends child command(s) to the end of a section.
+ * Lines are given without indentation; the section's child indentation is applied.
+ *
+ * @param node The section node to add children to
+ * @param lines Child command text (unindented)
+ * @param description Human-readable description of the fix
+ * @returns A RuleFix inserting the lines after the section's last descendant
+ */
+export function insertChildFix(
+  node: ConfigNode,
+  lines: string[],
+  description: string
+): RuleFix {
+  const indent = getChildIndent(node);
+  return {
+    description,
+    nodeId: node.id,
+    loc: node.loc,
+    edits: [
+      {
+        type: 'insert',
+        afterLine: getLastDescendantLine(node),
+        lines: lines.map((line) => `${indent}${line}`),
+      },
+    ],
+  };
+}
+
+/**
+ * Builds a fix that replaces a single command line, keeping its indentation.
+ * Lines are given without indentation.
+ *
+ * @param node The command node to replace
+ * @param lines Replacement text (unindented)
+ * @param description Human-readable description of the fix
+ * @returns A RuleFix replacing the node's own line(s)
+ */
+export function replaceNodeFix(
+  node: ConfigNode,
+  lines: string[],
+  description: string
+): RuleFix {
+  const indent = leadingWhitespace(node.rawText);
+  return {
+    description,
+    nodeId: node.id,
+    loc: node.loc,
+    edits: [
+      {
+        type: 'replace',
+        startLine: node.loc.startLine,
+        endLine: node.loc.endLine,
+        lines: lines.map((line) => `${indent}${line}`),
+      },
+    ],
+  };
+}
+
+/**
+ * Builds a fix that removes a node together with all of its descendants.
+ *
+ * @param node The node to delete
+ * @param description Human-readable description of the fix
+ * @returns A RuleFix deleting the node's lines
+ */
+export function deleteNodeFix(node: ConfigNode, description: string): RuleFix {
+  return {
+    description,
+    nodeId: node.id,
+    loc: node.loc,
+    edits: [
+      {
+        type: 'delete',
+        startLine: node.loc.startLine,
+        endLine: getLastDescendantLine(node),
+      },
+    ],
+  };
+}
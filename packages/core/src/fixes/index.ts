@@ -0,0 +1,17 @@
+// packages/core/src/fixes/index.ts
+
+export {
+  applyFixes,
+  getFixLineEdits,
+  formatUnifiedDiff,
+} from './FixApplier';
+
+export type { FixLineEdit, ApplyFixesResult } from './FixApplier';
+
+export {
+  insertChildFix,
+  replaceNodeFix,
+  deleteNodeFix,
+  getChildIndent,
+  getLastDescendantLine,
+} from './builders';
@@ -0,0 +1,214 @@
+// packages/core/src/golden-config/compare.ts
+// Compares configuration sections with golden config templates
+
+import type { ConfigNode } from '../types/ConfigNode';
+import type { VendorSchema } from '../parser/VendorSchema';
+import { goldenBody } from './template';
+import type { GoldenDifference, GoldenTemplate, GoldenTemplateLine } from './types';
+
+/** Values of the variables bound so far */
+type Bindings = ReadonlyMap<string, string>;
+
+/** Value pattern of undeclared variables: one word */
+const DEFAULT_VARIABLE_PATTERN = '\\S+';
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const normalize = (id: string): string => id.trim().split(/\s+/).join(' ');
+
+/**
+ * Words that identify what a line configures, for pairing a configured line
+ * with the template line it differs from: the words before the first unbound
+ * variable, or all words but the last one. A leading 'no' is ignored, so
+ * 'shutdown' pairs with 'no shutdown'.
+ */
+function keyWords(words: string[]): string[] {
+  return words[0]?.toLowerCase() === 'no' ? words.slice(1) : words;
+}
+
+function lineKey(line: GoldenTemplateLine, bindings: Bindings): string[] {
+  let literal = '';
+  let complete = true;
+  for (const part of line.parts) {
+    if (typeof part === 'string') {
+      literal += part;
+      continue;
+    }
+    const value = bindings.get(part.variable);
+    if (value === undefined) {
+      complete = false;
+      break;
+    }
+    literal += value;
+  }
+
+  const words = keyWords(literal.split(' ').filter((word) => word !== ''));
+  if (complete) return words.length > 1 ? words.slice(0, -1) : words;
+  // Drop a word the first unbound variable is part of ('Vlan{{id}}')
+  return literal.endsWith(' ') ? words : words.slice(0, -1);
+}
+
+/**
+ * Render a template line with the values of the bound variables.
+ */
+function renderLine(line: GoldenTemplateLine, bindings: Bindings): string {
+  return line.parts
+    .map((part) => (typeof part === 'string' ? part : (bindings.get(part.variable) ?? `{{${part.variable}}}`)))
+    .join('');
+}
+
+/**
+ * Match a configured line with a template line.
+ * @returns The bindings with the values read from the line, or undefined
+ */
+function matchLine(
+  line: GoldenTemplateLine,
+  node: ConfigNode,
+  bindings: Bindings,
+  template: GoldenTemplate
+): Bindings | undefined {
+  const groups = new Map<string, string>();
+  let source = '';
+  for (const part of line.parts) {
+    if (typeof part === 'string') {
+      source += escapeRegExp(part);
+      continue;
+    }
+    const value = bindings.get(part.variable);
+    if (value !== undefined) {
+      source += escapeRegExp(value);
+      continue;
+    }
+    const group = groups.get(part.variable);
+    if (group !== undefined) {
+      source += `\\k<${group}>`;
+      continue;
+    }
+    const name = `v${groups.size}`;
+    groups.set(part.variable, name);
+    const pattern = template.variables.get(part.variable)?.source ?? DEFAULT_VARIABLE_PATTERN;
+    source += `(?<${name}>${pattern})`;
+  }
+
+  const match = new RegExp(`^(?:${source})$`).exec(normalize(node.id));
+  if (!match) return undefined;
+  if (groups.size === 0) return bindings;
+
+  const bound = new Map(bindings);
+  for (const [variable, group] of groups) {
+    bound.set(variable, match.groups?.[group] ?? '');
+  }
+  return bound;
+}
+
+/**
+ * Compare configured lines with template lines, in any order.
+ */
+function compareLines(
+  lines: GoldenTemplateLine[],
+  section: ConfigNode,
+  nodes: ConfigNode[],
+  bindings: Bindings,
+  path: string[],
+  template: GoldenTemplate,
+  vendor: VendorSchema,
+  differences: GoldenDifference[]
+): void {
+  const unmatched = new Set(nodes);
+  const missing: GoldenTemplateLine[] = [];
+  let scope = bindings;
+
+  for (const line of lines) {
+    const repeated = line.quantifier === 'any' || line.quantifier === 'some';
+    let count = 0;
+    for (const node of nodes) {
+      if (!unmatched.has(node)) continue;
+      const bound = matchLine(line, node, scope, template);
+      if (!bound) continue;
+
+      unmatched.delete(node);
+      count++;
+      compareLines(
+        line.children,
+        node,
+        goldenBody(node.children, vendor),
+        bound,
+        [...path, normalize(node.id)],
+        template,
+        vendor,
+        differences
+      );
+      // Values read from repeated lines are not shared with other lines
+      if (!repeated) {
+        scope = bound;
+        break;
+      }
+    }
+    if (count === 0 && (line.quantifier === 'one' || line.quantifier === 'some')) {
+      missing.push(line);
+    }
+  }
+
+  for (const line of missing) {
+    const key = lineKey(line, scope).join(' ');
+    const node = key === ''
+      ? undefined
+      : nodes.find((candidate) => {
+        if (!unmatched.has(candidate)) return false;
+        const words = keyWords(normalize(candidate.id).split(' ')).join(' ');
+        return words === key || words.startsWith(`${key} `);
+      });
+
+    if (node) {
+      unmatched.delete(node);
+      differences.push({ type: 'different', expected: renderLine(line, scope), actual: node, path, section });
+    } else {
+      differences.push({ type: 'missing', expected: renderLine(line, scope), path, section });
+    }
+  }
+
+  if (!template.allowExtra) {
+    for (const node of nodes) {
+      if (unmatched.has(node)) {
+        differences.push({ type: 'extra', actual: node, path, section });
+      }
+    }
+  }
+}
+
+/**
+ * Compare a configuration section with a golden config template: the lines
+ * of the template that are missing, configured lines that are not in the
+ * template, and lines configured with other values.
+ * @param node The section (e.g., 'interface GigabitEthernet0/1')
+ * @param template The template, parsed for the vendor of the configuration
+ * @param vendor The vendor schema of the configuration
+ * @returns The differences, empty when the section conforms
+ */
+export function compareWithGoldenTemplate(
+  node: ConfigNode,
+  template: GoldenTemplate,
+  vendor: VendorSchema
+): GoldenDifference[] {
+  const differences: GoldenDifference[] = [];
+  compareLines(template.lines, node, goldenBody(node.children, vendor), new Map(), [], template, vendor, differences);
+  return differences;
+}
+
+/**
+ * Format a difference for a rule message.
+ * @param difference The difference
+ * @returns e.g., 'missing "spanning-tree portfast"',
+ * 'in "address-family ipv4": "neighbor 10.0.0.1 activate" is not in the template'
+ */
+export function formatGoldenDifference(difference: GoldenDifference): string {
+  const actual = difference.actual ? normalize(difference.actual.id) : '';
+  const text = difference.type === 'missing'
+    ? `missing "${difference.expected}"`
+    : difference.type === 'extra'
+      ? `"${actual}" is not in the template`
+      : `"${actual}" instead of "${difference.expected}"`;
+  return difference.path.length > 0 ? `in "${difference.path.join(' > ')}": ${text}` : text;
+}
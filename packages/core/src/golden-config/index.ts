@@ -0,0 +1,14 @@
+// packages/core/src/golden-config/index.ts
+
+export type {
+  GoldenConfig,
+  GoldenConfigVariable,
+  GoldenDifference,
+  GoldenDifferenceType,
+  GoldenLineQuantifier,
+  GoldenTemplate,
+  GoldenTemplateLine,
+} from './types';
+
+export { findGoldenTemplateErrors, getGoldenTemplateVariables, parseGoldenTemplate } from './template';
+export { compareWithGoldenTemplate, formatGoldenDifference } from './compare';
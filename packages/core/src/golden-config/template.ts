@@ -0,0 +1,153 @@
+// packages/core/src/golden-config/template.ts
+// Parses golden config templates with the vendor schema of the configuration
+
+import type { ConfigNode } from '../types/ConfigNode';
+import type { VendorSchema } from '../parser/VendorSchema';
+import { SchemaAwareParser } from '../parser/SchemaAwareParser';
+import { SentriflowConfigError } from '../errors';
+import type { GoldenConfig, GoldenLineQuantifier, GoldenTemplate, GoldenTemplateLine } from './types';
+
+/** A `{{name}}` variable */
+const VARIABLE = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+
+/** Opening braces that do not start a valid variable */
+const MALFORMED_VARIABLE = /\{\{(?!\s*[A-Za-z_][\w-]*\s*\}\})/;
+
+/** Quantifier marker at the start of a line */
+const MARKER = /^(\s*)([?*+])\s+/;
+
+const QUANTIFIERS: Readonly<Record<string, GoldenLineQuantifier>> = {
+  '?': 'optional',
+  '*': 'any',
+  '+': 'some',
+};
+
+/** Word that stands for a variable while the vendor parser reads the template */
+const placeholder = (index: number): string => `__golden_var_${index}__`;
+const PLACEHOLDER = /__golden_var_(\d+)__/g;
+
+/**
+ * Split a template into lines.
+ */
+const templateLines = (template: string | string[]): string[] =>
+  (Array.isArray(template) ? template : [template]).flatMap((text) => text.split(/\r?\n/));
+
+/**
+ * Check a template for errors that do not depend on the vendor: no lines,
+ * or malformed variables.
+ * @param template The template of a golden config
+ * @returns Error messages, empty when the template is valid
+ */
+export function findGoldenTemplateErrors(template: string | string[]): string[] {
+  const errors: string[] = [];
+  const lines = templateLines(template);
+
+  if (lines.every((line) => line.replace(MARKER, '').trim() === '')) {
+    errors.push('Template has no lines');
+  }
+
+  lines.forEach((line, index) => {
+    if (MALFORMED_VARIABLE.test(line)) {
+      errors.push(`Line ${index + 1}: malformed variable, expected {{name}}`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Names of the variables used in a template, in order of first use.
+ * @param template The template of a golden config
+ * @returns The variable names
+ */
+export function getGoldenTemplateVariables(template: string | string[]): string[] {
+  const names = new Set<string>();
+  for (const line of templateLines(template)) {
+    for (const match of line.matchAll(VARIABLE)) {
+      names.add(match[1] ?? '');
+    }
+  }
+  return [...names];
+}
+
+/**
+ * Parse a golden config for a vendor. The template is read by the vendor's
+ * parser, so sections nest and lines are normalized exactly like the
+ * configuration they are compared with.
+ * @param golden The golden config
+ * @param vendor The vendor schema of the configuration
+ * @returns The parsed template
+ * @throws SentriflowConfigError if the golden config is invalid
+ */
+export function parseGoldenTemplate(golden: GoldenConfig, vendor: VendorSchema): GoldenTemplate {
+  const errors = findGoldenTemplateErrors(golden.template);
+  if (errors.length > 0) {
+    throw new SentriflowConfigError(`Invalid golden config template: ${errors.join('; ')}`);
+  }
+
+  const variables = new Map<string, RegExp>();
+  for (const [name, variable] of Object.entries(golden.variables ?? {})) {
+    try {
+      variables.set(name, new RegExp(variable.pattern));
+    } catch {
+      throw new SentriflowConfigError(`Invalid pattern of golden config variable "${name}"`);
+    }
+  }
+
+  const quantifiers = new Map<number, GoldenLineQuantifier>();
+  const names: string[] = [];
+  const text = templateLines(golden.template)
+    .map((line, index) => {
+      const marker = MARKER.exec(line);
+      if (marker) {
+        quantifiers.set(index, QUANTIFIERS[marker[2] ?? ''] ?? 'one');
+        line = (marker[1] ?? '') + line.slice(marker[0].length);
+      }
+      return line.replace(VARIABLE, (_match, name: string) => placeholder(names.push(name) - 1));
+    })
+    .join('\n');
+
+  const toLine = (node: ConfigNode): GoldenTemplateLine => {
+    const normalized = node.id.trim().split(/\s+/).join(' ');
+    const parts: GoldenTemplateLine['parts'] = [];
+    let last = 0;
+    for (const match of normalized.matchAll(PLACEHOLDER)) {
+      if (match.index > last) parts.push(normalized.slice(last, match.index));
+      parts.push({ variable: names[Number(match[1])] ?? '' });
+      last = match.index + match[0].length;
+    }
+    if (last < normalized.length) parts.push(normalized.slice(last));
+
+    return {
+      text: normalized.replace(PLACEHOLDER, (_match, index: string) => `{{${names[Number(index)] ?? ''}}}`),
+      parts,
+      quantifier: quantifiers.get(node.loc.startLine) ?? 'one',
+      children: goldenBody(node.children, vendor).map(toLine),
+    };
+  };
+
+  const ast = new SchemaAwareParser({ vendor, source: 'snippet' }).parse(text);
+  return {
+    lines: goldenBody(ast, vendor).map(toLine),
+    variables,
+    allowExtra: golden.allowExtra ?? false,
+  };
+}
+
+/**
+ * The lines of a section body that a template is compared with: comments
+ * and block terminators ('end', 'next', '}') are left out, and orphan
+ * commands are taken out of their virtual roots.
+ * @param nodes Child nodes of a section, or top-level nodes
+ * @param vendor The vendor schema
+ * @returns The nodes to compare
+ */
+export function goldenBody(nodes: ConfigNode[], vendor: VendorSchema): ConfigNode[] {
+  return nodes.flatMap((node) => {
+    if (node.type === 'virtual_root') return goldenBody(node.children, vendor);
+    if (node.type === 'comment') return [];
+    const id = node.id.trim();
+    if (id === '' || vendor.blockEnders.some((ender) => ender.test(id))) return [];
+    return [node];
+  });
+}
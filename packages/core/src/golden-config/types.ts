@@ -0,0 +1,114 @@
+// packages/core/src/golden-config/types.ts
+
+import type { ConfigNode } from '../types/ConfigNode';
+
+/**
+ * A template variable. Its value is one word by default; the pattern allows
+ * other values (e.g., '\\d+' for a VLAN, '.+' for a description).
+ */
+export interface GoldenConfigVariable {
+  /** Regular expression the value must match entirely */
+  pattern: string;
+}
+
+/**
+ * A golden configuration: the lines a section must have, as a parametrized
+ * snippet in the syntax of the vendor.
+ *
+ * Lines are compared in any order. `{{name}}` is a variable: the same
+ * variable has the same value everywhere in a section. A line can start with
+ * a marker, which applies to the line and the lines nested below it:
+ * - `? ` optional: at most once
+ * - `* ` repeated: any number of times
+ * - `+ ` repeated: at least once
+ *
+ * @example
+ * ```json
+ * {
+ *   "template": [
+ *     "switchport mode access",
+ *     "switchport access vlan {{vlan}}",
+ *     "? description {{text}}",
+ *     "spanning-tree portfast"
+ *   ],
+ *   "variables": { "vlan": { "pattern": "\\d+" }, "text": { "pattern": ".+" } }
+ * }
+ * ```
+ */
+export interface GoldenConfig {
+  /** Lines of the section body, as one string or one string per line */
+  template: string | string[];
+
+  /** Value patterns of the variables; undeclared variables match one word */
+  variables?: Record<string, GoldenConfigVariable>;
+
+  /** Accept lines that are not in the template (default: false, they are reported) */
+  allowExtra?: boolean;
+}
+
+/**
+ * How many times a template line must appear.
+ * - 'one': exactly once
+ * - 'optional': at most once
+ * - 'any': any number of times
+ * - 'some': at least once
+ */
+export type GoldenLineQuantifier = 'one' | 'optional' | 'any' | 'some';
+
+/**
+ * A template line, parsed with the vendor schema of the configuration.
+ */
+export interface GoldenTemplateLine {
+  /** Line as written in the template, without marker (e.g., 'switchport access vlan {{vlan}}') */
+  text: string;
+
+  /** Literal text (whitespace collapsed) and variables of the line, in order */
+  parts: (string | { variable: string })[];
+
+  /** How many times the line must appear */
+  quantifier: GoldenLineQuantifier;
+
+  /** Lines nested below it */
+  children: GoldenTemplateLine[];
+}
+
+/**
+ * A template parsed for one vendor.
+ */
+export interface GoldenTemplate {
+  /** Top-level lines of the section body */
+  lines: GoldenTemplateLine[];
+
+  /** Value patterns of the declared variables */
+  variables: ReadonlyMap<string, RegExp>;
+
+  /** Whether lines that are not in the template are accepted */
+  allowExtra: boolean;
+}
+
+/**
+ * Kind of difference between a section and its template.
+ * - 'missing': a required line is not configured
+ * - 'extra': a configured line is not in the template
+ * - 'different': a configured line has other values than the template line
+ */
+export type GoldenDifferenceType = 'missing' | 'extra' | 'different';
+
+/**
+ * A difference between a section and its template.
+ */
+export interface GoldenDifference {
+  type: GoldenDifferenceType;
+
+  /** Expected line, with the values of bound variables ('missing', 'different') */
+  expected?: string;
+
+  /** Configured line ('extra', 'different') */
+  actual?: ConfigNode;
+
+  /** Lines between the checked section and the difference (e.g., ['address-family ipv4']) */
+  path: string[];
+
+  /** The section the line is in, or is missing from */
+  section: ConfigNode;
+}
@@ -0,0 +1,46 @@
+// packages/rule-helpers/src/common/credentials.ts
+// Helpers for rules built on the credentials of a configuration (Context.getCredentials)
+
+import type { ConfigNode } from '../../types/ConfigNode';
+import type { Context } from '../../types/IRule';
+import type { Credential, CredentialAlgorithm, CredentialKind } from '../../credentials/types';
+
+/** Display names of credential kinds, for rule messages */
+const KIND_LABELS: Readonly<Record<CredentialKind, string>> = {
+  user: 'password',
+  enable: 'enable password',
+  password: 'password',
+  'snmp-community': 'SNMP community',
+  'shared-key': 'shared key',
+};
+
+/** Display names of reversible encodings, for rule messages */
+const ENCODING_LABELS: Partial<Record<CredentialAlgorithm, string>> = {
+  'cisco-type7': 'Cisco type 7',
+  'junos-9': 'Junos $9$',
+};
+
+/**
+ * Find the credentials configured on a node. Empty when the run has no
+ * credentials (unknown vendor).
+ * @param node The configuration node being checked
+ * @param context The rule context
+ * @returns The credentials, in line order
+ */
+export const findCredentials = (node: ConfigNode, context: Context): Credential[] =>
+  context.getCredentials?.().filter(
+    (credential) => credential.source.nodeId === node.id && credential.source.loc.startLine === node.loc.startLine
+  ) ?? [];
+
+/**
+ * Format a credential for a rule message, without its value.
+ * @param credential The credential
+ * @returns e.g., 'password of user "admin"', 'SNMP community (Cisco type 7)'
+ */
+export const formatCredential = (credential: Credential): string => {
+  const label = credential.user !== undefined
+    ? `${KIND_LABELS[credential.kind]} of user "${credential.user}"`
+    : KIND_LABELS[credential.kind];
+  const encoding = ENCODING_LABELS[credential.algorithm];
+  return encoding ? `${label} (${encoding})` : label;
+};
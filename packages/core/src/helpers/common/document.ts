@@ -0,0 +1,54 @@
+// packages/rule-helpers/src/common/document.ts
+// Helpers for required-presence checks, mostly used by document rules (IRule.scope)
+
+import type { ConfigNode } from '../../types/ConfigNode';
+import { createParentLookup, matchesSelectorSteps, parseSelector } from '../../engine/Selector';
+
+/**
+ * Find the nodes below a node that match a selector, at any depth, in line
+ * order. Compound selectors ('interface > ip address') are matched within
+ * the node. On the document node of a document rule, this searches the
+ * whole configuration.
+ * @param node The node to search (not included)
+ * @param selector The selector, as in IRule.selector
+ * @returns The matching nodes, empty if none match or the selector is empty
+ */
+export const findNodes = (node: ConfigNode, selector: string): ConfigNode[] => {
+  const steps = parseSelector(selector);
+  if (!node?.children || steps.length === 0) return [];
+
+  const getParent = createParentLookup(node.children);
+  const matches: ConfigNode[] = [];
+  const visit = (children: ConfigNode[]): void => {
+    for (const child of children) {
+      if (child.type !== 'virtual_root' && matchesSelectorSteps(child, steps, getParent)) {
+        matches.push(child);
+      }
+      visit(child.children);
+    }
+  };
+  visit(node.children);
+  return matches;
+};
+
+/**
+ * Find the line to report a missing element at: the last node that starts
+ * with the same keyword (other 'service' commands for a missing 'service
+ * password-encryption', other 'ntp server' lines for too few servers), or
+ * else the first top-level line of a document node, or the node itself.
+ * @param node The node that was searched (a section, or the document node)
+ * @param selector The selector of the missing element
+ * @returns The node to anchor the finding at
+ */
+export const findAnchorNode = (node: ConfigNode, selector: string): ConfigNode => {
+  const subject = parseSelector(selector).at(-1)?.prefix.trim() ?? '';
+  const keyword = subject.split(/\s+/)[0] ?? '';
+  const related = keyword ? findNodes(node, `${keyword} `) : [];
+  const last = related.at(-1);
+  if (last) return last;
+
+  if (node.type === 'virtual_root') {
+    return node.children.find((child) => child.type !== 'virtual_root') ?? node.children[0] ?? node;
+  }
+  return node;
+};
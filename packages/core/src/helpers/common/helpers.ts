@@ -206,6 +206,7 @@ export const isShutdown = (node: ConfigNode): boolean => {
  * Find the parent section of a node in the AST.
  * Traverses the AST to locate the parent section containing the target node.
  * Useful for context-aware rules that need to check parent context.
+ * Inside a rule, prefer `context.getParent(node)`, which is O(1).
  *
  * @param ast The full AST (array of ConfigNode)
  * @param targetNode The node to find the parent for
@@ -3,3 +3,7 @@
 
 export * from './helpers';
 export * from './validation';
+export * from './references';
+export * from './policies';
+export * from './credentials';
+export * from './document';
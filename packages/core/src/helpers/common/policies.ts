@@ -0,0 +1,41 @@
+// packages/rule-helpers/src/common/policies.ts
+// Helpers for rules built on the policy analysis (Context.getPolicyAnalysis)
+
+import type { ConfigNode } from '../../types/ConfigNode';
+import type { Context } from '../../types/IRule';
+import type { PolicyFinding, PolicyFindingType, PolicyListKind, PolicyRule } from '../../policy/types';
+
+/** Display names of rule list kinds, for rule messages */
+const LIST_LABELS: Readonly<Record<PolicyListKind, string>> = {
+  acl: 'ACL',
+  'firewall-filter': 'firewall filter',
+  'firewall-policy': 'policy table',
+  'security-rulebase': 'rulebase',
+  ruleset: 'ruleset',
+};
+
+/**
+ * Find the policy analysis findings of one type about the rules read from a
+ * node. Empty when the run has no policy analysis (unknown vendor).
+ * @param node The configuration node being checked
+ * @param context The rule context
+ * @param type The finding type: 'shadowed', 'redundant' or 'overly-broad'
+ * @returns The findings, in rule order
+ */
+export const findPolicyFindings = (
+  node: ConfigNode,
+  context: Context,
+  type: PolicyFindingType
+): PolicyFinding[] =>
+  context.getPolicyAnalysis?.()
+    .getFindingsAtLine(node.loc.startLine)
+    .filter((finding) => finding.type === type && finding.rule.source.nodeId === node.id) ?? [];
+
+/**
+ * Format a rule of a rule list for a rule message.
+ * @param finding The finding whose list holds the rule
+ * @param rule The rule (defaults to the rule of the finding)
+ * @returns e.g., 'rule 20 of ACL "OUTSIDE-IN"'
+ */
+export const formatPolicyRule = (finding: PolicyFinding, rule: PolicyRule = finding.rule): string =>
+  `rule ${rule.name} of ${LIST_LABELS[finding.list.kind]} "${finding.list.name}"`;
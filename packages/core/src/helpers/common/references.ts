@@ -0,0 +1,98 @@
+// packages/rule-helpers/src/common/references.ts
+// Helpers for rules built on the cross-reference index (Context.getCrossReferences)
+
+import type { ConfigNode } from '../../types/ConfigNode';
+import type { Context } from '../../types/IRule';
+import type { XrefDefinition, XrefObjectKind, XrefReference, XrefSymbol } from '../../xref/types';
+
+/** Display names of object kinds, for rule messages */
+const KIND_LABELS: Readonly<Record<XrefObjectKind, string>> = {
+  acl: 'ACL',
+  'ipv6-acl': 'IPv6 ACL',
+  'prefix-list': 'prefix-list',
+  'ipv6-prefix-list': 'IPv6 prefix-list',
+  'route-map': 'route-map',
+  'community-list': 'community-list',
+  'as-path-list': 'AS-path list',
+  'class-map': 'class-map',
+  'policy-map': 'policy-map',
+  'key-chain': 'key chain',
+  'object-group': 'object-group',
+  'policy-statement': 'policy-statement',
+  'firewall-filter': 'firewall filter',
+  policer: 'policer',
+  address: 'address',
+  service: 'service',
+  application: 'application',
+  schedule: 'schedule',
+  'ip-pool': 'IP pool',
+  zone: 'zone',
+};
+
+/**
+ * Returns the symbols the cross-reference index read from a node.
+ */
+const symbolsOf = (node: ConfigNode, context: Context): Array<XrefDefinition | XrefReference> =>
+  context.getCrossReferences?.()
+    .getSymbolsAtLine(node.loc.startLine)
+    .filter((symbol) => symbol.source.nodeId === node.id) ?? [];
+
+/**
+ * Find the references a node makes to objects the configuration does not
+ * define. Empty when the run has no cross-reference index (unknown vendor).
+ * @param node The configuration node being checked
+ * @param context The rule context
+ * @param isPredefined Optional filter for objects built into the device,
+ *        which are valid without a definition
+ * @returns The dangling references, in the order they appear in the command
+ */
+export const findUndefinedReferences = (
+  node: ConfigNode,
+  context: Context,
+  isPredefined?: (symbol: XrefSymbol) => boolean
+): XrefReference[] => {
+  const index = context.getCrossReferences?.();
+  if (!index) {
+    return [];
+  }
+  return symbolsOf(node, context).filter(
+    (symbol): symbol is XrefReference =>
+      symbol.role === 'reference' &&
+      !index.getDefinition(symbol.kind, symbol.name) &&
+      !isPredefined?.(symbol)
+  );
+};
+
+/**
+ * Find the objects a node defines that nothing in the configuration uses.
+ * Empty when the run has no cross-reference index (unknown vendor).
+ * @param node The configuration node being checked
+ * @param context The rule context
+ * @param isPredefined Optional filter for default objects of full
+ *        configuration backups, which are not worth reporting
+ * @returns The unused definitions
+ */
+export const findUnusedDefinitions = (
+  node: ConfigNode,
+  context: Context,
+  isPredefined?: (symbol: XrefSymbol) => boolean
+): XrefDefinition[] => {
+  const index = context.getCrossReferences?.();
+  if (!index) {
+    return [];
+  }
+  return symbolsOf(node, context).filter(
+    (symbol): symbol is XrefDefinition =>
+      symbol.role === 'definition' &&
+      index.getReferences(symbol.kind, symbol.name).length === 0 &&
+      !isPredefined?.(symbol)
+  );
+};
+
+/**
+ * Format symbols for a rule message.
+ * @param symbols The symbols to list
+ * @returns e.g., 'ACL "WEB", route-map "RM-IN"'
+ */
+export const formatXrefSymbols = (symbols: XrefSymbol[]): string =>
+  symbols.map((symbol) => `${KIND_LABELS[symbol.kind]} "${symbol.name}"`).join(', ');
@@ -2,11 +2,17 @@
 
 export * from './types/ConfigNode';
 export * from './types/IRule';
+export * from './types/FleetRule';
+export * from './types/Compliance';
+export * from './types/Suppression';
 export * from './parser/SchemaAwareParser';
 export * from './parser/IncrementalParser';
+export * from './parser/NodePath';
 export * from './parser/VendorSchema';
 export * from './parser/vendors';
 export * from './engine/Runner';
+export * from './engine/Selector';
+export * from './engine/FleetRunner';
 export * from './engine/RuleExecutor';
 export * from './parser/Sanitizer';
 export * from './constants';
@@ -28,6 +34,18 @@ export * from './engine/SandboxedExecutor';
 // JSON Rules - third-party rule authoring without TypeScript
 export * from './json-rules';
 
+// Golden config templates - section conformance checks
+export * from './golden-config';
+
+// Rule fixes - applying machine-applicable remediation
+export * from './fixes';
+
+// Suppressions: inline comment directives and the shared suppression file
+export * from './suppressions';
+
+// Secret redaction for reports and sanitized config exports
+export * from './redaction';
+
 // Rule Helpers - vendor-specific and common helper functions
 export * as helpers from './helpers';
 export { VENDOR_NAMESPACES, type VendorNamespace, getAllVendorModules, getVendorModule } from './helpers';
@@ -38,5 +56,20 @@ export * from './helpers/common';
 // IP/Subnet extraction module
 export * from './ip';
 
+// Vendor-neutral device model
+export * from './model';
+
+// Cross-reference index of named objects
+export * from './xref';
+
+// ACL and firewall policy analysis
+export * from './policy';
+
+// Credentials: hash algorithms, decoding and known defaults
+export * from './credentials';
+
+// Compliance framework coverage
+export * from './compliance';
+
 // Validation utilities (shared with CLI and VS Code)
 export * from './validation';
@@ -346,7 +346,7 @@ function expandIPv6(ip: string): string[] {
 /**
  * Convert IPv6 to BigInt for comparison.
  */
-function ipv6ToBigInt(ip: string): bigint {
+export function ipv6ToBigInt(ip: string): bigint {
   const parts = expandIPv6(ip);
   let result = 0n;
   for (const part of parts) {
@@ -4,12 +4,18 @@
  * JSON Rule Compiler
  *
  * Compiles JSON rule definitions into executable IRule objects.
- * Supports all check types including helper invocation and expression evaluation.
+ * Supports all check types including helper invocation and expression evaluation,
+ * and golden-config rules.
  */
 
 import type { ConfigNode } from '../types/ConfigNode';
-import type { IRule, Context, RuleResult } from '../types/IRule';
-import type { JsonRule, JsonCheck, JsonArgValue } from './types';
+import type { IRule, Context, RuleCheckResult, RuleResult } from '../types/IRule';
+import type { VendorSchema } from '../parser/VendorSchema';
+import { defaultVendor, getVendor, isValidVendor } from '../parser/vendors';
+import type { GoldenTemplate } from '../golden-config/types';
+import { parseGoldenTemplate } from '../golden-config/template';
+import { compareWithGoldenTemplate, formatGoldenDifference } from '../golden-config/compare';
+import type { JsonCheck, JsonArgValue, JsonGoldenConfigRule, JsonRuleDefinition } from './types';
 import {
     type HelperRegistry,
     type HelperFunction,
@@ -17,6 +23,7 @@ import {
     resolveHelper,
 } from './HelperRegistry';
 import { ExpressionEvaluator, createExpressionEvaluator } from './ExpressionEvaluator';
+import { findAnchorNode, findNodes } from '../helpers/common/document';
 
 /**
  * Options for the JSON rule compiler.
@@ -79,7 +86,11 @@ export class JsonRuleCompiler {
      * @param jsonRule The JSON rule definition
      * @returns An executable IRule object
      */
-    compile(jsonRule: JsonRule): IRule {
+    compile(jsonRule: JsonRuleDefinition): IRule {
+        if ('golden' in jsonRule) {
+            return this.compileGolden(jsonRule);
+        }
+
         // Pre-compile expressions if enabled
         if (this.precompileExpressions) {
             this.precompileCheckExpressions(jsonRule.check);
@@ -90,8 +101,9 @@ export class JsonRuleCompiler {
             selector: jsonRule.selector,
             vendor: jsonRule.vendor,
             category: jsonRule.category,
+            scope: jsonRule.scope,
             metadata: jsonRule.metadata,
-            check: (node: ConfigNode, _ctx: Context): RuleResult => {
+            check: (node: ConfigNode, _ctx: Context): RuleCheckResult => {
                 // Check defines failure conditions - invert to get pass status
                 const passed = !this.evaluateCheck(jsonRule.check, node);
 
@@ -101,15 +113,26 @@ export class JsonRuleCompiler {
                     : (jsonRule.failureMessage ?? jsonRule.metadata.description ?? `${jsonRule.id}: Check failed`);
                 const message = this.formatMessage(template, node.id, jsonRule.id);
 
-                return {
+                // Presence checks point at the line they concern
+                const result = (anchor?: ConfigNode): RuleResult => ({
                     passed,
                     message,
                     ruleId: jsonRule.id,
-                    nodeId: node.id,
+                    nodeId: anchor?.id ?? node.id,
                     level: passed ? 'info' : jsonRule.metadata.level,
-                    loc: node.loc,
+                    loc: anchor?.loc ?? node.loc,
+                    path: anchor?.path,
                     remediation: passed ? undefined : jsonRule.metadata.remediation,
-                };
+                });
+
+                if (passed) {
+                    return result();
+                }
+                // Every forbidden line is a finding of its own
+                if (jsonRule.check.type === 'forbidden') {
+                    return findNodes(node, jsonRule.check.selector).map(result);
+                }
+                return result(this.findAnchor(jsonRule.check, node));
             },
         };
     }
@@ -120,10 +143,78 @@ export class JsonRuleCompiler {
      * @param jsonRules Array of JSON rule definitions
      * @returns Array of executable IRule objects
      */
-    compileAll(jsonRules: JsonRule[]): IRule[] {
+    compileAll(jsonRules: JsonRuleDefinition[]): IRule[] {
         return jsonRules.map((rule) => this.compile(rule));
     }
 
+    /**
+     * Compile a golden-config rule. The template is parsed on first use for
+     * each vendor, with the vendor of the run, or else the rule's only vendor.
+     */
+    private compileGolden(jsonRule: JsonGoldenConfigRule): IRule {
+        const templates = new Map<string, GoldenTemplate>();
+        const ruleVendor = typeof jsonRule.vendor === 'string' && isValidVendor(jsonRule.vendor)
+            ? getVendor(jsonRule.vendor)
+            : undefined;
+
+        const templateFor = (vendor: VendorSchema): GoldenTemplate => {
+            let template = templates.get(vendor.id);
+            if (!template) {
+                template = parseGoldenTemplate(jsonRule.golden, vendor);
+                templates.set(vendor.id, template);
+            }
+            return template;
+        };
+
+        return {
+            id: jsonRule.id,
+            selector: jsonRule.selector,
+            vendor: jsonRule.vendor,
+            category: jsonRule.category,
+            scope: jsonRule.scope,
+            metadata: jsonRule.metadata,
+            check: (node: ConfigNode, ctx: Context): RuleCheckResult => {
+                const vendor = ctx.vendorId && isValidVendor(ctx.vendorId)
+                    ? getVendor(ctx.vendorId)
+                    : (ruleVendor ?? defaultVendor);
+                const differences = compareWithGoldenTemplate(node, templateFor(vendor), vendor);
+
+                if (differences.length === 0) {
+                    return {
+                        passed: true,
+                        message: this.formatMessage(
+                            jsonRule.successMessage ?? `${jsonRule.id}: Matches the golden config`,
+                            node.id,
+                            jsonRule.id
+                        ),
+                        ruleId: jsonRule.id,
+                        nodeId: node.id,
+                        level: 'info',
+                        loc: node.loc,
+                    };
+                }
+
+                // One finding per difference, at the differing line, or at the
+                // section a line is missing from
+                const template = jsonRule.failureMessage ?? 'Differs from the golden config: {differences}.';
+                return differences.map((difference): RuleResult => {
+                    const anchor = difference.actual ?? difference.section;
+                    return {
+                        passed: false,
+                        message: this.formatMessage(template, node.id, jsonRule.id)
+                            .replaceAll('{differences}', formatGoldenDifference(difference)),
+                        ruleId: jsonRule.id,
+                        nodeId: anchor.id,
+                        level: jsonRule.metadata.level,
+                        loc: anchor.loc,
+                        path: anchor.path,
+                        remediation: jsonRule.metadata.remediation,
+                    };
+                });
+            },
+        };
+    }
+
     /**
      * Pre-compile all expressions in a check tree.
      */
@@ -174,6 +265,17 @@ export class JsonRuleCompiler {
             case 'child_contains':
                 return this.childContains(node, check.selector, check.text);
 
+            case 'required':
+                return findNodes(node, check.selector).length === 0;
+
+            case 'forbidden':
+                return findNodes(node, check.selector).length > 0;
+
+            case 'count': {
+                const count = findNodes(node, check.selector).length;
+                return count < (check.min ?? 0) || count > (check.max ?? Infinity);
+            }
+
             case 'helper':
                 return this.evaluateHelper(check, node);
 
@@ -195,6 +297,29 @@ export class JsonRuleCompiler {
         }
     }
 
+    /**
+     * Find the node a failed presence check is about: the first surplus
+     * node, the last of too few nodes, or where a missing node belongs.
+     * Undefined for other checks, which report the checked node.
+     */
+    private findAnchor(check: JsonCheck, node: ConfigNode): ConfigNode | undefined {
+        switch (check.type) {
+            case 'required':
+                return findAnchorNode(node, check.selector);
+
+            case 'count': {
+                const matches = findNodes(node, check.selector);
+                if (check.max !== undefined && matches.length > check.max) {
+                    return matches[check.max];
+                }
+                return matches.at(-1) ?? findAnchorNode(node, check.selector);
+            }
+
+            default:
+                return undefined;
+        }
+    }
+
     /**
      * Evaluate a regex match on node.id.
      */
@@ -321,14 +446,14 @@ export function getJsonRuleCompiler(): JsonRuleCompiler {
 /**
  * Compile a JSON rule to IRule using the default compiler.
  */
-export function compileJsonRule(jsonRule: JsonRule): IRule {
+export function compileJsonRule(jsonRule: JsonRuleDefinition): IRule {
     return getJsonRuleCompiler().compile(jsonRule);
 }
 
 /**
  * Compile multiple JSON rules to IRule array using the default compiler.
  */
-export function compileJsonRules(jsonRules: JsonRule[]): IRule[] {
+export function compileJsonRules(jsonRules: JsonRuleDefinition[]): IRule[] {
     return getJsonRuleCompiler().compileAll(jsonRules);
 }
 
@@ -9,9 +9,19 @@
 
 import { isValidVendorId, VALID_VENDOR_IDS, type RuleVendor } from '../types/IRule';
 import { RULE_ID_PATTERN, MAX_PATTERN_LENGTH, REDOS_PATTERN } from '../constants';
-import { isJsonRule, isJsonRuleFile, isJsonCheck, type JsonRule, type JsonRuleFile, type JsonCheck } from './types';
+import {
+    isJsonRule,
+    isJsonGoldenConfigRule,
+    isJsonRuleFile,
+    type JsonRuleDefinition,
+    type JsonRuleFile,
+    type JsonCheck,
+} from './types';
+import type { GoldenConfig } from '../golden-config/types';
+import { findGoldenTemplateErrors, getGoldenTemplateVariables } from '../golden-config/template';
 import { getHelperRegistry, hasHelper, type HelperRegistry } from './HelperRegistry';
 import { isValidExpression } from './ExpressionEvaluator';
+import { parseSelector } from '../engine/Selector';
 
 /**
  * A validation error with path and message.
@@ -101,6 +111,8 @@ export function validateJsonRuleFile(
                     message: 'Expected "rules" to be an array',
                     severity: 'error',
                 });
+            } else {
+                obj.rules.forEach((rule, i) => errors.push(...findCountBoundsErrors(rule, `/rules/${i}`)));
             }
         }
 
@@ -148,6 +160,27 @@ export function validateJsonRuleFile(
     };
 }
 
+/**
+ * Explain why a count check is rejected by the type guards when its min is
+ * above its max, which would make a rule that can never pass.
+ */
+function findCountBoundsErrors(rule: unknown, path: string): ValidationError[] {
+    const check = (rule as { check?: Record<string, unknown> } | null)?.check;
+    if (
+        check?.type !== 'count' ||
+        typeof check.min !== 'number' ||
+        typeof check.max !== 'number' ||
+        check.min <= check.max
+    ) {
+        return [];
+    }
+    return [{
+        path: `${path}/check/min`,
+        message: `min (${check.min}) is greater than max (${check.max}) - this will always fail`,
+        severity: 'error',
+    }];
+}
+
 /**
  * Validate a single JSON rule.
  */
@@ -162,16 +195,17 @@ export function validateJsonRule(
     const validateExpressions = options.validateExpressions ?? true;
     const allowUnknownVendors = options.allowUnknownVendors ?? false;
 
-    if (!isJsonRule(data)) {
+    if (!isJsonRule(data) && !isJsonGoldenConfigRule(data)) {
         errors.push({
             path: '',
             message: 'Invalid JSON rule structure',
             severity: 'error',
         });
+        errors.push(...findCountBoundsErrors(data, ''));
         return { valid: false, errors, warnings };
     }
 
-    validateRule(data as JsonRule, '', {
+    validateRule(data as JsonRuleDefinition, '', {
         errors,
         warnings,
         registry,
@@ -199,7 +233,7 @@ interface ValidationContext {
 /**
  * Validate a rule and add errors/warnings to context.
  */
-function validateRule(rule: JsonRule, path: string, ctx: ValidationContext): void {
+function validateRule(rule: JsonRuleDefinition, path: string, ctx: ValidationContext): void {
     // Validate rule ID format
     if (!RULE_ID_PATTERN.test(rule.id)) {
         ctx.errors.push({
@@ -223,6 +257,15 @@ function validateRule(rule: JsonRule, path: string, ctx: ValidationContext): voi
         }
     }
 
+    // Document rules run once per file, not on the nodes a selector matches
+    if (rule.scope === 'document' && rule.selector !== undefined) {
+        ctx.warnings.push({
+            path: `${path}/selector`,
+            message: 'Selector is ignored by document rules',
+            severity: 'warning',
+        });
+    }
+
     // Validate metadata
     if (!rule.metadata.description) {
         ctx.warnings.push({
@@ -240,8 +283,37 @@ function validateRule(rule: JsonRule, path: string, ctx: ValidationContext): voi
         });
     }
 
-    // Validate check
-    validateCheck(rule.check, `${path}/check`, ctx);
+    // Validate check or golden config
+    if ('golden' in rule) {
+        validateGoldenConfig(rule.golden, `${path}/golden`, ctx);
+    } else {
+        validateCheck(rule.check, `${path}/check`, ctx);
+    }
+}
+
+/**
+ * Validate the template and variables of a golden-config rule.
+ */
+function validateGoldenConfig(golden: GoldenConfig, path: string, ctx: ValidationContext): void {
+    for (const message of findGoldenTemplateErrors(golden.template)) {
+        ctx.errors.push({
+            path: `${path}/template`,
+            message,
+            severity: 'error',
+        });
+    }
+
+    const used = new Set(getGoldenTemplateVariables(golden.template));
+    for (const [name, variable] of Object.entries(golden.variables ?? {})) {
+        validateRegex(variable.pattern, undefined, `${path}/variables/${name}/pattern`, ctx);
+        if (!used.has(name)) {
+            ctx.warnings.push({
+                path: `${path}/variables/${name}`,
+                message: `Variable "${name}" is not used in the template`,
+                severity: 'warning',
+            });
+        }
+    }
 }
 
 /**
@@ -258,6 +330,18 @@ function validateCheck(check: JsonCheck, path: string, ctx: ValidationContext):
             validateRegex(check.pattern, check.flags, `${path}/pattern`, ctx);
             break;
 
+        case 'required':
+        case 'forbidden':
+        case 'count':
+            if (parseSelector(check.selector).length === 0) {
+                ctx.errors.push({
+                    path: `${path}/selector`,
+                    message: `Selector "${check.selector}" has an empty step`,
+                    severity: 'error',
+                });
+            }
+            break;
+
         case 'helper':
             if (ctx.validateHelpers && !hasHelper(ctx.registry, check.helper)) {
                 ctx.errors.push({
@@ -27,6 +27,8 @@ export type {
     JsonArgValue,
     JsonCheck,
     JsonRule,
+    JsonGoldenConfigRule,
+    JsonRuleDefinition,
     JsonRuleFile,
 } from './types';
 
@@ -34,6 +36,8 @@ export {
     isJsonArgValue,
     isJsonCheck,
     isJsonRule,
+    isGoldenConfig,
+    isJsonGoldenConfigRule,
     isJsonRuleFile,
 } from './types';
 
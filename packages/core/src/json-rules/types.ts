@@ -8,7 +8,8 @@
  * to helper functions via the `helper` check type.
  */
 
-import type { RuleVendor, RuleMetadata } from '../types/IRule';
+import type { ComplianceMapping, RuleVendor, RuleMetadata, RuleScope } from '../types/IRule';
+import type { GoldenConfig } from '../golden-config/types';
 import { MAX_METADATA_LENGTH } from '../constants';
 
 /**
@@ -43,6 +44,12 @@ export type JsonCheck =
     | { type: 'child_matches'; selector: string; pattern: string; flags?: string }
     | { type: 'child_contains'; selector: string; text: string }
 
+    // Descendants matching a selector, at any depth; in document rules, anywhere in the file.
+    // Fails when missing, when present, or when the count is outside min..max.
+    | { type: 'required'; selector: string }
+    | { type: 'forbidden'; selector: string }
+    | { type: 'count'; selector: string; min?: number; max?: number }
+
     // Helper function invocation (NEW)
     | {
           type: 'helper';
@@ -83,6 +90,9 @@ export interface JsonRule {
     /** Optional category for tree view grouping */
     category?: string | string[];
 
+    /** Optional: 'document' runs the rule once per file instead of per node (default: 'node') */
+    scope?: RuleScope;
+
     /** Rule metadata including severity, description, remediation */
     metadata: RuleMetadata;
 
@@ -102,6 +112,27 @@ export interface JsonRule {
     successMessage?: string;
 }
 
+/**
+ * A golden-config JSON rule: instead of a check, the sections matched by the
+ * selector are compared with a template of the lines they must have.
+ * Missing, extra and differing lines fail the rule.
+ */
+export interface JsonGoldenConfigRule extends Omit<JsonRule, 'check'> {
+    /** The template the matched sections must conform to */
+    golden: GoldenConfig;
+
+    /**
+     * Optional: Custom message template for failures.
+     * Supports placeholders: {nodeId}, {ruleId}, {differences}
+     */
+    failureMessage?: string;
+}
+
+/**
+ * A rule of a JSON rule file: a check rule or a golden-config rule.
+ */
+export type JsonRuleDefinition = JsonRule | JsonGoldenConfigRule;
+
 /**
  * A JSON rule file containing multiple rules with optional metadata.
  */
@@ -122,7 +153,7 @@ export interface JsonRuleFile {
     };
 
     /** Array of JSON rules */
-    rules: JsonRule[];
+    rules: JsonRuleDefinition[];
 }
 
 /**
@@ -183,6 +214,20 @@ export function isJsonCheck(obj: unknown): obj is JsonCheck {
         case 'child_contains':
             return typeof check.selector === 'string' && typeof check.text === 'string';
 
+        case 'required':
+        case 'forbidden':
+            return typeof check.selector === 'string';
+
+        case 'count':
+            return (
+                typeof check.selector === 'string' &&
+                (check.min !== undefined || check.max !== undefined) &&
+                (check.min === undefined || (Number.isInteger(check.min) && (check.min as number) >= 0)) &&
+                (check.max === undefined || (Number.isInteger(check.max) && (check.max as number) >= 0)) &&
+                // min above max can never pass
+                (check.min === undefined || check.max === undefined || (check.min as number) <= (check.max as number))
+            );
+
         case 'helper':
             if (typeof check.helper !== 'string') return false;
             if (check.args !== undefined) {
@@ -208,15 +253,31 @@ export function isJsonCheck(obj: unknown): obj is JsonCheck {
 }
 
 /**
- * Type guard to check if an object is a valid JsonRule.
+ * Type guard to check if an object is a valid compliance mapping
+ * ({ framework, controls }) of rule metadata.
  */
-export function isJsonRule(obj: unknown): obj is JsonRule {
+export function isComplianceMapping(obj: unknown): obj is ComplianceMapping {
     if (typeof obj !== 'object' || obj === null) {
         return false;
     }
 
-    const rule = obj as Record<string, unknown>;
+    const mapping = obj as Record<string, unknown>;
+    return (
+        typeof mapping.framework === 'string' &&
+        mapping.framework.length > 0 &&
+        mapping.framework.length <= MAX_METADATA_LENGTH &&
+        Array.isArray(mapping.controls) &&
+        mapping.controls.length > 0 &&
+        mapping.controls.every(
+            (control) => typeof control === 'string' && control.length > 0 && control.length <= MAX_METADATA_LENGTH
+        )
+    );
+}
 
+/**
+ * Check the fields shared by check rules and golden-config rules.
+ */
+function hasValidRuleFields(rule: Record<string, unknown>): boolean {
     // Check required fields
     if (typeof rule.id !== 'string' || rule.id.length === 0) {
         return false;
@@ -227,6 +288,11 @@ export function isJsonRule(obj: unknown): obj is JsonRule {
         return false;
     }
 
+    // Check optional scope
+    if (rule.scope !== undefined && rule.scope !== 'node' && rule.scope !== 'document') {
+        return false;
+    }
+
     // Check metadata
     if (typeof rule.metadata !== 'object' || rule.metadata === null) {
         return false;
@@ -253,10 +319,10 @@ export function isJsonRule(obj: unknown): obj is JsonRule {
             return false;
         }
     }
-
-    // Check the check condition
-    if (!isJsonCheck(rule.check)) {
-        return false;
+    if (metadata.compliance !== undefined) {
+        if (!Array.isArray(metadata.compliance) || !metadata.compliance.every(isComplianceMapping)) {
+            return false;
+        }
     }
 
     // Check optional message templates
@@ -270,6 +336,61 @@ export function isJsonRule(obj: unknown): obj is JsonRule {
     return true;
 }
 
+/**
+ * Type guard to check if an object is a valid JsonRule.
+ */
+export function isJsonRule(obj: unknown): obj is JsonRule {
+    if (typeof obj !== 'object' || obj === null) {
+        return false;
+    }
+
+    const rule = obj as Record<string, unknown>;
+    return hasValidRuleFields(rule) && isJsonCheck(rule.check);
+}
+
+/**
+ * Type guard to check if an object is a valid golden config
+ * ({ template, variables?, allowExtra? }).
+ */
+export function isGoldenConfig(obj: unknown): obj is GoldenConfig {
+    if (typeof obj !== 'object' || obj === null) {
+        return false;
+    }
+
+    const golden = obj as Record<string, unknown>;
+    const template = golden.template;
+    if (typeof template !== 'string' && !(Array.isArray(template) && template.every((line) => typeof line === 'string'))) {
+        return false;
+    }
+    if (golden.variables !== undefined) {
+        if (typeof golden.variables !== 'object' || golden.variables === null || Array.isArray(golden.variables)) {
+            return false;
+        }
+        for (const variable of Object.values(golden.variables)) {
+            if (typeof variable !== 'object' || variable === null) return false;
+            const pattern = (variable as Record<string, unknown>).pattern;
+            if (typeof pattern !== 'string') return false;
+        }
+    }
+    if (golden.allowExtra !== undefined && typeof golden.allowExtra !== 'boolean') {
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Type guard to check if an object is a valid JsonGoldenConfigRule.
+ */
+export function isJsonGoldenConfigRule(obj: unknown): obj is JsonGoldenConfigRule {
+    if (typeof obj !== 'object' || obj === null) {
+        return false;
+    }
+
+    const rule = obj as Record<string, unknown>;
+    return hasValidRuleFields(rule) && rule.check === undefined && isGoldenConfig(rule.golden);
+}
+
 /**
  * Type guard to check if an object is a valid JsonRuleFile.
  */
@@ -302,5 +423,5 @@ export function isJsonRuleFile(obj: unknown): obj is JsonRuleFile {
         return false;
     }
 
-    return file.rules.every(isJsonRule);
+    return file.rules.every((rule) => isJsonRule(rule) || isJsonGoldenConfigRule(rule));
 }
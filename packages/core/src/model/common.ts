@@ -0,0 +1,461 @@
+// packages/core/src/model/common.ts
+
+import type { ConfigNode } from '../types/ConfigNode';
+import { isValidIPv4, isValidIPv6 } from '../ip/extractor';
+import type {
+  DeviceModel,
+  ModelAaaProtocol,
+  ModelAddress,
+  ModelInterface,
+  ModelOspf,
+  ModelServer,
+  ModelSource,
+  ModelUser,
+} from './types';
+
+/** Largest VLAN range expanded from a VLAN list */
+const MAX_VLAN_ID = 4094;
+
+// ============================================================================
+// Model Construction
+// ============================================================================
+
+/**
+ * Creates an empty device model.
+ *
+ * @param vendor Vendor ID the model is extracted with
+ */
+export function createDeviceModel(vendor: string): DeviceModel {
+  return {
+    vendor,
+    interfaces: [],
+    vrfs: [],
+    vlans: [],
+    staticRoutes: [],
+    ospf: [],
+    users: [],
+    aaaServers: [],
+    ntpServers: [],
+    snmpServers: [],
+    syslogServers: [],
+  };
+}
+
+/**
+ * Builds the source reference of an entity read from a node.
+ */
+export function sourceOf(node: ConfigNode): ModelSource {
+  const source: ModelSource = {
+    nodeId: node.id,
+    loc: { startLine: node.loc.startLine, endLine: node.loc.endLine },
+  };
+  if (node.path !== undefined) {
+    source.path = node.path;
+  }
+  return source;
+}
+
+/**
+ * Returns the interface with the given name, adding it (enabled, without
+ * addresses) when the model does not contain it yet.
+ */
+export function getInterface(model: DeviceModel, name: string, node: ConfigNode): ModelInterface {
+  let iface = model.interfaces.find((i) => i.name === name);
+  if (!iface) {
+    iface = { name, enabled: true, addresses: [], source: sourceOf(node) };
+    model.interfaces.push(iface);
+  }
+  return iface;
+}
+
+/**
+ * Returns the user with the given name, adding it when missing.
+ */
+export function getUser(model: DeviceModel, name: string, node: ConfigNode): ModelUser {
+  let user = model.users.find((u) => u.name === name);
+  if (!user) {
+    user = { name, hasPassword: false, source: sourceOf(node) };
+    model.users.push(user);
+  }
+  return user;
+}
+
+/**
+ * Returns the OSPF process with the given ID and VRF, adding it when missing.
+ */
+export function getOspf(
+  model: DeviceModel,
+  processId: string | undefined,
+  vrf: string | undefined,
+  node: ConfigNode
+): ModelOspf {
+  let ospf = model.ospf.find((o) => o.processId === processId && o.vrf === vrf);
+  if (!ospf) {
+    ospf = { members: [], neighbors: [], source: sourceOf(node) };
+    if (processId !== undefined) ospf.processId = processId;
+    if (vrf !== undefined) ospf.vrf = vrf;
+    model.ospf.push(ospf);
+  }
+  return ospf;
+}
+
+/**
+ * Adds a VRF unless the model already contains it.
+ */
+export function addVrf(
+  model: DeviceModel,
+  name: string,
+  node: ConfigNode,
+  routeDistinguisher?: string
+): void {
+  const vrf = model.vrfs.find((v) => v.name === name);
+  if (vrf) {
+    vrf.routeDistinguisher ??= routeDistinguisher;
+    return;
+  }
+  model.vrfs.push({
+    name,
+    ...(routeDistinguisher !== undefined && { routeDistinguisher }),
+    source: sourceOf(node),
+  });
+}
+
+/**
+ * Adds a VLAN unless the model already contains its ID.
+ * IDs outside 1-4094 are ignored.
+ */
+export function addVlan(model: DeviceModel, id: number, node: ConfigNode, name?: string): void {
+  if (!Number.isInteger(id) || id < 1 || id > MAX_VLAN_ID) return;
+  const vlan = model.vlans.find((v) => v.id === id);
+  if (vlan) {
+    vlan.name ??= name;
+    return;
+  }
+  model.vlans.push({ id, ...(name !== undefined && { name }), source: sourceOf(node) });
+}
+
+/**
+ * Adds a server to one of the server lists of the model.
+ * Empty addresses and servers already in the list are ignored.
+ */
+export function addServer(
+  servers: ModelServer[],
+  address: string | undefined,
+  node: ConfigNode,
+  vrf?: string
+): void {
+  if (!address || servers.some((s) => s.address === address && s.vrf === vrf)) return;
+  servers.push({ address, ...(vrf !== undefined && { vrf }), source: sourceOf(node) });
+}
+
+/**
+ * Adds an authentication server to the model, unless it is already listed.
+ */
+export function addAaaServer(
+  model: DeviceModel,
+  protocol: ModelAaaProtocol,
+  address: string | undefined,
+  node: ConfigNode,
+  vrf?: string
+): void {
+  if (!address || model.aaaServers.some((s) => s.address === address && s.protocol === protocol)) return;
+  model.aaaServers.push({
+    address,
+    protocol,
+    ...(vrf !== undefined && { vrf }),
+    source: sourceOf(node),
+  });
+}
+
+// ============================================================================
+// AST Traversal
+// ============================================================================
+
+/**
+ * Visits every node depth-first. Virtual roots are entered transparently,
+ * so orphan top-level commands are visited with no parent.
+ * Returning false from the visitor skips the children of the node.
+ */
+export function walkNodes(
+  nodes: ConfigNode[],
+  visit: (node: ConfigNode, parent: ConfigNode | undefined) => boolean | void,
+  parent?: ConfigNode
+): void {
+  for (const node of nodes) {
+    if (node.type === 'virtual_root') {
+      walkNodes(node.children, visit, parent);
+      continue;
+    }
+    if (visit(node, parent) !== false) {
+      walkNodes(node.children, visit, node);
+    }
+  }
+}
+
+/**
+ * Moves commands that the parser left inside a section back to the level
+ * of their indentation. A section followed by an unindented global command
+ * (e.g. 'ip route' after 'router bgp') keeps it as a child when nothing
+ * else starts a new section. Sections whose children are not indented
+ * (flat configurations) are left unchanged. Nodes are copied, not modified.
+ *
+ * @param nodes Parsed configuration
+ * @returns The regrouped configuration
+ */
+export function regroupByIndent(nodes: ConfigNode[]): ConfigNode[] {
+  const result: ConfigNode[] = [];
+  for (const node of nodes) {
+    const childIndent = node.children[0]?.indent ?? 0;
+    if (node.type === 'virtual_root' || childIndent <= node.indent) {
+      result.push({ ...node, children: regroupByIndent(node.children) });
+      continue;
+    }
+    const nested = node.children.filter((child) => child.indent > node.indent);
+    const hoisted = node.children.filter((child) => child.indent <= node.indent);
+    result.push({ ...node, children: regroupByIndent(nested) }, ...regroupByIndent(hoisted));
+  }
+  return result;
+}
+
+/**
+ * Splits a command into words. Quoted strings stay one word and lose their
+ * quotes; a trailing ';' (Junos) and list brackets are dropped.
+ */
+export function tokenize(text: string): string[] {
+  const words: string[] = [];
+  const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g;
+  const trimmed = text.trim();
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(trimmed)) !== null) {
+    const word = match[1] ?? match[2] ?? (match[3] ?? '').replace(/;$/, '');
+    if (match[3] !== undefined && (word === '' || word === '[' || word === ']' || word === '{')) {
+      continue;
+    }
+    words.push(word);
+  }
+  return words;
+}
+
+/**
+ * A leaf statement of a hierarchical configuration, with the words of all
+ * its enclosing sections (Junos, VyOS, PAN-OS and Nokia style).
+ */
+export interface Statement {
+  /** Words of the statement, outermost section first */
+  words: string[];
+  /** Node each word was read from (same length as words) */
+  nodes: ConfigNode[];
+  /** Node of the last word */
+  leaf: ConfigNode;
+}
+
+/**
+ * Returns the node that holds a word of a statement, e.g. the interface
+ * section for the interface name. Indexes past the end give the leaf node.
+ */
+export function nodeAt(statement: Statement, index: number): ConfigNode {
+  return statement.nodes[index] ?? statement.leaf;
+}
+
+/** Commands that remove rather than add configuration in flat 'set' style configurations */
+const REMOVE_COMMANDS = new Set(['delete', 'deactivate', 'unset', 'del']);
+
+/**
+ * Flattens a hierarchical configuration into leaf statements, so brace
+ * ('interfaces { ge-0/0/0 { ... } }') and flat ('set interfaces ge-0/0/0 ...')
+ * configurations can be read the same way. A leading 'set' (also 'nv set'
+ * and 'net add') is dropped; delete statements and inactive sections are skipped.
+ *
+ * @param ast Parsed configuration
+ * @returns Leaf statements in configuration order
+ */
+export function flattenStatements(ast: ConfigNode[]): Statement[] {
+  const statements: Statement[] = [];
+
+  const visit = (nodes: ConfigNode[], words: string[], owners: ConfigNode[]): void => {
+    for (const node of nodes) {
+      if (node.type === 'virtual_root') {
+        visit(node.children, words, owners);
+        continue;
+      }
+      let own = tokenize(node.id);
+      if (own[0] === 'inactive:') continue;
+      if (words.length === 0) {
+        if (own[0] === 'nv' || own[0] === 'net') {
+          own = own.slice(1);
+          if (own[0] === 'add') own = own.slice(1);
+        }
+        if (own[0] === 'set') own = own.slice(1);
+        if (own[0] !== undefined && REMOVE_COMMANDS.has(own[0])) continue;
+      }
+
+      const nextWords = [...words, ...own];
+      const nextOwners = [...owners, ...own.map(() => node)];
+      if (node.children.length === 0) {
+        if (nextWords.length > 0) {
+          statements.push({ words: nextWords, nodes: nextOwners, leaf: node });
+        }
+      } else {
+        visit(node.children, nextWords, nextOwners);
+      }
+    }
+  };
+
+  visit(ast, [], []);
+  return statements;
+}
+
+/**
+ * Matches the start of a statement against a pattern, where '*' matches any
+ * word. Matching is case-insensitive.
+ *
+ * @returns The index of the first word after the pattern, or -1
+ */
+export function matchWords(words: string[], pattern: string[]): number {
+  if (words.length < pattern.length) return -1;
+  for (let i = 0; i < pattern.length; i++) {
+    const expected = pattern[i];
+    if (expected !== '*' && words[i]?.toLowerCase() !== expected) return -1;
+  }
+  return pattern.length;
+}
+
+/**
+ * Returns the word following a keyword (e.g., the VRF after 'vrf').
+ */
+export function valueAfter(words: string[], keyword: string): string | undefined {
+  const index = words.findIndex((word) => word.toLowerCase() === keyword);
+  return index === -1 ? undefined : words[index + 1];
+}
+
+/**
+ * Parses MikroTik-style 'key=value' pairs of a command. Quoted values may
+ * contain spaces. Keys are lowercased.
+ */
+export function parseKeyValues(text: string): Map<string, string> {
+  const values = new Map<string, string>();
+  const pattern = /([\w.-]+)=(?:"([^"]*)"|(\S*))/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    values.set((match[1] ?? '').toLowerCase(), match[2] ?? match[3] ?? '');
+  }
+  return values;
+}
+
+// ============================================================================
+// Address Parsing
+// ============================================================================
+
+/**
+ * Checks whether a word is an IPv4 or IPv6 address.
+ */
+export function isIpAddress(word: string | undefined): word is string {
+  return word !== undefined && (isValidIPv4(word) || isValidIPv6(word));
+}
+
+/**
+ * Converts a contiguous IPv4 netmask to a prefix length.
+ *
+ * @param mask Dotted netmask (e.g., '255.255.255.252')
+ * @param wildcard Treat the mask as a wildcard mask (e.g., '0.0.0.3')
+ * @returns The prefix length, or undefined for invalid or non-contiguous masks
+ */
+export function maskToPrefixLength(mask: string, wildcard = false): number | undefined {
+  if (!isValidIPv4(mask)) return undefined;
+  let value = mask.split('.').reduce((acc, octet) => acc * 256 + parseInt(octet, 10), 0);
+  if (wildcard) value = 0xffffffff - value;
+  const bits = value.toString(2).padStart(32, '0');
+  if (!/^1*0*$/.test(bits)) return undefined;
+  return bits.indexOf('0') === -1 ? 32 : bits.indexOf('0');
+}
+
+/**
+ * Parses an address in CIDR notation ('10.0.0.1/30', '2001:db8::1/64').
+ */
+export function parseCidr(text: string | undefined): ModelAddress | undefined {
+  if (!text) return undefined;
+  const [address, length] = text.split('/');
+  if (!address || length === undefined || !/^\d+$/.test(length)) return undefined;
+  const prefixLength = parseInt(length, 10);
+  if (isValidIPv4(address) && prefixLength <= 32) {
+    return { address, prefixLength, family: 'ipv4' };
+  }
+  if (isValidIPv6(address) && prefixLength <= 128) {
+    return { address, prefixLength, family: 'ipv6' };
+  }
+  return undefined;
+}
+
+/**
+ * Parses an address given either in CIDR notation or as address and netmask.
+ *
+ * @param address Address, possibly with '/length'
+ * @param mask Netmask, used when the address has no prefix length
+ */
+export function parseAddress(address: string | undefined, mask?: string): ModelAddress | undefined {
+  if (!address) return undefined;
+  if (address.includes('/')) return parseCidr(address);
+  if (mask === undefined || !isValidIPv4(address)) return undefined;
+  const prefixLength = maskToPrefixLength(mask);
+  return prefixLength === undefined ? undefined : { address, prefixLength, family: 'ipv4' };
+}
+
+/**
+ * Parses a route destination given in CIDR notation or as address and netmask.
+ *
+ * @returns The prefix in CIDR notation, and how many words it used
+ */
+export function parsePrefix(
+  words: string[],
+  index: number
+): { prefix: string; used: number } | undefined {
+  const first = words[index];
+  if (!first) return undefined;
+  if (first.includes('/')) {
+    return parseCidr(first) ? { prefix: first, used: 1 } : undefined;
+  }
+  const address = parseAddress(first, words[index + 1]);
+  return address ? { prefix: `${address.address}/${address.prefixLength}`, used: 2 } : undefined;
+}
+
+/**
+ * Normalizes an OSPF area ID to dotted notation ('0' becomes '0.0.0.0').
+ */
+export function normalizeArea(area: string): string {
+  if (/^\d+$/.test(area)) {
+    const value = parseInt(area, 10);
+    return [24, 16, 8, 0].map((shift) => Math.floor(value / 2 ** shift) % 256).join('.');
+  }
+  return area;
+}
+
+/**
+ * Expands a VLAN list ('10,20-25', '10 20 30 to 40') into VLAN IDs.
+ * Keywords such as 'all' or 'none' yield no IDs.
+ */
+export function parseVlanList(words: string[]): number[] {
+  const ids: number[] = [];
+  const tokens = words.join(',').split(',').filter((token) => token !== '');
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i] ?? '';
+    const range = /^(\d+)-(\d+)$/.exec(token);
+    if (range) {
+      pushRange(ids, parseInt(range[1] ?? '0', 10), parseInt(range[2] ?? '0', 10));
+    } else if (/^\d+$/.test(token)) {
+      const id = parseInt(token, 10);
+      if (tokens[i + 1]?.toLowerCase() === 'to' && /^\d+$/.test(tokens[i + 2] ?? '')) {
+        pushRange(ids, id, parseInt(tokens[i + 2] ?? '0', 10));
+        i += 2;
+      } else if (id >= 1 && id <= MAX_VLAN_ID) {
+        ids.push(id);
+      }
+    }
+  }
+  return ids;
+}
+
+function pushRange(ids: number[], from: number, to: number): void {
+  for (let id = Math.max(from, 1); id <= Math.min(to, MAX_VLAN_ID); id++) {
+    ids.push(id);
+  }
+}
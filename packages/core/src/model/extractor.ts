@@ -0,0 +1,57 @@
+// packages/core/src/model/extractor.ts
+
+import type { ConfigNode } from '../types/ConfigNode';
+import { findHostname } from '../engine/FleetRunner';
+import type { DeviceModel, ModelExtractor } from './types';
+import { createDeviceModel } from './common';
+import { extractCiscoModel } from './vendors/cisco';
+import { extractCumulusModel } from './vendors/cumulus';
+import { extractExosModel } from './vendors/extreme';
+import { extractFortinetModel } from './vendors/fortinet';
+import { extractHuaweiModel } from './vendors/huawei';
+import { extractJunosModel } from './vendors/juniper';
+import { extractMikrotikModel } from './vendors/mikrotik';
+import { extractNokiaModel } from './vendors/nokia';
+import { extractPanosModel } from './vendors/paloalto';
+import { extractVyosModel } from './vendors/vyos';
+
+/**
+ * Model extractors by vendor ID. Vendors without an entry use the
+ * Cisco-style extractor.
+ */
+export const MODEL_EXTRACTORS: Readonly<Record<string, ModelExtractor>> = {
+  'cisco-ios': extractCiscoModel,
+  'cisco-nxos': extractCiscoModel,
+  'arista-eos': extractCiscoModel,
+  'aruba-aoscx': extractCiscoModel,
+  'aruba-aosswitch': extractCiscoModel,
+  'aruba-wlc': extractCiscoModel,
+  'extreme-voss': extractCiscoModel,
+  'extreme-exos': extractExosModel,
+  'cumulus-linux': extractCumulusModel,
+  'fortinet-fortigate': extractFortinetModel,
+  'huawei-vrp': extractHuaweiModel,
+  'juniper-junos': extractJunosModel,
+  'mikrotik-routeros': extractMikrotikModel,
+  'nokia-sros': extractNokiaModel,
+  'paloalto-panos': extractPanosModel,
+  vyos: extractVyosModel,
+};
+
+/**
+ * Extracts the vendor-neutral device model of a parsed configuration:
+ * interfaces, VRFs, VLANs, static routes, BGP, OSPF, users and management
+ * servers. Every entity keeps a reference to the node it was read from,
+ * so rules written against the model can still report on the AST.
+ *
+ * @param ast Parsed configuration
+ * @param vendorId ID of the vendor the configuration was parsed with
+ * @returns The device model
+ */
+export function extractDeviceModel(ast: ConfigNode[], vendorId: string): DeviceModel {
+  const model = createDeviceModel(vendorId);
+  const extract = MODEL_EXTRACTORS[vendorId] ?? extractCiscoModel;
+  extract(ast, model);
+  model.hostname ??= findHostname(ast);
+  return model;
+}
@@ -0,0 +1,24 @@
+// packages/core/src/model/index.ts
+
+export type {
+  DeviceModel,
+  ModelAaaProtocol,
+  ModelAaaServer,
+  ModelAddress,
+  ModelAddressFamily,
+  ModelBgp,
+  ModelBgpNeighbor,
+  ModelExtractor,
+  ModelInterface,
+  ModelOspf,
+  ModelOspfMember,
+  ModelServer,
+  ModelSource,
+  ModelStaticRoute,
+  ModelUser,
+  ModelVlan,
+  ModelVrf,
+} from './types';
+
+export { createDeviceModel } from './common';
+export { MODEL_EXTRACTORS, extractDeviceModel } from './extractor';
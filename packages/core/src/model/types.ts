@@ -0,0 +1,293 @@
+// packages/core/src/model/types.ts
+
+import type { ConfigNode } from '../types/ConfigNode';
+
+// ============================================================================
+// Source References
+// ============================================================================
+
+/**
+ * Where an entity of the device model was configured.
+ * Kept JSON-friendly (no node references) so models can be printed or cached;
+ * rules map entities back to AST nodes through `nodeId` and `loc`.
+ */
+export interface ModelSource {
+  /** ID of the node the entity was read from */
+  nodeId: string;
+
+  /** Hierarchical path of the node, when the parser assigned one */
+  path?: string;
+
+  /** Line range of the node (0-based, like ConfigNode.loc) */
+  loc: { startLine: number; endLine: number };
+}
+
+// ============================================================================
+// Entities
+// ============================================================================
+
+/**
+ * Address family of a model address.
+ */
+export type ModelAddressFamily = 'ipv4' | 'ipv6';
+
+/**
+ * An IP address configured on an interface.
+ */
+export interface ModelAddress {
+  /** Host address (e.g., '10.0.0.1') */
+  address: string;
+
+  /** Prefix length (e.g., 30), converted from a netmask when needed */
+  prefixLength: number;
+
+  /** Address family */
+  family: ModelAddressFamily;
+
+  /** True for secondary addresses (Cisco 'secondary', Huawei 'sub') */
+  secondary?: boolean;
+}
+
+/**
+ * A physical or logical interface.
+ */
+export interface ModelInterface {
+  /** Interface name as configured (e.g., 'GigabitEthernet0/1', 'ge-0/0/0.0') */
+  name: string;
+
+  /** Description, alias or comment */
+  description?: string;
+
+  /** False when the interface is administratively disabled */
+  enabled: boolean;
+
+  /** Configured IPv4 and IPv6 addresses */
+  addresses: ModelAddress[];
+
+  /** VRF (routing instance, virtual router, VPN instance) the interface belongs to */
+  vrf?: string;
+
+  /** Access VLAN, or the VLAN ID of a VLAN subinterface */
+  accessVlan?: number;
+
+  /** VLANs allowed on a trunk port */
+  trunkVlans?: number[];
+
+  /** Layer 2 MTU */
+  mtu?: number;
+
+  /** Where the interface is configured */
+  source: ModelSource;
+}
+
+/**
+ * A VRF or equivalent routing instance.
+ */
+export interface ModelVrf {
+  /** VRF name */
+  name: string;
+
+  /** Route distinguisher, when configured */
+  routeDistinguisher?: string;
+
+  /** Where the VRF is defined */
+  source: ModelSource;
+}
+
+/**
+ * A VLAN definition.
+ */
+export interface ModelVlan {
+  /** VLAN ID (1-4094) */
+  id: number;
+
+  /** VLAN name */
+  name?: string;
+
+  /** Where the VLAN is defined */
+  source: ModelSource;
+}
+
+/**
+ * A static route.
+ */
+export interface ModelStaticRoute {
+  /** Destination prefix in CIDR notation (e.g., '0.0.0.0/0') */
+  prefix: string;
+
+  /** Next-hop address */
+  nextHop?: string;
+
+  /** Outgoing interface */
+  interface?: string;
+
+  /** True for discard routes (Null0, discard, blackhole) */
+  discard?: boolean;
+
+  /** VRF of the route; undefined for the global table */
+  vrf?: string;
+
+  /** Where the route is configured */
+  source: ModelSource;
+}
+
+/**
+ * A BGP neighbor.
+ */
+export interface ModelBgpNeighbor {
+  /** Neighbor address, or interface name for unnumbered peerings */
+  address: string;
+
+  /** Remote AS number, also when inherited from a peer group */
+  remoteAs?: string;
+
+  /** Neighbor description */
+  description?: string;
+
+  /** VRF of the session; undefined for the global table */
+  vrf?: string;
+
+  /** Where the neighbor is configured */
+  source: ModelSource;
+}
+
+/**
+ * The BGP process of the device.
+ */
+export interface ModelBgp {
+  /** Local AS number, in asplain or asdot notation as configured */
+  asn: string;
+
+  /** Router ID, when configured */
+  routerId?: string;
+
+  /** Configured neighbors, including VRF neighbors */
+  neighbors: ModelBgpNeighbor[];
+
+  /** Where the BGP process is configured */
+  source: ModelSource;
+}
+
+/**
+ * A network statement or interface assignment of an OSPF process.
+ */
+export interface ModelOspfMember {
+  /** Prefix (CIDR notation) for network statements, interface name otherwise */
+  name: string;
+
+  /** Area ID in dotted notation (e.g., '0.0.0.0') */
+  area: string;
+
+  /** True for passive interfaces */
+  passive?: boolean;
+
+  /** Where the member is configured */
+  source: ModelSource;
+}
+
+/**
+ * An OSPF process.
+ */
+export interface ModelOspf {
+  /** Process ID or tag, when the vendor uses one */
+  processId?: string;
+
+  /** Router ID, when configured */
+  routerId?: string;
+
+  /** VRF of the process; undefined for the global table */
+  vrf?: string;
+
+  /** Networks and interfaces enabled for OSPF */
+  members: ModelOspfMember[];
+
+  /** Statically configured neighbors (NBMA networks) */
+  neighbors: string[];
+
+  /** Where the process is configured */
+  source: ModelSource;
+}
+
+/**
+ * A local user account.
+ */
+export interface ModelUser {
+  /** User name */
+  name: string;
+
+  /** Privilege level, role, class or group, as configured */
+  privilege?: string;
+
+  /** True when a password, secret or hash is configured */
+  hasPassword: boolean;
+
+  /** Where the user is configured */
+  source: ModelSource;
+}
+
+/**
+ * Protocol of an AAA server.
+ */
+export type ModelAaaProtocol = 'radius' | 'tacacs' | 'ldap';
+
+/**
+ * A remote server the device talks to (NTP, SNMP trap receiver, syslog).
+ */
+export interface ModelServer {
+  /** Server address or host name */
+  address: string;
+
+  /** VRF used to reach the server */
+  vrf?: string;
+
+  /** Where the server is configured */
+  source: ModelSource;
+}
+
+/**
+ * An authentication server.
+ */
+export interface ModelAaaServer extends ModelServer {
+  /** Authentication protocol */
+  protocol: ModelAaaProtocol;
+}
+
+// ============================================================================
+// Device Model
+// ============================================================================
+
+/**
+ * Vendor-neutral model of a device configuration.
+ *
+ * Each vendor fills the model from its AST, so 'common' rules can check
+ * interfaces, routing and management servers without knowing the syntax
+ * of the 16 supported vendors. Entities a vendor does not configure (or
+ * that the extractor does not understand) are simply absent.
+ */
+export interface DeviceModel {
+  /** Vendor ID the model was extracted with (e.g., 'cisco-ios') */
+  vendor: string;
+
+  /** Configured hostname */
+  hostname?: string;
+
+  interfaces: ModelInterface[];
+  vrfs: ModelVrf[];
+  vlans: ModelVlan[];
+  staticRoutes: ModelStaticRoute[];
+
+  /** The BGP process, when BGP is configured */
+  bgp?: ModelBgp;
+
+  ospf: ModelOspf[];
+  users: ModelUser[];
+  aaaServers: ModelAaaServer[];
+  ntpServers: ModelServer[];
+  snmpServers: ModelServer[];
+  syslogServers: ModelServer[];
+}
+
+/**
+ * Fills a device model from the AST of one vendor.
+ */
+export type ModelExtractor = (ast: ConfigNode[], model: DeviceModel) => void;
@@ -0,0 +1,530 @@
+// packages/core/src/model/vendors/cisco.ts
+
+import type { ConfigNode } from '../../types/ConfigNode';
+import type { DeviceModel, ModelExtractor, ModelInterface } from '../types';
+import {
+  addAaaServer,
+  addServer,
+  addVlan,
+  addVrf,
+  getInterface,
+  getOspf,
+  getUser,
+  isIpAddress,
+  matchWords,
+  maskToPrefixLength,
+  normalizeArea,
+  parseAddress,
+  parseCidr,
+  parsePrefix,
+  regroupByIndent,
+  parseVlanList,
+  sourceOf,
+  tokenize,
+  valueAfter,
+  walkNodes,
+} from '../common';
+
+/**
+ * Model extractor for the Cisco-style CLI shared by IOS, NX-OS, Arista EOS,
+ * Aruba AOS-CX/AOS-Switch/WLC, Extreme VOSS and the FRR part of Cumulus Linux.
+ * Keywords specific to one of them are harmless for the others.
+ */
+export const extractCiscoModel: ModelExtractor = (ast, model) => {
+  const ospfAssignments: OspfAssignment[] = [];
+  const passiveInterfaces = new Set<string>();
+
+  walkNodes(regroupByIndent(ast), (node, parent) => {
+    const words = tokenize(node.id);
+    const lower = words.map((word) => word.toLowerCase());
+    const [first, second] = lower;
+
+    if (first === 'interface' && words.length > 1 && !parent) {
+      readInterface(model, node, words.slice(1).join(' '), ospfAssignments);
+      return false;
+    }
+    if (first === 'router' && second === 'bgp') {
+      readBgp(model, node, words);
+      return false;
+    }
+    if (first === 'router' && second === 'ospf') {
+      readOspf(model, node, words, undefined, passiveInterfaces);
+      return false;
+    }
+    if (first === 'vlan' && !parent) {
+      readVlan(model, node, words, ospfAssignments);
+      return false;
+    }
+    if (first === 'vrf' && !parent) {
+      readVrf(model, node, words);
+      return true;
+    }
+    if ((first === 'ip' || first === 'ipv6') && second === 'vrf' && words.length === 3 && !parent) {
+      readVrf(model, node, words.slice(1));
+      return true;
+    }
+    if ((first === 'radius' || first === 'tacacs') && second === 'server' && node.children.length > 0) {
+      // IOS server groups: radius server NAME / address ipv4 ADDR
+      for (const child of node.children) {
+        const address = matchWords(tokenize(child.id), ['address', '*']);
+        if (address !== -1) {
+          addAaaServer(model, first === 'radius' ? 'radius' : 'tacacs', tokenize(child.id)[address], child);
+        }
+      }
+      return false;
+    }
+    if (first === 'aaa' && second === 'authentication-server' && node.children.length > 0) {
+      // Aruba WLC: aaa authentication-server radius "NAME" / host ADDR
+      const protocol = lower[2] === 'tacacs' ? 'tacacs' : lower[2] === 'ldap' ? 'ldap' : 'radius';
+      for (const child of node.children) {
+        const childWords = tokenize(child.id);
+        if (childWords[0]?.toLowerCase() === 'host') {
+          addAaaServer(model, protocol, childWords[1], child);
+        }
+      }
+      return false;
+    }
+
+    readGlobalCommand(model, node, words, lower, parent);
+    return true;
+  });
+
+  for (const { processId, area, iface, node } of ospfAssignments) {
+    const vrf = model.interfaces.find((i) => i.name === iface)?.vrf;
+    const ospf = processId === undefined
+      ? model.ospf.find((o) => o.vrf === vrf) ?? getOspf(model, undefined, vrf, node)
+      : getOspf(model, processId, vrf, node);
+    ospf.members.push({ name: iface, area, source: sourceOf(node) });
+  }
+  for (const ospf of model.ospf) {
+    for (const member of ospf.members) {
+      if (passiveInterfaces.has(member.name)) member.passive = true;
+    }
+  }
+};
+
+/**
+ * An interface-level OSPF area assignment, resolved against the OSPF
+ * processes once the whole configuration has been read.
+ */
+interface OspfAssignment {
+  processId?: string;
+  area: string;
+  iface: string;
+  node: ConfigNode;
+}
+
+/** Words after a server address that are options rather than addresses */
+const SERVER_OPTION_KEYWORDS = new Set(['vrf', 'use-vrf', 'priority', 'ip', 'ipv6', 'host', 'server']);
+
+/**
+ * Reads the address and VRF of a server command such as
+ * 'ntp server vrf MGMT 10.0.0.1 prefer' or 'ntp server 10.0.0.1 use-vrf management'.
+ */
+function readServerArgs(words: string[]): { address?: string; vrf?: string } {
+  let address: string | undefined;
+  let vrf: string | undefined;
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i] ?? '';
+    const keyword = word.toLowerCase();
+    if (keyword === 'vrf' || keyword === 'use-vrf') {
+      vrf = words[++i];
+    } else if (keyword === 'priority') {
+      i++;
+    } else if (!address && !SERVER_OPTION_KEYWORDS.has(keyword)) {
+      address = word;
+    }
+  }
+  return { ...(address !== undefined && { address }), ...(vrf !== undefined && { vrf }) };
+}
+
+/**
+ * Reads the top-level commands that do not open a section.
+ */
+function readGlobalCommand(
+  model: DeviceModel,
+  node: ConfigNode,
+  words: string[],
+  lower: string[],
+  parent: ConfigNode | undefined
+): void {
+  const [first, second] = lower;
+
+  if (first === 'hostname' && words[1]) {
+    model.hostname ??= words[1];
+  } else if (first === 'snmp-server' && second === 'name' && words[2]) {
+    // Extreme VOSS
+    model.hostname ??= words[2];
+  } else if (first === 'username' && words[1]) {
+    const user = getUser(model, words[1], node);
+    user.privilege ??= valueAfter(words, 'privilege') ?? valueAfter(words, 'role');
+    if (lower.includes('secret') || lower.includes('password')) user.hasPassword = true;
+  } else if (first === 'user' && words[1] && !parent) {
+    // Aruba AOS-CX: user NAME group GROUP password ciphertext ...
+    const user = getUser(model, words[1], node);
+    user.privilege ??= valueAfter(words, 'group');
+    if (lower.includes('password')) user.hasPassword = true;
+  } else if (first === 'password' && lower[2] === 'user-name' && words[3]) {
+    // Aruba AOS-Switch: password manager user-name NAME plaintext ...
+    const user = getUser(model, words[3], node);
+    user.privilege ??= words[1];
+    user.hasPassword = words.length > 4;
+  } else if (first === 'ntp' && second === 'server') {
+    const { address, vrf } = readServerArgs(words.slice(2));
+    addServer(model.ntpServers, address, node, vrf);
+  } else if (first === 'sntp' && second === 'server') {
+    addServer(model.ntpServers, readServerArgs(words.slice(2)).address, node);
+  } else if (first === 'logging') {
+    readLoggingCommand(model, node, words);
+  } else if (first === 'syslog' && second === 'host') {
+    // Extreme VOSS: syslog host 1 address ADDR
+    addServer(model.syslogServers, valueAfter(words, 'address'), node);
+  } else if (first === 'snmp-server' && second === 'host') {
+    addServer(model.snmpServers, words[2], node, valueAfter(words, 'vrf') ?? valueAfter(words, 'use-vrf'));
+  } else if ((first === 'radius-server' || first === 'tacacs-server' || first === 'ldap-server') && second === 'host') {
+    const protocol = first === 'radius-server' ? 'radius' : first === 'tacacs-server' ? 'tacacs' : 'ldap';
+    const { address, vrf } = readServerArgs(words.slice(2));
+    addAaaServer(model, protocol, address, node, vrf);
+  } else if (first === 'radius' && second === 'server' && lower[2] === 'host') {
+    // Extreme VOSS: radius server host ADDR ...
+    addAaaServer(model, 'radius', words[3], node);
+  } else if ((first === 'ip' || first === 'ipv6') && second === 'route') {
+    const vrf = parent && tokenize(parent.id)[0]?.toLowerCase() === 'vrf'
+      ? tokenize(parent.id).slice(-1)[0]
+      : undefined;
+    readStaticRoute(model, node, words.slice(2), vrf);
+  } else if (first === 'ip' && second === 'default-gateway' && isIpAddress(words[2])) {
+    model.staticRoutes.push({ prefix: '0.0.0.0/0', nextHop: words[2], source: sourceOf(node) });
+  } else if (first === 'vlan' && second === 'create' && words[2]) {
+    // Extreme VOSS: vlan create 10 name "Data" type port-mstprstp 0
+    addVlan(model, parseInt(words[2], 10), node, valueAfter(words, 'name'));
+  }
+}
+
+/**
+ * Reads syslog server commands: 'logging host [vrf X] ADDR', 'logging ADDR',
+ * 'logging vrf X host ADDR' (EOS), 'logging server ADDR [use-vrf X]' (NX-OS)
+ * and 'logging ADDR vrf X' (AOS-CX).
+ */
+function readLoggingCommand(model: DeviceModel, node: ConfigNode, words: string[]): void {
+  let rest = words.slice(1);
+  let vrf: string | undefined;
+  if (rest[0]?.toLowerCase() === 'vrf') {
+    vrf = rest[1];
+    rest = rest.slice(2);
+  }
+  const keyword = rest[0]?.toLowerCase();
+  if (keyword === 'host' || keyword === 'server') {
+    const server = readServerArgs(rest.slice(1));
+    addServer(model.syslogServers, server.address, node, vrf ?? server.vrf);
+  } else if (isIpAddress(rest[0])) {
+    addServer(model.syslogServers, rest[0], node, vrf ?? valueAfter(rest, 'vrf'));
+  }
+}
+
+/** Words following a static route destination that are options, not interfaces */
+const ROUTE_OPTION_KEYWORDS = new Set([
+  'name', 'tag', 'track', 'permanent', 'weight', 'distance', 'metric', 'bfd', 'description', 'enable',
+]);
+
+/**
+ * Reads the arguments of 'ip route' / 'ipv6 route':
+ * [vrf X] PREFIX [MASK] [INTERFACE] [NEXT-HOP] [options].
+ */
+function readStaticRoute(model: DeviceModel, node: ConfigNode, args: string[], parentVrf?: string): void {
+  let vrf = parentVrf;
+  let index = 0;
+  if (args[0]?.toLowerCase() === 'vrf') {
+    vrf = args[1];
+    index = 2;
+  }
+  const destination = parsePrefix(args, index);
+  if (!destination) return;
+
+  const route: DeviceModel['staticRoutes'][number] = {
+    prefix: destination.prefix,
+    source: sourceOf(node),
+  };
+  for (const word of args.slice(index + destination.used)) {
+    const keyword = word.toLowerCase();
+    if (ROUTE_OPTION_KEYWORDS.has(keyword)) break;
+    if (isIpAddress(word)) {
+      route.nextHop ??= word;
+    } else if (/^null\d*$/.test(keyword)) {
+      route.discard = true;
+    } else if (/^[a-z]/i.test(word) && !route.interface && !route.nextHop) {
+      route.interface = word;
+    }
+  }
+  if (vrf !== undefined) route.vrf = vrf;
+  model.staticRoutes.push(route);
+}
+
+/**
+ * Reads an interface section.
+ */
+function readInterface(
+  model: DeviceModel,
+  node: ConfigNode,
+  name: string,
+  ospfAssignments: OspfAssignment[]
+): void {
+  const iface = getInterface(model, name, node);
+
+  // Some interface commands open sections of their own ('vrf forwarding X' on IOS)
+  walkNodes(node.children, (child) => {
+    const words = tokenize(child.id);
+    const lower = words.map((word) => word.toLowerCase());
+    const [first, second] = lower;
+
+    if (first === 'description' || (first === 'name' && words.length > 1)) {
+      iface.description = words.slice(1).join(' ');
+    } else if (first === 'shutdown' || first === 'disable') {
+      iface.enabled = false;
+    } else if ((first === 'no' && second === 'shutdown') || first === 'enable') {
+      iface.enabled = true;
+    } else if (first === 'ip' && (second === 'address' || second === 'static')) {
+      addInterfaceAddress(iface, words[2], words[3], lower.includes('secondary'));
+    } else if (first === 'ipv6' && second === 'address') {
+      addInterfaceAddress(iface, words[2]);
+    } else if (first === 'vrf' || (first === 'ip' && second === 'vrf')) {
+      // vrf forwarding X, ip vrf forwarding X, vrf member X (NX-OS), vrf X (EOS), vrf attach X (AOS-CX)
+      iface.vrf = words[words.length - 1];
+    } else if (matchWords(lower, ['switchport', 'access', 'vlan']) !== -1 || matchWords(lower, ['vlan', 'access']) !== -1) {
+      iface.accessVlan = toVlanId(words[words.length - 1]);
+    } else if (first === 'default-vlan-id' || matchWords(lower, ['encapsulation', 'dot1q']) !== -1) {
+      iface.accessVlan = toVlanId(first === 'default-vlan-id' ? words[1] : words[2]);
+    } else if (matchWords(lower, ['switchport', 'trunk', 'allowed', 'vlan']) !== -1 || matchWords(lower, ['vlan', 'trunk', 'allowed']) !== -1) {
+      const list = words.slice(lower.indexOf(first === 'switchport' ? 'vlan' : 'allowed') + 1);
+      const add = list[0]?.toLowerCase() === 'add';
+      const ids = parseVlanList(add ? list.slice(1) : list);
+      iface.trunkVlans = add ? [...(iface.trunkVlans ?? []), ...ids] : ids;
+    } else if (first === 'mtu' && /^\d+$/.test(words[1] ?? '')) {
+      iface.mtu = parseInt(words[1] ?? '0', 10);
+    } else {
+      const assignment = readInterfaceOspf(lower, words);
+      if (assignment) {
+        ospfAssignments.push({ ...assignment, iface: name, node: child });
+      }
+    }
+  });
+}
+
+/**
+ * Reads interface-level OSPF: 'ip ospf 1 area 0' (IOS, AOS-CX),
+ * 'ip ospf area 0' (EOS, FRR) and 'ip router ospf TAG area 0' (NX-OS).
+ */
+function readInterfaceOspf(
+  lower: string[],
+  words: string[]
+): { processId?: string; area: string } | undefined {
+  const areaIndex = lower.indexOf('area');
+  const area = areaIndex === -1 ? undefined : words[areaIndex + 1];
+  if (!area) return undefined;
+  if (matchWords(lower, ['ip', 'ospf']) !== -1 && (areaIndex === 2 || areaIndex === 3)) {
+    return { ...(areaIndex === 3 && { processId: words[2] }), area: normalizeArea(area) };
+  }
+  if (matchWords(lower, ['ip', 'router', 'ospf']) !== -1 && areaIndex === 4) {
+    return { processId: words[3] ?? '', area: normalizeArea(area) };
+  }
+  return undefined;
+}
+
+function addInterfaceAddress(iface: ModelInterface, address?: string, mask?: string, secondary = false): void {
+  const parsed = parseAddress(address, mask);
+  if (parsed) {
+    iface.addresses.push(secondary ? { ...parsed, secondary } : parsed);
+  }
+}
+
+function toVlanId(word: string | undefined): number | undefined {
+  return word && /^\d+$/.test(word) ? parseInt(word, 10) : undefined;
+}
+
+/**
+ * Reads a 'vlan' section or VLAN list. AOS-Switch VLANs with an IP address
+ * are also routed interfaces, named 'vlan N'.
+ */
+function readVlan(
+  model: DeviceModel,
+  node: ConfigNode,
+  words: string[],
+  ospfAssignments: OspfAssignment[]
+): void {
+  const ids = parseVlanList(words.slice(1));
+  const nameNode = node.children.find((child) => tokenize(child.id)[0]?.toLowerCase() === 'name');
+  const name = nameNode ? tokenize(nameNode.id).slice(1).join(' ') : undefined;
+  for (const id of ids) {
+    addVlan(model, id, node, ids.length === 1 ? name : undefined);
+  }
+
+  const routed = node.children.some((child) => matchWords(tokenize(child.id), ['ip', 'address']) !== -1);
+  if (routed && ids.length === 1) {
+    const children = node.children.filter((child) => child !== nameNode);
+    readInterface(model, { ...node, children }, `vlan ${ids[0]}`, ospfAssignments);
+  }
+}
+
+/**
+ * Reads VRF definitions: 'vrf definition X', 'ip vrf X' (IOS), 'vrf context X'
+ * (NX-OS), 'vrf instance X' (EOS) and 'vrf X' (AOS-CX, FRR).
+ */
+function readVrf(model: DeviceModel, node: ConfigNode, words: string[]): void {
+  const keyword = words[1]?.toLowerCase();
+  const name = keyword === 'definition' || keyword === 'context' || keyword === 'instance'
+    ? words[2]
+    : words.length === 2 ? words[1] : undefined;
+  if (!name) return;
+  const rdNode = node.children.find((child) => tokenize(child.id)[0]?.toLowerCase() === 'rd');
+  addVrf(model, name, node, rdNode ? tokenize(rdNode.id)[1] : undefined);
+}
+
+/**
+ * A BGP neighbor or peer group while reading a 'router bgp' section.
+ */
+interface BgpPeer {
+  name: string;
+  vrf?: string;
+  remoteAs?: string;
+  description?: string;
+  group?: string;
+  isGroup: boolean;
+  unnumbered: boolean;
+  node: ConfigNode;
+}
+
+/**
+ * Reads a 'router bgp ASN [vrf X]' section, including VRF sub-sections,
+ * address families, NX-OS neighbor sections and peer groups.
+ */
+function readBgp(model: DeviceModel, node: ConfigNode, words: string[]): void {
+  const asn = words[2];
+  if (!asn) return;
+  const instanceVrf = valueAfter(words, 'vrf');
+  if (!model.bgp) {
+    model.bgp = { asn, neighbors: [], source: sourceOf(node) };
+  }
+  const bgp = model.bgp;
+  const peers = new Map<string, BgpPeer>();
+
+  const getPeer = (name: string, vrf: string | undefined, child: ConfigNode): BgpPeer => {
+    const key = `${vrf ?? ''}|${name}`;
+    let peer = peers.get(key);
+    if (!peer) {
+      peer = { name, isGroup: false, unnumbered: false, node: child, ...(vrf !== undefined && { vrf }) };
+      peers.set(key, peer);
+    }
+    return peer;
+  };
+
+  const readNeighbor = (peer: BgpPeer, args: string[]): void => {
+    const lower = args.map((word) => word.toLowerCase());
+    const [first, second] = lower;
+    if (first === 'remote-as' && args[1]) {
+      peer.remoteAs = args[1];
+    } else if (first === 'description') {
+      peer.description = args.slice(1).join(' ');
+    } else if (first === 'interface') {
+      peer.unnumbered = true;
+      readNeighbor(peer, args.slice(lower[1] === 'v6only' ? 2 : 1));
+    } else if ((first === 'peer-group' || (first === 'peer' && second === 'group')) && args.length <= (first === 'peer' ? 2 : 1)) {
+      peer.isGroup = true;
+    } else if (first === 'peer-group' || (first === 'peer' && second === 'group')) {
+      peer.group = args[first === 'peer' ? 2 : 1];
+    } else if (first === 'inherit' && second === 'peer') {
+      peer.group = args[2];
+    }
+  };
+
+  const readChildren = (children: ConfigNode[], vrf: string | undefined): void => {
+    for (const child of children) {
+      const childWords = tokenize(child.id);
+      const lower = childWords.map((word) => word.toLowerCase());
+      const [first, second] = lower;
+
+      if ((first === 'bgp' && second === 'router-id') || first === 'router-id') {
+        if (vrf === undefined) bgp.routerId ??= childWords[childWords.length - 1];
+      } else if (first === 'neighbor' && childWords[1]) {
+        const peer = getPeer(childWords[1], vrf, child);
+        readNeighbor(peer, childWords.slice(2));
+        for (const option of child.children) {
+          readNeighbor(peer, tokenize(option.id));
+        }
+      } else if (first === 'vrf' && childWords[1]) {
+        readChildren(child.children, childWords[1]);
+      } else if (first === 'address-family') {
+        readChildren(child.children, valueAfter(childWords, 'vrf') ?? vrf);
+      } else if (first === 'template') {
+        // NX-OS peer templates are resolved through 'inherit peer'
+        const peer = getPeer(childWords[2] ?? '', vrf, child);
+        peer.isGroup = true;
+        for (const option of child.children) {
+          readNeighbor(peer, tokenize(option.id));
+        }
+      }
+    }
+  };
+
+  readChildren(node.children, instanceVrf);
+
+  for (const peer of peers.values()) {
+    if (peer.isGroup || (!peer.unnumbered && !isIpAddress(peer.name))) continue;
+    const group = peer.group === undefined ? undefined : peers.get(`${peer.vrf ?? ''}|${peer.group}`)
+      ?? peers.get(`|${peer.group}`);
+    const remoteAs = peer.remoteAs ?? group?.remoteAs;
+    bgp.neighbors.push({
+      address: peer.name,
+      ...(remoteAs !== undefined && { remoteAs }),
+      ...(peer.description !== undefined && { description: peer.description }),
+      ...(peer.vrf !== undefined && { vrf: peer.vrf }),
+      source: sourceOf(peer.node),
+    });
+  }
+}
+
+/**
+ * Reads a 'router ospf [ID] [vrf X]' section, including NX-OS VRF sub-sections.
+ */
+function readOspf(
+  model: DeviceModel,
+  node: ConfigNode,
+  words: string[],
+  parentProcessId: string | undefined,
+  passiveInterfaces: Set<string>
+): void {
+  const lower = words.map((word) => word.toLowerCase());
+  if (lower[1] === 'ospfv3') return;
+  const processId = parentProcessId ?? (words[2] && lower[2] !== 'vrf' ? words[2] : undefined);
+  const vrf = valueAfter(words, 'vrf');
+  const ospf = getOspf(model, processId, vrf, node);
+
+  for (const child of node.children) {
+    const childWords = tokenize(child.id);
+    const childLower = childWords.map((word) => word.toLowerCase());
+    const [first, second] = childLower;
+
+    if (first === 'router-id' || (first === 'ospf' && second === 'router-id')) {
+      ospf.routerId ??= childWords[childWords.length - 1];
+    } else if (first === 'network') {
+      const areaIndex = childLower.indexOf('area');
+      const area = childWords[areaIndex + 1];
+      if (areaIndex === -1 || !area) continue;
+      let prefix: string | undefined;
+      if (childWords[1]?.includes('/')) {
+        prefix = parseCidr(childWords[1]) ? childWords[1] : undefined;
+      } else if (areaIndex === 3 && isIpAddress(childWords[1])) {
+        const length = maskToPrefixLength(childWords[2] ?? '', true);
+        prefix = length === undefined ? undefined : `${childWords[1]}/${length}`;
+      }
+      if (prefix) {
+        ospf.members.push({ name: prefix, area: normalizeArea(area), source: sourceOf(child) });
+      }
+    } else if (first === 'passive-interface' && childWords[1] && childLower[1] !== 'default') {
+      passiveInterfaces.add(childWords.slice(1).join(' '));
+    } else if (first === 'neighbor' && isIpAddress(childWords[1])) {
+      ospf.neighbors.push(childWords[1]);
+    } else if (first === 'vrf' && childWords[1]) {
+      readOspf(model, child, [...words, 'vrf', childWords[1]], processId, passiveInterfaces);
+    }
+  }
+}
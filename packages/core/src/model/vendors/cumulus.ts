@@ -0,0 +1,195 @@
+// packages/core/src/model/vendors/cumulus.ts
+
+import type { ConfigNode } from '../../types/ConfigNode';
+import type { DeviceModel, ModelExtractor } from '../types';
+import {
+  addServer,
+  addVlan,
+  addVrf,
+  flattenStatements,
+  getInterface,
+  getUser,
+  nodeAt,
+  parseCidr,
+  parseVlanList,
+  sourceOf,
+} from '../common';
+import { extractCiscoModel } from './cisco';
+
+/**
+ * Model extractor for Cumulus Linux. FRR configuration is Cisco-style and
+ * read by the Cisco extractor; ifupdown2 stanzas ('iface swp1') and NCLU
+ * ('net add ...') or NVUE ('nv set ...') commands are read here.
+ */
+export const extractCumulusModel: ModelExtractor = (ast, model) => {
+  extractCiscoModel(ast, model);
+
+  for (const statement of flattenStatements(ast)) {
+    const command = nodeAt(statement, 0).id.trim();
+    const at = (index: number): ConfigNode => nodeAt(statement, index);
+    if (statement.words[0] === 'iface') {
+      readIface(model, statement.words, at);
+    } else if (command.startsWith('nv ')) {
+      readNvue(model, statement.words, at);
+    } else if (command.startsWith('net ')) {
+      readNclu(model, statement.words, at);
+    }
+  }
+};
+
+/**
+ * Reads an ifupdown2 setting: 'iface NAME' + 'address', 'alias', 'mtu',
+ * 'vrf', 'bridge-access', 'bridge-vids' or 'vrf-table'.
+ */
+function readIface(model: DeviceModel, w: string[], at: (index: number) => ConfigNode): void {
+  const name = w[1];
+  if (!name) return;
+  const iface = getInterface(model, name, at(1));
+  // 'iface lo inet loopback' carries the address family before the settings
+  const rest = w[2] === 'inet' || w[2] === 'inet6' ? w.slice(4) : w.slice(2);
+  const [setting, value] = rest;
+
+  if (setting === 'address') {
+    const address = parseCidr(value);
+    if (address && !iface.addresses.some((a) => a.address === address.address)) iface.addresses.push(address);
+  } else if (setting === 'alias' && value) {
+    iface.description = rest.slice(1).join(' ');
+  } else if (setting === 'mtu' && /^\d+$/.test(value ?? '')) {
+    iface.mtu = parseInt(value ?? '0', 10);
+  } else if (setting === 'vrf' && value) {
+    iface.vrf = value;
+  } else if (setting === 'vrf-table') {
+    addVrf(model, name, at(1));
+  } else if ((setting === 'bridge-access' || setting === 'vlan-id') && /^\d+$/.test(value ?? '')) {
+    iface.accessVlan = parseInt(value ?? '0', 10);
+  } else if (setting === 'bridge-vids') {
+    const vlans = parseVlanList(rest.slice(1));
+    iface.trunkVlans = vlans;
+    for (const id of vlans) addVlan(model, id, at(1));
+  }
+}
+
+/**
+ * Reads an NCLU command, without its 'net add' prefix.
+ */
+function readNclu(model: DeviceModel, w: string[], at: (index: number) => ConfigNode): void {
+  const [first, second] = w;
+
+  if (first === 'hostname' && second) {
+    model.hostname ??= second;
+  } else if ((first === 'interface' || first === 'loopback' || first === 'bond') && second) {
+    const iface = getInterface(model, second, at(0));
+    readInterfaceSetting(model, iface.name, w.slice(2), at(0));
+  } else if (first === 'vlan' && /^\d+$/.test(second ?? '')) {
+    addVlan(model, parseInt(second ?? '0', 10), at(0));
+    if (w[2] === 'ip' || w[2] === 'ipv6' || w[2] === 'vrf') {
+      readInterfaceSetting(model, `vlan${second}`, w.slice(2), at(0));
+    }
+  } else if (first === 'bridge' && w[2] === 'vids') {
+    for (const id of parseVlanList(w.slice(3))) addVlan(model, id, at(0));
+  } else if (first === 'vrf' && second) {
+    addVrf(model, second, at(0));
+  } else if (first === 'bgp') {
+    const vrf = w[1] === 'vrf' ? w[2] : undefined;
+    readBgp(model, vrf === undefined ? w.slice(1) : w.slice(3), vrf, at(0));
+  } else if (first === 'ntp' && second === 'server' && w[2]) {
+    addServer(model.ntpServers, w[2], at(0));
+  } else if (first === 'syslog' && second === 'host' && w[2] === 'ipv4' && w[3]) {
+    addServer(model.syslogServers, w[3], at(0));
+  }
+}
+
+/**
+ * Reads an NVUE command, without its 'nv set' prefix.
+ */
+function readNvue(model: DeviceModel, w: string[], at: (index: number) => ConfigNode): void {
+  const [first, second] = w;
+
+  if (first === 'system' && second === 'hostname' && w[2]) {
+    model.hostname ??= w[2];
+  } else if (first === 'system' && second === 'aaa' && w[2] === 'user' && w[3]) {
+    const user = getUser(model, w[3], at(0));
+    if (w[4] === 'role' && w[5]) user.privilege = w[5];
+    if (w[4] === 'password' || w[4] === 'hashed-password') user.hasPassword = true;
+  } else if (first === 'interface' && second) {
+    const iface = getInterface(model, second, at(0));
+    const rest = w.slice(2);
+    if (rest[0] === 'description') {
+      iface.description = rest.slice(1).join(' ');
+    } else if (rest[0] === 'link' && rest[1] === 'mtu' && /^\d+$/.test(rest[2] ?? '')) {
+      iface.mtu = parseInt(rest[2] ?? '0', 10);
+    } else if (rest[0] === 'link' && rest[1] === 'state' && rest[2] === 'down') {
+      iface.enabled = false;
+    } else if (rest[0] === 'bridge' && rest[1] === 'domain' && rest[3] === 'access' && /^\d+$/.test(rest[4] ?? '')) {
+      iface.accessVlan = parseInt(rest[4] ?? '0', 10);
+    } else if (rest[0] === 'bridge' && rest[1] === 'domain' && rest[3] === 'vlan') {
+      iface.trunkVlans = parseVlanList(rest.slice(4));
+    } else {
+      readInterfaceSetting(model, second, rest, at(0));
+    }
+  } else if (first === 'bridge' && second === 'domain' && w[3] === 'vlan') {
+    for (const id of parseVlanList(w.slice(4))) addVlan(model, id, at(0));
+  } else if (first === 'router' && second === 'bgp') {
+    readBgp(model, w.slice(2), undefined, at(0));
+  } else if (first === 'vrf' && second) {
+    const vrf = second === 'default' ? undefined : second;
+    if (vrf !== undefined) addVrf(model, vrf, at(0));
+    if (w[2] === 'router' && w[3] === 'bgp') readBgp(model, w.slice(4), vrf, at(0));
+  } else if (first === 'service' && second === 'ntp' && w[3] === 'server' && w[4]) {
+    addServer(model.ntpServers, w[4], at(0));
+  } else if (first === 'service' && second === 'syslog' && w[3] === 'server' && w[4]) {
+    addServer(model.syslogServers, w[4], at(0));
+  }
+}
+
+/**
+ * Reads the 'ip address', 'ipv6 address' and 'vrf' settings shared by NCLU
+ * and NVUE interfaces.
+ */
+function readInterfaceSetting(model: DeviceModel, name: string, w: string[], node: ConfigNode): void {
+  const iface = getInterface(model, name, node);
+  const [first, second] = w;
+  if ((first === 'ip' || first === 'ipv6') && second === 'address') {
+    const address = parseCidr(w[2]);
+    if (address && !iface.addresses.some((a) => a.address === address.address)) iface.addresses.push(address);
+  } else if (first === 'ip' && second === 'vrf' && w[2]) {
+    iface.vrf = w[2];
+  } else if (first === 'vrf' && second) {
+    iface.vrf = second;
+  } else if (first === 'alias' && second) {
+    iface.description = w.slice(1).join(' ');
+  } else if (first === 'mtu' && /^\d+$/.test(second ?? '')) {
+    iface.mtu = parseInt(second ?? '0', 10);
+  } else if (first === 'bridge' && second === 'access' && /^\d+$/.test(w[2] ?? '')) {
+    iface.accessVlan = parseInt(w[2] ?? '0', 10);
+  } else if (first === 'bridge' && second === 'trunk' && w[2] === 'vlans') {
+    iface.trunkVlans = parseVlanList(w.slice(3));
+  }
+}
+
+/**
+ * Reads 'autonomous-system', 'router-id' and 'neighbor X remote-as Y' of
+ * NCLU and NVUE BGP commands.
+ */
+function readBgp(model: DeviceModel, w: string[], vrf: string | undefined, node: ConfigNode): void {
+  const [first, second] = w;
+  if (first === 'autonomous-system' && second && vrf === undefined) {
+    model.bgp ??= { asn: second, neighbors: [], source: sourceOf(node) };
+    return;
+  }
+  const bgp = model.bgp;
+  if (!bgp) return;
+
+  if (first === 'router-id' && second && vrf === undefined) {
+    bgp.routerId ??= second;
+  } else if (first === 'neighbor' && second) {
+    let neighbor = bgp.neighbors.find((n) => n.address === second && n.vrf === vrf);
+    if (!neighbor) {
+      neighbor = { address: second, ...(vrf !== undefined && { vrf }), source: sourceOf(node) };
+      bgp.neighbors.push(neighbor);
+    }
+    const remoteAs = w.indexOf('remote-as');
+    if (remoteAs !== -1 && w[remoteAs + 1]) neighbor.remoteAs = w[remoteAs + 1];
+    if (w[2] === 'description') neighbor.description = w.slice(3).join(' ');
+  }
+}
@@ -0,0 +1,133 @@
+// packages/core/src/model/vendors/extreme.ts
+
+import type { ConfigNode } from '../../types/ConfigNode';
+import type { ModelExtractor } from '../types';
+import {
+  addAaaServer,
+  addServer,
+  addVlan,
+  addVrf,
+  getInterface,
+  getOspf,
+  getUser,
+  isIpAddress,
+  matchWords,
+  normalizeArea,
+  parseAddress,
+  parsePrefix,
+  sourceOf,
+  tokenize,
+  valueAfter,
+  walkNodes,
+} from '../common';
+
+/**
+ * Model extractor for Extreme EXOS, whose configuration is a flat list of
+ * 'create' and 'configure' commands. VLANs are the layer 3 interfaces,
+ * and virtual routers are the VRFs.
+ */
+export const extractExosModel: ModelExtractor = (ast, model) => {
+  const vlanTags = new Map<string, { node: ConfigNode; tag?: number }>();
+  const bgpNeighbors = new Map<string, { remoteAs?: string; description?: string; node: ConfigNode }>();
+  let asn: string | undefined;
+  let bgpNode: ConfigNode | undefined;
+  let bgpRouterId: string | undefined;
+
+  walkNodes(ast, (node) => {
+    const words = tokenize(node.id);
+    const lower = words.map((word) => word.toLowerCase());
+    let at: number;
+
+    if ((at = matchWords(lower, ['configure', 'snmp', 'sysname'])) !== -1) {
+      model.hostname ??= words[at];
+    } else if ((at = matchWords(lower, ['create', 'vlan'])) !== -1 && words[at]) {
+      const tag = valueAfter(lower, 'tag');
+      vlanTags.set(words[at] ?? '', { node, ...(tag !== undefined && { tag: parseInt(tag, 10) }) });
+    } else if ((at = matchWords(lower, ['configure', 'vlan', '*', 'tag'])) !== -1) {
+      const vlan = vlanTags.get(words[2] ?? '');
+      if (vlan) vlan.tag = parseInt(words[at] ?? '', 10);
+    } else if ((at = matchWords(lower, ['configure', 'vlan', '*', 'ipaddress'])) !== -1) {
+      const address = parseAddress(words[at], words[at + 1]);
+      if (address) getInterface(model, words[2] ?? '', node).addresses.push(address);
+    } else if ((at = matchWords(lower, ['configure', 'vlan', '*', 'description-string'])) !== -1) {
+      getInterface(model, words[2] ?? '', node).description = words.slice(at).join(' ');
+    } else if ((at = matchWords(lower, ['create', 'virtual-router'])) !== -1 || (at = matchWords(lower, ['create', 'vr'])) !== -1) {
+      if (words[at]) addVrf(model, words[at] ?? '', node);
+    } else if ((at = matchWords(lower, ['configure', 'iproute', 'add'])) !== -1) {
+      const destination = lower[at] === 'default'
+        ? { prefix: '0.0.0.0/0', used: 1 }
+        : parsePrefix(words, at);
+      if (!destination) return true;
+      const nextHop = words[at + destination.used];
+      const vrf = valueAfter(words, 'vr');
+      model.staticRoutes.push({
+        prefix: destination.prefix,
+        ...(isIpAddress(nextHop) && { nextHop }),
+        ...(vrf !== undefined && { vrf }),
+        source: sourceOf(node),
+      });
+    } else if ((at = matchWords(lower, ['configure', 'bgp', 'as-number'])) !== -1) {
+      asn = words[at];
+      bgpNode ??= node;
+    } else if ((at = matchWords(lower, ['configure', 'bgp', 'routerid'])) !== -1) {
+      bgpRouterId = words[at];
+    } else if ((at = matchWords(lower, ['create', 'bgp', 'neighbor'])) !== -1 && words[at]) {
+      const remoteAs = valueAfter(lower, 'remote-as-number');
+      bgpNeighbors.set(words[at] ?? '', { node, ...(remoteAs !== undefined && { remoteAs }) });
+    } else if ((at = matchWords(lower, ['configure', 'bgp', 'neighbor', '*', 'description'])) !== -1) {
+      const neighbor = bgpNeighbors.get(words[3] ?? '');
+      if (neighbor) neighbor.description = words.slice(at).join(' ');
+    } else if ((at = matchWords(lower, ['configure', 'ospf', 'routerid'])) !== -1) {
+      getOspf(model, undefined, undefined, node).routerId = words[at];
+    } else if ((at = matchWords(lower, ['configure', 'ospf', 'add', 'vlan'])) !== -1) {
+      const area = valueAfter(lower, 'area');
+      if (words[at] && area) {
+        getOspf(model, undefined, undefined, node).members.push({
+          name: words[at] ?? '',
+          area: normalizeArea(area),
+          ...(lower.includes('passive') && { passive: true }),
+          source: sourceOf(node),
+        });
+      }
+    } else if ((at = matchWords(lower, ['create', 'account'])) !== -1 && words[at + 1]) {
+      const user = getUser(model, words[at + 1] ?? '', node);
+      user.privilege = words[at];
+      user.hasPassword = words.length > at + 2;
+    } else if (lower[0] === 'configure' && (lower[1] === 'radius' || lower[1] === 'tacacs') && lower.includes('server')) {
+      addAaaServer(model, lower[1] === 'radius' ? 'radius' : 'tacacs', valueAfter(words, 'server'), node, valueAfter(words, 'vr'));
+    } else if ((at = matchWords(lower, ['configure', 'sntp-client'])) !== -1 && (lower[at] === 'primary' || lower[at] === 'secondary')) {
+      const address = lower[at + 1] === 'server' ? words[at + 2] : words[at + 1];
+      addServer(model.ntpServers, address, node, valueAfter(words, 'vr'));
+    } else if ((at = matchWords(lower, ['configure', 'ntp', 'server', 'add'])) !== -1) {
+      addServer(model.ntpServers, words[at], node, valueAfter(words, 'vr'));
+    } else if ((at = matchWords(lower, ['configure', 'snmp', 'add', 'trapreceiver'])) !== -1) {
+      addServer(model.snmpServers, words[at], node, valueAfter(words, 'vr'));
+    } else if (matchWords(lower, ['configure', 'snmpv3', 'add', 'target-addr']) !== -1) {
+      addServer(model.snmpServers, valueAfter(words, 'ipaddress'), node, valueAfter(words, 'vr'));
+    } else if ((at = matchWords(lower, ['configure', 'syslog', 'add'])) !== -1) {
+      // configure syslog add 10.0.0.1:514 vr VR-Mgmt local0
+      addServer(model.syslogServers, words[at]?.replace(/:\d+$/, ''), node, valueAfter(words, 'vr'));
+    }
+    return true;
+  });
+
+  for (const [name, { node, tag }] of vlanTags) {
+    if (tag !== undefined) addVlan(model, tag, node, name);
+    const iface = model.interfaces.find((i) => i.name === name);
+    if (iface && tag !== undefined) iface.accessVlan = tag;
+  }
+  if (asn !== undefined && bgpNode) {
+    model.bgp = {
+      asn,
+      ...(bgpRouterId !== undefined && { routerId: bgpRouterId }),
+      neighbors: [...bgpNeighbors].map(([address, { remoteAs, description, node }]) => ({
+        address,
+        ...(remoteAs !== undefined && { remoteAs }),
+        ...(description !== undefined && { description }),
+        source: sourceOf(node),
+      })),
+      source: sourceOf(bgpNode),
+    };
+  }
+};
+
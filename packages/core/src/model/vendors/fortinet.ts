@@ -0,0 +1,212 @@
+// packages/core/src/model/vendors/fortinet.ts
+
+import type { ConfigNode } from '../../types/ConfigNode';
+import type { DeviceModel, ModelExtractor } from '../types';
+import {
+  addAaaServer,
+  addServer,
+  addVlan,
+  getInterface,
+  getOspf,
+  getUser,
+  isIpAddress,
+  maskToPrefixLength,
+  normalizeArea,
+  parseAddress,
+  parseCidr,
+  parsePrefix,
+  sourceOf,
+  tokenize,
+  walkNodes,
+} from '../common';
+
+/**
+ * An 'edit' entry of a FortiOS config section with its 'set' values.
+ */
+interface EditEntry {
+  name: string;
+  node: ConfigNode;
+  values: Map<string, string[]>;
+}
+
+/**
+ * Reads the 'set KEY VALUE...' commands of a node, keeping the original case.
+ */
+function readSettings(node: ConfigNode): Map<string, string[]> {
+  const values = new Map<string, string[]>();
+  for (const child of node.children) {
+    const words = tokenize(child.id);
+    if (words[0]?.toLowerCase() === 'set' && words[1]) {
+      values.set(words[1].toLowerCase(), words.slice(2));
+    }
+  }
+  return values;
+}
+
+/**
+ * Reads the 'edit NAME' entries of a config section.
+ */
+function readEntries(section: ConfigNode | undefined): EditEntry[] {
+  if (!section) return [];
+  return section.children
+    .filter((child) => tokenize(child.id)[0]?.toLowerCase() === 'edit')
+    .map((node) => ({ name: tokenize(node.id)[1] ?? '', node, values: readSettings(node) }));
+}
+
+/**
+ * Returns the first word of a 'set' value.
+ */
+function first(values: Map<string, string[]>, key: string): string | undefined {
+  return values.get(key)?.[0];
+}
+
+/**
+ * Finds a nested 'config NAME' section of a node.
+ */
+function findSubsection(node: ConfigNode, name: string): ConfigNode | undefined {
+  return node.children.find((child) => child.id.toLowerCase() === `config ${name}`);
+}
+
+/**
+ * Model extractor for Fortinet FortiGate (FortiOS 'config' / 'edit' / 'set').
+ * Sections are also found inside 'config vdom' entries.
+ */
+export const extractFortinetModel: ModelExtractor = (ast, model) => {
+  walkNodes(ast, (node) => {
+    const section = node.id.trim().toLowerCase().replace(/\s+/g, ' ');
+
+    switch (section) {
+      case 'config system global':
+        model.hostname ??= first(readSettings(node), 'hostname');
+        return false;
+      case 'config system interface':
+        for (const entry of readEntries(node)) readInterface(model, entry);
+        return false;
+      case 'config router static':
+        for (const entry of readEntries(node)) readStaticRoute(model, entry);
+        return false;
+      case 'config router bgp':
+        readBgp(model, node);
+        return false;
+      case 'config router ospf':
+        readOspf(model, node);
+        return false;
+      case 'config system admin':
+        for (const { name, node: entry, values } of readEntries(node)) {
+          const user = getUser(model, name, entry);
+          user.privilege = first(values, 'accprofile');
+          user.hasPassword = values.has('password');
+        }
+        return false;
+      case 'config user radius':
+      case 'config user tacacs+':
+      case 'config user ldap': {
+        const protocol = section.endsWith('radius') ? 'radius' : section.endsWith('ldap') ? 'ldap' : 'tacacs';
+        for (const { node: entry, values } of readEntries(node)) {
+          for (const key of ['server', 'secondary-server', 'tertiary-server']) {
+            addAaaServer(model, protocol, first(values, key), entry);
+          }
+        }
+        return false;
+      }
+      case 'config system ntp': {
+        const servers = findSubsection(node, 'ntpserver');
+        for (const { node: entry, values } of readEntries(servers)) {
+          addServer(model.ntpServers, first(values, 'server'), entry);
+        }
+        return false;
+      }
+      case 'config system snmp community':
+        for (const community of readEntries(node)) {
+          for (const { node: entry, values } of readEntries(findSubsection(community.node, 'hosts'))) {
+            addServer(model.snmpServers, first(values, 'ip')?.split('/')[0], entry);
+          }
+        }
+        return false;
+      default:
+        if (/^config log syslogd\d? setting$/.test(section)) {
+          addServer(model.syslogServers, first(readSettings(node), 'server'), node);
+          return false;
+        }
+        return true;
+    }
+  });
+};
+
+function readInterface(model: DeviceModel, { name, node, values }: EditEntry): void {
+  const iface = getInterface(model, name, node);
+  const ip = values.get('ip');
+  const address = parseAddress(ip?.[0], ip?.[1]);
+  if (address && address.address !== '0.0.0.0') iface.addresses.push(address);
+
+  const ipv6 = findSubsection(node, 'ipv6');
+  const ip6 = ipv6 ? parseCidr(readSettings(ipv6).get('ip6-address')?.[0]) : undefined;
+  if (ip6 && ip6.address !== '::') iface.addresses.push(ip6);
+
+  const description = values.get('description') ?? values.get('alias');
+  if (description) iface.description = description.join(' ');
+  if (values.get('status')?.[0] === 'down') iface.enabled = false;
+  if (values.has('vrf')) iface.vrf = values.get('vrf')?.[0];
+  if (values.get('mtu-override')?.[0] === 'enable' && values.has('mtu')) {
+    iface.mtu = parseInt(values.get('mtu')?.[0] ?? '', 10) || undefined;
+  }
+  const vlanId = parseInt(values.get('vlanid')?.[0] ?? '', 10);
+  if (vlanId) {
+    iface.accessVlan = vlanId;
+    addVlan(model, vlanId, node, name);
+  }
+}
+
+function readStaticRoute(model: DeviceModel, { node, values }: EditEntry): void {
+  const dst = values.get('dst');
+  const destination = dst ? parsePrefix(dst, 0) : { prefix: '0.0.0.0/0', used: 0 };
+  if (!destination) return;
+  const gateway = values.get('gateway')?.[0];
+  const device = values.get('device')?.[0];
+  const vrf = values.get('vrf')?.[0];
+  model.staticRoutes.push({
+    prefix: destination.prefix,
+    ...(isIpAddress(gateway) && gateway !== '0.0.0.0' && { nextHop: gateway }),
+    ...(device !== undefined && { interface: device }),
+    ...(values.get('blackhole')?.[0] === 'enable' && { discard: true }),
+    ...(vrf !== undefined && { vrf }),
+    source: sourceOf(node),
+  });
+}
+
+function readBgp(model: DeviceModel, node: ConfigNode): void {
+  const values = readSettings(node);
+  const asn = values.get('as')?.[0];
+  if (!asn || asn === '0') return;
+  const routerId = values.get('router-id')?.[0];
+  model.bgp = {
+    asn,
+    ...(routerId !== undefined && { routerId }),
+    neighbors: readEntries(findSubsection(node, 'neighbor')).map(({ name, node: entry, values: neighbor }) => {
+      const remoteAs = neighbor.get('remote-as')?.[0];
+      const description = neighbor.get('description');
+      return {
+        address: name,
+        ...(remoteAs !== undefined && { remoteAs }),
+        ...(description !== undefined && { description: description.join(' ') }),
+        source: sourceOf(entry),
+      };
+    }),
+    source: sourceOf(node),
+  };
+}
+
+function readOspf(model: DeviceModel, node: ConfigNode): void {
+  const values = readSettings(node);
+  const ospf = getOspf(model, undefined, undefined, node);
+  ospf.routerId ??= values.get('router-id')?.[0];
+
+  for (const { node: entry, values: network } of readEntries(findSubsection(node, 'network'))) {
+    const prefix = network.get('prefix');
+    const area = network.get('area')?.[0];
+    const length = prefix?.[1] ? maskToPrefixLength(prefix[1]) : undefined;
+    if (prefix?.[0] && area && length !== undefined) {
+      ospf.members.push({ name: `${prefix[0]}/${length}`, area: normalizeArea(area), source: sourceOf(entry) });
+    }
+  }
+}
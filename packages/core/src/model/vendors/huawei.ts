@@ -0,0 +1,230 @@
+// packages/core/src/model/vendors/huawei.ts
+
+import type { ConfigNode } from '../../types/ConfigNode';
+import type { DeviceModel, ModelExtractor } from '../types';
+import {
+  addAaaServer,
+  addServer,
+  addVlan,
+  addVrf,
+  getInterface,
+  getOspf,
+  getUser,
+  isIpAddress,
+  maskToPrefixLength,
+  normalizeArea,
+  parseAddress,
+  parsePrefix,
+  parseVlanList,
+  sourceOf,
+  tokenize,
+  valueAfter,
+  walkNodes,
+} from '../common';
+
+/**
+ * Model extractor for Huawei VRP.
+ */
+export const extractHuaweiModel: ModelExtractor = (ast, model) => {
+  walkNodes(ast, (node, parent) => {
+    const words = tokenize(node.id);
+    const lower = words.map((word) => word.toLowerCase());
+    const [first, second] = lower;
+
+    if (first === 'interface' && words[1] && !parent) {
+      readInterface(model, node, words.slice(1).join(' '));
+      return false;
+    }
+    if (first === 'bgp' && words[1] && !parent) {
+      readBgp(model, node, words[1]);
+      return false;
+    }
+    if (first === 'ospf' && !parent) {
+      readOspf(model, node, words);
+      return false;
+    }
+
+    if (first === 'sysname' && words[1]) {
+      model.hostname ??= words[1];
+    } else if (first === 'vlan' && second === 'batch') {
+      for (const id of parseVlanList(words.slice(2))) addVlan(model, id, node);
+    } else if (first === 'vlan' && words.length === 2 && !parent) {
+      const named = node.children.map((child) => tokenize(child.id))
+        .find((childWords) => childWords[0] === 'name' || childWords[0] === 'description');
+      addVlan(model, parseInt(words[1] ?? '', 10), node, named?.slice(1).join(' '));
+    } else if (first === 'ip' && second === 'vpn-instance' && words[2]) {
+      const rd = node.children.flatMap((child) => [child, ...child.children])
+        .map((child) => tokenize(child.id))
+        .find((childWords) => childWords[0] === 'route-distinguisher');
+      addVrf(model, words[2], node, rd?.[1]);
+    } else if (first === 'ip' && second === 'route-static') {
+      readStaticRoute(model, node, words.slice(2));
+    } else if (first === 'local-user' && words[1]) {
+      const user = getUser(model, words[1], node);
+      if (lower[2] === 'password' || lower[2] === 'cipher') user.hasPassword = true;
+      if (lower[2] === 'privilege') user.privilege = words[4] ?? words[3];
+    } else if ((first === 'radius-server' || first === 'hwtacacs-server') && lower.includes('authentication')) {
+      const protocol = first === 'radius-server' ? 'radius' : 'tacacs';
+      addAaaServer(model, protocol, words[lower.indexOf('authentication') + 1], node, valueAfter(words, 'vpn-instance'));
+    } else if (first === 'ntp-service' && (second === 'unicast-server' || second === 'ipv6')) {
+      const address = second === 'ipv6' ? words[3] : words[2];
+      addServer(model.ntpServers, address, node, valueAfter(words, 'vpn-instance'));
+    } else if (first === 'snmp-agent' && second === 'target-host') {
+      addServer(model.snmpServers, valueAfter(words, 'address') === 'udp-domain'
+        ? valueAfter(words, 'udp-domain')
+        : valueAfter(words, 'address'), node, valueAfter(words, 'vpn-instance'));
+    } else if (first === 'info-center' && second === 'loghost' && words[2]) {
+      const address = words[2] === 'ipv6' ? words[3] : words[2];
+      addServer(model.syslogServers, address, node, valueAfter(words, 'vpn-instance'));
+    }
+    return true;
+  });
+};
+
+/**
+ * Reads an interface section.
+ */
+function readInterface(model: DeviceModel, node: ConfigNode, name: string): void {
+  const iface = getInterface(model, name, node);
+
+  for (const child of node.children) {
+    const words = tokenize(child.id);
+    const lower = words.map((word) => word.toLowerCase());
+    const [first, second] = lower;
+
+    if (first === 'description') {
+      iface.description = words.slice(1).join(' ');
+    } else if (first === 'shutdown') {
+      iface.enabled = false;
+    } else if (first === 'undo' && second === 'shutdown') {
+      iface.enabled = true;
+    } else if ((first === 'ip' || first === 'ipv6') && second === 'address') {
+      const address = parseAddress(words[2], words[3]);
+      if (address) {
+        iface.addresses.push(lower.includes('sub') ? { ...address, secondary: true } : address);
+      }
+    } else if (first === 'ip' && second === 'binding' && lower[2] === 'vpn-instance') {
+      iface.vrf = words[3];
+    } else if (first === 'port' && second === 'default' && lower[2] === 'vlan') {
+      iface.accessVlan = parseInt(words[3] ?? '', 10) || undefined;
+    } else if (first === 'port' && second === 'trunk' && lower[2] === 'allow-pass' && lower[3] === 'vlan') {
+      iface.trunkVlans = [...(iface.trunkVlans ?? []), ...parseVlanList(words.slice(4))];
+    } else if (first === 'dot1q' && second === 'termination' && lower[2] === 'vid') {
+      iface.accessVlan = parseInt(words[3] ?? '', 10) || undefined;
+    } else if (first === 'mtu' && /^\d+$/.test(words[1] ?? '')) {
+      iface.mtu = parseInt(words[1] ?? '0', 10);
+    } else if (first === 'ospf' && second === 'enable' && words[2]) {
+      // ospf enable PROCESS area AREA
+      const area = valueAfter(words, 'area');
+      if (area) {
+        const ospf = getOspf(model, words[2], iface.vrf, child);
+        ospf.members.push({ name, area: normalizeArea(area), source: sourceOf(child) });
+      }
+    }
+  }
+}
+
+/**
+ * Reads 'ip route-static [vpn-instance X] PREFIX MASK NEXT-HOP|INTERFACE [NEXT-HOP]'.
+ */
+function readStaticRoute(model: DeviceModel, node: ConfigNode, args: string[]): void {
+  let index = 0;
+  let vrf: string | undefined;
+  if (args[0]?.toLowerCase() === 'vpn-instance') {
+    vrf = args[1];
+    index = 2;
+  }
+  const destination = parsePrefix(args, index);
+  if (!destination) return;
+
+  const route: DeviceModel['staticRoutes'][number] = { prefix: destination.prefix, source: sourceOf(node) };
+  for (const word of args.slice(index + destination.used)) {
+    const keyword = word.toLowerCase();
+    if (keyword === 'preference' || keyword === 'tag' || keyword === 'description') break;
+    if (isIpAddress(word)) {
+      route.nextHop ??= word;
+    } else if (keyword.startsWith('null')) {
+      route.discard = true;
+    } else if (/^[a-z]/i.test(word) && !route.interface) {
+      route.interface = word;
+    }
+  }
+  if (vrf !== undefined) route.vrf = vrf;
+  model.staticRoutes.push(route);
+}
+
+/**
+ * Reads a 'bgp ASN' section, including 'ipv4-family vpn-instance X' peers
+ * and peers inheriting 'as-number' from a group.
+ */
+function readBgp(model: DeviceModel, node: ConfigNode, asn: string): void {
+  const bgp = (model.bgp ??= { asn, neighbors: [], source: sourceOf(node) });
+  const groupAs = new Map<string, string>();
+  const peers = new Map<string, { remoteAs?: string; group?: string; description?: string; vrf?: string; node: ConfigNode }>();
+
+  const readChildren = (children: ConfigNode[], vrf: string | undefined): void => {
+    for (const child of children) {
+      const words = tokenize(child.id);
+      const lower = words.map((word) => word.toLowerCase());
+      if (lower[0] === 'router-id' && vrf === undefined) {
+        bgp.routerId ??= words[1];
+      } else if (lower[0] === 'group' && words[1]) {
+        groupAs.set(words[1], '');
+      } else if (lower[0] === 'peer' && words[1]) {
+        if (groupAs.has(words[1])) {
+          if (lower[2] === 'as-number' && words[3]) groupAs.set(words[1], words[3]);
+          continue;
+        }
+        const key = `${vrf ?? ''}|${words[1]}`;
+        const peer = peers.get(key) ?? { node: child, ...(vrf !== undefined && { vrf }) };
+        peers.set(key, peer);
+        if (lower[2] === 'as-number') peer.remoteAs = words[3];
+        if (lower[2] === 'group') peer.group = words[3];
+        if (lower[2] === 'description') peer.description = words.slice(3).join(' ');
+      } else if (lower[0] === 'ipv4-family' || lower[0] === 'ipv6-family') {
+        readChildren(child.children, valueAfter(words, 'vpn-instance') ?? vrf);
+      }
+    }
+  };
+  readChildren(node.children, undefined);
+
+  for (const [key, peer] of peers) {
+    const address = key.slice(key.indexOf('|') + 1);
+    if (!isIpAddress(address)) continue;
+    const remoteAs = peer.remoteAs ?? (peer.group ? groupAs.get(peer.group) || undefined : undefined);
+    bgp.neighbors.push({
+      address,
+      ...(remoteAs !== undefined && { remoteAs }),
+      ...(peer.description !== undefined && { description: peer.description }),
+      ...(peer.vrf !== undefined && { vrf: peer.vrf }),
+      source: sourceOf(peer.node),
+    });
+  }
+}
+
+/**
+ * Reads an 'ospf [ID] [router-id X] [vpn-instance X]' section with its
+ * 'area' sub-sections and 'network ADDR WILDCARD' statements.
+ */
+function readOspf(model: DeviceModel, node: ConfigNode, words: string[]): void {
+  const processId = words[1] && /^\d+$/.test(words[1]) ? words[1] : undefined;
+  const ospf = getOspf(model, processId, valueAfter(words, 'vpn-instance'), node);
+  ospf.routerId ??= valueAfter(words, 'router-id');
+
+  for (const area of node.children) {
+    const areaWords = tokenize(area.id);
+    if (areaWords[0]?.toLowerCase() !== 'area' || !areaWords[1]) continue;
+    for (const child of area.children) {
+      const childWords = tokenize(child.id);
+      if (childWords[0]?.toLowerCase() !== 'network' || !isIpAddress(childWords[1])) continue;
+      const length = maskToPrefixLength(childWords[2] ?? '', true);
+      if (length !== undefined) {
+        ospf.members.push({
+          name: `${childWords[1]}/${length}`,
+          area: normalizeArea(areaWords[1]),
+          source: sourceOf(child),
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,242 @@
+// packages/core/src/model/vendors/juniper.ts
+
+import type { ConfigNode } from '../../types/ConfigNode';
+import type { DeviceModel, ModelBgpNeighbor, ModelExtractor, ModelStaticRoute } from '../types';
+import {
+  addAaaServer,
+  addServer,
+  addVlan,
+  addVrf,
+  flattenStatements,
+  getInterface,
+  getOspf,
+  getUser,
+  isIpAddress,
+  nodeAt,
+  normalizeArea,
+  parseCidr,
+  parseVlanList,
+  sourceOf,
+} from '../common';
+import type { Statement } from '../common';
+
+/**
+ * State collected while reading the statements of one configuration.
+ */
+interface JunosState {
+  routes: Map<string, ModelStaticRoute>;
+  groups: Map<string, { peerAs?: string; internal: boolean }>;
+  neighbors: Map<string, ModelBgpNeighbor & { group: string }>;
+  vlanMembers: Map<string, { node: ConfigNode; members: number[]; trunk: boolean }>;
+  routerId?: string;
+}
+
+/**
+ * Model extractor for Juniper Junos, in brace ('interfaces { ... }') or
+ * 'set' format. Logical units are interfaces of their own ('ge-0/0/0.0'),
+ * and routing instances are the VRFs.
+ */
+export const extractJunosModel: ModelExtractor = (ast, model) => {
+  const state: JunosState = { routes: new Map(), groups: new Map(), neighbors: new Map(), vlanMembers: new Map() };
+
+  for (const statement of flattenStatements(ast)) {
+    const { words } = statement;
+    if (words[0] === 'routing-instances' && words[1]) {
+      readStatement(model, state, statement, 2, words[1]);
+    } else if (words[0] !== 'groups' && words[0] !== 'logical-systems') {
+      readStatement(model, state, statement, 0, undefined);
+    }
+  }
+
+  model.staticRoutes.push(...state.routes.values());
+  if (state.routerId !== undefined) {
+    if (model.bgp) model.bgp.routerId = state.routerId;
+    for (const ospf of model.ospf) {
+      if (ospf.vrf === undefined) ospf.routerId = state.routerId;
+    }
+  }
+  for (const { group, ...neighbor } of state.neighbors.values()) {
+    const groupInfo = state.groups.get(`${neighbor.vrf ?? ''}|${group}`);
+    const remoteAs = neighbor.remoteAs ?? groupInfo?.peerAs ?? (groupInfo?.internal ? model.bgp?.asn : undefined);
+    model.bgp?.neighbors.push({ ...neighbor, ...(remoteAs !== undefined && { remoteAs }) });
+  }
+  for (const [name, { members, trunk }] of state.vlanMembers) {
+    const iface = model.interfaces.find((i) => i.name === name);
+    if (!iface) continue;
+    if (trunk) iface.trunkVlans = members;
+    else if (members.length === 1) iface.accessVlan = members[0];
+  }
+  // Logical units of a disabled physical interface are down too
+  for (const iface of model.interfaces) {
+    const physical = iface.name.includes('.') ? iface.name.slice(0, iface.name.lastIndexOf('.')) : undefined;
+    if (physical && model.interfaces.find((i) => i.name === physical)?.enabled === false) {
+      iface.enabled = false;
+    }
+  }
+};
+
+function readStatement(
+  model: DeviceModel,
+  state: JunosState,
+  statement: Statement,
+  start: number,
+  vrf: string | undefined
+): void {
+  const w = statement.words.slice(start);
+  const at = (index: number): ConfigNode => nodeAt(statement, start + index);
+  const [first, second] = w;
+
+  if (vrf !== undefined) {
+    if (first === 'instance-type' && (second === 'vrf' || second === 'virtual-router')) {
+      addVrf(model, vrf, at(-1));
+    } else if (first === 'route-distinguisher' && second) {
+      addVrf(model, vrf, at(-1), second);
+    } else if (first === 'interface' && second) {
+      getInterface(model, second, at(1)).vrf = vrf;
+    }
+  }
+
+  if (first === 'system' && vrf === undefined) {
+    readSystem(model, w.slice(1), (index) => at(index + 1));
+  } else if (first === 'interfaces' && second && second !== 'interface-range') {
+    readInterface(model, state, w, at);
+  } else if (first === 'routing-options') {
+    if (second === 'router-id' && w[2] && vrf === undefined) {
+      state.routerId = w[2];
+    } else if (second === 'autonomous-system' && w[2] && vrf === undefined) {
+      model.bgp ??= { asn: w[2], neighbors: [], source: sourceOf(at(1)) };
+    }
+    const route = w.indexOf('route');
+    if (w.includes('static') && route !== -1 && w[route + 1]) {
+      readStaticRoute(state, w.slice(route + 1), vrf, at(route + 1));
+    }
+  } else if (first === 'protocols' && second === 'bgp' && w[2] === 'group' && w[3]) {
+    readBgpGroup(model, state, w.slice(3), vrf, (index) => at(index + 3));
+  } else if (first === 'protocols' && second === 'ospf' && w[2] === 'area' && w[3] && w[4] === 'interface' && w[5]) {
+    const ospf = getOspf(model, undefined, vrf, at(1));
+    if (!ospf.members.some((m) => m.name === w[5])) {
+      ospf.members.push({
+        name: w[5],
+        area: normalizeArea(w[3]),
+        ...(w[6] === 'passive' && { passive: true }),
+        source: sourceOf(at(5)),
+      });
+    } else if (w[6] === 'passive') {
+      const member = ospf.members.find((m) => m.name === w[5]);
+      if (member) member.passive = true;
+    }
+  } else if (first === 'snmp' && second === 'trap-group' && w[3] === 'targets' && w[4]) {
+    addServer(model.snmpServers, w[4], at(4));
+  } else if (first === 'vlans' && second && w[2] === 'vlan-id' && w[3]) {
+    addVlan(model, parseInt(w[3], 10), at(1), second);
+  }
+}
+
+function readSystem(model: DeviceModel, w: string[], at: (index: number) => ConfigNode): void {
+  const [first, second] = w;
+  if (first === 'host-name' && second) {
+    model.hostname ??= second;
+  } else if (first === 'login' && second === 'user' && w[2]) {
+    const user = getUser(model, w[2], at(2));
+    if (w[3] === 'class' && w[4]) user.privilege = w[4];
+    if (w[3] === 'authentication' && /password$/.test(w[4] ?? '')) user.hasPassword = true;
+  } else if (first === 'radius-server' && second) {
+    addAaaServer(model, 'radius', second, at(1));
+  } else if (first === 'tacplus-server' && second) {
+    addAaaServer(model, 'tacacs', second, at(1));
+  } else if (first === 'ntp' && second === 'server' && w[2]) {
+    addServer(model.ntpServers, w[2], at(2));
+  } else if (first === 'syslog' && second === 'host' && w[2]) {
+    addServer(model.syslogServers, w[2], at(2));
+  }
+}
+
+function readInterface(
+  model: DeviceModel,
+  state: JunosState,
+  w: string[],
+  at: (index: number) => ConfigNode
+): void {
+  const physical = w[1] ?? '';
+  let name = physical;
+  let rest = w.slice(2);
+  let offset = 2;
+  if (rest[0] === 'unit' && rest[1]) {
+    name = `${physical}.${rest[1]}`;
+    rest = rest.slice(2);
+    offset = 4;
+  }
+  const iface = getInterface(model, name, at(offset - 1));
+  const [first, second] = rest;
+
+  if (first === 'description') {
+    iface.description = rest.slice(1).join(' ');
+  } else if (first === 'disable') {
+    iface.enabled = false;
+  } else if (first === 'mtu' && /^\d+$/.test(second ?? '')) {
+    iface.mtu = parseInt(second ?? '0', 10);
+  } else if (first === 'vlan-id' && /^\d+$/.test(second ?? '')) {
+    iface.accessVlan = parseInt(second ?? '0', 10);
+  } else if (first === 'family' && (second === 'inet' || second === 'inet6') && rest[2] === 'address') {
+    const address = parseCidr(rest[3]);
+    if (address && !iface.addresses.some((a) => a.address === address.address)) {
+      iface.addresses.push(address);
+    }
+  } else if (first === 'family' && second === 'ethernet-switching') {
+    const entry = state.vlanMembers.get(name) ?? { node: at(offset - 1), members: [], trunk: false };
+    state.vlanMembers.set(name, entry);
+    if (rest[2] === 'interface-mode' || rest[2] === 'port-mode') entry.trunk = rest[3] === 'trunk';
+    if (rest[2] === 'vlan' && rest[3] === 'members') entry.members.push(...parseVlanList(rest.slice(4)));
+  }
+}
+
+function readStaticRoute(
+  state: JunosState,
+  w: string[],
+  vrf: string | undefined,
+  node: ConfigNode
+): void {
+  const prefix = w[0] ?? '';
+  if (!parseCidr(prefix)) return;
+  const key = `${vrf ?? ''}|${prefix}`;
+  let route = state.routes.get(key);
+  if (!route) {
+    route = { prefix, ...(vrf !== undefined && { vrf }), source: sourceOf(node) };
+    state.routes.set(key, route);
+  }
+  const option = w[1];
+  if ((option === 'next-hop' || option === 'qualified-next-hop') && w[2]) {
+    if (isIpAddress(w[2])) route.nextHop ??= w[2];
+    else route.interface ??= w[2];
+  } else if (option === 'discard' || option === 'reject') {
+    route.discard = true;
+  }
+}
+
+function readBgpGroup(
+  model: DeviceModel,
+  state: JunosState,
+  w: string[],
+  vrf: string | undefined,
+  at: (index: number) => ConfigNode
+): void {
+  const group = w[0] ?? '';
+  const groupKey = `${vrf ?? ''}|${group}`;
+  const info = state.groups.get(groupKey) ?? { internal: false };
+  state.groups.set(groupKey, info);
+
+  if (w[1] === 'type') {
+    info.internal = w[2] === 'internal';
+  } else if (w[1] === 'peer-as' && w[2]) {
+    info.peerAs = w[2];
+  } else if (w[1] === 'neighbor' && w[2]) {
+    const key = `${vrf ?? ''}|${w[2]}`;
+    let neighbor = state.neighbors.get(key);
+    if (!neighbor) {
+      neighbor = { address: w[2], group, ...(vrf !== undefined && { vrf }), source: sourceOf(at(2)) };
+      state.neighbors.set(key, neighbor);
+    }
+    if (w[3] === 'peer-as' && w[4]) neighbor.remoteAs = w[4];
+    if (w[3] === 'description') neighbor.description = w.slice(4).join(' ');
+  }
+}
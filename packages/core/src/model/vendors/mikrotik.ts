@@ -0,0 +1,218 @@
+// packages/core/src/model/vendors/mikrotik.ts
+
+import type { ConfigNode } from '../../types/ConfigNode';
+import type { DeviceModel, ModelExtractor } from '../types';
+import {
+  addAaaServer,
+  addServer,
+  addVlan,
+  addVrf,
+  getInterface,
+  getOspf,
+  getUser,
+  isIpAddress,
+  normalizeArea,
+  parseCidr,
+  parseKeyValues,
+  parseVlanList,
+  sourceOf,
+} from '../common';
+
+/** Commands of a menu that add or change configuration */
+const COMMAND_PATTERN = /^(add|set)\b(.*)$/i;
+
+/**
+ * State shared by the commands of one configuration.
+ */
+interface MikrotikState {
+  /** OSPF area name to area ID and instance (RouterOS 7) */
+  ospfAreas: Map<string, { areaId: string; instance?: string }>;
+}
+
+/**
+ * Model extractor for MikroTik RouterOS exports. Commands are read per menu
+ * ('/ip address' + 'add address=... interface=...'), also when a menu and its
+ * command share one line ('/ip route add dst-address=...').
+ */
+export const extractMikrotikModel: ModelExtractor = (ast, model) => {
+  const state: MikrotikState = { ospfAreas: new Map() };
+
+  const visit = (nodes: ConfigNode[], menu: string): void => {
+    for (const node of nodes) {
+      const text = node.id.trim();
+      if (text.startsWith('/')) {
+        const inline = /^\/(.*?)\s+((?:add|set)\b.*)$/i.exec(text);
+        const ownMenu = (inline ? inline[1] ?? '' : text.slice(1)).trim().replace(/\s+/g, ' ').toLowerCase();
+        if (inline) readCommand(model, state, ownMenu, inline[2] ?? '', node);
+        visit(node.children, ownMenu);
+      } else {
+        readCommand(model, state, menu, text, node);
+        visit(node.children, menu);
+      }
+    }
+  };
+
+  visit(ast, '');
+};
+
+function readCommand(
+  model: DeviceModel,
+  state: MikrotikState,
+  menu: string,
+  command: string,
+  node: ConfigNode
+): void {
+  const match = COMMAND_PATTERN.exec(command);
+  if (!match) return;
+  const values = parseKeyValues(match[2] ?? '');
+  const get = (key: string): string | undefined => values.get(key) || undefined;
+  const list = (key: string): string[] => (get(key) ?? '').split(',').filter((item) => item !== '');
+
+  switch (menu) {
+    case 'system identity':
+      model.hostname ??= get('name');
+      break;
+    case 'ip address':
+    case 'ipv6 address': {
+      const address = parseCidr(get('address'));
+      const name = get('interface');
+      if (address && name) getInterface(model, name, node).addresses.push(address);
+      break;
+    }
+    case 'interface ethernet':
+    case 'interface bridge':
+    case 'interface vlan':
+    case 'interface bonding':
+    case 'interface vrrp':
+    case 'interface wireguard': {
+      const name = get('name') ?? get('default-name');
+      if (!name) break;
+      const iface = getInterface(model, name, node);
+      if (get('comment')) iface.description = get('comment');
+      if (get('disabled') === 'yes') iface.enabled = false;
+      if (get('mtu') && /^\d+$/.test(get('mtu') ?? '')) iface.mtu = parseInt(get('mtu') ?? '', 10);
+      const vlanId = parseInt(get('vlan-id') ?? '', 10);
+      if (menu === 'interface vlan' && vlanId) {
+        iface.accessVlan = vlanId;
+        addVlan(model, vlanId, node, name);
+      }
+      break;
+    }
+    case 'interface bridge vlan':
+      for (const id of parseVlanList(list('vlan-ids'))) addVlan(model, id, node);
+      break;
+    case 'ip vrf':
+    case 'ip route vrf': {
+      const name = get('name') ?? get('routing-mark');
+      if (!name) break;
+      addVrf(model, name, node);
+      for (const iface of list('interfaces')) getInterface(model, iface, node).vrf = name;
+      break;
+    }
+    case 'ip route':
+    case 'ipv6 route': {
+      const prefix = get('dst-address') ?? (menu === 'ip route' ? '0.0.0.0/0' : '::/0');
+      if (!parseCidr(prefix)) break;
+      const gateway = get('gateway');
+      const table = get('routing-table') ?? get('routing-mark');
+      model.staticRoutes.push({
+        prefix,
+        ...(isIpAddress(gateway) && { nextHop: gateway }),
+        ...(gateway !== undefined && !isIpAddress(gateway) && { interface: gateway }),
+        ...((get('type') === 'blackhole' || get('blackhole') !== undefined) && { discard: true }),
+        ...(table !== undefined && table !== 'main' && { vrf: table }),
+        source: sourceOf(node),
+      });
+      break;
+    }
+    case 'routing bgp instance':
+    case 'routing bgp template':
+    case 'routing bgp connection':
+    case 'routing bgp peer':
+      readBgp(model, menu, get, node);
+      break;
+    case 'routing ospf instance': {
+      const ospf = getOspf(model, get('name'), get('vrf'), node);
+      ospf.routerId ??= get('router-id');
+      break;
+    }
+    case 'routing ospf area': {
+      const name = get('name');
+      if (name) {
+        const instance = get('instance');
+        state.ospfAreas.set(name, {
+          areaId: normalizeArea(get('area-id') ?? '0.0.0.0'),
+          ...(instance !== undefined && { instance }),
+        });
+      }
+      break;
+    }
+    case 'routing ospf interface-template':
+    case 'routing ospf network': {
+      const areaName = get('area') ?? 'backbone';
+      const area = state.ospfAreas.get(areaName);
+      const areaId = area?.areaId ?? (areaName === 'backbone' ? '0.0.0.0' : normalizeArea(areaName));
+      const ospf = getOspf(model, area?.instance, undefined, node);
+      const passive = values.has('passive') || /\bpassive\b/.test(match[2] ?? '');
+      for (const name of [...list('interfaces'), ...list('networks'), ...list('network')]) {
+        ospf.members.push({ name, area: areaId, ...(passive && { passive }), source: sourceOf(node) });
+      }
+      break;
+    }
+    case 'user': {
+      const name = get('name');
+      if (!name) break;
+      const user = getUser(model, name, node);
+      user.privilege = get('group');
+      user.hasPassword = values.has('password');
+      break;
+    }
+    case 'radius':
+      addAaaServer(model, 'radius', get('address'), node);
+      break;
+    case 'system ntp client servers':
+      addServer(model.ntpServers, get('address'), node);
+      break;
+    case 'system ntp client':
+      for (const server of [...list('servers'), ...list('primary-ntp'), ...list('secondary-ntp')]) {
+        if (server !== '0.0.0.0') addServer(model.ntpServers, server, node);
+      }
+      break;
+    case 'snmp':
+      for (const target of list('trap-target')) addServer(model.snmpServers, target, node);
+      break;
+    case 'system logging action':
+      if (get('target') === 'remote') addServer(model.syslogServers, get('remote'), node);
+      break;
+  }
+}
+
+/**
+ * Reads BGP instances and peers of RouterOS 6 ('/routing bgp instance',
+ * '/routing bgp peer') and RouterOS 7 ('/routing bgp connection').
+ */
+function readBgp(
+  model: DeviceModel,
+  menu: string,
+  get: (key: string) => string | undefined,
+  node: ConfigNode
+): void {
+  const asn = get('as');
+  if (asn && !model.bgp) {
+    model.bgp = { asn, neighbors: [], source: sourceOf(node) };
+  }
+  if (model.bgp) model.bgp.routerId ??= get('router-id');
+
+  const address = (get('remote.address') ?? get('remote-address'))?.replace(/\/\d+$/, '');
+  if (!address || !model.bgp || (menu !== 'routing bgp connection' && menu !== 'routing bgp peer')) return;
+  const remoteAs = get('remote.as') ?? get('remote-as');
+  const description = get('comment');
+  const vrf = get('vrf') ?? get('routing-table');
+  model.bgp.neighbors.push({
+    address,
+    ...(remoteAs !== undefined && { remoteAs }),
+    ...(description !== undefined && { description }),
+    ...(vrf !== undefined && vrf !== 'main' && { vrf }),
+    source: sourceOf(node),
+  });
+}
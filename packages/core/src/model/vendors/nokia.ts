@@ -0,0 +1,272 @@
+// packages/core/src/model/vendors/nokia.ts
+
+import type { ConfigNode } from '../../types/ConfigNode';
+import type { DeviceModel, ModelBgpNeighbor, ModelExtractor, ModelStaticRoute } from '../types';
+import {
+  addAaaServer,
+  addServer,
+  addVrf,
+  getInterface,
+  getOspf,
+  getUser,
+  isIpAddress,
+  nodeAt,
+  normalizeArea,
+  parseCidr,
+  sourceOf,
+  tokenize,
+  walkNodes,
+} from '../common';
+import type { Statement } from '../common';
+
+/** Protocol sections that reference router interfaces rather than define them */
+const PROTOCOL_SECTIONS = new Set(['ospf', 'ospf3', 'isis', 'mpls', 'rsvp', 'ldp', 'pim', 'bfd', 'igmp', 'mld', 'rip', 'vrrp']);
+
+/** Words that carry no meaning in a statement path */
+const NOISE_WORDS = new Set(['configure', 'exit', 'create', '}']);
+
+/**
+ * State collected while reading the statements of one configuration.
+ */
+interface NokiaState {
+  routes: Map<string, ModelStaticRoute>;
+  groups: Map<string, string>;
+  neighbors: Map<string, ModelBgpNeighbor & { group?: string }>;
+  /** MD-CLI addresses and prefix lengths, configured as separate leaves */
+  primaryAddresses: Map<string, { address?: string; prefixLength?: string }>;
+  bgp?: { asn?: string; routerId?: string; node: ConfigNode };
+}
+
+/**
+ * Model extractor for Nokia SR OS (classic CLI and MD-CLI). Statements are
+ * matched by the keywords they contain rather than by fixed positions, as
+ * the same setting sits at different depths in both formats.
+ * VPRN services are the VRFs.
+ */
+export const extractNokiaModel: ModelExtractor = (ast, model) => {
+  const state: NokiaState = { routes: new Map(), groups: new Map(), neighbors: new Map(), primaryAddresses: new Map() };
+
+  for (const statement of indentStatements(ast)) {
+    readStatement(model, state, statement);
+  }
+
+  for (const [name, { address, prefixLength }] of state.primaryAddresses) {
+    const parsed = parseCidr(`${address}/${prefixLength}`);
+    const iface = model.interfaces.find((i) => i.name === name);
+    if (parsed && iface) iface.addresses.push(parsed);
+  }
+  model.staticRoutes.push(...state.routes.values());
+  if (state.bgp?.asn) {
+    const { asn, routerId, node } = state.bgp;
+    model.bgp = {
+      asn,
+      ...(routerId !== undefined && { routerId }),
+      neighbors: [...state.neighbors.values()].map(({ group, ...neighbor }) => {
+        const remoteAs = neighbor.remoteAs ?? (group ? state.groups.get(group) : undefined);
+        return { ...neighbor, ...(remoteAs !== undefined && { remoteAs }) };
+      }),
+      source: sourceOf(node),
+    };
+  }
+};
+
+/**
+ * Flattens the configuration into leaf statements by indentation. The 'exit'
+ * lines of classic exports can leave the parsed sections nested wrongly,
+ * while the indentation of exports is always consistent.
+ */
+function indentStatements(ast: ConfigNode[]): Statement[] {
+  const lines: { node: ConfigNode; words: string[] }[] = [];
+  walkNodes(ast, (node) => {
+    const words = tokenize(node.id).filter((word) => !NOISE_WORDS.has(word));
+    if (words.length > 0) lines.push({ node, words });
+  });
+
+  const statements: Statement[] = [];
+  const stack: { indent: number; words: string[]; nodes: ConfigNode[] }[] = [];
+  lines.forEach(({ node, words }, index) => {
+    while (stack.length > 0 && (stack[stack.length - 1]?.indent ?? 0) >= node.indent) stack.pop();
+    const parent = stack[stack.length - 1];
+    const entry = {
+      indent: node.indent,
+      words: [...(parent?.words ?? []), ...words],
+      nodes: [...(parent?.nodes ?? []), ...words.map(() => node)],
+    };
+    stack.push(entry);
+    if ((lines[index + 1]?.node.indent ?? -1) <= node.indent) {
+      statements.push({ words: entry.words, nodes: entry.nodes, leaf: node });
+    }
+  });
+  return statements;
+}
+
+function readStatement(model: DeviceModel, state: NokiaState, statement: Statement): void {
+  const w = statement.words;
+  const at = (index: number): ConfigNode => nodeAt(statement, index);
+  const has = (word: string): number => w.indexOf(word);
+
+  const vprn = has('vprn');
+  const vrf = vprn !== -1 ? w[vprn + 1] : routerVrf(w, at);
+  if (vprn !== -1 && vrf) {
+    const rd = has('route-distinguisher');
+    addVrf(model, vrf, at(vprn + 1), rd === -1 ? undefined : w[rd + 1]);
+  }
+
+  const system = has('system');
+  if (system !== -1 && w[system + 1] === 'name' && w[system + 2]) {
+    model.hostname ??= w[system + 2];
+    return;
+  }
+  if (has('ntp') !== -1 && has('server') > has('ntp')) {
+    addServer(model.ntpServers, w[has('server') + 1], at(has('server') + 1));
+    return;
+  }
+  if (has('radius') !== -1 || has('tacplus') !== -1) {
+    const address = has('address') !== -1 ? w[has('address') + 1] : w[has('server') + 1];
+    if (has('server') !== -1 && isIpAddress(address)) {
+      addAaaServer(model, has('radius') !== -1 ? 'radius' : 'tacacs', address, at(has('server') + 1));
+    }
+    return;
+  }
+  if (has('snmp-trap-group') !== -1 && has('trap-target') !== -1 && has('address') !== -1) {
+    addServer(model.snmpServers, w[has('address') + 1], at(has('trap-target') + 1));
+    return;
+  }
+  if (has('log') !== -1 && has('syslog') !== -1 && has('address') !== -1) {
+    addServer(model.syslogServers, w[has('address') + 1], at(has('syslog') + 1));
+    return;
+  }
+  const user = has('user');
+  if (has('security') !== -1 && user !== -1 && w[user + 1]) {
+    const account = getUser(model, w[user + 1] ?? '', at(user + 1));
+    if (w[user + 2] === 'password') account.hasPassword = true;
+    if (has('member') !== -1 && w[has('member') + 1]) account.privilege = w[has('member') + 1];
+    return;
+  }
+
+  const bgp = has('bgp');
+  const ospf = Math.max(has('ospf'), has('ospf3'));
+  if (has('autonomous-system') !== -1 && bgp === -1 && vrf === undefined) {
+    state.bgp ??= { node: at(has('autonomous-system')) };
+    state.bgp.asn = w[has('autonomous-system') + 1];
+  } else if (bgp !== -1 && vrf === undefined) {
+    readBgp(state, w.slice(bgp), (index) => at(index + bgp));
+  } else if (ospf !== -1) {
+    readOspf(model, w, ospf, vrf, at);
+  } else if (has('router-id') !== -1 && vrf === undefined) {
+    state.bgp ??= { node: at(has('router-id')) };
+    state.bgp.routerId ??= w[has('router-id') + 1];
+  } else if (has('interface') !== -1 && !w.slice(0, has('interface')).some((word) => PROTOCOL_SECTIONS.has(word))) {
+    readInterface(model, state, w.slice(has('interface')), vrf, (index) => at(index + has('interface')));
+  } else {
+    const route = ['static-route', 'static-route-entry', 'route']
+      .map((keyword) => has(keyword))
+      .find((index) => index !== -1 && parseCidr(w[index + 1]));
+    if (route !== undefined) readStaticRoute(state, w.slice(route + 1), vrf, at(route + 1));
+  }
+}
+
+/**
+ * Returns the VRF of a statement under 'router "NAME"' other than "Base".
+ * Only the quoted form names a router instance; a bare 'router' is Base.
+ */
+function routerVrf(w: string[], at: (index: number) => ConfigNode): string | undefined {
+  const router = w.indexOf('router');
+  if (router === -1) return undefined;
+  const name = /^router\s+"([^"]+)"/.exec(at(router).id.trim())?.[1];
+  return name === 'Base' ? undefined : name;
+}
+
+function readInterface(
+  model: DeviceModel,
+  state: NokiaState,
+  w: string[],
+  vrf: string | undefined,
+  at: (index: number) => ConfigNode
+): void {
+  const name = w[1];
+  if (!name) return;
+  const iface = getInterface(model, name, at(1));
+  if (vrf !== undefined) iface.vrf = vrf;
+  const [, , first, second] = w;
+
+  if (first === 'address' && second) {
+    const address = parseCidr(second);
+    if (address) iface.addresses.push(address);
+  } else if (first === 'description' && second) {
+    iface.description = w.slice(3).join(' ');
+  } else if (first === 'shutdown' || (first === 'admin-state' && second === 'disable')) {
+    iface.enabled = false;
+  } else if ((first === 'ipv4' || first === 'ipv6') && second === 'primary' && w[4]) {
+    const entry = state.primaryAddresses.get(name) ?? {};
+    state.primaryAddresses.set(name, entry);
+    if (w[4] === 'address') entry.address = w[5];
+    if (w[4] === 'prefix-length') entry.prefixLength = w[5];
+  }
+}
+
+function readStaticRoute(
+  state: NokiaState,
+  w: string[],
+  vrf: string | undefined,
+  node: ConfigNode
+): void {
+  const prefix = w[0] ?? '';
+  const key = `${vrf ?? ''}|${prefix}`;
+  let route = state.routes.get(key);
+  if (!route) {
+    route = { prefix, ...(vrf !== undefined && { vrf }), source: sourceOf(node) };
+    state.routes.set(key, route);
+  }
+  const nextHop = w.indexOf('next-hop');
+  if (nextHop !== -1 && isIpAddress(w[nextHop + 1])) route.nextHop ??= w[nextHop + 1];
+  if (w.includes('black-hole') || w.includes('blackhole')) route.discard = true;
+}
+
+function readBgp(state: NokiaState, w: string[], at: (index: number) => ConfigNode): void {
+  const neighbor = w.indexOf('neighbor');
+  const group = w.indexOf('group');
+
+  if (neighbor !== -1 && w[neighbor + 1]) {
+    const address = w[neighbor + 1] ?? '';
+    let entry = state.neighbors.get(address);
+    if (!entry) {
+      entry = { address, source: sourceOf(at(neighbor + 1)) };
+      state.neighbors.set(address, entry);
+    }
+    // The group either encloses the neighbor or is one of its settings
+    if (group !== -1 && w[group + 1]) entry.group = w[group + 1];
+    const setting = w[neighbor + 2];
+    if (setting === 'peer-as' && w[neighbor + 3]) entry.remoteAs = w[neighbor + 3];
+    if (setting === 'description') entry.description = w.slice(neighbor + 3).join(' ');
+  } else if (group !== -1 && w[group + 1] && w[group + 2] === 'peer-as' && w[group + 3]) {
+    state.groups.set(w[group + 1] ?? '', w[group + 3] ?? '');
+  } else if (w[1] === 'router-id' && w[2]) {
+    state.bgp ??= { node: at(0) };
+    state.bgp.routerId ??= w[2];
+  }
+}
+
+function readOspf(
+  model: DeviceModel,
+  w: string[],
+  index: number,
+  vrf: string | undefined,
+  at: (index: number) => ConfigNode
+): void {
+  const processId = /^\d+$/.test(w[index + 1] ?? '') ? w[index + 1] : undefined;
+  const ospf = getOspf(model, processId, vrf, at(index));
+  const area = w.indexOf('area', index);
+  const iface = w.indexOf('interface', index);
+
+  if (w[w.length - 2] === 'router-id' && area === -1) {
+    ospf.routerId = w[w.length - 1];
+  } else if (area !== -1 && w[area + 1] && iface !== -1 && w[iface + 1]) {
+    let member = ospf.members.find((m) => m.name === w[iface + 1]);
+    if (!member) {
+      member = { name: w[iface + 1] ?? '', area: normalizeArea(w[area + 1] ?? ''), source: sourceOf(at(iface + 1)) };
+      ospf.members.push(member);
+    }
+    if (w[iface + 2] === 'passive') member.passive = true;
+  }
+}
@@ -0,0 +1,217 @@
+// packages/core/src/model/vendors/paloalto.ts
+
+import type { ConfigNode } from '../../types/ConfigNode';
+import type { DeviceModel, ModelBgpNeighbor, ModelExtractor, ModelStaticRoute } from '../types';
+import {
+  addAaaServer,
+  addServer,
+  addVrf,
+  flattenStatements,
+  getInterface,
+  getOspf,
+  getUser,
+  isIpAddress,
+  nodeAt,
+  normalizeArea,
+  parseCidr,
+  sourceOf,
+} from '../common';
+import type { Statement } from '../common';
+
+/** Top-level sections, found below the 'config devices localhost.localdomain' wrapper of full exports */
+const SECTIONS = new Set(['deviceconfig', 'network', 'mgt-config', 'shared', 'vsys']);
+
+/** Words of an interface path between the interface and its settings */
+const INTERFACE_MODES = new Set(['layer3', 'layer2', 'virtual-wire', 'tap']);
+
+/**
+ * State collected while reading the statements of one configuration.
+ */
+interface PanosState {
+  routes: Map<string, ModelStaticRoute>;
+  peers: Map<string, ModelBgpNeighbor>;
+  bgp?: { asn?: string; routerId?: string; node: ConfigNode };
+}
+
+/**
+ * Model extractor for Palo Alto PAN-OS, in brace or 'set' format.
+ * Virtual routers other than 'default' are the VRFs.
+ */
+export const extractPanosModel: ModelExtractor = (ast, model) => {
+  const state: PanosState = { routes: new Map(), peers: new Map() };
+
+  for (const statement of flattenStatements(ast)) {
+    const start = statement.words.findIndex((word, index) => index < 4 && SECTIONS.has(word));
+    if (start !== -1) readStatement(model, state, statement, start);
+  }
+
+  model.staticRoutes.push(...[...state.routes.values()].filter((route) => route.prefix !== ''));
+  if (state.bgp?.asn) {
+    const { asn, routerId, node } = state.bgp;
+    model.bgp = {
+      asn,
+      ...(routerId !== undefined && { routerId }),
+      neighbors: [...state.peers.values()].filter((peer) => peer.address !== ''),
+      source: sourceOf(node),
+    };
+  }
+};
+
+function readStatement(model: DeviceModel, state: PanosState, statement: Statement, start: number): void {
+  const w = statement.words.slice(start);
+  const at = (index: number): ConfigNode => nodeAt(statement, start + index);
+  const [first, second] = w;
+
+  if (first === 'deviceconfig' && second === 'system') {
+    if (w[2] === 'hostname' && w[3]) {
+      model.hostname ??= w[3];
+    } else if (w[2] === 'ntp-servers' && w[4] === 'ntp-server-address') {
+      addServer(model.ntpServers, w[5], at(5));
+    }
+  } else if (first === 'network' && second === 'interface' && w[2]) {
+    readInterface(model, w.slice(2), (index) => at(index + 2));
+  } else if (first === 'network' && second === 'virtual-router' && w[2]) {
+    readVirtualRouter(model, state, w.slice(2), (index) => at(index + 2));
+  } else if (first === 'mgt-config' && second === 'users' && w[2]) {
+    const user = getUser(model, w[2], at(2));
+    if (w[3] === 'permissions' && w[4] === 'role-based' && w[5]) user.privilege = w[5];
+    if (w[3] === 'phash' || w[3] === 'password') user.hasPassword = true;
+  }
+
+  const profile = w.indexOf('server-profile');
+  const type = profile === -1 ? undefined : w[profile + 1];
+  if (type === 'radius' || type === 'tacplus' || type === 'ldap') {
+    const server = w.indexOf('server', profile);
+    const setting = server === -1
+      ? -1
+      : w.findIndex((word, index) => index > server + 1 && (word === 'ip-address' || word === 'address'));
+    if (setting !== -1) {
+      addAaaServer(model, type === 'tacplus' ? 'tacacs' : type, w[setting + 1], at(server + 1));
+    }
+  }
+
+  const logSettings = w.indexOf('log-settings');
+  if (logSettings !== -1) {
+    const type = w[logSettings + 1];
+    const server = w.indexOf('server', logSettings);
+    if (type === 'syslog' && server !== -1 && w[server + 2] === 'server') {
+      addServer(model.syslogServers, w[server + 3], at(server + 1));
+    } else if (type === 'snmptrap' && server !== -1 && w[server + 2] === 'manager') {
+      addServer(model.snmpServers, w[server + 3], at(server + 1));
+    }
+  }
+}
+
+/**
+ * Reads 'network interface TYPE NAME [layer3] [units SUBIF] SETTING...'.
+ */
+function readInterface(model: DeviceModel, w: string[], at: (index: number) => ConfigNode): void {
+  let index = 1;
+  if (w[index] === 'units') index++;
+  let name = w[index];
+  index++;
+  while (w[index] && INTERFACE_MODES.has(w[index] ?? '')) index++;
+  if (w[index] === 'units' && w[index + 1]) {
+    name = w[index + 1];
+    index += 2;
+  }
+  if (!name) return;
+
+  const iface = getInterface(model, name, at(index - 1));
+  const setting = w[index];
+  const value = w[index + 1];
+  if ((setting === 'ip' || setting === 'ipv6') && value) {
+    const address = parseCidr(setting === 'ipv6' && value === 'address' ? w[index + 2] : value);
+    if (address && !iface.addresses.some((a) => a.address === address.address)) iface.addresses.push(address);
+  } else if (setting === 'comment' && value) {
+    iface.description = w.slice(index + 1).join(' ');
+  } else if (setting === 'tag' && /^\d+$/.test(value ?? '')) {
+    iface.accessVlan = parseInt(value ?? '0', 10);
+  } else if (setting === 'mtu' && /^\d+$/.test(value ?? '')) {
+    iface.mtu = parseInt(value ?? '0', 10);
+  } else if (setting === 'link-state' && value === 'down') {
+    iface.enabled = false;
+  }
+}
+
+/**
+ * Reads 'network virtual-router VR ...': interfaces, static routes, BGP and OSPF.
+ */
+function readVirtualRouter(
+  model: DeviceModel,
+  state: PanosState,
+  w: string[],
+  at: (index: number) => ConfigNode
+): void {
+  const router = w[0] ?? '';
+  const vrf = router === 'default' ? undefined : router;
+  if (vrf !== undefined) addVrf(model, vrf, at(0));
+  const [, first, second] = w;
+
+  if (first === 'interface' && second) {
+    for (const name of w.slice(2)) {
+      const iface = getInterface(model, name, at(2));
+      if (vrf !== undefined) iface.vrf = vrf;
+    }
+  } else if (first === 'routing-table' && w[3] === 'static-route' && w[4]) {
+    const key = `${router}|${w[4]}`;
+    let route = state.routes.get(key);
+    if (!route) {
+      route = { prefix: '', ...(vrf !== undefined && { vrf }), source: sourceOf(at(4)) };
+      state.routes.set(key, route);
+    }
+    const [setting, value, extra] = w.slice(5);
+    if (setting === 'destination' && value && parseCidr(value)) {
+      route.prefix = value;
+    } else if (setting === 'nexthop' && value === 'discard') {
+      route.discard = true;
+    } else if (setting === 'nexthop' && isIpAddress(extra)) {
+      route.nextHop = extra;
+    } else if (setting === 'interface' && value) {
+      route.interface = value;
+    }
+  } else if (first === 'protocol' && second === 'bgp') {
+    readBgp(state, w.slice(3), router, vrf, (index) => at(index + 3));
+  } else if (first === 'protocol' && second === 'ospf') {
+    const ospf = getOspf(model, undefined, vrf, at(2));
+    if (w[3] === 'router-id' && w[4]) {
+      ospf.routerId = w[4];
+    } else if (w[3] === 'area' && w[4] && w[5] === 'interface' && w[6]) {
+      let member = ospf.members.find((m) => m.name === w[6]);
+      if (!member) {
+        member = { name: w[6], area: normalizeArea(w[4]), source: sourceOf(at(6)) };
+        ospf.members.push(member);
+      }
+      if (w[7] === 'passive' && w[8] === 'yes') member.passive = true;
+    }
+  }
+}
+
+function readBgp(
+  state: PanosState,
+  w: string[],
+  router: string,
+  vrf: string | undefined,
+  at: (index: number) => ConfigNode
+): void {
+  const [first, second] = w;
+  if ((first === 'local-as' || first === 'router-id') && second && vrf === undefined) {
+    state.bgp ??= { node: at(-1) };
+    if (first === 'local-as') state.bgp.asn = second;
+    else state.bgp.routerId = second;
+  } else if (first === 'peer-group' && second && w[2] === 'peer' && w[3]) {
+    const key = `${router}|${second}|${w[3]}`;
+    let peer = state.peers.get(key);
+    if (!peer) {
+      peer = { address: '', ...(vrf !== undefined && { vrf }), source: sourceOf(at(3)) };
+      state.peers.set(key, peer);
+    }
+    const [setting, value, extra] = w.slice(4);
+    if (setting === 'peer-address') {
+      const address = value === 'ip' ? extra : value;
+      if (address) peer.address = address;
+    } else if ((setting === 'peer-as' || setting === 'remote-as') && value) {
+      peer.remoteAs = value;
+    }
+  }
+}
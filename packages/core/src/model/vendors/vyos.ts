@@ -0,0 +1,190 @@
+// packages/core/src/model/vendors/vyos.ts
+
+import type { ConfigNode } from '../../types/ConfigNode';
+import type { DeviceModel, ModelExtractor, ModelStaticRoute } from '../types';
+import {
+  addAaaServer,
+  addServer,
+  addVrf,
+  flattenStatements,
+  getInterface,
+  getOspf,
+  getUser,
+  isIpAddress,
+  nodeAt,
+  normalizeArea,
+  parseCidr,
+  sourceOf,
+} from '../common';
+import type { Statement } from '../common';
+
+/**
+ * Model extractor for VyOS, in brace or 'set' format. VLAN subinterfaces
+ * ('vif 10') are interfaces of their own ('eth0.10'), and 'vrf name X'
+ * sections hold the VRFs and their protocols.
+ */
+export const extractVyosModel: ModelExtractor = (ast, model) => {
+  const routes = new Map<string, ModelStaticRoute>();
+
+  for (const statement of flattenStatements(ast)) {
+    const { words } = statement;
+    if (words[0] === 'vrf' && words[1] === 'name' && words[2]) {
+      addVrf(model, words[2], nodeAt(statement, 2));
+      readStatement(model, routes, statement, 3, words[2]);
+    } else {
+      readStatement(model, routes, statement, 0, undefined);
+    }
+  }
+
+  model.staticRoutes.push(...routes.values());
+};
+
+function readStatement(
+  model: DeviceModel,
+  routes: Map<string, ModelStaticRoute>,
+  statement: Statement,
+  start: number,
+  vrf: string | undefined
+): void {
+  const w = statement.words.slice(start);
+  const at = (index: number): ConfigNode => nodeAt(statement, start + index);
+  const [first, second] = w;
+
+  if (first === 'interfaces' && w[2]) {
+    readInterface(model, w, at);
+  } else if (first === 'protocols' && second === 'static' && w[2] === 'route' && w[3]) {
+    readStaticRoute(routes, w.slice(3), vrf, at(3));
+  } else if (first === 'protocols' && second === 'bgp') {
+    // VyOS 1.2 puts the AS in the path ('protocols bgp 65001 neighbor ...'),
+    // later versions use 'protocols bgp system-as 65001'
+    const legacyAs = /^\d+$/.test(w[2] ?? '') ? w[2] : undefined;
+    readBgp(model, w.slice(legacyAs ? 3 : 2), legacyAs, vrf, (index) => at(index + (legacyAs ? 3 : 2)));
+  } else if (first === 'protocols' && second === 'ospf') {
+    readOspf(model, w.slice(2), vrf, (index) => at(index + 2));
+  } else if (first === 'system' && vrf === undefined) {
+    readSystem(model, w.slice(1), (index) => at(index + 1));
+  } else if (first === 'service' && second === 'ntp' && w[2] === 'server' && w[3]) {
+    addServer(model.ntpServers, w[3], at(3));
+  } else if (first === 'service' && second === 'snmp' && w[2] === 'trap-target' && w[3]) {
+    addServer(model.snmpServers, w[3], at(3));
+  }
+}
+
+function readInterface(model: DeviceModel, w: string[], at: (index: number) => ConfigNode): void {
+  let name = w[2] ?? '';
+  let rest = w.slice(3);
+  let offset = 3;
+  let vlan: number | undefined;
+  if ((rest[0] === 'vif' || rest[0] === 'vif-s') && rest[1]) {
+    name = `${name}.${rest[1]}`;
+    vlan = parseInt(rest[1], 10);
+    rest = rest.slice(2);
+    offset = 5;
+  }
+  const iface = getInterface(model, name, at(offset - 1));
+  if (vlan !== undefined) iface.accessVlan = vlan;
+  const [first, second] = rest;
+
+  if (first === 'address') {
+    const address = parseCidr(second);
+    if (address && !iface.addresses.some((a) => a.address === address.address)) iface.addresses.push(address);
+  } else if (first === 'description') {
+    iface.description = rest.slice(1).join(' ');
+  } else if (first === 'disable') {
+    iface.enabled = false;
+  } else if (first === 'mtu' && /^\d+$/.test(second ?? '')) {
+    iface.mtu = parseInt(second ?? '0', 10);
+  } else if (first === 'vrf' && second) {
+    iface.vrf = second;
+  }
+}
+
+function readStaticRoute(
+  routes: Map<string, ModelStaticRoute>,
+  w: string[],
+  vrf: string | undefined,
+  node: ConfigNode
+): void {
+  const prefix = w[0] ?? '';
+  if (!parseCidr(prefix)) return;
+  const key = `${vrf ?? ''}|${prefix}`;
+  let route = routes.get(key);
+  if (!route) {
+    route = { prefix, ...(vrf !== undefined && { vrf }), source: sourceOf(node) };
+    routes.set(key, route);
+  }
+  if (w[1] === 'next-hop' && isIpAddress(w[2])) {
+    route.nextHop ??= w[2];
+  } else if (w[1] === 'interface' && w[2]) {
+    route.interface ??= w[2];
+  } else if (w[1] === 'blackhole') {
+    route.discard = true;
+  }
+}
+
+function readBgp(
+  model: DeviceModel,
+  w: string[],
+  legacyAs: string | undefined,
+  vrf: string | undefined,
+  at: (index: number) => ConfigNode
+): void {
+  const [first, second] = w;
+  const asn = legacyAs ?? (first === 'system-as' ? second : undefined);
+  if (asn && vrf === undefined) {
+    model.bgp ??= { asn, neighbors: [], source: sourceOf(at(-1)) };
+  }
+  const bgp = model.bgp;
+  if (!bgp) return;
+
+  if (first === 'parameters' && second === 'router-id' && w[2] && vrf === undefined) {
+    bgp.routerId = w[2];
+  } else if (first === 'neighbor' && second) {
+    let neighbor = bgp.neighbors.find((n) => n.address === second && n.vrf === vrf);
+    if (!neighbor) {
+      neighbor = { address: second, ...(vrf !== undefined && { vrf }), source: sourceOf(at(1)) };
+      bgp.neighbors.push(neighbor);
+    }
+    if (w[2] === 'remote-as' && w[3]) neighbor.remoteAs = w[3];
+    if (w[2] === 'description') neighbor.description = w.slice(3).join(' ');
+  }
+}
+
+function readOspf(
+  model: DeviceModel,
+  w: string[],
+  vrf: string | undefined,
+  at: (index: number) => ConfigNode
+): void {
+  const ospf = getOspf(model, undefined, vrf, at(-1));
+  const [first, second] = w;
+
+  if (first === 'parameters' && second === 'router-id' && w[2]) {
+    ospf.routerId = w[2];
+  } else if (first === 'area' && second && w[2] === 'network' && w[3]) {
+    ospf.members.push({ name: w[3], area: normalizeArea(second), source: sourceOf(at(3)) });
+  } else if (first === 'interface' && second && w[2] === 'area' && w[3]) {
+    ospf.members.push({ name: second, area: normalizeArea(w[3]), source: sourceOf(at(1)) });
+  } else if (first === 'passive-interface' && second && second !== 'default') {
+    for (const member of ospf.members) {
+      if (member.name === second) member.passive = true;
+    }
+  }
+}
+
+function readSystem(model: DeviceModel, w: string[], at: (index: number) => ConfigNode): void {
+  const [first, second] = w;
+  if (first === 'host-name' && second) {
+    model.hostname ??= second;
+  } else if (first === 'login' && second === 'user' && w[2]) {
+    const user = getUser(model, w[2], at(2));
+    if (w[3] === 'level' && w[4]) user.privilege = w[4];
+    if (w[3] === 'authentication' && /password$/.test(w[4] ?? '')) user.hasPassword = true;
+  } else if (first === 'login' && (second === 'radius' || second === 'tacacs') && w[2] === 'server' && w[3]) {
+    addAaaServer(model, second === 'radius' ? 'radius' : 'tacacs', w[3], at(3));
+  } else if (first === 'ntp' && second === 'server' && w[2]) {
+    addServer(model.ntpServers, w[2], at(2));
+  } else if (first === 'syslog' && (second === 'host' || second === 'remote') && w[2]) {
+    addServer(model.syslogServers, w[2], at(2));
+  }
+}
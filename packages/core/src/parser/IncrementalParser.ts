@@ -2,6 +2,7 @@
 
 import type { ConfigNode } from '../types/ConfigNode';
 import { SchemaAwareParser } from './SchemaAwareParser';
+import { assignNodePaths } from './NodePath';
 import type { ParserOptions } from './SchemaAwareParser';
 import type { VendorSchema } from './VendorSchema';
 import { defaultVendor, detectVendor } from './vendors';
@@ -417,6 +418,10 @@ export class IncrementalParser {
       }
     }
 
+    // Sections were parsed in isolation, so sibling occurrence suffixes
+    // must be recomputed across the whole document
+    assignNodePaths(newAst);
+
     return { ast: newAst, sectionsReparsed: affectedSectionIndices.size };
   }
 
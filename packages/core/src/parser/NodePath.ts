@@ -0,0 +1,54 @@
+// packages/core/src/parser/NodePath.ts
+
+import type { ConfigNode } from '../types/ConfigNode';
+
+/**
+ * Separator between segments of a node path.
+ */
+export const NODE_PATH_SEPARATOR = ' > ';
+
+/**
+ * Computes and assigns `path` on every node of an AST.
+ *
+ * A path is the chain of ancestor IDs joined with NODE_PATH_SEPARATOR, e.g.
+ * "router bgp 65000 > address-family ipv4 > neighbor 10.0.0.1 activate".
+ * Virtual roots are transparent: their children are treated as top-level nodes.
+ * When siblings share the same ID, the second and later occurrences get an
+ * occurrence suffix ("interface Gi0/1#2") so that every path is unique.
+ *
+ * Paths depend only on the hierarchy, not on line numbers, so they remain
+ * stable when unrelated lines are inserted or removed.
+ *
+ * @param nodes The root nodes of the AST (modified in place)
+ */
+export function assignNodePaths(nodes: ConfigNode[]): void {
+  assignSiblingPaths(nodes, '', new Map());
+}
+
+/**
+ * Assigns paths to a list of siblings sharing the same parent path.
+ * The occurrence counter is shared across virtual roots at the same level.
+ */
+function assignSiblingPaths(
+  siblings: ConfigNode[],
+  parentPath: string,
+  occurrences: Map<string, number>
+): void {
+  for (const node of siblings) {
+    if (node.type === 'virtual_root') {
+      node.path = node.id;
+      assignSiblingPaths(node.children, parentPath, occurrences);
+      continue;
+    }
+
+    const count = (occurrences.get(node.id) ?? 0) + 1;
+    occurrences.set(node.id, count);
+
+    const segment = count > 1 ? `${node.id}#${count}` : node.id;
+    node.path = parentPath
+      ? `${parentPath}${NODE_PATH_SEPARATOR}${segment}`
+      : segment;
+
+    assignSiblingPaths(node.children, node.path, new Map());
+  }
+}
@@ -4,6 +4,7 @@ import type { ConfigNode, NodeType } from '../types/ConfigNode';
 import type { VendorSchema, BlockStarterDef } from './VendorSchema';
 import { defaultVendor } from './vendors';
 import { sanitizeText, parseParameters } from './Sanitizer';
+import { assignNodePaths } from './NodePath';
 import {
   MAX_LINE_LENGTH,
   MAX_CONFIG_SIZE,
@@ -105,13 +106,14 @@ export class SchemaAwareParser {
       );
     }
 
-    // Use brace-based parsing for Juniper-style configs
-    if (this.vendor.useBraceHierarchy) {
-      return this.parseBraceHierarchy(lines);
-    }
+    // Use brace-based parsing for Juniper-style configs,
+    // indentation-based parsing for Cisco-style configs
+    const nodes = this.vendor.useBraceHierarchy
+      ? this.parseBraceHierarchy(lines)
+      : this.parseIndentationHierarchy(lines);
 
-    // Use indentation-based parsing for Cisco-style configs
-    return this.parseIndentationHierarchy(lines);
+    assignNodePaths(nodes);
+    return nodes;
   }
 
   /**
@@ -13,6 +13,27 @@ export interface BlockStarterDef {
   depth: number;
 }
 
+/**
+ * Kind of secret a pattern finds, used in redaction placeholders:
+ * - password: login, enable and user passwords, plain, reversible or hashed
+ * - key: shared keys (TACACS+/RADIUS, routing protocol and NTP authentication, IPsec PSKs)
+ * - community: SNMP communities and SNMPv3 passphrases
+ */
+export type SecretKind = 'password' | 'key' | 'community';
+
+/**
+ * A pattern that finds a secret in a configuration line. The secret is the
+ * `secret` named group, quotes included (they are kept when it is redacted);
+ * the optional `type` named group is the encoding the command gives it
+ * (Cisco `7`, FortiOS `ENC`, Huawei `cipher`).
+ * Patterns are matched case-insensitively against the whole line, and
+ * several secrets may be found in one line.
+ */
+export interface SecretPatternDef {
+  pattern: RegExp;
+  kind: SecretKind;
+}
+
 /**
  * Defines a vendor's configuration syntax schema.
  * Each vendor (Cisco IOS, Juniper JunOS, etc.) has different
@@ -69,4 +90,13 @@ export interface VendorSchema {
    * - false: Cisco style with indentation-based blocks
    */
   useBraceHierarchy: boolean;
+
+  /**
+   * Patterns of the secrets in this vendor's configuration lines
+   * (passwords, keys, SNMP communities), used to redact them from reports
+   * and sanitized copies of a configuration. Vendors without patterns have
+   * nothing redacted.
+   * @example Cisco: /^\s*snmp-server\s+community\s+(?<secret>\S+)/
+   */
+  secretPatterns?: SecretPatternDef[];
 }
@@ -1,6 +1,7 @@
 // packages/core/src/parser/vendors/arista-eos.ts
 
 import type { VendorSchema } from '../VendorSchema';
+import { CISCO_STYLE_SECRET_PATTERNS } from './secrets';
 
 /**
  * Arista EOS (Extensible Operating System) configuration schema.
@@ -48,6 +49,8 @@ export const AristaEOSSchema: VendorSchema = {
   commentPatterns: [/^!/],
   sectionDelimiter: '!',
 
+  secretPatterns: CISCO_STYLE_SECRET_PATTERNS,
+
   blockStarters: [
     // ============ DEPTH 0: Top-level blocks ============
 
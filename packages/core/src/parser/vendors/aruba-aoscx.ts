@@ -1,6 +1,7 @@
 // packages/core/src/parser/vendors/aruba-aoscx.ts
 
 import type { VendorSchema } from '../VendorSchema';
+import { CISCO_STYLE_SECRET_PATTERNS } from './secrets';
 
 /**
  * Aruba AOS-CX configuration schema.
@@ -26,6 +27,8 @@ export const ArubaAOSCXSchema: VendorSchema = {
   commentPatterns: [/^!/],
   sectionDelimiter: '!',
 
+  secretPatterns: CISCO_STYLE_SECRET_PATTERNS,
+
   blockStarters: [
     // ============ DEPTH 0: Top-level blocks ============
 
@@ -1,6 +1,7 @@
 // packages/core/src/parser/vendors/aruba-aosswitch.ts
 
 import type { VendorSchema } from '../VendorSchema';
+import { CISCO_STYLE_SECRET_PATTERNS } from './secrets';
 
 /**
  * Aruba AOS-Switch (ProVision) configuration schema.
@@ -28,6 +29,8 @@ export const ArubaAOSSwitchSchema: VendorSchema = {
   commentPatterns: [/^;/, /^!/],
   sectionDelimiter: undefined, // Uses 'exit' to end blocks
 
+  secretPatterns: CISCO_STYLE_SECRET_PATTERNS,
+
   blockStarters: [
     // ============ DEPTH 0: Top-level blocks ============
 
@@ -1,6 +1,7 @@
 // packages/core/src/parser/vendors/aruba-wlc.ts
 
 import type { VendorSchema } from '../VendorSchema';
+import { CISCO_STYLE_SECRET_PATTERNS } from './secrets';
 
 /**
  * Aruba ArubaOS WLC (Wireless LAN Controller) configuration schema.
@@ -29,6 +30,8 @@ export const ArubaWLCSchema: VendorSchema = {
   commentPatterns: [/^!/],
   sectionDelimiter: '!',
 
+  secretPatterns: CISCO_STYLE_SECRET_PATTERNS,
+
   blockStarters: [
     // ============ DEPTH 0: Top-level profile blocks ============
 
@@ -1,6 +1,7 @@
 // packages/core/src/parser/vendors/cisco-ios.ts
 
 import type { VendorSchema } from '../VendorSchema';
+import { CISCO_STYLE_SECRET_PATTERNS } from './secrets';
 
 /**
  * Cisco IOS/IOS-XE configuration schema.
@@ -22,6 +23,8 @@ export const CiscoIOSSchema: VendorSchema = {
   commentPatterns: [/^!/],
   sectionDelimiter: '!',
 
+  secretPatterns: CISCO_STYLE_SECRET_PATTERNS,
+
   blockStarters: [
     // ============ DEPTH 0: Top-level blocks ============
 
@@ -1,6 +1,7 @@
 // packages/core/src/parser/vendors/cisco-nxos.ts
 
 import type { VendorSchema } from '../VendorSchema';
+import { CISCO_STYLE_SECRET_PATTERNS } from './secrets';
 
 /**
  * Cisco NX-OS configuration schema.
@@ -22,6 +23,8 @@ export const CiscoNXOSSchema: VendorSchema = {
   commentPatterns: [/^!/],
   sectionDelimiter: '!',
 
+  secretPatterns: CISCO_STYLE_SECRET_PATTERNS,
+
   blockStarters: [
     // ============ DEPTH 0: Top-level blocks (NX-OS specific) ============
 
@@ -1,6 +1,7 @@
 // packages/core/src/parser/vendors/cumulus-linux.ts
 
 import type { VendorSchema } from '../VendorSchema';
+import { SECRET, secretPattern } from './secrets';
 
 /**
  * NVIDIA Cumulus Linux configuration schema.
@@ -55,6 +56,13 @@ export const CumulusLinuxSchema: VendorSchema = {
   ],
   sectionDelimiter: '!',
 
+  secretPatterns: [
+    // Passwords and secrets (NVUE, NCLU and FRR), and SNMP communities
+    secretPattern(String.raw`(?<![\w-])(?:password|hashed-password)\s+${SECRET}`, 'password'),
+    secretPattern(String.raw`(?<![\w-])secret\s+${SECRET}`, 'key'),
+    secretPattern(String.raw`(?<![\w-])(?:readonly|readwrite)-community(?:-v6)?\s+${SECRET}`, 'community'),
+  ],
+
   blockStarters: [
     // ============ DEPTH 0: Top-level blocks ============
 
@@ -1,6 +1,7 @@
 // packages/core/src/parser/vendors/extreme-exos.ts
 
 import type { VendorSchema } from '../VendorSchema';
+import { SECRET, secretPattern } from './secrets';
 
 /**
  * Extreme Networks ExtremeXOS (EXOS) configuration schema.
@@ -43,6 +44,13 @@ export const ExtremeEXOSSchema: VendorSchema = {
   commentPatterns: [/^#/],
   sectionDelimiter: undefined, // EXOS doesn't use section delimiters
 
+  secretPatterns: [
+    // Account passwords, RADIUS/TACACS+ secrets and SNMP communities, plain or encrypted
+    secretPattern(String.raw`^\s*create\s+account\s+\S+\s+\S+\s+(?:(?<type>encrypted)\s+)?${SECRET}`, 'password'),
+    secretPattern(String.raw`(?<![\w-])shared-secret\s+(?:(?<type>encrypted)\s+)?${SECRET}`, 'key'),
+    secretPattern(String.raw`^\s*configure\s+snmp\s+add\s+community\s+(?:readonly|readwrite)\s+(?:(?<type>encrypted)\s+)?${SECRET}`, 'community'),
+  ],
+
   blockStarters: [
     // ============ DEPTH 0: Top-level blocks ============
     // EXOS is mostly flat, but some constructs can be treated as logical sections
@@ -1,6 +1,7 @@
 // packages/core/src/parser/vendors/extreme-voss.ts
 
 import type { VendorSchema } from '../VendorSchema';
+import { CISCO_STYLE_SECRET_PATTERNS, SECRET, secretPattern } from './secrets';
 
 /**
  * Extreme Networks VOSS (VSP Operating System Software) configuration schema.
@@ -55,6 +56,12 @@ export const ExtremeVOSSSchema: VendorSchema = {
   commentPatterns: [/^!/, /^#/],
   sectionDelimiter: '!',
 
+  secretPatterns: [
+    ...CISCO_STYLE_SECRET_PATTERNS,
+    // RADIUS keys ('radius server host X key Y')
+    secretPattern(String.raw`^\s*radius\s+server\s+host\s+.*?(?<![\w-])key\s+${SECRET}`, 'key'),
+  ],
+
   blockStarters: [
     // ============ DEPTH 0: Top-level blocks ============
 
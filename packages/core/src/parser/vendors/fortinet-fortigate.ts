@@ -1,6 +1,7 @@
 // packages/core/src/parser/vendors/fortinet-fortigate.ts
 
 import type { VendorSchema } from '../VendorSchema';
+import { SECRET, secretPattern } from './secrets';
 
 /**
  * Fortinet FortiGate (FortiOS) configuration schema.
@@ -78,6 +79,14 @@ export const FortinetFortiGateSchema: VendorSchema = {
   ],
   sectionDelimiter: 'end',
 
+  secretPatterns: [
+    // Passwords, pre-shared keys and server secrets, plain or 'ENC' encrypted
+    secretPattern(String.raw`^\s*set\s+(?:password|passwd|sae-password|ldap-password|server-password|pptp-password|l2tp-password|group-password)\s+(?:(?<type>ENC)\s+)?${SECRET}`, 'password'),
+    secretPattern(String.raw`^\s*set\s+(?:psksecret\d*|ppk-secret|secret|key|key-string|md5-key|authentication-key|passphrase)\s+(?:(?<type>ENC)\s+)?${SECRET}`, 'key'),
+    // SNMPv3 passphrases
+    secretPattern(String.raw`^\s*set\s+(?:auth-pwd|priv-pwd)\s+(?:(?<type>ENC)\s+)?${SECRET}`, 'community'),
+  ],
+
   blockStarters: [
     // ============ DEPTH 0: Top-level config blocks ============
 
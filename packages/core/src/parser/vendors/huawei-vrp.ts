@@ -1,6 +1,7 @@
 // packages/core/src/parser/vendors/huawei-vrp.ts
 
 import type { VendorSchema } from '../VendorSchema';
+import { SECRET, secretPattern } from './secrets';
 
 /**
  * Huawei VRP (Versatile Routing Platform) configuration schema.
@@ -38,6 +39,15 @@ export const HuaweiVRPSchema: VendorSchema = {
   commentPatterns: [/^#$/, /^!/],
   sectionDelimiter: '#',
 
+  secretPatterns: [
+    // Passwords and shared keys, plain or 'cipher' encrypted
+    secretPattern(String.raw`(?<![\w-])password\s+(?:level\s+\d+\s+)?(?:(?<type>cipher|simple|irreversible-cipher|plain)\s+)?${SECRET}`, 'password'),
+    secretPattern(String.raw`(?<![\w-])(?:shared-key|pre-shared-key|authentication-key)\s+(?:(?<type>cipher|simple|plain)\s+)?${SECRET}`, 'key'),
+    secretPattern(String.raw`(?<![\w-])authentication-mode\s+(?:md5|hmac-md5|hmac-sha256|simple)\s+(?:\d+\s+)?(?:(?<type>cipher|plain)\s+)?${SECRET}`, 'key'),
+    // SNMP communities
+    secretPattern(String.raw`^\s*snmp-agent\s+community\s+(?:read|write)\s+(?:(?<type>cipher|simple)\s+)?${SECRET}`, 'community'),
+  ],
+
   blockStarters: [
     // ============ DEPTH 0: Top-level blocks ============
 
@@ -1,6 +1,7 @@
 // packages/core/src/parser/vendors/juniper-junos.ts
 
 import type { VendorSchema } from '../VendorSchema';
+import { BRACE_SECRET, secretPattern } from './secrets';
 
 /**
  * Juniper JunOS configuration schema.
@@ -44,6 +45,20 @@ export const JuniperJunOSSchema: VendorSchema = {
   ],
   sectionDelimiter: '}',
 
+  secretPatterns: [
+    // Passwords, RADIUS/TACACS+ secrets and routing protocol keys, in brace or 'set' format
+    secretPattern(String.raw`(?<![\w-])encrypted-password\s+${BRACE_SECRET}`, 'password'),
+    secretPattern(String.raw`(?<![\w-])(?:secret|shared-secret|simple-password)\s+${BRACE_SECRET}`, 'key'),
+    secretPattern(String.raw`(?<![\w-])authentication-key\s+(?!\d+\s)${BRACE_SECRET}`, 'key'),
+    secretPattern(String.raw`(?<![\w-])authentication-key\s+\d+\s+(?:type\s+\S+\s+)?value\s+${BRACE_SECRET}`, 'key'),
+    secretPattern(String.raw`(?<![\w-])md5\s+\d+\s+key\s+${BRACE_SECRET}`, 'key'),
+    secretPattern(String.raw`(?<![\w-])pre-shared-key\s+(?<type>ascii-text|hexadecimal)\s+${BRACE_SECRET}`, 'key'),
+    // SNMP communities (policy-options communities have members) and SNMPv3 passphrases
+    secretPattern(String.raw`(?<![\w-])snmp\s+community\s+${BRACE_SECRET}`, 'community'),
+    secretPattern(String.raw`^\s*community\s+${BRACE_SECRET}\s*[{;]\s*$`, 'community'),
+    secretPattern(String.raw`(?<![\w-])(?:authentication|privacy)-password\s+${BRACE_SECRET}`, 'community'),
+  ],
+
   blockStarters: [
     // ============ DEPTH 0: Top-level stanzas ============
 
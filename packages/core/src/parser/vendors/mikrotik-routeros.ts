@@ -1,6 +1,7 @@
 // packages/core/src/parser/vendors/mikrotik-routeros.ts
 
 import type { VendorSchema } from '../VendorSchema';
+import { SECRET, secretPattern } from './secrets';
 
 /**
  * MikroTik RouterOS configuration schema.
@@ -49,6 +50,12 @@ export const MikroTikRouterOSSchema: VendorSchema = {
 
   sectionDelimiter: undefined, // No explicit delimiter - new path starts new block
 
+  secretPatterns: [
+    // Passwords and pre-shared keys of 'name=value' properties
+    secretPattern(String.raw`(?<![\w-])(?:password|secret)=${SECRET}`, 'password'),
+    secretPattern(String.raw`(?<![\w-])(?:wpa-pre-shared-key|wpa2-pre-shared-key|pre-shared-key|authentication-key|auth-key|passphrase|private-key)=${SECRET}`, 'key'),
+  ],
+
   blockStarters: [
     // ============ DEPTH 0: Top-level path declarations ============
     // These are the main configuration sections in RouterOS
@@ -1,6 +1,7 @@
 // packages/core/src/parser/vendors/nokia-sros.ts
 
 import type { VendorSchema } from '../VendorSchema';
+import { BRACE_SECRET, SECRET, secretPattern } from './secrets';
 
 /**
  * Nokia SR OS (Service Router Operating System) configuration schema.
@@ -69,6 +70,14 @@ export const NokiaSROSSchema: VendorSchema = {
   commentPatterns: [/^#/, /^echo\s+".*"$/],
   sectionDelimiter: undefined,
 
+  secretPatterns: [
+    // Passwords and keys, followed by their hash type ('hash2') when encrypted
+    secretPattern(String.raw`(?<![\w-])password\s+${BRACE_SECRET}`, 'password'),
+    secretPattern(String.raw`(?<![\w-])(?:secret|authentication-key|hash-key|pre-shared-key|auth-key|priv-key)\s+${BRACE_SECRET}`, 'key'),
+    // SNMP communities (classic CLI)
+    secretPattern(String.raw`^\s*community\s+${SECRET}\s+(?:r|rw|rwa|mgmt|vpls-mgmt)\b`, 'community'),
+  ],
+
   blockStarters: [
     // ============ DEPTH 0: Top-level configuration blocks ============
 
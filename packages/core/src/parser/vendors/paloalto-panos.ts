@@ -1,6 +1,7 @@
 // packages/core/src/parser/vendors/paloalto-panos.ts
 
 import type { VendorSchema } from '../VendorSchema';
+import { BRACE_SECRET, secretPattern } from './secrets';
 
 /**
  * Palo Alto PAN-OS configuration schema.
@@ -61,6 +62,14 @@ export const PaloAltoPANOSSchema: VendorSchema = {
   ],
   sectionDelimiter: '}',
 
+  secretPatterns: [
+    // Password hashes, encrypted secrets and keys ('-AQ==...'), in brace or 'set' format
+    secretPattern(String.raw`(?<![\w-])(?:phash|password-hash)\s+${BRACE_SECRET}`, 'password'),
+    secretPattern(String.raw`(?<![\w-])(?:secret|password|key|private-key)\s+${BRACE_SECRET}`, 'key'),
+    // SNMP communities and SNMPv3 passphrases
+    secretPattern(String.raw`(?<![\w-])(?:snmp-community-string|authpwd|privpwd)\s+${BRACE_SECRET}`, 'community'),
+  ],
+
   blockStarters: [
     // ============ DEPTH 0: Top-level configuration stanzas ============
 
@@ -0,0 +1,60 @@
+// packages/core/src/parser/vendors/secrets.ts
+
+import type { SecretKind, SecretPatternDef } from '../VendorSchema';
+
+/** A secret value: a quoted string or a word */
+export const SECRET = String.raw`(?<secret>"[^"]*"|'[^']*'|\S+)`;
+
+/** A secret value in configurations that end statements with ';' or open blocks with '{' */
+export const BRACE_SECRET = String.raw`(?<secret>"[^"]*"|'[^']*'|[^\s;{]+)`;
+
+/** Optional encoding type before a secret (Cisco '7', Arista 'sha512', Aruba 'ciphertext') */
+export const SECRET_TYPE = String.raw`(?:(?<type>\d+|sha512|ciphertext|plaintext)\s+)?`;
+
+/**
+ * Builds a secret pattern from a regex source (matched case-insensitively).
+ */
+export function secretPattern(source: string, kind: SecretKind): SecretPatternDef {
+  return { pattern: new RegExp(source, 'i'), kind };
+}
+
+/**
+ * Secrets of Cisco-style CLIs (IOS/IOS-XE, NX-OS, Arista EOS, Aruba,
+ * Extreme VOSS): enable, user and line passwords, SNMP communities and
+ * SNMPv3 passphrases, TACACS+/RADIUS keys, IKE pre-shared keys, and
+ * routing protocol, NTP and FHRP authentication keys.
+ */
+export const CISCO_STYLE_SECRET_PATTERNS: SecretPatternDef[] = [
+  // Passwords
+  secretPattern(String.raw`^\s*enable\s+(?:secret|password)\s+(?:level\s+\d+\s+)?${SECRET_TYPE}${SECRET}`, 'password'),
+  secretPattern(String.raw`^\s*(?:username|user)\s+\S+\s+(?:.*\s)?(?:secret|password)\s+${SECRET_TYPE}${SECRET}`, 'password'),
+  secretPattern(String.raw`^\s*(?:password|secret)\s+(?!manager\b|operator\b)${SECRET_TYPE}${SECRET}`, 'password'),
+  secretPattern(String.raw`^\s*password\s+(?:manager|operator)\s+(?:user-name\s+\S+\s+)?(?:(?<type>plaintext|sha1)\s+)?${SECRET}`, 'password'),
+  secretPattern(String.raw`^\s*mgmt-user\s+\S+\s+\S+\s+${SECRET}`, 'password'),
+  secretPattern(String.raw`(?<![\w-])ppp\s+(?:chap|pap)\s+(?:sent-username\s+\S+\s+)?password\s+${SECRET_TYPE}${SECRET}`, 'password'),
+
+  // SNMP communities and SNMPv3 passphrases
+  secretPattern(String.raw`^\s*snmp-server\s+community\s+${SECRET}`, 'community'),
+  secretPattern(String.raw`^\s*snmp-server\s+host\s+\S+\s+(?:(?:traps|informs)\s+)?(?:version\s+(?:1|2c)\s+)?(?!version\b)${SECRET}`, 'community'),
+  secretPattern(String.raw`^\s*snmp-server\s+user\s+.*?\sauth\s+(?:md5|sha\S*)\s+${SECRET}`, 'community'),
+  secretPattern(String.raw`^\s*snmp-server\s+user\s+.*?\spriv\s+(?:(?:3des|des|aes(?:-128)?)(?:\s+(?:128|192|256))?\s+)?${SECRET}`, 'community'),
+
+  // TACACS+ and RADIUS keys ('key 7 X' inside 'tacacs server' blocks, but not key chain 'key 1')
+  secretPattern(String.raw`^\s*(?:tacacs-server|radius-server|server-private)\s.*?(?<![\w-])key\s+${SECRET_TYPE}${SECRET}`, 'key'),
+  secretPattern(String.raw`^\s*key\s+(?:(?<type>\d|ciphertext|plaintext)\s+(?=\S)|(?!\d+\s*$))${SECRET}\s*$`, 'key'),
+
+  // IKE pre-shared keys
+  secretPattern(String.raw`^\s*crypto\s+isakmp\s+key\s+${SECRET_TYPE}${SECRET}\s+(?:address|hostname)\s`, 'key'),
+  secretPattern(String.raw`(?<![\w-])pre-shared-key\s+(?:(?:local|remote|address\s+\S+(?:\s+\S+)?\s+key)\s+)?${SECRET_TYPE}${SECRET}`, 'key'),
+  secretPattern(String.raw`(?<![\w-])wpa-passphrase\s+${SECRET}`, 'key'),
+
+  // Routing protocol, NTP and FHRP authentication
+  secretPattern(String.raw`(?<![\w-])ip\s+ospf\s+authentication-key\s+${SECRET_TYPE}${SECRET}`, 'key'),
+  secretPattern(String.raw`(?<![\w-])message-digest-key\s+\d+\s+md5\s+${SECRET_TYPE}${SECRET}`, 'key'),
+  secretPattern(String.raw`^\s*neighbor\s+\S+\s+password\s+${SECRET_TYPE}${SECRET}`, 'key'),
+  secretPattern(String.raw`(?<![\w-])key-string\s+${SECRET_TYPE}${SECRET}`, 'key'),
+  secretPattern(String.raw`^\s*ntp\s+authentication-key\s+\d+\s+\S+\s+(?:(?<type>\d)\s+(?=\S))?${SECRET}`, 'key'),
+  secretPattern(String.raw`^\s*(?:(?:standby|vrrp)\s+\d+\s+)?authentication\s+text\s+${SECRET}`, 'key'),
+  secretPattern(String.raw`^\s*(?:standby|vrrp)\s+\d+\s+authentication\s+(?!md5\b|text\b)${SECRET}\s*$`, 'key'),
+  secretPattern(String.raw`^\s*(?:isis\s+password|area-password|domain-password)\s+${SECRET}`, 'key'),
+];
@@ -1,6 +1,7 @@
 // packages/core/src/parser/vendors/vyos-vyos.ts
 
 import type { VendorSchema } from '../VendorSchema';
+import { BRACE_SECRET, secretPattern } from './secrets';
 
 /**
  * VyOS/Ubiquiti EdgeOS configuration schema.
@@ -65,6 +66,15 @@ export const VyOSSchema: VendorSchema = {
   ],
   sectionDelimiter: '}',
 
+  secretPatterns: [
+    // Passwords, pre-shared secrets and keys, in brace or 'set' format
+    secretPattern(String.raw`(?<![\w-])(?:plaintext-password|encrypted-password)\s+${BRACE_SECRET}`, 'password'),
+    secretPattern(String.raw`(?<![\w-])(?:pre-shared-secret|secret|password|md5-key|key|private-key)\s+${BRACE_SECRET}`, 'key'),
+    // SNMP communities
+    secretPattern(String.raw`(?<![\w-])snmp\s+community\s+${BRACE_SECRET}`, 'community'),
+    secretPattern(String.raw`^\s*community\s+${BRACE_SECRET}\s*\{\s*$`, 'community'),
+  ],
+
   blockStarters: [
     // ============ DEPTH 0: Top-level configuration stanzas ============
 
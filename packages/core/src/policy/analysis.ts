@@ -0,0 +1,110 @@
+// packages/core/src/policy/analysis.ts
+
+import { coversMatch, intersectsMatch, isUnrestricted } from './match';
+import type { PolicyField, PolicyFinding, PolicyRule, PolicyRuleList } from './types';
+
+/** Fields that make a permit rule overly broad when none of them is restricted */
+const BROAD_FIELDS: PolicyField[] = ['source', 'destination', 'service', 'application'];
+
+const fieldsOf = (a: PolicyRule, b: PolicyRule): PolicyField[] =>
+  [...new Set([...Object.keys(a.match), ...Object.keys(b.match)])] as PolicyField[];
+
+/**
+ * Checks whether rule a matches all traffic rule b matches.
+ */
+export function coversRule(a: PolicyRule, b: PolicyRule): boolean {
+  return a.exact && fieldsOf(a, b).every((field) => coversMatch(a.match[field] ?? 'any', b.match[field] ?? 'any'));
+}
+
+/**
+ * Checks whether rules a and b may match the same traffic.
+ */
+export function overlapsRule(a: PolicyRule, b: PolicyRule): boolean {
+  return fieldsOf(a, b).every((field) => intersectsMatch(a.match[field] ?? 'any', b.match[field] ?? 'any'));
+}
+
+/**
+ * Checks whether a rule matches all traffic, on every field.
+ */
+const isCatchAll = (rule: PolicyRule): boolean =>
+  rule.exact && (Object.keys(rule.match) as PolicyField[]).every((field) => isUnrestricted(rule.match[field]));
+
+/**
+ * Analyzes an ordered rule list. A rule is:
+ * - shadowed when an earlier rule with the other action covers it;
+ * - redundant when an earlier rule with the same action covers it, or a
+ *   later one does and no rule in between with the other action overlaps
+ *   it (catch-all rules at the end of a list are intentional and ignored);
+ * - overly broad when it permits any source, destination, service and
+ *   application.
+ *
+ * @param list The rule list
+ * @returns Findings in rule order
+ */
+export function analyzeRuleList(list: PolicyRuleList): PolicyFinding[] {
+  const findings: PolicyFinding[] = [];
+  const { rules } = list;
+
+  rules.forEach((rule, position) => {
+    const earlier = rules.slice(0, position).find((candidate) => coversRule(candidate, rule));
+    if (earlier) {
+      findings.push({ type: earlier.action === rule.action ? 'redundant' : 'shadowed', list, rule, by: earlier });
+    } else {
+      for (const later of rules.slice(position + 1)) {
+        if (later.action !== rule.action) {
+          if (overlapsRule(later, rule)) break;
+        } else if (coversRule(later, rule) && !isCatchAll(later)) {
+          findings.push({ type: 'redundant', list, rule, by: later });
+          break;
+        }
+      }
+    }
+
+    if (rule.action === 'permit' && rule.exact && BROAD_FIELDS.every((field) => isUnrestricted(rule.match[field]))) {
+      findings.push({ type: 'overly-broad', list, rule });
+    }
+  });
+
+  return findings;
+}
+
+/**
+ * Ordered rule lists of one configuration and their findings. Lookups of
+ * findings by line are O(1).
+ *
+ * Built by analyzePolicies(); rules get the analysis of the configuration
+ * they check from `context.getPolicyAnalysis()`.
+ */
+export class PolicyAnalysis {
+  /** Findings of all lists, in list and rule order */
+  public readonly findings: PolicyFinding[];
+
+  private readonly findingsByLine = new Map<number, PolicyFinding[]>();
+
+  /**
+   * @param vendor ID of the vendor the configuration was parsed with
+   * @param lists Rule lists of the configuration
+   */
+  constructor(
+    public readonly vendor: string,
+    public readonly lists: PolicyRuleList[]
+  ) {
+    this.findings = lists.flatMap(analyzeRuleList);
+    for (const finding of this.findings) {
+      const line = finding.rule.source.loc.startLine;
+      const list = this.findingsByLine.get(line);
+      if (list) {
+        list.push(finding);
+      } else {
+        this.findingsByLine.set(line, [finding]);
+      }
+    }
+  }
+
+  /**
+   * Returns the findings about rules read from a line (0-based).
+   */
+  public getFindingsAtLine(line: number): PolicyFinding[] {
+    return this.findingsByLine.get(line) ?? [];
+  }
+}
@@ -0,0 +1,37 @@
+// packages/core/src/policy/extractor.ts
+
+import type { ConfigNode } from '../types/ConfigNode';
+import { PolicyAnalysis } from './analysis';
+import type { PolicyExtractor } from './types';
+import { extractCiscoPolicies } from './vendors/cisco';
+import { extractFortinetPolicies } from './vendors/fortinet';
+import { extractJunosPolicies } from './vendors/juniper';
+import { extractPanosPolicies } from './vendors/paloalto';
+import { extractVyosPolicies } from './vendors/vyos';
+
+/**
+ * Ordered rule list extractors by vendor ID. Vendors without an entry get
+ * an empty analysis.
+ */
+export const POLICY_EXTRACTORS: Readonly<Record<string, PolicyExtractor>> = {
+  'cisco-ios': extractCiscoPolicies,
+  'cisco-nxos': extractCiscoPolicies,
+  'arista-eos': extractCiscoPolicies,
+  'fortinet-fortigate': extractFortinetPolicies,
+  'juniper-junos': extractJunosPolicies,
+  'paloalto-panos': extractPanosPolicies,
+  vyos: extractVyosPolicies,
+};
+
+/**
+ * Reads the ordered rule lists of a parsed configuration (ACLs, firewall
+ * filters, policy tables, security rulebases, rulesets) and finds shadowed,
+ * redundant and overly broad rules.
+ *
+ * @param ast Parsed configuration
+ * @param vendorId ID of the vendor the configuration was parsed with
+ * @returns The rule lists and their findings
+ */
+export function analyzePolicies(ast: ConfigNode[], vendorId: string): PolicyAnalysis {
+  return new PolicyAnalysis(vendorId, POLICY_EXTRACTORS[vendorId]?.(ast) ?? []);
+}
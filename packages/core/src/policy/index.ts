@@ -0,0 +1,17 @@
+// packages/core/src/policy/index.ts
+
+export type {
+  PolicyAction,
+  PolicyExtractor,
+  PolicyField,
+  PolicyFinding,
+  PolicyFindingType,
+  PolicyListKind,
+  PolicyMatch,
+  PolicyRange,
+  PolicyRule,
+  PolicyRuleList,
+} from './types';
+
+export { PolicyAnalysis, analyzeRuleList } from './analysis';
+export { POLICY_EXTRACTORS, analyzePolicies } from './extractor';
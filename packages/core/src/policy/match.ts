@@ -0,0 +1,216 @@
+// packages/core/src/policy/match.ts
+
+import { isValidIPv4, isValidIPv6, ipv6ToBigInt } from '../ip/extractor';
+import type { PolicyMatch, PolicyRange } from './types';
+
+// ============================================================================
+// Values
+// ============================================================================
+
+/** IPv4 addresses are mapped into the IPv6 space (::ffff:0:0/96) */
+const IPV4_BASE = 0xffff00000000n;
+
+/** All IPv4 addresses (0.0.0.0/0) */
+export const IPV4_ALL: PolicyRange = [IPV4_BASE, IPV4_BASE + 0xffffffffn];
+
+/** All IPv6 addresses (::/0) */
+export const IPV6_ALL: PolicyRange = [0n, (1n << 128n) - 1n];
+
+/** Services are encoded as protocol * 65536 + destination port */
+const PORTS = 65536n;
+
+/** All protocols, all ports */
+export const SERVICE_ALL: PolicyRange = [0n, 256n * PORTS - 1n];
+
+/** IP protocol numbers by name (Cisco, Junos, PAN-OS, FortiOS, VyOS keywords) */
+const PROTOCOLS: Readonly<Record<string, number>> = {
+  icmp: 1, igmp: 2, ipinip: 4, tcp: 6, egp: 8, igp: 9, udp: 17, gre: 47, esp: 50,
+  ahp: 51, ah: 51, icmpv6: 58, icmp6: 58, 'ipv6-icmp': 58, eigrp: 88, ospf: 89, nos: 94,
+  pim: 103, pcp: 108, vrrp: 112, l2tp: 115, sctp: 132,
+};
+
+/** Well-known TCP/UDP port numbers by name */
+const PORT_NAMES: Readonly<Record<string, number>> = {
+  'ftp-data': 20, ftp: 21, ssh: 22, telnet: 23, smtp: 25, tacacs: 49, domain: 53, dns: 53,
+  bootps: 67, bootpc: 68, tftp: 69, finger: 79, www: 80, http: 80, pop3: 110, sunrpc: 111,
+  ident: 113, nntp: 119, ntp: 123, 'netbios-ns': 137, 'netbios-dgm': 138, 'netbios-ss': 139,
+  'netbios-ssn': 139, imap: 143, snmp: 161, snmptrap: 162, 'snmp-trap': 162, bgp: 179,
+  ldap: 389, https: 443, 'microsoft-ds': 445, isakmp: 500, ike: 500, biff: 512, exec: 512,
+  login: 513, cmd: 514, syslog: 514, lpd: 515, printer: 515, talk: 517, rip: 520,
+  klogin: 543, kshell: 544, ldaps: 636, 'non500-isakmp': 4500, radius: 1812,
+  'radius-acct': 1813,
+};
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Returns the value of an IPv4 or IPv6 address.
+ */
+export function addressValue(address: string): bigint | undefined {
+  if (isValidIPv4(address)) {
+    const value = address.split('.').reduce((acc, octet) => acc * 256n + BigInt(parseInt(octet, 10)), 0n);
+    return IPV4_BASE + value;
+  }
+  if (isValidIPv6(address)) {
+    return ipv6ToBigInt(address);
+  }
+  return undefined;
+}
+
+/**
+ * Returns the range of a prefix ('10.0.0.0', 8).
+ */
+export function prefixRange(address: string, length: number): PolicyRange | undefined {
+  const value = addressValue(address);
+  if (value === undefined) return undefined;
+  const bits = BigInt((isValidIPv4(address) ? 32 : 128) - length);
+  if (bits < 0n) return undefined;
+  const start = value - (value % (1n << bits));
+  return [start, start + (1n << bits) - 1n];
+}
+
+/**
+ * Returns the range of an address with a netmask or a wildcard mask
+ * ('10.0.0.0 0.0.0.255'). Non-contiguous masks have no range.
+ */
+export function maskedRange(address: string, mask: string, wildcard: boolean): PolicyRange | undefined {
+  if (!isValidIPv4(mask)) return undefined;
+  let value = mask.split('.').reduce((acc, octet) => acc * 256 + parseInt(octet, 10), 0);
+  if (wildcard) value = 0xffffffff - value;
+  const bits = value.toString(2).padStart(32, '0');
+  if (!/^1*0*$/.test(bits)) return undefined;
+  return prefixRange(address, bits.indexOf('0') === -1 ? 32 : bits.indexOf('0'));
+}
+
+/**
+ * Parses an address, prefix or range: '10.0.0.1', '10.0.0.0/8',
+ * '2001:db8::/32', '10.0.0.1-10.0.0.9'.
+ */
+export function parseAddressRange(text: string): PolicyRange | undefined {
+  const dash = text.indexOf('-');
+  if (dash !== -1) {
+    const start = addressValue(text.slice(0, dash));
+    const end = addressValue(text.slice(dash + 1));
+    return start !== undefined && end !== undefined && start <= end ? [start, end] : undefined;
+  }
+  const [address = '', length] = text.split('/');
+  if (length === undefined) {
+    const value = addressValue(address);
+    return value === undefined ? undefined : [value, value];
+  }
+  return /^\d+$/.test(length) ? prefixRange(address, parseInt(length, 10)) : undefined;
+}
+
+/**
+ * Returns the number of a protocol name or number ('tcp', '6').
+ */
+export function protocolNumber(name: string): number | undefined {
+  if (/^\d+$/.test(name)) {
+    const number = parseInt(name, 10);
+    return number <= 255 ? number : undefined;
+  }
+  return PROTOCOLS[name.toLowerCase()];
+}
+
+/**
+ * Returns the number of a port name or number ('ssh', '22').
+ */
+export function portNumber(name: string): number | undefined {
+  if (/^\d+$/.test(name)) {
+    const number = parseInt(name, 10);
+    return number <= 65535 ? number : undefined;
+  }
+  return PORT_NAMES[name.toLowerCase()];
+}
+
+/**
+ * Parses a port list ('22', '80,443', '1024-65535', 'ssh'), with ranges
+ * separated by '-' or ':'.
+ */
+export function parsePortRanges(text: string): PolicyRange[] | undefined {
+  const ranges: PolicyRange[] = [];
+  for (const part of text.split(',')) {
+    const [low = '', high] = part.split(/[-:]/);
+    const start = portNumber(low);
+    const end = high === undefined ? start : portNumber(high);
+    if (start === undefined || end === undefined || start > end) return undefined;
+    ranges.push([BigInt(start), BigInt(end)]);
+  }
+  return ranges;
+}
+
+/**
+ * Returns the service ranges of a protocol and destination ports. Without
+ * ports, the range covers every port of the protocol.
+ */
+export function serviceRanges(protocol: number, ports?: PolicyRange[]): PolicyRange[] {
+  const base = BigInt(protocol) * PORTS;
+  if (!ports) return [[base, base + PORTS - 1n]];
+  return ports.map(([start, end]) => [base + start, base + end]);
+}
+
+// ============================================================================
+// Matches
+// ============================================================================
+
+/**
+ * Builds a match from ranges and names.
+ */
+export function matchOf(ranges: PolicyRange[], names: string[] = []): PolicyMatch {
+  return { ranges: mergeRanges(ranges), names: [...new Set(names)] };
+}
+
+/**
+ * Returns the union of two matches.
+ */
+export function unionMatch(a: PolicyMatch, b: PolicyMatch): PolicyMatch {
+  if (a === 'any' || b === 'any') return 'any';
+  return matchOf([...a.ranges, ...b.ranges], [...a.names, ...b.names]);
+}
+
+/**
+ * Checks whether a matches every value b matches.
+ */
+export function coversMatch(a: PolicyMatch, b: PolicyMatch): boolean {
+  if (a === 'any') return true;
+  if (b === 'any') return false;
+  const merged = mergeRanges(a.ranges);
+  return (
+    b.ranges.every(([start, end]) => merged.some(([low, high]) => low <= start && end <= high)) &&
+    b.names.every((name) => a.names.includes(name))
+  );
+}
+
+/**
+ * Checks whether a and b may match a common value. Named values of unknown
+ * content may match anything.
+ */
+export function intersectsMatch(a: PolicyMatch, b: PolicyMatch): boolean {
+  if (a === 'any' || b === 'any' || a.names.length > 0 || b.names.length > 0) return true;
+  return a.ranges.some(([start, end]) => b.ranges.some(([low, high]) => start <= high && low <= end));
+}
+
+/**
+ * Checks whether a match is unrestricted: any value, every IPv4 or IPv6
+ * address, or every service.
+ */
+export function isUnrestricted(match: PolicyMatch | undefined): boolean {
+  if (match === undefined || match === 'any') return true;
+  return [IPV4_ALL, IPV6_ALL, SERVICE_ALL].some((all) => coversMatch(match, { ranges: [all], names: [] }));
+}
+
+function mergeRanges(ranges: PolicyRange[]): PolicyRange[] {
+  const sorted = [...ranges].sort((a, b) => (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0));
+  const merged: Array<[bigint, bigint]> = [];
+  for (const [start, end] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1] + 1n) {
+      if (end > last[1]) last[1] = end;
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,107 @@
+// packages/core/src/policy/types.ts
+
+import type { ConfigNode } from '../types/ConfigNode';
+import type { ModelSource } from '../model/types';
+
+/**
+ * Kind of an ordered rule list: a Cisco-style ACL, a Junos firewall filter,
+ * the FortiGate firewall policy table, a PAN-OS security rulebase or a VyOS
+ * firewall ruleset.
+ */
+export type PolicyListKind = 'acl' | 'firewall-filter' | 'firewall-policy' | 'security-rulebase' | 'ruleset';
+
+/** What a rule does with the traffic it matches */
+export type PolicyAction = 'permit' | 'deny';
+
+/**
+ * A match condition of a rule. Zones and interfaces ('from', 'to'),
+ * addresses ('source', 'destination'), services (protocol and destination
+ * port) and source ports are compared as numeric ranges; applications and
+ * objects whose content is unknown are compared by name.
+ */
+export type PolicyField = 'from' | 'to' | 'source' | 'destination' | 'service' | 'source-port' | 'application';
+
+/** Inclusive range of numeric values (addresses, protocol and port) */
+export type PolicyRange = readonly [bigint, bigint];
+
+/**
+ * Values matched by a condition: 'any', or the union of ranges and named
+ * values. Names only match the same name.
+ */
+export type PolicyMatch =
+  | 'any'
+  | {
+      ranges: PolicyRange[];
+      names: string[];
+    };
+
+/**
+ * One rule of an ordered list: an ACL entry, a filter term, a firewall
+ * policy or a security rule. Disabled rules and rules that do not end
+ * evaluation (Junos 'next term', VyOS 'jump') are not listed.
+ */
+export interface PolicyRule {
+  /** Name of the rule: sequence number, term name, policy ID or rule name */
+  name: string;
+
+  /** Position in the list (0-based) */
+  position: number;
+
+  /** Action on matching traffic */
+  action: PolicyAction;
+
+  /** Conditions; a missing field matches any value */
+  match: Partial<Record<PolicyField, PolicyMatch>>;
+
+  /**
+   * False when the rule has conditions the analysis does not model (TCP
+   * flags, users, schedules, negation). Such a rule may match less than
+   * `match` says, so it never shadows other rules and is never too broad.
+   */
+  exact: boolean;
+
+  /** Node the rule was read from (its first line) */
+  source: ModelSource;
+}
+
+/**
+ * An ordered rule list: the first matching rule decides.
+ */
+export interface PolicyRuleList {
+  kind: PolicyListKind;
+
+  /** ACL, filter or ruleset name; the rulebase for firewall policies */
+  name: string;
+
+  /** Rules in evaluation order */
+  rules: PolicyRule[];
+
+  /** Node that starts the list */
+  source: ModelSource;
+}
+
+/**
+ * Problem found in a rule list:
+ * - 'shadowed': an earlier rule with the other action matches all traffic of the rule, so it never applies
+ * - 'redundant': another rule with the same action makes the rule unnecessary
+ * - 'overly-broad': the rule permits any source to any destination on any service
+ */
+export type PolicyFindingType = 'shadowed' | 'redundant' | 'overly-broad';
+
+export interface PolicyFinding {
+  type: PolicyFindingType;
+
+  /** List of the rule */
+  list: PolicyRuleList;
+
+  /** Rule the finding is about */
+  rule: PolicyRule;
+
+  /** Rule that shadows the rule, or makes it redundant */
+  by?: PolicyRule;
+}
+
+/**
+ * Vendor-specific reader of the ordered rule lists of a parsed configuration.
+ */
+export type PolicyExtractor = (ast: ConfigNode[]) => PolicyRuleList[];
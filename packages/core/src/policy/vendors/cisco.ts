@@ -0,0 +1,225 @@
+// packages/core/src/policy/vendors/cisco.ts
+
+import type { ConfigNode } from '../../types/ConfigNode';
+import { regroupByIndent, sourceOf, tokenize, walkNodes } from '../../model/common';
+import { isValidIPv4 } from '../../ip/extractor';
+import { maskedRange, matchOf, parseAddressRange, portNumber, protocolNumber, serviceRanges } from '../match';
+import type { PolicyExtractor, PolicyMatch, PolicyRange, PolicyRule, PolicyRuleList } from '../types';
+
+/** Words after 'ip access-list' that are global settings, not ACL names */
+const ACL_SETTINGS = new Set(['logging', 'log-update', 'resequence', 'persistent', 'match-local-traffic', 'role-based']);
+
+/** Protocols whose entries may match ports */
+const PORT_PROTOCOLS = new Set([6, 17, 132]);
+
+/** Entry options that do not change what the entry matches */
+const NEUTRAL_OPTIONS = new Set(['log', 'log-input', 'counters']);
+
+/**
+ * Ordered rule list extractor for Cisco-style ACLs (IOS, NX-OS, Arista
+ * EOS): named standard, extended and IPv6 ACLs, and numbered ACLs.
+ */
+export const extractCiscoPolicies: PolicyExtractor = (ast) => {
+  const lists: PolicyRuleList[] = [];
+  const numbered = new Map<string, { list: PolicyRuleList; standard: boolean }>();
+
+  walkNodes(regroupByIndent(ast), (node, parent) => {
+    if (parent) return false;
+    const words = tokenize(node.id);
+    const lower = words.map((word) => word.toLowerCase());
+    const [first, second, third] = lower;
+
+    if ((first === 'ip' || first === 'ipv6') && second === 'access-list' && third && !ACL_SETTINGS.has(third)) {
+      // ip access-list [standard|extended] NAME, ipv6 access-list NAME
+      const typed = third === 'standard' || third === 'extended';
+      const name = typed ? words[3] : words[2];
+      if (!name) return false;
+      const list: PolicyRuleList = { kind: 'acl', name, rules: [], source: sourceOf(node) };
+      for (const entry of node.children) {
+        addEntry(list, tokenize(entry.id), entry, third === 'standard');
+      }
+      lists.push(list);
+    } else if (first === 'access-list' && words[1] && /^\d+$/.test(words[1])) {
+      // access-list 10 permit 10.0.0.0 0.0.0.255, access-list 101 permit tcp ...
+      let entry = numbered.get(words[1]);
+      if (!entry) {
+        const number = parseInt(words[1], 10);
+        const standard = number < 100 || (number >= 1300 && number < 2000);
+        entry = { list: { kind: 'acl', name: words[1], rules: [], source: sourceOf(node) }, standard };
+        numbered.set(words[1], entry);
+        lists.push(entry.list);
+      }
+      addEntry(entry.list, words.slice(2), node, entry.standard);
+    }
+    return false;
+  });
+
+  return lists;
+};
+
+/**
+ * Reads an ACL entry ('10 permit tcp any host 10.0.0.1 eq 443') into a rule.
+ * Remarks are skipped; entries that cannot be read match anything, inexactly.
+ */
+function addEntry(list: PolicyRuleList, words: string[], node: ConfigNode, standard: boolean): void {
+  const lower = words.map((word) => word.toLowerCase());
+  let i = 0;
+  let name = /^\d+$/.test(words[0] ?? '') ? words[i++] : undefined;
+  const action = lower[i++];
+  if (action !== 'permit' && action !== 'deny') return;
+
+  const rule: PolicyRule = {
+    name: name ?? String(list.rules.length + 1),
+    position: list.rules.length,
+    action,
+    match: {},
+    exact: true,
+    source: sourceOf(node),
+  };
+  list.rules.push(rule);
+
+  const reader = new EntryReader(words, lower, i);
+  if (standard) {
+    const source = reader.address(true);
+    if (source) rule.match.source = source;
+  } else {
+    const service = reader.protocol();
+    const source = reader.address(false);
+    const sourcePorts = reader.ports(service.protocol);
+    const destination = reader.address(false);
+    const destinationPorts = reader.ports(service.protocol);
+    if (source) rule.match.source = source;
+    if (destination) rule.match.destination = destination;
+    if (sourcePorts) rule.match['source-port'] = matchOf(sourcePorts);
+    if (service.names) {
+      rule.match.service = matchOf([], service.names);
+    } else if (service.protocol !== undefined) {
+      rule.match.service = matchOf(serviceRanges(service.protocol, destinationPorts));
+    }
+  }
+
+  // IOS IPv6 entries may end with 'sequence N'
+  for (; reader.at < words.length; reader.at++) {
+    const option = lower[reader.at] ?? '';
+    if (option === 'sequence') {
+      name = words[++reader.at];
+      if (name) rule.name = name;
+    } else if (!NEUTRAL_OPTIONS.has(option)) {
+      reader.exact = false;
+    }
+  }
+  if (!reader.exact) {
+    rule.exact = false;
+  }
+  if (reader.failed) {
+    rule.match = {};
+  }
+}
+
+/**
+ * Reads the words of an ACL entry in order. Conditions it cannot read make
+ * the entry inexact; an unreadable address or port makes it match anything.
+ */
+class EntryReader {
+  public exact = true;
+  public failed = false;
+
+  constructor(
+    private readonly words: string[],
+    private readonly lower: string[],
+    public at: number
+  ) {}
+
+  /** Reads the protocol, or a service object-group */
+  protocol(): { protocol?: number; names?: string[] } {
+    const word = this.lower[this.at++] ?? '';
+    if (word === 'object-group' || word === 'portgroup') {
+      return { names: [`object-group:${this.words[this.at++] ?? ''}`] };
+    }
+    if (word === 'ip' || word === 'ipv6') return {};
+    const protocol = protocolNumber(word);
+    if (protocol === undefined) this.fail();
+    return { protocol };
+  }
+
+  /** Reads an address: any, host X, X wildcard, X/len, object-group NAME */
+  address(standard: boolean): PolicyMatch | undefined {
+    const word = this.lower[this.at] ?? '';
+    const next = this.words[this.at + 1] ?? '';
+    let range: PolicyRange | undefined;
+
+    if (word === 'any' || word === 'any4' || word === 'any6') {
+      this.at++;
+      return undefined;
+    }
+    if (word === 'host') {
+      range = parseAddressRange(next);
+      this.at += 2;
+    } else if (word === 'object-group' || word === 'addrgroup') {
+      this.at += 2;
+      return matchOf([], [`object-group:${next}`]);
+    } else if (word.includes('/')) {
+      range = parseAddressRange(word);
+      this.at++;
+    } else if (isValidIPv4(word) && isValidIPv4(next)) {
+      range = maskedRange(word, next, true);
+      this.at += 2;
+    } else if (standard && isValidIPv4(word)) {
+      range = parseAddressRange(word);
+      this.at++;
+    }
+
+    if (!range) {
+      this.fail();
+      return undefined;
+    }
+    return matchOf([range]);
+  }
+
+  /** Reads an optional port condition: eq, neq, lt, gt, range */
+  ports(protocol: number | undefined): PolicyRange[] | undefined {
+    const operator = this.lower[this.at] ?? '';
+    if (protocol === undefined || !PORT_PROTOCOLS.has(protocol) || !['eq', 'neq', 'lt', 'gt', 'range'].includes(operator)) {
+      return undefined;
+    }
+    this.at++;
+    const port = (): number | undefined => {
+      const value = portNumber(this.lower[this.at] ?? '');
+      if (value !== undefined) this.at++;
+      return value;
+    };
+
+    const first = port();
+    if (first === undefined) {
+      this.fail();
+      return undefined;
+    }
+    const n = BigInt(first);
+    switch (operator) {
+      case 'eq': {
+        const ranges: PolicyRange[] = [[n, n]];
+        for (let more = port(); more !== undefined; more = port()) ranges.push([BigInt(more), BigInt(more)]);
+        return ranges;
+      }
+      case 'neq':
+        return ([[0n, n - 1n], [n + 1n, 65535n]] as PolicyRange[]).filter(([start, end]) => start <= end);
+      case 'lt':
+        return n === 0n ? [] : [[0n, n - 1n]];
+      case 'gt':
+        return n === 65535n ? [] : [[n + 1n, 65535n]];
+      default: {
+        const last = port();
+        if (last === undefined) {
+          this.fail();
+          return undefined;
+        }
+        return [[n, BigInt(last)]];
+      }
+    }
+  }
+
+  private fail(): void {
+    this.exact = false;
+    this.failed = true;
+  }
+}
@@ -0,0 +1,245 @@
+// packages/core/src/policy/vendors/fortinet.ts
+
+import type { ConfigNode } from '../../types/ConfigNode';
+import { sourceOf, tokenize } from '../../model/common';
+import { maskedRange, matchOf, parseAddressRange, parsePortRanges, protocolNumber, serviceRanges, unionMatch } from '../match';
+import type { PolicyExtractor, PolicyMatch, PolicyRange, PolicyRule, PolicyRuleList } from '../types';
+
+/** An 'edit' entry of a config section, with its 'set' values */
+interface Entry {
+  name: string;
+  node: ConfigNode;
+  section: ConfigNode;
+  values: Map<string, string[]>;
+}
+
+/** A match read from objects, and whether it is exact */
+interface Resolved {
+  match: PolicyMatch;
+  exact: boolean;
+}
+
+/** Sections of address and service objects */
+const ADDRESS_SECTIONS = ['firewall address', 'firewall address6', 'firewall addrgrp', 'firewall addrgrp6', 'firewall vip', 'firewall vipgrp'];
+const SERVICE_SECTIONS = ['firewall service custom', 'firewall service group'];
+
+/** Policy settings that restrict the match beyond addresses and services when set */
+const IDENTITY_SETTINGS = ['groups', 'users', 'fsso-groups'];
+const NEGATION_SETTINGS = ['srcaddr-negate', 'dstaddr-negate', 'service-negate', 'internet-service', 'internet-service-src', 'ztna-status'];
+
+/**
+ * Ordered rule list extractor for the FortiOS firewall policy table, one
+ * list per VDOM. Addresses and services are resolved through address and
+ * service objects and groups; disabled policies are skipped.
+ */
+export const extractFortinetPolicies: PolicyExtractor = (ast) => {
+  const scopes = new Map<string, Map<string, Entry[]>>();
+  readSections(ast, '', undefined, scopes);
+
+  const lists: PolicyRuleList[] = [];
+  for (const [vdom, sections] of scopes) {
+    const policies = sections.get('firewall policy');
+    if (!policies) continue;
+    const resolver = new ObjectResolver(sections);
+    const first = policies[0];
+    if (!first) continue;
+    const list: PolicyRuleList = {
+      kind: 'firewall-policy',
+      name: vdom === '' ? 'firewall policy' : `${vdom} firewall policy`,
+      rules: [],
+      source: sourceOf(first.section),
+    };
+    for (const entry of policies) {
+      const rule = readPolicy(entry, list.rules.length, resolver);
+      if (rule) list.rules.push(rule);
+    }
+    lists.push(list);
+  }
+  return lists;
+};
+
+/**
+ * Collects the entries of every 'config' section, by VDOM ('config vdom'
+ * then 'edit NAME').
+ */
+function readSections(
+  nodes: ConfigNode[],
+  vdom: string,
+  section: { name: string; node: ConfigNode } | undefined,
+  scopes: Map<string, Map<string, Entry[]>>
+): void {
+  for (const node of nodes) {
+    if (node.type === 'virtual_root') {
+      readSections(node.children, vdom, section, scopes);
+      continue;
+    }
+    const words = tokenize(node.id);
+    const keyword = words[0]?.toLowerCase();
+    if (keyword === 'config') {
+      readSections(node.children, vdom, { name: words.slice(1).join(' ').toLowerCase(), node }, scopes);
+    } else if (keyword === 'edit' && words[1] !== undefined) {
+      if (section?.name === 'vdom') {
+        readSections(node.children, words[1], undefined, scopes);
+        continue;
+      }
+      if (section === undefined) continue;
+      const values = new Map<string, string[]>();
+      for (const child of node.children) {
+        const setting = tokenize(child.id);
+        if (setting[0]?.toLowerCase() === 'set' && setting[1]) {
+          values.set(setting[1].toLowerCase(), setting.slice(2));
+        }
+      }
+      let sections = scopes.get(vdom);
+      if (!sections) {
+        sections = new Map();
+        scopes.set(vdom, sections);
+      }
+      const entries = sections.get(section.name) ?? [];
+      entries.push({ name: words[1], node, section: section.node, values });
+      sections.set(section.name, entries);
+    }
+  }
+}
+
+function readPolicy(entry: Entry, position: number, resolver: ObjectResolver): PolicyRule | undefined {
+  const value = (key: string): string | undefined => entry.values.get(key)?.[0]?.toLowerCase();
+  if (value('status') === 'disable') return undefined;
+
+  const rule: PolicyRule = {
+    name: entry.name,
+    position,
+    action: value('action') === 'accept' || value('action') === 'ipsec' ? 'permit' : 'deny',
+    match: {},
+    exact: true,
+    source: sourceOf(entry.node),
+  };
+
+  const zones = (key: string): PolicyMatch | undefined => {
+    const names = entry.values.get(key) ?? [];
+    return names.length === 0 || names.includes('any') ? undefined : matchOf([], names);
+  };
+  const from = zones('srcintf');
+  const to = zones('dstintf');
+  if (from) rule.match.from = from;
+  if (to) rule.match.to = to;
+
+  const resolveAll = (keys: string[], resolve: (name: string) => Resolved): PolicyMatch | undefined => {
+    const names = keys.flatMap((key) => entry.values.get(key) ?? []);
+    if (names.length === 0) return undefined;
+    let match: PolicyMatch = matchOf([]);
+    for (const name of names) {
+      const resolved = resolve(name);
+      match = unionMatch(match, resolved.match);
+      if (!resolved.exact) rule.exact = false;
+    }
+    return match;
+  };
+  const source = resolveAll(['srcaddr', 'srcaddr6'], (name) => resolver.address(name));
+  const destination = resolveAll(['dstaddr', 'dstaddr6'], (name) => resolver.address(name));
+  const service = resolveAll(['service'], (name) => resolver.service(name));
+  if (source) rule.match.source = source;
+  if (destination) rule.match.destination = destination;
+  if (service) rule.match.service = service;
+
+  const schedule = entry.values.get('schedule')?.[0];
+  if (
+    (schedule !== undefined && schedule !== 'always') ||
+    IDENTITY_SETTINGS.some((key) => (entry.values.get(key) ?? []).length > 0) ||
+    NEGATION_SETTINGS.some((key) => value(key) === 'enable')
+  ) {
+    rule.exact = false;
+  }
+  return rule;
+}
+
+/**
+ * Resolves address and service names to the values they match. Names that
+ * are not defined, or whose content is not addresses or ports (FQDNs, VIPs,
+ * geography), match by name.
+ */
+class ObjectResolver {
+  private readonly addresses = new Map<string, Entry>();
+  private readonly services = new Map<string, Entry>();
+
+  constructor(sections: Map<string, Entry[]>) {
+    for (const section of ADDRESS_SECTIONS) {
+      for (const entry of sections.get(section) ?? []) this.addresses.set(entry.name, entry);
+    }
+    for (const section of SERVICE_SECTIONS) {
+      for (const entry of sections.get(section) ?? []) this.services.set(entry.name, entry);
+    }
+  }
+
+  address(name: string, seen = new Set<string>()): Resolved {
+    const entry = this.addresses.get(name);
+    if (!entry) {
+      return { match: name === 'all' ? 'any' : matchOf([], [name]), exact: true };
+    }
+    const members = entry.values.get('member');
+    if (members) {
+      return this.group(members, entry, seen, (member) => this.address(member, seen));
+    }
+
+    const type = entry.values.get('type')?.[0] ?? 'ipmask';
+    let range: PolicyRange | undefined;
+    const [address, mask] = entry.values.get('subnet') ?? [];
+    const ip6 = entry.values.get('ip6')?.[0];
+    if (type === 'iprange') {
+      range = parseAddressRange(`${entry.values.get('start-ip')?.[0] ?? ''}-${entry.values.get('end-ip')?.[0] ?? ''}`);
+    } else if (type === 'ipmask' && ip6) {
+      range = parseAddressRange(ip6);
+    } else if ((type === 'ipmask' || type === 'interface-subnet') && address) {
+      range = mask === undefined ? parseAddressRange(address) : maskedRange(address, mask, false);
+    }
+    return { match: range ? matchOf([range]) : matchOf([], [name]), exact: true };
+  }
+
+  service(name: string, seen = new Set<string>()): Resolved {
+    const entry = this.services.get(name);
+    if (!entry) {
+      return { match: name === 'ALL' ? 'any' : matchOf([], [name]), exact: true };
+    }
+    const members = entry.values.get('member');
+    if (members) {
+      return this.group(members, entry, seen, (member) => this.service(member, seen));
+    }
+
+    const protocol = (entry.values.get('protocol')?.[0] ?? 'TCP/UDP/SCTP').toUpperCase();
+    if (protocol === 'IP') {
+      const number = protocolNumber(entry.values.get('protocol-number')?.[0] ?? '0') ?? 0;
+      return { match: number === 0 ? 'any' : matchOf(serviceRanges(number)), exact: true };
+    }
+    if (protocol === 'ICMP' || protocol === 'ICMP6') {
+      // ICMP types and codes are not modeled
+      const exact = !entry.values.has('icmptype');
+      return { match: matchOf(serviceRanges(protocol === 'ICMP' ? 1 : 58)), exact };
+    }
+
+    // tcp-portrange "80 443 8000-8080:1024-65535" (destination[:source])
+    const ranges: PolicyRange[] = [];
+    let exact = !entry.values.has('iprange') && !entry.values.has('fqdn');
+    for (const [key, number] of [['tcp-portrange', 6], ['udp-portrange', 17], ['sctp-portrange', 132]] as const) {
+      for (const token of entry.values.get(key) ?? []) {
+        const [destination = '', sourcePorts] = token.split(':');
+        const ports = parsePortRanges(destination);
+        if (sourcePorts !== undefined || !ports) exact = false;
+        if (ports) ranges.push(...serviceRanges(number, ports));
+      }
+    }
+    return { match: ranges.length > 0 ? matchOf(ranges) : matchOf([], [name]), exact };
+  }
+
+  private group(members: string[], entry: Entry, seen: Set<string>, resolve: (member: string) => Resolved): Resolved {
+    if (seen.has(entry.name)) return { match: matchOf([]), exact: false };
+    seen.add(entry.name);
+    let match: PolicyMatch = matchOf([]);
+    let exact = (entry.values.get('exclude-member') ?? []).length === 0;
+    for (const member of members) {
+      const resolved = resolve(member);
+      match = unionMatch(match, resolved.match);
+      exact &&= resolved.exact;
+    }
+    return { match, exact };
+  }
+}
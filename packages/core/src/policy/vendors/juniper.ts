@@ -0,0 +1,144 @@
+// packages/core/src/policy/vendors/juniper.ts
+
+import { flattenStatements, nodeAt, sourceOf } from '../../model/common';
+import type { Statement } from '../../model/common';
+import { matchOf, parseAddressRange, parsePortRanges, protocolNumber, serviceRanges } from '../match';
+import type { PolicyAction, PolicyExtractor, PolicyMatch, PolicyRange, PolicyRule, PolicyRuleList } from '../types';
+
+/** Actions that end the evaluation of a filter */
+const TERMINATING_ACTIONS: Readonly<Record<string, PolicyAction>> = {
+  accept: 'permit',
+  discard: 'deny',
+  reject: 'deny',
+};
+
+/** A term being read: its match conditions and actions, one entry per statement */
+interface Term {
+  name: string;
+  from: string[][];
+  then: string[][];
+  statement: Statement;
+  wordIndex: number;
+}
+
+/**
+ * Ordered rule list extractor for Junos firewall filters, in brace or 'set'
+ * format. Terms that end with 'next term' do not decide and are skipped;
+ * terms without a terminating action accept.
+ */
+export const extractJunosPolicies: PolicyExtractor = (ast) => {
+  const filters = new Map<string, { list: PolicyRuleList; terms: Map<string, Term> }>();
+
+  for (const statement of flattenStatements(ast)) {
+    const w = statement.words;
+    // firewall [family F] filter NAME term T (from|then) ...
+    const filter = w.indexOf('filter');
+    if (w[0] !== 'firewall' || filter === -1 || filter > 3 || w[filter + 2] !== 'term') continue;
+    const filterName = w[filter + 1] ?? '';
+    const termName = w[filter + 3] ?? '';
+    const family = filter === 3 ? w[2] ?? 'inet' : 'inet';
+
+    const key = `${family}\u0000${filterName}`;
+    let entry = filters.get(key);
+    if (!entry) {
+      const list: PolicyRuleList = {
+        kind: 'firewall-filter',
+        name: filterName,
+        rules: [],
+        source: sourceOf(nodeAt(statement, filter + 1)),
+      };
+      entry = { list, terms: new Map() };
+      filters.set(key, entry);
+    }
+    let term = entry.terms.get(termName);
+    if (!term) {
+      term = { name: termName, from: [], then: [], statement, wordIndex: filter + 3 };
+      entry.terms.set(termName, term);
+    }
+    const rest = w.slice(filter + 4);
+    if (rest[0] === 'from') term.from.push(rest.slice(1));
+    if (rest[0] === 'then') term.then.push(rest.slice(1));
+  }
+
+  return [...filters.values()].map(({ list, terms }) => {
+    for (const term of terms.values()) {
+      const rule = readTerm(term, list.rules.length);
+      if (rule) list.rules.push(rule);
+    }
+    return list;
+  });
+};
+
+function readTerm(term: Term, position: number): PolicyRule | undefined {
+  const actions = term.then.flat();
+  if (actions.includes('next')) return undefined;
+  const action = actions.map((word) => TERMINATING_ACTIONS[word]).find((found) => found !== undefined) ?? 'permit';
+
+  const rule: PolicyRule = {
+    name: term.name,
+    position,
+    action,
+    match: {},
+    // Forwarding to a routing instance is not a plain accept
+    exact: !actions.includes('routing-instance'),
+    source: sourceOf(nodeAt(term.statement, term.wordIndex)),
+  };
+
+  const addresses: Record<'source' | 'destination', PolicyRange[]> = { source: [], destination: [] };
+  const prefixLists: Record<'source' | 'destination', string[]> = { source: [], destination: [] };
+  const protocols: number[] = [];
+  const ports: Record<'destination' | 'source', PolicyRange[]> = { destination: [], source: [] };
+
+  for (const [condition = '', ...values] of term.from) {
+    if (values.includes('except')) {
+      rule.exact = false;
+      continue;
+    }
+    if (condition === 'source-address' || condition === 'destination-address') {
+      const direction = condition === 'source-address' ? 'source' : 'destination';
+      for (const value of values) {
+        const range = parseAddressRange(value);
+        if (range) addresses[direction].push(range);
+        else rule.exact = false;
+      }
+    } else if (condition === 'source-prefix-list' || condition === 'destination-prefix-list') {
+      const direction = condition === 'source-prefix-list' ? 'source' : 'destination';
+      prefixLists[direction].push(...values.map((name) => `prefix-list:${name}`));
+    } else if (condition === 'protocol') {
+      for (const value of values) {
+        const protocol = protocolNumber(value);
+        if (protocol !== undefined) protocols.push(protocol);
+        else rule.exact = false;
+      }
+    } else if (condition === 'destination-port' || condition === 'source-port') {
+      const direction = condition === 'destination-port' ? 'destination' : 'source';
+      for (const value of values) {
+        const ranges = parsePortRanges(value);
+        if (ranges) ports[direction].push(...ranges);
+        else rule.exact = false;
+      }
+    } else {
+      // address, port, prefix-list (either direction), TCP flags, ICMP types, DSCP...
+      rule.exact = false;
+    }
+  }
+
+  for (const direction of ['source', 'destination'] as const) {
+    const match = addressMatch(addresses[direction], prefixLists[direction]);
+    if (match) rule.match[direction] = match;
+  }
+  const destinationPorts = ports.destination.length > 0 ? ports.destination : undefined;
+  if (protocols.length > 0 || destinationPorts) {
+    // Ports without a protocol match TCP and UDP
+    const serviceProtocols = protocols.length > 0 ? protocols : [6, 17];
+    rule.match.service = matchOf(serviceProtocols.flatMap((protocol) => serviceRanges(protocol, destinationPorts)));
+  }
+  if (ports.source.length > 0) {
+    rule.match['source-port'] = matchOf(ports.source);
+  }
+  return rule;
+}
+
+function addressMatch(ranges: PolicyRange[], names: string[]): PolicyMatch | undefined {
+  return ranges.length > 0 || names.length > 0 ? matchOf(ranges, names) : undefined;
+}
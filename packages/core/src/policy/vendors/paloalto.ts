@@ -0,0 +1,203 @@
+// packages/core/src/policy/vendors/paloalto.ts
+
+import { flattenStatements, nodeAt, sourceOf } from '../../model/common';
+import type { Statement } from '../../model/common';
+import { matchOf, parseAddressRange, parsePortRanges, protocolNumber, serviceRanges, unionMatch } from '../match';
+import type { PolicyExtractor, PolicyField, PolicyMatch, PolicyRule, PolicyRuleList } from '../types';
+
+/** Wrappers before the objects of a vsys, device group or template, with the number of words they take */
+const WRAPPERS: Readonly<Record<string, number>> = {
+  config: 1,
+  shared: 1,
+  devices: 2,
+  vsys: 2,
+  'device-group': 2,
+  template: 2,
+  'template-stack': 2,
+};
+
+/** Rule attributes that are match conditions */
+const MATCH_ATTRIBUTES: Readonly<Record<string, PolicyField>> = {
+  from: 'from',
+  to: 'to',
+  source: 'source',
+  destination: 'destination',
+  service: 'service',
+  application: 'application',
+};
+
+/** Attributes that restrict the match beyond the modeled fields unless 'any' */
+const RESTRICTING_ATTRIBUTES = new Set(['source-user', 'category', 'source-hip', 'destination-hip']);
+
+/**
+ * Other rule attributes, which end the value list of the previous one in
+ * single-line 'set rulebase ... rules R from trust to untrust ...' commands.
+ */
+const OTHER_ATTRIBUTES = new Set([
+  'action', 'description', 'disabled', 'group-tag', 'hip-profiles', 'log-end', 'log-setting',
+  'log-start', 'negate-destination', 'negate-source', 'option', 'profile-setting', 'rule-type',
+  'schedule', 'tag', 'target', 'uuid', ...RESTRICTING_ATTRIBUTES,
+]);
+
+/** Predefined services */
+const PREDEFINED_SERVICES: Readonly<Record<string, string>> = {
+  'service-http': '80,8080',
+  'service-https': '443',
+};
+
+/** Values of a rule being read, by attribute */
+interface RuleValues {
+  name: string;
+  attributes: Map<string, string[]>;
+  statement: Statement;
+  wordIndex: number;
+}
+
+/**
+ * Ordered rule list extractor for PAN-OS security rulebases (also Panorama
+ * pre- and post-rulebases), in brace or 'set' format. Addresses and
+ * services are resolved through objects and static groups; disabled rules
+ * are skipped.
+ */
+export const extractPanosPolicies: PolicyExtractor = (ast) => {
+  const objects = new Map<string, string[]>();
+  const rulebases = new Map<string, { list: PolicyRuleList; rules: Map<string, RuleValues> }>();
+
+  for (const statement of flattenStatements(ast)) {
+    let start = 0;
+    while (statement.words[start] !== undefined && WRAPPERS[statement.words[start]!] !== undefined) {
+      start += WRAPPERS[statement.words[start]!]!;
+    }
+    const w = statement.words.slice(start);
+    const [first = '', second = '', third = '', name = ''] = w;
+
+    if (['address', 'address-group', 'service', 'service-group'].includes(first) && second) {
+      // Object definitions, keyed by container and name
+      const key = `${first}\u0000${second}`;
+      objects.set(key, [...(objects.get(key) ?? []), ...w.slice(2)]);
+      continue;
+    }
+    if (!(first === 'rulebase' || first === 'pre-rulebase' || first === 'post-rulebase') || second !== 'security' || third !== 'rules' || !name) {
+      continue;
+    }
+
+    let rulebase = rulebases.get(first);
+    if (!rulebase) {
+      const list: PolicyRuleList = {
+        kind: 'security-rulebase',
+        name: `${first} security`,
+        rules: [],
+        source: sourceOf(nodeAt(statement, start)),
+      };
+      rulebase = { list, rules: new Map() };
+      rulebases.set(first, rulebase);
+    }
+    let values = rulebase.rules.get(name);
+    if (!values) {
+      values = { name, attributes: new Map(), statement, wordIndex: start + 3 };
+      rulebase.rules.set(name, values);
+    }
+    let attribute: string | undefined;
+    for (const word of w.slice(4)) {
+      if (MATCH_ATTRIBUTES[word] !== undefined || OTHER_ATTRIBUTES.has(word)) {
+        attribute = word;
+        if (!values.attributes.has(word)) values.attributes.set(word, []);
+      } else if (attribute) {
+        values.attributes.get(attribute)?.push(word);
+      }
+    }
+  }
+
+  const resolver = new ObjectResolver(objects);
+  return [...rulebases.values()].map(({ list, rules }) => {
+    for (const values of rules.values()) {
+      const rule = readRule(values, list.rules.length, resolver);
+      if (rule) list.rules.push(rule);
+    }
+    return list;
+  });
+};
+
+function readRule(values: RuleValues, position: number, resolver: ObjectResolver): PolicyRule | undefined {
+  const value = (attribute: string): string | undefined => values.attributes.get(attribute)?.[0];
+  const action = value('action');
+  if (value('disabled') === 'yes' || action === undefined) return undefined;
+
+  const rule: PolicyRule = {
+    name: values.name,
+    position,
+    action: action === 'allow' ? 'permit' : 'deny',
+    match: {},
+    exact: value('negate-source') !== 'yes' && value('negate-destination') !== 'yes' && value('schedule') === undefined,
+    source: sourceOf(nodeAt(values.statement, values.wordIndex)),
+  };
+
+  for (const attribute of RESTRICTING_ATTRIBUTES) {
+    const names = values.attributes.get(attribute) ?? [];
+    if (names.length > 0 && !names.includes('any')) rule.exact = false;
+  }
+
+  for (const [attribute, field] of Object.entries(MATCH_ATTRIBUTES)) {
+    const names = values.attributes.get(attribute) ?? [];
+    if (names.length === 0 || names.includes('any')) continue;
+    let match: PolicyMatch = matchOf([]);
+    for (const name of names) {
+      const resolved =
+        field === 'source' || field === 'destination'
+          ? resolver.address(name)
+          : field === 'service'
+            ? resolver.service(name)
+            : matchOf([], [name]);
+      match = unionMatch(match, resolved);
+    }
+    rule.match[field] = match;
+  }
+  return rule;
+}
+
+/**
+ * Resolves address and service names to the values they match. Names that
+ * are not defined, dynamic groups, FQDNs, regions and 'application-default'
+ * match by name.
+ */
+class ObjectResolver {
+  constructor(private readonly objects: Map<string, string[]>) {}
+
+  address(name: string, seen = new Set<string>()): PolicyMatch {
+    const literal = parseAddressRange(name);
+    if (literal) return matchOf([literal]);
+
+    const group = this.objects.get(`address-group\u0000${name}`);
+    if (group && group[0] === 'static' && !seen.has(name)) {
+      seen.add(name);
+      return group.slice(1).reduce<PolicyMatch>((match, member) => unionMatch(match, this.address(member, seen)), matchOf([]));
+    }
+
+    const definition = this.objects.get(`address\u0000${name}`) ?? [];
+    const kind = definition[0];
+    const range = (kind === 'ip-netmask' || kind === 'ip-range') && definition[1] ? parseAddressRange(definition[1]) : undefined;
+    return range ? matchOf([range]) : matchOf([], [name]);
+  }
+
+  service(name: string, seen = new Set<string>()): PolicyMatch {
+    const predefined = PREDEFINED_SERVICES[name];
+    if (predefined) return matchOf(serviceRanges(6, parsePortRanges(predefined)));
+
+    const group = this.objects.get(`service-group\u0000${name}`);
+    if (group && group[0] === 'members' && !seen.has(name)) {
+      seen.add(name);
+      return group.slice(1).reduce<PolicyMatch>((match, member) => unionMatch(match, this.service(member, seen)), matchOf([]));
+    }
+
+    // service NAME protocol tcp port 80,443 [source-port ...]
+    const definition = this.objects.get(`service\u0000${name}`) ?? [];
+    const protocolIndex = definition.indexOf('protocol');
+    const protocol = protocolIndex === -1 ? undefined : protocolNumber(definition[protocolIndex + 1] ?? '');
+    const portIndex = definition.indexOf('port');
+    const ports = portIndex === -1 ? undefined : parsePortRanges(definition[portIndex + 1] ?? '');
+    if (protocol === undefined || !ports || definition.includes('source-port')) {
+      return matchOf([], [name]);
+    }
+    return matchOf(serviceRanges(protocol, ports));
+  }
+}
@@ -0,0 +1,135 @@
+// packages/core/src/policy/vendors/vyos.ts
+
+import { flattenStatements, nodeAt, sourceOf } from '../../model/common';
+import type { Statement } from '../../model/common';
+import { matchOf, parseAddressRange, parsePortRanges, protocolNumber, serviceRanges } from '../match';
+import type { PolicyAction, PolicyExtractor, PolicyRange, PolicyRule, PolicyRuleList } from '../types';
+
+/** Actions that end the evaluation of a ruleset */
+const TERMINATING_ACTIONS: Readonly<Record<string, PolicyAction>> = {
+  accept: 'permit',
+  drop: 'deny',
+  reject: 'deny',
+};
+
+/** Rule settings that do not change what the rule matches */
+const NEUTRAL_SETTINGS = new Set(['action', 'description', 'log', 'log-options']);
+
+/** A rule being read: its settings, one entry per statement */
+interface RuleValues {
+  name: string;
+  settings: string[][];
+  statement: Statement;
+  wordIndex: number;
+}
+
+/**
+ * Ordered rule list extractor for VyOS firewall rulesets, in brace or 'set'
+ * format: 'firewall name X' and 'firewall ipv6-name X' (1.3), and 'firewall
+ * ipv4|ipv6 name X' and the forward, input and output filters (1.4 and
+ * later). Rules are evaluated by number; disabled rules and rules that jump
+ * to another ruleset are skipped.
+ */
+export const extractVyosPolicies: PolicyExtractor = (ast) => {
+  const rulesets = new Map<string, { list: PolicyRuleList; rules: Map<string, RuleValues> }>();
+
+  for (const statement of flattenStatements(ast)) {
+    const w = statement.words;
+    // firewall [ipv4|ipv6] (name X|ipv6-name X|forward filter) rule N ...
+    const rule = w.indexOf('rule');
+    if (w[0] !== 'firewall' || rule < 2 || rule > 4 || !/^\d+$/.test(w[rule + 1] ?? '')) continue;
+    const name = w.slice(1, rule).join(' ');
+    const number = w[rule + 1]!;
+
+    let ruleset = rulesets.get(name);
+    if (!ruleset) {
+      const list: PolicyRuleList = {
+        kind: 'ruleset',
+        name,
+        rules: [],
+        source: sourceOf(nodeAt(statement, rule - 1)),
+      };
+      ruleset = { list, rules: new Map() };
+      rulesets.set(name, ruleset);
+    }
+    let values = ruleset.rules.get(number);
+    if (!values) {
+      values = { name: number, settings: [], statement, wordIndex: rule + 1 };
+      ruleset.rules.set(number, values);
+    }
+    values.settings.push(w.slice(rule + 2));
+  }
+
+  return [...rulesets.values()].map(({ list, rules }) => {
+    const ordered = [...rules.values()].sort((a, b) => parseInt(a.name, 10) - parseInt(b.name, 10));
+    for (const values of ordered) {
+      const rule = readRule(values, list.rules.length);
+      if (rule) list.rules.push(rule);
+    }
+    return list;
+  });
+};
+
+function readRule(values: RuleValues, position: number): PolicyRule | undefined {
+  const setting = (key: string): string[] | undefined => values.settings.find((words) => words[0] === key);
+  const action = TERMINATING_ACTIONS[setting('action')?.[1] ?? ''];
+  if (!action || setting('disable')) return undefined;
+
+  const rule: PolicyRule = {
+    name: values.name,
+    position,
+    action,
+    match: {},
+    exact: true,
+    source: sourceOf(nodeAt(values.statement, values.wordIndex)),
+  };
+
+  let protocols: number[] | undefined;
+  const addresses: Record<'source' | 'destination', { ranges: PolicyRange[]; names: string[] }> = {
+    source: { ranges: [], names: [] },
+    destination: { ranges: [], names: [] },
+  };
+  const ports: Record<'source' | 'destination', PolicyRange[] | undefined> = { source: undefined, destination: undefined };
+
+  for (const [key = '', ...rest] of values.settings) {
+    const value = rest[rest.length - 1] ?? '';
+    if (NEUTRAL_SETTINGS.has(key) || key === 'disable') continue;
+    if (key === 'protocol' && !value.startsWith('!')) {
+      if (value === 'all') continue;
+      const numbers = value === 'tcp_udp' ? [6, 17] : [protocolNumber(value)];
+      if (numbers.every((number) => number !== undefined)) protocols = numbers as number[];
+      else rule.exact = false;
+    } else if ((key === 'source' || key === 'destination') && !value.startsWith('!')) {
+      // source address X, source port P, source group address-group NAME
+      const [kind, group] = rest;
+      const range = kind === 'address' ? parseAddressRange(value) : undefined;
+      const portRanges = kind === 'port' ? parsePortRanges(value) : undefined;
+      if (range) {
+        addresses[key].ranges.push(range);
+      } else if (portRanges) {
+        ports[key] = portRanges;
+      } else if (kind === 'group' && group !== 'port-group' && rest.length === 3) {
+        addresses[key].names.push(`${group}:${value}`);
+      } else {
+        rule.exact = false;
+      }
+    } else {
+      // Negations, connection state, interfaces, ICMP types, rate limits...
+      rule.exact = false;
+    }
+  }
+
+  for (const direction of ['source', 'destination'] as const) {
+    const { ranges, names } = addresses[direction];
+    if (ranges.length > 0 || names.length > 0) rule.match[direction] = matchOf(ranges, names);
+  }
+  if (protocols || ports.destination) {
+    // Ports need a TCP or UDP protocol; without one they match both
+    const serviceProtocols = protocols ?? [6, 17];
+    rule.match.service = matchOf(serviceProtocols.flatMap((protocol) => serviceRanges(protocol, ports.destination)));
+  }
+  if (ports.source) {
+    rule.match['source-port'] = matchOf(ports.source);
+  }
+  return rule;
+}
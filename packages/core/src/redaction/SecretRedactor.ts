@@ -0,0 +1,235 @@
+// packages/core/src/redaction/SecretRedactor.ts
+
+import type { SecretKind, VendorSchema } from '../parser/VendorSchema';
+import type { RuleFixEdit, RuleResult } from '../types/IRule';
+import { NODE_PATH_SEPARATOR } from '../parser/NodePath';
+
+/**
+ * A secret found in a configuration line.
+ */
+export interface SecretMatch {
+  kind: SecretKind;
+  /** The secret, without surrounding quotes */
+  value: string;
+  /** Encoding of the secret when the line states it (e.g. '7' for Cisco type 7) */
+  type?: string;
+  /** Offsets of the value in the line (end exclusive) */
+  start: number;
+  end: number;
+}
+
+/** Placeholders written by the redactor, which are not secrets themselves */
+const PLACEHOLDER_PATTERN = /^REDACTED-(?:PASSWORD|KEY|COMMUNITY)-\d+$/;
+
+/** Characters that continue a secret, so a known value inside a longer word is left alone */
+const SECRET_CHAR = String.raw`[\w!#$%&*+./=?@^~-]`;
+
+/** Vendor patterns compiled for scanning whole lines with match indices */
+const compiledPatterns = new WeakMap<VendorSchema, { regex: RegExp; kind: SecretKind }[]>();
+
+function patternsOf(vendor: VendorSchema): { regex: RegExp; kind: SecretKind }[] {
+  let compiled = compiledPatterns.get(vendor);
+  if (!compiled) {
+    compiled = (vendor.secretPatterns ?? []).map(({ pattern, kind }) => ({
+      regex: new RegExp(pattern.source, `${pattern.flags.replace(/[gyd]/g, '')}gd`),
+      kind,
+    }));
+    compiledPatterns.set(vendor, compiled);
+  }
+  return compiled;
+}
+
+/** Occurrence suffix of a repeated path segment ('interface Gi0/1#2', see assignNodePaths) */
+const OCCURRENCE_SUFFIX = /#\d+$/;
+
+/**
+ * Splits a node path into the node IDs of its segments and their
+ * occurrence suffixes, so that the IDs can be scanned as configuration lines.
+ */
+function pathSegments(path: string): Array<{ id: string; suffix: string }> {
+  return path.split(NODE_PATH_SEPARATOR).map((segment) => {
+    const suffix = OCCURRENCE_SUFFIX.exec(segment)?.[0] ?? '';
+    return { id: segment.slice(0, segment.length - suffix.length), suffix };
+  });
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Finds the secrets of one configuration line with the vendor's
+ * `secretPatterns`. Quotes around a secret are not part of the match, and
+ * placeholders of a previous redaction are ignored.
+ *
+ * @param line - One line of the configuration
+ * @param vendor - Vendor the configuration was written for
+ * @returns Non-overlapping secrets, in line order
+ */
+export function findSecrets(line: string, vendor: VendorSchema): SecretMatch[] {
+  const found: SecretMatch[] = [];
+
+  for (const { regex, kind } of patternsOf(vendor)) {
+    for (const match of line.matchAll(regex)) {
+      const span = match.indices?.groups?.secret;
+      let value = match.groups?.secret;
+      if (!span || value === undefined) continue;
+
+      let [start, end] = span;
+      if (value.length >= 2 && (value[0] === '"' || value[0] === "'") && value.endsWith(value[0])) {
+        value = value.slice(1, -1);
+        start++;
+        end--;
+      }
+      if (value === '' || PLACEHOLDER_PATTERN.test(value)) continue;
+      if (found.some((other) => start < other.end && other.start < end)) continue;
+
+      const secret: SecretMatch = { kind, value, start, end };
+      const type = match.groups?.type;
+      if (type !== undefined) secret.type = type;
+      found.push(secret);
+    }
+  }
+
+  return found.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Replaces secrets with stable placeholders: the same secret always maps to
+ * the same token (e.g. `REDACTED-PASSWORD-1`), across lines, files and rule
+ * results redacted with one instance. Tokens are numbered per kind in the
+ * order secrets are first seen.
+ *
+ * @example
+ * ```typescript
+ * const redactor = new SecretRedactor();
+ * const { content } = redactor.redactConfig(config, getVendor('cisco-ios'));
+ * const results = redactor.redactResults(engine.run(ast, rules), vendor);
+ * ```
+ */
+export class SecretRedactor {
+  private readonly tokens = new Map<string, string>();
+  private readonly counters = new Map<SecretKind, number>();
+  /** Pattern matching all known secrets, rebuilt when a secret is learned */
+  private knownPattern: RegExp | null = null;
+
+  /** Number of distinct secrets seen so far */
+  get size(): number {
+    return this.tokens.size;
+  }
+
+  /**
+   * Returns the placeholder of a secret, assigning the next one of its kind
+   * the first time the secret is seen.
+   */
+  token(value: string, kind: SecretKind): string {
+    let token = this.tokens.get(value);
+    if (token === undefined) {
+      const count = (this.counters.get(kind) ?? 0) + 1;
+      this.counters.set(kind, count);
+      token = `REDACTED-${kind.toUpperCase()}-${count}`;
+      this.tokens.set(value, token);
+      this.knownPattern = null;
+    }
+    return token;
+  }
+
+  /**
+   * Redacts the secrets the vendor's patterns find in one line.
+   */
+  redactLine(line: string, vendor: VendorSchema): string {
+    return this.redactSecrets(line, findSecrets(line, vendor));
+  }
+
+  /**
+   * Redacts a whole configuration. Line endings are preserved.
+   *
+   * @returns The redacted configuration and the number of secrets replaced
+   */
+  redactConfig(content: string, vendor: VendorSchema): { content: string; redacted: number } {
+    let redacted = 0;
+    const lines = content.split('\n').map((line) => {
+      const secrets = findSecrets(line, vendor);
+      redacted += secrets.length;
+      return this.redactSecrets(line, secrets);
+    });
+    return { content: lines.join('\n'), redacted };
+  }
+
+  /**
+   * Replaces the secrets seen so far wherever they appear in free text, such
+   * as a rule message quoting a community string.
+   */
+  redactText(text: string): string {
+    if (this.tokens.size === 0) return text;
+    if (!this.knownPattern) {
+      // Longest first, so a secret that contains another is replaced whole
+      const alternatives = [...this.tokens.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp);
+      this.knownPattern = new RegExp(`(?<!${SECRET_CHAR})(?:${alternatives.join('|')})(?!${SECRET_CHAR})`, 'g');
+    }
+    return text.replace(this.knownPattern, (value) => this.tokens.get(value) ?? value);
+  }
+
+  /**
+   * Returns a copy of a rule result with secrets redacted from its node ID,
+   * path and fix lines (configuration lines, scanned with the vendor's
+   * patterns) and from its message and remediation (free text, where only
+   * secrets seen before are replaced).
+   *
+   * @param vendor - Vendor of the scanned configuration; without it, only
+   *                 secrets seen before are redacted
+   */
+  redactResult(result: RuleResult, vendor?: VendorSchema): RuleResult {
+    const redactConfigLine = (line: string): string => this.redactText(vendor ? this.redactLine(line, vendor) : line);
+    const nodeId = redactConfigLine(result.nodeId);
+
+    const redacted: RuleResult = { ...result, nodeId, message: this.redactText(result.message) };
+    if (result.path !== undefined) {
+      redacted.path = pathSegments(result.path)
+        .map(({ id, suffix }) => redactConfigLine(id) + suffix)
+        .join(NODE_PATH_SEPARATOR);
+    }
+    if (result.remediation !== undefined) redacted.remediation = this.redactText(result.remediation);
+    if (result.fix) {
+      redacted.fix = {
+        ...result.fix,
+        description: this.redactText(result.fix.description),
+        nodeId: redactConfigLine(result.fix.nodeId),
+        edits: result.fix.edits.map((edit): RuleFixEdit =>
+          'lines' in edit ? { ...edit, lines: edit.lines.map(redactConfigLine) } : edit
+        ),
+      };
+    }
+    return redacted;
+  }
+
+  /**
+   * Learns the secrets of the node IDs and paths of rule results, so that
+   * messages quoting them are redacted too.
+   */
+  learnResults(results: RuleResult[], vendor: VendorSchema): void {
+    for (const result of results) {
+      this.redactLine(result.nodeId, vendor);
+      if (result.path === undefined) continue;
+      for (const { id } of pathSegments(result.path)) this.redactLine(id, vendor);
+    }
+  }
+
+  /**
+   * Redacts rule results. The secrets of all node IDs and paths are learned
+   * first, so a message that quotes a secret of another result is redacted too.
+   */
+  redactResults(results: RuleResult[], vendor?: VendorSchema): RuleResult[] {
+    if (vendor) this.learnResults(results, vendor);
+    return results.map((result) => this.redactResult(result, vendor));
+  }
+
+  private redactSecrets(line: string, secrets: SecretMatch[]): string {
+    let redacted = line;
+    // From the end, so the offsets of earlier secrets stay valid
+    for (const secret of [...secrets].reverse()) {
+      redacted = redacted.slice(0, secret.start) + this.token(secret.value, secret.kind) + redacted.slice(secret.end);
+    }
+    return redacted;
+  }
+}
@@ -0,0 +1,5 @@
+// packages/core/src/redaction/index.ts
+
+export { findSecrets, SecretRedactor } from './SecretRedactor';
+
+export type { SecretMatch } from './SecretRedactor';
@@ -0,0 +1,279 @@
+// packages/core/src/suppressions/InlineSuppressions.ts
+
+import { RULE_ID_PATTERN } from '../constants';
+import type { VendorSchema } from '../parser/VendorSchema';
+import { sanitizeText } from '../parser/Sanitizer';
+import type { IRule, RuleResult } from '../types/IRule';
+import { isValidDate, toDateString } from './dates';
+import type {
+  InlineSuppression,
+  InlineSuppressionOutcome,
+  InvalidInlineSuppression,
+} from '../types/Suppression';
+
+/**
+ * Rule IDs of the findings reported for directives that need attention.
+ */
+export const SUPPRESSION_RULE_IDS = {
+  unused: 'SUPPRESSION-UNUSED',
+  expired: 'SUPPRESSION-EXPIRED',
+  invalid: 'SUPPRESSION-INVALID',
+} as const;
+
+/**
+ * Descriptions of the directive findings, for reports that describe the rules
+ * of their results (SARIF rule descriptors, JSON categories).
+ */
+export const SUPPRESSION_RULES: Pick<IRule, 'id' | 'category' | 'metadata'>[] = [
+  {
+    id: SUPPRESSION_RULE_IDS.unused,
+    category: 'suppression',
+    metadata: {
+      level: 'warning',
+      obu: 'SentriFlow',
+      owner: 'SentriFlow',
+      description: 'Suppression directive that suppresses no finding',
+      remediation: 'Remove the directive, or correct its rule IDs or target line',
+    },
+  },
+  {
+    id: SUPPRESSION_RULE_IDS.expired,
+    category: 'suppression',
+    metadata: {
+      level: 'warning',
+      obu: 'SentriFlow',
+      owner: 'SentriFlow',
+      description: 'Suppression directive past its expiry date, no longer applied',
+      remediation: 'Fix the findings it suppressed, or renew the expires date',
+    },
+  },
+  {
+    id: SUPPRESSION_RULE_IDS.invalid,
+    category: 'suppression',
+    metadata: {
+      level: 'warning',
+      obu: 'SentriFlow',
+      owner: 'SentriFlow',
+      description: 'Suppression directive that cannot be parsed, not applied',
+      remediation: 'Use sentriflow-disable-next-line or sentriflow-disable-file with rule IDs, reason= and expires=YYYY-MM-DD',
+    },
+  },
+];
+
+/**
+ * Whether a result reports a suppression directive (unused, expired or
+ * invalid) rather than a rule finding.
+ */
+export function isSuppressionFinding(result: RuleResult): boolean {
+  return SUPPRESSION_RULES.some((rule) => rule.id === result.ruleId);
+}
+
+/** Directive keyword and the rest of the comment */
+const DIRECTIVE_PATTERN = /sentriflow-disable-(next-line|file)\b(.*)$/;
+
+/** `key=value` or `key="quoted value"` options, or a rule ID */
+const TOKEN_PATTERN = /(\w+)=(?:"([^"]*)"|(\S+))|([^\s,]+)/g;
+
+/**
+ * Options for applying inline suppressions.
+ */
+export interface InlineSuppressionOptions {
+  /** Date expiry is checked against (default: today) */
+  now?: Date;
+  /** Report directives that suppressed nothing (default: true) */
+  reportUnused?: boolean;
+}
+
+function isComment(line: string, vendor: VendorSchema): boolean {
+  return vendor.commentPatterns.some((pattern) => pattern.test(line));
+}
+
+/**
+ * Parses one directive, or returns why it is invalid.
+ */
+function parseDirective(
+  scope: InlineSuppression['scope'],
+  args: string,
+  line: number
+): InlineSuppression | string {
+  const suppression: InlineSuppression = { scope, ruleIds: [], line };
+  // Block comments (e.g. Junos `/* ... */`) end with the comment terminator
+  const text = args.replace(/\*\/\s*$/, '');
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const [, key, quoted, bare, ruleId] = match;
+    if (ruleId !== undefined) {
+      if (!RULE_ID_PATTERN.test(ruleId)) {
+        return `Invalid rule ID '${ruleId}'`;
+      }
+      suppression.ruleIds.push(ruleId);
+    } else if (key === 'reason') {
+      suppression.reason = quoted ?? bare;
+    } else if (key === 'expires') {
+      const value = quoted ?? bare ?? '';
+      if (!isValidDate(value)) {
+        return `Invalid expiry date '${value}' (expected YYYY-MM-DD)`;
+      }
+      suppression.expires = value;
+    } else {
+      return `Unknown option '${key}'`;
+    }
+  }
+
+  return suppression;
+}
+
+/**
+ * Finds the suppression directives in the comment lines of a configuration.
+ * Comment lines are recognized with the vendor's `commentPatterns`, so the
+ * directive uses the vendor's comment syntax (`!` for Cisco IOS, `#` for
+ * Junos set format or FortiGate, ...).
+ *
+ * @param content Configuration text
+ * @param vendor Vendor schema of the configuration
+ * @returns Valid directives and invalid ones, in line order
+ */
+export function parseInlineSuppressions(
+  content: string,
+  vendor: VendorSchema
+): { suppressions: InlineSuppression[]; invalid: InvalidInlineSuppression[] } {
+  const lines = content.split('\n').map((line) => sanitizeText(line));
+  const suppressions: InlineSuppression[] = [];
+  const invalid: InvalidInlineSuppression[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+    if (!line.includes('sentriflow-disable-') || !isComment(line, vendor)) {
+      continue;
+    }
+    const match = DIRECTIVE_PATTERN.exec(line);
+    if (!match) {
+      invalid.push({ line: i, message: 'Unknown suppression directive' });
+      continue;
+    }
+
+    const parsed = parseDirective(match[1] === 'file' ? 'file' : 'next-line', match[2] ?? '', i);
+    if (typeof parsed === 'string') {
+      invalid.push({ line: i, message: parsed });
+      continue;
+    }
+
+    if (parsed.scope === 'next-line') {
+      // Skip blank lines and further comments (e.g. stacked directives)
+      for (let j = i + 1; j < lines.length; j++) {
+        const target = lines[j]!;
+        if (target.length > 0 && !isComment(target, vendor)) {
+          parsed.targetLine = j;
+          break;
+        }
+      }
+    }
+    suppressions.push(parsed);
+  }
+
+  return { suppressions, invalid };
+}
+
+function describeRules(suppression: InlineSuppression): string {
+  return suppression.ruleIds.length > 0 ? suppression.ruleIds.join(', ') : 'all rules';
+}
+
+function directiveFinding(ruleId: string, line: number, message: string): RuleResult {
+  return {
+    passed: false,
+    message,
+    ruleId,
+    nodeId: 'sentriflow-disable',
+    level: 'warning',
+    loc: { startLine: line, endLine: line },
+  };
+}
+
+/**
+ * Applies the inline suppression directives of a configuration to the
+ * results of its scan.
+ *
+ * Failed results matched by a directive are moved to `suppressed`. Expired
+ * directives are not applied. Unused, expired and invalid directives are
+ * reported as warnings (SUPPRESSION_RULE_IDS) after the remaining results.
+ *
+ * @param results Results of scanning the configuration
+ * @param content Configuration text
+ * @param vendor Vendor schema of the configuration
+ * @param options Expiry date and unused reporting
+ * @returns Remaining results and the outcome of each directive
+ */
+export function applyInlineSuppressions(
+  results: RuleResult[],
+  content: string,
+  vendor: VendorSchema,
+  options: InlineSuppressionOptions = {}
+): InlineSuppressionOutcome {
+  const { suppressions, invalid } = parseInlineSuppressions(content, vendor);
+  const outcome: InlineSuppressionOutcome = {
+    results: [],
+    suppressed: [],
+    unused: [],
+    expired: [],
+    invalid,
+  };
+  if (suppressions.length === 0 && invalid.length === 0) {
+    outcome.results = results;
+    return outcome;
+  }
+
+  const today = toDateString(options.now ?? new Date());
+  const active = suppressions.filter((suppression) => {
+    if (suppression.expires !== undefined && suppression.expires < today) {
+      outcome.expired.push(suppression);
+      return false;
+    }
+    return true;
+  });
+
+  const used = new Set<InlineSuppression>();
+  for (const result of results) {
+    const matches = result.passed
+      ? []
+      : active.filter(
+          (s) =>
+            (s.ruleIds.length === 0 || s.ruleIds.includes(result.ruleId)) &&
+            (s.scope === 'file' || (result.loc !== undefined && result.loc.startLine === s.targetLine))
+        );
+    if (matches.length === 0) {
+      outcome.results.push(result);
+      continue;
+    }
+    outcome.suppressed.push(result);
+    for (const match of matches) {
+      used.add(match);
+    }
+  }
+
+  if (options.reportUnused ?? true) {
+    outcome.unused = active.filter((suppression) => !used.has(suppression));
+  }
+
+  const findings = [
+    ...outcome.unused.map((s) =>
+      directiveFinding(
+        SUPPRESSION_RULE_IDS.unused,
+        s.line,
+        `Unused suppression of ${describeRules(s)}: no matching finding`
+      )
+    ),
+    ...outcome.expired.map((s) =>
+      directiveFinding(
+        SUPPRESSION_RULE_IDS.expired,
+        s.line,
+        `Suppression of ${describeRules(s)} expired on ${s.expires}`
+      )
+    ),
+    ...invalid.map((i) =>
+      directiveFinding(SUPPRESSION_RULE_IDS.invalid, i.line, `Invalid suppression: ${i.message}`)
+    ),
+  ].sort((a, b) => a.loc!.startLine - b.loc!.startLine);
+  outcome.results.push(...findings);
+
+  return outcome;
+}
@@ -0,0 +1,250 @@
+// packages/core/src/suppressions/SuppressionFile.ts
+
+import { RULE_ID_PATTERN } from '../constants';
+import { SentriflowConfigError } from '../errors';
+import type { RuleResult } from '../types/IRule';
+import type {
+  SuppressionEntry,
+  SuppressionFile,
+  SuppressionFileOutcome,
+} from '../types/Suppression';
+import { isValidDate, toDateString } from './dates';
+
+/**
+ * File name of the shared suppression file, looked up in the project root.
+ */
+export const SUPPRESSION_FILE_NAME = '.sentriflow-suppressions.json';
+
+/**
+ * Current version of the suppression file format.
+ */
+export const SUPPRESSION_FILE_VERSION = 1;
+
+const ENTRY_KEYS = new Set([
+  'ruleId',
+  'file',
+  'contentHash',
+  'nodePath',
+  'justification',
+  'owner',
+  'expires',
+  'created',
+]);
+
+/**
+ * Options for applying a suppression file.
+ */
+export interface SuppressionFileOptions {
+  /** Path of the scanned file, relative to the suppression file directory */
+  filePath: string;
+  /** Configuration text, for matching content hashes */
+  content: string;
+  /** Date expiry is checked against (default: today) */
+  now?: Date;
+}
+
+/**
+ * Hashes a configuration line (djb2 of the trimmed text, base36), so that a
+ * suppression survives the line moving or being re-indented.
+ *
+ * @param line Line text
+ * @returns Hash string
+ */
+export function lineContentHash(line: string): string {
+  const trimmed = line.trim();
+  let hash = 5381;
+  for (let i = 0; i < trimmed.length; i++) {
+    hash = ((hash << 5) + hash) + trimmed.charCodeAt(i);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Matches a relative file path against a suppression file glob.
+ * Supports `*` (within a directory), `?` (one character) and `**` (any
+ * number of directories). Matching is case-insensitive.
+ *
+ * @param filePath Relative path with `/` separators
+ * @param pattern File path or glob of an entry
+ */
+export function matchesSuppressionGlob(filePath: string, pattern: string): boolean {
+  const regexPattern = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*\*\//g, '{{GLOBSTAR_DIR}}')
+    .replace(/\*\*/g, '{{GLOBSTAR}}')
+    .replace(/\*/g, '[^/]*')
+    .replace(/\?/g, '[^/]')
+    .replace(/{{GLOBSTAR_DIR}}/g, '(?:.*/)?')
+    .replace(/{{GLOBSTAR}}/g, '.*');
+
+  return new RegExp(`^${regexPattern}$`, 'i').test(filePath);
+}
+
+/**
+ * Checks whether an entry is past its expiry date.
+ *
+ * @param entry Suppression entry
+ * @param now Date to check against (default: today)
+ */
+export function isSuppressionExpired(entry: SuppressionEntry, now: Date = new Date()): boolean {
+  return entry.expires !== undefined && entry.expires < toDateString(now);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+/**
+ * Validates one entry of a suppression file.
+ */
+function validateEntry(entry: unknown, index: number): string[] {
+  const at = `suppressions[${index}]`;
+  if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+    return [`${at}: must be an object`];
+  }
+
+  const obj = entry as Record<string, unknown>;
+  const errors: string[] = [];
+
+  for (const key of Object.keys(obj)) {
+    if (!ENTRY_KEYS.has(key)) {
+      errors.push(`${at}: unknown property '${key}'`);
+    }
+  }
+  if (typeof obj.ruleId !== 'string' || !RULE_ID_PATTERN.test(obj.ruleId)) {
+    errors.push(`${at}.ruleId: must be a valid rule ID`);
+  }
+  if (!isNonEmptyString(obj.file)) {
+    errors.push(`${at}.file: must be a file path or glob`);
+  }
+  if (!isNonEmptyString(obj.justification)) {
+    errors.push(`${at}.justification: is required`);
+  }
+  if (!isNonEmptyString(obj.owner)) {
+    errors.push(`${at}.owner: is required`);
+  }
+  for (const key of ['contentHash', 'nodePath'] as const) {
+    if (obj[key] !== undefined && !isNonEmptyString(obj[key])) {
+      errors.push(`${at}.${key}: must be a non-empty string`);
+    }
+  }
+  for (const key of ['expires', 'created'] as const) {
+    if (obj[key] !== undefined && (typeof obj[key] !== 'string' || !isValidDate(obj[key]))) {
+      errors.push(`${at}.${key}: must be a date (YYYY-MM-DD)`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validates the contents of a suppression file.
+ *
+ * @param value Parsed JSON
+ * @returns Validation errors (empty if valid)
+ */
+export function validateSuppressionFile(value: unknown): string[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return ['Suppression file must contain an object'];
+  }
+
+  const obj = value as Record<string, unknown>;
+  if (obj.version !== SUPPRESSION_FILE_VERSION) {
+    return [`Unsupported suppression file version (expected ${SUPPRESSION_FILE_VERSION})`];
+  }
+  if (!Array.isArray(obj.suppressions)) {
+    return ['suppressions: must be an array'];
+  }
+
+  return obj.suppressions.flatMap((entry, index) => validateEntry(entry, index));
+}
+
+/**
+ * Parses and validates the text of a suppression file.
+ *
+ * @param text File contents
+ * @returns The suppression file
+ * @throws SentriflowConfigError if the text is not valid JSON or not a valid suppression file
+ */
+export function parseSuppressionFile(text: string): SuppressionFile {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new SentriflowConfigError('Suppression file is not valid JSON');
+  }
+
+  const errors = validateSuppressionFile(value);
+  if (errors.length > 0) {
+    throw new SentriflowConfigError(`Invalid suppression file: ${errors.join('; ')}`, {
+      errors,
+    });
+  }
+  return value as SuppressionFile;
+}
+
+/**
+ * Serializes a suppression file as formatted JSON with a trailing newline,
+ * so that it diffs cleanly under version control.
+ */
+export function serializeSuppressionFile(file: SuppressionFile): string {
+  return `${JSON.stringify(file, null, 2)}\n`;
+}
+
+/**
+ * Applies the entries of a suppression file to the results of one
+ * configuration.
+ *
+ * An entry applies to failed results of its rule in files matching its glob.
+ * With `contentHash`, the line of the finding must have that hash; with
+ * `nodePath`, the finding must be on that node. Expired entries are not
+ * applied and are returned in `expired`.
+ *
+ * @param results Results of scanning the configuration
+ * @param entries Entries of the suppression file
+ * @param options Relative file path, configuration text and expiry date
+ * @returns Remaining and suppressed results, and expired entries for the file
+ */
+export function applySuppressionFile(
+  results: RuleResult[],
+  entries: SuppressionEntry[],
+  options: SuppressionFileOptions
+): SuppressionFileOutcome {
+  const outcome: SuppressionFileOutcome = { results: [], suppressed: [], expired: [] };
+  const now = options.now ?? new Date();
+
+  const active = entries.filter((entry) => {
+    if (!matchesSuppressionGlob(options.filePath, entry.file)) return false;
+    if (isSuppressionExpired(entry, now)) {
+      outcome.expired.push(entry);
+      return false;
+    }
+    return true;
+  });
+  if (active.length === 0) {
+    outcome.results = results;
+    return outcome;
+  }
+
+  let lines: string[] | undefined;
+  const hashOf = (result: RuleResult): string | undefined => {
+    if (result.loc === undefined) return undefined;
+    lines ??= options.content.split('\n');
+    const line = lines[result.loc.startLine];
+    return line === undefined ? undefined : lineContentHash(line);
+  };
+
+  for (const result of results) {
+    const suppressed =
+      !result.passed &&
+      active.some(
+        (entry) =>
+          entry.ruleId === result.ruleId &&
+          (entry.nodePath === undefined || entry.nodePath === result.path) &&
+          (entry.contentHash === undefined || entry.contentHash === hashOf(result))
+      );
+    (suppressed ? outcome.suppressed : outcome.results).push(result);
+  }
+
+  return outcome;
+}
@@ -0,0 +1,19 @@
+// packages/core/src/suppressions/dates.ts
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Checks that a value is an existing calendar date in YYYY-MM-DD format.
+ */
+export function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Formats a date as YYYY-MM-DD (UTC), comparable with expiry dates as strings.
+ */
+export function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,25 @@
+// packages/core/src/suppressions/index.ts
+
+export {
+  SUPPRESSION_RULE_IDS,
+  SUPPRESSION_RULES,
+  isSuppressionFinding,
+  parseInlineSuppressions,
+  applyInlineSuppressions,
+} from './InlineSuppressions';
+
+export type { InlineSuppressionOptions } from './InlineSuppressions';
+
+export {
+  SUPPRESSION_FILE_NAME,
+  SUPPRESSION_FILE_VERSION,
+  lineContentHash,
+  matchesSuppressionGlob,
+  isSuppressionExpired,
+  validateSuppressionFile,
+  parseSuppressionFile,
+  serializeSuppressionFile,
+  applySuppressionFile,
+} from './SuppressionFile';
+
+export type { SuppressionFileOptions } from './SuppressionFile';
@@ -0,0 +1,117 @@
+// packages/core/src/types/Compliance.ts
+
+import type { RuleVendor } from './IRule';
+
+/**
+ * One control of a compliance framework, such as a CIS benchmark section,
+ * a NIST 800-53 control or a PCI-DSS requirement.
+ */
+export interface ComplianceControl {
+    /**
+     * Control ID within the framework (e.g., '1.4.1', 'IA-5', '8.3.2').
+     * Rules reference it through RuleMetadata.compliance.
+     */
+    id: string;
+
+    /**
+     * Short title of the control.
+     */
+    title: string;
+}
+
+/**
+ * A compliance framework: the controls a coverage report lists.
+ */
+export interface ComplianceFramework {
+    /**
+     * Unique framework ID (e.g., 'cis-cisco-ios').
+     */
+    id: string;
+
+    /**
+     * Display name (e.g., 'CIS Cisco IOS Benchmark').
+     */
+    name: string;
+
+    /**
+     * Optional version of the framework the control IDs refer to.
+     */
+    version?: string;
+
+    /**
+     * Optional vendor(s) the framework applies to. Only rules and scanned
+     * configurations of these vendors count towards coverage.
+     * Omit or use 'common' for vendor-neutral frameworks.
+     */
+    vendor?: RuleVendor | RuleVendor[];
+
+    /**
+     * Controls of the framework, in report order.
+     */
+    controls: ComplianceControl[];
+}
+
+/**
+ * Status of a control across the scanned configurations:
+ * - 'pass': checked by at least one rule, without failures
+ * - 'fail': a rule mapped to the control failed in at least one configuration
+ * - 'not-evaluated': rules map to the control, but none of them produced a
+ *   result in the scanned configurations
+ * - 'not-covered': no active rule checks the control
+ */
+export type ControlStatus = 'pass' | 'fail' | 'not-evaluated' | 'not-covered';
+
+/**
+ * Coverage of one control.
+ */
+export interface ControlCoverage {
+    /**
+     * The control.
+     */
+    control: ComplianceControl;
+
+    /**
+     * Status across the scanned configurations.
+     */
+    status: ControlStatus;
+
+    /**
+     * IDs of the active rules mapped to the control.
+     */
+    ruleIds: string[];
+
+    /**
+     * Number of failed results of the mapped rules.
+     */
+    failures: number;
+
+    /**
+     * Paths of the configurations with failures, in scan order.
+     */
+    failedFiles: string[];
+}
+
+/**
+ * Coverage of a framework by a set of rules over a set of configurations.
+ */
+export interface ComplianceCoverage {
+    /**
+     * The framework.
+     */
+    framework: ComplianceFramework;
+
+    /**
+     * Coverage of each control, in framework order.
+     */
+    controls: ControlCoverage[];
+
+    /**
+     * Number of configurations the framework applied to.
+     */
+    filesScanned: number;
+
+    /**
+     * Number of controls per status.
+     */
+    summary: Record<ControlStatus, number>;
+}
@@ -69,4 +69,13 @@ export interface ConfigNode {
      * - undefined: For non-section nodes (commands, comments)
      */
     blockDepth?: number;
+
+    /**
+     * Canonical hierarchical path, computed by the parser.
+     * Ancestor IDs joined with " > " (virtual roots excluded), e.g.
+     * "router bgp 65000 > address-family ipv4 > neighbor 10.0.0.1 activate".
+     * Repeated siblings with the same ID get an occurrence suffix ("#2", "#3", ...).
+     * Unlike `loc`, the path does not change when unrelated lines move.
+     */
+    path?: string;
 }
@@ -0,0 +1,74 @@
+// packages/core/src/types/FleetRule.ts
+
+import type { ConfigNode } from './ConfigNode';
+import type { RuleMetadata, RuleResult, RuleVendor } from './IRule';
+
+/**
+ * One parsed device of a fleet scan.
+ */
+export interface FleetDevice {
+    /**
+     * Path of the configuration file the device was parsed from.
+     */
+    filePath: string;
+    /**
+     * Device hostname from the configuration, or the file name without
+     * extension when the configuration does not set one.
+     */
+    hostname: string;
+    /**
+     * Vendor ID of the configuration (e.g., 'cisco-ios').
+     */
+    vendor: string;
+    /**
+     * Parsed configuration of the device.
+     */
+    ast: ConfigNode[];
+}
+
+/**
+ * A finding of a fleet rule, attributed to one device.
+ */
+export interface FleetRuleResult extends RuleResult {
+    /**
+     * Path of the configuration file the finding belongs to (FleetDevice.filePath).
+     */
+    filePath: string;
+}
+
+/**
+ * Defines a cross-device rule that checks consistency between devices,
+ * such as both ends of a link or both sides of a BGP session.
+ *
+ * Unlike IRule, which checks one node of one configuration at a time,
+ * a fleet rule runs once per scan and receives every parsed device.
+ */
+export interface IFleetRule {
+    /**
+     * A unique identifier for the rule (e.g., "FLEET-LINK-001").
+     */
+    id: string;
+
+    /**
+     * Optional vendor(s) this rule applies to. Devices of other vendors are not
+     * passed to the check function. Omit or use 'common' for all vendors.
+     */
+    vendor?: RuleVendor | RuleVendor[];
+
+    /**
+     * Optional category/framework for grouping rules (see IRule.category).
+     */
+    category?: string | string[];
+
+    /**
+     * The function that contains the core logic of the rule.
+     * It receives every device of the scan and returns its findings.
+     * Only failures need to be returned; devices without findings passed.
+     */
+    check: (devices: FleetDevice[]) => FleetRuleResult[];
+
+    /**
+     * Metadata associated with the rule, used for reporting and categorization.
+     */
+    metadata: RuleMetadata;
+}
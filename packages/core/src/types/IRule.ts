@@ -1,8 +1,51 @@
 // packages/core/src/types/IRule.ts
 
 import type { ConfigNode } from "./ConfigNode";
+import type { DeviceModel } from '../model/types';
+import type { CrossReferenceIndex } from '../xref/CrossReferenceIndex';
+import type { PolicyAnalysis } from '../policy/analysis';
+import type { Credential } from '../credentials/types';
 import { getAvailableVendors } from '../parser/vendors';
 
+/**
+ * A single line-level edit that is part of a RuleFix.
+ * Line numbers are 0-based and refer to the original file, matching ConfigNode.loc.
+ * Lines in `lines` are written verbatim, including any indentation.
+ * - 'insert': Insert lines after `afterLine` (-1 inserts at the top of the file).
+ * - 'replace': Replace lines `startLine`..`endLine` (inclusive) with `lines`.
+ * - 'delete': Remove lines `startLine`..`endLine` (inclusive).
+ */
+export type RuleFixEdit =
+    | { type: 'insert'; afterLine: number; lines: string[] }
+    | { type: 'replace'; startLine: number; endLine: number; lines: string[] }
+    | { type: 'delete'; startLine: number; endLine: number };
+
+/**
+ * A machine-applicable fix for a failed rule result.
+ * Scoped to the ConfigNode that triggered the finding.
+ */
+export interface RuleFix {
+    /**
+     * Short human-readable description of the fix (e.g., 'Add "switchport nonegotiate"').
+     */
+    description: string;
+    /**
+     * The ID of the node the fix applies to.
+     */
+    nodeId: string;
+    /**
+     * Location of the node the fix applies to.
+     */
+    loc: {
+        startLine: number;
+        endLine: number;
+    };
+    /**
+     * Edits to apply. Edits within one fix must not overlap.
+     */
+    edits: RuleFixEdit[];
+}
+
 /**
  * Represents the outcome of a rule check.
  */
@@ -38,6 +81,33 @@ export interface RuleResult {
         startLine: number;
         endLine: number;
     };
+    /**
+     * Optional: The canonical path of the checked node (see ConfigNode.path).
+     * Filled in by the RuleEngine when the rule does not set it.
+     */
+    path?: string;
+    /**
+     * Optional: A machine-applicable fix for a failed result.
+     * Used by `sentriflow fix` and editor quick fixes.
+     */
+    fix?: RuleFix;
+}
+
+/**
+ * What a rule's check function returns: one result, or one result per
+ * finding (see IRule.check).
+ */
+export type RuleCheckResult = RuleResult | RuleResult[];
+
+/**
+ * Normalizes the return value of a check function to a list of results.
+ *
+ * @param result The value returned by IRule.check
+ * @returns The results, empty if the check returned nothing
+ */
+export function toRuleResults(result: RuleCheckResult | null | undefined): RuleResult[] {
+    if (!result) return [];
+    return Array.isArray(result) ? result : [result];
 }
 
 /**
@@ -51,6 +121,62 @@ export interface Context {
      * OSPF exists on an interface). Simple single-node rules should not use this.
      */
     getAst?: () => ConfigNode[];
+
+    /**
+     * Returns the parent of a node in O(1), or undefined for top-level nodes.
+     * Virtual roots are skipped, so orphan top-level commands have no parent.
+     * Use this instead of searching `getAst()` when a rule depends on the
+     * enclosing section (e.g., a `shutdown` inside an `interface`).
+     */
+    getParent?: (node: ConfigNode) => ConfigNode | undefined;
+
+    /**
+     * ID of the vendor the configuration was parsed with (e.g., 'cisco-ios').
+     * Set by callers that know the vendor; required for getModel().
+     */
+    vendorId?: string;
+
+    /**
+     * Lazy getter for the vendor-neutral device model (interfaces, VRFs,
+     * routing, users, management servers). The model is extracted on first
+     * call and shared by all rules of a run. Entities carry the ID of their
+     * source node, so a rule can report on the node it is checking.
+     * Only available when the run knows the vendor (see `vendorId`).
+     */
+    getModel?: () => DeviceModel;
+
+    /**
+     * Lazy getter for the cross-reference index of named objects: which
+     * commands define ACLs, prefix-lists, route-maps, policy statements or
+     * address objects, and which commands use them. Built on first call and
+     * shared by all rules of a run. Only available when the run knows the
+     * vendor (see `vendorId`).
+     */
+    getCrossReferences?: () => CrossReferenceIndex;
+
+    /**
+     * Lazy getter for the analysis of ordered rule lists (ACLs, firewall
+     * filters, policy tables, security rulebases): which rules are shadowed,
+     * redundant or overly broad. Built on first call and shared by all rules
+     * of a run. Only available when the run knows the vendor (see `vendorId`).
+     */
+    getPolicyAnalysis?: () => PolicyAnalysis;
+
+    /**
+     * Lazy getter for the credentials of the configuration (user passwords,
+     * enable secrets, SNMP communities, shared keys) with the algorithm they
+     * are stored with, and their clear text when it can be decoded. Read on
+     * first call and shared by all rules of a run. Only available when the
+     * run knows the vendor (see `vendorId`).
+     */
+    getCredentials?: () => Credential[];
+
+    /**
+     * Options configured for the rule being checked, e.g. from the `rules`
+     * block of the CLI config file (`{ minLength: 12 }`). Undefined when the
+     * rule has no configuration, so rules must fall back to their defaults.
+     */
+    options?: Readonly<Record<string, unknown>>;
 }
 
 /**
@@ -203,6 +329,17 @@ export interface Tag {
     score?: number;
 }
 
+/**
+ * Controls of one compliance framework that a rule checks.
+ */
+export interface ComplianceMapping {
+    /** Framework ID (e.g., 'cis-cisco-ios', 'nist-800-53', 'pci-dss') */
+    framework: string;
+
+    /** Control IDs within the framework (e.g., '1.4.1', 'IA-5', '8.3.2') */
+    controls: string[];
+}
+
 /**
  * SEC-007: Security metadata for SARIF integration.
  * Provides CWE mappings and CVSS scores for security-related rules.
@@ -247,8 +384,19 @@ export interface RuleMetadata {
     security?: SecurityMetadata;
     /** Typed tags for multi-dimensional rule categorization */
     tags?: Tag[];
+    /** Compliance framework controls checked by the rule (coverage reports) */
+    compliance?: ComplianceMapping[];
 }
 
+/**
+ * Where a rule runs.
+ * - 'node': on every node that matches the rule's selector
+ * - 'document': once per configuration, on a document node whose children
+ *   are the top-level nodes, for requirements on the whole file
+ *   ("service password-encryption must be configured")
+ */
+export type RuleScope = 'node' | 'document';
+
 /**
  * Defines the structure of a configuration validation rule.
  */
@@ -262,6 +410,11 @@ export interface IRule {
      * An optional selector string (e.g., "interface", "router bgp")
      * that determines which `ConfigNode` types this rule should be applied to.
      * This is used for optimization to avoid running rules on irrelevant nodes.
+     *
+     * Selectors are case-insensitive prefixes of the node ID. They can be
+     * combined with ancestor combinators, separated by spaces:
+     * - `interface > ip address`: "ip address" nodes directly under an interface
+     * - `router bgp >> neighbor`: "neighbor" nodes anywhere under router bgp
      */
     selector?: string;
 
@@ -287,11 +440,24 @@ export interface IRule {
      */
     category?: string | string[];
 
+    /**
+     * Optional: where the rule runs (default: 'node').
+     * Document rules run once per run, even on an empty configuration, and
+     * ignore the selector. Their node has the ID 'document', type
+     * 'virtual_root', the top-level nodes as children (orphan commands
+     * included) and a `loc` spanning the file, so they should report
+     * findings at the line they concern (see `findAnchorNode`).
+     */
+    scope?: RuleScope;
+
     /**
      * The function that contains the core logic of the rule.
-     * It takes a `ConfigNode` and a `Context` object, and returns a `RuleResult`.
+     * It takes a `ConfigNode` and a `Context` object, and returns a `RuleResult`,
+     * or an array with one result per finding, each pointing at its own line
+     * (e.g., every neighbor of a `router bgp` section missing a password).
+     * An empty array reports nothing for the node.
      */
-    check: (node: ConfigNode, context: Context) => RuleResult;
+    check: (node: ConfigNode, context: Context) => RuleCheckResult;
 
     /**
      * Metadata associated with the rule, used for reporting and categorization.
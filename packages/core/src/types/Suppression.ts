@@ -0,0 +1,183 @@
+// packages/core/src/types/Suppression.ts
+
+import type { RuleResult } from './IRule';
+
+/**
+ * Scope of an inline suppression directive:
+ * - 'next-line': `sentriflow-disable-next-line` suppresses findings on the
+ *   next configuration line (blank and comment lines are skipped)
+ * - 'file': `sentriflow-disable-file` suppresses findings in the whole file
+ */
+export type InlineSuppressionScope = 'next-line' | 'file';
+
+/**
+ * A suppression directive found in a comment line of a configuration, e.g.
+ * `! sentriflow-disable-next-line NET-SNMP-004 reason="lab only" expires=2026-06-30`.
+ */
+export interface InlineSuppression {
+    /**
+     * Scope of the directive.
+     */
+    scope: InlineSuppressionScope;
+
+    /**
+     * Rule IDs to suppress. Empty suppresses every rule.
+     */
+    ruleIds: string[];
+
+    /**
+     * 0-based line number of the directive comment.
+     */
+    line: number;
+
+    /**
+     * 0-based line number the directive applies to ('next-line' scope only).
+     * Undefined if no configuration line follows the directive.
+     */
+    targetLine?: number;
+
+    /**
+     * Optional justification (`reason="..."`).
+     */
+    reason?: string;
+
+    /**
+     * Optional expiry date (`expires=YYYY-MM-DD`). From the day after, the
+     * directive no longer suppresses findings and is reported as expired.
+     */
+    expires?: string;
+}
+
+/**
+ * A directive that could not be parsed, such as an invalid expiry date.
+ */
+export interface InvalidInlineSuppression {
+    /**
+     * 0-based line number of the directive comment.
+     */
+    line: number;
+
+    /**
+     * Why the directive is invalid.
+     */
+    message: string;
+}
+
+/**
+ * Outcome of applying the inline suppressions of a configuration.
+ */
+export interface InlineSuppressionOutcome {
+    /**
+     * Results that are not suppressed, followed by findings for unused,
+     * expired and invalid directives.
+     */
+    results: RuleResult[];
+
+    /**
+     * Failed results suppressed by a directive.
+     */
+    suppressed: RuleResult[];
+
+    /**
+     * Directives that did not suppress any finding.
+     */
+    unused: InlineSuppression[];
+
+    /**
+     * Directives past their expiry date (not applied).
+     */
+    expired: InlineSuppression[];
+
+    /**
+     * Directives that could not be parsed (not applied).
+     */
+    invalid: InvalidInlineSuppression[];
+}
+
+/**
+ * A suppression in a shared suppression file (`.sentriflow-suppressions.json`).
+ *
+ * Without `contentHash` or `nodePath`, the entry suppresses the rule in every
+ * file matching `file`.
+ */
+export interface SuppressionEntry {
+    /**
+     * Rule ID to suppress.
+     */
+    ruleId: string;
+
+    /**
+     * File path or glob, relative to the directory of the suppression file
+     * (`*`, `?` and `**` wildcards, `/` separators).
+     */
+    file: string;
+
+    /**
+     * Hash of the trimmed configuration line of the finding (see
+     * lineContentHash). Survives the line moving within the file.
+     */
+    contentHash?: string;
+
+    /**
+     * Path of the node of the finding (see ConfigNode.path), e.g.
+     * "interface GigabitEthernet0/1 > ip address 10.0.0.1 255.255.255.0".
+     */
+    nodePath?: string;
+
+    /**
+     * Why the finding is accepted. Mandatory.
+     */
+    justification: string;
+
+    /**
+     * Who is accountable for the suppression (name, email or team). Mandatory.
+     */
+    owner: string;
+
+    /**
+     * Optional expiry date (YYYY-MM-DD). From the day after, the entry no
+     * longer suppresses findings.
+     */
+    expires?: string;
+
+    /**
+     * Optional creation date (YYYY-MM-DD).
+     */
+    created?: string;
+}
+
+/**
+ * Contents of a shared suppression file.
+ */
+export interface SuppressionFile {
+    /**
+     * Format version (SUPPRESSION_FILE_VERSION).
+     */
+    version: number;
+
+    /**
+     * Suppression entries.
+     */
+    suppressions: SuppressionEntry[];
+}
+
+/**
+ * Outcome of applying the entries of a suppression file to the results of
+ * one configuration.
+ */
+export interface SuppressionFileOutcome {
+    /**
+     * Results that are not suppressed.
+     */
+    results: RuleResult[];
+
+    /**
+     * Failed results suppressed by an entry.
+     */
+    suppressed: RuleResult[];
+
+    /**
+     * Entries matching the file that are past their expiry date (not applied).
+     */
+    expired: SuppressionEntry[];
+}
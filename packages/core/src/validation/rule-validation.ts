@@ -5,6 +5,7 @@
 
 import { RULE_ID_PATTERN } from '../constants';
 import { isValidVendorId } from '../types/IRule';
+import { isGlobalSelector, parseSelector } from '../engine/Selector';
 import type { IRule, RulePack, RuleVendor } from '../types/IRule';
 
 /**
@@ -37,6 +38,19 @@ export function validateRule(rule: unknown): string | null {
   if (obj.selector !== undefined && typeof obj.selector !== 'string') {
     return `Rule ${obj.id}: selector is not a string`;
   }
+  // An empty selector runs on every node; only malformed compound ones are rejected
+  if (
+    typeof obj.selector === 'string' &&
+    !isGlobalSelector(obj.selector) &&
+    parseSelector(obj.selector).length === 0
+  ) {
+    return `Rule ${obj.id}: selector "${obj.selector}" has an empty step`;
+  }
+
+  // Optional: scope ('node' or 'document')
+  if (obj.scope !== undefined && obj.scope !== 'node' && obj.scope !== 'document') {
+    return `Rule ${obj.id}: invalid scope "${String(obj.scope)}"`;
+  }
 
   // Optional: vendor (string or array of valid vendors)
   if (obj.vendor !== undefined) {
@@ -189,8 +203,9 @@ export function isValidRulePack(
  * Check if a rule applies to the given vendor.
  * Rules without a vendor property are considered vendor-agnostic (apply to all).
  * Rules with vendor: 'common' also apply to all vendors.
+ * Also used for fleet rules, which share the vendor property.
  */
-export function ruleAppliesToVendor(rule: IRule, vendorId: string): boolean {
+export function ruleAppliesToVendor(rule: Pick<IRule, 'vendor'>, vendorId: string): boolean {
   // No vendor specified = vendor-agnostic, applies to all
   if (!rule.vendor) {
     return true;
@@ -0,0 +1,127 @@
+// packages/core/src/xref/CrossReferenceIndex.ts
+
+import type { ConfigNode } from '../types/ConfigNode';
+import { sourceOf } from '../model/common';
+import type { XrefDefinition, XrefObjectKind, XrefReference } from './types';
+
+const keyOf = (kind: XrefObjectKind, name: string): string => `${kind}\u0000${name}`;
+
+/**
+ * Definitions and references of the named objects of one configuration:
+ * ACLs, prefix-lists, route-maps, policy statements, address and service
+ * objects. Lookups by kind and name, and by line, are O(1).
+ *
+ * Built by buildCrossReferenceIndex(); rules get the index of the
+ * configuration they check from `context.getCrossReferences()`.
+ */
+export class CrossReferenceIndex {
+  /** Definitions in configuration order */
+  public readonly definitions: XrefDefinition[] = [];
+
+  /** References in configuration order */
+  public readonly references: XrefReference[] = [];
+
+  private readonly definitionsByKey = new Map<string, XrefDefinition>();
+  private readonly referencesByKey = new Map<string, XrefReference[]>();
+  private readonly symbolsByLine = new Map<number, Array<XrefDefinition | XrefReference>>();
+  private readonly referenceKeys = new Set<string>();
+
+  /**
+   * @param vendor ID of the vendor the configuration was parsed with
+   */
+  constructor(public readonly vendor: string) {}
+
+  /**
+   * Records the definition of an object. Later definitions of the same kind
+   * and name are ignored.
+   *
+   * @param kind Object kind
+   * @param name Object name
+   * @param node Node the name was read from
+   * @param detail Variant of the object within its kind (e.g., 'group')
+   */
+  public addDefinition(kind: XrefObjectKind, name: string, node: ConfigNode, detail?: string): void {
+    const key = keyOf(kind, name);
+    if (name === '' || this.definitionsByKey.has(key)) return;
+
+    const definition: XrefDefinition = {
+      role: 'definition',
+      kind,
+      name,
+      ...(detail !== undefined && { detail }),
+      source: sourceOf(node),
+    };
+    this.definitions.push(definition);
+    this.definitionsByKey.set(key, definition);
+    this.addToLine(definition);
+  }
+
+  /**
+   * Records a use of an object. A node uses each object at most once.
+   *
+   * @param kind Object kind
+   * @param name Object name
+   * @param node Node the name was read from
+   */
+  public addReference(kind: XrefObjectKind, name: string, node: ConfigNode): void {
+    const key = keyOf(kind, name);
+    const nodeKey = `${key}\u0000${node.loc.startLine}\u0000${node.id}`;
+    if (name === '' || this.referenceKeys.has(nodeKey)) return;
+    this.referenceKeys.add(nodeKey);
+
+    const reference: XrefReference = { role: 'reference', kind, name, source: sourceOf(node) };
+    this.references.push(reference);
+    const list = this.referencesByKey.get(key);
+    if (list) {
+      list.push(reference);
+    } else {
+      this.referencesByKey.set(key, [reference]);
+    }
+    this.addToLine(reference);
+  }
+
+  /**
+   * Returns the definition of an object, or undefined if it is not defined.
+   */
+  public getDefinition(kind: XrefObjectKind, name: string): XrefDefinition | undefined {
+    return this.definitionsByKey.get(keyOf(kind, name));
+  }
+
+  /**
+   * Returns the references to an object, in configuration order.
+   */
+  public getReferences(kind: XrefObjectKind, name: string): XrefReference[] {
+    return this.referencesByKey.get(keyOf(kind, name)) ?? [];
+  }
+
+  /**
+   * Returns the references to objects that are not defined.
+   */
+  public getUndefinedReferences(): XrefReference[] {
+    return this.references.filter((ref) => !this.definitionsByKey.has(keyOf(ref.kind, ref.name)));
+  }
+
+  /**
+   * Returns the definitions of objects that are never referenced.
+   */
+  public getUnusedDefinitions(): XrefDefinition[] {
+    return this.definitions.filter((def) => !this.referencesByKey.has(keyOf(def.kind, def.name)));
+  }
+
+  /**
+   * Returns the definitions and references read from a line (0-based).
+   */
+  public getSymbolsAtLine(line: number): Array<XrefDefinition | XrefReference> {
+    return this.symbolsByLine.get(line) ?? [];
+  }
+
+  private addToLine(symbol: XrefDefinition | XrefReference): void {
+    const line = symbol.source.loc.startLine;
+    const list = this.symbolsByLine.get(line);
+    if (list) {
+      list.push(symbol);
+    } else {
+      this.symbolsByLine.set(line, [symbol]);
+    }
+  }
+}
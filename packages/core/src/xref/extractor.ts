@@ -0,0 +1,40 @@
+// packages/core/src/xref/extractor.ts
+
+import type { ConfigNode } from '../types/ConfigNode';
+import { CrossReferenceIndex } from './CrossReferenceIndex';
+import type { XrefExtractor } from './types';
+import { extractCiscoXref } from './vendors/cisco';
+import { extractFortinetXref } from './vendors/fortinet';
+import { extractJunosXref } from './vendors/juniper';
+import { extractPanosXref } from './vendors/paloalto';
+
+/**
+ * Cross-reference extractors by vendor ID. Vendors without an entry get an
+ * empty index.
+ */
+export const XREF_EXTRACTORS: Readonly<Record<string, XrefExtractor>> = {
+  'cisco-ios': extractCiscoXref,
+  'cisco-nxos': extractCiscoXref,
+  'arista-eos': extractCiscoXref,
+  'aruba-aoscx': extractCiscoXref,
+  'aruba-aosswitch': extractCiscoXref,
+  'extreme-voss': extractCiscoXref,
+  'fortinet-fortigate': extractFortinetXref,
+  'juniper-junos': extractJunosXref,
+  'paloalto-panos': extractPanosXref,
+};
+
+/**
+ * Builds the cross-reference index of a parsed configuration: which
+ * commands define named objects (ACLs, prefix-lists, route-maps, policy
+ * statements, address and service objects) and which commands use them.
+ *
+ * @param ast Parsed configuration
+ * @param vendorId ID of the vendor the configuration was parsed with
+ * @returns The cross-reference index
+ */
+export function buildCrossReferenceIndex(ast: ConfigNode[], vendorId: string): CrossReferenceIndex {
+  const index = new CrossReferenceIndex(vendorId);
+  XREF_EXTRACTORS[vendorId]?.(ast, index);
+  return index;
+}
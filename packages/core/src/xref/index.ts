@@ -0,0 +1,12 @@
+// packages/core/src/xref/index.ts
+
+export type {
+  XrefDefinition,
+  XrefExtractor,
+  XrefObjectKind,
+  XrefReference,
+  XrefSymbol,
+} from './types';
+
+export { CrossReferenceIndex } from './CrossReferenceIndex';
+export { XREF_EXTRACTORS, buildCrossReferenceIndex } from './extractor';
@@ -0,0 +1,73 @@
+// packages/core/src/xref/types.ts
+
+import type { ConfigNode } from '../types/ConfigNode';
+import type { ModelSource } from '../model/types';
+import type { CrossReferenceIndex } from './CrossReferenceIndex';
+
+/**
+ * Kind of a named configuration object. A kind is a namespace: a reference
+ * resolves to the definition of the same kind and name. Objects that share
+ * a namespace on the device (addresses and address groups, services and
+ * service groups) share a kind and differ by the definition's `detail`.
+ */
+export type XrefObjectKind =
+  | 'acl'
+  | 'ipv6-acl'
+  | 'prefix-list'
+  | 'ipv6-prefix-list'
+  | 'route-map'
+  | 'community-list'
+  | 'as-path-list'
+  | 'class-map'
+  | 'policy-map'
+  | 'key-chain'
+  | 'object-group'
+  | 'policy-statement'
+  | 'firewall-filter'
+  | 'policer'
+  | 'address'
+  | 'service'
+  | 'application'
+  | 'schedule'
+  | 'ip-pool'
+  | 'zone';
+
+/**
+ * A command that defines or uses a named object.
+ */
+export interface XrefSymbol {
+  /** Object kind (namespace) */
+  kind: XrefObjectKind;
+
+  /** Object name as configured, without quotes */
+  name: string;
+
+  /** Node the name was read from */
+  source: ModelSource;
+}
+
+/**
+ * A command that defines a named object (e.g., 'ip access-list extended WEB').
+ * Objects defined by several commands (route-map sequences, numbered ACL
+ * lines, Junos policy terms) are defined by the first one.
+ */
+export interface XrefDefinition extends XrefSymbol {
+  role: 'definition';
+
+  /** Variant of the object within its kind (e.g., 'group', 'vip') */
+  detail?: string;
+}
+
+/**
+ * A command that uses a named object (e.g., 'ip access-group WEB in').
+ */
+export interface XrefReference extends XrefSymbol {
+  role: 'reference';
+}
+
+/**
+ * Vendor-specific reader of the definitions and references of a parsed
+ * configuration. Built-in keywords that are not objects ('any',
+ * 'application-default') are not recorded as references.
+ */
+export type XrefExtractor = (ast: ConfigNode[], index: CrossReferenceIndex) => void;
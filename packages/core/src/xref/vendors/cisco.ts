@@ -0,0 +1,193 @@
+// packages/core/src/xref/vendors/cisco.ts
+
+import type { ConfigNode } from '../../types/ConfigNode';
+import { regroupByIndent, tokenize, walkNodes } from '../../model/common';
+import type { CrossReferenceIndex } from '../CrossReferenceIndex';
+import type { XrefExtractor, XrefObjectKind } from '../types';
+
+/** Words after 'ip access-list' that are global settings, not ACL names */
+const ACL_SETTINGS = new Set(['logging', 'log-update', 'resequence', 'persistent', 'match-local-traffic', 'role-based']);
+
+/** ACL and community-list types that precede the name */
+const LIST_TYPES = new Set(['standard', 'extended', 'expanded', 'regexp']);
+
+/** Words after 'match community' that are options, not list names */
+const MATCH_OPTIONS = new Set(['exact-match']);
+
+/**
+ * Cross-reference extractor for the Cisco-style CLI shared by IOS, NX-OS,
+ * Arista EOS and the other Cisco-like vendors. Objects are defined by
+ * top-level commands; references are read from any command, including the
+ * entries of other objects (object-groups in ACL entries).
+ */
+export const extractCiscoXref: XrefExtractor = (ast, index) => {
+  const parents = new Map<ConfigNode, ConfigNode | undefined>();
+
+  walkNodes(regroupByIndent(ast), (node, parent) => {
+    parents.set(node, parent);
+    const words = tokenize(node.id);
+    const lower = words.map((word) => word.toLowerCase());
+
+    if (!parent) {
+      readDefinition(index, node, words, lower);
+    }
+    readReferences(index, node, words, lower, parent, isIpv6Family(parent, parents));
+  });
+};
+
+/**
+ * Checks whether a node is inside an 'address-family ipv6' section, where
+ * prefix-lists and distribute-lists refer to IPv6 objects.
+ */
+function isIpv6Family(
+  parent: ConfigNode | undefined,
+  parents: Map<ConfigNode, ConfigNode | undefined>
+): boolean {
+  for (let node = parent; node; node = parents.get(node)) {
+    if (/^address-family\s+ipv6/i.test(node.id)) return true;
+  }
+  return false;
+}
+
+function readDefinition(index: CrossReferenceIndex, node: ConfigNode, words: string[], lower: string[]): void {
+  const [first, second, third] = lower;
+  const define = (kind: XrefObjectKind, name: string | undefined): void => {
+    if (name) index.addDefinition(kind, name, node);
+  };
+
+  if ((first === 'ip' || first === 'ipv6') && second === 'access-list' && third && !ACL_SETTINGS.has(third)) {
+    // ip access-list extended NAME (IOS, EOS) or ip access-list NAME (NX-OS)
+    define(first === 'ip' ? 'acl' : 'ipv6-acl', LIST_TYPES.has(third) ? words[3] : words[2]);
+  } else if (first === 'access-list') {
+    define('acl', words[1]);
+  } else if ((first === 'ip' || first === 'ipv6') && second === 'prefix-list' && third !== 'sequence-number') {
+    define(first === 'ip' ? 'prefix-list' : 'ipv6-prefix-list', words[2]);
+  } else if (first === 'route-map') {
+    define('route-map', words[1]);
+  } else if (first === 'ip' && second === 'community-list' && third) {
+    define('community-list', LIST_TYPES.has(third) ? words[3] : words[2]);
+  } else if (first === 'ip' && second === 'as-path' && third === 'access-list') {
+    define('as-path-list', words[3]);
+  } else if (first === 'class-map' || first === 'policy-map') {
+    // class-map [type inspect] [match-any|match-all] NAME
+    let i = 1;
+    if (lower[i] === 'type') i += 2;
+    if (lower[i] === 'match-any' || lower[i] === 'match-all') i++;
+    define(first, words[i]);
+  } else if (first === 'key' && second === 'chain') {
+    define('key-chain', words[2]);
+  } else if (first === 'object-group' && words.length >= 3) {
+    // object-group network NAME (IOS) or object-group ip address NAME (NX-OS)
+    define('object-group', words[words.length - 1]);
+  }
+}
+
+function readReferences(
+  index: CrossReferenceIndex,
+  node: ConfigNode,
+  words: string[],
+  lower: string[],
+  parent: ConfigNode | undefined,
+  ipv6: boolean
+): void {
+  const [first, second, third] = lower;
+  const use = (kind: XrefObjectKind, name: string | undefined): void => {
+    if (name) index.addReference(kind, name, node);
+  };
+  const after = (keyword: string): number => lower.indexOf(keyword);
+
+  // Interface, line and management ACLs
+  if (first === 'ip' && (second === 'access-group' || second === 'access-class')) {
+    use('acl', words[2]);
+  } else if (first === 'ipv6' && (second === 'traffic-filter' || second === 'access-group' || second === 'access-class')) {
+    use('ipv6-acl', words[2]);
+  } else if (first === 'access-class') {
+    use('acl', words[1]);
+  }
+
+  // route-map and class-map match clauses
+  if (first === 'match') {
+    if ((second === 'ip' || second === 'ipv6') && third === 'address') {
+      const prefixList = lower[3] === 'prefix-list';
+      const kind: XrefObjectKind = second === 'ip'
+        ? (prefixList ? 'prefix-list' : 'acl')
+        : (prefixList ? 'ipv6-prefix-list' : 'ipv6-acl');
+      words.slice(prefixList ? 4 : 3).forEach((name) => use(kind, name));
+    } else if (second === 'community') {
+      words.slice(2).filter((name) => !MATCH_OPTIONS.has(name.toLowerCase())).forEach((name) => use('community-list', name));
+    } else if (second === 'as-path') {
+      words.slice(2).forEach((name) => use('as-path-list', name));
+    } else if (second === 'access-group') {
+      use('acl', third === 'name' ? words[3] : words[2]);
+    } else if (second === 'address' && parent && /^crypto\s+map\s/i.test(parent.id)) {
+      use('acl', words[2]);
+    }
+    return;
+  }
+
+  // policy-map classes and nested policies
+  if (first === 'class' && parent && /^policy-map\s/i.test(parent.id)) {
+    const name = lower[1] === 'type' ? words[3] : words[1];
+    if (name?.toLowerCase() !== 'class-default') use('class-map', name);
+  }
+  if (first === 'service-policy' && words.length > 1) {
+    use('policy-map', words[words.length - 1]);
+  }
+
+  // route-map, prefix-list, filter-list and distribute-list arguments
+  // (BGP neighbors, redistribution, PBR, NAT); a leading keyword is a
+  // reference only inside a section (NX-OS neighbor address families)
+  const isArgument = (i: number): boolean => i > 0 || (i === 0 && parent !== undefined);
+  for (const keyword of ['route-map', 'table-map']) {
+    const i = after(keyword);
+    if (isArgument(i)) use('route-map', words[i + 1]);
+  }
+  const prefixList = after('prefix-list');
+  if (isArgument(prefixList) && lower[prefixList - 1] !== 'ip' && lower[prefixList - 1] !== 'ipv6') {
+    use(ipv6 ? 'ipv6-prefix-list' : 'prefix-list', words[prefixList + 1]);
+  }
+  const filterList = after('filter-list');
+  if (isArgument(filterList)) use('as-path-list', words[filterList + 1]);
+  const distributeList = after('distribute-list');
+  const distributed = lower[distributeList + 1];
+  if (isArgument(distributeList) && distributed !== 'prefix-list' && distributed !== 'route-map' && distributed !== 'gateway') {
+    use(ipv6 ? 'ipv6-acl' : 'acl', words[distributeList + 1]);
+  }
+
+  // Object groups in ACL entries and nested groups
+  lower.forEach((word, i) => {
+    if ((word === 'object-group' && i > 0) || word === 'group-object' || word === 'addrgroup' || word === 'portgroup') {
+      use('object-group', words[i + 1]);
+    }
+  });
+
+  // Routing protocol authentication: ... key-chain [eigrp AS] NAME
+  const keyChain = after('key-chain');
+  if (keyChain > 0 && words.length > keyChain + 1) use('key-chain', words[words.length - 1]);
+
+  // Service ACLs
+  if (first === 'snmp-server' && second === 'community') {
+    const access = lower.findIndex((word, i) => i > 2 && (word === 'ro' || word === 'rw'));
+    if (access !== -1) use('acl', words[access + 1]);
+  } else if (first === 'ntp' && second === 'access-group') {
+    const name = lower[lower.length - 1] === 'kod' ? words[words.length - 2] : words[words.length - 1];
+    if (words.length > 3) use('acl', name);
+  } else if (first === 'snmp-server' && second === 'group') {
+    const access = after('access');
+    if (access !== -1) {
+      if (lower[access + 1] === 'ipv6') use('ipv6-acl', words[access + 2]);
+      else use('acl', words[access + 1]);
+    }
+  } else if (first === 'ip' && second === 'nat') {
+    const list = after('list');
+    if (list !== -1) use('acl', words[list + 1]);
+  } else if (first === 'ip' || first === 'ipv6') {
+    // Feature ACLs: ip http access-class [ipv4] NAME, ip igmp access-group NAME
+    const access = lower.findIndex((word, i) => i > 1 && (word === 'access-class' || word === 'access-group'));
+    if (access !== -1) {
+      const family = lower[access + 1];
+      const named = family === 'ipv4' || family === 'ipv6' ? access + 2 : access + 1;
+      use(first === 'ipv6' || family === 'ipv6' ? 'ipv6-acl' : 'acl', words[named]);
+    }
+  }
+}
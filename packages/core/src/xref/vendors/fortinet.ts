@@ -0,0 +1,113 @@
+// packages/core/src/xref/vendors/fortinet.ts
+
+import type { ConfigNode } from '../../types/ConfigNode';
+import { tokenize } from '../../model/common';
+import type { CrossReferenceIndex } from '../CrossReferenceIndex';
+import type { XrefExtractor, XrefObjectKind } from '../types';
+
+/**
+ * Config sections whose 'edit NAME' entries define objects, with the kind
+ * and detail of the objects. VIPs are addresses, as policies use them in
+ * 'dstaddr'.
+ */
+const DEFINITIONS: Readonly<Record<string, [XrefObjectKind, string?]>> = {
+  'firewall address': ['address'],
+  'firewall address6': ['address'],
+  'firewall addrgrp': ['address', 'group'],
+  'firewall addrgrp6': ['address', 'group'],
+  'firewall vip': ['address', 'vip'],
+  'firewall vipgrp': ['address', 'vip group'],
+  'firewall service custom': ['service'],
+  'firewall service group': ['service', 'group'],
+  'firewall schedule recurring': ['schedule'],
+  'firewall schedule onetime': ['schedule'],
+  'firewall schedule group': ['schedule', 'group'],
+  'firewall ippool': ['ip-pool'],
+  'firewall ippool6': ['ip-pool'],
+  'router access-list': ['acl'],
+  'router access-list6': ['ipv6-acl'],
+  'router prefix-list': ['prefix-list'],
+  'router prefix-list6': ['ipv6-prefix-list'],
+  'router route-map': ['route-map'],
+  'router community-list': ['community-list'],
+  'router aspath-list': ['as-path-list'],
+};
+
+/**
+ * 'set' keys that reference objects, in policies, central SNAT, IPsec
+ * phase 2 selectors, BGP neighbors and route-maps
+ */
+const REFERENCES: Readonly<Record<string, XrefObjectKind>> = {
+  srcaddr: 'address',
+  dstaddr: 'address',
+  srcaddr6: 'address',
+  dstaddr6: 'address',
+  'orig-addr': 'address',
+  'dst-addr': 'address',
+  'src-name': 'address',
+  'dst-name': 'address',
+  'src-name6': 'address',
+  'dst-name6': 'address',
+  service: 'service',
+  schedule: 'schedule',
+  poolname: 'ip-pool',
+  poolname6: 'ip-pool',
+  'route-map-in': 'route-map',
+  'route-map-out': 'route-map',
+  'route-map-in6': 'route-map',
+  'route-map-out6': 'route-map',
+  routemap: 'route-map',
+  'prefix-list-in': 'prefix-list',
+  'prefix-list-out': 'prefix-list',
+  'prefix-list-in6': 'ipv6-prefix-list',
+  'prefix-list-out6': 'ipv6-prefix-list',
+  'distribute-list-in': 'acl',
+  'distribute-list-out': 'acl',
+  'distribute-list-in6': 'ipv6-acl',
+  'distribute-list-out6': 'ipv6-acl',
+  'filter-list-in': 'as-path-list',
+  'filter-list-out': 'as-path-list',
+  'match-community': 'community-list',
+  'match-as-path': 'as-path-list',
+};
+
+/**
+ * Cross-reference extractor for FortiOS. Objects are the 'edit' entries of
+ * the sections in DEFINITIONS; group 'member' lists reference objects of
+ * the group's kind. Names are case-sensitive, and predefined objects such
+ * as 'all' and 'ALL' are ordinary entries of full configuration backups.
+ */
+export const extractFortinetXref: XrefExtractor = (ast, index) => {
+  readSection(index, ast, undefined);
+};
+
+/**
+ * Reads the children of a node. `section` is the name of the innermost
+ * 'config' section ('firewall addrgrp'), lowercased.
+ */
+function readSection(index: CrossReferenceIndex, nodes: ConfigNode[], section: string | undefined): void {
+  for (const node of nodes) {
+    if (node.type === 'virtual_root') {
+      readSection(index, node.children, section);
+      continue;
+    }
+
+    const words = tokenize(node.id);
+    const keyword = words[0]?.toLowerCase();
+    if (keyword === 'config') {
+      readSection(index, node.children, words.slice(1).join(' ').toLowerCase());
+    } else if (keyword === 'edit') {
+      const definition = section === undefined ? undefined : DEFINITIONS[section];
+      if (definition && words[1]) {
+        index.addDefinition(definition[0], words[1], node, definition[1]);
+      }
+      readSection(index, node.children, section);
+    } else if (keyword === 'set' && words[1]) {
+      const key = words[1].toLowerCase();
+      const kind = key === 'member' && section !== undefined ? DEFINITIONS[section]?.[0] : REFERENCES[key];
+      if (kind) {
+        for (const name of words.slice(2)) index.addReference(kind, name, node);
+      }
+    }
+  }
+}
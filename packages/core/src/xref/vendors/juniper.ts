@@ -0,0 +1,162 @@
+// packages/core/src/xref/vendors/juniper.ts
+
+import { flattenStatements, nodeAt } from '../../model/common';
+import type { Statement } from '../../model/common';
+import type { CrossReferenceIndex } from '../CrossReferenceIndex';
+import type { XrefExtractor, XrefObjectKind } from '../types';
+
+/** Address book and application names that are keywords, not objects */
+const BUILTIN_NAMES = new Set(['any', 'any-ipv4', 'any-ipv6', 'junos-host']);
+
+/** Words of policy expressions ('export ( A && B )') that are not policy names */
+const POLICY_OPERATORS = /^[()&|!]+$/;
+
+/**
+ * Cross-reference extractor for Junos, in brace or 'set' format: firewall
+ * filters, policers, policy statements and their prefix-lists, communities
+ * and AS paths, and the security zones, address books and applications of
+ * SRX policies. 'groups' and 'logical-systems' wrappers are looked through.
+ */
+export const extractJunosXref: XrefExtractor = (ast, index) => {
+  for (const statement of flattenStatements(ast)) {
+    let start = 0;
+    while (statement.words[start] === 'groups' || statement.words[start] === 'logical-systems') {
+      start += 2;
+    }
+    readStatement(index, statement, start);
+  }
+};
+
+function readStatement(index: CrossReferenceIndex, statement: Statement, start: number): void {
+  const w = statement.words.slice(start);
+  const define = (kind: XrefObjectKind, i: number, detail?: string): void => {
+    const name = w[i];
+    if (name) index.addDefinition(kind, name, nodeAt(statement, start + i), detail);
+  };
+  const use = (kind: XrefObjectKind, i: number): void => {
+    const name = w[i];
+    if (name && !BUILTIN_NAMES.has(name) && !(kind === 'application' && name.startsWith('junos-'))) {
+      index.addReference(kind, name, nodeAt(statement, start + i));
+    }
+  };
+  const useRest = (kind: XrefObjectKind, from: number): void => {
+    for (let i = from; i < w.length; i++) {
+      if (!POLICY_OPERATORS.test(w[i] ?? '')) use(kind, i);
+    }
+  };
+  const [first, second] = w;
+
+  if (first === 'policy-options') {
+    if (second === 'policy-statement') {
+      define('policy-statement', 2);
+      readPolicyTerms(w, use);
+    } else if (second === 'prefix-list') {
+      define('prefix-list', 2);
+    } else if (second === 'community') {
+      define('community-list', 2);
+    } else if (second === 'as-path') {
+      define('as-path-list', 2);
+    }
+  } else if (first === 'firewall') {
+    // firewall [family inet] filter NAME term T from ... then ...
+    const filter = w.indexOf('filter');
+    if (filter !== -1 && filter <= 3) {
+      define('firewall-filter', filter + 1);
+      readPolicyTerms(w, use);
+    } else if (second === 'policer') {
+      define('policer', 2);
+    }
+  } else if (first === 'interfaces') {
+    // interfaces IF unit N family inet filter input NAME | input-list [ A B ]
+    const filter = w.indexOf('filter');
+    if (filter !== -1) {
+      const direction = w[filter + 1];
+      if (direction === 'input' || direction === 'output') use('firewall-filter', filter + 2);
+      if (direction === 'input-list' || direction === 'output-list') useRest('firewall-filter', filter + 2);
+    }
+    const policer = w.indexOf('policer');
+    if (policer !== -1 && (w[policer + 1] === 'input' || w[policer + 1] === 'output')) use('policer', policer + 2);
+  } else if (first === 'security') {
+    readSecurity(w, define, use, useRest);
+  } else if (first === 'applications') {
+    if (second === 'application') {
+      define('application', 2);
+    } else if (second === 'application-set') {
+      define('application', 2, 'group');
+      if (w[3] === 'application' || w[3] === 'application-set') use('application', 4);
+    }
+  }
+
+  // Routing policy: protocols, routing-options and routing instances
+  for (const keyword of ['import', 'export', 'vrf-import', 'vrf-export']) {
+    const i = w.indexOf(keyword);
+    if (i > 0 && first !== 'policy-options' && first !== 'firewall') useRest('policy-statement', i + 1);
+  }
+}
+
+/**
+ * Reads the match conditions and actions of a policy-statement or firewall
+ * filter: prefix-lists, communities, AS paths, nested policies and policers.
+ */
+function readPolicyTerms(w: string[], use: (kind: XrefObjectKind, i: number) => void): void {
+  for (let i = 3; i < w.length; i++) {
+    const word = w[i];
+    if (word === 'prefix-list' || word === 'prefix-list-filter' || word === 'source-prefix-list' || word === 'destination-prefix-list') {
+      use('prefix-list', i + 1);
+    } else if (word === 'community') {
+      const action = w[i + 1];
+      use('community-list', action === 'add' || action === 'set' || action === 'delete' ? i + 2 : i + 1);
+    } else if (word === 'as-path') {
+      use('as-path-list', i + 1);
+    } else if (word === 'policy' && w[i - 1] === 'from') {
+      use('policy-statement', i + 1);
+    } else if (word === 'policer' && w[i - 1] === 'then') {
+      use('policer', i + 1);
+    }
+  }
+}
+
+/**
+ * Reads zones, address books and security policies of SRX configurations.
+ */
+function readSecurity(
+  w: string[],
+  define: (kind: XrefObjectKind, i: number, detail?: string) => void,
+  use: (kind: XrefObjectKind, i: number) => void,
+  useRest: (kind: XrefObjectKind, from: number) => void
+): void {
+  // Zone address books ('security zones security-zone Z address-book ...')
+  // and global ones ('security address-book global ...')
+  let book = -1;
+  if (w[1] === 'zones' && w[2] === 'security-zone') {
+    define('zone', 3);
+    if (w[4] === 'address-book') book = 5;
+  } else if (w[1] === 'address-book') {
+    book = 3;
+  }
+  if (book !== -1) {
+    if (w[book] === 'address') {
+      define('address', book + 1);
+    } else if (w[book] === 'address-set') {
+      define('address', book + 1, 'group');
+      if (w[book + 2] === 'address' || w[book + 2] === 'address-set') use('address', book + 3);
+    }
+  }
+
+  if (w[1] === 'policies') {
+    const from = w.indexOf('from-zone');
+    const to = w.indexOf('to-zone');
+    if (from !== -1) use('zone', from + 1);
+    if (to !== -1) use('zone', to + 1);
+
+    const match = w.indexOf('match');
+    const condition = match === -1 ? undefined : w[match + 1];
+    if (condition === 'source-address' || condition === 'destination-address') {
+      useRest('address', match + 2);
+    } else if (condition === 'application') {
+      useRest('application', match + 2);
+    } else if (condition === 'from-zone' || condition === 'to-zone') {
+      useRest('zone', match + 2);
+    }
+  }
+}
@@ -0,0 +1,101 @@
+// packages/core/src/xref/vendors/paloalto.ts
+
+import { flattenStatements, nodeAt } from '../../model/common';
+import type { Statement } from '../../model/common';
+import type { CrossReferenceIndex } from '../CrossReferenceIndex';
+import type { XrefExtractor, XrefObjectKind } from '../types';
+
+/** Wrappers before the objects of a vsys, device group or template, with the number of words they take */
+const WRAPPERS: Readonly<Record<string, number>> = {
+  config: 1,
+  shared: 1,
+  devices: 2,
+  vsys: 2,
+  'device-group': 2,
+  template: 2,
+  'template-stack': 2,
+};
+
+/** Object containers: the word before an object name, with the kind and detail of the object */
+const CONTAINERS: Readonly<Record<string, [XrefObjectKind, string?]>> = {
+  address: ['address'],
+  'address-group': ['address', 'group'],
+  service: ['service'],
+  'service-group': ['service', 'group'],
+  application: ['application'],
+  'application-group': ['application', 'group'],
+  zone: ['zone'],
+};
+
+/** Rule attributes that reference objects */
+const RULE_REFERENCES: Readonly<Record<string, XrefObjectKind>> = {
+  from: 'zone',
+  to: 'zone',
+  source: 'address',
+  destination: 'address',
+  service: 'service',
+  application: 'application',
+  'translated-address': 'address',
+};
+
+/**
+ * Other rule attributes, which end the value list of the previous one in
+ * single-line 'set rulebase ... rules R from trust to untrust ...' commands.
+ */
+const RULE_ATTRIBUTES = new Set([
+  'action', 'category', 'description', 'destination-hip', 'destination-translation', 'disabled',
+  'group-tag', 'hip-profiles', 'log-end', 'log-setting', 'log-start', 'negate-destination',
+  'negate-source', 'option', 'profile-setting', 'rule-type', 'schedule', 'source-hip',
+  'source-translation', 'source-user', 'tag', 'target', 'to-interface', 'uuid',
+  ...Object.keys(RULE_REFERENCES),
+]);
+
+/** Rule values that are keywords or predefined objects */
+const BUILTIN_NAMES = new Set(['any', 'application-default', 'service-http', 'service-https', 'pre-logon', 'known-user', 'unknown']);
+
+/**
+ * Cross-reference extractor for PAN-OS, in brace or 'set' format, including
+ * Panorama device groups and shared objects: address and service objects and
+ * groups, application groups and zones, used by security and NAT rules.
+ */
+export const extractPanosXref: XrefExtractor = (ast, index) => {
+  for (const statement of flattenStatements(ast)) {
+    let start = 0;
+    while (statement.words[start] !== undefined && WRAPPERS[statement.words[start]!] !== undefined) {
+      start += WRAPPERS[statement.words[start]!]!;
+    }
+    readStatement(index, statement, start);
+  }
+};
+
+function readStatement(index: CrossReferenceIndex, statement: Statement, start: number): void {
+  const w = statement.words.slice(start);
+  const use = (kind: XrefObjectKind, i: number): void => {
+    const name = w[i];
+    if (name && !BUILTIN_NAMES.has(name)) index.addReference(kind, name, nodeAt(statement, start + i));
+  };
+  const first = w[0] ?? '';
+
+  const container = CONTAINERS[first];
+  if (container && w[1]) {
+    index.addDefinition(container[0], w[1], nodeAt(statement, start + 1), container[1]);
+    // Group members: address-group G static [ A B ], service-group G members [ A B ]
+    if (w[2] === 'static' || w[2] === 'members') {
+      for (let i = 3; i < w.length; i++) use(container[0], i);
+    }
+    return;
+  }
+
+  // rulebase security rules R ATTRIBUTE VALUE... (also pre-/post-rulebase on Panorama)
+  if ((first === 'rulebase' || first === 'pre-rulebase' || first === 'post-rulebase') && w[2] === 'rules') {
+    let kind: XrefObjectKind | undefined;
+    for (let i = 4; i < w.length; i++) {
+      const word = w[i] ?? '';
+      if (RULE_ATTRIBUTES.has(word)) {
+        kind = RULE_REFERENCES[word];
+      } else if (kind) {
+        use(kind, i);
+      }
+    }
+  }
+}
@@ -0,0 +1,115 @@
+// packages/core/test/compliance.test.ts
+
+import { describe, expect, test } from 'bun:test';
+import { computeComplianceCoverage, getRuleControls } from '../src/compliance';
+import type { ComplianceRule } from '../src/compliance';
+import { isJsonRule } from '../src/json-rules';
+import type { ComplianceFramework } from '../src/types/Compliance';
+import type { RuleResult } from '../src/types/IRule';
+
+const framework: ComplianceFramework = {
+    id: 'cis-test',
+    name: 'Test Benchmark',
+    vendor: 'cisco-ios',
+    controls: [
+        { id: '1.1', title: 'Enable secret' },
+        { id: '1.2', title: 'SSH only' },
+        { id: '1.3', title: 'Not checked' },
+    ],
+};
+
+const meta = { obu: 'Network', owner: 'NetOps' };
+
+const rules: ComplianceRule[] = [
+    {
+        id: 'R-ENABLE',
+        vendor: 'cisco-ios',
+        metadata: {
+            ...meta,
+            level: 'error',
+            compliance: [
+                { framework: 'cis-test', controls: ['1.1'] },
+                { framework: 'nist-800-53', controls: ['IA-5'] },
+            ],
+        },
+    },
+    {
+        id: 'R-SSH',
+        vendor: ['cisco-ios', 'cisco-nxos'],
+        metadata: { ...meta, level: 'warning', compliance: [{ framework: 'cis-test', controls: ['1.2'] }] },
+    },
+    {
+        id: 'R-JUNOS',
+        vendor: 'juniper-junos',
+        metadata: { ...meta, level: 'warning', compliance: [{ framework: 'cis-test', controls: ['1.3'] }] },
+    },
+];
+
+const result = (ruleId: string, passed: boolean): RuleResult => ({
+    ruleId,
+    nodeId: 'hostname',
+    passed,
+    message: passed ? 'ok' : 'failed',
+    level: passed ? 'info' : 'error',
+});
+
+describe('Compliance coverage', () => {
+    test('should list the controls a rule maps to per framework', () => {
+        expect(getRuleControls(rules[0]!, 'cis-test')).toEqual(['1.1']);
+        expect(getRuleControls(rules[0]!, 'nist-800-53')).toEqual(['IA-5']);
+        expect(getRuleControls(rules[0]!, 'pci-dss')).toEqual([]);
+    });
+
+    test('should report pass, fail and not-covered controls', () => {
+        const coverage = computeComplianceCoverage(framework, rules, [
+            { filePath: 'r1.cfg', vendor: 'cisco-ios', results: [result('R-ENABLE', false), result('R-SSH', true)] },
+            { filePath: 'r2.cfg', vendor: 'cisco-ios', results: [result('R-ENABLE', false)] },
+            { filePath: 'fw1.conf', vendor: 'juniper-junos', results: [result('R-SSH', false)] },
+        ]);
+
+        const [enable, ssh, unchecked] = coverage.controls;
+        expect(enable).toMatchObject({ status: 'fail', ruleIds: ['R-ENABLE'], failures: 2, failedFiles: ['r1.cfg', 'r2.cfg'] });
+        // The Junos configuration is outside the framework vendor
+        expect(ssh).toMatchObject({ status: 'pass', ruleIds: ['R-SSH'], failures: 0 });
+        // Rules of other vendors do not cover the control
+        expect(unchecked).toMatchObject({ status: 'not-covered', ruleIds: [] });
+        expect(coverage.filesScanned).toBe(2);
+        expect(coverage.summary).toEqual({ pass: 1, fail: 1, 'not-evaluated': 0, 'not-covered': 1 });
+    });
+
+    test('should not pass controls whose rules produced no results', () => {
+        const coverage = computeComplianceCoverage(framework, rules, [
+            { filePath: 'r1.cfg', vendor: 'cisco-ios', results: [result('R-ENABLE', true)] },
+            { filePath: 'r2.cfg', vendor: 'cisco-ios', results: [] },
+        ]);
+
+        const [enable, ssh] = coverage.controls;
+        expect(enable).toMatchObject({ status: 'pass', failures: 0 });
+        // R-SSH is active but matched no line of either configuration
+        expect(ssh).toMatchObject({ status: 'not-evaluated', ruleIds: ['R-SSH'], failures: 0 });
+        expect(coverage.summary).toEqual({ pass: 1, fail: 0, 'not-evaluated': 1, 'not-covered': 1 });
+        expect(computeComplianceCoverage(framework, rules, []).controls[0]?.status).toBe('not-evaluated');
+    });
+
+    test('should count every vendor for vendor-neutral frameworks', () => {
+        const neutral: ComplianceFramework = { ...framework, vendor: undefined };
+        const coverage = computeComplianceCoverage(neutral, rules, [
+            { filePath: 'fw1.conf', vendor: 'juniper-junos', results: [result('R-JUNOS', false)] },
+        ]);
+        expect(coverage.controls[2]).toMatchObject({ status: 'fail', failedFiles: ['fw1.conf'] });
+        expect(coverage.filesScanned).toBe(1);
+    });
+
+    test('should validate compliance metadata in JSON rules', () => {
+        const metadata = { ...meta, level: 'warning' };
+        const rule = {
+            id: 'JSON-TEST-001',
+            selector: 'hostname',
+            metadata: { ...metadata, compliance: [{ framework: 'cis-test', controls: ['1.1'] }] },
+            check: { type: 'match', pattern: 'hostname' },
+        };
+        expect(isJsonRule(rule)).toBe(true);
+        expect(isJsonRule({ ...rule, metadata: { ...metadata, compliance: [{ framework: 'cis-test' }] } })).toBe(false);
+        expect(isJsonRule({ ...rule, metadata: { ...metadata, compliance: [{ framework: 'cis-test', controls: [1] }] } })).toBe(false);
+    });
+});
@@ -0,0 +1,160 @@
+// packages/core/test/credentials.test.ts
+
+import { describe, expect, test } from 'bun:test';
+import { RuleEngine } from '../src/engine/Runner';
+import { SchemaAwareParser } from '../src/parser/SchemaAwareParser';
+import { getVendor } from '../src/parser/vendors';
+import {
+    credentialKey,
+    decodeCiscoType7,
+    decodeJunos9,
+    extractCredentials,
+    hasDefaultSecret,
+    isKnownDefaultSecret,
+} from '../src/credentials';
+import type { Credential } from '../src/credentials';
+import type { IRule, RuleResult, Context } from '../src/types/IRule';
+import type { ConfigNode } from '../src/types/ConfigNode';
+
+const extract = (vendorId: string, config: string): Credential[] => {
+    const parser = new SchemaAwareParser({ vendor: getVendor(vendorId) });
+    return extractCredentials(parser.parse(config), vendorId);
+};
+
+const describeCredentials = (credentials: Credential[]): string[] =>
+    credentials.map((c) => `${c.kind}${c.user ? `(${c.user})` : ''} ${c.algorithm}${c.plaintext !== undefined ? ` "${c.plaintext}"` : ''}`);
+
+describe('Credential decoding', () => {
+    test('should decode Cisco type 7 passwords', () => {
+        expect(decodeCiscoType7('0822455D0A16')).toBe('cisco');
+        expect(decodeCiscoType7('070C285F4D06')).toBe('cisco');
+        expect(decodeCiscoType7('$1$abc')).toBeUndefined();
+        expect(decodeCiscoType7('99AB')).toBeUndefined();
+    });
+
+    test('should decode Junos $9$ secrets', () => {
+        expect(decodeJunos9('$9$QzF33/t1RSM87uO87-V4oz369uOIEclvW')).toBe('juniper123');
+        expect(decodeJunos9('$9$7xV2oUjqPT3UD39p0hc7-dV2oJZj.mfx7')).toBe('Str0ng-Pa$$');
+        expect(decodeJunos9('$6$salt$hash')).toBeUndefined();
+        expect(decodeJunos9('$9$')).toBeUndefined();
+    });
+});
+
+describe('extractCredentials', () => {
+    test('should read Cisco users, enable secrets, communities and keys', () => {
+        const credentials = extract('cisco-ios', [
+            'enable secret 9 $9$salt$hash',
+            'username admin privilege 15 password 7 0822455D0A16',
+            'username ops secret 5 $1$salt$hash',
+            'snmp-server community public RO',
+            'tacacs-server host 10.0.0.9 key 6 AbCdEf',
+            'line vty 0 4',
+            ' password 0 letmein',
+        ].join('\n'));
+
+        expect(describeCredentials(credentials)).toEqual([
+            'enable scrypt',
+            'user(admin) cisco-type7 "cisco"',
+            'user(ops) md5-crypt',
+            'snmp-community plaintext "public"',
+            'shared-key encrypted',
+            'password plaintext "letmein"',
+        ]);
+        expect(credentials[1]?.source.nodeId).toBe('username admin privilege 15 password 7 0822455D0A16');
+        expect(credentials[1]?.source.loc.startLine).toBe(1);
+    });
+
+    test('should read Junos users in brace and set format', () => {
+        const credentials = extract('juniper-junos', `system {
+    login {
+        user admin {
+            authentication {
+                encrypted-password "$6$salt$hash";
+            }
+        }
+    }
+    radius-server {
+        10.0.0.9 secret "$9$QzF33/t1RSM87uO87-V4oz369uOIEclvW";
+    }
+}
+`);
+        expect(describeCredentials(credentials)).toEqual(['user(admin) sha512-crypt', 'shared-key junos-9 "juniper123"']);
+        expect(credentials[0]?.source.loc.startLine).toBe(4);
+    });
+
+    test('should read FortiGate, Arista and Huawei hash types', () => {
+        expect(describeCredentials(extract('fortinet-fortigate', `config system admin
+    edit "admin"
+        set password ENC SH2abcdef==
+    next
+end
+config vpn ipsec phase1-interface
+    edit "to-hq"
+        set psksecret ENC xyz==
+    next
+end
+`))).toEqual(['user(admin) hash', 'shared-key encrypted']);
+        expect(describeCredentials(extract('arista-eos', 'username admin role network-admin secret sha512 $6$salt$hash'))).toEqual([
+            'user(admin) sha512-crypt',
+        ]);
+        expect(describeCredentials(extract('huawei-vrp', 'aaa\n local-user admin password irreversible-cipher $1a$abc$'))).toEqual([
+            'user(admin) hash',
+        ]);
+    });
+
+    test('should return no credentials for unknown vendors', () => {
+        expect(extractCredentials([], 'unknown')).toEqual([]);
+    });
+});
+
+describe('Known defaults and reuse keys', () => {
+    test('should recognize default secrets case-insensitively', () => {
+        expect(isKnownDefaultSecret('Cisco')).toBe(true);
+        expect(isKnownDefaultSecret('Admin@huawei')).toBe(true);
+        expect(isKnownDefaultSecret('Xk9-2fQ')).toBe(false);
+    });
+
+    test('should check decoded values and key credentials by secret', () => {
+        const [type7, plain, hashed] = extract('cisco-ios', [
+            'username a password 7 0822455D0A16',
+            'username b password cisco',
+            'username c secret 5 $1$salt$hash',
+        ].join('\n'));
+
+        expect(hasDefaultSecret(type7!)).toBe(true);
+        expect(hasDefaultSecret(hashed!)).toBe(false);
+        expect(credentialKey(type7!)).toBe(credentialKey(plain!));
+        expect(credentialKey(hashed!)).toBe('md5-crypt:$1$salt$hash');
+    });
+});
+
+describe('Context.getCredentials', () => {
+    const parser = new SchemaAwareParser();
+    const config = 'enable secret 5 $1$salt$hash\ninterface Gi0/1\ninterface Gi0/2\n';
+
+    const collectingRule = (seen: (Credential[] | undefined)[]): IRule => ({
+        id: 'TEST-CRED',
+        selector: 'interface',
+        metadata: { level: 'info', obu: 'test', owner: 'me' },
+        check: (node: ConfigNode, ctx: Context): RuleResult => {
+            seen.push(ctx.getCredentials?.());
+            return { passed: true, message: 'ok', ruleId: 'TEST-CRED', nodeId: node.id, level: 'info' };
+        },
+    });
+
+    test('should read the credentials once per run when the vendor is known', () => {
+        const seen: (Credential[] | undefined)[] = [];
+        new RuleEngine().run(parser.parse(config), [collectingRule(seen)], { vendorId: 'cisco-ios' });
+
+        expect(seen).toHaveLength(2);
+        expect(seen[0]).toBe(seen[1]);
+        expect(describeCredentials(seen[0] ?? [])).toEqual(['enable md5-crypt']);
+    });
+
+    test('should not provide credentials without a vendor', () => {
+        const seen: (Credential[] | undefined)[] = [];
+        new RuleEngine().run(parser.parse(config), [collectingRule(seen)]);
+
+        expect(seen).toEqual([undefined, undefined]);
+    });
+});
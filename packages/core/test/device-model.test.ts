@@ -0,0 +1,207 @@
+// packages/core/test/device-model.test.ts
+
+import { describe, expect, test } from 'bun:test';
+import { RuleEngine } from '../src/engine/Runner';
+import { SchemaAwareParser } from '../src/parser/SchemaAwareParser';
+import { getVendor } from '../src/parser/vendors';
+import { extractDeviceModel } from '../src/model';
+import type { DeviceModel } from '../src/model';
+import type { IRule, RuleResult, Context } from '../src/types/IRule';
+import type { ConfigNode } from '../src/types/ConfigNode';
+
+const modelOf = (vendorId: string, config: string): DeviceModel => {
+    const parser = new SchemaAwareParser({ vendor: getVendor(vendorId) });
+    return extractDeviceModel(parser.parse(config), vendorId);
+};
+
+describe('Device model', () => {
+    test('should extract a Cisco IOS configuration', () => {
+        const model = modelOf('cisco-ios', `
+hostname R1
+!
+username admin privilege 15 secret 5 $1$abc
+!
+vrf definition MGMT
+ rd 65000:1
+!
+interface GigabitEthernet0/0
+ description Uplink
+ vrf forwarding MGMT
+ ip address 10.0.0.1 255.255.255.252
+ ip address 10.0.1.1 255.255.255.0 secondary
+ ip ospf 1 area 0
+!
+interface GigabitEthernet0/1
+ switchport mode trunk
+ switchport trunk allowed vlan 10,20-22
+ shutdown
+!
+router bgp 65000
+ bgp router-id 1.1.1.1
+ neighbor 10.0.0.2 remote-as 65001
+ neighbor 10.0.0.2 description ISP
+!
+ip route 0.0.0.0 0.0.0.0 10.0.0.2
+ip route vrf MGMT 192.168.0.0 255.255.0.0 Null0
+ntp server 192.0.2.1
+logging host 192.0.2.2
+tacacs-server host 192.0.2.3
+`);
+
+        expect(model.vendor).toBe('cisco-ios');
+        expect(model.hostname).toBe('R1');
+        expect(model.vrfs.map((v) => [v.name, v.routeDistinguisher])).toEqual([['MGMT', '65000:1']]);
+
+        const [uplink, trunk] = model.interfaces;
+        expect(uplink?.name).toBe('GigabitEthernet0/0');
+        expect(uplink?.description).toBe('Uplink');
+        expect(uplink?.vrf).toBe('MGMT');
+        expect(uplink?.addresses).toEqual([
+            { address: '10.0.0.1', prefixLength: 30, family: 'ipv4' },
+            { address: '10.0.1.1', prefixLength: 24, family: 'ipv4', secondary: true },
+        ]);
+        expect(uplink?.source.nodeId).toBe('interface GigabitEthernet0/0');
+        expect(trunk?.enabled).toBe(false);
+        expect(trunk?.trunkVlans).toEqual([10, 20, 21, 22]);
+
+        expect(model.bgp?.asn).toBe('65000');
+        expect(model.bgp?.routerId).toBe('1.1.1.1');
+        expect(model.bgp?.neighbors.map((n) => [n.address, n.remoteAs, n.description])).toEqual([
+            ['10.0.0.2', '65001', 'ISP'],
+        ]);
+        expect(model.ospf[0]?.members.map((m) => [m.name, m.area])).toEqual([['GigabitEthernet0/0', '0.0.0.0']]);
+        expect(model.staticRoutes.map((r) => [r.prefix, r.nextHop, r.vrf, r.discard])).toEqual([
+            ['0.0.0.0/0', '10.0.0.2', undefined, undefined],
+            ['192.168.0.0/16', undefined, 'MGMT', true],
+        ]);
+        expect(model.users.map((u) => [u.name, u.privilege, u.hasPassword])).toEqual([['admin', '15', true]]);
+        expect(model.ntpServers.map((s) => s.address)).toEqual(['192.0.2.1']);
+        expect(model.syslogServers.map((s) => s.address)).toEqual(['192.0.2.2']);
+        expect(model.aaaServers.map((s) => [s.protocol, s.address])).toEqual([['tacacs', '192.0.2.3']]);
+    });
+
+    test('should extract the same entities from a Junos configuration', () => {
+        const model = modelOf('juniper-junos', `
+system {
+    host-name R2;
+    ntp {
+        server 192.0.2.1;
+    }
+}
+interfaces {
+    ge-0/0/0 {
+        description Uplink;
+        unit 0 {
+            family inet {
+                address 10.0.0.2/30;
+            }
+        }
+    }
+}
+routing-options {
+    router-id 2.2.2.2;
+    autonomous-system 65001;
+    static {
+        route 0.0.0.0/0 next-hop 10.0.0.1;
+    }
+}
+protocols {
+    bgp {
+        group ISP {
+            peer-as 65000;
+            neighbor 10.0.0.1;
+        }
+    }
+    ospf {
+        area 0.0.0.0 {
+            interface ge-0/0/0.0;
+        }
+    }
+}
+`);
+
+        expect(model.hostname).toBe('R2');
+        expect(model.interfaces.find((i) => i.name === 'ge-0/0/0.0')?.addresses).toEqual([
+            { address: '10.0.0.2', prefixLength: 30, family: 'ipv4' },
+        ]);
+        expect(model.bgp?.asn).toBe('65001');
+        expect(model.bgp?.routerId).toBe('2.2.2.2');
+        expect(model.bgp?.neighbors.map((n) => [n.address, n.remoteAs])).toEqual([['10.0.0.1', '65000']]);
+        expect(model.ospf[0]?.members.map((m) => m.name)).toEqual(['ge-0/0/0.0']);
+        expect(model.staticRoutes.map((r) => [r.prefix, r.nextHop])).toEqual([['0.0.0.0/0', '10.0.0.1']]);
+        expect(model.ntpServers.map((s) => s.address)).toEqual(['192.0.2.1']);
+    });
+
+    test('should extract FortiGate, MikroTik and VyOS interfaces', () => {
+        const fortigate = modelOf('fortinet-fortigate', `
+config system interface
+    edit "port1"
+        set ip 10.0.0.1 255.255.255.0
+        set alias "WAN"
+        set status down
+    next
+end
+`);
+        expect(fortigate.interfaces.map((i) => [i.name, i.description, i.enabled, i.addresses[0]?.prefixLength])).toEqual([
+            ['port1', 'WAN', false, 24],
+        ]);
+
+        const mikrotik = modelOf('mikrotik-routeros', `
+/system identity
+set name=edge-01
+/ip address
+add address=10.0.0.1/24 interface=ether1
+/ip route
+add dst-address=0.0.0.0/0 gateway=10.0.0.254
+`);
+        expect(mikrotik.hostname).toBe('edge-01');
+        expect(mikrotik.interfaces[0]?.addresses[0]?.address).toBe('10.0.0.1');
+        expect(mikrotik.staticRoutes.map((r) => [r.prefix, r.nextHop])).toEqual([['0.0.0.0/0', '10.0.0.254']]);
+
+        const vyos = modelOf('vyos', `
+set system host-name vyos-01
+set interfaces ethernet eth0 address 10.0.0.1/24
+set interfaces ethernet eth0 vif 10 address 10.10.0.1/24
+`);
+        expect(vyos.hostname).toBe('vyos-01');
+        expect(vyos.interfaces.map((i) => [i.name, i.accessVlan])).toEqual([['eth0', undefined], ['eth0.10', 10]]);
+    });
+
+    test('should fall back to the Cisco-style extractor for unknown vendors', () => {
+        const parser = new SchemaAwareParser();
+        const model = extractDeviceModel(parser.parse('hostname R9\ninterface Gi0/1\n ip address 10.0.0.1 255.0.0.0\n'), 'other');
+        expect(model.hostname).toBe('R9');
+        expect(model.interfaces[0]?.addresses[0]?.prefixLength).toBe(8);
+    });
+});
+
+describe('Context.getModel', () => {
+    const parser = new SchemaAwareParser();
+    const config = 'hostname R1\ninterface Gi0/1\n ip address 10.0.0.1 255.255.255.0\ninterface Gi0/2\n';
+
+    const collectingRule = (seen: (DeviceModel | undefined)[]): IRule => ({
+        id: 'TEST-MODEL',
+        selector: 'interface',
+        metadata: { level: 'info', obu: 'test', owner: 'me' },
+        check: (node: ConfigNode, ctx: Context): RuleResult => {
+            seen.push(ctx.getModel?.());
+            return { passed: true, message: 'ok', ruleId: 'TEST-MODEL', nodeId: node.id, level: 'info' };
+        },
+    });
+
+    test('should extract the model once per run when the vendor is known', () => {
+        const seen: (DeviceModel | undefined)[] = [];
+        new RuleEngine().run(parser.parse(config), [collectingRule(seen)], { vendorId: 'cisco-ios' });
+
+        expect(seen).toHaveLength(2);
+        expect(seen[0]).toBe(seen[1]);
+        expect(seen[0]?.interfaces.map((i) => i.name)).toEqual(['Gi0/1', 'Gi0/2']);
+    });
+
+    test('should not provide a model without a vendor', () => {
+        const seen: (DeviceModel | undefined)[] = [];
+        new RuleEngine().run(parser.parse(config), [collectingRule(seen)]);
+
+        expect(seen).toEqual([undefined, undefined]);
+    });
+});
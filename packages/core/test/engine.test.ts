@@ -2,9 +2,12 @@
 
 import { describe, expect, test } from 'bun:test';
 import { RuleEngine } from '../src/engine/Runner';
+import { createFleetDevice, findHostname, runFleetRules } from '../src/engine/FleetRunner';
 import { SchemaAwareParser } from '../src/parser/SchemaAwareParser';
+import { createSandboxedExecutor } from '../src/engine/SandboxedExecutor';
 import type { IRule, RuleResult, Context } from '../src/types/IRule';
 import type { ConfigNode } from '../src/types/ConfigNode';
+import type { FleetDevice, IFleetRule } from '../src/types/FleetRule';
 
 describe('RuleEngine', () => {
     const parser = new SchemaAwareParser();
@@ -152,4 +155,336 @@ interface GigabitEthernet1
          expect(results[0]?.passed).toBe(false);
          expect(results[0]?.message).toContain('Rule execution error: Boom');
     });
+
+    test('should carry the node path on results', () => {
+        const config = `
+router bgp 65000
+ neighbor 10.0.0.1 remote-as 65001
+`;
+        const nodes = parser.parse(config);
+
+        const rule: IRule = {
+            id: 'TEST-PATH',
+            selector: 'neighbor',
+            metadata: { level: 'warning', obu: 'test', owner: 'me' },
+            check: (node: ConfigNode): RuleResult => ({
+                passed: false,
+                message: 'Neighbor found',
+                ruleId: 'TEST-PATH',
+                nodeId: node.id,
+                level: 'warning',
+                loc: node.loc,
+            }),
+        };
+
+        const engine = new RuleEngine();
+        const results = engine.run(nodes, [rule]);
+
+        expect(results[0]?.path).toBe('router bgp 65000 > neighbor 10.0.0.1 remote-as 65001');
+    });
+
+    test('should keep a path set by the rule', () => {
+        const nodes = parser.parse('interface Gi0/1\n shutdown\n');
+
+        const rule: IRule = {
+            id: 'TEST-PATH',
+            selector: 'interface',
+            metadata: { level: 'warning', obu: 'test', owner: 'me' },
+            check: (node: ConfigNode): RuleResult => ({
+                passed: false,
+                message: 'Custom path',
+                ruleId: 'TEST-PATH',
+                nodeId: node.id,
+                level: 'warning',
+                path: 'custom',
+            }),
+        };
+
+        const results = new RuleEngine().run(nodes, [rule]);
+        expect(results[0]?.path).toBe('custom');
+    });
+});
+
+describe('Multiple results', () => {
+    const parser = new SchemaAwareParser();
+    const config = `
+router bgp 65000
+ neighbor 10.0.0.1 remote-as 65001
+ neighbor 10.0.0.1 password secret
+ neighbor 10.0.0.2 remote-as 65002
+ neighbor 10.0.0.3 remote-as 65003
+`;
+
+    // One finding per neighbor without a password
+    const bgpRule: IRule = {
+        id: 'TEST-BGP-PASSWORD',
+        selector: 'router bgp',
+        metadata: { level: 'warning', obu: 'test', owner: 'me' },
+        check: (node: ConfigNode): RuleResult[] => {
+            const secured = node.children.filter((child) => child.params[2] === 'password').map((child) => child.params[1]);
+            return node.children
+                .filter((child) => child.params[2] === 'remote-as' && !secured.includes(child.params[1]))
+                .map((child) => ({
+                    passed: false,
+                    message: `Neighbor ${child.params[1]} has no password`,
+                    ruleId: 'TEST-BGP-PASSWORD',
+                    nodeId: child.id,
+                    level: 'warning',
+                    loc: child.loc,
+                    path: child.path,
+                }));
+        },
+    };
+
+    test('should record every result of a check, at its own line', () => {
+        const results = new RuleEngine().run(parser.parse(config), [bgpRule]);
+
+        expect(results.map((r) => [r.message, r.loc?.startLine])).toEqual([
+            ['Neighbor 10.0.0.2 has no password', 4],
+            ['Neighbor 10.0.0.3 has no password', 5],
+        ]);
+        expect(results[0]?.path).toBe('router bgp 65000 > neighbor 10.0.0.2 remote-as 65002');
+    });
+
+    test('should record every result with timeout protection', () => {
+        const engine = new RuleEngine({ enableTimeoutProtection: true });
+
+        expect(engine.run(parser.parse(config), [bgpRule])).toHaveLength(2);
+        expect(engine.run(parser.parse(config), [{ ...bgpRule, check: () => [] }])).toEqual([]);
+    });
+
+    test('should report the children flagged by sandboxed custom code', () => {
+        const rule = createSandboxedExecutor().compileRule({
+            id: 'TEST-SANDBOX',
+            selector: 'router bgp',
+            metadata: { level: 'warning', obu: 'test', owner: 'me' },
+            check: {
+                type: 'custom',
+                code: "return node.children.filter(c => c.id.endsWith('65003')).map(c => c.id);",
+            },
+        });
+        const results = new RuleEngine().run(parser.parse(config), [rule]);
+
+        expect(results.map((r) => [r.passed, r.nodeId])).toEqual([[false, 'neighbor 10.0.0.3 remote-as 65003']]);
+    });
+});
+
+describe('Sandboxed custom code', () => {
+    const parser = new SchemaAwareParser();
+    const ast = parser.parse('interface GigabitEthernet0/1\n description uplink\n');
+
+    const compile = (code: string): IRule =>
+        createSandboxedExecutor().compileRule({
+            id: 'TEST-SANDBOX',
+            selector: 'interface',
+            metadata: { level: 'warning', obu: 'test', owner: 'me' },
+            check: { type: 'custom', code },
+        });
+
+    const passed = (code: string): boolean[] => new RuleEngine().run(ast, [compile(code)]).map((r) => r.passed);
+
+    test('should run custom code against a read-only copy of the node', () => {
+        expect(passed('return true;')).toEqual([true]);
+        expect(passed("return node.children.some(c => c.id.startsWith('description'));")).toEqual([true]);
+        expect(passed("return node.id.includes('Loopback');")).toEqual([false]);
+        expect(passed("node.id = 'changed'; return node.id === 'changed';")).toEqual([false]);
+    });
+
+    // Regression: host built-ins in the sandbox led to the host `Function`
+    // through their `constructor`, and from there to `process`
+    test('should not let custom code reach the host', () => {
+        expect(passed("return typeof process === 'undefined' && typeof require === 'undefined';")).toEqual([true]);
+        expect(passed("return typeof Object.constructor('return process')() === 'object';")).toEqual([false]);
+        expect(passed("return typeof node.constructor.constructor('return process')() === 'object';")).toEqual([false]);
+        expect(passed("return typeof (() => {}).constructor('return process')() === 'object';")).toEqual([false]);
+        expect(passed("return eval('1') === 1;")).toEqual([false]);
+    });
+
+    test('should fail closed when custom code times out', () => {
+        expect(passed('while (true) {}')).toEqual([false]);
+    });
+});
+
+describe('Selector combinators', () => {
+    const parser = new SchemaAwareParser();
+    const config = `
+interface Gi0/1
+ shutdown
+router ospf 1
+ shutdown
+router bgp 65000
+ neighbor 10.0.0.1 remote-as 65001
+ address-family ipv4
+  neighbor 10.0.0.1 activate
+router eigrp 10
+ neighbor 10.0.0.9 Gi0/1
+`;
+
+    const selectorRule = (selector: string): IRule => ({
+        id: 'TEST-SEL',
+        selector,
+        metadata: { level: 'warning', obu: 'test', owner: 'me' },
+        check: (node: ConfigNode): RuleResult => ({
+            passed: false,
+            message: 'Matched',
+            ruleId: 'TEST-SEL',
+            nodeId: node.id,
+            level: 'warning',
+        }),
+    });
+
+    const matchedPaths = (selector: string): (string | undefined)[] =>
+        new RuleEngine().run(parser.parse(config), [selectorRule(selector)]).map((r) => r.path);
+
+    test('should match direct children with >', () => {
+        expect(matchedPaths('interface > shutdown')).toEqual(['interface Gi0/1 > shutdown']);
+    });
+
+    test('should match descendants with >>', () => {
+        expect(matchedPaths('router bgp >> neighbor')).toEqual([
+            'router bgp 65000 > neighbor 10.0.0.1 remote-as 65001',
+            'router bgp 65000 > address-family ipv4 > neighbor 10.0.0.1 activate',
+        ]);
+    });
+
+    test('should chain combinators', () => {
+        expect(matchedPaths('router bgp > address-family > neighbor')).toEqual([
+            'router bgp 65000 > address-family ipv4 > neighbor 10.0.0.1 activate',
+        ]);
+        expect(matchedPaths('ROUTER BGP >> ADDRESS-FAMILY > neighbor')).toHaveLength(1);
+    });
+
+    test('should not match top-level nodes with a combinator', () => {
+        expect(matchedPaths('router > interface')).toEqual([]);
+    });
+
+    test('should run empty and whitespace-only selectors on every node', () => {
+        const all = matchedPaths('');
+
+        expect(all).toHaveLength(10);
+        expect(matchedPaths('   ')).toEqual(all);
+    });
+
+    test('should expose the parent through the context', () => {
+        const parents: Array<[string, string | undefined]> = [];
+        const rule: IRule = {
+            id: 'TEST-PARENT',
+            metadata: { level: 'info', obu: 'test', owner: 'me' },
+            check: (node: ConfigNode, ctx: Context): RuleResult => {
+                parents.push([node.id, ctx.getParent?.(node)?.id]);
+                return { passed: true, message: 'ok', ruleId: 'TEST-PARENT', nodeId: node.id, level: 'info' };
+            },
+        };
+
+        new RuleEngine().run(parser.parse('hostname R1\ninterface Gi0/1\n shutdown\n'), [rule]);
+
+        expect(parents).toContainEqual(['hostname R1', undefined]);
+        expect(parents).toContainEqual(['interface Gi0/1', undefined]);
+        expect(parents).toContainEqual(['shutdown', 'interface Gi0/1']);
+    });
+});
+
+describe('Document rules', () => {
+    const parser = new SchemaAwareParser();
+
+    const documentRule = (seen: ConfigNode[]): IRule => ({
+        id: 'TEST-DOC',
+        selector: 'interface',
+        scope: 'document',
+        metadata: { level: 'warning', obu: 'test', owner: 'me' },
+        check: (node: ConfigNode): RuleResult => {
+            seen.push(node);
+            return { passed: true, message: 'ok', ruleId: 'TEST-DOC', nodeId: node.id, level: 'info', loc: node.loc };
+        },
+    });
+
+    test('should run once on a document node of the top-level nodes', () => {
+        const seen: ConfigNode[] = [];
+        const results = new RuleEngine().run(
+            parser.parse('hostname R1\ninterface Gi0/1\n shutdown\ninterface Gi0/2\n'),
+            [documentRule(seen)]
+        );
+
+        expect(seen).toHaveLength(1);
+        expect(seen[0]?.id).toBe('document');
+        // Orphan commands are taken out of their virtual roots
+        expect(seen[0]?.children.map((child) => child.id)).toEqual(['hostname R1', 'interface Gi0/1', 'interface Gi0/2']);
+        expect(seen[0]?.loc).toEqual({ startLine: 0, endLine: 3 });
+        expect(results).toHaveLength(1);
+    });
+
+    test('should run on empty configurations', () => {
+        const seen: ConfigNode[] = [];
+        new RuleEngine().run([], [documentRule(seen)]);
+
+        expect(seen).toHaveLength(1);
+        expect(seen[0]?.children).toEqual([]);
+    });
+
+    test('should not run document rules on nodes', () => {
+        const seen: ConfigNode[] = [];
+        const engine = new RuleEngine();
+        engine.run(parser.parse('interface Gi0/1\n'), [documentRule(seen)]);
+
+        expect(seen.map((node) => node.id)).toEqual(['document']);
+        expect(engine.getIndexStats()).toMatchObject({ documentRules: 1, globalRules: 0, prefixBuckets: 0 });
+    });
+});
+
+describe('Fleet rules', () => {
+    const parser = new SchemaAwareParser();
+    const device = (filePath: string, vendor: string, config: string): FleetDevice =>
+        createFleetDevice(filePath, vendor, parser.parse(config));
+
+    test('should find the hostname, falling back to the file name', () => {
+        expect(findHostname(parser.parse('hostname core-01\ninterface Gi0/1\n'))).toBe('core-01');
+        expect(device('/configs/edge-02.cfg', 'cisco-ios', 'interface Gi0/1\n').hostname).toBe('edge-02');
+    });
+
+    test('should pass only the devices of matching vendors', () => {
+        const seen: string[][] = [];
+        const rule: IFleetRule = {
+            id: 'TEST-FLEET',
+            vendor: 'cisco-ios',
+            metadata: { level: 'error', obu: 'test', owner: 'me' },
+            check: (devices) => {
+                seen.push(devices.map((d) => d.hostname));
+                return devices.map((d) => ({
+                    passed: false,
+                    message: `checked ${d.hostname}`,
+                    ruleId: 'TEST-FLEET',
+                    nodeId: 'hostname',
+                    level: 'error',
+                    filePath: d.filePath,
+                }));
+            },
+        };
+        const devices = [
+            device('r1.cfg', 'cisco-ios', 'hostname R1\n'),
+            device('j1.conf', 'juniper-junos', 'hostname J1\n'),
+        ];
+
+        const { results, errors } = runFleetRules(devices, [rule]);
+
+        expect(seen).toEqual([['R1']]);
+        expect(results.map((r) => r.filePath)).toEqual(['r1.cfg']);
+        expect(errors).toEqual([]);
+        expect(runFleetRules([devices[1]!], [rule]).results).toEqual([]);
+    });
+
+    test('should report rules that throw without affecting other rules', () => {
+        const failing: IFleetRule = {
+            id: 'TEST-FLEET-THROW',
+            metadata: { level: 'error', obu: 'test', owner: 'me' },
+            check: () => {
+                throw new Error('boom');
+            },
+        };
+        const passing: IFleetRule = { ...failing, id: 'TEST-FLEET-OK', check: () => [] };
+
+        const outcome = runFleetRules([device('r1.cfg', 'cisco-ios', 'hostname R1\n')], [failing, passing]);
+
+        expect(outcome.results).toEqual([]);
+        expect(outcome.errors).toEqual([{ ruleId: 'TEST-FLEET-THROW', message: 'boom' }]);
+    });
 });
@@ -0,0 +1,187 @@
+// packages/core/test/fixes.test.ts
+
+import { describe, expect, test } from 'bun:test';
+import { SchemaAwareParser } from '../src/parser/SchemaAwareParser';
+import {
+    applyFixes,
+    formatUnifiedDiff,
+    getFixLineEdits,
+    insertChildFix,
+    replaceNodeFix,
+    deleteNodeFix,
+    getLastDescendantLine,
+} from '../src/fixes';
+import type { RuleFix } from '../src/types/IRule';
+
+const config = [
+    'hostname R1',
+    'interface GigabitEthernet1',
+    ' switchport mode trunk',
+    ' description Uplink',
+    'interface GigabitEthernet2',
+    ' switchport mode access',
+    'ip source-route',
+    '',
+].join('\n');
+
+describe('Fix builders', () => {
+    const parser = new SchemaAwareParser();
+    const nodes = parser.parse(config);
+    const gi1 = nodes.find((n) => n.id === 'interface GigabitEthernet1')!;
+
+    test('getLastDescendantLine should include children', () => {
+        expect(getLastDescendantLine(gi1)).toBe(3);
+    });
+
+    test('insertChildFix should append with child indentation', () => {
+        const fix = insertChildFix(gi1, ['switchport nonegotiate'], 'Add nonegotiate');
+        expect(fix.nodeId).toBe('interface GigabitEthernet1');
+        expect(fix.edits).toEqual([
+            { type: 'insert', afterLine: 3, lines: [' switchport nonegotiate'] },
+        ]);
+    });
+
+    test('replaceNodeFix should keep indentation', () => {
+        const child = gi1.children[0]!;
+        const fix = replaceNodeFix(child, ['switchport mode access'], 'Use access');
+        expect(fix.edits).toEqual([
+            { type: 'replace', startLine: 2, endLine: 2, lines: [' switchport mode access'] },
+        ]);
+    });
+
+    test('deleteNodeFix should cover descendants', () => {
+        const fix = deleteNodeFix(gi1, 'Remove interface');
+        expect(fix.edits).toEqual([{ type: 'delete', startLine: 1, endLine: 3 }]);
+    });
+});
+
+describe('applyFixes', () => {
+    const insertFix: RuleFix = {
+        description: 'Add nonegotiate',
+        nodeId: 'interface GigabitEthernet1',
+        loc: { startLine: 1, endLine: 1 },
+        edits: [{ type: 'insert', afterLine: 3, lines: [' switchport nonegotiate'] }],
+    };
+    const replaceFix: RuleFix = {
+        description: 'Disable source routing',
+        nodeId: 'ip source-route',
+        loc: { startLine: 6, endLine: 6 },
+        edits: [{ type: 'replace', startLine: 6, endLine: 6, lines: ['no ip source-route'] }],
+    };
+
+    test('should apply non-overlapping fixes', () => {
+        const result = applyFixes(config, [replaceFix, insertFix]);
+        expect(result.applied).toHaveLength(2);
+        expect(result.skipped).toHaveLength(0);
+        expect(result.content).toBe([
+            'hostname R1',
+            'interface GigabitEthernet1',
+            ' switchport mode trunk',
+            ' description Uplink',
+            ' switchport nonegotiate',
+            'interface GigabitEthernet2',
+            ' switchport mode access',
+            'no ip source-route',
+            '',
+        ].join('\n'));
+    });
+
+    test('should skip fixes that overlap an earlier fix', () => {
+        const conflicting: RuleFix = {
+            ...replaceFix,
+            description: 'Remove source routing',
+            edits: [{ type: 'delete', startLine: 6, endLine: 6 }],
+        };
+        const result = applyFixes(config, [replaceFix, conflicting]);
+        expect(result.applied).toEqual([replaceFix]);
+        expect(result.skipped).toEqual([conflicting]);
+    });
+
+    test('should apply duplicate fixes only once', () => {
+        const result = applyFixes(config, [insertFix, { ...insertFix }]);
+        expect(result.applied).toHaveLength(2);
+        expect(result.edits).toHaveLength(1);
+        expect(result.content.match(/nonegotiate/g)).toHaveLength(1);
+    });
+
+    test('should skip out-of-range fixes', () => {
+        const bad: RuleFix = {
+            ...replaceFix,
+            edits: [{ type: 'delete', startLine: 50, endLine: 52 }],
+        };
+        const result = applyFixes(config, [bad]);
+        expect(result.skipped).toEqual([bad]);
+        expect(result.content).toBe(config);
+    });
+
+    test('should insert at the top of the file', () => {
+        const result = applyFixes('a\nb', [{
+            description: 'Add banner',
+            nodeId: 'a',
+            loc: { startLine: 0, endLine: 0 },
+            edits: [{ type: 'insert', afterLine: -1, lines: ['! header'] }],
+        }]);
+        expect(result.content).toBe('! header\na\nb');
+    });
+
+    test('should preserve CRLF line endings', () => {
+        const crlf = config.replace(/\n/g, '\r\n');
+        const result = applyFixes(crlf, [replaceFix]);
+        expect(result.content).toContain('no ip source-route\r\n');
+        expect(result.content).not.toMatch(/[^\r]\n/);
+    });
+
+    test('getFixLineEdits should normalize to half-open ranges', () => {
+        expect(getFixLineEdits(insertFix)).toEqual([{ startLine: 4, endLine: 4, lines: [' switchport nonegotiate'] }]);
+        expect(getFixLineEdits(replaceFix)).toEqual([{ startLine: 6, endLine: 7, lines: ['no ip source-route'] }]);
+    });
+});
+
+describe('formatUnifiedDiff', () => {
+    test('should return empty string when nothing changed', () => {
+        expect(formatUnifiedDiff(config, [], 'r1.cfg')).toBe('');
+    });
+
+    test('should produce a single merged hunk for nearby edits', () => {
+        const result = applyFixes(config, [
+            {
+                description: 'Add nonegotiate',
+                nodeId: 'interface GigabitEthernet1',
+                loc: { startLine: 1, endLine: 1 },
+                edits: [{ type: 'insert', afterLine: 3, lines: [' switchport nonegotiate'] }],
+            },
+            {
+                description: 'Disable source routing',
+                nodeId: 'ip source-route',
+                loc: { startLine: 6, endLine: 6 },
+                edits: [{ type: 'replace', startLine: 6, endLine: 6, lines: ['no ip source-route'] }],
+            },
+        ]);
+        const diff = formatUnifiedDiff(config, result.edits, 'r1.cfg');
+        expect(diff).toBe([
+            '--- a/r1.cfg',
+            '+++ b/r1.cfg',
+            '@@ -2,6 +2,7 @@',
+            ' interface GigabitEthernet1',
+            '  switchport mode trunk',
+            '  description Uplink',
+            '+ switchport nonegotiate',
+            ' interface GigabitEthernet2',
+            '  switchport mode access',
+            '-ip source-route',
+            '+no ip source-route',
+            '',
+        ].join('\n'));
+    });
+
+    test('should split distant edits into separate hunks', () => {
+        const lines = Array.from({ length: 20 }, (_, i) => `line ${i}`);
+        const original = lines.join('\n');
+        const diff = formatUnifiedDiff(original, [
+            { startLine: 0, endLine: 1, lines: ['first'] },
+            { startLine: 19, endLine: 20, lines: [] },
+        ], 'x.cfg');
+        expect(diff).toContain('@@ -1,4 +1,4 @@');
+        expect(diff).toContain('@@ -17,4 +17,3 @@');
+    });
+});
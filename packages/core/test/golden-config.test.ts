@@ -0,0 +1,251 @@
+// packages/core/test/golden-config.test.ts
+
+import { describe, expect, test } from 'bun:test';
+import { RuleEngine } from '../src/engine/Runner';
+import { SchemaAwareParser } from '../src/parser/SchemaAwareParser';
+import { getVendor } from '../src/parser/vendors';
+import {
+    compareWithGoldenTemplate,
+    findGoldenTemplateErrors,
+    formatGoldenDifference,
+    parseGoldenTemplate,
+} from '../src/golden-config';
+import type { GoldenConfig } from '../src/golden-config';
+import { isJsonGoldenConfigRule, isJsonRuleFile, type JsonGoldenConfigRule } from '../src/json-rules/types';
+import { compileJsonRules } from '../src/json-rules/JsonRuleCompiler';
+import { validateJsonRuleFile } from '../src/json-rules/JsonRuleValidator';
+
+const ACCESS_PORT: GoldenConfig = {
+    template: [
+        'switchport mode access',
+        'switchport access vlan {{vlan}}',
+        '? description {{text}}',
+        'spanning-tree portfast',
+        '* ip helper-address {{helper}}',
+        'no shutdown',
+    ],
+    variables: { vlan: { pattern: '\\d+' }, text: { pattern: '.+' } },
+};
+
+/** Compare the first section of a config, or its first nested section at a depth */
+const compare = (vendorId: string, golden: GoldenConfig, config: string, depth = 0): string[] => {
+    const vendor = getVendor(vendorId);
+    let [section] = new SchemaAwareParser({ vendor }).parse(config);
+    for (let i = 0; i < depth; i++) section = section?.children[0];
+    const template = parseGoldenTemplate(golden, vendor);
+    return compareWithGoldenTemplate(section!, template, vendor).map(formatGoldenDifference);
+};
+
+const goldenRule = (golden: GoldenConfig, overrides: Partial<JsonGoldenConfigRule> = {}): JsonGoldenConfigRule => ({
+    id: 'GOLD-ACCESS-001',
+    selector: 'interface',
+    metadata: { level: 'warning', obu: 'Network', owner: 'NetOps', remediation: 'Apply the access port template.' },
+    golden,
+    ...overrides,
+});
+
+describe('parseGoldenTemplate', () => {
+    test('should read markers, variables and nested lines', () => {
+        const template = parseGoldenTemplate({
+            template: 'router bgp {{asn}}\n neighbor {{peer}} remote-as {{asn}}\n+ address-family ipv4\n  * network {{prefix}}\n',
+        }, getVendor('cisco-ios'));
+
+        expect(template.lines.map((line) => [line.text, line.quantifier])).toEqual([
+            ['router bgp {{asn}}', 'one'],
+        ]);
+        const [neighbor, family] = template.lines[0]?.children ?? [];
+        expect(neighbor?.parts).toEqual(['neighbor ', { variable: 'peer' }, ' remote-as ', { variable: 'asn' }]);
+        expect(family?.quantifier).toBe('some');
+        expect(family?.children.map((line) => [line.text, line.quantifier])).toEqual([['network {{prefix}}', 'any']]);
+    });
+
+    test('should report empty templates and malformed variables', () => {
+        expect(findGoldenTemplateErrors([])).toEqual(['Template has no lines']);
+        expect(findGoldenTemplateErrors(['switchport access vlan {{ 10 }}'])).toEqual([
+            'Line 1: malformed variable, expected {{name}}',
+        ]);
+        expect(() => parseGoldenTemplate({ template: 'x {{' }, getVendor('cisco-ios'))).toThrow('malformed variable');
+        expect(() => parseGoldenTemplate({ template: 'x {{a}}', variables: { a: { pattern: '(' } } }, getVendor('cisco-ios')))
+            .toThrow('variable "a"');
+    });
+});
+
+describe('compareWithGoldenTemplate', () => {
+    test('should accept a conforming section in any order', () => {
+        expect(compare('cisco-ios', ACCESS_PORT, [
+            'interface Gi0/1',
+            ' description Desk  12',
+            ' no shutdown',
+            ' switchport access vlan 10',
+            ' switchport mode access',
+            ' spanning-tree portfast',
+            ' ip helper-address 10.0.0.1',
+            ' ip helper-address 10.0.0.2',
+        ].join('\n'))).toEqual([]);
+    });
+
+    test('should report missing, extra and differing lines', () => {
+        expect(compare('cisco-ios', ACCESS_PORT, [
+            'interface Gi0/2',
+            ' switchport mode trunk',
+            ' switchport access vlan 10',
+            ' shutdown',
+            ' cdp enable',
+        ].join('\n'))).toEqual([
+            '"switchport mode trunk" instead of "switchport mode access"',
+            'missing "spanning-tree portfast"',
+            '"shutdown" instead of "no shutdown"',
+            '"cdp enable" is not in the template',
+        ]);
+    });
+
+    test('should check variable patterns and use the same value for a variable', () => {
+        const golden: GoldenConfig = {
+            template: ['switchport access vlan {{vlan}}', 'switchport voice vlan {{voice}}', 'description VLAN {{vlan}}'],
+            variables: { vlan: { pattern: '\\d+' } },
+        };
+        expect(compare('cisco-ios', golden, [
+            'interface Gi0/3',
+            ' switchport access vlan users',
+            ' switchport voice vlan 20',
+            ' description VLAN 20',
+        ].join('\n'))).toEqual([
+            '"switchport access vlan users" instead of "switchport access vlan 20"',
+        ]);
+        expect(compare('cisco-ios', golden, [
+            'interface Gi0/3',
+            ' switchport access vlan 10',
+            ' switchport voice vlan 20',
+            ' description VLAN 20',
+        ].join('\n'))).toEqual(['"description VLAN 20" instead of "description VLAN 10"']);
+    });
+
+    test('should require repeated lines marked + and accept extra lines when allowed', () => {
+        const golden: GoldenConfig = { template: ['+ ntp server {{server}}'], allowExtra: true };
+        expect(compare('cisco-ios', golden, 'interface Gi0/4\n description x\n')).toEqual(['missing "ntp server {{server}}"']);
+    });
+
+    test('should compare nested sections', () => {
+        const golden: GoldenConfig = {
+            template: 'bgp log-neighbor-changes\naddress-family ipv4\n * neighbor {{peer}} activate\n',
+            allowExtra: false,
+        };
+        expect(compare('cisco-ios', golden, [
+            'router bgp 65000',
+            ' bgp log-neighbor-changes',
+            ' address-family ipv4',
+            '  neighbor 10.0.0.1 activate',
+            '  neighbor 10.0.0.2 route-map IN in',
+        ].join('\n'))).toEqual([
+            'in "address-family ipv4": "neighbor 10.0.0.2 route-map IN in" is not in the template',
+        ]);
+    });
+
+    test('should read the template with the vendor schema', () => {
+        const junos: GoldenConfig = {
+            template: [
+                'description "{{text}}";',
+                'unit 0 {',
+                '    family ethernet-switching {',
+                '        interface-mode access;',
+                '        vlan {',
+                '            members {{vlan}};',
+                '        }',
+                '    }',
+                '}',
+            ],
+            variables: { text: { pattern: '.+' } },
+        };
+        expect(compare('juniper-junos', junos, `ge-0/0/1 {
+    description "desk 1";
+    unit 0 {
+        family ethernet-switching {
+            interface-mode trunk;
+            vlan {
+                members 20;
+            }
+        }
+    }
+}`)).toEqual(['in "unit 0 > family ethernet-switching": "interface-mode trunk" instead of "interface-mode access"']);
+
+        const fortigate: GoldenConfig = { template: 'set vdom "root"\nset allowaccess ping\nset role {{role}}' };
+        expect(compare('fortinet-fortigate', fortigate, `config system interface
+    edit "port1"
+        set vdom "root"
+        set allowaccess ping https
+        set role lan
+    next
+end`, 1)).toEqual([
+            '"set allowaccess ping https" instead of "set allowaccess ping"',
+        ]);
+    });
+});
+
+describe('Golden-config JSON rules', () => {
+    test('should be recognized and validated in rule files', () => {
+        const rule = goldenRule(ACCESS_PORT);
+        expect(isJsonGoldenConfigRule(rule)).toBe(true);
+        expect(isJsonGoldenConfigRule({ ...rule, check: { type: 'contains', text: 'x' } })).toBe(false);
+        expect(isJsonRuleFile({ version: '1.0', rules: [rule] })).toBe(true);
+
+        const result = validateJsonRuleFile({
+            version: '1.0',
+            rules: [goldenRule({
+                template: ['ip address {{ip', 'vlan {{id}}'],
+                variables: { id: { pattern: '(a+)+' }, unused: { pattern: '\\d+' } },
+            })],
+        });
+        expect(result.valid).toBe(false);
+        expect(result.errors.map((e) => e.path)).toEqual([
+            '/rules/0/golden/template',
+            '/rules/0/golden/variables/id/pattern',
+        ]);
+        expect(result.warnings.map((w) => w.path)).toContain('/rules/0/golden/variables/unused');
+    });
+
+    test('should fail sections that differ, with the vendor of the run', () => {
+        const rules = compileJsonRules([
+            goldenRule(ACCESS_PORT),
+            goldenRule(ACCESS_PORT, { id: 'GOLD-ACCESS-002', failureMessage: '{nodeId} differs: {differences}' }),
+        ]);
+        const ast = new SchemaAwareParser().parse([
+            'interface Gi0/1',
+            ' switchport mode access',
+            ' switchport access vlan 10',
+            ' spanning-tree portfast',
+            ' no shutdown',
+            'interface Gi0/2',
+            ' switchport mode access',
+            ' switchport access vlan 10',
+            ' no shutdown',
+        ].join('\n'));
+        const results = new RuleEngine().run(ast, rules, { vendorId: 'cisco-ios' });
+
+        expect(results.map((r) => [r.ruleId, r.passed, r.message])).toEqual([
+            ['GOLD-ACCESS-001', true, 'GOLD-ACCESS-001: Matches the golden config'],
+            ['GOLD-ACCESS-002', true, 'GOLD-ACCESS-002: Matches the golden config'],
+            ['GOLD-ACCESS-001', false, 'Differs from the golden config: missing "spanning-tree portfast".'],
+            ['GOLD-ACCESS-002', false, 'interface Gi0/2 differs: missing "spanning-tree portfast"'],
+        ]);
+        expect(results[2]?.level).toBe('warning');
+        expect(results[2]?.remediation).toBe('Apply the access port template.');
+    });
+
+    test('should report each difference at its line', () => {
+        const ast = new SchemaAwareParser().parse([
+            'interface Gi0/3',
+            ' switchport mode trunk',
+            ' switchport access vlan 10',
+            ' no shutdown',
+            ' cdp enable',
+        ].join('\n'));
+        const results = new RuleEngine().run(ast, compileJsonRules([goldenRule(ACCESS_PORT)]), { vendorId: 'cisco-ios' });
+
+        expect(results.map((r) => [r.nodeId, r.loc?.startLine, r.message])).toEqual([
+            ['switchport mode trunk', 1, 'Differs from the golden config: "switchport mode trunk" instead of "switchport mode access".'],
+            ['interface Gi0/3', 0, 'Differs from the golden config: missing "spanning-tree portfast".'],
+            ['cdp enable', 4, 'Differs from the golden config: "cdp enable" is not in the template.'],
+        ]);
+        expect(results[0]?.path).toBe('interface Gi0/3 > switchport mode trunk');
+    });
+});
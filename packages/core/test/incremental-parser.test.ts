@@ -107,6 +107,31 @@ interface GigabitEthernet0/1
       expect(ast2.length).toBe(2); // Two interface sections
     });
 
+    test('should recompute node paths after incremental updates', () => {
+      const content1 = `
+interface GigabitEthernet0/0
+ description Uplink
+!
+interface GigabitEthernet0/0
+ description Duplicate
+`;
+      const content2 = `
+interface GigabitEthernet0/0
+ description Uplink
+!
+interface GigabitEthernet0/0
+ description Duplicate Modified
+`;
+      parser.parse('doc1', content1, 1);
+      const ast2 = parser.parse('doc1', content2, 2);
+
+      expect(parser.getLastStats()?.fullParse).toBe(false);
+      expect(ast2[1]?.path).toBe('interface GigabitEthernet0/0#2');
+      expect(ast2[1]?.children[0]?.path).toBe(
+        'interface GigabitEthernet0/0#2 > description Duplicate Modified'
+      );
+    });
+
     test('should fall back to full parse for large changes', () => {
       const content1 = `
 interface GigabitEthernet0/0
@@ -133,6 +133,21 @@ describe('JSON Rules - Type Guards', () => {
             })).toBe(true);
         });
 
+        test('accepts presence checks', () => {
+            expect(isJsonCheck({ type: 'required', selector: 'service password-encryption' })).toBe(true);
+            expect(isJsonCheck({ type: 'forbidden', selector: 'ip http server' })).toBe(true);
+            expect(isJsonCheck({ type: 'count', selector: 'ntp server', min: 2 })).toBe(true);
+            expect(isJsonCheck({ type: 'count', selector: 'ntp server', min: 2, max: 4 })).toBe(true);
+        });
+
+        test('rejects count checks without valid bounds', () => {
+            expect(isJsonCheck({ type: 'count', selector: 'ntp server' })).toBe(false);
+            expect(isJsonCheck({ type: 'count', selector: 'ntp server', min: -1 })).toBe(false);
+            expect(isJsonCheck({ type: 'count', selector: 'ntp server', max: 1.5 })).toBe(false);
+            expect(isJsonCheck({ type: 'count', selector: 'ntp server', min: 3, max: 2 })).toBe(false);
+            expect(isJsonCheck({ type: 'count', selector: 'ntp server', min: 2, max: 2 })).toBe(true);
+        });
+
         test('rejects invalid check types', () => {
             expect(isJsonCheck({ type: 'invalid' })).toBe(false);
             expect(isJsonCheck({ type: 'match' })).toBe(false); // missing pattern
@@ -636,6 +651,80 @@ interface GigabitEthernet1
         });
     });
 
+    describe('document rules', () => {
+        const config = [
+            'hostname R1',
+            'service timestamps log datetime msec',
+            'ntp server 10.0.0.1',
+            'line vty 0 4',
+            ' transport input telnet',
+        ].join('\n');
+
+        const documentRule = (id: string, check: JsonCheck): JsonRule => ({
+            id,
+            scope: 'document',
+            metadata: { level: 'warning', obu: 'Net', owner: 'Me' },
+            check
+        });
+
+        const run = (check: JsonCheck) =>
+            new RuleEngine().run(parser.parse(config), [compileJsonRule(documentRule('TEST-DOC', check))]);
+
+        test('reports a missing line at the last related line', () => {
+            const results = run({ type: 'required', selector: 'service password-encryption' });
+
+            expect(results).toHaveLength(1);
+            expect(results[0]?.passed).toBe(false);
+            expect(results[0]?.nodeId).toBe('service timestamps log datetime msec');
+            expect(results[0]?.loc?.startLine).toBe(1);
+        });
+
+        test('reports a missing line at the first line without related lines', () => {
+            const results = run({ type: 'required', selector: 'banner login' });
+
+            expect(results[0]?.passed).toBe(false);
+            expect(results[0]?.nodeId).toBe('hostname R1');
+        });
+
+        test('reports a forbidden line where it is configured', () => {
+            const results = run({ type: 'forbidden', selector: 'line vty > transport input telnet' });
+
+            expect(results[0]?.passed).toBe(false);
+            expect(results[0]?.nodeId).toBe('transport input telnet');
+            expect(results[0]?.loc?.startLine).toBe(4);
+        });
+
+        test('reports every forbidden line', () => {
+            const results = new RuleEngine().run(
+                parser.parse('ip http server\nhostname R1\nip http secure-server\n'),
+                [compileJsonRule(documentRule('TEST-DOC', { type: 'forbidden', selector: 'ip http' }))]
+            );
+            expect(results.map((r) => [r.passed, r.nodeId])).toEqual([
+                [false, 'ip http server'],
+                [false, 'ip http secure-server'],
+            ]);
+        });
+
+        test('checks the number of matching lines', () => {
+            expect(run({ type: 'count', selector: 'ntp server', min: 1, max: 3 })[0]?.passed).toBe(true);
+
+            const results = run({ type: 'count', selector: 'ntp server', min: 2 });
+            expect(results[0]?.passed).toBe(false);
+            expect(results[0]?.nodeId).toBe('ntp server 10.0.0.1');
+        });
+
+        test('passes when present and runs on empty files', () => {
+            expect(run({ type: 'required', selector: 'hostname' })[0]?.passed).toBe(true);
+
+            const results = new RuleEngine().run([], [
+                compileJsonRule(documentRule('TEST-DOC', { type: 'required', selector: 'hostname' }))
+            ]);
+            expect(results).toHaveLength(1);
+            expect(results[0]?.passed).toBe(false);
+            expect(results[0]?.nodeId).toBe('document');
+        });
+    });
+
     describe('compileJsonRules', () => {
         test('compiles multiple rules', () => {
             const jsonRules: JsonRule[] = [
@@ -798,6 +887,48 @@ describe('JSON Rules - Validator', () => {
         });
     });
 
+    describe('presence checks', () => {
+        const file = (rule: Partial<JsonRule>): JsonRuleFile => ({
+            version: '1.0',
+            rules: [{
+                id: 'TEST-001',
+                scope: 'document',
+                metadata: { level: 'warning', obu: 'Net', owner: 'Me', description: 'Test rule', remediation: 'Fix it' },
+                check: { type: 'required', selector: 'hostname' },
+                ...rule
+            }]
+        });
+
+        test('validates document rules', () => {
+            const result = validateJsonRuleFile(file({}));
+            expect(result.valid).toBe(true);
+            expect(result.warnings).toHaveLength(0);
+        });
+
+        test('warns about selectors of document rules', () => {
+            const result = validateJsonRuleFile(file({ selector: 'interface' }));
+            expect(result.valid).toBe(true);
+            expect(result.warnings.map(w => w.path)).toEqual(['/rules/0/selector']);
+        });
+
+        test('rejects count checks with min greater than max', () => {
+            const result = validateJsonRuleFile(file({ check: { type: 'count', selector: 'ntp server', min: 3, max: 2 } }));
+            expect(result.valid).toBe(false);
+            expect(result.errors.map(e => e.path)).toEqual(['', '/rules/0/check/min']);
+            expect(result.errors[1]?.message).toContain('min (3) is greater than max (2)');
+        });
+
+        test('rejects selectors with empty steps', () => {
+            const result = validateJsonRuleFile(file({ check: { type: 'forbidden', selector: 'line vty > ' } }));
+            expect(result.valid).toBe(false);
+            expect(result.errors[0]?.path).toBe('/rules/0/check/selector');
+        });
+
+        test('rejects unknown scopes', () => {
+            expect(isJsonRuleFile(file({ scope: 'file' as JsonRule['scope'] }))).toBe(false);
+        });
+    });
+
     describe('validateJsonRule', () => {
         test('validates single rule', () => {
             const rule: JsonRule = {
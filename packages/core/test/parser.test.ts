@@ -2,6 +2,7 @@
 
 import { describe, expect, test } from 'bun:test';
 import { SchemaAwareParser } from '../src/parser/SchemaAwareParser';
+import { getVendor } from '../src/parser/vendors';
 import type { ConfigNode, NodeType } from '../src/types/ConfigNode';
 
 describe('SchemaAwareParser', () => {
@@ -276,3 +277,64 @@ neighbor 1.1.1.1 remote-as 65001
         expect(routerBgp?.children[2]?.id).toBe('neighbor 1.1.1.1 remote-as 65001');
     });
 });
+
+describe('Node paths', () => {
+    test('should compute hierarchical paths', () => {
+        const config = `
+hostname R1
+router bgp 65000
+ address-family ipv4
+  neighbor 10.0.0.1 activate
+`;
+        const parser = new SchemaAwareParser();
+        const ast = parser.parse(config);
+        const router = ast[1]!;
+        const neighbor = router.children[0]?.children[0];
+
+        // Orphan commands are wrapped in a virtual root, which is not part of the path
+        expect(ast[0]?.type).toBe('virtual_root');
+        expect(ast[0]?.children[0]?.path).toBe('hostname R1');
+        expect(router.path).toBe('router bgp 65000');
+        expect(neighbor?.path).toBe('router bgp 65000 > address-family ipv4 > neighbor 10.0.0.1 activate');
+    });
+
+    test('should disambiguate repeated siblings with an occurrence suffix', () => {
+        const config = `
+interface Gi0/1
+ shutdown
+interface Gi0/1
+ shutdown
+`;
+        const parser = new SchemaAwareParser();
+        const ast = parser.parse(config);
+
+        expect(ast[0]?.path).toBe('interface Gi0/1');
+        expect(ast[1]?.path).toBe('interface Gi0/1#2');
+        expect(ast[1]?.children[0]?.path).toBe('interface Gi0/1#2 > shutdown');
+    });
+
+    test('should not depend on line numbers', () => {
+        const parser = new SchemaAwareParser();
+        const before = parser.parse('interface Gi0/1\n description A\n');
+        const after = parser.parse('hostname R1\n!\n\ninterface Gi0/1\n description A\n');
+
+        expect(before[0]?.children[0]?.path).toBe('interface Gi0/1 > description A');
+        expect(after.at(-1)?.children[0]?.path).toBe('interface Gi0/1 > description A');
+    });
+
+    test('should compute paths for brace-based configs', () => {
+        const parser = new SchemaAwareParser({ vendor: getVendor('juniper-junos') });
+        const ast = parser.parse(`interfaces {
+    ge-0/0/0 {
+        unit 0 {
+            family inet {
+                address 10.0.0.1/24;
+            }
+        }
+    }
+}
+`);
+        const address = ast[0]?.children[0]?.children[0]?.children[0]?.children[0];
+        expect(address?.path).toBe('interfaces > ge-0/0/0 > unit 0 > family inet > address 10.0.0.1/24');
+    });
+});
@@ -0,0 +1,274 @@
+// packages/core/test/policy.test.ts
+
+import { describe, expect, test } from 'bun:test';
+import { RuleEngine } from '../src/engine/Runner';
+import { SchemaAwareParser } from '../src/parser/SchemaAwareParser';
+import { getVendor } from '../src/parser/vendors';
+import { analyzePolicies } from '../src/policy';
+import type { PolicyAnalysis, PolicyFinding } from '../src/policy';
+import { coversMatch, matchOf, parseAddressRange, parsePortRanges } from '../src/policy/match';
+import type { IRule, RuleResult, Context } from '../src/types/IRule';
+import type { ConfigNode } from '../src/types/ConfigNode';
+
+const analyze = (vendorId: string, config: string): PolicyAnalysis => {
+    const parser = new SchemaAwareParser({ vendor: getVendor(vendorId) });
+    return analyzePolicies(parser.parse(config), vendorId);
+};
+
+const describeFindings = (findings: PolicyFinding[]): string[] =>
+    findings.map((f) => `${f.type} ${f.list.name}/${f.rule.name}${f.by ? ` by ${f.by.name}` : ''}`);
+
+describe('Policy matches', () => {
+    test('should compare address prefixes, wildcards and ranges', () => {
+        const net10 = matchOf([parseAddressRange('10.0.0.0/8')!]);
+        const range = matchOf([parseAddressRange('10.1.0.1-10.1.0.9')!]);
+        const v6 = matchOf([parseAddressRange('2001:db8::/32')!]);
+
+        expect(coversMatch(net10, range)).toBe(true);
+        expect(coversMatch(range, net10)).toBe(false);
+        expect(coversMatch(net10, v6)).toBe(false);
+        expect(coversMatch('any', v6)).toBe(true);
+    });
+
+    test('should parse port lists and ranges', () => {
+        expect(parsePortRanges('80,443,8000-8080')).toEqual([[80n, 80n], [443n, 443n], [8000n, 8080n]]);
+        expect(parsePortRanges('https')).toEqual([[443n, 443n]]);
+        expect(parsePortRanges('bogus')).toBeUndefined();
+    });
+
+    test('should compare unresolved objects by name', () => {
+        expect(coversMatch(matchOf([], ['SERVERS']), matchOf([], ['SERVERS']))).toBe(true);
+        expect(coversMatch(matchOf([], ['SERVERS']), matchOf([], ['CLIENTS']))).toBe(false);
+    });
+});
+
+describe('Policy analysis', () => {
+    test('should find shadowed, redundant and overly broad Cisco ACL entries', () => {
+        const analysis = analyze('cisco-ios', `
+ip access-list extended OUTSIDE-IN
+ 10 permit tcp any host 10.0.0.1 eq 443
+ 20 deny tcp any host 10.0.0.1 eq 443
+ 30 permit tcp 10.1.0.0 0.0.255.255 any eq 80
+ 40 permit tcp 10.0.0.0 0.255.255.255 any eq www
+ 50 deny tcp any any eq 22 established
+ 60 permit ip any any
+!
+access-list 10 permit 10.0.0.0 0.255.255.255
+access-list 10 deny host 10.1.1.1
+`);
+
+        expect(analysis.lists.map((l) => `${l.name}:${l.rules.length}`)).toEqual(['OUTSIDE-IN:6', '10:2']);
+        expect(describeFindings(analysis.findings)).toEqual([
+            'shadowed OUTSIDE-IN/20 by 10',
+            'redundant OUTSIDE-IN/30 by 40',
+            'overly-broad OUTSIDE-IN/60',
+            'shadowed 10/2 by 1',
+        ]);
+        expect(analysis.getFindingsAtLine(3).map((f) => f.rule.name)).toEqual(['20']);
+    });
+
+    test('should not let entries with unmodeled conditions shadow others', () => {
+        const analysis = analyze('cisco-ios', `
+ip access-list extended EST
+ 10 permit tcp any any established
+ 20 deny tcp any any
+`);
+        expect(analysis.findings).toEqual([]);
+    });
+
+    test('should analyze Junos firewall filter terms', () => {
+        const analysis = analyze('juniper-junos', `
+firewall {
+    family inet {
+        filter PROTECT-RE {
+            term allow-mgmt {
+                from {
+                    source-address {
+                        10.0.0.0/8;
+                    }
+                    protocol tcp;
+                    destination-port ssh;
+                }
+                then accept;
+            }
+            term block-lab {
+                from {
+                    source-address {
+                        10.1.0.0/16;
+                    }
+                    protocol tcp;
+                    destination-port 22;
+                }
+                then discard;
+            }
+            term count {
+                then {
+                    count all;
+                    next term;
+                }
+            }
+            term default {
+                then discard;
+            }
+        }
+    }
+}
+`);
+
+        expect(analysis.lists[0]?.rules.map((r) => r.name)).toEqual(['allow-mgmt', 'block-lab', 'default']);
+        expect(describeFindings(analysis.findings)).toEqual(['shadowed PROTECT-RE/block-lab by allow-mgmt']);
+    });
+
+    test('should resolve FortiGate address and service objects', () => {
+        const analysis = analyze('fortinet-fortigate', `
+config firewall address
+    edit "lan"
+        set subnet 192.168.1.0 255.255.255.0
+    next
+    edit "host1"
+        set subnet 192.168.1.10 255.255.255.255
+    next
+end
+config firewall service custom
+    edit "web"
+        set tcp-portrange 80 443
+    next
+end
+config firewall policy
+    edit 1
+        set srcintf "port1"
+        set dstintf "wan1"
+        set srcaddr "lan"
+        set dstaddr "all"
+        set action accept
+        set schedule "always"
+        set service "web"
+    next
+    edit 2
+        set srcintf "port1"
+        set dstintf "wan1"
+        set srcaddr "host1"
+        set dstaddr "all"
+        set action deny
+        set schedule "always"
+        set service "HTTPS"
+    next
+    edit 3
+        set srcintf "port1"
+        set dstintf "wan1"
+        set srcaddr "host1"
+        set dstaddr "all"
+        set action deny
+        set schedule "always"
+        set service "HTTPS"
+        set status disable
+    next
+end
+`);
+
+        // HTTPS is a predefined service the configuration does not define: compared by name
+        expect(analysis.lists[0]?.rules.map((r) => r.name)).toEqual(['1', '2']);
+        expect(describeFindings(analysis.findings)).toEqual([]);
+
+        const shadowing = analyze('fortinet-fortigate', `
+config firewall policy
+    edit 1
+        set srcintf "port1"
+        set dstintf "wan1"
+        set srcaddr "all"
+        set dstaddr "all"
+        set action accept
+        set schedule "always"
+        set service "ALL"
+    next
+    edit 2
+        set srcintf "port1"
+        set dstintf "wan1"
+        set srcaddr "all"
+        set dstaddr "all"
+        set action deny
+        set schedule "always"
+        set service "ALL"
+    next
+end
+`);
+        expect(describeFindings(shadowing.findings)).toEqual([
+            'overly-broad firewall policy/1',
+            'shadowed firewall policy/2 by 1',
+        ]);
+    });
+
+    test('should resolve PAN-OS objects and groups in security rules', () => {
+        const analysis = analyze('paloalto-panos', [
+            'set address web1 ip-netmask 10.0.0.1/32',
+            'set address web2 ip-netmask 10.0.0.2/32',
+            'set address-group web static [ web1 web2 ]',
+            'set service tcp-443 protocol tcp port 443',
+            'set rulebase security rules allow-web from untrust to dmz source any destination web application any service tcp-443 action allow',
+            'set rulebase security rules allow-web1 from untrust to dmz source any destination web1 application any service service-https action allow',
+            'set rulebase security rules deny-web2 from untrust to dmz source any destination web2 application ssl service tcp-443 action deny',
+            'set rulebase security rules old from untrust to dmz source any destination web2 application any service any action deny disabled yes',
+        ].join('\n'));
+
+        expect(analysis.lists[0]?.rules.map((r) => r.name)).toEqual(['allow-web', 'allow-web1', 'deny-web2']);
+        expect(describeFindings(analysis.findings)).toEqual([
+            'redundant rulebase security/allow-web1 by allow-web',
+            'shadowed rulebase security/deny-web2 by allow-web',
+        ]);
+        expect(analysis.getFindingsAtLine(5)).toHaveLength(1);
+    });
+
+    test('should order VyOS rules by number', () => {
+        const analysis = analyze('vyos', [
+            'set firewall ipv4 name WAN-IN rule 20 action drop',
+            'set firewall ipv4 name WAN-IN rule 20 source address 203.0.113.0/24',
+            'set firewall ipv4 name WAN-IN rule 10 action accept',
+            'set firewall ipv4 name WAN-IN rule 10 source address 203.0.113.0/25',
+            'set firewall ipv4 name WAN-IN rule 5 action accept',
+            'set firewall ipv4 name WAN-IN rule 5 state established',
+            'set firewall ipv4 name WAN-IN rule 30 action accept',
+            'set firewall ipv4 name WAN-IN rule 30 protocol all',
+        ].join('\n'));
+
+        expect(analysis.lists.map((l) => l.name)).toEqual(['ipv4 name WAN-IN']);
+        expect(analysis.lists[0]?.rules.map((r) => r.name)).toEqual(['5', '10', '20', '30']);
+        expect(describeFindings(analysis.findings)).toEqual(['overly-broad ipv4 name WAN-IN/30']);
+    });
+
+    test('should return an empty analysis for vendors without an extractor', () => {
+        const analysis = analyze('huawei-vrp', 'acl number 3000\n rule 5 permit ip\n');
+        expect(analysis.lists).toEqual([]);
+        expect(analysis.findings).toEqual([]);
+    });
+});
+
+describe('Context.getPolicyAnalysis', () => {
+    const parser = new SchemaAwareParser();
+    const config = 'ip access-list extended WEB\n permit ip any any\ninterface Gi0/1\n ip access-group WEB in\ninterface Gi0/2\n';
+
+    const collectingRule = (seen: (PolicyAnalysis | undefined)[]): IRule => ({
+        id: 'TEST-POLICY',
+        selector: 'interface',
+        metadata: { level: 'info', obu: 'test', owner: 'me' },
+        check: (node: ConfigNode, ctx: Context): RuleResult => {
+            seen.push(ctx.getPolicyAnalysis?.());
+            return { passed: true, message: 'ok', ruleId: 'TEST-POLICY', nodeId: node.id, level: 'info' };
+        },
+    });
+
+    test('should build the analysis once per run when the vendor is known', () => {
+        const seen: (PolicyAnalysis | undefined)[] = [];
+        new RuleEngine().run(parser.parse(config), [collectingRule(seen)], { vendorId: 'cisco-ios' });
+
+        expect(seen).toHaveLength(2);
+        expect(seen[0]).toBe(seen[1]);
+        expect(describeFindings(seen[0]?.findings ?? [])).toEqual(['overly-broad WEB/1']);
+    });
+
+    test('should not provide an analysis without a vendor', () => {
+        const seen: (PolicyAnalysis | undefined)[] = [];
+        new RuleEngine().run(parser.parse(config), [collectingRule(seen)]);
+
+        expect(seen).toEqual([undefined, undefined]);
+    });
+});
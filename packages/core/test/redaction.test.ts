@@ -0,0 +1,164 @@
+// packages/core/test/redaction.test.ts
+
+import { describe, expect, test } from 'bun:test';
+import { getVendor } from '../src/parser/vendors';
+import { findSecrets, SecretRedactor } from '../src/redaction';
+import type { RuleResult } from '../src/types/IRule';
+
+const secretsOf = (vendorId: string, line: string): string[] =>
+    findSecrets(line, getVendor(vendorId)).map((s) => `${s.kind}:${s.type ?? ''}:${s.value}`);
+
+describe('findSecrets', () => {
+    test('should find Cisco-style passwords, keys and communities', () => {
+        expect(secretsOf('cisco-ios', 'enable secret 9 $9$abc$def')).toEqual(['password:9:$9$abc$def']);
+        expect(secretsOf('cisco-ios', 'username admin privilege 15 password 7 0822455D0A16')).toEqual([
+            'password:7:0822455D0A16',
+        ]);
+        expect(secretsOf('cisco-ios', 'snmp-server community public RO 10')).toEqual(['community::public']);
+        expect(secretsOf('cisco-ios', 'tacacs-server host 10.0.0.1 key 7 045802150C2E')).toEqual(['key:7:045802150C2E']);
+        expect(secretsOf('cisco-ios', 'crypto isakmp key s3cret address 192.0.2.1')).toEqual(['key::s3cret']);
+        expect(secretsOf('arista-eos', 'username admin role network-admin secret sha512 $6$salt$hash')).toEqual([
+            'password:sha512:$6$salt$hash',
+        ]);
+    });
+
+    test('should not take key chain numbers or command words for secrets', () => {
+        expect(secretsOf('cisco-ios', ' key 1')).toEqual([]);
+        expect(secretsOf('cisco-ios', 'snmp-server host 10.0.0.1 version 3 priv admin')).toEqual([]);
+        expect(secretsOf('cisco-ios', 'service password-encryption')).toEqual([]);
+    });
+
+    test('should find secrets of brace and set configurations without quotes', () => {
+        expect(secretsOf('juniper-junos', '    encrypted-password "$6$abc"; ## SECRET-DATA')).toEqual([
+            'password::$6$abc',
+        ]);
+        expect(secretsOf('juniper-junos', 'set system radius-server 10.0.0.1 secret "$9$xyz"')).toEqual(['key::$9$xyz']);
+        expect(secretsOf('juniper-junos', '    community public {')).toEqual(['community::public']);
+        expect(secretsOf('paloalto-panos', 'set mgt-config users admin phash $1$abc')).toEqual(['password::$1$abc']);
+        expect(secretsOf('vyos', "set system login user vyos authentication encrypted-password '$6$x'")).toEqual([
+            'password::$6$x',
+        ]);
+    });
+
+    test('should find FortiGate ENC secrets and MikroTik properties', () => {
+        expect(secretsOf('fortinet-fortigate', '        set psksecret ENC AbCd==')).toEqual(['key:ENC:AbCd==']);
+        expect(secretsOf('fortinet-fortigate', '        set password ENC SH2abc')).toEqual(['password:ENC:SH2abc']);
+        expect(secretsOf('mikrotik-routeros', '/user add name=admin password=pass123 group=full')).toEqual([
+            'password::pass123',
+        ]);
+    });
+});
+
+describe('SecretRedactor', () => {
+    const cisco = getVendor('cisco-ios');
+
+    test('should map the same secret to the same placeholder', () => {
+        const redactor = new SecretRedactor();
+        const { content, redacted } = redactor.redactConfig(
+            [
+                'enable secret 5 $1$abc',
+                'username admin secret 5 $1$abc',
+                'snmp-server community public RO',
+                'snmp-server host 10.0.0.1 version 2c public',
+                'snmp-server community private RW',
+            ].join('\n'),
+            cisco
+        );
+
+        expect(content).toBe(
+            [
+                'enable secret 5 REDACTED-PASSWORD-1',
+                'username admin secret 5 REDACTED-PASSWORD-1',
+                'snmp-server community REDACTED-COMMUNITY-1 RO',
+                'snmp-server host 10.0.0.1 version 2c REDACTED-COMMUNITY-1',
+                'snmp-server community REDACTED-COMMUNITY-2 RW',
+            ].join('\n')
+        );
+        expect(redacted).toBe(5);
+        expect(redactor.size).toBe(3);
+    });
+
+    test('should keep quotes and CRLF line endings', () => {
+        const redactor = new SecretRedactor();
+        const config = 'system {\r\n    root-authentication {\r\n        encrypted-password "$6$abc";\r\n    }\r\n}\r\n';
+
+        expect(redactor.redactConfig(config, getVendor('juniper-junos')).content).toBe(
+            'system {\r\n    root-authentication {\r\n        encrypted-password "REDACTED-PASSWORD-1";\r\n    }\r\n}\r\n'
+        );
+    });
+
+    test('should leave redacted configurations unchanged', () => {
+        const redactor = new SecretRedactor();
+        const once = redactor.redactConfig('enable secret 5 $1$abc\nsnmp-server community public RO\n', cisco).content;
+
+        expect(new SecretRedactor().redactConfig(once, cisco)).toEqual({ content: once, redacted: 0 });
+    });
+
+    test('should redact node IDs and messages of rule results', () => {
+        const result: RuleResult = {
+            passed: false,
+            message: "SNMP community 'public' is a default community (not in publicity)",
+            ruleId: 'TEST-SNMP',
+            nodeId: 'snmp-server community public RO',
+            level: 'warning',
+        };
+        const [redacted] = new SecretRedactor().redactResults([result], cisco);
+
+        expect(redacted?.nodeId).toBe('snmp-server community REDACTED-COMMUNITY-1 RO');
+        expect(redacted?.message).toBe(
+            "SNMP community 'REDACTED-COMMUNITY-1' is a default community (not in publicity)"
+        );
+        expect(result.nodeId).toBe('snmp-server community public RO');
+    });
+
+    test('should redact every segment of result paths', () => {
+        const results: RuleResult[] = [
+            {
+                passed: false,
+                message: 'Default community',
+                ruleId: 'TEST-SNMP',
+                nodeId: 'snmp-server community public RO',
+                level: 'warning',
+                path: 'snmp-server community public RO#2',
+            },
+            {
+                passed: false,
+                message: 'Weak password',
+                ruleId: 'TEST-USER',
+                nodeId: 'username admin password 7 0822455D0A16',
+                level: 'warning',
+                path: 'username admin password 7 0822455D0A16',
+            },
+            {
+                passed: false,
+                message: 'No timeout',
+                ruleId: 'TEST-LINE',
+                nodeId: 'exec-timeout 0 0',
+                level: 'warning',
+                path: 'line vty 0 4 > password cisco > exec-timeout 0 0',
+            },
+        ];
+        const redacted = new SecretRedactor().redactResults(results, cisco);
+
+        expect(redacted.map((r) => r.path)).toEqual([
+            'snmp-server community REDACTED-COMMUNITY-1 RO#2',
+            'username admin password 7 REDACTED-PASSWORD-1',
+            'line vty 0 4 > password REDACTED-PASSWORD-2 > exec-timeout 0 0',
+        ]);
+        expect(results[0]?.path).toBe('snmp-server community public RO#2');
+    });
+
+    test('should not scan messages with configuration patterns', () => {
+        const result: RuleResult = {
+            passed: false,
+            message: 'Enable password is configured',
+            ruleId: 'TEST-ENABLE',
+            nodeId: 'enable password cisco123',
+            level: 'warning',
+        };
+        const [redacted] = new SecretRedactor().redactResults([result], cisco);
+
+        expect(redacted?.message).toBe('Enable password is configured');
+        expect(redacted?.nodeId).toBe('enable password REDACTED-PASSWORD-1');
+    });
+});
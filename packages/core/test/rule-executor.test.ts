@@ -47,9 +47,10 @@ describe('RuleExecutor', () => {
       };
 
       const node = createNode('interface GigabitEthernet0/0');
-      const result = executor.execute(rule, node, createContext());
+      const results = executor.execute(rule, node, createContext());
+      const result = results?.[0];
 
-      expect(result).not.toBeNull();
+      expect(results).toHaveLength(1);
       expect(result?.passed).toBe(true);
     });
 
@@ -68,13 +69,37 @@ describe('RuleExecutor', () => {
       };
 
       const node = createNode('interface GigabitEthernet0/0');
-      const result = executor.execute(rule, node, createContext());
+      const results = executor.execute(rule, node, createContext());
+      const result = results?.[0];
 
-      expect(result).not.toBeNull();
+      expect(results).toHaveLength(1);
       expect(result?.passed).toBe(false);
       expect(result?.message).toBe('Missing description');
     });
 
+    test('should return every result of a rule', () => {
+      const rule: IRule = {
+        id: 'TEST-MULTI',
+        selector: 'interface',
+        metadata: { level: 'warning', obu: 'test', owner: 'test' },
+        check: (node) => node.children.map((child) => ({
+          passed: false,
+          message: `Bad line: ${child.id}`,
+          ruleId: 'TEST-MULTI',
+          nodeId: child.id,
+          level: 'warning' as const,
+          loc: child.loc,
+        })),
+      };
+
+      const node = createNode('interface GigabitEthernet0/0');
+      node.children.push(createNode('shutdown'), createNode('no cdp enable'));
+      const results = executor.execute(rule, node, createContext());
+
+      expect(results?.map((r) => r.nodeId)).toEqual(['shutdown', 'no cdp enable']);
+      expect(executor.execute({ ...rule, check: () => [] }, node, createContext())).toEqual([]);
+    });
+
     test('should handle rule exceptions gracefully', () => {
       const rule: IRule = {
         id: 'TEST-CRASH',
@@ -86,9 +111,10 @@ describe('RuleExecutor', () => {
       };
 
       const node = createNode('interface GigabitEthernet0/0');
-      const result = executor.execute(rule, node, createContext());
+      const results = executor.execute(rule, node, createContext());
+      const result = results?.[0];
 
-      expect(result).not.toBeNull();
+      expect(results).toHaveLength(1);
       expect(result?.passed).toBe(false);
       // SEC-005: Error message is now sanitized to prevent information disclosure
       // It should contain the rule ID but not the internal error details
@@ -0,0 +1,256 @@
+// packages/core/test/suppressions.test.ts
+
+import { describe, expect, test } from 'bun:test';
+import {
+    SUPPRESSION_FILE_VERSION,
+    SUPPRESSION_RULE_IDS,
+    SUPPRESSION_RULES,
+    applyInlineSuppressions,
+    applySuppressionFile,
+    isSuppressionFinding,
+    isSuppressionExpired,
+    lineContentHash,
+    matchesSuppressionGlob,
+    parseInlineSuppressions,
+    parseSuppressionFile,
+    serializeSuppressionFile,
+} from '../src/suppressions';
+import { SentriflowConfigError } from '../src/errors';
+import { getVendor } from '../src/parser/vendors';
+import type { RuleResult } from '../src/types/IRule';
+import type { SuppressionEntry } from '../src/types/Suppression';
+
+const finding = (ruleId: string, line: number): RuleResult => ({
+    ruleId,
+    nodeId: `line ${line}`,
+    passed: false,
+    message: `${ruleId} failed`,
+    level: 'warning',
+    loc: { startLine: line, endLine: line },
+});
+
+const ios = getVendor('cisco-ios');
+const now = new Date('2026-03-15T12:00:00Z');
+
+describe('Inline suppressions', () => {
+    test('should parse directives in vendor comment lines', () => {
+        const config = [
+            'hostname R1',
+            '! sentriflow-disable-next-line NET-SNMP-004, NET-SNMP-002 reason="lab community" expires=2026-06-30',
+            '!',
+            'snmp-server community lab RW',
+            '! sentriflow-disable-file NET-SEC-001',
+            'description sentriflow-disable-file is not a comment here',
+        ].join('\n');
+
+        const { suppressions, invalid } = parseInlineSuppressions(config, ios);
+        expect(invalid).toEqual([]);
+        expect(suppressions).toEqual([
+            {
+                scope: 'next-line',
+                ruleIds: ['NET-SNMP-004', 'NET-SNMP-002'],
+                line: 1,
+                targetLine: 3,
+                reason: 'lab community',
+                expires: '2026-06-30',
+            },
+            { scope: 'file', ruleIds: ['NET-SEC-001'], line: 4 },
+        ]);
+    });
+
+    test('should use the comment syntax of the vendor', () => {
+        const junos = getVendor('juniper-junos');
+        const config = [
+            '/* sentriflow-disable-next-line JUN-SSH-001 */',
+            'set system services telnet',
+            '! sentriflow-disable-file JUN-SSH-002',
+        ].join('\n');
+
+        const { suppressions } = parseInlineSuppressions(config, junos);
+        expect(suppressions).toEqual([
+            { scope: 'next-line', ruleIds: ['JUN-SSH-001'], line: 0, targetLine: 1 },
+        ]);
+    });
+
+    test('should report malformed directives as invalid', () => {
+        const config = [
+            '! sentriflow-disable-next-line net-snmp-004',
+            '! sentriflow-disable-next-line NET-SNMP-004 expires=2026-02-30',
+            '! sentriflow-disable-file NET-SNMP-004 owner=netops',
+            '! sentriflow-disable-range NET-SNMP-004',
+        ].join('\n');
+
+        const { suppressions, invalid } = parseInlineSuppressions(config, ios);
+        expect(suppressions).toEqual([]);
+        expect(invalid.map((i) => i.line)).toEqual([0, 1, 2, 3]);
+        expect(invalid[1]!.message).toContain("Invalid expiry date '2026-02-30'");
+    });
+
+    test('should suppress matching findings on the next line and in the file', () => {
+        const config = [
+            '! sentriflow-disable-file NET-SEC-001',
+            'enable password cisco',
+            '! sentriflow-disable-next-line NET-SNMP-004',
+            'snmp-server community lab RW',
+            'snmp-server community ops RW',
+        ].join('\n');
+        const results = [
+            finding('NET-SEC-001', 1),
+            finding('NET-SNMP-004', 3),
+            finding('NET-SNMP-004', 4),
+            finding('NET-AAA-003', 1),
+            { ...finding('NET-SNMP-004', 3), passed: true },
+        ];
+
+        const outcome = applyInlineSuppressions(results, config, ios, { now });
+        expect(outcome.suppressed).toEqual([results[0]!, results[1]!]);
+        expect(outcome.results).toEqual([results[2]!, results[3]!, results[4]!]);
+        expect(outcome.unused).toEqual([]);
+        expect(outcome.expired).toEqual([]);
+    });
+
+    test('should suppress every rule without rule IDs', () => {
+        const config = '! sentriflow-disable-next-line\nsnmp-server community lab RW\n';
+        const outcome = applyInlineSuppressions(
+            [finding('NET-SNMP-002', 1), finding('NET-SNMP-004', 1)],
+            config,
+            ios,
+            { now }
+        );
+        expect(outcome.suppressed).toHaveLength(2);
+        expect(outcome.results).toEqual([]);
+    });
+
+    test('should report unused, expired and invalid directives', () => {
+        const config = [
+            '! sentriflow-disable-next-line NET-SNMP-004 expires=2026-03-14',
+            'snmp-server community lab RW',
+            '! sentriflow-disable-next-line NET-SNMP-002 expires=2026-03-15',
+            'snmp-server community public RO',
+            '! sentriflow-disable-file NET-MGMT-005',
+            '! sentriflow-disable-file net-mgmt-005',
+        ].join('\n');
+        const results = [finding('NET-SNMP-004', 1), finding('NET-SNMP-002', 3)];
+
+        const outcome = applyInlineSuppressions(results, config, ios, { now });
+        // Expired directives no longer suppress; directives expiring today still do
+        expect(outcome.suppressed).toEqual([results[1]!]);
+        expect(outcome.expired.map((s) => s.line)).toEqual([0]);
+        expect(outcome.unused.map((s) => s.line)).toEqual([4]);
+
+        const directiveFindings = outcome.results.filter(isSuppressionFinding);
+        expect(directiveFindings.map((r) => [r.ruleId, r.loc?.startLine, r.level])).toEqual([
+            [SUPPRESSION_RULE_IDS.expired, 0, 'warning'],
+            [SUPPRESSION_RULE_IDS.unused, 4, 'warning'],
+            [SUPPRESSION_RULE_IDS.invalid, 5, 'warning'],
+        ]);
+        expect(directiveFindings[0]!.message).toBe('Suppression of NET-SNMP-004 expired on 2026-03-14');
+
+        const quiet = applyInlineSuppressions(results, config, ios, { now, reportUnused: false });
+        expect(quiet.unused).toEqual([]);
+    });
+
+    test('should describe the directive findings as warning rules', () => {
+        expect(SUPPRESSION_RULES.map((rule) => rule.id)).toEqual(Object.values(SUPPRESSION_RULE_IDS));
+        expect(SUPPRESSION_RULES.every((rule) => rule.metadata.level === 'warning')).toBe(true);
+        expect(isSuppressionFinding(finding(SUPPRESSION_RULE_IDS.invalid, 0))).toBe(true);
+        expect(isSuppressionFinding(finding('NET-SNMP-004', 0))).toBe(false);
+    });
+
+    test('should return the results unchanged without directives', () => {
+        const results = [finding('NET-SNMP-004', 0)];
+        const outcome = applyInlineSuppressions(results, 'snmp-server community lab RW\n', ios);
+        expect(outcome.results).toBe(results);
+        expect(outcome.suppressed).toEqual([]);
+    });
+});
+
+describe('Suppression file', () => {
+    const entry = (overrides: Partial<SuppressionEntry>): SuppressionEntry => ({
+        ruleId: 'NET-SNMP-004',
+        file: 'configs/**/*.cfg',
+        justification: 'Lab community, isolated VLAN',
+        owner: 'netops',
+        ...overrides,
+    });
+
+    test('should parse and serialize a valid file', () => {
+        const file = {
+            version: SUPPRESSION_FILE_VERSION,
+            suppressions: [entry({ contentHash: 'abc123', expires: '2026-06-30', created: '2026-01-15' })],
+        };
+        const text = serializeSuppressionFile(file);
+        expect(text.endsWith('}\n')).toBe(true);
+        expect(parseSuppressionFile(text)).toEqual(file);
+    });
+
+    test('should reject invalid files', () => {
+        const invalid = [
+            'not json',
+            JSON.stringify({ version: 2, suppressions: [] }),
+            JSON.stringify({ version: 1, suppressions: {} }),
+            JSON.stringify({ version: 1, suppressions: [{ ...entry({}), justification: ' ' }] }),
+            JSON.stringify({ version: 1, suppressions: [{ ...entry({}), owner: undefined }] }),
+            JSON.stringify({ version: 1, suppressions: [entry({ ruleId: 'bad id' })] }),
+            JSON.stringify({ version: 1, suppressions: [entry({ expires: '2026-13-01' })] }),
+            JSON.stringify({ version: 1, suppressions: [{ ...entry({}), line: 4 }] }),
+        ];
+        for (const text of invalid) {
+            expect(() => parseSuppressionFile(text)).toThrow(SentriflowConfigError);
+        }
+    });
+
+    test('should match file globs relative to the suppression file', () => {
+        expect(matchesSuppressionGlob('configs/core/r1.cfg', 'configs/**/*.cfg')).toBe(true);
+        expect(matchesSuppressionGlob('configs/r1.cfg', 'configs/**/*.cfg')).toBe(true);
+        expect(matchesSuppressionGlob('configs/core/r1.cfg', 'configs/*.cfg')).toBe(false);
+        expect(matchesSuppressionGlob('r1.cfg', 'r?.cfg')).toBe(true);
+        expect(matchesSuppressionGlob('lab/r1.cfg', 'r1.cfg')).toBe(false);
+    });
+
+    test('should check expiry against the given date', () => {
+        expect(isSuppressionExpired(entry({ expires: '2026-03-14' }), now)).toBe(true);
+        expect(isSuppressionExpired(entry({ expires: '2026-03-15' }), now)).toBe(false);
+        expect(isSuppressionExpired(entry({}), now)).toBe(false);
+    });
+
+    test('should suppress by file, content hash and node path', () => {
+        const content = [
+            'snmp-server community lab RW',
+            'interface GigabitEthernet0/1',
+            ' shutdown',
+        ].join('\n');
+        const results: RuleResult[] = [
+            finding('NET-SNMP-004', 0),
+            { ...finding('NET-IF-001', 2), path: 'interface GigabitEthernet0/1 > shutdown' },
+            { ...finding('NET-IF-001', 2), path: 'interface GigabitEthernet0/2 > shutdown' },
+            finding('NET-AAA-003', 0),
+        ];
+        const entries = [
+            entry({ contentHash: lineContentHash('  snmp-server community lab RW ') }),
+            entry({ ruleId: 'NET-IF-001', nodePath: 'interface GigabitEthernet0/1 > shutdown' }),
+            entry({ ruleId: 'NET-AAA-003', file: 'other/*.cfg' }),
+        ];
+
+        const outcome = applySuppressionFile(results, entries, {
+            filePath: 'configs/core/r1.cfg',
+            content,
+            now,
+        });
+        expect(outcome.suppressed).toEqual([results[0]!, results[1]!]);
+        expect(outcome.results).toEqual([results[2]!, results[3]!]);
+        expect(outcome.expired).toEqual([]);
+    });
+
+    test('should not apply expired entries', () => {
+        const expired = entry({ expires: '2026-01-31' });
+        const results = [finding('NET-SNMP-004', 0)];
+        const outcome = applySuppressionFile(results, [expired, entry({ file: 'lab/*.cfg' })], {
+            filePath: 'configs/r1.cfg',
+            content: 'snmp-server community lab RW',
+            now,
+        });
+        expect(outcome.results).toBe(results);
+        expect(outcome.expired).toEqual([expired]);
+    });
+});
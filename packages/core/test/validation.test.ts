@@ -81,6 +81,21 @@ describe('validateRule', () => {
     const rule = createTestRule({ vendor: ['cisco-ios', 'juniper-junos'] });
     expect(validateRule(rule)).toBeNull();
   });
+
+  it('should accept compound selectors', () => {
+    const rule = createTestRule({ selector: 'router bgp >> neighbor' });
+    expect(validateRule(rule)).toBeNull();
+  });
+
+  it('should accept empty and whitespace-only selectors (global rules)', () => {
+    expect(validateRule(createTestRule({ selector: '' }))).toBeNull();
+    expect(validateRule(createTestRule({ selector: '   ' }))).toBeNull();
+  });
+
+  it('should return error for selector with an empty step', () => {
+    const rule = createTestRule({ selector: ' > shutdown' });
+    expect(validateRule(rule)).toBe('Rule NET-001: selector " > shutdown" has an empty step');
+  });
 });
 
 describe('isValidRule', () => {
@@ -0,0 +1,249 @@
+// packages/core/test/xref.test.ts
+
+import { describe, expect, test } from 'bun:test';
+import { RuleEngine } from '../src/engine/Runner';
+import { SchemaAwareParser } from '../src/parser/SchemaAwareParser';
+import { getVendor } from '../src/parser/vendors';
+import { buildCrossReferenceIndex } from '../src/xref';
+import type { CrossReferenceIndex, XrefSymbol } from '../src/xref';
+import type { IRule, RuleResult, Context } from '../src/types/IRule';
+import type { ConfigNode } from '../src/types/ConfigNode';
+
+const indexOf = (vendorId: string, config: string): CrossReferenceIndex => {
+    const parser = new SchemaAwareParser({ vendor: getVendor(vendorId) });
+    return buildCrossReferenceIndex(parser.parse(config), vendorId);
+};
+
+const names = (symbols: XrefSymbol[]): string[] => symbols.map((s) => `${s.kind}:${s.name}`);
+
+describe('Cross-reference index', () => {
+    test('should index Cisco IOS ACLs, route-maps, prefix-lists and QoS policies', () => {
+        const index = indexOf('cisco-ios', `
+ip access-list extended WEB
+ permit tcp any object-group SERVERS eq 80
+!
+object-group network SERVERS
+ host 10.0.0.1
+!
+access-list 10 permit 10.0.0.0 0.0.0.255
+access-list 10 deny any
+ip prefix-list PL seq 5 permit 10.0.0.0/8
+route-map RM permit 10
+ match ip address prefix-list PL MISSING
+route-map RM permit 20
+class-map match-any VOICE
+ match access-group name WEB
+policy-map QOS
+ class VOICE
+ class class-default
+interface Gi0/1
+ ip access-group WEB in
+ service-policy output QOS
+line vty 0 4
+ access-class 10 in
+router bgp 65000
+ neighbor 1.1.1.1 route-map RM in
+ address-family ipv6
+  neighbor 2001:db8::1 prefix-list V6 in
+ip access-list standard UNUSED
+`);
+
+        expect(names(index.definitions)).toEqual([
+            'acl:WEB', 'object-group:SERVERS', 'acl:10', 'prefix-list:PL', 'route-map:RM',
+            'class-map:VOICE', 'policy-map:QOS', 'acl:UNUSED',
+        ]);
+        expect(index.getDefinition('route-map', 'RM')?.source.loc.startLine).toBe(10);
+        expect(index.getReferences('acl', 'WEB').map((r) => r.source.loc.startLine)).toEqual([14, 19]);
+        expect(names(index.getUndefinedReferences())).toEqual(['prefix-list:MISSING', 'ipv6-prefix-list:V6']);
+        expect(names(index.getUnusedDefinitions())).toEqual(['acl:UNUSED']);
+        expect(names(index.getSymbolsAtLine(24))).toEqual(['route-map:RM']);
+    });
+
+    test('should read feature, crypto and SNMP ACL references on Cisco IOS', () => {
+        const index = indexOf('cisco-ios', `
+ip http access-class ipv4 HTTP
+ip igmp access-group IGMP
+snmp-server group G v3 priv access ipv6 SNMP6
+crypto map CM 10 ipsec-isakmp
+ match address VPN
+`);
+
+        expect(names(index.getUndefinedReferences())).toEqual(['acl:HTTP', 'acl:IGMP', 'ipv6-acl:SNMP6', 'acl:VPN']);
+    });
+
+    test('should index Junos filters, policies and SRX address books', () => {
+        const index = indexOf('juniper-junos', `
+interfaces {
+    ge-0/0/0 {
+        unit 0 {
+            family inet {
+                filter {
+                    input PROTECT;
+                }
+            }
+        }
+    }
+}
+firewall {
+    filter PROTECT {
+        term t1 {
+            from {
+                source-prefix-list MGMT;
+            }
+            then accept;
+        }
+    }
+}
+policy-options {
+    prefix-list MGMT {
+        10.0.0.0/8;
+    }
+    policy-statement EXPORT {
+        term a {
+            from community CUST;
+            then accept;
+        }
+    }
+    community CUST members 65000:1;
+}
+protocols {
+    bgp {
+        group ext {
+            export [ EXPORT MISSING ];
+        }
+    }
+}
+security {
+    zones {
+        security-zone trust {
+            address-book {
+                address web 10.0.0.1/32;
+                address-set webs {
+                    address web;
+                }
+            }
+        }
+    }
+    policies {
+        from-zone trust to-zone trust {
+            policy p1 {
+                match {
+                    source-address webs;
+                    destination-address any;
+                    application junos-http;
+                }
+                then permit;
+            }
+        }
+    }
+}
+`);
+
+        expect(names(index.definitions)).toEqual([
+            'firewall-filter:PROTECT', 'prefix-list:MGMT', 'policy-statement:EXPORT', 'community-list:CUST',
+            'zone:trust', 'address:web', 'address:webs',
+        ]);
+        expect(index.getDefinition('address', 'webs')?.detail).toBe('group');
+        expect(names(index.getUndefinedReferences())).toEqual(['policy-statement:MISSING']);
+        expect(index.getUnusedDefinitions()).toEqual([]);
+    });
+
+    test('should read Junos set-format configurations', () => {
+        const index = indexOf('juniper-junos', [
+            'set policy-options prefix-list MGMT 10.0.0.0/8',
+            'set firewall filter PROTECT term t1 from source-prefix-list MGMT',
+            'set interfaces lo0 unit 0 family inet filter input PROTECT',
+        ].join('\n'));
+
+        expect(index.getReferences('prefix-list', 'MGMT').map((r) => r.source.loc.startLine)).toEqual([1]);
+        expect(index.getReferences('firewall-filter', 'PROTECT').map((r) => r.source.loc.startLine)).toEqual([2]);
+    });
+
+    test('should index FortiGate address objects, groups and routing objects', () => {
+        const index = indexOf('fortinet-fortigate', `
+config firewall address
+    edit "web"
+        set subnet 10.0.0.1 255.255.255.255
+    next
+end
+config firewall addrgrp
+    edit "servers"
+        set member "web" "db"
+    next
+end
+config firewall policy
+    edit 1
+        set dstaddr "servers"
+        set service "HTTPS"
+    next
+end
+config router route-map
+    edit "RM"
+    next
+end
+config router bgp
+    config neighbor
+        edit "10.0.0.2"
+            set route-map-in "RM"
+        next
+    end
+end
+`);
+
+        expect(names(index.definitions)).toEqual(['address:web', 'address:servers', 'route-map:RM']);
+        expect(index.getDefinition('address', 'servers')?.detail).toBe('group');
+        expect(names(index.getUndefinedReferences())).toEqual(['address:db', 'service:HTTPS']);
+        expect(index.getReferences('route-map', 'RM')).toHaveLength(1);
+    });
+
+    test('should index PAN-OS address groups and security rules', () => {
+        const index = indexOf('paloalto-panos', [
+            'set address web ip-netmask 10.0.0.1/32',
+            'set address-group servers static [ web db ]',
+            'set service tcp-8080 protocol tcp port 8080',
+            'set zone trust network layer3 ethernet1/1',
+            'set rulebase security rules allow-web from trust to any source any destination servers service [ application-default tcp-8080 ] action allow',
+        ].join('\n'));
+
+        expect(names(index.definitions)).toEqual(['address:web', 'address:servers', 'service:tcp-8080', 'zone:trust']);
+        expect(names(index.getSymbolsAtLine(4))).toEqual(['zone:trust', 'address:servers', 'service:tcp-8080']);
+        expect(names(index.getUndefinedReferences())).toEqual(['address:db']);
+    });
+
+    test('should return an empty index for vendors without an extractor', () => {
+        const index = indexOf('vyos', 'set policy route-map RM rule 10 action permit\n');
+        expect(index.definitions).toEqual([]);
+        expect(index.references).toEqual([]);
+    });
+});
+
+describe('Context.getCrossReferences', () => {
+    const parser = new SchemaAwareParser();
+    const config = 'ip access-list extended WEB\n permit ip any any\ninterface Gi0/1\n ip access-group WEB in\ninterface Gi0/2\n';
+
+    const collectingRule = (seen: (CrossReferenceIndex | undefined)[]): IRule => ({
+        id: 'TEST-XREF',
+        selector: 'interface',
+        metadata: { level: 'info', obu: 'test', owner: 'me' },
+        check: (node: ConfigNode, ctx: Context): RuleResult => {
+            seen.push(ctx.getCrossReferences?.());
+            return { passed: true, message: 'ok', ruleId: 'TEST-XREF', nodeId: node.id, level: 'info' };
+        },
+    });
+
+    test('should build the index once per run when the vendor is known', () => {
+        const seen: (CrossReferenceIndex | undefined)[] = [];
+        new RuleEngine().run(parser.parse(config), [collectingRule(seen)], { vendorId: 'cisco-ios' });
+
+        expect(seen).toHaveLength(2);
+        expect(seen[0]).toBe(seen[1]);
+        expect(seen[0]?.getReferences('acl', 'WEB')).toHaveLength(1);
+    });
+
+    test('should not provide an index without a vendor', () => {
+        const seen: (CrossReferenceIndex | undefined)[] = [];
+        new RuleEngine().run(parser.parse(config), [collectingRule(seen)]);
+
+        expect(seen).toEqual([undefined, undefined]);
+    });
+});
@@ -0,0 +1,22 @@
+import * as esbuild from 'esbuild';
+import { readFileSync } from 'fs';
+
+const pkg = JSON.parse(readFileSync('./package.json', 'utf-8'));
+
+await esbuild.build({
+  entryPoints: ['./index.ts'],
+  bundle: true,
+  outfile: 'dist/server.js',
+  format: 'esm',
+  platform: 'node',
+  target: 'node18',
+  banner: {
+    js: [
+      '#!/usr/bin/env node',
+      "import { createRequire } from 'module';",
+      'const require = createRequire(import.meta.url);',
+    ].join('\n'),
+  },
+});
+
+console.log(`Built language server v${pkg.version}`);
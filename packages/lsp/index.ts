@@ -0,0 +1,10 @@
+// packages/lsp/index.ts
+// Entry point of `sentriflow-lsp`: transport from the arguments (--stdio, --node-ipc, --socket=<port>),
+// rule packs enabled with --allow-packs
+
+import { ProposedFeatures, createConnection } from 'vscode-languageserver/node';
+import { ALLOW_PACKS_ARG, startServer } from './src/server';
+
+startServer(createConnection(ProposedFeatures.all), {
+  allowPacks: process.argv.includes(ALLOW_PACKS_ARG),
+});
@@ -0,0 +1,157 @@
+// packages/lsp/src/analyzer.ts
+// Incremental parsing and rule evaluation of open documents
+
+import {
+  IncrementalParser,
+  RuleEngine,
+  applyInlineSuppressions,
+  getVendor,
+  isValidVendor,
+} from '@sentriflow/core';
+import type {
+  ConfigNode,
+  IRule,
+  RulePack,
+  RuleResult,
+  VendorSchema,
+} from '@sentriflow/core';
+import { resolveRules } from './rules';
+import { DEFAULT_SETTINGS } from './settings';
+import type { LspSettings } from './settings';
+
+/**
+ * Result of analyzing a document.
+ */
+export interface DocumentAnalysis {
+  /** Document version that was analyzed */
+  version: number;
+  /** Vendor the document was parsed with */
+  vendor: VendorSchema;
+  /** Parsed AST */
+  nodes: ConfigNode[];
+  /** Rule results after inline suppressions */
+  results: RuleResult[];
+}
+
+/**
+ * Parses open documents with an IncrementalParser (one cache entry per URI)
+ * and runs the resolved rules with a RuleEngine. The engine index is rebuilt
+ * only when the settings, packs or document vendor change.
+ */
+export class DocumentAnalyzer {
+  private readonly parser = new IncrementalParser();
+  private readonly engine = new RuleEngine();
+  private readonly analyses = new Map<string, DocumentAnalysis>();
+  private readonly vendorOverrides = new Map<string, string>();
+  private settings: LspSettings = { ...DEFAULT_SETTINGS };
+  private packs: RulePack[] = [];
+  private rulesVersion = 0;
+  private indexKey: string | undefined;
+  // Resolved rules per vendor ID, for the current settings and packs
+  private readonly rulesByVendor = new Map<string, Map<string, IRule>>();
+
+  /**
+   * Applies new settings and packs. Every document is re-parsed on its next
+   * analysis, since the vendor may have changed.
+   */
+  configure(settings: LspSettings, packs: RulePack[]): void {
+    this.settings = settings;
+    this.packs = packs;
+    this.rulesVersion++;
+    this.rulesByVendor.clear();
+    this.parser.clearAll();
+    this.analyses.clear();
+  }
+
+  /** Current settings */
+  getSettings(): LspSettings {
+    return this.settings;
+  }
+
+  /**
+   * Overrides the vendor of one document ('auto' removes the override).
+   *
+   * @throws Error if the vendor ID is unknown
+   */
+  setVendor(uri: string, vendorId: string): void {
+    if (vendorId === 'auto') {
+      this.vendorOverrides.delete(uri);
+    } else if (isValidVendor(vendorId)) {
+      this.vendorOverrides.set(uri, vendorId);
+    } else {
+      throw new Error(`Unknown vendor '${vendorId}'`);
+    }
+    this.parser.invalidate(uri);
+    this.analyses.delete(uri);
+  }
+
+  /**
+   * Analyzes a document, reusing the previous analysis of the same version.
+   *
+   * @param uri Document URI
+   * @param text Document text
+   * @param version Document version (increments on each edit)
+   */
+  analyze(uri: string, text: string, version: number): DocumentAnalysis {
+    const previous = this.analyses.get(uri);
+    if (previous && previous.version === version) {
+      return previous;
+    }
+
+    const nodes = this.parser.parse(uri, text, version, this.resolveVendorOption(uri));
+    // Vendor resolved by the parse (detected when the option is 'auto')
+    const vendor = this.parser.getCachedVendor(uri)!;
+
+    const key = `${this.rulesVersion}:${vendor.id}`;
+    if (key !== this.indexKey) {
+      this.engine.buildIndex([...this.getRules(vendor.id).values()]);
+      this.indexKey = key;
+    }
+
+    let results = this.engine.run(nodes, undefined, { vendorId: vendor.id });
+    if (this.settings.inlineSuppressions) {
+      results = applyInlineSuppressions(results, text, vendor).results;
+    }
+
+    const analysis: DocumentAnalysis = { version, vendor, nodes, results };
+    this.analyses.set(uri, analysis);
+    return analysis;
+  }
+
+  /** Last analysis of a document, if any */
+  get(uri: string): DocumentAnalysis | undefined {
+    return this.analyses.get(uri);
+  }
+
+  /** Active rule by ID for a vendor */
+  getRule(ruleId: string, vendorId: string): IRule | undefined {
+    return this.getRules(vendorId).get(ruleId);
+  }
+
+  /** Forgets a closed document */
+  close(uri: string): void {
+    this.parser.invalidate(uri);
+    this.analyses.delete(uri);
+    this.vendorOverrides.delete(uri);
+  }
+
+  private getRules(vendorId: string): Map<string, IRule> {
+    let rules = this.rulesByVendor.get(vendorId);
+    if (!rules) {
+      rules = new Map(
+        resolveRules(this.settings, this.packs, vendorId).map((rule) => [rule.id, rule])
+      );
+      this.rulesByVendor.set(vendorId, rules);
+    }
+    return rules;
+  }
+
+  /**
+   * Vendor option for parsing: per-document override first, then the
+   * `defaultVendor` setting ('auto' detects the vendor from the content).
+   */
+  private resolveVendorOption(uri: string): VendorSchema | 'auto' {
+    const vendorId = this.vendorOverrides.get(uri) ?? this.settings.defaultVendor;
+    return vendorId !== 'auto' && isValidVendor(vendorId) ? getVendor(vendorId) : 'auto';
+  }
+}
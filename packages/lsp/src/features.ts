@@ -0,0 +1,223 @@
+// packages/lsp/src/features.ts
+// Diagnostics, hovers, suppression code actions and document symbols
+
+import {
+  CodeActionKind,
+  DiagnosticSeverity,
+  MarkupKind,
+  SymbolKind,
+} from 'vscode-languageserver';
+import type {
+  CodeAction,
+  Diagnostic,
+  DocumentSymbol,
+  Hover,
+  Position,
+  Range,
+} from 'vscode-languageserver';
+import type { ConfigNode, IRule, RuleResult, VendorSchema } from '@sentriflow/core';
+
+/** `source` of every diagnostic published by the server */
+export const DIAGNOSTIC_SOURCE = 'sentriflow';
+
+/** Comment prefixes tried, in order, against a vendor's comment patterns */
+const COMMENT_PREFIXES = ['!', '#', '//', ';'];
+
+/**
+ * Maps a rule level to a diagnostic severity.
+ */
+export function mapSeverity(level: RuleResult['level']): DiagnosticSeverity {
+  switch (level) {
+    case 'error':
+      return DiagnosticSeverity.Error;
+    case 'warning':
+      return DiagnosticSeverity.Warning;
+    default:
+      return DiagnosticSeverity.Information;
+  }
+}
+
+/**
+ * Range of a line from its first non-whitespace character to its end.
+ */
+function lineRange(lines: string[], line: number): Range {
+  const text = (lines[line] ?? '').replace(/\r$/, '');
+  const start = text.length - text.trimStart().length;
+  return {
+    start: { line, character: start },
+    end: { line, character: text.length },
+  };
+}
+
+/**
+ * Converts the failed results of a document to diagnostics.
+ *
+ * @param results Rule results of the document
+ * @param lines Document text split on '\n'
+ */
+export function toDiagnostics(results: RuleResult[], lines: string[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  for (const result of results) {
+    if (result.passed || !result.loc) continue;
+    if (result.loc.startLine < 0 || result.loc.startLine >= lines.length) continue;
+
+    diagnostics.push({
+      range: lineRange(lines, result.loc.startLine),
+      severity: mapSeverity(result.level),
+      code: result.ruleId,
+      source: DIAGNOSTIC_SOURCE,
+      message: result.message,
+    });
+  }
+  return diagnostics;
+}
+
+function formatCategory(rule: IRule): string {
+  if (!rule.category) return 'general';
+  return Array.isArray(rule.category) ? rule.category.join(', ') : rule.category;
+}
+
+/**
+ * Builds a hover with the metadata of the rules that failed on the line of
+ * the position: category, tags, description, remediation and owner.
+ *
+ * @param results Rule results of the document
+ * @param position Hovered position
+ * @param getRule Looks up an active rule by ID
+ * @returns The hover, or null if no rule failed on the line
+ */
+export function getHover(
+  results: RuleResult[],
+  position: Position,
+  getRule: (ruleId: string) => IRule | undefined
+): Hover | null {
+  const sections: string[] = [];
+
+  for (const result of results) {
+    if (result.passed || result.loc?.startLine !== position.line) continue;
+
+    const rule = getRule(result.ruleId);
+    const lines = [`**${result.ruleId}** (${result.level}): ${result.message}`];
+    if (rule) {
+      lines.push(`**Category:** \`${formatCategory(rule)}\``);
+      if (rule.metadata.tags && rule.metadata.tags.length > 0) {
+        lines.push(
+          `**Tags:** ${rule.metadata.tags.map((tag) => `\`${tag.type}\`: ${tag.label}`).join(', ')}`
+        );
+      }
+      if (rule.metadata.description) {
+        lines.push(rule.metadata.description);
+      }
+      if (rule.metadata.remediation) {
+        lines.push(`**Remediation:** ${rule.metadata.remediation}`);
+      }
+      lines.push(`*OBU: ${rule.metadata.obu} | Owner: ${rule.metadata.owner}*`);
+    }
+    sections.push(lines.join('\n\n'));
+  }
+
+  if (sections.length === 0) return null;
+  return { contents: { kind: MarkupKind.Markdown, value: sections.join('\n\n---\n\n') } };
+}
+
+/**
+ * Finds the line comment prefix of a vendor: the first of `!`, `#`, `//`
+ * and `;` that its comment patterns accept.
+ */
+export function getCommentPrefix(vendor: VendorSchema): string | undefined {
+  return COMMENT_PREFIXES.find((prefix) =>
+    vendor.commentPatterns.some((pattern) => pattern.test(`${prefix} sentriflow`))
+  );
+}
+
+/**
+ * Builds the suppression quick fixes for SentriFlow diagnostics: a
+ * `sentriflow-disable-next-line` directive above the line, or a
+ * `sentriflow-disable-file` directive at the top of the document.
+ *
+ * @param uri Document URI
+ * @param lines Document text split on '\n'
+ * @param vendor Vendor of the document (for its comment syntax)
+ * @param diagnostics Diagnostics in the requested range
+ */
+export function getSuppressionActions(
+  uri: string,
+  lines: string[],
+  vendor: VendorSchema,
+  diagnostics: Diagnostic[]
+): CodeAction[] {
+  const prefix = getCommentPrefix(vendor);
+  if (!prefix) return [];
+
+  const eol = lines[0]?.endsWith('\r') ? '\r\n' : '\n';
+  const actions: CodeAction[] = [];
+  for (const diagnostic of diagnostics) {
+    if (diagnostic.source !== DIAGNOSTIC_SOURCE || typeof diagnostic.code !== 'string') {
+      continue;
+    }
+    const ruleId = diagnostic.code;
+    const line = diagnostic.range.start.line;
+    const indent = /^\s*/.exec(lines[line] ?? '')?.[0] ?? '';
+    const insertAt = (at: number, text: string) => {
+      const position = { line: at, character: 0 };
+      return { changes: { [uri]: [{ range: { start: position, end: position }, newText: text }] } };
+    };
+
+    actions.push(
+      {
+        title: `Suppress ${ruleId} on this line`,
+        kind: CodeActionKind.QuickFix,
+        diagnostics: [diagnostic],
+        edit: insertAt(line, `${indent}${prefix} sentriflow-disable-next-line ${ruleId}${eol}`),
+      },
+      {
+        title: `Suppress ${ruleId} in this file`,
+        kind: CodeActionKind.QuickFix,
+        diagnostics: [diagnostic],
+        edit: insertAt(0, `${prefix} sentriflow-disable-file ${ruleId}${eol}`),
+      }
+    );
+  }
+  return actions;
+}
+
+/**
+ * Last line of a node, including its descendants.
+ */
+function lastLine(node: ConfigNode): number {
+  const lastChild = node.children[node.children.length - 1];
+  return Math.max(node.loc.endLine, lastChild ? lastLine(lastChild) : node.loc.endLine);
+}
+
+/**
+ * Builds the document outline: configuration sections, nested by hierarchy.
+ * Commands are left out to keep the outline readable.
+ *
+ * @param nodes AST of the document
+ * @param lines Document text split on '\n'
+ */
+export function getDocumentSymbols(nodes: ConfigNode[], lines: string[]): DocumentSymbol[] {
+  const symbols: DocumentSymbol[] = [];
+
+  for (const node of nodes) {
+    if (node.type === 'virtual_root') {
+      symbols.push(...getDocumentSymbols(node.children, lines));
+      continue;
+    }
+    if (node.type !== 'section') continue;
+
+    const end = lastLine(node);
+    symbols.push({
+      name: node.id,
+      kind: (node.blockDepth ?? 0) === 0 ? SymbolKind.Namespace : SymbolKind.Module,
+      range: {
+        start: { line: node.loc.startLine, character: 0 },
+        end: { line: end, character: (lines[end] ?? '').replace(/\r$/, '').length },
+      },
+      selectionRange: lineRange(lines, node.loc.startLine),
+      children: getDocumentSymbols(node.children, lines),
+    });
+  }
+
+  return symbols;
+}
@@ -0,0 +1,20 @@
+// packages/lsp/src/index.ts
+// Public API of the language server package
+
+export { startServer, ALLOW_PACKS_ARG, SET_VENDOR_COMMAND } from './server';
+export type { ServerOptions } from './server';
+export { DocumentAnalyzer } from './analyzer';
+export type { DocumentAnalysis } from './analyzer';
+export {
+  DIAGNOSTIC_SOURCE,
+  getCommentPrefix,
+  getDocumentSymbols,
+  getHover,
+  getSuppressionActions,
+  mapSeverity,
+  toDiagnostics,
+} from './features';
+export { loadRulePacks, resolveRules } from './rules';
+export type { LoadedPacks } from './rules';
+export { DEFAULT_SETTINGS, normalizeSettings, parseCommaSeparated } from './settings';
+export type { LspSettings } from './settings';
@@ -0,0 +1,104 @@
+// packages/lsp/src/rules.ts
+// Rule pack loading and rule resolution from the server settings
+
+import { resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { isValidRulePack, ruleAppliesToVendor } from '@sentriflow/core';
+import type { IRule, RulePack, RuleVendor } from '@sentriflow/core';
+import { allRules, getRulesByVendor } from '@sentriflow/rules-default';
+import type { LspSettings } from './settings';
+
+/**
+ * Outcome of loading the packs of the `packs` setting.
+ */
+export interface LoadedPacks {
+  /** Packs that loaded and are valid */
+  packs: RulePack[];
+  /** One message per pack that could not be loaded */
+  errors: string[];
+}
+
+/**
+ * Loads rule pack modules (default export or module object).
+ *
+ * @param paths Pack paths, relative paths resolved against `baseDir`
+ * @param baseDir Directory relative paths are resolved against (workspace root)
+ */
+export async function loadRulePacks(paths: string[], baseDir: string): Promise<LoadedPacks> {
+  const loaded: LoadedPacks = { packs: [], errors: [] };
+
+  for (const path of paths) {
+    try {
+      const module = await import(pathToFileURL(resolve(baseDir, path)).href);
+      const pack: unknown = module.default ?? module;
+      if (!isValidRulePack(pack)) {
+        loaded.errors.push(`${path}: not a valid rule pack`);
+        continue;
+      }
+      loaded.packs.push(pack);
+    } catch (error) {
+      loaded.errors.push(`${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return loaded;
+}
+
+/**
+ * Checks whether a pack disables a default rule (for the vendor, if known).
+ */
+function isDisabledByPack(pack: RulePack, ruleId: string, vendorId?: string): boolean {
+  const disables = pack.disables;
+  if (!disables) return false;
+  return (
+    disables.all === true ||
+    disables.rules?.includes(ruleId) === true ||
+    (vendorId !== undefined && disables.vendors?.includes(vendorId as RuleVendor) === true)
+  );
+}
+
+/**
+ * Resolves the active rules, like the VS Code extension:
+ * 1. Default rules (priority 0), unless disabled by settings or a pack
+ * 2. Pack rules by ascending priority; for the same rule ID, the higher
+ *    priority pack wins. Blocked packs are skipped.
+ *
+ * @param settings Server settings
+ * @param packs Loaded rule packs
+ * @param vendorId Vendor of the document; rules of other vendors are left out
+ */
+export function resolveRules(
+  settings: LspSettings,
+  packs: RulePack[],
+  vendorId?: string
+): IRule[] {
+  const disabled = new Set(settings.disabledRules);
+  const blocked = new Set(settings.blockedPacks);
+  const activePacks = packs
+    .filter((pack) => !blocked.has(pack.name))
+    .sort((a, b) => a.priority - b.priority);
+  const ruleMap = new Map<string, { rule: IRule; priority: number }>();
+
+  if (settings.enableDefaultRules) {
+    for (const rule of vendorId ? getRulesByVendor(vendorId) : allRules) {
+      if (disabled.has(rule.id) || activePacks.some((p) => isDisabledByPack(p, rule.id, vendorId))) {
+        continue;
+      }
+      ruleMap.set(rule.id, { rule, priority: 0 });
+    }
+  }
+
+  for (const pack of activePacks) {
+    for (const rule of pack.rules) {
+      if (disabled.has(rule.id)) continue;
+      if (vendorId && !ruleAppliesToVendor(rule, vendorId)) continue;
+
+      const existing = ruleMap.get(rule.id);
+      if (!existing || pack.priority >= existing.priority) {
+        ruleMap.set(rule.id, { rule, priority: pack.priority });
+      }
+    }
+  }
+
+  return Array.from(ruleMap.values(), (entry) => entry.rule);
+}
@@ -0,0 +1,209 @@
+// packages/lsp/src/server.ts
+// Language server wiring: documents, settings and LSP request handlers
+
+import { fileURLToPath } from 'url';
+import {
+  CodeActionKind,
+  DidChangeConfigurationNotification,
+  TextDocumentSyncKind,
+  TextDocuments,
+} from 'vscode-languageserver';
+import type { Connection, InitializeResult } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { DocumentAnalyzer } from './analyzer';
+import {
+  getDocumentSymbols,
+  getHover,
+  getSuppressionActions,
+  toDiagnostics,
+} from './features';
+import { loadRulePacks } from './rules';
+import { normalizeSettings } from './settings';
+
+/** Command that sets the vendor of a document: arguments `[uri, vendorId | 'auto']` */
+export const SET_VENDOR_COMMAND = 'sentriflow.setVendor';
+
+/** Server argument that enables loading rule packs (`ServerOptions.allowPacks`) */
+export const ALLOW_PACKS_ARG = '--allow-packs';
+
+/** Delay after the last edit before a document is analyzed */
+const VALIDATE_DELAY_MS = 300;
+
+/**
+ * Options of the server process, set by whoever starts it rather than by the
+ * (possibly untrusted) workspace settings.
+ */
+export interface ServerOptions {
+  /**
+   * Load the rule pack modules of the `packs` setting. Packs are JavaScript
+   * run in the server process, and the setting can come from a workspace,
+   * so they are only loaded when the server is started with this option.
+   */
+  allowPacks?: boolean;
+}
+
+/**
+ * Registers the SentriFlow handlers on a connection and starts listening.
+ *
+ * Settings come from the `sentriflow` configuration section when the client
+ * supports `workspace/configuration`, else from the initialization options.
+ *
+ * @param connection LSP connection (stdio, IPC or socket)
+ * @param options Options of the server process
+ */
+export function startServer(connection: Connection, options: ServerOptions = {}): void {
+  const documents = new TextDocuments(TextDocument);
+  const analyzer = new DocumentAnalyzer();
+  const pending = new Map<string, ReturnType<typeof setTimeout>>();
+  let hasConfigurationCapability = false;
+  let initializationOptions: unknown;
+  let workspaceRoot = process.cwd();
+
+  const validate = (document: TextDocument): void => {
+    try {
+      const analysis = analyzer.analyze(document.uri, document.getText(), document.version);
+      void connection.sendDiagnostics({
+        uri: document.uri,
+        version: document.version,
+        diagnostics: toDiagnostics(analysis.results, document.getText().split('\n')),
+      });
+    } catch (error) {
+      connection.console.error(
+        `Failed to analyze ${document.uri}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  };
+
+  const scheduleValidate = (document: TextDocument): void => {
+    clearTimeout(pending.get(document.uri));
+    pending.set(
+      document.uri,
+      setTimeout(() => {
+        pending.delete(document.uri);
+        validate(document);
+      }, VALIDATE_DELAY_MS)
+    );
+  };
+
+  const loadSettings = async (): Promise<void> => {
+    const section = hasConfigurationCapability
+      ? await connection.workspace.getConfiguration('sentriflow')
+      : initializationOptions;
+    const settings = normalizeSettings(section);
+    if (settings.packs.length > 0 && !options.allowPacks) {
+      connection.console.warn(
+        `Rule packs not loaded: start the server with ${ALLOW_PACKS_ARG} to run the code of the \`packs\` setting`
+      );
+    }
+    const { packs, errors } = options.allowPacks
+      ? await loadRulePacks(settings.packs, workspaceRoot)
+      : { packs: [], errors: [] };
+    for (const error of errors) {
+      connection.console.warn(`Rule pack not loaded: ${error}`);
+    }
+    analyzer.configure(settings, packs);
+    documents.all().forEach(validate);
+  };
+
+  const reloadSettings = (): void => {
+    loadSettings().catch((error: unknown) => {
+      connection.console.error(
+        `Failed to load settings: ${error instanceof Error ? error.message : String(error)}`
+      );
+    });
+  };
+
+  connection.onInitialize((params): InitializeResult => {
+    hasConfigurationCapability = params.capabilities.workspace?.configuration === true;
+    initializationOptions = params.initializationOptions;
+    const rootUri = params.workspaceFolders?.[0]?.uri ?? params.rootUri;
+    if (rootUri?.startsWith('file:')) {
+      workspaceRoot = fileURLToPath(rootUri);
+    }
+
+    return {
+      capabilities: {
+        textDocumentSync: TextDocumentSyncKind.Incremental,
+        hoverProvider: true,
+        codeActionProvider: { codeActionKinds: [CodeActionKind.QuickFix] },
+        documentSymbolProvider: true,
+        executeCommandProvider: { commands: [SET_VENDOR_COMMAND] },
+      },
+      serverInfo: { name: 'sentriflow-lsp' },
+    };
+  });
+
+  connection.onInitialized(() => {
+    if (hasConfigurationCapability) {
+      void connection.client.register(DidChangeConfigurationNotification.type, undefined);
+    }
+    reloadSettings();
+  });
+
+  connection.onDidChangeConfiguration((change) => {
+    if (!hasConfigurationCapability) {
+      initializationOptions = (change.settings as Record<string, unknown> | null)?.sentriflow;
+    }
+    reloadSettings();
+  });
+
+  documents.onDidOpen((event) => validate(event.document));
+  documents.onDidChangeContent((event) => scheduleValidate(event.document));
+  documents.onDidClose((event) => {
+    clearTimeout(pending.get(event.document.uri));
+    pending.delete(event.document.uri);
+    analyzer.close(event.document.uri);
+    void connection.sendDiagnostics({ uri: event.document.uri, diagnostics: [] });
+  });
+
+  connection.onHover((params) => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) return null;
+    const analysis = analyzer.analyze(document.uri, document.getText(), document.version);
+    return getHover(analysis.results, params.position, (ruleId) =>
+      analyzer.getRule(ruleId, analysis.vendor.id)
+    );
+  });
+
+  connection.onCodeAction((params) => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) return [];
+    const analysis = analyzer.analyze(document.uri, document.getText(), document.version);
+    return getSuppressionActions(
+      document.uri,
+      document.getText().split('\n'),
+      analysis.vendor,
+      params.context.diagnostics
+    );
+  });
+
+  connection.onDocumentSymbol((params) => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) return [];
+    const analysis = analyzer.analyze(document.uri, document.getText(), document.version);
+    return getDocumentSymbols(analysis.nodes, document.getText().split('\n'));
+  });
+
+  connection.onExecuteCommand((params) => {
+    if (params.command !== SET_VENDOR_COMMAND) return;
+    const [uri, vendorId] = params.arguments ?? [];
+    if (typeof uri !== 'string' || typeof vendorId !== 'string') {
+      connection.console.error(`${SET_VENDOR_COMMAND} expects [uri, vendorId]`);
+      return;
+    }
+
+    try {
+      analyzer.setVendor(uri, vendorId);
+    } catch (error) {
+      void connection.window.showErrorMessage(
+        `SentriFlow: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return;
+    }
+    const document = documents.get(uri);
+    if (document) validate(document);
+  });
+
+  documents.listen(connection);
+  connection.listen();
+}
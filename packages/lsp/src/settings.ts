@@ -0,0 +1,77 @@
+// packages/lsp/src/settings.ts
+// Server settings, read from the `sentriflow` configuration section of the client
+
+/**
+ * Settings of the language server. Names and meaning match the VS Code
+ * extension's `sentriflow.*` settings.
+ */
+export interface LspSettings {
+  /** Vendor for parsing: 'auto' or a vendor ID (e.g. 'cisco-ios') */
+  defaultVendor: string;
+  /** Rule IDs to disable (items may be comma-separated lists) */
+  disabledRules: string[];
+  /** Run the built-in default rules */
+  enableDefaultRules: boolean;
+  /** Paths of rule pack modules (unencrypted JS packs) to load, with --allow-packs */
+  packs: string[];
+  /** Names of rule packs whose rules are not run */
+  blockedPacks: string[];
+  /** Apply `sentriflow-disable-*` comment directives */
+  inlineSuppressions: boolean;
+}
+
+/** Settings used for anything the client does not send */
+export const DEFAULT_SETTINGS: LspSettings = {
+  defaultVendor: 'auto',
+  disabledRules: [],
+  enableDefaultRules: true,
+  packs: [],
+  blockedPacks: [],
+  inlineSuppressions: true,
+};
+
+/**
+ * Splits setting items that hold comma-separated values
+ * ("NET-001,NET-002" entered as a single item).
+ */
+export function parseCommaSeparated(values: string[]): string[] {
+  return values
+    .flatMap((value) => value.split(','))
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0);
+}
+
+function stringArray(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  return value.filter((item): item is string => typeof item === 'string');
+}
+
+/**
+ * Reads settings sent by a client. Editors pass arbitrary JSON, so invalid
+ * or missing values fall back to DEFAULT_SETTINGS.
+ *
+ * @param value The `sentriflow` section (or initialization options)
+ * @returns Complete settings
+ */
+export function normalizeSettings(value: unknown): LspSettings {
+  if (typeof value !== 'object' || value === null) {
+    return { ...DEFAULT_SETTINGS };
+  }
+
+  const obj = value as Record<string, unknown>;
+  return {
+    defaultVendor:
+      typeof obj.defaultVendor === 'string' ? obj.defaultVendor : DEFAULT_SETTINGS.defaultVendor,
+    disabledRules: parseCommaSeparated(stringArray(obj.disabledRules) ?? []),
+    enableDefaultRules:
+      typeof obj.enableDefaultRules === 'boolean'
+        ? obj.enableDefaultRules
+        : DEFAULT_SETTINGS.enableDefaultRules,
+    packs: stringArray(obj.packs) ?? [],
+    blockedPacks: stringArray(obj.blockedPacks) ?? [],
+    inlineSuppressions:
+      typeof obj.inlineSuppressions === 'boolean'
+        ? obj.inlineSuppressions
+        : DEFAULT_SETTINGS.inlineSuppressions,
+  };
+}
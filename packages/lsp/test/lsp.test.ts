@@ -0,0 +1,204 @@
+// packages/lsp/test/lsp.test.ts
+// Tests for settings, rule resolution, analysis and the LSP feature builders
+
+import { describe, expect, test } from 'bun:test';
+import { getVendor } from '@sentriflow/core';
+import type { IRule, RulePack } from '@sentriflow/core';
+import { DiagnosticSeverity, SymbolKind } from 'vscode-languageserver';
+import { DocumentAnalyzer } from '../src/analyzer';
+import {
+  DIAGNOSTIC_SOURCE,
+  getCommentPrefix,
+  getDocumentSymbols,
+  getHover,
+  getSuppressionActions,
+  toDiagnostics,
+} from '../src/features';
+import { resolveRules } from '../src/rules';
+import { DEFAULT_SETTINGS, normalizeSettings } from '../src/settings';
+import type { LspSettings } from '../src/settings';
+
+const snmpRule: IRule = {
+  id: 'TEST-SNMP-001',
+  selector: 'snmp-server community',
+  vendor: 'cisco-ios',
+  category: 'SNMP',
+  metadata: {
+    level: 'error',
+    obu: 'Network',
+    owner: 'NetOps',
+    description: 'SNMP communities are sent in clear text.',
+    remediation: 'Use SNMPv3.',
+  },
+  check: (node) => ({
+    passed: false,
+    message: 'SNMP community configured',
+    ruleId: 'TEST-SNMP-001',
+    nodeId: node.id,
+    level: 'error',
+    loc: node.loc,
+  }),
+};
+
+const pack = (overrides: Partial<RulePack>): RulePack => ({
+  name: 'test-pack',
+  version: '1.0.0',
+  publisher: 'Test',
+  priority: 10,
+  rules: [snmpRule],
+  ...overrides,
+});
+
+const packOnly: LspSettings = { ...DEFAULT_SETTINGS, enableDefaultRules: false };
+
+const config = [
+  'hostname R1',
+  'snmp-server community lab RW',
+  'interface GigabitEthernet0/1',
+  ' description Uplink',
+  ' ip address 10.0.0.1 255.255.255.0',
+  '!',
+].join('\n');
+
+describe('normalizeSettings', () => {
+  test('falls back to defaults for missing or invalid values', () => {
+    expect(normalizeSettings(undefined)).toEqual(DEFAULT_SETTINGS);
+    expect(normalizeSettings({ defaultVendor: 42, packs: 'x' })).toEqual(DEFAULT_SETTINGS);
+  });
+
+  test('splits comma-separated disabled rules', () => {
+    const settings = normalizeSettings({ disabledRules: ['NET-001, NET-002', 'NET-003'] });
+    expect(settings.disabledRules).toEqual(['NET-001', 'NET-002', 'NET-003']);
+  });
+});
+
+describe('resolveRules', () => {
+  test('includes pack rules for the vendor only', () => {
+    expect(resolveRules(packOnly, [pack({})], 'cisco-ios').map((r) => r.id)).toEqual([
+      'TEST-SNMP-001',
+    ]);
+    expect(resolveRules(packOnly, [pack({})], 'juniper-junos')).toHaveLength(0);
+  });
+
+  test('skips disabled rules and blocked packs', () => {
+    expect(
+      resolveRules({ ...packOnly, disabledRules: ['TEST-SNMP-001'] }, [pack({})], 'cisco-ios')
+    ).toHaveLength(0);
+    expect(
+      resolveRules({ ...packOnly, blockedPacks: ['test-pack'] }, [pack({})], 'cisco-ios')
+    ).toHaveLength(0);
+  });
+
+  test('lets the higher priority pack win', () => {
+    const override = { ...snmpRule, metadata: { ...snmpRule.metadata, level: 'info' as const } };
+    const rules = resolveRules(
+      packOnly,
+      [pack({ name: 'high', priority: 20, rules: [override] }), pack({ name: 'low' })],
+      'cisco-ios'
+    );
+    expect(rules).toHaveLength(1);
+    expect(rules[0]?.metadata.level).toBe('info');
+  });
+
+  test('drops default rules disabled by a pack', () => {
+    const withDefaults = resolveRules(DEFAULT_SETTINGS, [], 'cisco-ios');
+    expect(withDefaults.length).toBeGreaterThan(0);
+    const disabled = resolveRules(
+      DEFAULT_SETTINGS,
+      [pack({ disables: { all: true } })],
+      'cisco-ios'
+    );
+    expect(disabled.map((r) => r.id)).toEqual(['TEST-SNMP-001']);
+  });
+});
+
+describe('DocumentAnalyzer', () => {
+  const uri = 'file:///configs/r1.cfg';
+
+  test('reports failures and reuses the analysis of the same version', () => {
+    const analyzer = new DocumentAnalyzer();
+    analyzer.configure(packOnly, [pack({})]);
+
+    const analysis = analyzer.analyze(uri, config, 1);
+    expect(analysis.vendor.id).toBe('cisco-ios');
+    expect(analysis.results.filter((r) => !r.passed).map((r) => r.loc?.startLine)).toEqual([1]);
+    expect(analyzer.analyze(uri, config, 1)).toBe(analysis);
+  });
+
+  test('applies inline suppressions unless disabled', () => {
+    const text = config.replace(
+      'snmp-server',
+      '! sentriflow-disable-next-line TEST-SNMP-001\nsnmp-server'
+    );
+    const analyzer = new DocumentAnalyzer();
+    analyzer.configure(packOnly, [pack({})]);
+    expect(analyzer.analyze(uri, text, 1).results.filter((r) => !r.passed)).toHaveLength(0);
+
+    analyzer.configure({ ...packOnly, inlineSuppressions: false }, [pack({})]);
+    expect(analyzer.analyze(uri, text, 1).results.filter((r) => !r.passed)).toHaveLength(1);
+  });
+
+  test('overrides the vendor per document', () => {
+    const analyzer = new DocumentAnalyzer();
+    analyzer.configure(packOnly, [pack({})]);
+    analyzer.setVendor(uri, 'cisco-nxos');
+    expect(analyzer.analyze(uri, config, 1).vendor.id).toBe('cisco-nxos');
+    analyzer.setVendor(uri, 'auto');
+    expect(analyzer.analyze(uri, config, 1).vendor.id).toBe('cisco-ios');
+    expect(() => analyzer.setVendor(uri, 'not-a-vendor')).toThrow("Unknown vendor 'not-a-vendor'");
+  });
+});
+
+describe('LSP features', () => {
+  const analyzer = new DocumentAnalyzer();
+  analyzer.configure(packOnly, [pack({})]);
+  const analysis = analyzer.analyze('file:///r1.cfg', config, 1);
+  const lines = config.split('\n');
+  const diagnostics = toDiagnostics(analysis.results, lines);
+
+  test('converts failures to diagnostics on the trimmed line', () => {
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({
+      range: { start: { line: 1, character: 0 }, end: { line: 1, character: 28 } },
+      severity: DiagnosticSeverity.Error,
+      code: 'TEST-SNMP-001',
+      source: DIAGNOSTIC_SOURCE,
+    });
+  });
+
+  test('shows rule metadata on hover', () => {
+    const hover = getHover(analysis.results, { line: 1, character: 3 }, (id) =>
+      analyzer.getRule(id, 'cisco-ios')
+    );
+    const value = (hover?.contents as { value: string }).value;
+    expect(value).toContain('**TEST-SNMP-001** (error)');
+    expect(value).toContain('`SNMP`');
+    expect(value).toContain('**Remediation:** Use SNMPv3.');
+    expect(getHover(analysis.results, { line: 0, character: 0 }, () => undefined)).toBeNull();
+  });
+
+  test('offers line and file suppressions with the vendor comment syntax', () => {
+    expect(getCommentPrefix(getVendor('cisco-ios'))).toBe('!');
+    expect(getCommentPrefix(getVendor('juniper-junos'))).toBe('#');
+
+    const actions = getSuppressionActions('file:///r1.cfg', lines, analysis.vendor, diagnostics);
+    expect(actions.map((a) => a.title)).toEqual([
+      'Suppress TEST-SNMP-001 on this line',
+      'Suppress TEST-SNMP-001 in this file',
+    ]);
+    expect(actions[0]?.edit?.changes?.['file:///r1.cfg']?.[0]).toEqual({
+      range: { start: { line: 1, character: 0 }, end: { line: 1, character: 0 } },
+      newText: '! sentriflow-disable-next-line TEST-SNMP-001\n',
+    });
+  });
+
+  test('outlines sections with their full range', () => {
+    const symbols = getDocumentSymbols(analysis.nodes, lines);
+    expect(symbols).toHaveLength(1);
+    expect(symbols[0]).toMatchObject({
+      name: 'interface GigabitEthernet0/1',
+      kind: SymbolKind.Namespace,
+      range: { start: { line: 2 }, end: { line: 4 } },
+    });
+  });
+});
@@ -8,6 +8,7 @@ import {
   isDefaultVlan,
   includesIgnoreCase,
   startsWithIgnoreCase,
+  insertChildFix,
 } from '@sentriflow/core';
 import {
   hasChildCommand,
@@ -41,6 +42,9 @@ export const TrunkNoDTP: IRule = {
     owner: 'NetOps',
     remediation:
       'Add "switchport nonegotiate" to disable DTP on trunk ports connected to non-Cisco devices.',
+    compliance: [
+      { framework: 'nist-800-53', controls: ['SC-7'] },
+    ],
   },
   check: (node: ConfigNode): RuleResult => {
     if (!isPhysicalPort(node.id) || isShutdown(node)) {
@@ -63,6 +67,7 @@ export const TrunkNoDTP: IRule = {
         nodeId: node.id,
         level: 'warning',
         loc: node.loc,
+        fix: insertChildFix(node, ['switchport nonegotiate'], 'Add "switchport nonegotiate"'),
       };
     }
 
@@ -83,6 +88,9 @@ export const TrunkNativeVlanNotOne: IRule = {
     obu: 'Network Engineering',
     owner: 'NetOps',
     remediation: 'Configure "switchport trunk native vlan <non-1-vlan>" (e.g., vlan 999).',
+    compliance: [
+      { framework: 'nist-800-53', controls: ['SC-7'] },
+    ],
   },
   check: (node: ConfigNode): RuleResult => {
     if (!isPhysicalPort(node.id) || isShutdown(node)) {
@@ -134,6 +142,10 @@ export const TrunkAllowedVlans: IRule = {
     obu: 'Network Engineering',
     owner: 'NetOps',
     remediation: 'Configure "switchport trunk allowed vlan <list>" to restrict VLANs on trunk.',
+    compliance: [
+      { framework: 'nist-800-53', controls: ['SC-7'] },
+      { framework: 'pci-dss', controls: ['1.2.1'] },
+    ],
   },
   check: (node: ConfigNode): RuleResult => {
     if (!isPhysicalPort(node.id) || isShutdown(node)) {
@@ -188,6 +200,9 @@ export const AccessExplicitMode: IRule = {
     obu: 'Network Engineering',
     owner: 'NetOps',
     remediation: 'Add "switchport mode access" to explicitly configure access mode.',
+    compliance: [
+      { framework: 'nist-800-53', controls: ['SC-7'] },
+    ],
   },
   check: (node: ConfigNode): RuleResult => {
     if (!isPhysicalPort(node.id) || isShutdown(node)) {
@@ -205,6 +220,7 @@ export const AccessExplicitMode: IRule = {
         nodeId: node.id,
         level: 'warning',
         loc: node.loc,
+        fix: insertChildFix(node, ['switchport mode access'], 'Add "switchport mode access"'),
       };
     }
 
@@ -225,6 +241,9 @@ export const AccessVlanNotOne: IRule = {
     obu: 'Network Engineering',
     owner: 'NetOps',
     remediation: 'Configure "switchport access vlan <non-1-vlan>" to assign proper VLAN.',
+    compliance: [
+      { framework: 'nist-800-53', controls: ['SC-7'] },
+    ],
   },
   check: (node: ConfigNode): RuleResult => {
     if (!isPhysicalPort(node.id) || isShutdown(node)) {
@@ -276,6 +295,9 @@ export const AccessBpduGuard: IRule = {
     obu: 'Network Engineering',
     owner: 'NetOps',
     remediation: 'Add "spanning-tree bpduguard enable" on PortFast-enabled ports.',
+    compliance: [
+      { framework: 'nist-800-53', controls: ['SC-7'] },
+    ],
   },
   check: (node: ConfigNode): RuleResult => {
     if (!isPhysicalPort(node.id) || isShutdown(node)) {
@@ -359,6 +381,11 @@ export const VtyNoTelnet: IRule = {
     obu: 'Security',
     owner: 'SecOps',
     remediation: 'Configure "transport input ssh" under VTY lines.',
+    compliance: [
+      { framework: 'cis-cisco-ios', controls: ['1.2.2'] },
+      { framework: 'nist-800-53', controls: ['AC-17', 'SC-8'] },
+      { framework: 'pci-dss', controls: ['2.2.7'] },
+    ],
   },
   check: (node: ConfigNode): RuleResult => {
     const transportCmd = getChildCommand(node, 'transport input');
@@ -413,6 +440,11 @@ export const VtyExecTimeout: IRule = {
     obu: 'Security',
     owner: 'SecOps',
     remediation: 'Configure "exec-timeout <minutes> <seconds>" with maximum 15 minutes.',
+    compliance: [
+      { framework: 'cis-cisco-ios', controls: ['1.2.9'] },
+      { framework: 'nist-800-53', controls: ['AC-12'] },
+      { framework: 'pci-dss', controls: ['8.2.8'] },
+    ],
   },
   check: (node: ConfigNode): RuleResult => {
     const timeoutCmd = getChildCommand(node, 'exec-timeout');
@@ -477,6 +509,10 @@ export const NoHttpServer: IRule = {
     obu: 'Security',
     owner: 'SecOps',
     remediation: 'Configure "no ip http server" and "no ip http secure-server".',
+    compliance: [
+      { framework: 'nist-800-53', controls: ['CM-7'] },
+      { framework: 'pci-dss', controls: ['2.2.4'] },
+    ],
   },
   check: (node: ConfigNode): RuleResult => {
     const cmd = node.id;
@@ -799,6 +835,11 @@ export const SnmpNoDefaultCommunity: IRule = {
     obu: 'Security',
     owner: 'SecOps',
     remediation: 'Use complex, non-default SNMP community strings. Preferably migrate to SNMPv3.',
+    compliance: [
+      { framework: 'cis-cisco-ios', controls: ['1.5.2', '1.5.3'] },
+      { framework: 'nist-800-53', controls: ['IA-5'] },
+      { framework: 'pci-dss', controls: ['2.2.2'] },
+    ],
   },
   check: (node: ConfigNode): RuleResult => {
     const community = node.params[2]?.toLowerCase();
@@ -831,6 +872,10 @@ export const SnmpNoRwAccess: IRule = {
     obu: 'Security',
     owner: 'SecOps',
     remediation: 'Remove SNMP RW access unless specifically required. Use RO for monitoring.',
+    compliance: [
+      { framework: 'cis-cisco-ios', controls: ['1.5.4'] },
+      { framework: 'nist-800-53', controls: ['AC-3'] },
+    ],
   },
   check: (node: ConfigNode): RuleResult => {
     const rawText = node.rawText.toUpperCase();
@@ -867,6 +912,10 @@ export const CdpDisabledOnExternal: IRule = {
     obu: 'Security',
     owner: 'SecOps',
     remediation: 'Add "no cdp enable" on external-facing and user endpoint interfaces.',
+    compliance: [
+      { framework: 'nist-800-53', controls: ['CM-7'] },
+      { framework: 'pci-dss', controls: ['2.2.4'] },
+    ],
   },
   check: (node: ConfigNode): RuleResult => {
     if (!isPhysicalPort(node.id) || isShutdown(node)) {
@@ -934,6 +983,10 @@ export const LldpDisabledOnExternal: IRule = {
     obu: 'Security',
     owner: 'SecOps',
     remediation: 'Add "no lldp transmit" and "no lldp receive" on external-facing and user endpoint interfaces.',
+    compliance: [
+      { framework: 'nist-800-53', controls: ['CM-7'] },
+      { framework: 'pci-dss', controls: ['2.2.4'] },
+    ],
   },
   check: (node: ConfigNode): RuleResult => {
     if (!isPhysicalPort(node.id) || isShutdown(node)) {
@@ -1111,6 +1164,11 @@ export const NoIpSourceRoute: IRule = {
     obu: 'Security',
     owner: 'SecOps',
     remediation: 'Configure "no ip source-route" to disable IP source routing.',
+    compliance: [
+      { framework: 'cis-cisco-ios', controls: ['3.1.1'] },
+      { framework: 'nist-800-53', controls: ['CM-7'] },
+      { framework: 'pci-dss', controls: ['2.2.4'] },
+    ],
   },
   check: (node: ConfigNode): RuleResult => {
     if (node.id.toLowerCase() === 'ip source-route') {
@@ -1141,6 +1199,11 @@ export const EnableSecretStrong: IRule = {
     obu: 'Security',
     owner: 'SecOps',
     remediation: 'Use "enable algorithm-type scrypt secret <password>" for strong encryption.',
+    compliance: [
+      { framework: 'cis-cisco-ios', controls: ['1.4.1'] },
+      { framework: 'nist-800-53', controls: ['IA-5'] },
+      { framework: 'pci-dss', controls: ['8.3.2'] },
+    ],
   },
   check: (node: ConfigNode): RuleResult => {
     const cmd = node.id;
@@ -1192,6 +1255,11 @@ export const CiscoNoPlaintextPasswords: IRule = {
     owner: 'SecOps',
     remediation:
       'Use "secret" instead of "password", or encrypt with type 7/8/9.',
+    compliance: [
+      { framework: 'cis-cisco-ios', controls: ['1.4.2', '1.4.3'] },
+      { framework: 'nist-800-53', controls: ['IA-5'] },
+      { framework: 'pci-dss', controls: ['8.3.2'] },
+    ],
   },
   check: (node: ConfigNode, context: Context): RuleResult => {
     const params = node.params;
@@ -0,0 +1,54 @@
+// packages/rules-default/src/common/credential-rules.ts
+// Known default passwords, communities and keys, built on the credentials of the configuration
+
+import type { IRule, ConfigNode, RuleResult, Context } from '@sentriflow/core';
+import { findCredentials, formatCredential, hasDefaultSecret } from '@sentriflow/core';
+
+/**
+ * NET-CRED-001: Credentials must not use known default values
+ *
+ * Factory defaults ('cisco', 'Admin@huawei'), the SNMP communities 'public'
+ * and 'private', and template placeholders are the first values an attacker
+ * tries. Cisco type 7 and Junos '$9$' values are decoded before comparing,
+ * since the encoding hides nothing.
+ */
+export const DefaultCredential: IRule = {
+  id: 'NET-CRED-001',
+  vendor: 'common',
+  category: 'Authentication',
+  metadata: {
+    level: 'error',
+    obu: 'Security',
+    owner: 'SecOps',
+    remediation: 'Replace the default value with a unique, strong secret, stored with a one-way hash where the platform supports it.',
+  },
+  check: (node: ConfigNode, context: Context): RuleResult => {
+    const defaults = findCredentials(node, context).filter(hasDefaultSecret);
+    if (defaults.length > 0) {
+      return {
+        passed: false,
+        message: `Known default ${defaults.map(formatCredential).join(', ')}.`,
+        ruleId: 'NET-CRED-001',
+        nodeId: node.id,
+        level: 'error',
+        loc: node.loc,
+      };
+    }
+
+    return {
+      passed: true,
+      message: 'No known default credentials.',
+      ruleId: 'NET-CRED-001',
+      nodeId: node.id,
+      level: 'info',
+      loc: node.loc,
+    };
+  },
+};
+
+/**
+ * Credential rules. Like the policy rules they have no selector: they need
+ * the credentials of the whole configuration, which runs only provide when
+ * they know the vendor.
+ */
+export const allCredentialRules: IRule[] = [DefaultCredential];
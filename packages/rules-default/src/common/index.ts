@@ -2,6 +2,9 @@
 // Vendor-agnostic rules that work across multiple platforms
 
 export * from './network-rules';
+export * from './reference-rules';
+export * from './policy-rules';
+export * from './credential-rules';
 
 // Re-export helpers from @sentriflow/core for backward compatibility
 export * from '@sentriflow/core/helpers/common';
@@ -0,0 +1,155 @@
+// packages/rules-default/src/common/policy-rules.ts
+// Shadowed, redundant and overly broad ACL and firewall policy rules
+
+import type { IRule, ConfigNode, RuleResult, Context, RuleVendor } from '@sentriflow/core';
+import { findPolicyFindings, formatPolicyRule } from '@sentriflow/core';
+
+/** Vendors whose ordered rule lists the policy analysis reads */
+const POLICY_VENDORS: RuleVendor[] = [
+  'cisco-ios',
+  'cisco-nxos',
+  'arista-eos',
+  'juniper-junos',
+  'fortinet-fortigate',
+  'paloalto-panos',
+  'vyos',
+];
+
+/**
+ * NET-POLICY-001: ACL and firewall rules must not be shadowed
+ *
+ * A rule covered by an earlier rule with the opposite action never matches:
+ * the deny an operator added to block traffic does nothing, or the permit
+ * for a new service never takes effect.
+ */
+export const ShadowedPolicyRule: IRule = {
+  id: 'NET-POLICY-001',
+  vendor: POLICY_VENDORS,
+  category: 'Network-Segmentation',
+  metadata: {
+    level: 'warning',
+    obu: 'Security',
+    owner: 'SecOps',
+    remediation: 'Move the rule above the rule that shadows it, or remove it if the earlier rule is intended.',
+  },
+  check: (node: ConfigNode, context: Context): RuleResult => {
+    const shadowed = findPolicyFindings(node, context, 'shadowed');
+    if (shadowed.length > 0) {
+      const details = shadowed.map((finding) =>
+        `${formatPolicyRule(finding)} never matches: rule ${finding.by?.name ?? '?'} ${finding.by?.action === 'permit' ? 'permits' : 'denies'} all its traffic first`
+      );
+      return {
+        passed: false,
+        message: `Shadowed ${details.join('; ')}.`,
+        ruleId: 'NET-POLICY-001',
+        nodeId: node.id,
+        level: 'warning',
+        loc: node.loc,
+      };
+    }
+
+    return {
+      passed: true,
+      message: 'No shadowed policy rules.',
+      ruleId: 'NET-POLICY-001',
+      nodeId: node.id,
+      level: 'info',
+      loc: node.loc,
+    };
+  },
+};
+
+/**
+ * NET-POLICY-002: ACL and firewall rules should not be redundant
+ *
+ * A rule covered by another rule with the same action can be removed without
+ * changing what the list does; it only makes the list harder to review.
+ */
+export const RedundantPolicyRule: IRule = {
+  id: 'NET-POLICY-002',
+  vendor: POLICY_VENDORS,
+  category: 'Network-Segmentation',
+  metadata: {
+    level: 'info',
+    obu: 'Security',
+    owner: 'SecOps',
+    remediation: 'Remove the redundant rule.',
+  },
+  check: (node: ConfigNode, context: Context): RuleResult => {
+    const redundant = findPolicyFindings(node, context, 'redundant');
+    if (redundant.length > 0) {
+      const details = redundant.map((finding) =>
+        `${formatPolicyRule(finding)} is covered by rule ${finding.by?.name ?? '?'}, which has the same action`
+      );
+      return {
+        passed: false,
+        message: `Redundant ${details.join('; ')}.`,
+        ruleId: 'NET-POLICY-002',
+        nodeId: node.id,
+        level: 'info',
+        loc: node.loc,
+      };
+    }
+
+    return {
+      passed: true,
+      message: 'No redundant policy rules.',
+      ruleId: 'NET-POLICY-002',
+      nodeId: node.id,
+      level: 'info',
+      loc: node.loc,
+    };
+  },
+};
+
+/**
+ * NET-POLICY-003: ACL and firewall rules should not permit any traffic
+ *
+ * A rule that permits any source to any destination on any service turns
+ * the rules after it into dead configuration and the filter into a
+ * pass-through.
+ */
+export const OverlyBroadPolicyRule: IRule = {
+  id: 'NET-POLICY-003',
+  vendor: POLICY_VENDORS,
+  category: 'Network-Segmentation',
+  metadata: {
+    level: 'warning',
+    obu: 'Security',
+    owner: 'SecOps',
+    remediation: 'Restrict the rule to the sources, destinations and services that need access.',
+  },
+  check: (node: ConfigNode, context: Context): RuleResult => {
+    const broad = findPolicyFindings(node, context, 'overly-broad');
+    if (broad.length > 0) {
+      return {
+        passed: false,
+        message: `Overly broad ${broad.map((finding) => formatPolicyRule(finding)).join(', ')}: permits any source, destination and service.`,
+        ruleId: 'NET-POLICY-003',
+        nodeId: node.id,
+        level: 'warning',
+        loc: node.loc,
+      };
+    }
+
+    return {
+      passed: true,
+      message: 'No overly broad policy rules.',
+      ruleId: 'NET-POLICY-003',
+      nodeId: node.id,
+      level: 'info',
+      loc: node.loc,
+    };
+  },
+};
+
+/**
+ * ACL and firewall policy rules. Like the object reference rules they have
+ * no selector: they need the analysis of the whole configuration, which
+ * runs only provide when they know the vendor.
+ */
+export const allPolicyRules: IRule[] = [
+  ShadowedPolicyRule,
+  RedundantPolicyRule,
+  OverlyBroadPolicyRule,
+];
@@ -0,0 +1,159 @@
+// packages/rules-default/src/common/reference-rules.ts
+// Undefined and unused object rules, built on the cross-reference index
+
+import type { IRule, ConfigNode, RuleResult, Context, RuleVendor, XrefObjectKind, XrefSymbol } from '@sentriflow/core';
+import { findUndefinedReferences, findUnusedDefinitions, formatXrefSymbols } from '@sentriflow/core';
+
+/** Vendors whose named objects the cross-reference index reads */
+const REFERENCE_VENDORS: RuleVendor[] = [
+  'cisco-ios',
+  'cisco-nxos',
+  'arista-eos',
+  'juniper-junos',
+  'fortinet-fortigate',
+  'paloalto-panos',
+];
+
+/**
+ * Objects predefined by FortiOS. Partial configurations use them without
+ * defining them, and full backups define them whether or not they are used.
+ */
+const FORTIGATE_OBJECTS: Readonly<Partial<Record<XrefObjectKind, ReadonlySet<string>>>> = {
+  address: new Set([
+    'all', 'none', 'FABRIC_DEVICE', 'FIREWALL_AUTH_PORTAL_ADDRESS', 'SSLVPN_TUNNEL_ADDR1',
+    'SSLVPN_TUNNEL_IPv6_ADDR1', 'EMS_ALL_UNKNOWN_CLIENTS', 'EMS_ALL_UNMANAGED_CLIENTS',
+    'login.microsoftonline.com', 'login.microsoft.com', 'login.windows.net', 'gmail.com',
+    'wildcard.google.com', 'wildcard.dropbox.com', 'G Suite', 'Microsoft Office 365',
+  ]),
+  service: new Set([
+    'ALL', 'ALL_TCP', 'ALL_UDP', 'ALL_ICMP', 'ALL_ICMP6', 'GRE', 'AH', 'ESP', 'AOL', 'BGP',
+    'DHCP', 'DHCP6', 'DNS', 'FINGER', 'FTP', 'FTP_GET', 'FTP_PUT', 'GOPHER', 'H323', 'HTTP',
+    'HTTPS', 'IKE', 'IMAP', 'IMAPS', 'Internet-Locator-Service', 'IRC', 'L2TP', 'LDAP',
+    'LDAP_UDP', 'NetMeeting', 'NFS', 'NNTP', 'NTP', 'OSPF', 'PC-Anywhere', 'PING', 'PING6',
+    'TIMESTAMP', 'INFO_REQUEST', 'INFO_ADDRESS', 'ONC-RPC', 'DCE-RPC', 'POP3', 'POP3S', 'PPTP',
+    'QUAKE', 'RAUDIO', 'REXEC', 'RIP', 'RLOGIN', 'RSH', 'SCCP', 'SIP', 'SIP-MSNmessenger',
+    'SAMBA', 'SMB', 'SMTP', 'SMTPS', 'SNMP', 'SSH', 'SYSLOG', 'TALK', 'TELNET', 'TFTP', 'MGCP',
+    'UUCP', 'VDOLIVE', 'WAIS', 'WINFRAME', 'X-WINDOWS', 'MS-SQL', 'MYSQL', 'RDP', 'VNC',
+    'SQUID', 'SOCKS', 'WINS', 'RADIUS', 'RADIUS-OLD', 'CVSPSERVER', 'AFS3', 'TRACEROUTE',
+    'RTSP', 'MMS', 'KERBEROS', 'NONE', 'webproxy', 'Email Access', 'Web Access', 'Windows AD',
+    'Exchange Server',
+  ]),
+  schedule: new Set(['always', 'none', 'default-darrp-optimize']),
+};
+
+/** IPv4 or IPv6 address, prefix or range given directly in a PAN-OS rule */
+const ADDRESS_LITERAL = /^(?=.*\d)(?=.*[.:])[\da-f.:]+(\/\d{1,3})?(-[\da-f.:]+)?$/i;
+
+const isFortigateObject = (symbol: XrefSymbol): boolean =>
+  FORTIGATE_OBJECTS[symbol.kind]?.has(symbol.name) ?? false;
+
+/**
+ * References that are valid without a definition, by vendor: FortiOS
+ * predefined objects; PAN-OS App-IDs, external dynamic lists ('panw-*'),
+ * and addresses and region codes given directly in rules.
+ */
+const PREDEFINED_REFERENCES: Readonly<Record<string, (symbol: XrefSymbol) => boolean>> = {
+  'fortinet-fortigate': isFortigateObject,
+  'paloalto-panos': (symbol) =>
+    symbol.kind === 'application' ||
+    (symbol.kind === 'address' &&
+      (symbol.name.startsWith('panw-') || /^[A-Z]{2}$/.test(symbol.name) || ADDRESS_LITERAL.test(symbol.name))),
+};
+
+/** Definitions not worth reporting as unused, by vendor: defaults of full backups */
+const PREDEFINED_DEFINITIONS: Readonly<Record<string, (symbol: XrefSymbol) => boolean>> = {
+  'fortinet-fortigate': isFortigateObject,
+};
+
+/**
+ * NET-REF-001: Commands must not reference undefined objects
+ *
+ * An interface ACL that does not exist permits all traffic on IOS; a missing
+ * route-map, prefix-list or policy-statement changes what BGP accepts or
+ * advertises; firewall policies naming missing addresses fail to commit.
+ */
+export const UndefinedObjectReference: IRule = {
+  id: 'NET-REF-001',
+  vendor: REFERENCE_VENDORS,
+  category: 'Configuration-Integrity',
+  metadata: {
+    level: 'error',
+    obu: 'Network Engineering',
+    owner: 'NetOps',
+    remediation: 'Define the referenced object, or correct the name in the referencing command.',
+  },
+  check: (node: ConfigNode, context: Context): RuleResult => {
+    const isPredefined = PREDEFINED_REFERENCES[context.vendorId ?? ''];
+    const dangling = findUndefinedReferences(node, context, isPredefined);
+    if (dangling.length > 0) {
+      return {
+        passed: false,
+        message: `References undefined ${formatXrefSymbols(dangling)}.`,
+        ruleId: 'NET-REF-001',
+        nodeId: node.id,
+        level: 'error',
+        loc: node.loc,
+      };
+    }
+
+    return {
+      passed: true,
+      message: 'No undefined object references.',
+      ruleId: 'NET-REF-001',
+      nodeId: node.id,
+      level: 'info',
+      loc: node.loc,
+    };
+  },
+};
+
+/**
+ * NET-REF-002: Defined objects should be used
+ *
+ * ACLs, route-maps, policy statements and address objects that nothing uses
+ * are dead configuration that hides the policy actually in effect.
+ */
+export const UnusedObjectDefinition: IRule = {
+  id: 'NET-REF-002',
+  vendor: REFERENCE_VENDORS,
+  category: 'Configuration-Integrity',
+  metadata: {
+    level: 'info',
+    obu: 'Network Engineering',
+    owner: 'NetOps',
+    remediation: 'Remove the object if it is no longer needed.',
+  },
+  check: (node: ConfigNode, context: Context): RuleResult => {
+    const isPredefined = PREDEFINED_DEFINITIONS[context.vendorId ?? ''];
+    const unused = findUnusedDefinitions(node, context, isPredefined);
+    if (unused.length > 0) {
+      return {
+        passed: false,
+        message: `Unused ${formatXrefSymbols(unused)}: not referenced by any command.`,
+        ruleId: 'NET-REF-002',
+        nodeId: node.id,
+        level: 'info',
+        loc: node.loc,
+      };
+    }
+
+    return {
+      passed: true,
+      message: 'No unused object definitions.',
+      ruleId: 'NET-REF-002',
+      nodeId: node.id,
+      level: 'info',
+      loc: node.loc,
+    };
+  },
+};
+
+/**
+ * Object reference rules. They have no selector: every command may define
+ * or use objects, and the rules need the index of the whole configuration,
+ * which runs only provide when they know the vendor.
+ */
+export const allReferenceRules: IRule[] = [
+  UndefinedObjectReference,
+  UnusedObjectDefinition,
+];
@@ -0,0 +1,36 @@
+// packages/rules-default/src/compliance/cis-cisco-ios.ts
+// CIS Cisco IOS Benchmark controls that can be checked from a configuration
+
+import type { ComplianceFramework } from '@sentriflow/core';
+
+/**
+ * CIS Cisco IOS Benchmark, by benchmark section number.
+ * Lists the configuration checks of the management, control and data plane
+ * sections; procedural recommendations are left out.
+ */
+export const CisCiscoIos: ComplianceFramework = {
+  id: 'cis-cisco-ios',
+  name: 'CIS Cisco IOS Benchmark',
+  version: '17.x',
+  vendor: 'cisco-ios',
+  controls: [
+    { id: '1.1.1', title: "Enable 'aaa new-model'" },
+    { id: '1.2.2', title: "Set 'transport input ssh' for 'line vty' connections" },
+    { id: '1.2.5', title: "Set 'access-class' for 'line vty'" },
+    { id: '1.2.9', title: "Set 'exec-timeout' for 'line vty'" },
+    { id: '1.4.1', title: "Set 'password' for 'enable secret'" },
+    { id: '1.4.2', title: "Enable 'service password-encryption'" },
+    { id: '1.4.3', title: "Set 'username secret' for all local users" },
+    { id: '1.5.2', title: "Unset 'private' for 'snmp-server community'" },
+    { id: '1.5.3', title: "Unset 'public' for 'snmp-server community'" },
+    { id: '1.5.4', title: "Do not set 'RW' for any 'snmp-server community'" },
+    { id: '2.1.1.2', title: "Set version 2 for 'ip ssh version'" },
+    { id: '2.1.2', title: "Set 'no cdp run'" },
+    { id: '2.2.4', title: "Set 'ip address' for 'logging host'" },
+    { id: '2.3.2', title: "Set 'ip address' for 'ntp server'" },
+    { id: '3.1.1', title: "Set 'no ip source-route'" },
+    { id: '3.1.2', title: "Set 'no ip proxy-arp'" },
+    { id: '3.3.2', title: 'Require OSPF neighbor authentication' },
+    { id: '3.3.4', title: 'Require BGP neighbor authentication' },
+  ],
+};
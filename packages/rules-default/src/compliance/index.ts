@@ -0,0 +1,23 @@
+// packages/rules-default/src/compliance/index.ts
+// Compliance frameworks that default rules map to (RuleMetadata.compliance)
+
+import type { ComplianceFramework } from '@sentriflow/core';
+import { CisCiscoIos } from './cis-cisco-ios';
+import { Nist80053 } from './nist-800-53';
+import { PciDss } from './pci-dss';
+
+export { CisCiscoIos, Nist80053, PciDss };
+
+/**
+ * All bundled compliance frameworks.
+ */
+export const allFrameworks: ComplianceFramework[] = [CisCiscoIos, Nist80053, PciDss];
+
+/**
+ * Get a bundled compliance framework by ID.
+ * @param id Framework ID (e.g., 'cis-cisco-ios')
+ * @returns The framework, or undefined if there is none with that ID
+ */
+export function getFramework(id: string): ComplianceFramework | undefined {
+  return allFrameworks.find((framework) => framework.id === id);
+}
@@ -0,0 +1,27 @@
+// packages/rules-default/src/compliance/nist-800-53.ts
+// NIST SP 800-53 controls relevant to network device configuration
+
+import type { ComplianceFramework } from '@sentriflow/core';
+
+/**
+ * NIST SP 800-53 Rev. 5 controls that network device configuration
+ * contributes to. Applies to all vendors.
+ */
+export const Nist80053: ComplianceFramework = {
+  id: 'nist-800-53',
+  name: 'NIST SP 800-53',
+  version: 'Rev. 5',
+  controls: [
+    { id: 'AC-3', title: 'Access Enforcement' },
+    { id: 'AC-12', title: 'Session Termination' },
+    { id: 'AC-17', title: 'Remote Access' },
+    { id: 'AU-8', title: 'Time Stamps' },
+    { id: 'AU-9', title: 'Protection of Audit Information' },
+    { id: 'CM-6', title: 'Configuration Settings' },
+    { id: 'CM-7', title: 'Least Functionality' },
+    { id: 'IA-3', title: 'Device Identification and Authentication' },
+    { id: 'IA-5', title: 'Authenticator Management' },
+    { id: 'SC-7', title: 'Boundary Protection' },
+    { id: 'SC-8', title: 'Transmission Confidentiality and Integrity' },
+  ],
+};
@@ -0,0 +1,24 @@
+// packages/rules-default/src/compliance/pci-dss.ts
+// PCI DSS requirements relevant to network device configuration
+
+import type { ComplianceFramework } from '@sentriflow/core';
+
+/**
+ * PCI DSS v4.0 requirements that network device configuration contributes
+ * to. Applies to all vendors.
+ */
+export const PciDss: ComplianceFramework = {
+  id: 'pci-dss',
+  name: 'PCI DSS',
+  version: '4.0',
+  controls: [
+    { id: '1.2.1', title: 'Configuration standards for network security control rulesets are defined and implemented' },
+    { id: '1.3.1', title: 'Inbound traffic to the cardholder data environment is restricted' },
+    { id: '2.2.2', title: 'Vendor default accounts are managed' },
+    { id: '2.2.4', title: 'Only necessary services, protocols, daemons and functions are enabled' },
+    { id: '2.2.7', title: 'All non-console administrative access is encrypted using strong cryptography' },
+    { id: '8.2.8', title: 'Sessions idle for more than 15 minutes require re-authentication' },
+    { id: '8.3.2', title: 'Strong cryptography renders all authentication factors unreadable during transmission and storage' },
+    { id: '10.6.1', title: 'System clocks and time are synchronized using time-synchronization technology' },
+  ],
+};
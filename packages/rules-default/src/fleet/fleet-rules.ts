@@ -0,0 +1,353 @@
+// packages/rules-default/src/fleet/fleet-rules.ts
+// Cross-device consistency rules (links, BGP sessions, OSPF adjacencies, reused secrets)
+
+import type { ConfigNode, Credential, FleetDevice, FleetRuleResult, IFleetRule, RuleVendor } from '@sentriflow/core';
+import { credentialKey, extractCredentials, formatCredential } from '@sentriflow/core';
+import {
+  findLinks,
+  getBgpSpeaker,
+  getInterfaceAddresses,
+  getIpMtu,
+  getOspfInterface,
+  indexAddressOwners,
+} from './topology';
+import type { BgpSpeaker, InterfaceAddress } from './topology';
+
+/** Vendors whose interface, BGP and OSPF syntax the fleet rules understand */
+const FLEET_VENDORS: RuleVendor[] = ['cisco-ios', 'cisco-nxos', 'arista-eos'];
+
+/** Failure of a fleet rule at a node, with the rule's level and remediation */
+const failure = (
+  rule: IFleetRule,
+  device: FleetDevice,
+  node: ConfigNode,
+  message: string
+): FleetRuleResult => ({
+  passed: false,
+  message,
+  ruleId: rule.id,
+  nodeId: node.id,
+  level: rule.metadata.level,
+  remediation: rule.metadata.remediation,
+  loc: node.loc,
+  path: node.path,
+  filePath: device.filePath,
+});
+
+/** "R2 Ethernet1/1" */
+const describeEnd = (end: InterfaceAddress): string =>
+  `${end.device.hostname} ${end.iface.params.slice(1).join(' ')}`;
+
+// ============================================================================
+// Link Rules
+// ============================================================================
+
+/**
+ * FLEET-LINK-001: Both ends of a point-to-point link must use the same IP MTU
+ */
+export const LinkMtuMismatch: IFleetRule = {
+  id: 'FLEET-LINK-001',
+  vendor: FLEET_VENDORS,
+  category: 'Topology',
+  metadata: {
+    level: 'error',
+    obu: 'Network Engineering',
+    owner: 'NetOps',
+    description: 'Interfaces on both ends of a point-to-point link must use the same IP MTU.',
+    remediation: 'Configure the same "mtu" (or "ip mtu") on both ends of the link.',
+  },
+  check: (devices: FleetDevice[]): FleetRuleResult[] => {
+    const results: FleetRuleResult[] = [];
+    for (const { subnet, ends } of findLinks(devices)) {
+      const [a, b] = ends;
+      const mtuA = getIpMtu(a.iface);
+      const mtuB = getIpMtu(b.iface);
+      if (mtuA === mtuB) continue;
+
+      for (const [local, localMtu, peer, peerMtu] of [
+        [a, mtuA, b, mtuB],
+        [b, mtuB, a, mtuA],
+      ] as const) {
+        results.push(
+          failure(
+            LinkMtuMismatch,
+            local.device,
+            local.iface,
+            `MTU ${localMtu} does not match MTU ${peerMtu} of ${describeEnd(peer)} on link ${subnet}.`
+          )
+        );
+      }
+    }
+    return results;
+  },
+};
+
+// ============================================================================
+// BGP Rules
+// ============================================================================
+
+/**
+ * Resolves every BGP neighbor that is an interface address of another device
+ * of the fleet, yielding the local speaker, the neighbor and the peer speaker.
+ */
+const forEachBgpPeering = (
+  devices: FleetDevice[],
+  visit: (local: BgpSpeaker, neighbor: BgpSpeaker['neighbors'][number], peer: BgpSpeaker) => void
+): void => {
+  const owners = indexAddressOwners(devices);
+  const speakers = new Map<FleetDevice, BgpSpeaker>();
+  for (const device of devices) {
+    const speaker = getBgpSpeaker(device);
+    if (speaker) speakers.set(device, speaker);
+  }
+
+  for (const local of speakers.values()) {
+    for (const neighbor of local.neighbors) {
+      const owner = owners.get(neighbor.ip);
+      const peer = owner ? speakers.get(owner) : undefined;
+      if (peer && peer !== local) {
+        visit(local, neighbor, peer);
+      }
+    }
+  }
+};
+
+/**
+ * FLEET-BGP-001: A BGP neighbor's remote-as must match the AS of the peer device
+ */
+export const BgpRemoteAsMismatch: IFleetRule = {
+  id: 'FLEET-BGP-001',
+  vendor: FLEET_VENDORS,
+  category: 'Routing',
+  metadata: {
+    level: 'error',
+    obu: 'Network Engineering',
+    owner: 'NetOps',
+    description: 'The remote-as of a BGP neighbor must match the "router bgp" AS of the device that owns the neighbor address.',
+    remediation: 'Correct the "remote-as" of the neighbor, or the local-as presented by the peer.',
+  },
+  check: (devices: FleetDevice[]): FleetRuleResult[] => {
+    const results: FleetRuleResult[] = [];
+    forEachBgpPeering(devices, (local, neighbor, peer) => {
+      if (neighbor.remoteAs === undefined) return;
+
+      // The peer may present a different AS to this device with "local-as"
+      const localIps = new Set(getInterfaceAddresses(local.device).map((a) => a.ip));
+      const presented = new Set([peer.asn]);
+      for (const reverse of peer.neighbors) {
+        if (reverse.localAs && localIps.has(reverse.ip)) presented.add(reverse.localAs);
+      }
+
+      if (!presented.has(neighbor.remoteAs)) {
+        results.push(
+          failure(
+            BgpRemoteAsMismatch,
+            local.device,
+            neighbor.node,
+            `BGP neighbor ${neighbor.node.params[1]} is configured with remote-as ${neighbor.remoteAs}, but ${peer.device.hostname} runs router bgp ${peer.asn}.`
+          )
+        );
+      }
+    });
+    return results;
+  },
+};
+
+/**
+ * FLEET-BGP-002: A BGP neighbor must be configured on the peer device as well
+ */
+export const BgpNeighborNotReciprocal: IFleetRule = {
+  id: 'FLEET-BGP-002',
+  vendor: FLEET_VENDORS,
+  category: 'Routing',
+  metadata: {
+    level: 'warning',
+    obu: 'Network Engineering',
+    owner: 'NetOps',
+    description: 'A BGP neighbor that is a device of the fleet must have a matching neighbor statement back to this device.',
+    remediation: 'Add a neighbor statement for this device on the peer, or remove the stale neighbor.',
+  },
+  check: (devices: FleetDevice[]): FleetRuleResult[] => {
+    const results: FleetRuleResult[] = [];
+    forEachBgpPeering(devices, (local, neighbor, peer) => {
+      if (peer.dynamicNeighbors) return;
+
+      const localIps = new Set(getInterfaceAddresses(local.device).map((a) => a.ip));
+      if (!peer.neighbors.some((reverse) => localIps.has(reverse.ip))) {
+        results.push(
+          failure(
+            BgpNeighborNotReciprocal,
+            local.device,
+            neighbor.node,
+            `BGP neighbor ${neighbor.node.params[1]} is ${peer.device.hostname}, which has no neighbor statement for ${local.device.hostname}.`
+          )
+        );
+      }
+    });
+    return results;
+  },
+};
+
+// ============================================================================
+// OSPF Rules
+// ============================================================================
+
+/**
+ * FLEET-OSPF-001: Both ends of a link must be in the same OSPF area
+ */
+export const OspfAreaMismatch: IFleetRule = {
+  id: 'FLEET-OSPF-001',
+  vendor: FLEET_VENDORS,
+  category: 'Routing',
+  metadata: {
+    level: 'error',
+    obu: 'Network Engineering',
+    owner: 'NetOps',
+    description: 'Interfaces running OSPF on both ends of a point-to-point link must be in the same area.',
+    remediation: 'Place both ends of the link in the same OSPF area.',
+  },
+  check: (devices: FleetDevice[]): FleetRuleResult[] => {
+    const results: FleetRuleResult[] = [];
+    for (const { subnet, ends } of findLinks(devices)) {
+      const [a, b] = ends;
+      const ospfA = getOspfInterface(a);
+      const ospfB = getOspfInterface(b);
+      if (!ospfA || !ospfB || ospfA.area === ospfB.area) continue;
+
+      for (const [local, localArea, peer, peerArea] of [
+        [a, ospfA.area, b, ospfB.area],
+        [b, ospfB.area, a, ospfA.area],
+      ] as const) {
+        results.push(
+          failure(
+            OspfAreaMismatch,
+            local.device,
+            local.iface,
+            `OSPF area ${localArea} does not match area ${peerArea} of ${describeEnd(peer)} on link ${subnet}.`
+          )
+        );
+      }
+    }
+    return results;
+  },
+};
+
+/**
+ * FLEET-OSPF-002: Both ends of a link must use the same OSPF timers and network type
+ */
+export const OspfParameterMismatch: IFleetRule = {
+  id: 'FLEET-OSPF-002',
+  vendor: FLEET_VENDORS,
+  category: 'Routing',
+  metadata: {
+    level: 'error',
+    obu: 'Network Engineering',
+    owner: 'NetOps',
+    description: 'OSPF hello interval, dead interval and network type must match on both ends of a link, or no adjacency forms.',
+    remediation: 'Configure the same "ip ospf hello-interval", "ip ospf dead-interval" and "ip ospf network" on both ends.',
+  },
+  check: (devices: FleetDevice[]): FleetRuleResult[] => {
+    const results: FleetRuleResult[] = [];
+    for (const { subnet, ends } of findLinks(devices)) {
+      const [a, b] = ends;
+      const ospfA = getOspfInterface(a);
+      const ospfB = getOspfInterface(b);
+      if (!ospfA || !ospfB) continue;
+
+      for (const [local, own, peer, other] of [
+        [a, ospfA, b, ospfB],
+        [b, ospfB, a, ospfA],
+      ] as const) {
+        const mismatches: string[] = [];
+        if (own.hello !== other.hello) {
+          mismatches.push(`hello interval ${own.hello} vs ${other.hello}`);
+        }
+        if (own.dead !== other.dead) {
+          mismatches.push(`dead interval ${own.dead} vs ${other.dead}`);
+        }
+        if (own.networkType && other.networkType && own.networkType !== other.networkType) {
+          mismatches.push(`network type ${own.networkType} vs ${other.networkType}`);
+        }
+        if (mismatches.length === 0) break;
+
+        results.push(
+          failure(
+            OspfParameterMismatch,
+            local.device,
+            local.iface,
+            `OSPF parameters do not match ${describeEnd(peer)} on link ${subnet}: ${mismatches.join(', ')}.`
+          )
+        );
+      }
+    }
+    return results;
+  },
+};
+
+// ============================================================================
+// Credential Rules
+// ============================================================================
+
+/** Number of other devices named in a reused credential message */
+const MAX_LISTED_DEVICES = 5;
+
+/**
+ * FLEET-CRED-001: Secrets must not be reused across devices
+ */
+export const ReusedCredential: IFleetRule = {
+  id: 'FLEET-CRED-001',
+  category: 'Authentication',
+  metadata: {
+    level: 'warning',
+    obu: 'Security',
+    owner: 'SecOps',
+    description: 'A password, SNMP community or shared key used on several devices gives access to all of them once it leaks from one. Cisco type 7 and Junos $9$ values are compared decoded.',
+    remediation: 'Use a unique secret per device, and central authentication (TACACS+/RADIUS) for user accounts.',
+  },
+  check: (devices: FleetDevice[]): FleetRuleResult[] => {
+    const uses = new Map<string, { device: FleetDevice; credential: Credential }[]>();
+    for (const device of devices) {
+      for (const credential of extractCredentials(device.ast, device.vendor)) {
+        const key = credentialKey(credential);
+        uses.set(key, [...(uses.get(key) ?? []), { device, credential }]);
+      }
+    }
+
+    const results: FleetRuleResult[] = [];
+    for (const group of uses.values()) {
+      const sharing = [...new Set(group.map(({ device }) => device))];
+      if (sharing.length < 2) continue;
+
+      for (const { device, credential } of group) {
+        const others = sharing.filter((other) => other !== device).map((other) => other.hostname);
+        const listed = others.length > MAX_LISTED_DEVICES
+          ? `${others.slice(0, MAX_LISTED_DEVICES).join(', ')} and ${others.length - MAX_LISTED_DEVICES} more`
+          : others.join(', ');
+        results.push({
+          passed: false,
+          message: `The ${formatCredential(credential)} is also used on ${listed}.`,
+          ruleId: ReusedCredential.id,
+          nodeId: credential.source.nodeId,
+          level: ReusedCredential.metadata.level,
+          remediation: ReusedCredential.metadata.remediation,
+          loc: credential.source.loc,
+          path: credential.source.path,
+          filePath: device.filePath,
+        });
+      }
+    }
+    return results;
+  },
+};
+
+/**
+ * All default fleet rules.
+ */
+export const allFleetRules: IFleetRule[] = [
+  LinkMtuMismatch,
+  BgpRemoteAsMismatch,
+  BgpNeighborNotReciprocal,
+  OspfAreaMismatch,
+  OspfParameterMismatch,
+  ReusedCredential,
+];
@@ -0,0 +1,5 @@
+// packages/rules-default/src/fleet/index.ts
+// Fleet (cross-device) rules module entry point
+
+export * from './fleet-rules';
+export * from './topology';
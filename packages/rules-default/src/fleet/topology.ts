@@ -0,0 +1,364 @@
+// packages/rules-default/src/fleet/topology.ts
+// Topology extraction shared by the fleet rules (Cisco-style syntax: IOS, NX-OS, EOS)
+
+import type { ConfigNode, FleetDevice } from '@sentriflow/core';
+import { parseIp, numToIp, prefixToMask, maskToPrefix, isShutdown } from '@sentriflow/core';
+
+/**
+ * An IPv4 address configured on an interface of a device.
+ */
+export interface InterfaceAddress {
+  device: FleetDevice;
+  /** The interface section */
+  iface: ConfigNode;
+  /** The "ip address" command */
+  node: ConfigNode;
+  ip: number;
+  prefix: number;
+}
+
+/**
+ * Two interfaces on different devices sharing a point-to-point subnet.
+ */
+export interface Link {
+  /** Subnet in CIDR notation (e.g., "10.0.0.0/30") */
+  subnet: string;
+  ends: [InterfaceAddress, InterfaceAddress];
+}
+
+/**
+ * Link detection only considers point-to-point subnets (/30 and /31):
+ * larger subnets are often reused across sites (e.g., branch LANs) and
+ * would pair unrelated devices.
+ */
+const LINK_PREFIXES = new Set([30, 31]);
+
+/** Default IP MTU of Cisco IOS, NX-OS and Arista EOS routed interfaces */
+export const DEFAULT_MTU = 1500;
+
+/** Default OSPF hello interval (seconds); the dead interval defaults to 4x hello */
+export const DEFAULT_OSPF_HELLO = 10;
+
+const topLevel = (device: FleetDevice): ConfigNode[] =>
+  device.ast.flatMap((node) => (node.type === 'virtual_root' ? node.children : [node]));
+
+const startsWithWord = (node: ConfigNode, prefix: string): boolean =>
+  node.id.toLowerCase().startsWith(`${prefix} `);
+
+/**
+ * Parses an "ip address" command, in either "A.B.C.D M.M.M.M" or "A.B.C.D/len" form.
+ */
+const parseAddress = (node: ConfigNode): { ip: number; prefix: number } | null => {
+  const [, , address, mask] = node.params;
+  if (!address) return null;
+
+  if (address.includes('/')) {
+    const [ip, len] = address.split('/');
+    const parsed = ip ? parseIp(ip) : null;
+    const prefix = Number(len);
+    if (parsed === null || !Number.isInteger(prefix) || prefix < 0 || prefix > 32) return null;
+    return { ip: parsed, prefix };
+  }
+
+  const parsed = parseIp(address);
+  const maskNum = mask ? parseIp(mask) : null;
+  if (parsed === null || maskNum === null) return null;
+  return { ip: parsed, prefix: maskToPrefix(maskNum) };
+};
+
+/**
+ * Returns the interface sections of a device that are not shut down.
+ */
+export function getActiveInterfaces(device: FleetDevice): ConfigNode[] {
+  return topLevel(device).filter((node) => startsWithWord(node, 'interface') && !isShutdown(node));
+}
+
+/**
+ * Returns the IPv4 addresses configured on the active interfaces of a device.
+ */
+export function getInterfaceAddresses(device: FleetDevice): InterfaceAddress[] {
+  const addresses: InterfaceAddress[] = [];
+  for (const iface of getActiveInterfaces(device)) {
+    for (const node of iface.children) {
+      if (!startsWithWord(node, 'ip address')) continue;
+      const parsed = parseAddress(node);
+      if (parsed) {
+        addresses.push({ device, iface, node, ...parsed });
+      }
+    }
+  }
+  return addresses;
+}
+
+/**
+ * Finds point-to-point links between devices: /30 and /31 subnets configured on
+ * exactly two interfaces of two different devices.
+ */
+export function findLinks(devices: FleetDevice[]): Link[] {
+  const subnets = new Map<string, InterfaceAddress[]>();
+  for (const device of devices) {
+    for (const address of getInterfaceAddresses(device)) {
+      if (!LINK_PREFIXES.has(address.prefix)) continue;
+      const network = (address.ip & prefixToMask(address.prefix)) >>> 0;
+      const subnet = `${numToIp(network)}/${address.prefix}`;
+      const members = subnets.get(subnet);
+      if (members) {
+        members.push(address);
+      } else {
+        subnets.set(subnet, [address]);
+      }
+    }
+  }
+
+  const links: Link[] = [];
+  for (const [subnet, members] of subnets) {
+    const [a, b] = members;
+    if (members.length === 2 && a && b && a.device !== b.device) {
+      links.push({ subnet, ends: [a, b] });
+    }
+  }
+  return links;
+}
+
+/**
+ * Indexes interface addresses by IP. Addresses configured on more than one
+ * device (anycast, duplicates) are left out, as their owner is ambiguous.
+ */
+export function indexAddressOwners(devices: FleetDevice[]): Map<number, FleetDevice> {
+  const owners = new Map<number, FleetDevice | null>();
+  for (const device of devices) {
+    for (const { ip } of getInterfaceAddresses(device)) {
+      const owner = owners.get(ip);
+      if (owner === undefined) {
+        owners.set(ip, device);
+      } else if (owner !== device) {
+        owners.set(ip, null);
+      }
+    }
+  }
+
+  const unique = new Map<number, FleetDevice>();
+  for (const [ip, owner] of owners) {
+    if (owner) unique.set(ip, owner);
+  }
+  return unique;
+}
+
+/**
+ * Returns the value of the first child command starting with a prefix,
+ * i.e. the words after the prefix, or undefined if there is no such child.
+ */
+const getChildValue = (node: ConfigNode, prefix: string): string | undefined => {
+  const child = node.children.find((c) => startsWithWord(c, prefix));
+  return child ? child.id.slice(prefix.length).trim() : undefined;
+};
+
+/**
+ * Returns the effective IP MTU of an interface ("ip mtu", else "mtu", else the default).
+ */
+export function getIpMtu(iface: ConfigNode): number {
+  const value = Number(getChildValue(iface, 'ip mtu') ?? getChildValue(iface, 'mtu'));
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_MTU;
+}
+
+// ============================================================================
+// OSPF
+// ============================================================================
+
+/**
+ * OSPF settings of an interface that must match on both ends of a link.
+ */
+export interface OspfInterface {
+  /** Area in dotted-decimal notation */
+  area: string;
+  hello: number;
+  dead: number;
+  /** Network type, or undefined when not set and the interface is not broadcast media */
+  networkType?: string;
+}
+
+/** Ethernet-style interfaces (and VLAN/port-channel interfaces) default to network type broadcast */
+const BROADCAST_INTERFACE_PATTERN = /^(fa|gi|te|tw|fo|hu|eth?|po|port-channel|vlan)/i;
+
+/**
+ * Normalizes an OSPF area ID to dotted-decimal notation ("0" -> "0.0.0.0").
+ */
+export const normalizeArea = (area: string): string =>
+  /^\d+$/.test(area) ? numToIp(Number(area) >>> 0) : area;
+
+/**
+ * Finds the OSPF area of an interface address, from interface-level commands
+ * ("ip ospf <pid> area", "ip ospf area", "ip router ospf <tag> area") or from
+ * "network" statements of the device's "router ospf" sections.
+ */
+const findOspfArea = (address: InterfaceAddress): string | undefined => {
+  for (const child of address.iface.children) {
+    const match = /^ip (?:ospf(?: \S+)?|router ospf \S+) area (\S+)/i.exec(child.id);
+    if (match?.[1]) return normalizeArea(match[1]);
+  }
+
+  for (const ospf of topLevel(address.device)) {
+    if (!startsWithWord(ospf, 'router ospf')) continue;
+    for (const statement of ospf.children) {
+      const [keyword, network, wildcardOrArea, areaKeyword, area] = statement.params;
+      if (keyword?.toLowerCase() !== 'network' || !network) continue;
+
+      let base: number | null;
+      let wildcard: number | null;
+      let statementArea: string | undefined;
+      if (network.includes('/')) {
+        const [ip, len] = network.split('/');
+        base = ip ? parseIp(ip) : null;
+        wildcard = ~prefixToMask(Number(len)) >>> 0;
+        statementArea = wildcardOrArea?.toLowerCase() === 'area' ? areaKeyword : undefined;
+      } else {
+        base = parseIp(network);
+        wildcard = wildcardOrArea ? parseIp(wildcardOrArea) : null;
+        statementArea = areaKeyword?.toLowerCase() === 'area' ? area : undefined;
+      }
+
+      if (base === null || wildcard === null || !statementArea) continue;
+      if (((address.ip & ~wildcard) >>> 0) === ((base & ~wildcard) >>> 0)) {
+        return normalizeArea(statementArea);
+      }
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Returns the OSPF settings of an interface address, or undefined if OSPF
+ * does not run on it.
+ */
+export function getOspfInterface(address: InterfaceAddress): OspfInterface | undefined {
+  const area = findOspfArea(address);
+  if (area === undefined) return undefined;
+
+  const hello = Number(getChildValue(address.iface, 'ip ospf hello-interval'));
+  const dead = Number(getChildValue(address.iface, 'ip ospf dead-interval'));
+  const effectiveHello = Number.isInteger(hello) && hello > 0 ? hello : DEFAULT_OSPF_HELLO;
+  return {
+    area,
+    hello: effectiveHello,
+    dead: Number.isInteger(dead) && dead > 0 ? dead : effectiveHello * 4,
+    networkType:
+      getChildValue(address.iface, 'ip ospf network')?.toLowerCase() ??
+      (BROADCAST_INTERFACE_PATTERN.test(address.iface.params[1] ?? '') ? 'broadcast' : undefined),
+  };
+}
+
+// ============================================================================
+// BGP
+// ============================================================================
+
+/**
+ * A BGP neighbor configured on a device.
+ */
+export interface BgpNeighbor {
+  /** Neighbor address */
+  ip: number;
+  /** The statement to report findings on (the remote-as statement if any) */
+  node: ConfigNode;
+  /** Configured remote AS (asplain), directly or through a peer group */
+  remoteAs?: string;
+  /** Local AS presented to this neighbor, if overridden */
+  localAs?: string;
+}
+
+/**
+ * BGP configuration of a device.
+ */
+export interface BgpSpeaker {
+  device: FleetDevice;
+  /** AS number of "router bgp" (asplain) */
+  asn: string;
+  neighbors: BgpNeighbor[];
+  /** True if the device accepts dynamic neighbors ("bgp listen range") */
+  dynamicNeighbors: boolean;
+}
+
+/**
+ * Normalizes an AS number to asplain notation ("1.10" -> "65546").
+ */
+export const normalizeAsn = (asn: string): string => {
+  const match = /^(\d+)\.(\d+)$/.exec(asn);
+  return match ? String(Number(match[1]) * 65536 + Number(match[2])) : asn;
+};
+
+interface NeighborStatements {
+  node?: ConfigNode;
+  remoteAs?: string;
+  localAs?: string;
+  group?: string;
+}
+
+/**
+ * Returns the BGP configuration of a device, or undefined if it does not run BGP.
+ * Supports flat IOS/EOS statements ("neighbor X remote-as N", peer groups)
+ * and NX-OS neighbor sections ("neighbor X" with a "remote-as N" child).
+ */
+export function getBgpSpeaker(device: FleetDevice): BgpSpeaker | undefined {
+  const router = topLevel(device).find((node) => startsWithWord(node, 'router bgp'));
+  const asn = router?.params[2];
+  if (!router || !asn) return undefined;
+
+  const statements = new Map<string, NeighborStatements>();
+  let dynamicNeighbors = false;
+
+  const visit = (node: ConfigNode): void => {
+    const [keyword, key, option, ...rest] = node.params.map((p) => p.toLowerCase());
+    if (keyword === 'bgp' && key === 'listen') {
+      dynamicNeighbors = true;
+    }
+    if (keyword === 'neighbor' && key) {
+      let entry = statements.get(key);
+      if (!entry) {
+        entry = {};
+        statements.set(key, entry);
+      }
+      entry.node ??= node;
+
+      if (option === 'remote-as' && rest[0]) {
+        entry.remoteAs = normalizeAsn(rest[0]);
+        entry.node = node;
+      } else if (option === 'local-as' && rest[0]) {
+        entry.localAs = normalizeAsn(rest[0]);
+      } else if (option === 'peer-group' && rest[0]) {
+        entry.group = rest[0];
+      } else if (option === 'peer' && rest[0] === 'group' && rest[1]) {
+        entry.group = rest[1];
+      }
+
+      for (const child of node.children) {
+        const [childKeyword, value] = child.params;
+        if (childKeyword?.toLowerCase() === 'remote-as' && value) {
+          entry.remoteAs = normalizeAsn(value);
+          entry.node = child;
+        } else if (childKeyword?.toLowerCase() === 'local-as' && value) {
+          entry.localAs = normalizeAsn(value);
+        }
+      }
+      return;
+    }
+    for (const child of node.children) {
+      visit(child);
+    }
+  };
+  router.children.forEach(visit);
+
+  const neighbors: BgpNeighbor[] = [];
+  for (const [key, entry] of statements) {
+    const ip = parseIp(key);
+    if (ip === null || !entry.node) continue;
+    const group = entry.group ? statements.get(entry.group) : undefined;
+    neighbors.push({
+      ip,
+      node: entry.node,
+      remoteAs: entry.remoteAs ?? group?.remoteAs,
+      localAs: entry.localAs ?? group?.localAs,
+    });
+  }
+
+  return { device, asn: normalizeAsn(asn), neighbors, dynamicNeighbors };
+}
@@ -5,6 +5,9 @@ import type { IRule } from '@sentriflow/core';
 
 // Import rule arrays from each module
 import { allCommonRules } from './common/network-rules';
+import { allReferenceRules } from './common/reference-rules';
+import { allPolicyRules } from './common/policy-rules';
+import { allCredentialRules } from './common/credential-rules';
 import { allCiscoRules } from './cisco/ios-rules';
 import { allJuniperRules } from './juniper/junos-rules';
 import { allArubaRules, getRulesByArubaVendor } from './aruba';
@@ -34,6 +37,27 @@ export {
   InterfaceDescriptionRequired,
 } from './common/network-rules';
 
+// Undefined and unused object rules, built on the cross-reference index
+export {
+  allReferenceRules,
+  UndefinedObjectReference,
+  UnusedObjectDefinition,
+} from './common/reference-rules';
+
+// Shadowed, redundant and overly broad ACL and firewall policy rules
+export {
+  allPolicyRules,
+  ShadowedPolicyRule,
+  RedundantPolicyRule,
+  OverlyBroadPolicyRule,
+} from './common/policy-rules';
+
+// Known default credentials, built on the credentials of the configuration
+export {
+  allCredentialRules,
+  DefaultCredential,
+} from './common/credential-rules';
+
 // Re-export the cisco rules array for backward compatibility
 export {
   allCiscoRules,
@@ -54,10 +78,25 @@ export {
 // Re-export JSON rule types for convenience
 export type { JsonRuleFile, JsonRule, JsonCheck } from './json';
 
+// Fleet (cross-device) rules, run once per directory scan with every parsed device
+export {
+  allFleetRules,
+  LinkMtuMismatch,
+  BgpRemoteAsMismatch,
+  BgpNeighborNotReciprocal,
+  OspfAreaMismatch,
+  OspfParameterMismatch,
+} from './fleet';
+
+// Compliance frameworks the rules map their controls to (RuleMetadata.compliance)
+export { allFrameworks, getFramework, CisCiscoIos, Nist80053, PciDss } from './compliance';
+
 /**
  * All default rules bundled together.
  * Includes:
  * - Common/vendor-agnostic rules (NET-IP-001, NET-DOC-001, etc.)
+ * - Undefined and unused object rules (NET-REF-*)
+ * - Shadowed, redundant and overly broad policy rules (NET-POLICY-*)
  * - Cisco IOS/IOS-XE rules (NET-TRUNK-*, NET-ACCESS-*, etc.)
  * - Juniper JunOS rules (JUN-SYS-*, JUN-BGP-*, etc.)
  * - Aruba HPE rules (ARU-*, AOSCX-*, AOSSW-*, ARUWLC-*)
@@ -75,6 +114,12 @@ export type { JsonRuleFile, JsonRule, JsonCheck } from './json';
 export const allRules: IRule[] = [
   // Common vendor-agnostic rules
   ...allCommonRules,
+  // Object reference rules
+  ...allReferenceRules,
+  // ACL and firewall policy rules
+  ...allPolicyRules,
+  // Credential rules
+  ...allCredentialRules,
   // Cisco-specific rules
   ...allCiscoRules,
   // Juniper-specific rules
@@ -107,29 +152,31 @@ export const allRules: IRule[] = [
  * Vendor-to-rules mapping registry.
  * Maps vendor IDs to functions that return applicable rules.
  * Dynamically constructed - add new vendors by adding entries here.
- * Each vendor includes: common rules + vendor-specific rules + JSON rules
+ * Each vendor includes: common rules + vendor-specific rules + JSON rules,
+ * plus the object reference and policy rules where the cross-reference index
+ * and the policy analysis cover it, and the credential rules
  */
 const vendorRulesRegistry: Record<string, () => IRule[]> = {
   // Cisco platforms share the same rules
-  'cisco-ios': () => [...allCommonRules, ...allCiscoRules, ...getJsonRulesByVendor('cisco-ios')],
-  'cisco-nxos': () => [...allCommonRules, ...allCiscoRules, ...getJsonRulesByVendor('cisco-nxos')],
+  'cisco-ios': () => [...allCommonRules, ...allCiscoRules, ...allReferenceRules, ...allPolicyRules, ...allCredentialRules, ...getJsonRulesByVendor('cisco-ios')],
+  'cisco-nxos': () => [...allCommonRules, ...allCiscoRules, ...allReferenceRules, ...allPolicyRules, ...allCredentialRules, ...getJsonRulesByVendor('cisco-nxos')],
   // Juniper
-  'juniper-junos': () => [...allCommonRules, ...allJuniperRules, ...getJsonRulesByVendor('juniper-junos')],
+  'juniper-junos': () => [...allCommonRules, ...allJuniperRules, ...allReferenceRules, ...allPolicyRules, ...allCredentialRules, ...getJsonRulesByVendor('juniper-junos')],
   // Aruba platforms have variant-specific rules
-  'aruba-aoscx': () => [...getRulesByArubaVendor('aruba-aoscx'), ...getJsonRulesByVendor('aruba-aoscx')],
-  'aruba-aosswitch': () => [...getRulesByArubaVendor('aruba-aosswitch'), ...getJsonRulesByVendor('aruba-aosswitch')],
-  'aruba-wlc': () => [...getRulesByArubaVendor('aruba-wlc'), ...getJsonRulesByVendor('aruba-wlc')],
+  'aruba-aoscx': () => [...getRulesByArubaVendor('aruba-aoscx'), ...allCredentialRules, ...getJsonRulesByVendor('aruba-aoscx')],
+  'aruba-aosswitch': () => [...getRulesByArubaVendor('aruba-aosswitch'), ...allCredentialRules, ...getJsonRulesByVendor('aruba-aosswitch')],
+  'aruba-wlc': () => [...getRulesByArubaVendor('aruba-wlc'), ...allCredentialRules, ...getJsonRulesByVendor('aruba-wlc')],
   // Other vendors
-  'paloalto-panos': () => [...getRulesByPaloAltoVendor(), ...getJsonRulesByVendor('paloalto-panos')],
-  'arista-eos': () => [...getRulesByAristaVendor(), ...getJsonRulesByVendor('arista-eos')],
-  'vyos': () => [...getRulesByVyosVendor(), ...getJsonRulesByVendor('vyos')],
-  'fortinet-fortigate': () => [...getRulesByFortinetVendor(), ...getJsonRulesByVendor('fortinet-fortigate')],
-  'extreme-exos': () => [...getRulesByExtremeVendor('extreme-exos'), ...getJsonRulesByVendor('extreme-exos')],
-  'extreme-voss': () => [...getRulesByExtremeVendor('extreme-voss'), ...getJsonRulesByVendor('extreme-voss')],
-  'huawei-vrp': () => [...getRulesByHuaweiVendor(), ...getJsonRulesByVendor('huawei-vrp')],
-  'mikrotik-routeros': () => [...getRulesByMikroTikVendor(), ...getJsonRulesByVendor('mikrotik-routeros')],
-  'nokia-sros': () => [...getRulesByNokiaVendor(), ...getJsonRulesByVendor('nokia-sros')],
-  'cumulus-linux': () => [...getRulesByCumulusVendor(), ...getJsonRulesByVendor('cumulus-linux')],
+  'paloalto-panos': () => [...getRulesByPaloAltoVendor(), ...allReferenceRules, ...allPolicyRules, ...allCredentialRules, ...getJsonRulesByVendor('paloalto-panos')],
+  'arista-eos': () => [...getRulesByAristaVendor(), ...allReferenceRules, ...allPolicyRules, ...allCredentialRules, ...getJsonRulesByVendor('arista-eos')],
+  'vyos': () => [...getRulesByVyosVendor(), ...allPolicyRules, ...allCredentialRules, ...getJsonRulesByVendor('vyos')],
+  'fortinet-fortigate': () => [...getRulesByFortinetVendor(), ...allReferenceRules, ...allPolicyRules, ...allCredentialRules, ...getJsonRulesByVendor('fortinet-fortigate')],
+  'extreme-exos': () => [...getRulesByExtremeVendor('extreme-exos'), ...allCredentialRules, ...getJsonRulesByVendor('extreme-exos')],
+  'extreme-voss': () => [...getRulesByExtremeVendor('extreme-voss'), ...allCredentialRules, ...getJsonRulesByVendor('extreme-voss')],
+  'huawei-vrp': () => [...getRulesByHuaweiVendor(), ...allCredentialRules, ...getJsonRulesByVendor('huawei-vrp')],
+  'mikrotik-routeros': () => [...getRulesByMikroTikVendor(), ...allCredentialRules, ...getJsonRulesByVendor('mikrotik-routeros')],
+  'nokia-sros': () => [...getRulesByNokiaVendor(), ...allCredentialRules, ...getJsonRulesByVendor('nokia-sros')],
+  'cumulus-linux': () => [...getRulesByCumulusVendor(), ...allCredentialRules, ...getJsonRulesByVendor('cumulus-linux')],
 };
 
 /**
@@ -7,39 +7,48 @@ import {
   ArubaAOSCXSchema,
   ArubaAOSSwitchSchema,
   ArubaWLCSchema,
-  detectVendor
+  detectVendor,
+  toRuleResults
 } from '@sentriflow/core';
-import {
-  allArubaRules,
-  getRulesByArubaVendor,
-  allAosCxRules,
-  allAosSwitchRules,
-  allWlcRules,
-  allArubaCommonRules,
-  // AOS-CX rules
-  AosCxInterfaceDescription,
-  AosCxTrunkAllowedVlans,
-  AosCxAccessVlanAssigned,
-  AosCxNativeVlanNotDefault,
-  AosCxBpduGuardOnEdge,
-  AosCxVlanName,
-  // AOS-Switch rules
-  AosSwitchVlanName,
-  AosSwitchVlanHasPorts,
-  AosSwitchTrunkLacp,
-  // WLC rules
-  WlcSsidEncryption,
-  WlcVapAaaProfile,
-  WlcVapSsidProfile,
-  WlcRadiusHost,
-  WlcRadiusKey,
-  WlcApGroupVaps,
-  // Common rules
-  SnmpNotDefault,
-} from '../src/aruba';
+import type { ConfigNode, IRule, RuleResult } from '@sentriflow/core';
+import {
+  allArubaRules,
+  getRulesByArubaVendor,
+  allAosCxRules,
+  allAosSwitchRules,
+  allWlcRules,
+  allArubaCommonRules,
+  // AOS-CX rules
+  AosCxInterfaceDescription,
+  AosCxTrunkAllowedVlans,
+  AosCxAccessVlanAssigned,
+  AosCxNativeVlanNotDefault,
+  AosCxBpduGuardOnEdge,
+  AosCxVlanName,
+  // AOS-Switch rules
+  AosSwitchVlanName,
+  AosSwitchVlanHasPorts,
+  AosSwitchTrunkLacp,
+  // WLC rules
+  WlcSsidEncryption,
+  WlcVapAaaProfile,
+  WlcVapSsidProfile,
+  WlcRadiusHost,
+  WlcRadiusKey,
+  WlcApGroupVaps,
+  // Common rules
+  SnmpNotDefault,
+} from '../src/aruba';
 import * as fs from 'fs';
 import * as path from 'path';
 
+/** Runs a rule's check on a node, expecting a single result */
+const runCheck = (rule: IRule, node: ConfigNode, ast: ConfigNode[]): RuleResult => {
+  const results = toRuleResults(rule.check(node, { getAst: () => ast }));
+  expect(results).toHaveLength(1);
+  return results[0]!;
+};
+
 // =============================================================================
 // Vendor Detection Tests
 // =============================================================================
@@ -167,7 +176,7 @@ describe('AOS-CX Rules', () => {
       const node = ast.find((n) => n.id.includes('interface 1/1/1'));
       expect(node).toBeDefined();
       if (node) {
-        const result = AosCxInterfaceDescription.check(node, { getAst: () => ast });
+        const result = runCheck(AosCxInterfaceDescription, node, ast);
         expect(result.passed).toBe(false);
       }
     });
@@ -182,7 +191,7 @@ describe('AOS-CX Rules', () => {
       const node = ast.find((n) => n.id.includes('interface 1/1/1'));
       expect(node).toBeDefined();
       if (node) {
-        const result = AosCxInterfaceDescription.check(node, { getAst: () => ast });
+        const result = runCheck(AosCxInterfaceDescription, node, ast);
         expect(result.passed).toBe(true);
       }
     });
@@ -195,7 +204,7 @@ describe('AOS-CX Rules', () => {
       const node = ast.find((n) => n.id.includes('interface vlan'));
       expect(node).toBeDefined();
       if (node) {
-        const result = AosCxInterfaceDescription.check(node, { getAst: () => ast });
+        const result = runCheck(AosCxInterfaceDescription, node, ast);
         expect(result.passed).toBe(true);
         expect(result.message).toContain('Not a physical');
       }
@@ -211,7 +220,7 @@ describe('AOS-CX Rules', () => {
       const node = ast.find((n) => n.id.includes('interface 1/1/1'));
       expect(node).toBeDefined();
       if (node) {
-        const result = AosCxTrunkAllowedVlans.check(node, { getAst: () => ast });
+        const result = runCheck(AosCxTrunkAllowedVlans, node, ast);
         expect(result.passed).toBe(false);
       }
     });
@@ -225,7 +234,7 @@ describe('AOS-CX Rules', () => {
       const node = ast.find((n) => n.id.includes('interface 1/1/1'));
       expect(node).toBeDefined();
       if (node) {
-        const result = AosCxTrunkAllowedVlans.check(node, { getAst: () => ast });
+        const result = runCheck(AosCxTrunkAllowedVlans, node, ast);
         expect(result.passed).toBe(true);
       }
     });
@@ -241,7 +250,7 @@ describe('AOS-CX Rules', () => {
       const node = ast.find((n) => n.id.includes('interface 1/1/1'));
       expect(node).toBeDefined();
       if (node) {
-        const result = AosCxAccessVlanAssigned.check(node, { getAst: () => ast });
+        const result = runCheck(AosCxAccessVlanAssigned, node, ast);
         expect(result.passed).toBe(false);
         expect(result.message).toContain('default VLAN 1');
       }
@@ -256,7 +265,7 @@ describe('AOS-CX Rules', () => {
       const node = ast.find((n) => n.id.includes('interface 1/1/1'));
       expect(node).toBeDefined();
       if (node) {
-        const result = AosCxAccessVlanAssigned.check(node, { getAst: () => ast });
+        const result = runCheck(AosCxAccessVlanAssigned, node, ast);
         expect(result.passed).toBe(true);
       }
     });
@@ -272,7 +281,7 @@ describe('AOS-CX Rules', () => {
       const node = ast.find((n) => n.id.includes('interface 1/1/1'));
       expect(node).toBeDefined();
       if (node) {
-        const result = AosCxNativeVlanNotDefault.check(node, { getAst: () => ast });
+        const result = runCheck(AosCxNativeVlanNotDefault, node, ast);
         expect(result.passed).toBe(false);
       }
     });
@@ -286,7 +295,7 @@ describe('AOS-CX Rules', () => {
       const node = ast.find((n) => n.id.includes('interface 1/1/1'));
       expect(node).toBeDefined();
       if (node) {
-        const result = AosCxNativeVlanNotDefault.check(node, { getAst: () => ast });
+        const result = runCheck(AosCxNativeVlanNotDefault, node, ast);
         expect(result.passed).toBe(true);
       }
     });
@@ -300,7 +309,7 @@ describe('AOS-CX Rules', () => {
       const node = ast.find((n) => n.id.includes('vlan 100'));
       expect(node).toBeDefined();
       if (node) {
-        const result = AosCxVlanName.check(node, { getAst: () => ast });
+        const result = runCheck(AosCxVlanName, node, ast);
         expect(result.passed).toBe(false);
       }
     });
@@ -313,7 +322,7 @@ describe('AOS-CX Rules', () => {
       const node = ast.find((n) => n.id.includes('vlan 100'));
       expect(node).toBeDefined();
       if (node) {
-        const result = AosCxVlanName.check(node, { getAst: () => ast });
+        const result = runCheck(AosCxVlanName, node, ast);
         expect(result.passed).toBe(true);
       }
     });
@@ -337,7 +346,7 @@ describe('AOS-Switch Rules', () => {
       const node = ast.find((n) => n.id.includes('vlan 100'));
       expect(node).toBeDefined();
       if (node) {
-        const result = AosSwitchVlanName.check(node, { getAst: () => ast });
+        const result = runCheck(AosSwitchVlanName, node, ast);
         expect(result.passed).toBe(false);
       }
     });
@@ -352,7 +361,7 @@ describe('AOS-Switch Rules', () => {
       const node = ast.find((n) => n.id.includes('vlan 100'));
       expect(node).toBeDefined();
       if (node) {
-        const result = AosSwitchVlanName.check(node, { getAst: () => ast });
+        const result = runCheck(AosSwitchVlanName, node, ast);
         expect(result.passed).toBe(true);
       }
     });
@@ -368,7 +377,7 @@ describe('AOS-Switch Rules', () => {
       const node = ast.find((n) => n.id.includes('vlan 100'));
       expect(node).toBeDefined();
       if (node) {
-        const result = AosSwitchVlanHasPorts.check(node, { getAst: () => ast });
+        const result = runCheck(AosSwitchVlanHasPorts, node, ast);
         expect(result.passed).toBe(false);
       }
     });
@@ -384,7 +393,7 @@ describe('AOS-Switch Rules', () => {
       const node = ast.find((n) => n.id.includes('vlan 100'));
       expect(node).toBeDefined();
       if (node) {
-        const result = AosSwitchVlanHasPorts.check(node, { getAst: () => ast });
+        const result = runCheck(AosSwitchVlanHasPorts, node, ast);
         expect(result.passed).toBe(true);
       }
     });
@@ -398,7 +407,7 @@ describe('AOS-Switch Rules', () => {
       const node = ast.find((n) => n.id.includes('trunk'));
       expect(node).toBeDefined();
       if (node) {
-        const result = AosSwitchTrunkLacp.check(node, { getAst: () => ast });
+        const result = runCheck(AosSwitchTrunkLacp, node, ast);
         expect(result.passed).toBe(false);
       }
     });
@@ -410,7 +419,7 @@ describe('AOS-Switch Rules', () => {
       const node = ast.find((n) => n.id.includes('trunk'));
       expect(node).toBeDefined();
       if (node) {
-        const result = AosSwitchTrunkLacp.check(node, { getAst: () => ast });
+        const result = runCheck(AosSwitchTrunkLacp, node, ast);
         expect(result.passed).toBe(true);
       }
     });
@@ -434,7 +443,7 @@ describe('WLC Rules', () => {
       const node = ast.find((n) => n.id.includes('wlan ssid-profile'));
       expect(node).toBeDefined();
       if (node) {
-        const result = WlcSsidEncryption.check(node, { getAst: () => ast });
+        const result = runCheck(WlcSsidEncryption, node, ast);
         expect(result.passed).toBe(false);
         expect(result.message).toContain('open');
       }
@@ -449,7 +458,7 @@ describe('WLC Rules', () => {
       const node = ast.find((n) => n.id.includes('wlan ssid-profile'));
       expect(node).toBeDefined();
       if (node) {
-        const result = WlcSsidEncryption.check(node, { getAst: () => ast });
+        const result = runCheck(WlcSsidEncryption, node, ast);
         expect(result.passed).toBe(true);
       }
     });
@@ -463,7 +472,7 @@ describe('WLC Rules', () => {
       const node = ast.find((n) => n.id.includes('wlan ssid-profile'));
       expect(node).toBeDefined();
       if (node) {
-        const result = WlcSsidEncryption.check(node, { getAst: () => ast });
+        const result = runCheck(WlcSsidEncryption, node, ast);
         expect(result.passed).toBe(true);
       }
     });
@@ -479,7 +488,7 @@ describe('WLC Rules', () => {
       const node = ast.find((n) => n.id.includes('wlan virtual-ap'));
       expect(node).toBeDefined();
       if (node) {
-        const result = WlcVapAaaProfile.check(node, { getAst: () => ast });
+        const result = runCheck(WlcVapAaaProfile, node, ast);
         expect(result.passed).toBe(false);
       }
     });
@@ -494,7 +503,7 @@ describe('WLC Rules', () => {
       const node = ast.find((n) => n.id.includes('wlan virtual-ap'));
       expect(node).toBeDefined();
       if (node) {
-        const result = WlcVapAaaProfile.check(node, { getAst: () => ast });
+        const result = runCheck(WlcVapAaaProfile, node, ast);
         expect(result.passed).toBe(true);
       }
     });
@@ -510,7 +519,7 @@ describe('WLC Rules', () => {
       const node = ast.find((n) => n.id.includes('wlan virtual-ap'));
       expect(node).toBeDefined();
       if (node) {
-        const result = WlcVapSsidProfile.check(node, { getAst: () => ast });
+        const result = runCheck(WlcVapSsidProfile, node, ast);
         expect(result.passed).toBe(false);
       }
     });
@@ -525,7 +534,7 @@ describe('WLC Rules', () => {
       const node = ast.find((n) => n.id.includes('wlan virtual-ap'));
       expect(node).toBeDefined();
       if (node) {
-        const result = WlcVapSsidProfile.check(node, { getAst: () => ast });
+        const result = runCheck(WlcVapSsidProfile, node, ast);
         expect(result.passed).toBe(true);
       }
     });
@@ -540,7 +549,7 @@ describe('WLC Rules', () => {
       const node = ast.find((n) => n.id.includes('aaa authentication-server radius'));
       expect(node).toBeDefined();
       if (node) {
-        const result = WlcRadiusHost.check(node, { getAst: () => ast });
+        const result = runCheck(WlcRadiusHost, node, ast);
         expect(result.passed).toBe(false);
       }
     });
@@ -554,7 +563,7 @@ describe('WLC Rules', () => {
       const node = ast.find((n) => n.id.includes('aaa authentication-server radius'));
       expect(node).toBeDefined();
       if (node) {
-        const result = WlcRadiusHost.check(node, { getAst: () => ast });
+        const result = runCheck(WlcRadiusHost, node, ast);
         expect(result.passed).toBe(true);
       }
     });
@@ -569,7 +578,7 @@ describe('WLC Rules', () => {
       const node = ast.find((n) => n.id.includes('aaa authentication-server radius'));
       expect(node).toBeDefined();
       if (node) {
-        const result = WlcRadiusKey.check(node, { getAst: () => ast });
+        const result = runCheck(WlcRadiusKey, node, ast);
         expect(result.passed).toBe(false);
       }
     });
@@ -583,7 +592,7 @@ describe('WLC Rules', () => {
       const node = ast.find((n) => n.id.includes('aaa authentication-server radius'));
       expect(node).toBeDefined();
       if (node) {
-        const result = WlcRadiusKey.check(node, { getAst: () => ast });
+        const result = runCheck(WlcRadiusKey, node, ast);
         expect(result.passed).toBe(true);
       }
     });
@@ -598,7 +607,7 @@ describe('WLC Rules', () => {
       const node = ast.find((n) => n.id.includes('ap-group'));
       expect(node).toBeDefined();
       if (node) {
-        const result = WlcApGroupVaps.check(node, { getAst: () => ast });
+        const result = runCheck(WlcApGroupVaps, node, ast);
         expect(result.passed).toBe(false);
       }
     });
@@ -613,7 +622,7 @@ describe('WLC Rules', () => {
       const node = ast.find((n) => n.id.includes('ap-group'));
       expect(node).toBeDefined();
       if (node) {
-        const result = WlcApGroupVaps.check(node, { getAst: () => ast });
+        const result = runCheck(WlcApGroupVaps, node, ast);
         expect(result.passed).toBe(true);
       }
     });
@@ -635,7 +644,7 @@ describe('Common Aruba Rules', () => {
       const node = ast.find((n) => n.id.includes('snmp-server community'));
       expect(node).toBeDefined();
       if (node) {
-        const result = SnmpNotDefault.check(node, { getAst: () => ast });
+        const result = runCheck(SnmpNotDefault, node, ast);
         expect(result.passed).toBe(false);
         expect(result.message).toContain('public');
       }
@@ -648,7 +657,7 @@ describe('Common Aruba Rules', () => {
       const node = ast.find((n) => n.id.includes('snmp-server community'));
       expect(node).toBeDefined();
       if (node) {
-        const result = SnmpNotDefault.check(node, { getAst: () => ast });
+        const result = runCheck(SnmpNotDefault, node, ast);
         expect(result.passed).toBe(false);
         expect(result.message).toContain('private');
       }
@@ -661,7 +670,7 @@ describe('Common Aruba Rules', () => {
       const node = ast.find((n) => n.id.includes('snmp-server community'));
       expect(node).toBeDefined();
       if (node) {
-        const result = SnmpNotDefault.check(node, { getAst: () => ast });
+        const result = runCheck(SnmpNotDefault, node, ast);
         expect(result.passed).toBe(true);
       }
     });
@@ -1,5 +1,5 @@
 import { describe, expect, test } from 'bun:test';
-import { SchemaAwareParser, RuleEngine } from '@sentriflow/core';
+import { SchemaAwareParser, RuleEngine, applyFixes } from '@sentriflow/core';
 import {
     // Layer 2 Trunk
     TrunkNoDTP,
@@ -62,6 +62,22 @@ interface GigabitEthernet0/1
             expect(failures[0]?.message).toContain('non-Cisco');
         });
 
+        test('should provide a fix that adds switchport nonegotiate', () => {
+            const config = `
+interface GigabitEthernet0/1
+ description SERVER:ESX-HOST01:vmnic0
+ switchport mode trunk
+`;
+            const nodes = parser.parse(config);
+            const failures = engine.run(nodes, rules).filter(r => !r.passed);
+            const fix = failures[0]?.fix;
+
+            expect(fix).toBeDefined();
+            const patched = applyFixes(config, [fix!]).content;
+            expect(patched).toContain(' switchport mode trunk\n switchport nonegotiate\n');
+            expect(engine.run(parser.parse(patched), rules).filter(r => !r.passed)).toHaveLength(0);
+        });
+
         test('should pass when trunk to server has switchport nonegotiate', () => {
             const config = `
 interface GigabitEthernet0/1
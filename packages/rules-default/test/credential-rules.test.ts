@@ -0,0 +1,68 @@
+// packages/rules-default/test/credential-rules.test.ts
+
+import { describe, test, expect } from 'bun:test';
+import { SchemaAwareParser, RuleEngine, getVendor } from '@sentriflow/core';
+import { allCredentialRules, DefaultCredential } from '../src/common/credential-rules';
+import { getRulesByVendor } from '../src/index';
+
+const runRules = (vendorId: string, config: string, withVendor = true) => {
+  const ast = new SchemaAwareParser({ vendor: getVendor(vendorId) }).parse(config);
+  const engine = new RuleEngine();
+  return engine.run(ast, allCredentialRules, withVendor ? { vendorId } : {});
+};
+
+const failuresOf = (results: ReturnType<typeof runRules>) =>
+  results.filter((r) => !r.passed).map((r) => `${r.loc?.startLine}: ${r.message}`);
+
+// ============================================================================
+// NET-CRED-001 Tests
+// ============================================================================
+
+describe('Credential Rules', () => {
+  describe('NET-CRED-001: Known default credentials', () => {
+    test('should report default values, also behind type 7', () => {
+      const results = runRules('cisco-ios', [
+        'hostname R1',
+        'enable password cisco',
+        'username admin privilege 15 password 7 0822455D0A16',
+        'username ops secret 9 $9$salt$hash',
+        'snmp-server community public RO',
+        'snmp-server community Xk9-2fQ RW',
+      ].join('\n'));
+
+      expect(failuresOf(results)).toEqual([
+        '1: Known default enable password.',
+        '2: Known default password of user "admin" (Cisco type 7).',
+        '4: Known default SNMP community.',
+      ]);
+      expect(results.find((r) => !r.passed)?.level).toBe('error');
+    });
+
+    test('should decode Junos $9$ secrets', () => {
+      const results = runRules('juniper-junos', 'set system radius-server 10.0.0.9 secret "$9$i.T3AtOREyApIcSrLX"');
+      expect(failuresOf(results)).toEqual(['0: Known default shared key (Junos $9$).']);
+    });
+
+    test('should report default passwords of other vendors', () => {
+      expect(failuresOf(runRules('mikrotik-routeros', '/user add name=admin password=admin group=full'))).toEqual([
+        '0: Known default password of user "admin".',
+      ]);
+      expect(failuresOf(runRules('vyos', "set system login user vyos authentication plaintext-password 'vyos'"))).toEqual([
+        '0: Known default password of user "vyos".',
+      ]);
+    });
+
+    test('should pass when the run does not know the vendor', () => {
+      const results = runRules('cisco-ios', 'enable password cisco', false);
+      expect(results.filter((r) => !r.passed)).toHaveLength(0);
+    });
+  });
+
+  describe('Registration', () => {
+    test('should apply to every vendor', () => {
+      for (const vendorId of ['cisco-ios', 'juniper-junos', 'huawei-vrp', 'mikrotik-routeros', 'vyos']) {
+        expect(getRulesByVendor(vendorId).map((r) => r.id)).toContain(DefaultCredential.id);
+      }
+    });
+  });
+});
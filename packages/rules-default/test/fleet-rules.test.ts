@@ -0,0 +1,214 @@
+// packages/rules-default/test/fleet-rules.test.ts
+
+import { describe, test, expect } from 'bun:test';
+import { SchemaAwareParser, createFleetDevice, getVendor, runFleetRules } from '@sentriflow/core';
+import type { FleetDevice, IFleetRule } from '@sentriflow/core';
+import {
+  allFleetRules,
+  LinkMtuMismatch,
+  BgpRemoteAsMismatch,
+  BgpNeighborNotReciprocal,
+  OspfAreaMismatch,
+  OspfParameterMismatch,
+  ReusedCredential,
+} from '../src/fleet/fleet-rules';
+import { findLinks } from '../src/fleet/topology';
+
+const device = (name: string, vendor: string, config: string): FleetDevice => {
+  const parser = new SchemaAwareParser({ vendor: getVendor(vendor) });
+  return createFleetDevice(`/configs/${name}.cfg`, vendor, parser.parse(config));
+};
+
+const runRule = (rule: IFleetRule, devices: FleetDevice[]) => runFleetRules(devices, [rule]).results;
+
+const ios = (name: string, ...lines: string[]) => device(name, 'cisco-ios', [`hostname ${name}`, ...lines].join('\n'));
+
+// ============================================================================
+// Link Rules
+// ============================================================================
+
+describe('Fleet link detection', () => {
+  test('pairs /30 and /31 subnets across devices only', () => {
+    const r1 = ios('R1', 'interface Gi0/1', ' ip address 10.0.0.1 255.255.255.252', 'interface Vlan10', ' ip address 192.168.1.1 255.255.255.0');
+    const r2 = ios('R2', 'interface Gi0/1', ' ip address 10.0.0.2 255.255.255.252', 'interface Vlan10', ' ip address 192.168.1.1 255.255.255.0');
+    const links = findLinks([r1, r2]);
+    expect(links.map((l) => l.subnet)).toEqual(['10.0.0.0/30']);
+  });
+
+  test('ignores shut down interfaces', () => {
+    const r1 = ios('R1', 'interface Gi0/1', ' ip address 10.0.0.1 255.255.255.252', ' shutdown');
+    const r2 = ios('R2', 'interface Gi0/1', ' ip address 10.0.0.2 255.255.255.252');
+    expect(findLinks([r1, r2])).toEqual([]);
+  });
+});
+
+describe('FLEET-LINK-001: Link MTU Mismatch', () => {
+  test('reports both ends of a link with different MTUs', () => {
+    const r1 = ios('R1', 'interface Gi0/1', ' ip address 10.0.0.1 255.255.255.252', ' mtu 9000');
+    const n2 = device('N2', 'cisco-nxos', 'hostname N2\ninterface Ethernet1/1\n  no switchport\n  ip address 10.0.0.2/30\n');
+    const results = runRule(LinkMtuMismatch, [r1, n2]);
+    expect(results.map((r) => r.filePath)).toEqual(['/configs/R1.cfg', '/configs/N2.cfg']);
+    expect(results[0]?.message).toContain('MTU 9000 does not match MTU 1500 of N2 Ethernet1/1');
+    expect(results[0]?.path).toBe('interface Gi0/1');
+  });
+
+  test('passes when "ip mtu" matches the peer MTU', () => {
+    const r1 = ios('R1', 'interface Gi0/1', ' ip address 10.0.0.1 255.255.255.252', ' mtu 9000', ' ip mtu 1500');
+    const r2 = ios('R2', 'interface Gi0/1', ' ip address 10.0.0.2 255.255.255.252');
+    expect(runRule(LinkMtuMismatch, [r1, r2])).toEqual([]);
+  });
+});
+
+// ============================================================================
+// BGP Rules
+// ============================================================================
+
+describe('FLEET-BGP-001: BGP Remote AS Mismatch', () => {
+  const r2 = ios('R2', 'interface Gi0/1', ' ip address 10.0.0.2 255.255.255.252', 'router bgp 65002', ' neighbor 10.0.0.1 remote-as 65001');
+
+  test('reports a remote-as that differs from the peer AS', () => {
+    const r1 = ios('R1', 'interface Gi0/1', ' ip address 10.0.0.1 255.255.255.252', 'router bgp 65001', ' neighbor 10.0.0.2 remote-as 65009');
+    const results = runRule(BgpRemoteAsMismatch, [r1, r2]);
+    expect(results).toHaveLength(1);
+    expect(results[0]?.nodeId).toBe('neighbor 10.0.0.2 remote-as 65009');
+    expect(results[0]?.message).toContain('R2 runs router bgp 65002');
+  });
+
+  test('resolves remote-as through peer groups and NX-OS neighbor sections', () => {
+    const r1 = ios(
+      'R1',
+      'interface Gi0/1',
+      ' ip address 10.0.0.1 255.255.255.252',
+      'router bgp 65001',
+      ' neighbor CORE peer-group',
+      ' neighbor CORE remote-as 65002',
+      ' neighbor 10.0.0.2 peer-group CORE'
+    );
+    const n2 = device(
+      'N2',
+      'cisco-nxos',
+      'hostname N2\ninterface Ethernet1/1\n  ip address 10.0.0.2/30\nrouter bgp 65002\n  neighbor 10.0.0.1\n    remote-as 65001\n'
+    );
+    expect(runRule(BgpRemoteAsMismatch, [r1, n2])).toEqual([]);
+  });
+
+  test('accepts the local-as presented by the peer', () => {
+    const r1 = ios('R1', 'interface Gi0/1', ' ip address 10.0.0.1 255.255.255.252', 'router bgp 65001', ' neighbor 10.0.0.2 remote-as 65100');
+    const migrating = ios(
+      'R2',
+      'interface Gi0/1',
+      ' ip address 10.0.0.2 255.255.255.252',
+      'router bgp 65002',
+      ' neighbor 10.0.0.1 remote-as 65001',
+      ' neighbor 10.0.0.1 local-as 65100'
+    );
+    expect(runRule(BgpRemoteAsMismatch, [r1, migrating])).toEqual([]);
+  });
+});
+
+describe('FLEET-BGP-002: BGP Neighbor Not Reciprocal', () => {
+  const r1 = ios('R1', 'interface Loopback0', ' ip address 1.1.1.1 255.255.255.255', 'router bgp 65000', ' neighbor 2.2.2.2 remote-as 65000');
+
+  test('reports a neighbor the peer does not peer back with', () => {
+    const r2 = ios('R2', 'interface Loopback0', ' ip address 2.2.2.2 255.255.255.255', 'router bgp 65000');
+    const results = runRule(BgpNeighborNotReciprocal, [r1, r2]);
+    expect(results).toHaveLength(1);
+    expect(results[0]?.message).toContain('R2, which has no neighbor statement for R1');
+  });
+
+  test('passes when the peer has a neighbor for any address of the device', () => {
+    const r2 = ios('R2', 'interface Loopback0', ' ip address 2.2.2.2 255.255.255.255', 'router bgp 65000', ' neighbor 1.1.1.1 remote-as 65000');
+    expect(runRule(BgpNeighborNotReciprocal, [r1, r2])).toEqual([]);
+  });
+
+  test('passes when the peer accepts dynamic neighbors', () => {
+    const r2 = ios('R2', 'interface Loopback0', ' ip address 2.2.2.2 255.255.255.255', 'router bgp 65000', ' bgp listen range 1.1.1.0/24 peer-group DYN');
+    expect(runRule(BgpNeighborNotReciprocal, [r1, r2])).toEqual([]);
+  });
+});
+
+// ============================================================================
+// OSPF Rules
+// ============================================================================
+
+describe('FLEET-OSPF-001: OSPF Area Mismatch', () => {
+  test('compares network statements with interface-level areas', () => {
+    const r1 = ios('R1', 'interface Gi0/1', ' ip address 10.0.0.1 255.255.255.252', 'router ospf 1', ' network 10.0.0.0 0.0.0.3 area 1');
+    const e2 = device('E2', 'arista-eos', 'hostname E2\ninterface Ethernet1\n   no switchport\n   ip address 10.0.0.2/30\n   ip ospf area 0.0.0.0\n');
+    const results = runRule(OspfAreaMismatch, [r1, e2]);
+    expect(results.map((r) => r.message)).toEqual([
+      'OSPF area 0.0.0.1 does not match area 0.0.0.0 of E2 Ethernet1 on link 10.0.0.0/30.',
+      'OSPF area 0.0.0.0 does not match area 0.0.0.1 of R1 Gi0/1 on link 10.0.0.0/30.',
+    ]);
+  });
+
+  test('treats decimal and dotted area IDs as equal', () => {
+    const r1 = ios('R1', 'interface Gi0/1', ' ip address 10.0.0.1 255.255.255.252', ' ip ospf 1 area 0');
+    const n2 = device('N2', 'cisco-nxos', 'hostname N2\ninterface Ethernet1/1\n  ip address 10.0.0.2/30\n  ip router ospf UNDERLAY area 0.0.0.0\n');
+    expect(runRule(OspfAreaMismatch, [r1, n2])).toEqual([]);
+  });
+});
+
+describe('FLEET-OSPF-002: OSPF Parameter Mismatch', () => {
+  test('reports timer and network type mismatches', () => {
+    const r1 = ios(
+      'R1',
+      'interface Gi0/1',
+      ' ip address 10.0.0.1 255.255.255.254',
+      ' ip ospf 1 area 0',
+      ' ip ospf hello-interval 5',
+      ' ip ospf network point-to-point'
+    );
+    const r2 = ios('R2', 'interface Gi0/1', ' ip address 10.0.0.0 255.255.255.254', ' ip ospf 1 area 0');
+    const results = runRule(OspfParameterMismatch, [r1, r2]);
+    expect(results[0]?.message).toBe(
+      'OSPF parameters do not match R2 Gi0/1 on link 10.0.0.0/31: hello interval 5 vs 10, dead interval 20 vs 40, network type point-to-point vs broadcast.'
+    );
+    expect(results).toHaveLength(2);
+  });
+
+  test('ignores links where only one end runs OSPF', () => {
+    const r1 = ios('R1', 'interface Gi0/1', ' ip address 10.0.0.1 255.255.255.252', ' ip ospf 1 area 0', ' ip ospf hello-interval 5');
+    const r2 = ios('R2', 'interface Gi0/1', ' ip address 10.0.0.2 255.255.255.252');
+    expect(runRule(OspfParameterMismatch, [r1, r2])).toEqual([]);
+  });
+});
+
+// ============================================================================
+// Credential Rules
+// ============================================================================
+
+describe('FLEET-CRED-001: Reused Credential', () => {
+  test('reports secrets shared across devices, decoding type 7 and $9$', () => {
+    const r1 = ios('R1', 'username admin secret 9 $9$salt$hash', 'tacacs-server host 10.0.0.9 key 7 0822455D0A16');
+    const r2 = ios('R2', 'username admin secret 9 $9$other$hash', 'tacacs-server host 10.0.0.9 key cisco');
+    const j1 = device(
+      'J1',
+      'juniper-junos',
+      'system {\n    host-name J1;\n    tacplus-server {\n        10.0.0.9 secret "$9$i.T3AtOREyApIcSrLX";\n    }\n}\n'
+    );
+    const j2 = device('J2', 'juniper-junos', 'set system host-name J2\nset system tacplus-server 10.0.0.9 secret "$9$i.T3AtOREyApIcSrLX"\n');
+
+    const results = runRule(ReusedCredential, [r1, r2, j1, j2]);
+    expect(results.map((r) => `${r.filePath}:${r.loc?.startLine}: ${r.message}`)).toEqual([
+      '/configs/R1.cfg:2: The shared key (Cisco type 7) is also used on R2.',
+      '/configs/R2.cfg:2: The shared key is also used on R1.',
+      '/configs/J1.cfg:3: The shared key (Junos $9$) is also used on J2.',
+      '/configs/J2.cfg:1: The shared key (Junos $9$) is also used on J1.',
+    ]);
+    expect(results[0]?.nodeId).toBe('tacacs-server host 10.0.0.9 key 7 0822455D0A16');
+  });
+
+  test('ignores secrets repeated on one device', () => {
+    const r1 = ios('R1', 'snmp-server community S3cure RO', 'snmp-server host 10.0.0.9 version 2c S3cure');
+    expect(runRule(ReusedCredential, [r1, ios('R2')])).toEqual([]);
+  });
+});
+
+describe('allFleetRules', () => {
+  test('skips devices of unsupported vendors', () => {
+    const junos = device('J1', 'juniper-junos', 'system {\n    host-name J1;\n}\n');
+    expect(runFleetRules([junos], allFleetRules)).toEqual({ results: [], errors: [] });
+    expect(junos.hostname).toBe('J1');
+  });
+});
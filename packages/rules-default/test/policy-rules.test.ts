@@ -0,0 +1,122 @@
+// packages/rules-default/test/policy-rules.test.ts
+
+import { describe, test, expect } from 'bun:test';
+import { SchemaAwareParser, RuleEngine, getVendor } from '@sentriflow/core';
+import {
+  allPolicyRules,
+  ShadowedPolicyRule,
+  RedundantPolicyRule,
+  OverlyBroadPolicyRule,
+} from '../src/common/policy-rules';
+import { getRulesByVendor } from '../src/index';
+
+const runRules = (vendorId: string, config: string, withVendor = true) => {
+  const ast = new SchemaAwareParser({ vendor: getVendor(vendorId) }).parse(config);
+  const engine = new RuleEngine();
+  return engine.run(ast, allPolicyRules, withVendor ? { vendorId } : {});
+};
+
+const failuresOf = (results: ReturnType<typeof runRules>, ruleId: string) =>
+  results.filter((r) => !r.passed && r.ruleId === ruleId).map((r) => `${r.loc?.startLine}: ${r.message}`);
+
+// ============================================================================
+// NET-POLICY-001 / NET-POLICY-002 / NET-POLICY-003 Tests
+// ============================================================================
+
+describe('Policy Rules', () => {
+  describe('Cisco IOS', () => {
+    const config = `ip access-list extended OUTSIDE-IN
+ 10 permit tcp any host 10.0.0.1 eq 443
+ 20 deny tcp any host 10.0.0.1 eq 443
+ 30 permit tcp 10.1.0.0 0.0.255.255 any eq 80
+ 40 permit tcp 10.0.0.0 0.255.255.255 any eq www
+ 50 permit ip any any
+`;
+
+    test('should report shadowed entries as warnings', () => {
+      const results = runRules('cisco-ios', config);
+      expect(failuresOf(results, 'NET-POLICY-001')).toEqual([
+        '2: Shadowed rule 20 of ACL "OUTSIDE-IN" never matches: rule 10 permits all its traffic first.',
+      ]);
+      expect(results.find((r) => !r.passed && r.ruleId === 'NET-POLICY-001')?.level).toBe('warning');
+    });
+
+    test('should report redundant entries as info', () => {
+      const results = runRules('cisco-ios', config);
+      expect(failuresOf(results, 'NET-POLICY-002')).toEqual([
+        '3: Redundant rule 30 of ACL "OUTSIDE-IN" is covered by rule 40, which has the same action.',
+      ]);
+      expect(results.find((r) => !r.passed && r.ruleId === 'NET-POLICY-002')?.level).toBe('info');
+    });
+
+    test('should report permit-any entries', () => {
+      const results = runRules('cisco-ios', config);
+      expect(failuresOf(results, 'NET-POLICY-003')).toEqual([
+        '5: Overly broad rule 50 of ACL "OUTSIDE-IN": permits any source, destination and service.',
+      ]);
+    });
+
+    test('should pass when the run does not know the vendor', () => {
+      const results = runRules('cisco-ios', config, false);
+      expect(results.filter((r) => !r.passed)).toHaveLength(0);
+    });
+  });
+
+  describe('Juniper JunOS', () => {
+    test('should report on the term of a firewall filter', () => {
+      const results = runRules('juniper-junos', [
+        'set firewall family inet filter PROTECT-RE term mgmt from source-address 10.0.0.0/8',
+        'set firewall family inet filter PROTECT-RE term mgmt then accept',
+        'set firewall family inet filter PROTECT-RE term lab from source-address 10.1.0.0/16',
+        'set firewall family inet filter PROTECT-RE term lab then discard',
+      ].join('\n'));
+      expect(failuresOf(results, 'NET-POLICY-001')).toEqual([
+        '2: Shadowed rule lab of firewall filter "PROTECT-RE" never matches: rule mgmt permits all its traffic first.',
+      ]);
+    });
+  });
+
+  describe('Fortinet FortiGate', () => {
+    test('should report on the edit entry of a policy', () => {
+      const results = runRules('fortinet-fortigate', `config firewall policy
+    edit 1
+        set srcintf "port1"
+        set dstintf "wan1"
+        set srcaddr "all"
+        set dstaddr "all"
+        set action accept
+        set schedule "always"
+        set service "ALL"
+    next
+end
+`);
+      expect(failuresOf(results, 'NET-POLICY-003')).toEqual([
+        '1: Overly broad rule 1 of policy table "firewall policy": permits any source, destination and service.',
+      ]);
+    });
+  });
+
+  describe('Palo Alto PAN-OS', () => {
+    test('should not report rules restricted to an application as broad', () => {
+      const results = runRules('paloalto-panos', [
+        'set rulebase security rules web from trust to untrust source any destination any application web-browsing service application-default action allow',
+        'set rulebase security rules any from trust to untrust source any destination any application any service any action allow',
+      ].join('\n'));
+      expect(failuresOf(results, 'NET-POLICY-003')).toEqual([
+        '1: Overly broad rule any of rulebase "rulebase security": permits any source, destination and service.',
+      ]);
+    });
+  });
+
+  describe('Registration', () => {
+    test('should apply to the vendors the policy analysis covers', () => {
+      for (const vendorId of ['cisco-ios', 'cisco-nxos', 'arista-eos', 'juniper-junos', 'fortinet-fortigate', 'paloalto-panos', 'vyos']) {
+        const ids = getRulesByVendor(vendorId).map((r) => r.id);
+        expect(ids).toContain(ShadowedPolicyRule.id);
+        expect(ids).toContain(RedundantPolicyRule.id);
+        expect(ids).toContain(OverlyBroadPolicyRule.id);
+      }
+      expect(getRulesByVendor('huawei-vrp').map((r) => r.id)).not.toContain(ShadowedPolicyRule.id);
+    });
+  });
+});
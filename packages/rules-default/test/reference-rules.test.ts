@@ -0,0 +1,144 @@
+// packages/rules-default/test/reference-rules.test.ts
+
+import { describe, test, expect } from 'bun:test';
+import { SchemaAwareParser, RuleEngine, getVendor } from '@sentriflow/core';
+import {
+  allReferenceRules,
+  UndefinedObjectReference,
+  UnusedObjectDefinition,
+} from '../src/common/reference-rules';
+import { getRulesByVendor } from '../src/index';
+
+const runRules = (vendorId: string, config: string, withVendor = true) => {
+  const ast = new SchemaAwareParser({ vendor: getVendor(vendorId) }).parse(config);
+  const engine = new RuleEngine();
+  return engine.run(ast, allReferenceRules, withVendor ? { vendorId } : {});
+};
+
+const failuresOf = (results: ReturnType<typeof runRules>, ruleId: string) =>
+  results.filter((r) => !r.passed && r.ruleId === ruleId).map((r) => `${r.loc?.startLine}: ${r.message}`);
+
+// ============================================================================
+// NET-REF-001 / NET-REF-002 Tests
+// ============================================================================
+
+describe('Object Reference Rules', () => {
+  describe('Cisco IOS', () => {
+    const config = `ip access-list extended WEB
+ permit tcp any any eq 443
+ip access-list standard UNUSED
+ permit any
+route-map RM-IN permit 10
+ match ip address prefix-list PL-IN
+interface GigabitEthernet0/1
+ ip access-group WEB in
+ ip access-group MISSING out
+router bgp 65000
+ neighbor 10.0.0.2 route-map RM-IN in
+`;
+
+    test('should report dangling references as errors on the referencing command', () => {
+      const results = runRules('cisco-ios', config);
+      expect(failuresOf(results, 'NET-REF-001')).toEqual([
+        '5: References undefined prefix-list "PL-IN".',
+        '8: References undefined ACL "MISSING".',
+      ]);
+      expect(results.find((r) => !r.passed && r.ruleId === 'NET-REF-001')?.level).toBe('error');
+    });
+
+    test('should report unused definitions as info on the defining command', () => {
+      const results = runRules('cisco-ios', config);
+      expect(failuresOf(results, 'NET-REF-002')).toEqual([
+        '2: Unused ACL "UNUSED": not referenced by any command.',
+      ]);
+      expect(results.find((r) => !r.passed && r.ruleId === 'NET-REF-002')?.level).toBe('info');
+    });
+
+    test('should pass when the run does not know the vendor', () => {
+      const results = runRules('cisco-ios', config, false);
+      expect(results.filter((r) => !r.passed)).toHaveLength(0);
+    });
+  });
+
+  describe('Arista EOS', () => {
+    test('should report route-maps that nothing applies', () => {
+      const results = runRules('arista-eos', `ip prefix-list PL seq 10 permit 10.0.0.0/8
+route-map RM permit 10
+   match ip address prefix-list PL
+`);
+      expect(failuresOf(results, 'NET-REF-001')).toEqual([]);
+      expect(failuresOf(results, 'NET-REF-002')).toEqual([
+        '1: Unused route-map "RM": not referenced by any command.',
+      ]);
+    });
+  });
+
+  describe('Juniper JunOS', () => {
+    test('should report missing policy statements and unused prefix-lists', () => {
+      const results = runRules('juniper-junos', `policy-options {
+    prefix-list MGMT {
+        10.0.0.0/8;
+    }
+}
+protocols {
+    bgp {
+        group ext {
+            export [ EXPORT ];
+        }
+    }
+}
+`);
+      expect(failuresOf(results, 'NET-REF-001')).toEqual(['8: References undefined policy-statement "EXPORT".']);
+      expect(failuresOf(results, 'NET-REF-002')).toEqual(['1: Unused prefix-list "MGMT": not referenced by any command.']);
+    });
+  });
+
+  describe('Fortinet FortiGate', () => {
+    const config = `config firewall address
+    edit "all"
+    next
+    edit "web"
+        set subnet 10.0.0.1 255.255.255.255
+    next
+end
+config firewall policy
+    edit 1
+        set srcaddr "all"
+        set dstaddr "web" "db"
+        set service "HTTPS"
+        set schedule "always"
+    next
+end
+`;
+
+    test('should not report predefined objects', () => {
+      const results = runRules('fortinet-fortigate', config);
+      expect(failuresOf(results, 'NET-REF-001')).toEqual(['10: References undefined address "db".']);
+      expect(failuresOf(results, 'NET-REF-002')).toEqual([]);
+    });
+  });
+
+  describe('Palo Alto PAN-OS', () => {
+    test('should not report App-IDs, literal addresses or region codes', () => {
+      const results = runRules('paloalto-panos', [
+        'set address web ip-netmask 10.0.0.1/32',
+        'set address old ip-netmask 10.0.0.2/32',
+        'set zone trust network layer3 ethernet1/1',
+        'set rulebase security rules r1 from trust to untrust source 10.1.0.0/16 destination [ web US ] application web-browsing service application-default action allow',
+      ].join('\n'));
+      expect(failuresOf(results, 'NET-REF-001')).toEqual(['3: References undefined zone "untrust".']);
+      expect(failuresOf(results, 'NET-REF-002')).toEqual(['1: Unused address "old": not referenced by any command.']);
+    });
+  });
+
+  describe('Registration', () => {
+    test('should apply to the vendors the cross-reference index covers', () => {
+      for (const vendorId of ['cisco-ios', 'cisco-nxos', 'arista-eos', 'juniper-junos', 'fortinet-fortigate', 'paloalto-panos']) {
+        const ids = getRulesByVendor(vendorId).map((r) => r.id);
+        expect(ids).toContain(UndefinedObjectReference.id);
+        expect(ids).toContain(UnusedObjectDefinition.id);
+      }
+      expect(getRulesByVendor('vyos').map((r) => r.id)).not.toContain(UndefinedObjectReference.id);
+    });
+  });
+});
@@ -1,6 +1,14 @@
 import { describe, expect, test } from 'bun:test';
 import { SchemaAwareParser, RuleEngine } from '@sentriflow/core';
-import { NoMulticastBroadcastIp, OspfNetworkBestPractice, allRules } from '../src/index';
+import type { IRule } from '@sentriflow/core';
+import {
+    NoMulticastBroadcastIp,
+    OspfNetworkBestPractice,
+    allRules,
+    allFrameworks,
+    getFramework,
+} from '../src/index';
+import * as iosRules from '../src/cisco/ios-rules';
 import { readFile } from 'fs/promises';
 import { join } from 'path';
 
@@ -268,3 +276,35 @@ router ospf 1
         expect(failures[0]?.message).toContain('10.0.0.0 0.0.0.7');
     });
 });
+
+describe('Compliance mappings', () => {
+    // Includes the Cisco IOS rules that are exported but not enabled by default
+    const rules = [
+        ...allRules,
+        ...Object.values(iosRules).filter((value): value is IRule => !Array.isArray(value) && 'check' in value),
+    ];
+
+    test('should map rules to existing framework controls only', () => {
+        const mapped = rules.filter((rule) => rule.metadata.compliance);
+        expect(mapped.length).toBeGreaterThan(0);
+
+        for (const rule of mapped) {
+            for (const { framework, controls } of rule.metadata.compliance!) {
+                const controlIds = getFramework(framework)?.controls.map((control) => control.id);
+                expect(controlIds, `${rule.id}: ${framework}`).toBeDefined();
+                for (const control of controls) {
+                    expect(controlIds, `${rule.id}: ${framework} ${control}`).toContain(control);
+                }
+            }
+        }
+    });
+
+    test('should have unique framework and control IDs', () => {
+        const ids = allFrameworks.map((framework) => framework.id);
+        expect(new Set(ids).size).toBe(ids.length);
+        for (const framework of allFrameworks) {
+            const controlIds = framework.controls.map((control) => control.id);
+            expect(new Set(controlIds).size).toBe(controlIds.length);
+        }
+    });
+});
@@ -14,10 +14,16 @@ import {
 } from '@sentriflow/core';
 import type { VendorSchema } from '@sentriflow/core';
 import { getState } from '../state/context';
-import { runScan, scheduleScan, mapSeverity } from '../services/scanner';
+import {
+  runScan,
+  scheduleScan,
+  mapSeverity,
+  applyDocumentSuppressions,
+} from '../services/scanner';
 import { getAllRules, getRuleById } from '../services/ruleManager';
 import {
-  formatCategory,
+  formatResultCategory,
+  matchesCategoryFilter,
   isConfigFile as isConfigFilePath,
   MAX_FILE_SIZE,
 } from '../utils/helpers';
@@ -128,7 +134,7 @@ export function cmdScanSelection(): void {
       state.lastIndexedVendorId = vendorId;
     }
 
-    const results = state.engine.run(nodes);
+    const results = state.engine.run(nodes, undefined, { vendorId });
 
     const diagnostics: vscode.Diagnostic[] = [];
     let errorCount = 0;
@@ -143,18 +149,11 @@ export function cmdScanSelection(): void {
           const line = editor.document.lineAt(absoluteLine);
           const severity = mapSeverity(result.level);
           const rule = getRuleById(result.ruleId);
-          const category = formatCategory(rule);
+          const category = formatResultCategory(result, rule);
 
           // Apply category filter if set
-          if (state.categoryFilter) {
-            const ruleCats = rule?.category
-              ? Array.isArray(rule.category)
-                ? rule.category
-                : [rule.category]
-              : [];
-            if (!ruleCats.includes(state.categoryFilter)) {
-              continue; // Skip diagnostics not matching the filter
-            }
+          if (!matchesCategoryFilter(result, rule, state.categoryFilter)) {
+            continue; // Skip diagnostics not matching the filter
           }
 
           const diagnostic = new vscode.Diagnostic(
@@ -306,8 +305,13 @@ async function scanFileByUri(uri: vscode.Uri): Promise<BulkScanFileResult> {
     state.lastIndexedVendorId = vendorId;
   }
 
-  // Run rules
-  const results = state.engine.run(nodes);
+  // Run rules, then apply the file's inline suppressions
+  const results = applyDocumentSuppressions(
+    uri,
+    state.engine.run(nodes, undefined, { vendorId }),
+    text,
+    vendor
+  );
 
   // Build diagnostics
   const diagnostics: vscode.Diagnostic[] = [];
@@ -320,18 +324,11 @@ async function scanFileByUri(uri: vscode.Uri): Promise<BulkScanFileResult> {
         const line = document.lineAt(startLine);
         const severity = mapSeverity(result.level);
         const rule = getRuleById(result.ruleId);
-        const category = formatCategory(rule);
+        const category = formatResultCategory(result, rule);
 
         // Apply category filter if set
-        if (state.categoryFilter) {
-          const ruleCats = rule?.category
-            ? Array.isArray(rule.category)
-              ? rule.category
-              : [rule.category]
-            : [];
-          if (!ruleCats.includes(state.categoryFilter)) {
-            continue;
-          }
+        if (!matchesCategoryFilter(result, rule, state.categoryFilter)) {
+          continue;
         }
 
         const diagnostic = new vscode.Diagnostic(
@@ -9,7 +9,7 @@
 import * as vscode from 'vscode';
 import { getState } from '../state/context';
 import { runScan } from '../services/scanner';
-import type { Suppression } from '../services/suppressionManager';
+import type { Suppression, SuppressionDetails } from '../services/suppressionManager';
 
 // ============================================================================
 // Logging Helpers
@@ -29,6 +29,54 @@ function log(message: string): void {
 // Suppress Commands (US1 & US2)
 // ============================================================================
 
+/** Owner entered for the last shared suppression, offered as the default */
+let lastOwner = '';
+
+/**
+ * Ask for the justification, owner and optional expiry date of a suppression
+ * in the shared suppression file.
+ *
+ * @returns The details, or undefined if the user cancelled
+ */
+async function promptSuppressionDetails(ruleId: string): Promise<SuppressionDetails | undefined> {
+  const title = `Suppress ${ruleId} (.sentriflow-suppressions.json)`;
+  const required = (label: string) => (value: string) =>
+    value.trim() ? undefined : `${label} is required`;
+
+  const justification = await vscode.window.showInputBox({
+    title,
+    prompt: 'Why is this finding accepted?',
+    validateInput: required('A justification'),
+  });
+  if (justification === undefined) return undefined;
+
+  const owner = await vscode.window.showInputBox({
+    title,
+    prompt: 'Owner (name, email or team)',
+    value: lastOwner,
+    validateInput: required('An owner'),
+  });
+  if (owner === undefined) return undefined;
+  lastOwner = owner.trim();
+
+  const expires = await vscode.window.showInputBox({
+    title,
+    prompt: 'Expiry date (YYYY-MM-DD), or empty for none',
+    validateInput: (value) =>
+      !value.trim() ||
+      (/^\d{4}-\d{2}-\d{2}$/.test(value.trim()) && !Number.isNaN(Date.parse(value.trim())))
+        ? undefined
+        : 'Expected a date as YYYY-MM-DD',
+  });
+  if (expires === undefined) return undefined;
+
+  return {
+    justification: justification.trim(),
+    owner: lastOwner,
+    expires: expires.trim() || undefined,
+  };
+}
+
 /**
  * Arguments passed to suppress commands via command links.
  */
@@ -58,11 +106,18 @@ export async function cmdSuppressOccurrence(args: SuppressCommandArgs): Promise<
     return;
   }
 
+  let details: SuppressionDetails | undefined;
+  if (state.suppressionManager.usesSharedFile) {
+    details = await promptSuppressionDetails(args.ruleId);
+    if (!details) return;
+  }
+
   try {
     const result = await state.suppressionManager.suppressLine(
       editor.document,
       args.lineNumber,
-      args.ruleId
+      args.ruleId,
+      details
     );
 
     if (result.success) {
@@ -103,10 +158,17 @@ export async function cmdSuppressRuleInFile(args: { ruleId: string; filePath: st
     return;
   }
 
+  let details: SuppressionDetails | undefined;
+  if (state.suppressionManager.usesSharedFile) {
+    details = await promptSuppressionDetails(args.ruleId);
+    if (!details) return;
+  }
+
   try {
     const result = await state.suppressionManager.suppressFile(
       editor.document,
-      args.ruleId
+      args.ruleId,
+      details
     );
 
     if (result.success) {
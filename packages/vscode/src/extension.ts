@@ -31,6 +31,7 @@ import type {
   PackDisableConfig,
   VendorSchema,
   IncrementalParserOptions,
+  RuleFix,
 } from '@sentriflow/core';
 import { allRules, getRulesByVendor } from '@sentriflow/rules-default';
 import { RulesTreeProvider, RuleTreeItem } from './providers/RulesTreeProvider';
@@ -43,6 +44,11 @@ import {
 import { LicenseTreeProvider } from './providers/LicenseTreeProvider';
 import { SuppressionsTreeProvider } from './providers/SuppressionsTreeProvider';
 import { SentriFlowCodeActionProvider } from './providers/CodeActionProvider';
+import {
+  SentriFlowDocumentSymbolProvider,
+  SentriFlowFoldingRangeProvider,
+} from './providers/OutlineProvider';
+import { SentriFlowCrossReferenceProvider } from './providers/CrossReferenceProvider';
 import { CustomRulesLoader } from './providers/CustomRulesLoader';
 import { CustomRulesCompletionProvider } from './providers/CustomRulesCompletionProvider';
 import {
@@ -407,6 +413,9 @@ const scanVersions = new Map<string, number>();
 // Per-document vendor overrides (URI → vendor ID)
 const documentVendorOverrides = new Map<string, string>();
 
+// Machine-applicable fixes from the last scan (URI → `ruleId:line` → fix)
+const documentFixes = new Map<string, Map<string, RuleFix>>();
+
 /** Storage key for persisting vendor overrides */
 const VENDOR_OVERRIDES_STORAGE_KEY = 'sentriflow.documentVendorOverrides';
 
@@ -590,6 +599,7 @@ export function activate(context: vscode.ExtensionContext) {
 
       // Per-document vendor overrides
       documentVendorOverrides,
+      documentFixes,
 
       // Suppression management
       suppressionManager,
@@ -607,6 +617,8 @@ export function activate(context: vscode.ExtensionContext) {
       vscode.commands.executeCommand('setContext', 'sentriflow.hasSuppressions', hasSuppressions);
     };
     suppressionManager.onDidChange(updateSuppressionContext);
+    // Rescan when the shared suppression file changes on disk
+    suppressionManager.onDidReload(() => rescanActiveEditor());
 
     // Initialize suppression manager (must be after initState)
     suppressionManager.initialize(context).then(updateSuppressionContext).catch((err) => {
@@ -632,6 +644,27 @@ export function activate(context: vscode.ExtensionContext) {
       )
     );
 
+    // Register outline and folding providers for configuration sections
+    const configSelector = SUPPORTED_LANGUAGES.map((language) => ({ scheme: 'file', language }));
+    context.subscriptions.push(
+      vscode.languages.registerDocumentSymbolProvider(
+        configSelector,
+        new SentriFlowDocumentSymbolProvider(),
+        { label: 'SentriFlow' }
+      ),
+      vscode.languages.registerFoldingRangeProvider(
+        configSelector,
+        new SentriFlowFoldingRangeProvider()
+      )
+    );
+
+    // Register definition and reference providers for named objects
+    const crossReferenceProvider = new SentriFlowCrossReferenceProvider();
+    context.subscriptions.push(
+      vscode.languages.registerDefinitionProvider(configSelector, crossReferenceProvider),
+      vscode.languages.registerReferenceProvider(configSelector, crossReferenceProvider)
+    );
+
     // Register completion provider for custom rules JSON files
     const customRulesCompletionProvider = new CustomRulesCompletionProvider();
     context.subscriptions.push(
@@ -71,8 +71,9 @@ export function onDocumentClose(document: vscode.TextDocument): void {
   // Clear incremental parser cache for this document
   state.incrementalParser.invalidate(uri);
 
-  // Clear diagnostics
+  // Clear diagnostics and their fixes
   state.diagnosticCollection.delete(document.uri);
+  state.documentFixes.delete(uri);
 }
 
 /**
@@ -209,6 +210,11 @@ export function onConfigurationChange(
     rescanActiveEditor();
   }
 
+  if (event.affectsConfiguration('sentriflow.inlineSuppressions')) {
+    log('Inline suppressions setting changed');
+    rescanActiveEditor();
+  }
+
   if (event.affectsConfiguration('sentriflow.ipAddresses.filterSpecialRanges')) {
     log('IP filter setting changed');
     // Re-extract IPs with new filter setting
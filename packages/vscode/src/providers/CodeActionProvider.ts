@@ -2,14 +2,49 @@
  * SentriFlow Code Action Provider
  *
  * Provides quick fix actions for SentriFlow diagnostics.
- * Allows users to suppress diagnostics via the quick fix menu (Cmd+. / Ctrl+.).
+ * Applies rule-provided fixes and allows users to suppress diagnostics
+ * via the quick fix menu (Cmd+. / Ctrl+.).
  */
 
 import * as vscode from 'vscode';
+import { getFixLineEdits } from '@sentriflow/core';
+import type { RuleFix } from '@sentriflow/core';
+import { getState } from '../state/context';
+import { getFixKey } from '../services/scanner';
+
+/**
+ * Convert a rule fix into a workspace edit for the given document.
+ * Fix edits are whole-line edits, so each one replaces the range from the
+ * start of its first line to the start of the line after it.
+ */
+function createFixEdit(document: vscode.TextDocument, fix: RuleFix): vscode.WorkspaceEdit {
+  const edit = new vscode.WorkspaceEdit();
+  const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+
+  for (const lineEdit of getFixLineEdits(fix)) {
+    const text = lineEdit.lines.map((line) => line + eol).join('');
+
+    if (lineEdit.startLine >= document.lineCount) {
+      // Appending past the last line: the document may not end with a newline
+      const end = document.lineAt(document.lineCount - 1).range.end;
+      edit.insert(document.uri, end, eol + text.slice(0, -eol.length));
+      continue;
+    }
+
+    const start = new vscode.Position(lineEdit.startLine, 0);
+    const end =
+      lineEdit.endLine >= document.lineCount
+        ? document.lineAt(document.lineCount - 1).rangeIncludingLineBreak.end
+        : new vscode.Position(lineEdit.endLine, 0);
+    edit.replace(document.uri, new vscode.Range(start, end), text);
+  }
+
+  return edit;
+}
 
 /**
  * Code action provider for SentriFlow diagnostics.
- * Offers suppression options in the quick fix menu.
+ * Offers rule fixes and suppression options in the quick fix menu.
  */
 export class SentriFlowCodeActionProvider implements vscode.CodeActionProvider {
   /**
@@ -28,6 +63,7 @@ export class SentriFlowCodeActionProvider implements vscode.CodeActionProvider {
     context: vscode.CodeActionContext
   ): vscode.CodeAction[] {
     const actions: vscode.CodeAction[] = [];
+    const fixes = getState().documentFixes.get(document.uri.toString());
 
     for (const diagnostic of context.diagnostics) {
       // Only process SentriFlow diagnostics
@@ -40,6 +76,19 @@ export class SentriFlowCodeActionProvider implements vscode.CodeActionProvider {
         continue;
       }
 
+      // Action 0: Apply the rule-provided fix, when the rule supplied one
+      const fix = fixes?.get(getFixKey(ruleId, diagnostic.range.start.line));
+      if (fix) {
+        const applyFix = new vscode.CodeAction(
+          `Fix ${ruleId}: ${fix.description}`,
+          vscode.CodeActionKind.QuickFix
+        );
+        applyFix.edit = createFixEdit(document, fix);
+        applyFix.diagnostics = [diagnostic];
+        applyFix.isPreferred = true;
+        actions.push(applyFix);
+      }
+
       // Action 1: Suppress this occurrence (line-level)
       const suppressLine = new vscode.CodeAction(
         `Suppress ${ruleId} on this line`,
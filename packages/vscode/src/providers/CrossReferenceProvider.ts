@@ -0,0 +1,125 @@
+/**
+ * SentriFlow Cross-Reference Provider
+ *
+ * Go to Definition and Find All References for named objects: ACLs,
+ * prefix-lists, route-maps, policy statements, address and service objects.
+ * Built on the core cross-reference index of the parsed document.
+ */
+
+import * as vscode from 'vscode';
+import { buildCrossReferenceIndex } from '@sentriflow/core';
+import type { CrossReferenceIndex, XrefSymbol } from '@sentriflow/core';
+import { getState } from '../state/context';
+import { parseDocument } from '../services/scanner';
+
+/** Characters that delimit object names in a command */
+const NAME_DELIMITER = /[\s"'[\]{};()]/;
+
+/**
+ * Finds the ranges of a name in a line, as a whole word.
+ */
+function findNameRanges(text: string, name: string, line: number): vscode.Range[] {
+  const ranges: vscode.Range[] = [];
+  for (let at = text.indexOf(name); at !== -1; at = text.indexOf(name, at + 1)) {
+    const before = at === 0 || NAME_DELIMITER.test(text[at - 1] ?? '');
+    const end = at + name.length;
+    const after = end === text.length || NAME_DELIMITER.test(text[end] ?? '');
+    if (before && after) {
+      ranges.push(new vscode.Range(line, at, line, end));
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Definition and reference provider for named configuration objects.
+ */
+export class SentriFlowCrossReferenceProvider
+  implements vscode.DefinitionProvider, vscode.ReferenceProvider
+{
+  // Index of the last document, rebuilt when its version changes
+  private cached: { uri: string; version: number; index: CrossReferenceIndex } | undefined;
+
+  provideDefinition(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    _token: vscode.CancellationToken
+  ): vscode.Location[] {
+    const found = this.findSymbolAt(document, position);
+    if (!found) {
+      return [];
+    }
+    const definition = found.index.getDefinition(found.symbol.kind, found.symbol.name);
+    return definition ? this.toLocations(document, [definition]) : [];
+  }
+
+  provideReferences(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    context: vscode.ReferenceContext,
+    _token: vscode.CancellationToken
+  ): vscode.Location[] {
+    const found = this.findSymbolAt(document, position);
+    if (!found) {
+      return [];
+    }
+    const { index, symbol } = found;
+    const symbols: XrefSymbol[] = [...index.getReferences(symbol.kind, symbol.name)];
+    const definition = index.getDefinition(symbol.kind, symbol.name);
+    if (definition && context.includeDeclaration) {
+      symbols.unshift(definition);
+    }
+    return this.toLocations(document, symbols);
+  }
+
+  private getIndex(document: vscode.TextDocument): CrossReferenceIndex | undefined {
+    const uri = document.uri.toString();
+    if (this.cached?.uri === uri && this.cached.version === document.version) {
+      return this.cached.index;
+    }
+
+    const nodes = parseDocument(document);
+    const vendor = getState().incrementalParser.getCachedVendor(uri);
+    if (!nodes || !vendor) {
+      return undefined;
+    }
+    const index = buildCrossReferenceIndex(nodes, vendor.id);
+    this.cached = { uri, version: document.version, index };
+    return index;
+  }
+
+  /**
+   * Finds the definition or reference whose name is under the cursor.
+   */
+  private findSymbolAt(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): { index: CrossReferenceIndex; symbol: XrefSymbol } | undefined {
+    const index = this.getIndex(document);
+    if (!index) {
+      return undefined;
+    }
+
+    const text = document.lineAt(position.line).text;
+    const symbol = index
+      .getSymbolsAtLine(position.line)
+      .find((candidate) =>
+        findNameRanges(text, candidate.name, position.line).some((range) => range.contains(position))
+      );
+    return symbol ? { index, symbol } : undefined;
+  }
+
+  private toLocations(document: vscode.TextDocument, symbols: XrefSymbol[]): vscode.Location[] {
+    const locations: vscode.Location[] = [];
+    for (const symbol of symbols) {
+      const line = symbol.source.loc.startLine;
+      if (line >= document.lineCount) {
+        continue;
+      }
+      const range =
+        findNameRanges(document.lineAt(line).text, symbol.name, line)[0] ?? document.lineAt(line).range;
+      locations.push(new vscode.Location(document.uri, range));
+    }
+    return locations;
+  }
+}
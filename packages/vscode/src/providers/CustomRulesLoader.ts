@@ -10,7 +10,7 @@
 import * as vscode from 'vscode';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
-import type { JsonRule, JsonRuleFile } from '@sentriflow/core';
+import type { JsonRuleDefinition, JsonRuleFile } from '@sentriflow/core';
 import { isJsonRuleFile } from '@sentriflow/core';
 import { DEFAULT_RULES_DIRECTORY } from '../encryption/types';
 
@@ -23,7 +23,7 @@ const DEBOUNCE_DELAY = 300;
  */
 export class CustomRulesLoader {
   /** Rules indexed by file path for efficient add/remove operations */
-  private rulesByFile: Map<string, JsonRule[]> = new Map();
+  private rulesByFile: Map<string, JsonRuleDefinition[]> = new Map();
 
   /** File system watcher for .sentriflow/rules/*.json */
   private watcher: vscode.FileSystemWatcher | undefined;
@@ -202,7 +202,7 @@ export class CustomRulesLoader {
    * Later files (alphabetically) override earlier files for duplicate IDs.
    * @param includeDisabled If true, includes disabled rules (for tree display)
    */
-  getRules(includeDisabled: boolean = false): JsonRule[] {
+  getRules(includeDisabled: boolean = false): JsonRuleDefinition[] {
     const config = vscode.workspace.getConfiguration('sentriflow');
     if (!config.get<boolean>('customRules.enabled', true)) {
       return [];
@@ -214,7 +214,7 @@ export class CustomRulesLoader {
    * Get all loaded custom rules for display purposes (ignores enabled setting).
    * Used by tree view to show the pack even when disabled.
    */
-  getRulesForDisplay(): JsonRule[] {
+  getRulesForDisplay(): JsonRuleDefinition[] {
     return this.getMergedRules(true);
   }
 
@@ -222,7 +222,7 @@ export class CustomRulesLoader {
    * Internal method to merge rules from all files.
    * @param includeDisabled If true, includes disabled rules
    */
-  private getMergedRules(includeDisabled: boolean): JsonRule[] {
+  private getMergedRules(includeDisabled: boolean): JsonRuleDefinition[] {
     const config = vscode.workspace.getConfiguration('sentriflow');
 
     // Get disabled rules set
@@ -231,7 +231,7 @@ export class CustomRulesLoader {
       : new Set(config.get<string[]>('customRules.disabledRules', []));
 
     // Merge rules from all files
-    const allRules: JsonRule[] = [];
+    const allRules: JsonRuleDefinition[] = [];
     const seenIds = new Set<string>();
 
     // Process in reverse alphabetical order so later files override earlier
@@ -291,7 +291,7 @@ export class CustomRulesLoader {
    * Find the original JsonRule by ID.
    * Returns the rule and its source file path, or undefined if not found.
    */
-  findRuleById(ruleId: string): { rule: JsonRule; filePath: string } | undefined {
+  findRuleById(ruleId: string): { rule: JsonRuleDefinition; filePath: string } | undefined {
     for (const [filePath, rules] of this.rulesByFile) {
       const rule = rules.find(r => r.id === ruleId);
       if (rule) {
@@ -0,0 +1,122 @@
+/**
+ * SentriFlow Outline Providers
+ *
+ * Document symbols (Outline view, breadcrumbs) and folding ranges built from
+ * the parsed ConfigNode tree: `interface`, `router bgp`, `config firewall
+ * policy` and other sections, nested as in the AST.
+ */
+
+import * as vscode from 'vscode';
+import type { ConfigNode } from '@sentriflow/core';
+import { parseDocument } from '../services/scanner';
+
+/**
+ * Symbol kind by section block depth: top-level sections are namespaces,
+ * nested blocks (address families, policy entries) modules, deeper ones classes.
+ */
+const SYMBOL_KINDS = [
+  vscode.SymbolKind.Namespace,
+  vscode.SymbolKind.Module,
+  vscode.SymbolKind.Class,
+];
+
+/**
+ * Last line of a section, including its descendants.
+ * Section nodes only cover their own line in `loc`.
+ */
+function getSectionEndLine(node: ConfigNode): number {
+  let end = node.loc.endLine;
+  for (const child of node.children) {
+    end = Math.max(end, getSectionEndLine(child));
+  }
+  return end;
+}
+
+/**
+ * Visits the sections of a tree, flattening virtual roots.
+ */
+function forEachSection(
+  nodes: ConfigNode[],
+  visit: (section: ConfigNode) => void
+): void {
+  for (const node of nodes) {
+    if (node.type === 'virtual_root') {
+      forEachSection(node.children, visit);
+    } else if (node.type === 'section') {
+      visit(node);
+    }
+  }
+}
+
+/**
+ * Document symbol provider: configuration sections in the Outline view and
+ * breadcrumbs. Commands are left out to keep the outline readable.
+ */
+export class SentriFlowDocumentSymbolProvider implements vscode.DocumentSymbolProvider {
+  provideDocumentSymbols(
+    document: vscode.TextDocument,
+    _token: vscode.CancellationToken
+  ): vscode.DocumentSymbol[] {
+    const nodes = parseDocument(document);
+    return nodes ? this.toSymbols(document, nodes) : [];
+  }
+
+  private toSymbols(document: vscode.TextDocument, nodes: ConfigNode[]): vscode.DocumentSymbol[] {
+    const symbols: vscode.DocumentSymbol[] = [];
+
+    forEachSection(nodes, (section) => {
+      const startLine = section.loc.startLine;
+      const endLine = Math.min(getSectionEndLine(section), document.lineCount - 1);
+      if (startLine < 0 || startLine > endLine) {
+        return;
+      }
+
+      const depth = Math.min(section.blockDepth ?? 0, SYMBOL_KINDS.length - 1);
+      const headerLine = document.lineAt(startLine);
+      const symbol = new vscode.DocumentSymbol(
+        section.id,
+        '',
+        SYMBOL_KINDS[depth]!,
+        new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length),
+        new vscode.Range(
+          startLine,
+          headerLine.firstNonWhitespaceCharacterIndex,
+          startLine,
+          headerLine.text.length
+        )
+      );
+      symbol.children = this.toSymbols(document, section.children);
+      symbols.push(symbol);
+    });
+
+    return symbols;
+  }
+}
+
+/**
+ * Folding range provider: one range per section that spans several lines.
+ */
+export class SentriFlowFoldingRangeProvider implements vscode.FoldingRangeProvider {
+  provideFoldingRanges(
+    document: vscode.TextDocument,
+    _context: vscode.FoldingContext,
+    _token: vscode.CancellationToken
+  ): vscode.FoldingRange[] {
+    const nodes = parseDocument(document);
+    const ranges: vscode.FoldingRange[] = [];
+    if (nodes) {
+      this.collect(nodes, document.lineCount, ranges);
+    }
+    return ranges;
+  }
+
+  private collect(nodes: ConfigNode[], lineCount: number, ranges: vscode.FoldingRange[]): void {
+    forEachSection(nodes, (section) => {
+      const endLine = Math.min(getSectionEndLine(section), lineCount - 1);
+      if (endLine > section.loc.startLine) {
+        ranges.push(new vscode.FoldingRange(section.loc.startLine, endLine));
+      }
+      this.collect(section.children, lineCount, ranges);
+    });
+  }
+}
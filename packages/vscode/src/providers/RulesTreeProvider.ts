@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import type { IRule, RulePack, RuleVendor, Tag, TagType, JsonRule } from '@sentriflow/core';
+import type { IRule, RulePack, RuleVendor, Tag, TagType, JsonRuleDefinition } from '@sentriflow/core';
 
 // ============================================================================
 // Utility Functions (DRY)
@@ -172,7 +172,7 @@ export class RulesTreeProvider implements vscode.TreeDataProvider<RuleTreeItem>
   private _getAllRules: () => IRule[] = () => [];
   private _getDisabledRulesSet: () => Set<string> = () => new Set();
   private _isPackEncrypted: (packName: string) => boolean = () => false;
-  private _getCustomRules: () => JsonRule[] = () => [];
+  private _getCustomRules: () => JsonRuleDefinition[] = () => [];
 
   /** Pack name used for custom rules */
   private static readonly CUSTOM_RULES_PACK = 'Custom Rules';
@@ -191,7 +191,7 @@ export class RulesTreeProvider implements vscode.TreeDataProvider<RuleTreeItem>
     getAllRules: () => IRule[],
     getDisabledRulesSet: () => Set<string>,
     isPackEncrypted?: (packName: string) => boolean,
-    getCustomRules?: () => JsonRule[],
+    getCustomRules?: () => JsonRuleDefinition[],
   ): void {
     this._getDefaultPack = getDefaultPack;
     this._getRegisteredPacks = getRegisteredPacks;
@@ -331,7 +331,7 @@ export class RulesTreeProvider implements vscode.TreeDataProvider<RuleTreeItem>
   private getPackRules(packName: string): IRule[] {
     // Handle custom rules pack
     if (packName === RulesTreeProvider.CUSTOM_RULES_PACK) {
-      // Cast JsonRule[] to IRule[] for display purposes
+      // Cast JSON rule definitions to IRule[] for display purposes
       // The check property type differs but is not used for tree display
       return this._getCustomRules() as unknown as IRule[];
     }
@@ -172,7 +172,7 @@ export class SuppressionsTreeProvider
     if (isFileSuppression) {
       description = 'entire file';
     } else {
-      description = suppression.lineText || 'line suppression';
+      description = suppression.lineText || suppression.nodePath || 'line suppression';
     }
 
     // Icon based on type
@@ -187,7 +187,21 @@ export class SuppressionsTreeProvider
     if (suppression.lineText) {
       tooltip.appendMarkdown(`**Content:** \`${suppression.lineText}\`\n\n`);
     }
-    tooltip.appendMarkdown(`**Added:** ${new Date(suppression.timestamp).toLocaleString()}`);
+    if (suppression.nodePath) {
+      tooltip.appendMarkdown(`**Node:** \`${suppression.nodePath}\`\n\n`);
+    }
+    if (suppression.justification) {
+      tooltip.appendMarkdown(`**Justification:** ${suppression.justification}\n\n`);
+    }
+    if (suppression.owner) {
+      tooltip.appendMarkdown(`**Owner:** ${suppression.owner}\n\n`);
+    }
+    if (suppression.expires) {
+      tooltip.appendMarkdown(`**Expires:** ${suppression.expires}\n\n`);
+    }
+    if (suppression.timestamp > 0) {
+      tooltip.appendMarkdown(`**Added:** ${new Date(suppression.timestamp).toLocaleString()}`);
+    }
 
     const item = new SuppressionTreeItem(
       `suppression-${filePath}-${index}-${suppression.ruleId}-${suppression.contentHash || 'file'}`,
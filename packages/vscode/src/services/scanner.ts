@@ -6,12 +6,14 @@
  */
 
 import * as vscode from 'vscode';
-import { getVendor, isValidVendor } from '@sentriflow/core';
+import { applyInlineSuppressions, getVendor, isValidVendor } from '@sentriflow/core';
+import type { ConfigNode, RuleFix, RuleResult, VendorSchema } from '@sentriflow/core';
 import { getState } from '../state/context';
 import {
   SUPPORTED_LANGUAGES,
   MAX_FILE_SIZE,
-  formatCategory,
+  formatResultCategory,
+  matchesCategoryFilter,
 } from '../utils/helpers';
 import { getAllRules, getDisabledRulesSet } from './ruleManager';
 
@@ -33,6 +35,93 @@ export function mapSeverity(level: string): vscode.DiagnosticSeverity {
   }
 }
 
+/**
+ * Applies the sentriflow-disable-* comment directives of a document to its
+ * results, unless disabled with the `sentriflow.inlineSuppressions` setting.
+ * Unused, expired and invalid directives are added as warning results.
+ * Then applies the shared suppression file, if the workspace has one.
+ */
+export function applyDocumentSuppressions(
+  uri: vscode.Uri,
+  results: RuleResult[],
+  text: string,
+  vendor: VendorSchema
+): RuleResult[] {
+  const config = vscode.workspace.getConfiguration('sentriflow');
+  if (config.get<boolean>('inlineSuppressions', true)) {
+    results = applyInlineSuppressions(results, text, vendor).results;
+  }
+  return getState().suppressionManager.applySharedSuppressions(uri, results, text);
+}
+
+/**
+ * Key used to look up the fix for a diagnostic in ExtensionState.documentFixes.
+ */
+export function getFixKey(ruleId: string, line: number): string {
+  return `${ruleId}:${line}`;
+}
+
+/**
+ * Vendor option for parsing a document: the per-document override first,
+ * then the `sentriflow.defaultVendor` setting ('auto' detects the vendor).
+ */
+export function getVendorOption(uri: string): VendorSchema | 'auto' {
+  const state = getState();
+
+  // Check for per-document vendor override FIRST
+  const override = state.documentVendorOverrides.get(uri);
+  if (override) {
+    // Per-document override takes priority
+    if (isValidVendor(override)) {
+      if (state.debugMode) {
+        state.outputChannel.appendLine(
+          `[DEBUG] Using per-document vendor override: ${override}`
+        );
+      }
+      return getVendor(override);
+    }
+    return 'auto';
+  }
+
+  // Fall back to global setting
+  const config = vscode.workspace.getConfiguration('sentriflow');
+  const vendorSetting = config.get<string>('defaultVendor', 'auto');
+
+  if (vendorSetting !== 'auto') {
+    if (isValidVendor(vendorSetting)) {
+      return getVendor(vendorSetting);
+    }
+    state.outputChannel.appendLine(
+      `[WARN] Invalid vendor setting: ${vendorSetting}, falling back to auto`
+    );
+  }
+  return 'auto';
+}
+
+/**
+ * Parses a document with the shared incremental parser, for the AST-based
+ * editor features (outline, folding). Returns the cached AST when the
+ * document version was already parsed by a scan.
+ *
+ * @returns The AST, or undefined for documents that are not scanned
+ *          (non-file schemes, unsupported languages, large files)
+ */
+export function parseDocument(document: vscode.TextDocument): ConfigNode[] | undefined {
+  if (document.uri.scheme !== 'file') {
+    return undefined;
+  }
+  if (!SUPPORTED_LANGUAGES.includes(document.languageId)) {
+    return undefined;
+  }
+  const text = document.getText();
+  if (text.length > MAX_FILE_SIZE) {
+    return undefined;
+  }
+
+  const uri = document.uri.toString();
+  return getState().incrementalParser.parse(uri, text, document.version, getVendorOption(uri));
+}
+
 // ============================================================================
 // Scan Scheduling
 // ============================================================================
@@ -117,46 +206,17 @@ export function runScan(document: vscode.TextDocument, force: boolean): void {
     // Quick exit for empty documents
     if (text.trim().length === 0) {
       state.diagnosticCollection.set(document.uri, []);
+      state.documentFixes.delete(uri);
       updateStatusBarReady(state, 0, 0);
       return;
     }
 
-    // Check for per-document vendor override FIRST
-    const override = state.documentVendorOverrides.get(uri);
-    let vendorOption: ReturnType<typeof getVendor> | 'auto' = 'auto';
-
-    if (override) {
-      // Per-document override takes priority
-      if (isValidVendor(override)) {
-        vendorOption = getVendor(override);
-        if (state.debugMode) {
-          state.outputChannel.appendLine(
-            `[DEBUG] Using per-document vendor override: ${override}`
-          );
-        }
-      }
-    } else {
-      // Fall back to global setting
-      const config = vscode.workspace.getConfiguration('sentriflow');
-      const vendorSetting = config.get<string>('defaultVendor', 'auto');
-
-      if (vendorSetting !== 'auto') {
-        if (isValidVendor(vendorSetting)) {
-          vendorOption = getVendor(vendorSetting);
-        } else {
-          state.outputChannel.appendLine(
-            `[WARN] Invalid vendor setting: ${vendorSetting}, falling back to auto`
-          );
-        }
-      }
-    }
-
     // Use incremental parser with document URI and version for caching
     const nodes = state.incrementalParser.parse(
       uri,
       text,
       document.version,
-      vendorOption
+      getVendorOption(uri)
     );
 
     // Get the vendor that was actually used
@@ -199,7 +259,12 @@ export function runScan(document: vscode.TextDocument, force: boolean): void {
     }
 
     // Run with pre-indexed rules
-    const results = state.engine.run(nodes);
+    let results = state.engine.run(nodes, undefined, {
+      vendorId: currentVendorId ?? undefined,
+    });
+    if (state.currentVendor) {
+      results = applyDocumentSuppressions(document.uri, results, text, state.currentVendor);
+    }
 
     // Check if this scan is still current (not superseded by newer scan)
     if (state.scanVersions.get(uri) !== currentVersion) {
@@ -210,6 +275,7 @@ export function runScan(document: vscode.TextDocument, force: boolean): void {
     }
 
     const diagnostics: vscode.Diagnostic[] = [];
+    const fixes = new Map<string, RuleFix>();
     let errorCount = 0;
     let warningCount = 0;
 
@@ -221,18 +287,11 @@ export function runScan(document: vscode.TextDocument, force: boolean): void {
           const line = document.lineAt(startLine);
           const severity = mapSeverity(result.level);
           const rule = state.currentRuleMap.get(result.ruleId);
-          const category = formatCategory(rule);
+          const category = formatResultCategory(result, rule);
 
           // Apply category filter if set
-          if (state.categoryFilter) {
-            const ruleCats = rule?.category
-              ? Array.isArray(rule.category)
-                ? rule.category
-                : [rule.category]
-              : [];
-            if (!ruleCats.includes(state.categoryFilter)) {
-              continue; // Skip diagnostics not matching the filter
-            }
+          if (!matchesCategoryFilter(result, rule, state.categoryFilter)) {
+            continue; // Skip diagnostics not matching the filter
           }
 
           const diagnostic = new vscode.Diagnostic(
@@ -244,6 +303,10 @@ export function runScan(document: vscode.TextDocument, force: boolean): void {
           diagnostic.code = result.ruleId;
           diagnostics.push(diagnostic);
 
+          if (result.fix) {
+            fixes.set(getFixKey(result.ruleId, startLine), result.fix);
+          }
+
           if (result.level === 'error') errorCount++;
           if (result.level === 'warning') warningCount++;
         }
@@ -268,6 +331,7 @@ export function runScan(document: vscode.TextDocument, force: boolean): void {
     }
 
     state.diagnosticCollection.set(document.uri, filteredDiagnostics);
+    state.documentFixes.set(uri, fixes);
     updateStatusBarReady(state, errorCount, warningCount);
 
     if (state.debugMode) {
@@ -5,6 +5,8 @@
  * Extracted to allow unit testing without vscode dependency.
  */
 
+import { lineContentHash } from '@sentriflow/core';
+
 // ============================================================================
 // Constants
 // ============================================================================
@@ -18,18 +20,14 @@ export const MAX_PREVIEW_LENGTH = 80;
 
 /**
  * Compute content hash for line tracking using djb2 algorithm.
- * This hash is used to identify specific line content across edits.
+ * This hash is used to identify specific line content across edits, and is
+ * the same hash the shared suppression file uses (core `lineContentHash`).
  *
  * @param line - Line text to hash
  * @returns Hash string in base36
  */
 export function contentHash(line: string): string {
-  const trimmed = line.trim();
-  let hash = 5381;
-  for (let i = 0; i < trimmed.length; i++) {
-    hash = ((hash << 5) + hash) + trimmed.charCodeAt(i);
-  }
-  return (hash >>> 0).toString(36);
+  return lineContentHash(line);
 }
 
 /**
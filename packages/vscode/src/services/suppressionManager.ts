@@ -3,9 +3,21 @@
  *
  * Manages CRUD operations for diagnostic suppressions.
  * Allows users to suppress specific diagnostic occurrences or entire rules per file.
+ * Suppressions are stored in workspaceState, or in the shared
+ * `.sentriflow-suppressions.json` file (also read by the CLI) when it exists
+ * in a workspace folder.
  */
 
 import * as vscode from 'vscode';
+import {
+  SUPPRESSION_FILE_NAME,
+  SUPPRESSION_FILE_VERSION,
+  applySuppressionFile,
+  isSuppressionExpired,
+  parseSuppressionFile,
+  serializeSuppressionFile,
+} from '@sentriflow/core';
+import type { RuleResult, SuppressionEntry } from '@sentriflow/core';
 
 // Import and re-export pure helper functions (for testability)
 export {
@@ -45,6 +57,27 @@ export interface Suppression {
 
   /** Preview text for UI display (max 80 chars) */
   lineText?: string;
+
+  /** Node path of the finding (shared suppression file only) */
+  nodePath?: string;
+
+  /** Why the finding is accepted (required in the shared suppression file) */
+  justification?: string;
+
+  /** Who is accountable (required in the shared suppression file) */
+  owner?: string;
+
+  /** Expiry date (YYYY-MM-DD); expired suppressions are not applied */
+  expires?: string;
+}
+
+/**
+ * Details required for suppressions in the shared suppression file.
+ */
+export interface SuppressionDetails {
+  justification: string;
+  owner: string;
+  expires?: string;
 }
 
 /**
@@ -81,6 +114,43 @@ export const SUPPRESSION_SCHEMA_VERSION = 1;
 // Helper Functions (vscode-dependent)
 // ============================================================================
 
+/**
+ * Convert a shared suppression file entry to a suppression.
+ * Entries with a content hash or node path are line-level.
+ */
+function fromEntry(entry: SuppressionEntry): Suppression {
+  const created = entry.created ? Date.parse(`${entry.created}T00:00:00Z`) : NaN;
+  return {
+    type: entry.contentHash || entry.nodePath ? 'line' : 'file',
+    filePath: entry.file,
+    ruleId: entry.ruleId,
+    timestamp: Number.isNaN(created) ? 0 : created,
+    contentHash: entry.contentHash,
+    nodePath: entry.nodePath,
+    justification: entry.justification,
+    owner: entry.owner,
+    expires: entry.expires,
+  };
+}
+
+/**
+ * Convert a suppression to a shared suppression file entry.
+ */
+function toEntry(suppression: Suppression): SuppressionEntry {
+  return {
+    ruleId: suppression.ruleId,
+    file: suppression.filePath,
+    contentHash: suppression.contentHash,
+    nodePath: suppression.nodePath,
+    justification: suppression.justification ?? '',
+    owner: suppression.owner ?? '',
+    expires: suppression.expires,
+    created: suppression.timestamp > 0
+      ? new Date(suppression.timestamp).toISOString().slice(0, 10)
+      : undefined,
+  };
+}
+
 /**
  * Get relative path from workspace root.
  *
@@ -102,6 +172,11 @@ export class SuppressionManager implements vscode.Disposable {
   private _context: vscode.ExtensionContext | undefined;
   private _suppressions: Suppression[] = [];
 
+  // Shared suppression file, if one exists in a workspace folder
+  private _sharedFileUri: vscode.Uri | undefined;
+  private _sharedFileError: string | undefined;
+  private _watcher: vscode.FileSystemWatcher | undefined;
+
   // Indexes for efficient lookup
   private _byFile: Map<string, Suppression[]> = new Map();
   private _byFileRule: Set<string> = new Set();
@@ -111,6 +186,10 @@ export class SuppressionManager implements vscode.Disposable {
   private _onDidChange = new vscode.EventEmitter<void>();
   readonly onDidChange = this._onDidChange.event;
 
+  // Fired when the shared suppression file changes on disk (e.g. after a pull)
+  private _onDidReload = new vscode.EventEmitter<void>();
+  readonly onDidReload = this._onDidReload.event;
+
   // -------------------------------------------------------------------------
   // Disposal
   // -------------------------------------------------------------------------
@@ -119,7 +198,9 @@ export class SuppressionManager implements vscode.Disposable {
    * Dispose of resources held by this manager.
    */
   dispose(): void {
+    this._watcher?.dispose();
     this._onDidChange.dispose();
+    this._onDidReload.dispose();
   }
 
   // -------------------------------------------------------------------------
@@ -128,14 +209,24 @@ export class SuppressionManager implements vscode.Disposable {
 
   /**
    * Initialize the suppression manager.
-   * Loads suppressions from workspaceState and builds indexes.
+   * Loads suppressions from the shared suppression file or workspaceState,
+   * builds indexes and watches the shared file for changes.
    */
   async initialize(context: vscode.ExtensionContext): Promise<void> {
     this._context = context;
+    this._watchSharedFile();
     await this._load();
     this._buildIndexes();
   }
 
+  /**
+   * Whether suppressions are stored in the shared suppression file.
+   * New suppressions then need SuppressionDetails.
+   */
+  get usesSharedFile(): boolean {
+    return this._sharedFileUri !== undefined;
+  }
+
   // -------------------------------------------------------------------------
   // Create Operations
   // -------------------------------------------------------------------------
@@ -146,12 +237,16 @@ export class SuppressionManager implements vscode.Disposable {
   async suppressLine(
     document: vscode.TextDocument,
     lineNumber: number,
-    ruleId: string
+    ruleId: string,
+    details?: SuppressionDetails
   ): Promise<SuppressionResult> {
     const filePath = getRelativePath(document.uri);
     if (lineNumber < 0 || lineNumber >= document.lineCount) {
       return { success: false, error: 'Line number out of bounds' };
     }
+    if (this.usesSharedFile && !details) {
+      return { success: false, error: 'A justification and owner are required' };
+    }
     const lineText = document.lineAt(lineNumber).text;
     const hash = contentHash(lineText);
 
@@ -168,6 +263,7 @@ export class SuppressionManager implements vscode.Disposable {
       timestamp: Date.now(),
       contentHash: hash,
       lineText: truncateForPreview(lineText),
+      ...details,
     };
 
     this._suppressions.push(suppression);
@@ -183,9 +279,13 @@ export class SuppressionManager implements vscode.Disposable {
    */
   async suppressFile(
     document: vscode.TextDocument,
-    ruleId: string
+    ruleId: string,
+    details?: SuppressionDetails
   ): Promise<SuppressionResult> {
     const filePath = getRelativePath(document.uri);
+    if (this.usesSharedFile && !details) {
+      return { success: false, error: 'A justification and owner are required' };
+    }
 
     // Check for duplicate
     const key = `${filePath}:${ruleId}`;
@@ -198,6 +298,7 @@ export class SuppressionManager implements vscode.Disposable {
       filePath,
       ruleId,
       timestamp: Date.now(),
+      ...details,
     };
 
     this._suppressions.push(suppression);
@@ -292,6 +393,20 @@ export class SuppressionManager implements vscode.Disposable {
     return this._byFileHashRule.has(`${filePath}:${hash}:${ruleId}`);
   }
 
+  /**
+   * Apply the shared suppression file to scan results of a document.
+   * Handles what the diagnostic filter cannot: file globs and node paths.
+   */
+  applySharedSuppressions(documentUri: vscode.Uri, results: RuleResult[], text: string): RuleResult[] {
+    if (!this._sharedFileUri) {
+      return results;
+    }
+    return applySuppressionFile(results, this._suppressions.map(toEntry), {
+      filePath: getRelativePath(documentUri),
+      content: text,
+    }).results;
+  }
+
   // -------------------------------------------------------------------------
   // Delete Operations
   // -------------------------------------------------------------------------
@@ -358,11 +473,28 @@ export class SuppressionManager implements vscode.Disposable {
   // -------------------------------------------------------------------------
 
   /**
-   * Load suppressions from workspace state.
+   * Load suppressions from the shared suppression file, or from workspace
+   * state if there is none.
    */
   private async _load(): Promise<void> {
     if (!this._context) return;
 
+    this._sharedFileUri = await this._findSharedFile();
+    this._sharedFileError = undefined;
+    if (this._sharedFileUri) {
+      try {
+        const content = await vscode.workspace.fs.readFile(this._sharedFileUri);
+        const file = parseSuppressionFile(new TextDecoder().decode(content));
+        this._suppressions = file.suppressions.map(fromEntry);
+      } catch (err) {
+        // Never overwrite a file that could not be read (see _save)
+        this._sharedFileError = err instanceof Error ? err.message : String(err);
+        this._suppressions = [];
+        throw err;
+      }
+      return;
+    }
+
     const stored = this._context.workspaceState.get<SuppressionStore>(SUPPRESSION_STORAGE_KEY);
 
     if (stored && stored.version === SUPPRESSION_SCHEMA_VERSION) {
@@ -373,11 +505,23 @@ export class SuppressionManager implements vscode.Disposable {
   }
 
   /**
-   * Save suppressions to workspace state.
+   * Save suppressions to the shared suppression file or workspace state.
    */
   private async _save(): Promise<void> {
     if (!this._context) return;
 
+    if (this._sharedFileUri) {
+      if (this._sharedFileError) {
+        throw new Error(`Cannot update ${SUPPRESSION_FILE_NAME}: ${this._sharedFileError}`);
+      }
+      const content = serializeSuppressionFile({
+        version: SUPPRESSION_FILE_VERSION,
+        suppressions: this._suppressions.map(toEntry),
+      });
+      await vscode.workspace.fs.writeFile(this._sharedFileUri, new TextEncoder().encode(content));
+      return;
+    }
+
     const store: SuppressionStore = {
       version: SUPPRESSION_SCHEMA_VERSION,
       suppressions: this._suppressions,
@@ -386,8 +530,47 @@ export class SuppressionManager implements vscode.Disposable {
     await this._context.workspaceState.update(SUPPRESSION_STORAGE_KEY, store);
   }
 
+  /**
+   * Find the shared suppression file in the workspace folders.
+   */
+  private async _findSharedFile(): Promise<vscode.Uri | undefined> {
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      const uri = vscode.Uri.joinPath(folder.uri, SUPPRESSION_FILE_NAME);
+      try {
+        await vscode.workspace.fs.stat(uri);
+        return uri;
+      } catch {
+        // Not in this folder
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Reload suppressions when the shared suppression file is created,
+   * changed or deleted outside the extension.
+   */
+  private _watchSharedFile(): void {
+    this._watcher = vscode.workspace.createFileSystemWatcher(`**/${SUPPRESSION_FILE_NAME}`);
+    const reload = async () => {
+      try {
+        await this._load();
+      } catch {
+        // Recorded in _sharedFileError: nothing is suppressed until the file is fixed
+      }
+      this._buildIndexes();
+      this._onDidChange.fire();
+      this._onDidReload.fire();
+    };
+    this._watcher.onDidCreate(reload);
+    this._watcher.onDidChange(reload);
+    this._watcher.onDidDelete(reload);
+  }
+
   /**
    * Build lookup indexes from suppressions array.
+   * Expired suppressions stay listed but are not applied; suppressions with a
+   * node path are applied by applySharedSuppressions only.
    */
   private _buildIndexes(): void {
     this._byFile.clear();
@@ -400,6 +583,10 @@ export class SuppressionManager implements vscode.Disposable {
       existing.push(s);
       this._byFile.set(s.filePath, existing);
 
+      if (s.nodePath || isSuppressionExpired(toEntry(s))) {
+        continue;
+      }
+
       // By file+rule (for file-level suppressions)
       if (s.type === 'file') {
         this._byFileRule.add(`${s.filePath}:${s.ruleId}`);
@@ -13,6 +13,7 @@ import type {
   VendorSchema,
   IncrementalParser,
   RuleEngine,
+  RuleFix,
 } from '@sentriflow/core';
 import type { RulesTreeProvider } from '../providers/RulesTreeProvider';
 import type { IPAddressesTreeProvider } from '../providers/IPAddressesTreeProvider';
@@ -148,6 +149,9 @@ export interface ExtensionState {
   /** Per-document vendor overrides (URI → vendor ID) */
   documentVendorOverrides: Map<string, string>;
 
+  /** Machine-applicable fixes per document (URI → `ruleId:line` → fix) */
+  documentFixes: Map<string, Map<string, RuleFix>>;
+
   // ═══════════════════════════════════════════════════════════════════════════
   // Suppression Management (mutable)
   // ═══════════════════════════════════════════════════════════════════════════
@@ -7,7 +7,8 @@
 
 import { homedir } from 'node:os';
 import { join } from 'node:path';
-import type { IRule, RulePack } from '@sentriflow/core';
+import { isSuppressionFinding } from '@sentriflow/core';
+import type { IRule, RuleResult, RulePack } from '@sentriflow/core';
 
 // ============================================================================
 // Configuration Constants
@@ -82,6 +83,43 @@ export function formatCategory(rule: IRule | undefined): string {
     : rule.category;
 }
 
+/**
+ * Format the category of a result for display in diagnostic messages.
+ * Findings of unused, expired or invalid suppression directives have no rule
+ * and show as `suppression`.
+ *
+ * @param result The result to format the category for
+ * @param rule The rule of the result (undefined for directive findings)
+ * @returns Formatted category string
+ */
+export function formatResultCategory(result: RuleResult, rule: IRule | undefined): string {
+  return isSuppressionFinding(result) ? 'suppression' : formatCategory(rule);
+}
+
+/**
+ * Check whether a result is shown with the category filter set.
+ * Findings of suppression directives are always shown: they are about the
+ * document's comments, not about a rule category.
+ *
+ * @param result The result to check
+ * @param rule The rule of the result (undefined for directive findings)
+ * @param categoryFilter The active category filter, if any
+ * @returns True if the result matches the filter
+ */
+export function matchesCategoryFilter(
+  result: RuleResult,
+  rule: IRule | undefined,
+  categoryFilter: string | undefined
+): boolean {
+  if (!categoryFilter || isSuppressionFinding(result)) return true;
+  const ruleCats = rule?.category
+    ? Array.isArray(rule.category)
+      ? rule.category
+      : [rule.category]
+    : [];
+  return ruleCats.includes(categoryFilter);
+}
+
 /**
  * Get unique categories from a collection of rules.
  *
@@ -0,0 +1,86 @@
+// packages/vscode/test/diagnostics.test.ts
+//
+// Unit tests for the category of diagnostics and the category filter,
+// including the findings of inline suppression directives.
+
+import { describe, expect, test } from 'bun:test';
+import { applyInlineSuppressions, getVendor } from '@sentriflow/core';
+import type { IRule, RuleResult } from '@sentriflow/core';
+import { formatResultCategory, matchesCategoryFilter } from '../src/utils/helpers';
+
+const rule: IRule = {
+  id: 'TEST-SNMP-001',
+  selector: 'snmp-server community',
+  category: 'snmp',
+  metadata: { level: 'warning', obu: 'Network', owner: 'NetOps' },
+  check: () => [],
+};
+
+const finding: RuleResult = {
+  passed: false,
+  message: 'SNMP community configured',
+  ruleId: 'TEST-SNMP-001',
+  nodeId: 'snmp-server community public RO',
+  level: 'warning',
+  loc: { startLine: 3, endLine: 3 },
+};
+
+// Unused, expired and invalid directives of a document, as reported by the scan
+const directives = applyInlineSuppressions(
+  [],
+  [
+    '! sentriflow-disable-file TEST-SNMP-001',
+    '! sentriflow-disable-next-line TEST-SNMP-001 expires=2020-01-01',
+    'hostname R1',
+    '! sentriflow-disable-next-line not-a-rule',
+  ].join('\n'),
+  getVendor('cisco-ios')
+).results;
+
+// =============================================================================
+// Directive findings
+// =============================================================================
+
+describe('suppression directive diagnostics', () => {
+  test('are warnings on the line of the directive', () => {
+    expect(directives.map((r) => [r.ruleId, r.level, r.loc?.startLine])).toEqual([
+      ['SUPPRESSION-UNUSED', 'warning', 0],
+      ['SUPPRESSION-EXPIRED', 'warning', 1],
+      ['SUPPRESSION-INVALID', 'warning', 3],
+    ]);
+  });
+
+  test('show the suppression category', () => {
+    expect(directives.map((r) => formatResultCategory(r, undefined))).toEqual([
+      'suppression',
+      'suppression',
+      'suppression',
+    ]);
+    expect(formatResultCategory(finding, rule)).toBe('snmp');
+    expect(formatResultCategory(finding, undefined)).toBe('general');
+  });
+
+  test('are shown with any category filter', () => {
+    for (const result of directives) {
+      expect(matchesCategoryFilter(result, undefined, 'authentication')).toBe(true);
+    }
+  });
+});
+
+// =============================================================================
+// matchesCategoryFilter Tests
+// =============================================================================
+
+describe('matchesCategoryFilter', () => {
+  test('shows every result without a filter', () => {
+    expect(matchesCategoryFilter(finding, rule, undefined)).toBe(true);
+    expect(matchesCategoryFilter(finding, undefined, undefined)).toBe(true);
+  });
+
+  test('shows rule findings in the filtered category only', () => {
+    expect(matchesCategoryFilter(finding, rule, 'snmp')).toBe(true);
+    expect(matchesCategoryFilter(finding, rule, 'authentication')).toBe(false);
+    expect(matchesCategoryFilter(finding, { ...rule, category: ['aaa', 'snmp'] }, 'snmp')).toBe(true);
+    expect(matchesCategoryFilter(finding, undefined, 'snmp')).toBe(false);
+  });
+});